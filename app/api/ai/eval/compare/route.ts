@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { canAdmin, deny, getActorContext } from "@/lib/rbac";
+import { compareAiEvalRuns } from "@/lib/ai-eval";
+
+export async function GET(request: Request) {
+  const supabase = await createClient();
+  const actor = await getActorContext(supabase);
+
+  if (!canAdmin(actor.role)) {
+    return NextResponse.json(deny("Admin role required"), { status: 403 });
+  }
+
+  const params = new URL(request.url).searchParams;
+  const base = params.get("base");
+  const candidate = params.get("candidate");
+  if (!base || !candidate) {
+    return NextResponse.json({ ok: false, error: "base and candidate run ids are required" }, { status: 400 });
+  }
+
+  try {
+    const report = await compareAiEvalRuns(supabase, base, candidate);
+    if (!report) return NextResponse.json({ ok: false, error: "Run not found" }, { status: 404 });
+    return NextResponse.json({ ok: true, report });
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : "Failed to compare evaluation runs";
+    return NextResponse.json({ ok: false, error: msg }, { status: 500 });
+  }
+}
@@ -0,0 +1,150 @@
+import { NextResponse, after } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import {
+  canAdmin,
+  deny,
+  getActorContext,
+  getClientIp,
+  writeAuditLog,
+} from "@/lib/rbac";
+import {
+  MAX_EVAL_CASES,
+  createAiEvalRun,
+  getActiveAiEvalRun,
+  getAiEvalRun,
+  listAiEvalResults,
+  listAiEvalRuns,
+  parseAiEvalConfig,
+  parseExpectedSourceIds,
+  runAiEvalJob,
+  selectEvalTickets,
+} from "@/lib/ai-eval";
+
+export const runtime = "nodejs";
+
+type EvalBody = {
+  name?: unknown;
+  config?: unknown;
+  ticketIds?: unknown;
+  sameAsRunId?: unknown;
+  limit?: unknown;
+  expectedSourceIds?: unknown;
+};
+
+export async function GET(request: Request) {
+  const supabase = await createClient();
+  const actor = await getActorContext(supabase);
+
+  if (!canAdmin(actor.role)) {
+    return NextResponse.json(deny("Admin role required"), { status: 403 });
+  }
+
+  const id = new URL(request.url).searchParams.get("id");
+
+  try {
+    if (id) {
+      const run = await getAiEvalRun(supabase, id);
+      if (!run) return NextResponse.json({ ok: false, error: "Run not found" }, { status: 404 });
+      const results = await listAiEvalResults(supabase, id);
+      return NextResponse.json({ ok: true, run, results });
+    }
+
+    const runs = await listAiEvalRuns(supabase);
+    return NextResponse.json({ ok: true, runs });
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : "Failed to load evaluation runs";
+    return NextResponse.json({ ok: false, error: msg }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  const supabase = await createClient();
+  const actor = await getActorContext(supabase);
+
+  if (!canAdmin(actor.role)) {
+    return NextResponse.json(deny("Admin role required"), { status: 403 });
+  }
+
+  let body: EvalBody = {};
+  try {
+    body = (await request.json()) as EvalBody;
+  } catch {
+    // empty body = default config over recently rated tickets
+  }
+
+  const config = parseAiEvalConfig(body.config);
+  const ticketIds = Array.isArray(body.ticketIds)
+    ? body.ticketIds.filter((t): t is string => typeof t === "string" && t.trim() !== "")
+    : [];
+  const limit = typeof body.limit === "number" ? body.limit : undefined;
+
+  try {
+    const active = await getActiveAiEvalRun(supabase);
+    if (active) {
+      return NextResponse.json(
+        { ok: false, error: "An evaluation run is already running", run: active },
+        { status: 409 }
+      );
+    }
+
+    const sameAsRun =
+      typeof body.sameAsRunId === "string" ? await getAiEvalRun(supabase, body.sameAsRunId) : null;
+    if (typeof body.sameAsRunId === "string" && !sameAsRun) {
+      return NextResponse.json({ ok: false, error: "sameAsRunId run not found" }, { status: 404 });
+    }
+
+    const cases = await selectEvalTickets(supabase, { ticketIds, sameAsRun, limit });
+    if (cases.length === 0) {
+      return NextResponse.json(
+        { ok: false, error: "No eligible tickets: rate some resolved tickets or pass ticketIds" },
+        { status: 400 }
+      );
+    }
+
+    // A repeated case set keeps its expectations unless new ones are given.
+    const expectedSourceIds =
+      body.expectedSourceIds !== undefined
+        ? parseExpectedSourceIds(body.expectedSourceIds)
+        : parseExpectedSourceIds(sameAsRun?.expected_source_ids);
+
+    const name =
+      typeof body.name === "string" && body.name.trim()
+        ? body.name.trim()
+        : `Eval ${new Date().toISOString().slice(0, 16).replace("T", " ")}`;
+
+    const run = await createAiEvalRun(supabase, {
+      name,
+      config,
+      ticketIds: cases,
+      expectedSourceIds,
+      createdBy: actor.userId,
+    });
+    // A concurrent start won the insert.
+    if (!run) {
+      return NextResponse.json(
+        { ok: false, error: "An evaluation run is already running", run: await getActiveAiEvalRun(supabase) },
+        { status: 409 }
+      );
+    }
+
+    await writeAuditLog(supabase, {
+      actor_id: actor.userId,
+      actor_role: actor.role,
+      action: "ai.eval_start",
+      entity_type: "ai_eval_run",
+      entity_id: run.id,
+      before: null,
+      after: { name, config, cases: cases.length, max_cases: MAX_EVAL_CASES },
+      ip: getClientIp(request),
+      user_agent: request.headers.get("user-agent"),
+    });
+
+    // Run after the response is sent; progress is polled via GET ?id=.
+    after(() => runAiEvalJob(run.id));
+
+    return NextResponse.json({ ok: true, run }, { status: 202 });
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : "Failed to start evaluation run";
+    return NextResponse.json({ ok: false, error: msg }, { status: 500 });
+  }
+}
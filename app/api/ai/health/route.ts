@@ -1,17 +1,18 @@
 import { NextResponse } from "next/server";
-import { LocalAIConnector } from "@/lib/ai";
+import { aiBackendStatuses } from "@/lib/ai-router";
 
 export async function GET() {
-  const connector = new LocalAIConnector();
-  const isHealthy = await connector.healthCheck();
-
-  const endpoint = process.env.LOCAL_AI_ENDPOINT ?? "http://localhost:8080";
-  const model = process.env.LOCAL_AI_MODEL ?? "gpt-4";
+  const backends = await aiBackendStatuses();
+  // The primary (first healthy, else first configured) backend keeps the
+  // original single-backend response shape.
+  const primary = backends.find((b) => b.healthy && b.circuit !== "open") ?? backends[0]!;
+  const isHealthy = backends.some((b) => b.healthy);
 
   return NextResponse.json({
     ok: isHealthy,
-    host: endpoint,
-    model: model,
+    host: primary.endpoint,
+    model: primary.models.default,
     status: isHealthy ? "Online" : "Offline",
+    backends,
   });
 }
@@ -0,0 +1,93 @@
+import { NextResponse } from "next/server";
+import { aiPostmortemDraft, aiPostmortemDraftStream, type AiStreamEvent } from "@/lib/ai";
+import { loadPostmortemInput, postmortemEligibility } from "@/lib/postmortems";
+import type { PromptTemplateRef } from "@/lib/prompt-templates";
+import { canWrite, deny, getActorContext, getClientIp, writeAuditLog } from "@/lib/rbac";
+import { sseResponse, wantsEventStream } from "@/lib/sse";
+import { createClient } from "@/lib/supabase/server";
+
+type Body = {
+  ticketId?: unknown;
+  stream?: unknown;
+};
+
+// Drafts a postmortem for a P1/P2 incident from its record. Nothing is
+// stored: the editor saves the reviewed draft with PUT /api/tickets/:id/postmortem.
+export async function POST(request: Request) {
+  const supabase = await createClient();
+  const actor = await getActorContext(supabase);
+
+  if (!canWrite(actor.role)) {
+    return NextResponse.json(deny("Engineer or Admin role required"), { status: 403 });
+  }
+
+  let body: Body;
+  try {
+    body = (await request.json()) as Body;
+  } catch {
+    return NextResponse.json({ ok: false, error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const ticketId = typeof body.ticketId === "string" ? body.ticketId : "";
+  if (!ticketId) {
+    return NextResponse.json({ ok: false, error: "ticketId is required" }, { status: 400 });
+  }
+
+  const { data: ticket } = await (supabase.from("tickets") as any)
+    .select("id, type, priority")
+    .eq("id", ticketId)
+    .maybeSingle();
+
+  if (!ticket) return NextResponse.json({ ok: false, error: "Ticket not found" }, { status: 404 });
+  const ineligible = postmortemEligibility(ticket);
+  if (ineligible) return NextResponse.json({ ok: false, error: ineligible }, { status: 400 });
+
+  let input;
+  try {
+    input = await loadPostmortemInput(supabase, ticketId);
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : "Failed to load the incident record";
+    return NextResponse.json({ ok: false, error: msg }, { status: 500 });
+  }
+  if (!input) return NextResponse.json({ ok: false, error: "Ticket not found" }, { status: 404 });
+
+  const recordDraft = (evidenceCount: number, prompt: PromptTemplateRef | null) =>
+    writeAuditLog(supabase, {
+      actor_id: actor.userId,
+      actor_role: actor.role,
+      action: "ai.postmortem_draft",
+      entity_type: "ticket",
+      entity_id: ticketId,
+      before: null,
+      after: {
+        timeline_events: input.timeline.length,
+        comments: input.comments.length,
+        links: input.links.length,
+        evidence_count: evidenceCount,
+        prompt,
+      },
+      ip: getClientIp(request),
+      user_agent: request.headers.get("user-agent"),
+    });
+
+  if (wantsEventStream(request, body)) {
+    const events = async function* (): AsyncGenerator<AiStreamEvent<unknown>> {
+      let evidenceCount = 0;
+      for await (const event of aiPostmortemDraftStream(input)) {
+        if (event.type === "evidence") evidenceCount = event.evidence.length;
+        if (event.type === "result") await recordDraft(evidenceCount, event.prompt);
+        yield event;
+      }
+    };
+    return sseResponse(events());
+  }
+
+  try {
+    const result = await aiPostmortemDraft(input);
+    await recordDraft(result.evidence.length, result.prompt);
+    return NextResponse.json({ ok: true, ...result });
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : "AI request failed";
+    return NextResponse.json({ ok: false, error: msg }, { status: 500 });
+  }
+}
@@ -0,0 +1,102 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import {
+  canAdmin,
+  deny,
+  getActorContext,
+  getClientIp,
+  writeAuditLog,
+} from "@/lib/rbac";
+import {
+  activatePromptTemplate,
+  getPromptTemplate,
+  isPromptTemplateKey,
+  listPromptTemplates,
+} from "@/lib/prompt-templates";
+
+type PatchBody = {
+  active?: unknown;
+};
+
+export async function GET(
+  _request: Request,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  const supabase = await createClient();
+  const actor = await getActorContext(supabase);
+
+  if (!canAdmin(actor.role)) {
+    return NextResponse.json(deny("Admin role required"), { status: 403 });
+  }
+
+  const { id } = await ctx.params;
+
+  try {
+    const template = await getPromptTemplate(supabase, id);
+    if (!template) {
+      return NextResponse.json({ ok: false, error: "Prompt template not found" }, { status: 404 });
+    }
+    return NextResponse.json({ ok: true, template });
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : "Failed to load prompt template";
+    return NextResponse.json({ ok: false, error: msg }, { status: 500 });
+  }
+}
+
+// Versions are immutable; the only change allowed is making one the active
+// version of its key (which is also how an edit is rolled back).
+export async function PATCH(
+  request: Request,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  const supabase = await createClient();
+  const actor = await getActorContext(supabase);
+
+  if (!canAdmin(actor.role)) {
+    return NextResponse.json(deny("Admin role required"), { status: 403 });
+  }
+
+  const { id } = await ctx.params;
+
+  let body: PatchBody;
+  try {
+    body = (await request.json()) as PatchBody;
+  } catch {
+    return NextResponse.json({ ok: false, error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  if (body.active !== true) {
+    return NextResponse.json(
+      { ok: false, error: "Only { active: true } is supported; activate another version instead" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const target = await getPromptTemplate(supabase, id);
+    if (!target) {
+      return NextResponse.json({ ok: false, error: "Prompt template not found" }, { status: 404 });
+    }
+
+    const versions = isPromptTemplateKey(target.key) ? await listPromptTemplates(supabase, target.key) : [];
+    const previous = versions.find((t) => t.is_active);
+    const template = await activatePromptTemplate(supabase, id);
+
+    await writeAuditLog(supabase, {
+      actor_id: actor.userId,
+      actor_role: actor.role,
+      action: "ai.prompt_activate",
+      entity_type: "ai_prompt_template",
+      entity_id: id,
+      before: previous ? { id: previous.id, key: previous.key, version: previous.version } : null,
+      after: { id: target.id, key: target.key, version: target.version },
+      ip: getClientIp(request),
+      user_agent: request.headers.get("user-agent"),
+    });
+
+    return NextResponse.json({ ok: true, template });
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : "Failed to activate prompt template";
+    return NextResponse.json({ ok: false, error: msg }, { status: 500 });
+  }
+}
@@ -0,0 +1,109 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import {
+  canAdmin,
+  deny,
+  getActorContext,
+  getClientIp,
+  writeAuditLog,
+} from "@/lib/rbac";
+import {
+  PROMPT_VARIABLES,
+  createPromptTemplateVersion,
+  isPromptTemplateKey,
+  listPromptTemplates,
+  validatePromptTemplate,
+} from "@/lib/prompt-templates";
+
+type CreateBody = {
+  key?: unknown;
+  system?: unknown;
+  user?: unknown;
+  notes?: unknown;
+  activate?: unknown;
+};
+
+export async function GET(request: Request) {
+  const supabase = await createClient();
+  const actor = await getActorContext(supabase);
+
+  if (!canAdmin(actor.role)) {
+    return NextResponse.json(deny("Admin role required"), { status: 403 });
+  }
+
+  const key = new URL(request.url).searchParams.get("key");
+  if (key !== null && !isPromptTemplateKey(key)) {
+    return NextResponse.json({ ok: false, error: `Unknown prompt key: ${key}` }, { status: 400 });
+  }
+
+  try {
+    const templates = await listPromptTemplates(supabase, key);
+    return NextResponse.json({ ok: true, templates, variables: PROMPT_VARIABLES });
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : "Failed to list prompt templates";
+    return NextResponse.json({ ok: false, error: msg }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  const supabase = await createClient();
+  const actor = await getActorContext(supabase);
+
+  if (!canAdmin(actor.role)) {
+    return NextResponse.json(deny("Admin role required"), { status: 403 });
+  }
+
+  let body: CreateBody;
+  try {
+    body = (await request.json()) as CreateBody;
+  } catch {
+    return NextResponse.json({ ok: false, error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  if (!isPromptTemplateKey(body.key)) {
+    return NextResponse.json({ ok: false, error: "key must be suggest, sop_draft, triage or postmortem" }, { status: 400 });
+  }
+
+  const system = typeof body.system === "string" ? body.system : "";
+  const user = typeof body.user === "string" ? body.user : "";
+  const errors = validatePromptTemplate(body.key, system, user);
+  if (errors.length > 0) {
+    return NextResponse.json({ ok: false, error: errors.join("; "), errors }, { status: 400 });
+  }
+
+  try {
+    const template = await createPromptTemplateVersion(
+      supabase,
+      {
+        key: body.key,
+        system,
+        user,
+        notes: typeof body.notes === "string" && body.notes.trim() ? body.notes.trim() : null,
+        activate: body.activate === true,
+      },
+      actor.userId
+    );
+
+    await writeAuditLog(supabase, {
+      actor_id: actor.userId,
+      actor_role: actor.role,
+      action: "ai.prompt_create",
+      entity_type: "ai_prompt_template",
+      entity_id: template.id,
+      before: null,
+      after: {
+        key: template.key,
+        version: template.version,
+        is_active: template.is_active,
+        notes: template.notes,
+      },
+      ip: getClientIp(request),
+      user_agent: request.headers.get("user-agent"),
+    });
+
+    return NextResponse.json({ ok: true, template });
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : "Failed to create prompt template";
+    return NextResponse.json({ ok: false, error: msg }, { status: 500 });
+  }
+}
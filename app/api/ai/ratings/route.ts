@@ -8,7 +8,7 @@ export async function POST(request: Request) {
 
     try {
         const body = await request.json();
-        const { ticketId, recommendationPayload, rating, feedback, modelInfo } = body;
+        const { ticketId, recommendationPayload, rating, feedback, modelInfo, promptTemplate } = body;
 
         if (!ticketId || !rating) {
             return NextResponse.json({ error: "ticketId and rating are required" }, { status: 400 });
@@ -21,6 +21,9 @@ export async function POST(request: Request) {
                 rating: rating,
                 feedback: feedback,
                 model_info: modelInfo,
+                prompt_template_id: typeof promptTemplate?.id === "string" ? promptTemplate.id : null,
+                prompt_template_version:
+                    typeof promptTemplate?.version === "number" ? promptTemplate.version : null,
                 actor_id: actor.userId,
             })
             .select("*")
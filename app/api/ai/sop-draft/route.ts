@@ -1,5 +1,8 @@
 import { NextResponse } from "next/server";
-import { aiSopDraft } from "@/lib/ai";
+import { aiSopDraft, aiSopDraftStream, type AiStreamEvent, type SopDraftInput } from "@/lib/ai";
+import type { PromptTemplateRef } from "@/lib/prompt-templates";
+import { parseRagMetadataFilters } from "@/lib/rag";
+import { sseResponse, wantsEventStream } from "@/lib/sse";
 import { metrics, observeHttp, startTimer } from "@/lib/metrics";
 import {
   canWrite,
@@ -16,6 +19,8 @@ type Body = {
   validationNotes?: unknown;
   rollbackNotes?: unknown;
   topics?: unknown;
+  filters?: unknown;
+  stream?: unknown;
 };
 
 export async function POST(request: Request) {
@@ -56,6 +61,7 @@ export async function POST(request: Request) {
   const topics = Array.isArray(body.topics)
     ? body.topics.filter((t): t is string => typeof t === "string")
     : [];
+  const filters = parseRagMetadataFilters(body.filters);
 
   if (!ticketTitle.trim() || !resolutionNotes.trim()) {
     statusCode = 400;
@@ -67,21 +73,19 @@ export async function POST(request: Request) {
     );
   }
 
-  try {
-    const result = await aiSopDraft({
-      ticketTitle,
-      ticketDescription,
-      resolutionNotes,
-      validationNotes,
-      rollbackNotes,
-      topics,
-    });
+  const input: SopDraftInput = {
+    ticketTitle,
+    ticketDescription,
+    resolutionNotes,
+    validationNotes,
+    rollbackNotes,
+    topics,
+    filters,
+  };
 
+  const recordDraft = async (evidenceCount: number, prompt: PromptTemplateRef | null) => {
     metrics().aiSopDraftRequestsTotal.inc({ status: "ok" }, 1);
-    metrics().aiSopDraftEvidenceItemsTotal.inc(
-      { status: "ok" },
-      result.evidence.length
-    );
+    metrics().aiSopDraftEvidenceItemsTotal.inc({ status: "ok" }, evidenceCount);
 
     await writeAuditLog(supabaseForAuth, {
       actor_id: actor.userId,
@@ -93,11 +97,45 @@ export async function POST(request: Request) {
       after: {
         ticketTitle,
         topics,
-        evidence_count: result.evidence.length,
+        evidence_count: evidenceCount,
+        prompt,
       },
       ip: getClientIp(request),
       user_agent: request.headers.get("user-agent"),
     });
+  };
+
+  if (wantsEventStream(request, body)) {
+    // Metrics and audit are recorded once the draft has finished streaming;
+    // the HTTP histogram below only covers time to first byte.
+    const events = async function* (): AsyncGenerator<AiStreamEvent<unknown>> {
+      const streamStop = startTimer();
+      let evidenceCount = 0;
+      let status: "ok" | "error" = "error";
+      try {
+        for await (const event of aiSopDraftStream(input)) {
+          if (event.type === "evidence") evidenceCount = event.evidence.length;
+          if (event.type === "result") {
+            status = "ok";
+            await recordDraft(evidenceCount, event.prompt);
+          }
+          yield event;
+        }
+      } finally {
+        if (status === "error") metrics().aiSopDraftRequestsTotal.inc({ status: "error" }, 1);
+        metrics().aiSopDraftDurationSeconds.observe({ status }, streamStop());
+      }
+    };
+
+    const durationSeconds = stop();
+    observeHttp({ route: "/api/ai/sop-draft", method: "POST", status: 200, durationSeconds });
+    return sseResponse(events());
+  }
+
+  try {
+    const result = await aiSopDraft(input);
+
+    await recordDraft(result.evidence.length, result.prompt);
 
     return NextResponse.json({ ok: true, ...result });
   } catch (e) {
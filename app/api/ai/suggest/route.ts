@@ -1,10 +1,14 @@
 import { NextResponse } from "next/server";
-import { aiSuggest } from "@/lib/ai";
+import { aiSuggest, aiSuggestStream } from "@/lib/ai";
+import { parseRagMetadataFilters } from "@/lib/rag";
+import { sseResponse, wantsEventStream } from "@/lib/sse";
 
 type Body = {
   title?: unknown;
   description?: unknown;
   topics?: unknown;
+  filters?: unknown;
+  stream?: unknown;
 };
 
 export async function POST(request: Request) {
@@ -21,13 +25,18 @@ export async function POST(request: Request) {
   const topics = Array.isArray(body.topics)
     ? body.topics.filter((t): t is string => typeof t === "string")
     : [];
+  const filters = parseRagMetadataFilters(body.filters);
 
   if (!title.trim()) {
     return NextResponse.json({ error: "title is required" }, { status: 400 });
   }
 
+  if (wantsEventStream(request, body)) {
+    return sseResponse(aiSuggestStream({ title, description, topics, filters }));
+  }
+
   try {
-    const result = await aiSuggest({ title, description, topics });
+    const result = await aiSuggest({ title, description, topics, filters });
     return NextResponse.json({ ok: true, ...result });
   } catch (e) {
     const msg = e instanceof Error ? e.message : "AI request failed";
@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { canWrite, deny, getActorContext } from "@/lib/rbac";
+import { runTicketTriage, triageAutoApplyThreshold } from "@/lib/ticket-triage";
+
+type Body = {
+  title?: unknown;
+  description?: unknown;
+};
+
+// Preview for the create form: nothing is stored until the ticket is created
+// with the proposal attached (see POST /api/tickets).
+export async function POST(request: Request) {
+  const supabase = await createClient();
+  const actor = await getActorContext(supabase);
+
+  if (!canWrite(actor.role)) {
+    return NextResponse.json(deny("Engineer or Admin role required"), { status: 403 });
+  }
+
+  let body: Body;
+  try {
+    body = (await request.json()) as Body;
+  } catch {
+    return NextResponse.json({ ok: false, error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const title = typeof body.title === "string" ? body.title : "";
+  const description = typeof body.description === "string" ? body.description : "";
+
+  if (!title.trim()) {
+    return NextResponse.json({ ok: false, error: "title is required" }, { status: 400 });
+  }
+
+  try {
+    const run = await runTicketTriage({ title, description });
+    if (!run) {
+      return NextResponse.json({ ok: false, error: "Triage produced no usable proposal" }, { status: 502 });
+    }
+    return NextResponse.json({ ok: true, ...run, threshold: triageAutoApplyThreshold() });
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : "AI request failed";
+    return NextResponse.json({ ok: false, error: msg }, { status: 500 });
+  }
+}
@@ -1,10 +1,21 @@
 import { NextResponse } from "next/server";
 import { metrics } from "@/lib/metrics";
+import { evaluateSlas } from "@/lib/sla";
+import { createClient } from "@/lib/supabase/server";
 
 export const runtime = "nodejs";
 
 export async function GET() {
   const m = metrics();
+
+  // Each scrape re-checks SLA timers: it records new breaches and sets the
+  // SLA gauges. A failure leaves the previous values in place.
+  try {
+    await evaluateSlas(await createClient());
+  } catch (e) {
+    console.error("SLA evaluation failed:", e);
+  }
+
   const body = await m.registry.metrics();
 
   return new NextResponse(body, {
@@ -0,0 +1,69 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import {
+  canAdmin,
+  deny,
+  getActorContext,
+  getClientIp,
+  writeAuditLog,
+} from "@/lib/rbac";
+import { deleteRagItem, getRagItem } from "@/lib/rag-items";
+
+export async function GET(
+  _request: Request,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  const supabase = await createClient();
+  const actor = await getActorContext(supabase);
+
+  if (!canAdmin(actor.role)) {
+    return NextResponse.json(deny("Admin role required"), { status: 403 });
+  }
+
+  const { id } = await ctx.params;
+
+  try {
+    const item = await getRagItem(supabase, id);
+    if (!item) return NextResponse.json({ ok: false, error: "Item not found" }, { status: 404 });
+    return NextResponse.json({ ok: true, item });
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : "Failed to load RAG item";
+    return NextResponse.json({ ok: false, error: msg }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  request: Request,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  const supabase = await createClient();
+  const actor = await getActorContext(supabase);
+
+  if (!canAdmin(actor.role)) {
+    return NextResponse.json(deny("Admin role required"), { status: 403 });
+  }
+
+  const { id } = await ctx.params;
+
+  try {
+    const before = await deleteRagItem(supabase, id);
+    if (!before) return NextResponse.json({ ok: false, error: "Item not found" }, { status: 404 });
+
+    await writeAuditLog(supabase, {
+      actor_id: actor.userId,
+      actor_role: actor.role,
+      action: "rag.item_delete",
+      entity_type: "rag_item",
+      entity_id: id,
+      before,
+      after: null,
+      ip: getClientIp(request),
+      user_agent: request.headers.get("user-agent"),
+    });
+
+    return NextResponse.json({ ok: true });
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : "Failed to delete RAG item";
+    return NextResponse.json({ ok: false, error: msg }, { status: 500 });
+  }
+}
@@ -0,0 +1,148 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import {
+  canAdmin,
+  deny,
+  getActorContext,
+  getClientIp,
+  writeAuditLog,
+} from "@/lib/rbac";
+import { ragDeleteDocument } from "@/lib/rag";
+import { getRagDocument, updateRagDocument, type RagDocumentPatch } from "@/lib/rag-items";
+
+// Documents are addressed by query string rather than path segments because
+// source ids (e.g. GitHub "owner/repo#12") may contain slashes.
+function documentKey(request: Request): { sourceType: string; sourceId: string } | null {
+  const params = new URL(request.url).searchParams;
+  const sourceType = params.get("sourceType")?.trim();
+  const sourceId = params.get("sourceId")?.trim();
+  if (!sourceType || !sourceId) return null;
+  return { sourceType, sourceId };
+}
+
+const MISSING_KEY = { ok: false, error: "sourceType and sourceId are required" };
+
+type DocumentPatchBody = {
+  metadata?: unknown;
+  pinned?: unknown;
+  blacklisted?: unknown;
+  note?: unknown;
+};
+
+export async function GET(request: Request) {
+  const supabase = await createClient();
+  const actor = await getActorContext(supabase);
+
+  if (!canAdmin(actor.role)) {
+    return NextResponse.json(deny("Admin role required"), { status: 403 });
+  }
+
+  const key = documentKey(request);
+  if (!key) return NextResponse.json(MISSING_KEY, { status: 400 });
+
+  try {
+    const document = await getRagDocument(supabase, key.sourceType, key.sourceId);
+    if (!document) {
+      return NextResponse.json({ ok: false, error: "Document not found" }, { status: 404 });
+    }
+    return NextResponse.json({ ok: true, ...key, ...document });
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : "Failed to load RAG document";
+    return NextResponse.json({ ok: false, error: msg }, { status: 500 });
+  }
+}
+
+export async function PATCH(request: Request) {
+  const supabase = await createClient();
+  const actor = await getActorContext(supabase);
+
+  if (!canAdmin(actor.role)) {
+    return NextResponse.json(deny("Admin role required"), { status: 403 });
+  }
+
+  const key = documentKey(request);
+  if (!key) return NextResponse.json(MISSING_KEY, { status: 400 });
+
+  let body: DocumentPatchBody;
+  try {
+    body = (await request.json()) as DocumentPatchBody;
+  } catch {
+    return NextResponse.json({ ok: false, error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const patch: RagDocumentPatch = {};
+  if (body.metadata !== undefined) {
+    if (!body.metadata || typeof body.metadata !== "object" || Array.isArray(body.metadata)) {
+      return NextResponse.json({ ok: false, error: "metadata must be an object" }, { status: 400 });
+    }
+    patch.metadata = body.metadata as Record<string, any>;
+  }
+  if (typeof body.pinned === "boolean") patch.pinned = body.pinned;
+  if (typeof body.blacklisted === "boolean") patch.blacklisted = body.blacklisted;
+  if (typeof body.note === "string" || body.note === null) patch.note = body.note;
+
+  try {
+    const before = await getRagDocument(supabase, key.sourceType, key.sourceId);
+    if (!before) {
+      return NextResponse.json({ ok: false, error: "Document not found" }, { status: 404 });
+    }
+
+    await updateRagDocument(supabase, key.sourceType, key.sourceId, patch, actor.userId);
+    const after = await getRagDocument(supabase, key.sourceType, key.sourceId);
+
+    await writeAuditLog(supabase, {
+      actor_id: actor.userId,
+      actor_role: actor.role,
+      action: "rag.document_update",
+      entity_type: "rag_document",
+      entity_id: `${key.sourceType}:${key.sourceId}`,
+      before: { metadata: before.metadata, curation: before.curation },
+      after: { metadata: after?.metadata ?? null, curation: after?.curation ?? null },
+      ip: getClientIp(request),
+      user_agent: request.headers.get("user-agent"),
+    });
+
+    return NextResponse.json({ ok: true, ...key, ...after });
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : "Failed to update RAG document";
+    return NextResponse.json({ ok: false, error: msg }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: Request) {
+  const supabase = await createClient();
+  const actor = await getActorContext(supabase);
+
+  if (!canAdmin(actor.role)) {
+    return NextResponse.json(deny("Admin role required"), { status: 403 });
+  }
+
+  const key = documentKey(request);
+  if (!key) return NextResponse.json(MISSING_KEY, { status: 400 });
+
+  try {
+    // Curation flags are kept, so a blacklisted document stays blacklisted
+    // if its source is indexed again.
+    const chunksDeleted = await ragDeleteDocument(key.sourceType, key.sourceId);
+    if (chunksDeleted === 0) {
+      return NextResponse.json({ ok: false, error: "Document not found" }, { status: 404 });
+    }
+
+    await writeAuditLog(supabase, {
+      actor_id: actor.userId,
+      actor_role: actor.role,
+      action: "rag.document_delete",
+      entity_type: "rag_document",
+      entity_id: `${key.sourceType}:${key.sourceId}`,
+      before: { chunks: chunksDeleted },
+      after: null,
+      ip: getClientIp(request),
+      user_agent: request.headers.get("user-agent"),
+    });
+
+    return NextResponse.json({ ok: true, chunksDeleted });
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : "Failed to delete RAG document";
+    return NextResponse.json({ ok: false, error: msg }, { status: 500 });
+  }
+}
@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { canAdmin, deny, getActorContext } from "@/lib/rbac";
+import { listRagDocuments } from "@/lib/rag-items";
+
+function parseFlag(v: string | null): boolean | undefined {
+  if (v === "true") return true;
+  if (v === "false") return false;
+  return undefined;
+}
+
+export async function GET(request: Request) {
+  const supabase = await createClient();
+  const actor = await getActorContext(supabase);
+
+  if (!canAdmin(actor.role)) {
+    return NextResponse.json(deny("Admin role required"), { status: 403 });
+  }
+
+  const params = new URL(request.url).searchParams;
+  const page = Number(params.get("page") ?? "1");
+  const pageSize = Number(params.get("pageSize") ?? "25");
+
+  try {
+    const result = await listRagDocuments(supabase, {
+      page: Number.isFinite(page) ? page : 1,
+      pageSize: Number.isFinite(pageSize) ? pageSize : 25,
+      sourceType: params.get("sourceType"),
+      sourceId: params.get("sourceId"),
+      pinned: parseFlag(params.get("pinned")),
+      blacklisted: parseFlag(params.get("blacklisted")),
+    });
+    return NextResponse.json({ ok: true, ...result });
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : "Failed to list RAG documents";
+    return NextResponse.json({ ok: false, error: msg }, { status: 500 });
+  }
+}
@@ -0,0 +1,109 @@
+import { NextResponse, after } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import {
+  canAdmin,
+  deny,
+  getActorContext,
+  getClientIp,
+  writeAuditLog,
+} from "@/lib/rbac";
+import {
+  createRagReindexJob,
+  getActiveRagReindexJob,
+  getRagReindexJob,
+  listRagReindexJobs,
+  runRagReindexJob,
+} from "@/lib/rag-reindex";
+
+export const runtime = "nodejs";
+
+type ReindexBody = {
+  sourceTypes?: unknown;
+};
+
+export async function GET(request: Request) {
+  const supabase = await createClient();
+  const actor = await getActorContext(supabase);
+
+  if (!canAdmin(actor.role)) {
+    return NextResponse.json(deny("Admin role required"), { status: 403 });
+  }
+
+  const id = new URL(request.url).searchParams.get("id");
+
+  try {
+    if (id) {
+      const job = await getRagReindexJob(supabase, id);
+      if (!job) return NextResponse.json({ ok: false, error: "Job not found" }, { status: 404 });
+      return NextResponse.json({ ok: true, job });
+    }
+
+    const jobs = await listRagReindexJobs(supabase);
+    return NextResponse.json({ ok: true, jobs });
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : "Failed to load reindex jobs";
+    return NextResponse.json({ ok: false, error: msg }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  const supabase = await createClient();
+  const actor = await getActorContext(supabase);
+
+  if (!canAdmin(actor.role)) {
+    return NextResponse.json(deny("Admin role required"), { status: 403 });
+  }
+
+  let body: ReindexBody = {};
+  try {
+    body = (await request.json()) as ReindexBody;
+  } catch {
+    // empty body = reindex everything
+  }
+
+  const sourceTypes = Array.isArray(body.sourceTypes)
+    ? body.sourceTypes.filter((t): t is string => typeof t === "string" && t.trim() !== "")
+    : [];
+
+  try {
+    const active = await getActiveRagReindexJob(supabase);
+    const job = active
+      ? null
+      : await createRagReindexJob(supabase, {
+          sourceTypes,
+          createdBy: actor.userId,
+        });
+
+    // Already running, or a concurrent start won the insert.
+    if (!job) {
+      return NextResponse.json(
+        { ok: false, error: "A reindex job is already running", job: active ?? (await getActiveRagReindexJob(supabase)) },
+        { status: 409 }
+      );
+    }
+
+    await writeAuditLog(supabase, {
+      actor_id: actor.userId,
+      actor_role: actor.role,
+      action: "rag.reindex_start",
+      entity_type: "rag_reindex_job",
+      entity_id: job.id,
+      before: null,
+      after: {
+        source_types: sourceTypes,
+        embedding_provider: job.embedding_provider,
+        embedding_model: job.embedding_model,
+      },
+      ip: getClientIp(request),
+      user_agent: request.headers.get("user-agent"),
+    });
+
+    // Run after the response is sent; progress is polled via GET ?id=.
+    after(() => runRagReindexJob(job.id, sourceTypes));
+
+    return NextResponse.json({ ok: true, job }, { status: 202 });
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : "Failed to start reindex";
+    return NextResponse.json({ ok: false, error: msg }, { status: 500 });
+  }
+}
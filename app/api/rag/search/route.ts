@@ -1,10 +1,19 @@
 import { NextResponse } from "next/server";
-import { ragSearch } from "@/lib/rag";
+import {
+  isRagSearchMode,
+  parseRagMetadataFilters,
+  ragSearch,
+  ragSearchDocuments,
+} from "@/lib/rag";
 
 type SearchBody = {
   query?: unknown;
   limit?: unknown;
   filterSourceType?: unknown;
+  mode?: unknown;
+  filters?: unknown;
+  collapse?: unknown;
+  expandNeighbors?: unknown;
 };
 
 export async function POST(request: Request) {
@@ -24,8 +33,23 @@ export async function POST(request: Request) {
   const filterSourceType =
     typeof body.filterSourceType === "string" ? body.filterSourceType : null;
 
+  if (body.mode !== undefined && !isRagSearchMode(body.mode)) {
+    return NextResponse.json(
+      { error: "mode must be one of vector, lexical, hybrid" },
+      { status: 400 }
+    );
+  }
+  const mode = isRagSearchMode(body.mode) ? body.mode : "vector";
+  const filters = parseRagMetadataFilters(body.filters);
+  const collapse = body.collapse === true;
+  const expandNeighbors =
+    typeof body.expandNeighbors === "number" ? body.expandNeighbors : undefined;
+
   try {
-    const results = await ragSearch({ query, limit, filterSourceType });
+    const input = { query, limit, filterSourceType, mode, filters };
+    const results = collapse
+      ? await ragSearchDocuments({ ...input, expandNeighbors })
+      : await ragSearch(input);
     return NextResponse.json({ ok: true, results });
   } catch (e) {
     const msg = e instanceof Error ? e.message : "Unknown error";
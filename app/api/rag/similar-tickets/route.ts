@@ -1,10 +1,11 @@
 import { NextResponse } from "next/server";
-import { ragSearch } from "@/lib/rag";
+import { parseRagMetadataFilters, ragSearchDocuments } from "@/lib/rag";
 
 type SimilarTicketsBody = {
   title?: unknown;
   description?: unknown;
   limit?: unknown;
+  filters?: unknown;
 };
 
 export async function POST(request: Request) {
@@ -18,6 +19,7 @@ export async function POST(request: Request) {
   const title = typeof body.title === "string" ? body.title : "";
   const description = typeof body.description === "string" ? body.description : "";
   const limit = typeof body.limit === "number" ? body.limit : 8;
+  const filters = parseRagMetadataFilters(body.filters);
 
   const query = [title.trim(), description.trim()].filter(Boolean).join("\n\n");
   if (!query) {
@@ -28,10 +30,12 @@ export async function POST(request: Request) {
   }
 
   try {
-    const results = await ragSearch({
+    // One row per prior ticket, not per chunk.
+    const results = await ragSearchDocuments({
       query,
       limit,
       filterSourceType: "ticket",
+      filters,
     });
 
     return NextResponse.json({ ok: true, results });
@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { breachRiskList, evaluateSlas, slaAtRiskRatio } from "@/lib/sla";
+
+// Dashboard list: breached targets first, then those nearest their due time.
+export async function GET(request: Request) {
+  const supabase = await createClient();
+  const url = new URL(request.url);
+  const limit = Math.min(Math.max(Number(url.searchParams.get("limit")) || 20, 1), 100);
+
+  try {
+    const statuses = await evaluateSlas(supabase);
+    return NextResponse.json({
+      ok: true,
+      items: breachRiskList(statuses, limit),
+      breached: statuses.filter((s) => s.breached).length,
+      atRisk: statuses.filter((s) => s.at_risk).length,
+      riskRatio: slaAtRiskRatio(),
+    });
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : "Failed to evaluate SLAs";
+    return NextResponse.json({ ok: false, error: msg }, { status: 500 });
+  }
+}
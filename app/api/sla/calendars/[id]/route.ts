@@ -0,0 +1,110 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import {
+  canAdmin,
+  deny,
+  getActorContext,
+  getClientIp,
+  writeAuditLog,
+} from "@/lib/rbac";
+import { parseCalendarInput } from "@/lib/sla";
+
+export async function PATCH(
+  request: Request,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  const supabase = await createClient();
+  const actor = await getActorContext(supabase);
+
+  if (!canAdmin(actor.role)) {
+    return NextResponse.json(deny("Admin role required"), { status: 403 });
+  }
+
+  const { id } = await ctx.params;
+
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ ok: false, error: "Invalid JSON" }, { status: 400 });
+  }
+
+  const patch = parseCalendarInput(body, true);
+  if (typeof patch === "string") {
+    return NextResponse.json({ ok: false, error: patch }, { status: 400 });
+  }
+
+  const { data: before } = await (supabase.from("business_calendars") as any)
+    .select("*")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (!before) return NextResponse.json({ ok: false, error: "Calendar not found" }, { status: 404 });
+
+  if (patch.is_default && !before.is_default) {
+    await (supabase.from("business_calendars") as any).update({ is_default: false }).eq("is_default", true);
+  }
+
+  const { data: calendar, error } = await (supabase.from("business_calendars") as any)
+    .update({ ...patch, updated_at: new Date().toISOString() })
+    .eq("id", id)
+    .select("*")
+    .single();
+
+  if (error) {
+    const status = error.code === "23505" ? 409 : 500;
+    return NextResponse.json({ ok: false, error: status === 409 ? "A calendar with that name already exists" : error.message }, { status });
+  }
+
+  await writeAuditLog(supabase, {
+    actor_id: actor.userId,
+    actor_role: actor.role,
+    action: "sla.calendar_update",
+    entity_type: "business_calendar",
+    entity_id: id,
+    before,
+    after: calendar,
+    ip: getClientIp(request),
+    user_agent: request.headers.get("user-agent"),
+  });
+
+  return NextResponse.json({ ok: true, calendar });
+}
+
+// Timers on this calendar fall back to 24x7 (calendar_id is set null).
+export async function DELETE(
+  request: Request,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  const supabase = await createClient();
+  const actor = await getActorContext(supabase);
+
+  if (!canAdmin(actor.role)) {
+    return NextResponse.json(deny("Admin role required"), { status: 403 });
+  }
+
+  const { id } = await ctx.params;
+
+  const { data: before, error } = await (supabase.from("business_calendars") as any)
+    .delete()
+    .eq("id", id)
+    .select("*")
+    .maybeSingle();
+
+  if (error) return NextResponse.json({ ok: false, error: error.message }, { status: 500 });
+  if (!before) return NextResponse.json({ ok: false, error: "Calendar not found" }, { status: 404 });
+
+  await writeAuditLog(supabase, {
+    actor_id: actor.userId,
+    actor_role: actor.role,
+    action: "sla.calendar_delete",
+    entity_type: "business_calendar",
+    entity_id: id,
+    before,
+    after: null,
+    ip: getClientIp(request),
+    user_agent: request.headers.get("user-agent"),
+  });
+
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,71 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import {
+  canAdmin,
+  deny,
+  getActorContext,
+  getClientIp,
+  writeAuditLog,
+} from "@/lib/rbac";
+import { parseCalendarInput } from "@/lib/sla";
+
+export async function GET() {
+  const supabase = await createClient();
+
+  const { data, error } = await (supabase.from("business_calendars") as any)
+    .select("*")
+    .order("name", { ascending: true });
+
+  if (error) return NextResponse.json({ ok: false, error: error.message }, { status: 500 });
+  return NextResponse.json({ ok: true, calendars: data ?? [] });
+}
+
+export async function POST(request: Request) {
+  const supabase = await createClient();
+  const actor = await getActorContext(supabase);
+
+  if (!canAdmin(actor.role)) {
+    return NextResponse.json(deny("Admin role required"), { status: 403 });
+  }
+
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ ok: false, error: "Invalid JSON" }, { status: 400 });
+  }
+
+  const input = parseCalendarInput(body);
+  if (typeof input === "string") {
+    return NextResponse.json({ ok: false, error: input }, { status: 400 });
+  }
+
+  // Only one calendar can be the fallback for sites without their own.
+  if (input.is_default) {
+    await (supabase.from("business_calendars") as any).update({ is_default: false }).eq("is_default", true);
+  }
+
+  const { data: calendar, error } = await (supabase.from("business_calendars") as any)
+    .insert(input)
+    .select("*")
+    .single();
+
+  if (error) {
+    const status = error.code === "23505" ? 409 : 500;
+    return NextResponse.json({ ok: false, error: status === 409 ? "A calendar with that name already exists" : error.message }, { status });
+  }
+
+  await writeAuditLog(supabase, {
+    actor_id: actor.userId,
+    actor_role: actor.role,
+    action: "sla.calendar_create",
+    entity_type: "business_calendar",
+    entity_id: calendar.id,
+    before: null,
+    after: calendar,
+    ip: getClientIp(request),
+    user_agent: request.headers.get("user-agent"),
+  });
+
+  return NextResponse.json({ ok: true, calendar });
+}
@@ -0,0 +1,112 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import {
+  canAdmin,
+  deny,
+  getActorContext,
+  getClientIp,
+  writeAuditLog,
+} from "@/lib/rbac";
+import { parseSlaPolicyInput } from "@/lib/sla";
+
+export async function PATCH(
+  request: Request,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  const supabase = await createClient();
+  const actor = await getActorContext(supabase);
+
+  if (!canAdmin(actor.role)) {
+    return NextResponse.json(deny("Admin role required"), { status: 403 });
+  }
+
+  const { id } = await ctx.params;
+
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ ok: false, error: "Invalid JSON" }, { status: 400 });
+  }
+
+  const patch = parseSlaPolicyInput(body, true);
+  if (typeof patch === "string") {
+    return NextResponse.json({ ok: false, error: patch }, { status: 400 });
+  }
+
+  const { data: before } = await (supabase.from("sla_policies") as any)
+    .select("*")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (!before) return NextResponse.json({ ok: false, error: "Policy not found" }, { status: 404 });
+
+  const resolution = patch.resolution_minutes ?? before.resolution_minutes;
+  const response = patch.response_minutes ?? before.response_minutes;
+  if (resolution < response) {
+    return NextResponse.json(
+      { ok: false, error: "resolution_minutes cannot be shorter than response_minutes" },
+      { status: 400 }
+    );
+  }
+
+  const { data: policy, error } = await (supabase.from("sla_policies") as any)
+    .update({ ...patch, updated_at: new Date().toISOString() })
+    .eq("id", id)
+    .select("*")
+    .single();
+
+  if (error) return NextResponse.json({ ok: false, error: error.message }, { status: 500 });
+
+  await writeAuditLog(supabase, {
+    actor_id: actor.userId,
+    actor_role: actor.role,
+    action: "sla.policy_update",
+    entity_type: "sla_policy",
+    entity_id: id,
+    before,
+    after: policy,
+    ip: getClientIp(request),
+    user_agent: request.headers.get("user-agent"),
+  });
+
+  return NextResponse.json({ ok: true, policy });
+}
+
+// Running ticket timers keep their copied targets.
+export async function DELETE(
+  request: Request,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  const supabase = await createClient();
+  const actor = await getActorContext(supabase);
+
+  if (!canAdmin(actor.role)) {
+    return NextResponse.json(deny("Admin role required"), { status: 403 });
+  }
+
+  const { id } = await ctx.params;
+
+  const { data: before, error } = await (supabase.from("sla_policies") as any)
+    .delete()
+    .eq("id", id)
+    .select("*")
+    .maybeSingle();
+
+  if (error) return NextResponse.json({ ok: false, error: error.message }, { status: 500 });
+  if (!before) return NextResponse.json({ ok: false, error: "Policy not found" }, { status: 404 });
+
+  await writeAuditLog(supabase, {
+    actor_id: actor.userId,
+    actor_role: actor.role,
+    action: "sla.policy_delete",
+    entity_type: "sla_policy",
+    entity_id: id,
+    before,
+    after: null,
+    ip: getClientIp(request),
+    user_agent: request.headers.get("user-agent"),
+  });
+
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,64 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import {
+  canAdmin,
+  deny,
+  getActorContext,
+  getClientIp,
+  writeAuditLog,
+} from "@/lib/rbac";
+import { parseSlaPolicyInput } from "@/lib/sla";
+
+export async function GET() {
+  const supabase = await createClient();
+
+  const { data, error } = await (supabase.from("sla_policies") as any)
+    .select("*")
+    .order("name", { ascending: true });
+
+  if (error) return NextResponse.json({ ok: false, error: error.message }, { status: 500 });
+  return NextResponse.json({ ok: true, policies: data ?? [] });
+}
+
+// New policies apply to tickets created (or re-prioritised) from now on.
+export async function POST(request: Request) {
+  const supabase = await createClient();
+  const actor = await getActorContext(supabase);
+
+  if (!canAdmin(actor.role)) {
+    return NextResponse.json(deny("Admin role required"), { status: 403 });
+  }
+
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ ok: false, error: "Invalid JSON" }, { status: 400 });
+  }
+
+  const input = parseSlaPolicyInput(body);
+  if (typeof input === "string") {
+    return NextResponse.json({ ok: false, error: input }, { status: 400 });
+  }
+
+  const { data: policy, error } = await (supabase.from("sla_policies") as any)
+    .insert(input)
+    .select("*")
+    .single();
+
+  if (error) return NextResponse.json({ ok: false, error: error.message }, { status: 500 });
+
+  await writeAuditLog(supabase, {
+    actor_id: actor.userId,
+    actor_role: actor.role,
+    action: "sla.policy_create",
+    entity_type: "sla_policy",
+    entity_id: policy.id,
+    before: null,
+    after: policy,
+    ip: getClientIp(request),
+    user_agent: request.headers.get("user-agent"),
+  });
+
+  return NextResponse.json({ ok: true, policy });
+}
@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { approveSop } from "@/lib/sops";
+import { canAdmin, deny, getActorContext, getClientIp, writeAuditLog } from "@/lib/rbac";
+import { createClient } from "@/lib/supabase/server";
+
+export async function POST(
+    request: Request,
+    ctx: { params: Promise<{ id: string }> }
+) {
+    const supabase = await createClient();
+    const actor = await getActorContext(supabase);
+
+    if (!canAdmin(actor.role)) {
+        return NextResponse.json(deny("Admin role required"), { status: 403 });
+    }
+
+    const { id } = await ctx.params;
+
+    try {
+        const sop = await approveSop(id);
+
+        await writeAuditLog(supabase, {
+            actor_id: actor.userId,
+            actor_role: actor.role,
+            action: "sops.approve",
+            entity_type: "sop",
+            entity_id: id,
+            before: null,
+            after: { status: sop.status },
+            ip: getClientIp(request),
+            user_agent: request.headers.get("user-agent"),
+        });
+
+        return NextResponse.json({ ok: true, sop });
+    } catch (e) {
+        const msg = e instanceof Error ? e.message : "Failed to approve SOP";
+        return NextResponse.json({ ok: false, error: msg }, { status: 500 });
+    }
+}
@@ -0,0 +1,126 @@
+import { NextResponse } from "next/server";
+import { deleteSop, getSopById, updateSop, type SopInput } from "@/lib/sops";
+import {
+    canAdmin,
+    canWrite,
+    deny,
+    getActorContext,
+    getClientIp,
+    writeAuditLog,
+} from "@/lib/rbac";
+import { createClient } from "@/lib/supabase/server";
+
+// Approval goes through /approve so it can be restricted to Admins.
+const EDITABLE_FIELDS: Array<keyof SopInput> = [
+    "title",
+    "problem_description",
+    "symptoms",
+    "root_cause",
+    "resolution_steps",
+    "validation_steps",
+    "rollback_procedures",
+    "references",
+    "tags",
+];
+
+export async function GET(
+    _request: Request,
+    ctx: { params: Promise<{ id: string }> }
+) {
+    const { id } = await ctx.params;
+
+    try {
+        const sop = await getSopById(id);
+        return NextResponse.json({ ok: true, sop });
+    } catch (e) {
+        const msg = e instanceof Error ? e.message : "SOP not found";
+        return NextResponse.json({ ok: false, error: msg }, { status: 404 });
+    }
+}
+
+export async function PATCH(
+    request: Request,
+    ctx: { params: Promise<{ id: string }> }
+) {
+    const supabase = await createClient();
+    const actor = await getActorContext(supabase);
+
+    if (!canWrite(actor.role)) {
+        return NextResponse.json(deny("Engineer or Admin role required"), { status: 403 });
+    }
+
+    const { id } = await ctx.params;
+
+    let body: any;
+    try {
+        body = await request.json();
+    } catch {
+        return NextResponse.json({ ok: false, error: "Invalid JSON" }, { status: 400 });
+    }
+
+    const updates: Partial<SopInput> = {};
+    for (const f of EDITABLE_FIELDS) {
+        if (body[f] !== undefined) (updates as any)[f] = body[f];
+    }
+
+    if (Object.keys(updates).length === 0) {
+        return NextResponse.json({ ok: false, error: "No editable fields provided" }, { status: 400 });
+    }
+
+    try {
+        const before = await getSopById(id);
+        const sop = await updateSop(id, updates);
+
+        await writeAuditLog(supabase, {
+            actor_id: actor.userId,
+            actor_role: actor.role,
+            action: "sops.update",
+            entity_type: "sop",
+            entity_id: id,
+            before,
+            after: sop,
+            ip: getClientIp(request),
+            user_agent: request.headers.get("user-agent"),
+        });
+
+        return NextResponse.json({ ok: true, sop });
+    } catch (e) {
+        const msg = e instanceof Error ? e.message : "Failed to update SOP";
+        return NextResponse.json({ ok: false, error: msg }, { status: 500 });
+    }
+}
+
+export async function DELETE(
+    request: Request,
+    ctx: { params: Promise<{ id: string }> }
+) {
+    const supabase = await createClient();
+    const actor = await getActorContext(supabase);
+
+    if (!canAdmin(actor.role)) {
+        return NextResponse.json(deny("Admin role required"), { status: 403 });
+    }
+
+    const { id } = await ctx.params;
+
+    try {
+        await deleteSop(id);
+
+        await writeAuditLog(supabase, {
+            actor_id: actor.userId,
+            actor_role: actor.role,
+            action: "sops.delete",
+            entity_type: "sop",
+            entity_id: id,
+            before: null,
+            after: null,
+            ip: getClientIp(request),
+            user_agent: request.headers.get("user-agent"),
+        });
+
+        return NextResponse.json({ ok: true });
+    } catch (e) {
+        const msg = e instanceof Error ? e.message : "Failed to delete SOP";
+        return NextResponse.json({ ok: false, error: msg }, { status: 500 });
+    }
+}
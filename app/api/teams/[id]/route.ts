@@ -0,0 +1,117 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import {
+  canAdmin,
+  deny,
+  getActorContext,
+  getClientIp,
+  writeAuditLog,
+} from "@/lib/rbac";
+import { getTeam, setTeamMembers } from "@/lib/ticket-assignment";
+
+export async function PATCH(
+  request: Request,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  const supabase = await createClient();
+  const actor = await getActorContext(supabase);
+
+  if (!canAdmin(actor.role)) {
+    return NextResponse.json(deny("Admin role required"), { status: 403 });
+  }
+
+  const { id } = await ctx.params;
+
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ ok: false, error: "Invalid JSON" }, { status: 400 });
+  }
+
+  const updates: Record<string, string> = {};
+  if (body?.name !== undefined) {
+    const name = typeof body.name === "string" ? body.name.trim() : "";
+    if (!name) return NextResponse.json({ ok: false, error: "name cannot be empty" }, { status: 400 });
+    updates.name = name;
+  }
+  if (typeof body?.description === "string") updates.description = body.description.trim();
+  const memberIds: string[] | null = Array.isArray(body?.memberIds)
+    ? body.memberIds.filter((v: unknown): v is string => typeof v === "string")
+    : null;
+
+  try {
+    const before = await getTeam(supabase, id);
+    if (!before) return NextResponse.json({ ok: false, error: "Team not found" }, { status: 404 });
+
+    let team = before;
+    if (Object.keys(updates).length > 0) {
+      const { data, error } = await (supabase.from("teams") as any)
+        .update({ ...updates, updated_at: new Date().toISOString() })
+        .eq("id", id)
+        .select("*")
+        .single();
+      if (error) {
+        const status = error.code === "23505" ? 409 : 500;
+        return NextResponse.json({ ok: false, error: status === 409 ? "A team with that name already exists" : error.message }, { status });
+      }
+      team = data;
+    }
+    if (memberIds) await setTeamMembers(supabase, id, memberIds);
+
+    await writeAuditLog(supabase, {
+      actor_id: actor.userId,
+      actor_role: actor.role,
+      action: "teams.update",
+      entity_type: "team",
+      entity_id: id,
+      before,
+      after: memberIds ? { ...team, member_ids: memberIds } : team,
+      ip: getClientIp(request),
+      user_agent: request.headers.get("user-agent"),
+    });
+
+    return NextResponse.json({ ok: true, team });
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : "Failed to update team";
+    return NextResponse.json({ ok: false, error: msg }, { status: 500 });
+  }
+}
+
+// Tickets routed to the team fall back to no queue (ON DELETE SET NULL).
+export async function DELETE(
+  request: Request,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  const supabase = await createClient();
+  const actor = await getActorContext(supabase);
+
+  if (!canAdmin(actor.role)) {
+    return NextResponse.json(deny("Admin role required"), { status: 403 });
+  }
+
+  const { id } = await ctx.params;
+
+  const { data: before, error } = await (supabase.from("teams") as any)
+    .delete()
+    .eq("id", id)
+    .select("*")
+    .maybeSingle();
+
+  if (error) return NextResponse.json({ ok: false, error: error.message }, { status: 500 });
+  if (!before) return NextResponse.json({ ok: false, error: "Team not found" }, { status: 404 });
+
+  await writeAuditLog(supabase, {
+    actor_id: actor.userId,
+    actor_role: actor.role,
+    action: "teams.delete",
+    entity_type: "team",
+    entity_id: id,
+    before,
+    after: null,
+    ip: getClientIp(request),
+    user_agent: request.headers.get("user-agent"),
+  });
+
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,78 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import {
+  canAdmin,
+  deny,
+  getActorContext,
+  getClientIp,
+  writeAuditLog,
+} from "@/lib/rbac";
+import { listTeams, setTeamMembers } from "@/lib/ticket-assignment";
+
+export async function GET() {
+  const supabase = await createClient();
+
+  try {
+    const teams = await listTeams(supabase);
+    return NextResponse.json({ ok: true, teams });
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : "Failed to load teams";
+    return NextResponse.json({ ok: false, error: msg }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  const supabase = await createClient();
+  const actor = await getActorContext(supabase);
+
+  if (!canAdmin(actor.role)) {
+    return NextResponse.json(deny("Admin role required"), { status: 403 });
+  }
+
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ ok: false, error: "Invalid JSON" }, { status: 400 });
+  }
+
+  const name = typeof body?.name === "string" ? body.name.trim() : "";
+  if (!name) {
+    return NextResponse.json({ ok: false, error: "name is required" }, { status: 400 });
+  }
+  const description = typeof body?.description === "string" ? body.description.trim() : "";
+  const memberIds: string[] = Array.isArray(body?.memberIds)
+    ? body.memberIds.filter((v: unknown): v is string => typeof v === "string")
+    : [];
+
+  const { data: team, error } = await (supabase.from("teams") as any)
+    .insert({ name, description })
+    .select("*")
+    .single();
+
+  if (error) {
+    const status = error.code === "23505" ? 409 : 500;
+    return NextResponse.json({ ok: false, error: status === 409 ? "A team with that name already exists" : error.message }, { status });
+  }
+
+  try {
+    await setTeamMembers(supabase, team.id, memberIds);
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : "Failed to set team members";
+    return NextResponse.json({ ok: false, error: msg }, { status: 500 });
+  }
+
+  await writeAuditLog(supabase, {
+    actor_id: actor.userId,
+    actor_role: actor.role,
+    action: "teams.create",
+    entity_type: "team",
+    entity_id: team.id,
+    before: null,
+    after: { ...team, member_ids: memberIds },
+    ip: getClientIp(request),
+    user_agent: request.headers.get("user-agent"),
+  });
+
+  return NextResponse.json({ ok: true, team });
+}
@@ -0,0 +1,83 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import {
+  canWrite,
+  deny,
+  getActorContext,
+  getClientIp,
+  writeAuditLog,
+} from "@/lib/rbac";
+import { assignTicket, getTeam, listAssignees, parseAssignment } from "@/lib/ticket-assignment";
+
+// Body: { assignedTo?: userId | "me" | null, teamId?: teamId | null }
+export async function POST(
+  request: Request,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  const supabase = await createClient();
+  const actor = await getActorContext(supabase);
+
+  if (!canWrite(actor.role)) {
+    return NextResponse.json(deny("Engineer or Admin role required"), { status: 403 });
+  }
+
+  const { id } = await ctx.params;
+
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ ok: false, error: "Invalid JSON" }, { status: 400 });
+  }
+
+  const change = parseAssignment(body, actor);
+  if (typeof change === "string") {
+    return NextResponse.json({ ok: false, error: change }, { status: 400 });
+  }
+
+  const { data: before } = await (supabase.from("tickets") as any)
+    .select("*")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (!before) {
+    return NextResponse.json({ ok: false, error: "Ticket not found" }, { status: 404 });
+  }
+
+  try {
+    if (change.assigned_to) {
+      const assignees = await listAssignees(supabase);
+      if (!assignees.has(change.assigned_to)) {
+        return NextResponse.json(
+          { ok: false, error: "Tickets can only be assigned to Engineers or Admins" },
+          { status: 400 }
+        );
+      }
+    }
+    if (change.team_id && !(await getTeam(supabase, change.team_id))) {
+      return NextResponse.json({ ok: false, error: "Team not found" }, { status: 404 });
+    }
+
+    const updated = await assignTicket(supabase, actor.userId, before, change);
+    if (!updated) {
+      return NextResponse.json({ ok: true, ticket: before, message: "No changes" });
+    }
+
+    await writeAuditLog(supabase, {
+      actor_id: actor.userId,
+      actor_role: actor.role,
+      action: "tickets.assign",
+      entity_type: "ticket",
+      entity_id: id,
+      before: { assigned_to: before.assigned_to, team_id: before.team_id },
+      after: { assigned_to: updated.assigned_to, team_id: updated.team_id },
+      ip: getClientIp(request),
+      user_agent: request.headers.get("user-agent"),
+    });
+
+    return NextResponse.json({ ok: true, ticket: updated });
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : "Failed to assign ticket";
+    return NextResponse.json({ ok: false, error: msg }, { status: 500 });
+  }
+}
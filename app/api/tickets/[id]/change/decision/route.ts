@@ -0,0 +1,71 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import {
+  canWrite,
+  deny,
+  getActorContext,
+  getClientIp,
+  writeAuditLog,
+} from "@/lib/rbac";
+import { decideChangeRequest, getChangeRequest } from "@/lib/change-requests";
+
+// A named approver approves or rejects a pending change.
+export async function POST(
+  request: Request,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  const supabase = await createClient();
+  const actor = await getActorContext(supabase);
+
+  if (!canWrite(actor.role)) {
+    return NextResponse.json(deny("Engineer or Admin role required"), { status: 403 });
+  }
+
+  const { id } = await ctx.params;
+
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ ok: false, error: "Invalid JSON" }, { status: 400 });
+  }
+
+  const decision = body?.decision;
+  if (decision !== "approved" && decision !== "rejected") {
+    return NextResponse.json({ ok: false, error: "decision must be approved or rejected" }, { status: 400 });
+  }
+  if (body?.comment !== undefined && typeof body.comment !== "string") {
+    return NextResponse.json({ ok: false, error: "comment must be a string" }, { status: 400 });
+  }
+  const comment = (body?.comment ?? "").trim();
+  if (decision === "rejected" && !comment) {
+    return NextResponse.json({ ok: false, error: "Give a reason when rejecting a change" }, { status: 400 });
+  }
+
+  try {
+    const before = await getChangeRequest(supabase, id);
+    if (!before) return NextResponse.json({ ok: false, error: "Change request not found" }, { status: 404 });
+
+    const result = await decideChangeRequest(supabase, actor, before, decision, comment);
+    if (typeof result === "string") {
+      const status = before.approvers.some((a) => a.approver_id === actor.userId) ? 400 : 403;
+      return NextResponse.json({ ok: false, error: result }, { status });
+    }
+
+    await writeAuditLog(supabase, {
+      actor_id: actor.userId,
+      actor_role: actor.role,
+      action: decision === "approved" ? "changes.approve" : "changes.reject",
+      entity_type: "ticket",
+      entity_id: id,
+      before: { approval_status: before.approval_status },
+      after: { approval_status: result.change.approval_status, decision, comment: comment || null },
+      ip: getClientIp(request),
+      user_agent: request.headers.get("user-agent"),
+    });
+
+    return NextResponse.json({ ok: true, change: result.change, settled: result.settled });
+  } catch (e: any) {
+    return NextResponse.json({ ok: false, error: e?.message ?? "Failed to record decision" }, { status: 500 });
+  }
+}
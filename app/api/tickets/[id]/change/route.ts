@@ -0,0 +1,87 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import {
+  canWrite,
+  deny,
+  getActorContext,
+  getClientIp,
+  writeAuditLog,
+} from "@/lib/rbac";
+import { getChangeRequest, parseChangeInput, saveChangeRequest } from "@/lib/change-requests";
+
+export async function GET(
+  _request: Request,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  const supabase = await createClient();
+  const { id } = await ctx.params;
+
+  try {
+    const change = await getChangeRequest(supabase, id);
+    return NextResponse.json({ ok: true, change });
+  } catch (e: any) {
+    return NextResponse.json({ ok: false, error: e?.message ?? "Failed to load change" }, { status: 500 });
+  }
+}
+
+// Creates or edits the change request of a Change ticket. Editing a
+// submitted plan sends it back to draft for a fresh round of approvals.
+export async function PUT(
+  request: Request,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  const supabase = await createClient();
+  const actor = await getActorContext(supabase);
+
+  if (!canWrite(actor.role)) {
+    return NextResponse.json(deny("Engineer or Admin role required"), { status: 403 });
+  }
+
+  const { id } = await ctx.params;
+
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ ok: false, error: "Invalid JSON" }, { status: 400 });
+  }
+
+  const input = parseChangeInput(body);
+  if (typeof input === "string") {
+    return NextResponse.json({ ok: false, error: input }, { status: 400 });
+  }
+
+  const { data: ticket } = await (supabase.from("tickets") as any)
+    .select("id, type")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (!ticket) return NextResponse.json({ ok: false, error: "Ticket not found" }, { status: 404 });
+  if (ticket.type !== "Change") {
+    return NextResponse.json({ ok: false, error: "Only Change tickets have a change request" }, { status: 400 });
+  }
+
+  try {
+    const before = await getChangeRequest(supabase, id);
+    const result = await saveChangeRequest(supabase, id, input);
+    if (typeof result === "string") {
+      return NextResponse.json({ ok: false, error: result }, { status: 400 });
+    }
+
+    await writeAuditLog(supabase, {
+      actor_id: actor.userId,
+      actor_role: actor.role,
+      action: before ? "changes.update" : "changes.create",
+      entity_type: "ticket",
+      entity_id: id,
+      before,
+      after: result.change,
+      ip: getClientIp(request),
+      user_agent: request.headers.get("user-agent"),
+    });
+
+    return NextResponse.json({ ok: true, change: result.change, reopened: result.reopened });
+  } catch (e: any) {
+    return NextResponse.json({ ok: false, error: e?.message ?? "Failed to save change" }, { status: 500 });
+  }
+}
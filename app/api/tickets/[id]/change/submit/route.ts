@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import {
+  canWrite,
+  deny,
+  getActorContext,
+  getClientIp,
+  writeAuditLog,
+} from "@/lib/rbac";
+import { getChangeRequest, submissionProblem, submitChangeRequest } from "@/lib/change-requests";
+
+// Sends the change to its named approvers.
+export async function POST(
+  request: Request,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  const supabase = await createClient();
+  const actor = await getActorContext(supabase);
+
+  if (!canWrite(actor.role)) {
+    return NextResponse.json(deny("Engineer or Admin role required"), { status: 403 });
+  }
+
+  const { id } = await ctx.params;
+
+  try {
+    const before = await getChangeRequest(supabase, id);
+    if (!before) return NextResponse.json({ ok: false, error: "Change request not found" }, { status: 404 });
+
+    const problem = submissionProblem(before);
+    if (problem) return NextResponse.json({ ok: false, error: problem }, { status: 400 });
+
+    const change = await submitChangeRequest(supabase, before);
+
+    await writeAuditLog(supabase, {
+      actor_id: actor.userId,
+      actor_role: actor.role,
+      action: "changes.submit",
+      entity_type: "ticket",
+      entity_id: id,
+      before: { approval_status: before.approval_status },
+      after: { approval_status: change.approval_status, quorum: change.quorum, approvers: change.approvers.map((a) => a.username) },
+      ip: getClientIp(request),
+      user_agent: request.headers.get("user-agent"),
+    });
+
+    return NextResponse.json({ ok: true, change });
+  } catch (e: any) {
+    return NextResponse.json({ ok: false, error: e?.message ?? "Failed to submit change" }, { status: 500 });
+  }
+}
@@ -0,0 +1,110 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import {
+  canWrite,
+  deny,
+  getActorContext,
+  getClientIp,
+  writeAuditLog,
+} from "@/lib/rbac";
+import {
+  canModifyComment,
+  deleteTicketComment,
+  getTicketComment,
+  parseCommentInput,
+  updateTicketComment,
+} from "@/lib/ticket-comments";
+
+type Ctx = { params: Promise<{ id: string; commentId: string }> };
+
+export async function PATCH(request: Request, ctx: Ctx) {
+  const supabase = await createClient();
+  const actor = await getActorContext(supabase);
+
+  if (!canWrite(actor.role)) {
+    return NextResponse.json(deny("Engineer or Admin role required"), { status: 403 });
+  }
+
+  const { id, commentId } = await ctx.params;
+
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ ok: false, error: "Invalid JSON" }, { status: 400 });
+  }
+
+  const patch = parseCommentInput(body, true);
+  if (typeof patch === "string") {
+    return NextResponse.json({ ok: false, error: patch }, { status: 400 });
+  }
+
+  try {
+    const before = await getTicketComment(supabase, commentId);
+    if (!before || before.ticket_id !== id) {
+      return NextResponse.json({ ok: false, error: "Comment not found" }, { status: 404 });
+    }
+    if (!canModifyComment(actor, before)) {
+      return NextResponse.json(deny("Only the author or an Admin can edit this comment"), { status: 403 });
+    }
+
+    const comment = await updateTicketComment(supabase, actor, before, patch);
+
+    await writeAuditLog(supabase, {
+      actor_id: actor.userId,
+      actor_role: actor.role,
+      action: "tickets.comment_update",
+      entity_type: "ticket_comment",
+      entity_id: comment.id,
+      before,
+      after: comment,
+      ip: getClientIp(request),
+      user_agent: request.headers.get("user-agent"),
+    });
+
+    return NextResponse.json({ ok: true, comment });
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : "Failed to update comment";
+    return NextResponse.json({ ok: false, error: msg }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: Request, ctx: Ctx) {
+  const supabase = await createClient();
+  const actor = await getActorContext(supabase);
+
+  if (!canWrite(actor.role)) {
+    return NextResponse.json(deny("Engineer or Admin role required"), { status: 403 });
+  }
+
+  const { id, commentId } = await ctx.params;
+
+  try {
+    const comment = await getTicketComment(supabase, commentId);
+    if (!comment || comment.ticket_id !== id) {
+      return NextResponse.json({ ok: false, error: "Comment not found" }, { status: 404 });
+    }
+    if (!canModifyComment(actor, comment)) {
+      return NextResponse.json(deny("Only the author or an Admin can delete this comment"), { status: 403 });
+    }
+
+    await deleteTicketComment(supabase, actor, comment);
+
+    await writeAuditLog(supabase, {
+      actor_id: actor.userId,
+      actor_role: actor.role,
+      action: "tickets.comment_delete",
+      entity_type: "ticket_comment",
+      entity_id: comment.id,
+      before: comment,
+      after: null,
+      ip: getClientIp(request),
+      user_agent: request.headers.get("user-agent"),
+    });
+
+    return NextResponse.json({ ok: true });
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : "Failed to delete comment";
+    return NextResponse.json({ ok: false, error: msg }, { status: 500 });
+  }
+}
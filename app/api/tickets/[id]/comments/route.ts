@@ -0,0 +1,100 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import {
+  canWrite,
+  deny,
+  getActorContext,
+  getClientIp,
+  writeAuditLog,
+} from "@/lib/rbac";
+import {
+  createTicketComment,
+  listTicketComments,
+  parseCommentInput,
+} from "@/lib/ticket-comments";
+import { recordFirstResponse } from "@/lib/sla";
+
+export async function GET(
+  _request: Request,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  const supabase = await createClient();
+  const actor = await getActorContext(supabase);
+  const { id } = await ctx.params;
+
+  try {
+    const comments = await listTicketComments(supabase, id, actor.role);
+    return NextResponse.json({ ok: true, comments });
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : "Failed to load comments";
+    return NextResponse.json({ ok: false, error: msg }, { status: 500 });
+  }
+}
+
+export async function POST(
+  request: Request,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  const supabase = await createClient();
+  const actor = await getActorContext(supabase);
+
+  if (!canWrite(actor.role)) {
+    return NextResponse.json(deny("Engineer or Admin role required"), { status: 403 });
+  }
+
+  const { id } = await ctx.params;
+
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ ok: false, error: "Invalid JSON" }, { status: 400 });
+  }
+
+  const input = parseCommentInput(body);
+  if (typeof input === "string") {
+    return NextResponse.json({ ok: false, error: input }, { status: 400 });
+  }
+
+  const { data: ticket } = await (supabase.from("tickets") as any)
+    .select("id, priority")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (!ticket) {
+    return NextResponse.json({ ok: false, error: "Ticket not found" }, { status: 404 });
+  }
+
+  try {
+    const comment = await createTicketComment(supabase, actor, id, {
+      body: input.body!,
+      visibility: input.visibility!,
+    });
+
+    // A public reply is a response to the requester; internal notes are not.
+    if (comment.visibility === "public") {
+      try {
+        await recordFirstResponse(supabase, ticket);
+      } catch (e) {
+        console.error("Failed to record first response:", e);
+      }
+    }
+
+    await writeAuditLog(supabase, {
+      actor_id: actor.userId,
+      actor_role: actor.role,
+      action: "tickets.comment_create",
+      entity_type: "ticket_comment",
+      entity_id: comment.id,
+      before: null,
+      after: comment,
+      ip: getClientIp(request),
+      user_agent: request.headers.get("user-agent"),
+    });
+
+    return NextResponse.json({ ok: true, comment });
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : "Failed to add comment";
+    return NextResponse.json({ ok: false, error: msg }, { status: 500 });
+  }
+}
@@ -1,12 +1,32 @@
 import { NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
-import { ragUpsert } from "@/lib/rag";
+import { syncTicketRagMemory } from "@/lib/ticket-memory";
 import { getActorContext, getClientIp, writeAuditLog } from "@/lib/rbac";
+import { canSeeInternalNotes } from "@/lib/ticket-comments";
+import { onSlaStatusChange } from "@/lib/sla";
+import { isTicketStatus, transitionTicket, workflowErrorBody } from "@/lib/ticket-workflow";
 
-type TicketStatus = "Open" | "In Progress" | "Resolved" | "Closed";
+export async function GET(
+  _request: Request,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  const supabase = await createClient();
+  const actor = await getActorContext(supabase);
+  const { id } = await ctx.params;
+
+  const { data, error } = await (supabase.from("ticket_events") as any)
+    .select("*")
+    .eq("ticket_id", id)
+    .order("created_at", { ascending: true });
+
+  if (error) return NextResponse.json({ ok: false, error: error.message }, { status: 500 });
+
+  // Viewers do not see that internal work notes exist.
+  const events = canSeeInternalNotes(actor.role)
+    ? data ?? []
+    : (data ?? []).filter((ev: any) => !(ev.event_type === "commented" && ev.payload?.visibility === "internal"));
 
-function isTicketStatus(v: string): v is TicketStatus {
-  return ["Open", "In Progress", "Resolved", "Closed"].includes(v);
+  return NextResponse.json({ ok: true, events });
 }
 
 export async function POST(
@@ -37,27 +57,17 @@ export async function POST(
   if (getErr || !existing) return NextResponse.json({ ok: false, error: getErr?.message ?? "Not found" }, { status: 404 });
 
   const fromStatus = existing.status;
-  const patch: any = { status: nextStatus };
 
-  if (nextStatus === "Resolved" && !existing.resolved_at) patch.resolved_at = new Date().toISOString();
-  if (nextStatus === "Closed" && !existing.closed_at) patch.closed_at = new Date().toISOString();
-
-  const { data: updated, error: updErr } = await (supabase.from("tickets") as any)
-    .update(patch)
-    .eq("id", id)
-    .select("*")
-    .single();
-
-  if (updErr) return NextResponse.json({ ok: false, error: updErr.message }, { status: 500 });
-
-  await (supabase.from("ticket_events") as any).insert({
-    ticket_id: updated.id,
-    actor_id: actor.userId,
-    event_type: "status_changed",
-    from_status: fromStatus,
-    to_status: nextStatus,
-    payload: {},
-  });
+  let updated: any;
+  try {
+    const result = await transitionTicket(supabase, actor, existing, nextStatus);
+    if ("violations" in result) {
+      return NextResponse.json(workflowErrorBody(existing, nextStatus, result.violations), { status: 422 });
+    }
+    updated = result.ticket;
+  } catch (e: any) {
+    return NextResponse.json({ ok: false, error: e?.message ?? "Failed to update status" }, { status: 500 });
+  }
 
   await writeAuditLog(supabase, {
     actor_id: actor.userId,
@@ -71,45 +81,15 @@ export async function POST(
     user_agent: request.headers.get("user-agent"),
   });
 
-  // When a ticket is resolved, store into RAG memory for future retrieval.
-  if (nextStatus === "Resolved") {
-    const contentParts = [
-      `Title: ${updated.title}`,
-      updated.service ? `Service: ${updated.service}` : "",
-      updated.site ? `Site: ${updated.site}` : "",
-      updated.topics?.length ? `Topics: ${updated.topics.join(", ")}` : "",
-      "",
-      "Description:",
-      updated.description ?? "",
-      "",
-      "Resolution Notes:",
-      updated.resolution_notes ?? "",
-    ].filter(Boolean);
-
-    const content = contentParts.join("\n");
-
-    try {
-      await ragUpsert({
-        sourceType: "ticket",
-        sourceId: updated.external_id ?? updated.id,
-        title: updated.title,
-        content,
-        metadata: {
-          ticket_id: updated.id,
-          external_id: updated.external_id,
-          type: updated.type,
-          priority: updated.priority,
-          status: updated.status,
-          service: updated.service,
-          site: updated.site,
-          topics: updated.topics,
-          resolved_at: updated.resolved_at,
-        },
-      });
-    } catch (e) {
-      console.error("Failed to upsert RAG:", e);
-    }
+  try {
+    await onSlaStatusChange(supabase, updated, fromStatus);
+  } catch (e) {
+    console.error("Failed to update ticket SLA:", e);
   }
 
+  // Resolved/closed tickets are stored into RAG memory for future retrieval;
+  // reopening one removes its (now disputed) resolution from memory.
+  await syncTicketRagMemory(updated);
+
   return NextResponse.json({ ok: true, ticket: updated });
 }
@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import {
+  canWrite,
+  deny,
+  getActorContext,
+  getClientIp,
+  writeAuditLog,
+} from "@/lib/rbac";
+import { deleteTicketLink, getTicketLink } from "@/lib/ticket-links";
+
+export async function DELETE(
+  request: Request,
+  ctx: { params: Promise<{ id: string; linkId: string }> }
+) {
+  const supabase = await createClient();
+  const actor = await getActorContext(supabase);
+
+  if (!canWrite(actor.role)) {
+    return NextResponse.json(deny("Engineer or Admin role required"), { status: 403 });
+  }
+
+  const { id, linkId } = await ctx.params;
+
+  try {
+    const link = await getTicketLink(supabase, linkId);
+    if (!link || (link.from_ticket_id !== id && link.to_ticket_id !== id)) {
+      return NextResponse.json({ ok: false, error: "Link not found" }, { status: 404 });
+    }
+
+    await deleteTicketLink(supabase, actor.userId, link);
+
+    await writeAuditLog(supabase, {
+      actor_id: actor.userId,
+      actor_role: actor.role,
+      action: "tickets.unlink",
+      entity_type: "ticket",
+      entity_id: id,
+      before: link,
+      after: null,
+      ip: getClientIp(request),
+      user_agent: request.headers.get("user-agent"),
+    });
+
+    return NextResponse.json({ ok: true });
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : "Failed to remove link";
+    return NextResponse.json({ ok: false, error: msg }, { status: 500 });
+  }
+}
@@ -0,0 +1,131 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import {
+  canWrite,
+  deny,
+  getActorContext,
+  getClientIp,
+  writeAuditLog,
+} from "@/lib/rbac";
+import {
+  TICKET_LINK_INPUTS,
+  createTicketLink,
+  findTicketLink,
+  isTicketLinkInput,
+  listTicketLinks,
+  normalizeTicketLink,
+  problemRollup,
+} from "@/lib/ticket-links";
+
+export async function GET(
+  _request: Request,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  const supabase = await createClient();
+  const { id } = await ctx.params;
+
+  const { data: ticket, error } = await (supabase.from("tickets") as any)
+    .select("id, type")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (error) return NextResponse.json({ ok: false, error: error.message }, { status: 500 });
+  if (!ticket) return NextResponse.json({ ok: false, error: "Ticket not found" }, { status: 404 });
+
+  try {
+    const links = await listTicketLinks(supabase, id);
+    const rollup = ticket.type === "Problem" ? await problemRollup(supabase, id) : null;
+    return NextResponse.json({ ok: true, links, rollup });
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : "Failed to load links";
+    return NextResponse.json({ ok: false, error: msg }, { status: 500 });
+  }
+}
+
+export async function POST(
+  request: Request,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  const supabase = await createClient();
+  const actor = await getActorContext(supabase);
+
+  if (!canWrite(actor.role)) {
+    return NextResponse.json(deny("Engineer or Admin role required"), { status: 403 });
+  }
+
+  const { id } = await ctx.params;
+
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ ok: false, error: "Invalid JSON" }, { status: 400 });
+  }
+
+  if (!isTicketLinkInput(body?.type)) {
+    return NextResponse.json(
+      { ok: false, error: `type must be one of: ${TICKET_LINK_INPUTS.join(", ")}` },
+      { status: 400 }
+    );
+  }
+  const otherId = typeof body?.ticketId === "string" ? body.ticketId.trim() : "";
+  if (!otherId) {
+    return NextResponse.json({ ok: false, error: "ticketId is required" }, { status: 400 });
+  }
+  if (otherId === id) {
+    return NextResponse.json({ ok: false, error: "A ticket cannot be linked to itself" }, { status: 400 });
+  }
+
+  const { data: tickets, error: ticketsErr } = await (supabase.from("tickets") as any)
+    .select("id, title, duplicate_of")
+    .in("id", [id, otherId]);
+
+  if (ticketsErr) return NextResponse.json({ ok: false, error: ticketsErr.message }, { status: 500 });
+  if ((tickets ?? []).length < 2) {
+    return NextResponse.json({ ok: false, error: "Ticket not found" }, { status: 404 });
+  }
+
+  const link = normalizeTicketLink(id, otherId, body.type);
+  const from = tickets.find((t: any) => t.id === link.from);
+  const to = tickets.find((t: any) => t.id === link.to);
+
+  if (link.type === "duplicate_of" && from.duplicate_of && from.duplicate_of !== to.id) {
+    return NextResponse.json(
+      { ok: false, error: "Ticket is already marked as a duplicate of another ticket" },
+      { status: 409 }
+    );
+  }
+  // As with merging: the target must be canonical, which also rules out a
+  // cycle back through a ticket already marked a duplicate of `from`.
+  if (link.type === "duplicate_of" && to.duplicate_of) {
+    return NextResponse.json(
+      { ok: false, error: "Cannot mark a ticket as a duplicate of a ticket that is itself a duplicate" },
+      { status: 409 }
+    );
+  }
+
+  try {
+    if (await findTicketLink(supabase, link)) {
+      return NextResponse.json({ ok: false, error: "Link already exists" }, { status: 409 });
+    }
+
+    const created = await createTicketLink(supabase, actor.userId, from, to, link.type);
+
+    await writeAuditLog(supabase, {
+      actor_id: actor.userId,
+      actor_role: actor.role,
+      action: "tickets.link",
+      entity_type: "ticket",
+      entity_id: id,
+      before: null,
+      after: created,
+      ip: getClientIp(request),
+      user_agent: request.headers.get("user-agent"),
+    });
+
+    return NextResponse.json({ ok: true, link: created });
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : "Failed to link tickets";
+    return NextResponse.json({ ok: false, error: msg }, { status: 500 });
+  }
+}
@@ -0,0 +1,104 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import {
+  canWrite,
+  deny,
+  getActorContext,
+  getClientIp,
+  writeAuditLog,
+} from "@/lib/rbac";
+import { mergeTickets } from "@/lib/ticket-links";
+import { checkTransition, getWorkflow, loadWorkflowFacts, workflowErrorBody } from "@/lib/ticket-workflow";
+
+const MAX_MERGE = 20;
+
+// The ticket in the path survives; `ticketIds` are folded into it and closed.
+export async function POST(
+  request: Request,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  const supabase = await createClient();
+  const actor = await getActorContext(supabase);
+
+  if (!canWrite(actor.role)) {
+    return NextResponse.json(deny("Engineer or Admin role required"), { status: 403 });
+  }
+
+  const { id } = await ctx.params;
+
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ ok: false, error: "Invalid JSON" }, { status: 400 });
+  }
+
+  const ticketIds: string[] = Array.isArray(body?.ticketIds)
+    ? [...new Set<string>(body.ticketIds.filter((v: unknown) => typeof v === "string" && v.trim()))]
+    : [];
+
+  if (ticketIds.length === 0) {
+    return NextResponse.json({ ok: false, error: "ticketIds must list at least one ticket" }, { status: 400 });
+  }
+  if (ticketIds.length > MAX_MERGE) {
+    return NextResponse.json({ ok: false, error: `At most ${MAX_MERGE} tickets can be merged at once` }, { status: 400 });
+  }
+  if (ticketIds.includes(id)) {
+    return NextResponse.json({ ok: false, error: "A ticket cannot be merged into itself" }, { status: 400 });
+  }
+
+  const { data: tickets, error: ticketsErr } = await (supabase.from("tickets") as any)
+    .select("*")
+    .in("id", [id, ...ticketIds]);
+
+  if (ticketsErr) return NextResponse.json({ ok: false, error: ticketsErr.message }, { status: 500 });
+
+  const target = (tickets ?? []).find((t: any) => t.id === id);
+  const sources = (tickets ?? []).filter((t: any) => t.id !== id);
+  if (!target || sources.length !== ticketIds.length) {
+    return NextResponse.json({ ok: false, error: "Ticket not found" }, { status: 404 });
+  }
+  if (target.duplicate_of) {
+    return NextResponse.json(
+      { ok: false, error: "Cannot merge into a ticket that is itself a duplicate" },
+      { status: 409 }
+    );
+  }
+
+  try {
+    // Merging closes each source, so its own workflow must allow that.
+    for (const source of sources) {
+      if (source.status === "Closed") continue;
+      const transitions = await getWorkflow(supabase, source.type);
+      const facts = await loadWorkflowFacts(supabase, source, transitions);
+      const violations = checkTransition(transitions, source, "Closed", actor.role, facts);
+      if (violations.length > 0) {
+        return NextResponse.json(workflowErrorBody(source, "Closed", violations), { status: 422 });
+      }
+    }
+
+    await mergeTickets(supabase, id, sources, actor.userId);
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : "Failed to merge tickets";
+    return NextResponse.json({ ok: false, error: msg }, { status: 500 });
+  }
+
+  const { data: merged } = await (supabase.from("tickets") as any)
+    .select("*")
+    .eq("id", id)
+    .maybeSingle();
+
+  await writeAuditLog(supabase, {
+    actor_id: actor.userId,
+    actor_role: actor.role,
+    action: "tickets.merge",
+    entity_type: "ticket",
+    entity_id: id,
+    before: { target, sources },
+    after: { target: merged ?? target, merged: ticketIds },
+    ip: getClientIp(request),
+    user_agent: request.headers.get("user-agent"),
+  });
+
+  return NextResponse.json({ ok: true, ticket: merged ?? target, merged: ticketIds });
+}
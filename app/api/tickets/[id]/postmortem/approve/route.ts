@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { canAdmin, deny, getActorContext, getClientIp, writeAuditLog } from "@/lib/rbac";
+import { approvePostmortem, getPostmortem } from "@/lib/postmortems";
+
+// Approval publishes the postmortem into RAG memory.
+export async function POST(
+  request: Request,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  const supabase = await createClient();
+  const actor = await getActorContext(supabase);
+
+  if (!canAdmin(actor.role)) {
+    return NextResponse.json(deny("Admin role required"), { status: 403 });
+  }
+
+  const { id } = await ctx.params;
+
+  try {
+    const before = await getPostmortem(supabase, id);
+    if (!before) return NextResponse.json({ ok: false, error: "Postmortem not found" }, { status: 404 });
+    if (before.status === "Approved") {
+      return NextResponse.json({ ok: false, error: "Postmortem is already approved" }, { status: 400 });
+    }
+
+    const postmortem = await approvePostmortem(supabase, actor.userId, id);
+
+    await writeAuditLog(supabase, {
+      actor_id: actor.userId,
+      actor_role: actor.role,
+      action: "postmortems.approve",
+      entity_type: "ticket",
+      entity_id: id,
+      before: { status: before.status },
+      after: { status: postmortem.status, approved_at: postmortem.approved_at },
+      ip: getClientIp(request),
+      user_agent: request.headers.get("user-agent"),
+    });
+
+    return NextResponse.json({ ok: true, postmortem });
+  } catch (e: any) {
+    return NextResponse.json({ ok: false, error: e?.message ?? "Failed to approve postmortem" }, { status: 500 });
+  }
+}
@@ -0,0 +1,129 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import {
+  canAdmin,
+  canWrite,
+  deny,
+  getActorContext,
+  getClientIp,
+  writeAuditLog,
+} from "@/lib/rbac";
+import {
+  deletePostmortem,
+  getPostmortem,
+  parsePostmortemInput,
+  postmortemEligibility,
+  savePostmortem,
+} from "@/lib/postmortems";
+
+export async function GET(
+  _request: Request,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  const supabase = await createClient();
+  const { id } = await ctx.params;
+
+  try {
+    const postmortem = await getPostmortem(supabase, id);
+    return NextResponse.json({ ok: true, postmortem });
+  } catch (e: any) {
+    return NextResponse.json({ ok: false, error: e?.message ?? "Failed to load postmortem" }, { status: 500 });
+  }
+}
+
+// Creates or edits the postmortem of a P1/P2 incident, typically from an AI
+// draft. Approval goes through /approve so it can be restricted to Admins.
+export async function PUT(
+  request: Request,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  const supabase = await createClient();
+  const actor = await getActorContext(supabase);
+
+  if (!canWrite(actor.role)) {
+    return NextResponse.json(deny("Engineer or Admin role required"), { status: 403 });
+  }
+
+  const { id } = await ctx.params;
+
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ ok: false, error: "Invalid JSON" }, { status: 400 });
+  }
+
+  const input = parsePostmortemInput(body);
+  if (typeof input === "string") {
+    return NextResponse.json({ ok: false, error: input }, { status: 400 });
+  }
+
+  const { data: ticket } = await (supabase.from("tickets") as any)
+    .select("id, title, type, priority")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (!ticket) return NextResponse.json({ ok: false, error: "Ticket not found" }, { status: 404 });
+
+  try {
+    const before = await getPostmortem(supabase, id);
+    // A ticket re-prioritised later keeps the postmortem it already has.
+    const ineligible = before ? null : postmortemEligibility(ticket);
+    if (ineligible) return NextResponse.json({ ok: false, error: ineligible }, { status: 400 });
+
+    const postmortem = await savePostmortem(supabase, actor.userId, ticket, input);
+
+    await writeAuditLog(supabase, {
+      actor_id: actor.userId,
+      actor_role: actor.role,
+      action: before ? "postmortems.update" : "postmortems.create",
+      entity_type: "ticket",
+      entity_id: id,
+      before,
+      after: postmortem,
+      ip: getClientIp(request),
+      user_agent: request.headers.get("user-agent"),
+    });
+
+    return NextResponse.json({ ok: true, postmortem });
+  } catch (e: any) {
+    return NextResponse.json({ ok: false, error: e?.message ?? "Failed to save postmortem" }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  request: Request,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  const supabase = await createClient();
+  const actor = await getActorContext(supabase);
+
+  if (!canAdmin(actor.role)) {
+    return NextResponse.json(deny("Admin role required"), { status: 403 });
+  }
+
+  const { id } = await ctx.params;
+
+  try {
+    const before = await getPostmortem(supabase, id);
+    if (!before) return NextResponse.json({ ok: false, error: "Postmortem not found" }, { status: 404 });
+
+    await deletePostmortem(supabase, id);
+
+    await writeAuditLog(supabase, {
+      actor_id: actor.userId,
+      actor_role: actor.role,
+      action: "postmortems.delete",
+      entity_type: "ticket",
+      entity_id: id,
+      before,
+      after: null,
+      ip: getClientIp(request),
+      user_agent: request.headers.get("user-agent"),
+    });
+
+    return NextResponse.json({ ok: true });
+  } catch (e: any) {
+    return NextResponse.json({ ok: false, error: e?.message ?? "Failed to delete postmortem" }, { status: 500 });
+  }
+}
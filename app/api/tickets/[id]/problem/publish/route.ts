@@ -0,0 +1,108 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import {
+  canWrite,
+  deny,
+  getActorContext,
+  getClientIp,
+  writeAuditLog,
+} from "@/lib/rbac";
+import {
+  getProblemRecord,
+  publicationProblem,
+  setKnownErrorStatus,
+  syncKnownErrorRagMemory,
+} from "@/lib/problem-records";
+
+// Publishes the Problem as a known error: its workaround is indexed into RAG
+// memory and offered on matching incidents.
+export async function POST(
+  request: Request,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  const supabase = await createClient();
+  const actor = await getActorContext(supabase);
+
+  if (!canWrite(actor.role)) {
+    return NextResponse.json(deny("Engineer or Admin role required"), { status: 403 });
+  }
+
+  const { id } = await ctx.params;
+
+  const { data: ticket } = await (supabase.from("tickets") as any)
+    .select("id, type")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (!ticket) return NextResponse.json({ ok: false, error: "Ticket not found" }, { status: 404 });
+  if (ticket.type !== "Problem") {
+    return NextResponse.json({ ok: false, error: "Only Problem tickets can be published as known errors" }, { status: 400 });
+  }
+
+  try {
+    const before = await getProblemRecord(supabase, id);
+    const problem = publicationProblem(before);
+    if (problem) return NextResponse.json({ ok: false, error: problem }, { status: 400 });
+
+    const record = await setKnownErrorStatus(supabase, actor.userId, id, true);
+    await syncKnownErrorRagMemory(supabase, id);
+
+    await writeAuditLog(supabase, {
+      actor_id: actor.userId,
+      actor_role: actor.role,
+      action: "problems.publish",
+      entity_type: "ticket",
+      entity_id: id,
+      before: { known_error_status: before!.known_error_status },
+      after: { known_error_status: record.known_error_status, published_at: record.published_at },
+      ip: getClientIp(request),
+      user_agent: request.headers.get("user-agent"),
+    });
+
+    return NextResponse.json({ ok: true, problem: record });
+  } catch (e: any) {
+    return NextResponse.json({ ok: false, error: e?.message ?? "Failed to publish known error" }, { status: 500 });
+  }
+}
+
+// Withdraws the known error and removes it from RAG memory.
+export async function DELETE(
+  request: Request,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  const supabase = await createClient();
+  const actor = await getActorContext(supabase);
+
+  if (!canWrite(actor.role)) {
+    return NextResponse.json(deny("Engineer or Admin role required"), { status: 403 });
+  }
+
+  const { id } = await ctx.params;
+
+  try {
+    const before = await getProblemRecord(supabase, id);
+    if (!before) return NextResponse.json({ ok: false, error: "Problem record not found" }, { status: 404 });
+    if (before.known_error_status !== "published") {
+      return NextResponse.json({ ok: false, error: "Known error is not published" }, { status: 400 });
+    }
+
+    const record = await setKnownErrorStatus(supabase, actor.userId, id, false);
+    await syncKnownErrorRagMemory(supabase, id);
+
+    await writeAuditLog(supabase, {
+      actor_id: actor.userId,
+      actor_role: actor.role,
+      action: "problems.unpublish",
+      entity_type: "ticket",
+      entity_id: id,
+      before: { known_error_status: before.known_error_status, published_at: before.published_at },
+      after: { known_error_status: record.known_error_status },
+      ip: getClientIp(request),
+      user_agent: request.headers.get("user-agent"),
+    });
+
+    return NextResponse.json({ ok: true, problem: record });
+  } catch (e: any) {
+    return NextResponse.json({ ok: false, error: e?.message ?? "Failed to unpublish known error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,97 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import {
+  canWrite,
+  deny,
+  getActorContext,
+  getClientIp,
+  writeAuditLog,
+} from "@/lib/rbac";
+import {
+  getProblemRecord,
+  parseProblemInput,
+  saveProblemRecord,
+  syncKnownErrorRagMemory,
+} from "@/lib/problem-records";
+import { listProblemIncidents } from "@/lib/ticket-links";
+
+export async function GET(
+  _request: Request,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  const supabase = await createClient();
+  const { id } = await ctx.params;
+
+  try {
+    const [problem, incidents] = await Promise.all([
+      getProblemRecord(supabase, id),
+      listProblemIncidents(supabase, id),
+    ]);
+    return NextResponse.json({ ok: true, problem, incidents });
+  } catch (e: any) {
+    return NextResponse.json({ ok: false, error: e?.message ?? "Failed to load problem record" }, { status: 500 });
+  }
+}
+
+// Records the root cause, workaround and permanent fix of a Problem ticket.
+// Edits to a published known error are re-indexed straight away.
+export async function PUT(
+  request: Request,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  const supabase = await createClient();
+  const actor = await getActorContext(supabase);
+
+  if (!canWrite(actor.role)) {
+    return NextResponse.json(deny("Engineer or Admin role required"), { status: 403 });
+  }
+
+  const { id } = await ctx.params;
+
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ ok: false, error: "Invalid JSON" }, { status: 400 });
+  }
+
+  const input = parseProblemInput(body);
+  if (typeof input === "string") {
+    return NextResponse.json({ ok: false, error: input }, { status: 400 });
+  }
+
+  const { data: ticket } = await (supabase.from("tickets") as any)
+    .select("id, type")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (!ticket) return NextResponse.json({ ok: false, error: "Ticket not found" }, { status: 404 });
+  if (ticket.type !== "Problem") {
+    return NextResponse.json({ ok: false, error: "Only Problem tickets have a problem record" }, { status: 400 });
+  }
+
+  try {
+    const before = await getProblemRecord(supabase, id);
+    const problem = await saveProblemRecord(supabase, id, input);
+
+    if (problem.known_error_status === "published") {
+      await syncKnownErrorRagMemory(supabase, id);
+    }
+
+    await writeAuditLog(supabase, {
+      actor_id: actor.userId,
+      actor_role: actor.role,
+      action: before ? "problems.update" : "problems.create",
+      entity_type: "ticket",
+      entity_id: id,
+      before,
+      after: problem,
+      ip: getClientIp(request),
+      user_agent: request.headers.get("user-agent"),
+    });
+
+    return NextResponse.json({ ok: true, problem });
+  } catch (e: any) {
+    return NextResponse.json({ ok: false, error: e?.message ?? "Failed to save problem record" }, { status: 500 });
+  }
+}
@@ -7,6 +7,20 @@ import {
   getClientIp,
   writeAuditLog,
 } from "@/lib/rbac";
+import {
+  TICKET_MEMORY_FIELDS,
+  belongsInRagMemory,
+  purgeTicketRagMemory,
+  syncTicketRagMemory,
+} from "@/lib/ticket-memory";
+import { applyTicketSla } from "@/lib/sla";
+import { syncKnownErrorRagMemory } from "@/lib/problem-records";
+import { syncPostmortemRagMemory } from "@/lib/postmortems";
+import { ragDeleteDocument } from "@/lib/rag";
+import { checkTypeChange, getWorkflow, isTicketType, loadWorkflowFacts } from "@/lib/ticket-workflow";
+
+// Fields that pick a ticket's SLA policy and business calendar.
+const SLA_FIELDS = ["type", "priority", "site"];
 
 export async function GET(
   _request: Request,
@@ -74,6 +88,28 @@ export async function PATCH(
     return NextResponse.json({ ok: true, ticket: before, message: "No changes" });
   }
 
+  // The status is kept across a type change, so it must be one the new
+  // type's workflow could have reached.
+  if (updates.type !== undefined) {
+    if (!isTicketType(updates.type)) {
+      return NextResponse.json({ ok: false, error: "Unknown ticket type" }, { status: 400 });
+    }
+    const next = { ...before, ...updates };
+    const transitions = await getWorkflow(supabase, next.type);
+    const violations = checkTypeChange(transitions, next, await loadWorkflowFacts(supabase, next, transitions));
+    if (violations.length > 0) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: violations.map((v) => v.message).join("; "),
+          code: "workflow_violation",
+          violations,
+        },
+        { status: 422 }
+      );
+    }
+  }
+
   const { data: updated, error } = await (supabase.from("tickets") as any)
     .update(updates)
     .eq("id", id)
@@ -101,6 +137,26 @@ export async function PATCH(
     user_agent: request.headers.get("user-agent"),
   });
 
+  if (fieldsChanged.some((f) => SLA_FIELDS.includes(f))) {
+    try {
+      await applyTicketSla(supabase, updated);
+    } catch (e) {
+      console.error("Failed to re-target ticket SLA:", e);
+    }
+  }
+
+  // Keep memory in step with edited resolution notes (or other indexed fields).
+  const touchesMemory = Object.keys(updates).some((f) => TICKET_MEMORY_FIELDS.includes(f));
+  if (touchesMemory && belongsInRagMemory(updated)) {
+    await syncTicketRagMemory(updated);
+  }
+  if (touchesMemory && (before.type === "Problem" || updated.type === "Problem")) {
+    await syncKnownErrorRagMemory(supabase, updated.id);
+  }
+  if (touchesMemory && before.type === "Incident") {
+    await syncPostmortemRagMemory(supabase, updated.id);
+  }
+
   return NextResponse.json({ ok: true, ticket: updated });
 }
 
@@ -120,5 +176,14 @@ export async function DELETE(
   const { error } = await (supabase.from("tickets") as any).delete().eq("id", id);
   if (error) return NextResponse.json({ error: error.message }, { status: 500 });
 
-  return NextResponse.json({ ok: true });
+  let chunksPurged = 0;
+  try {
+    chunksPurged = await purgeTicketRagMemory(id);
+    chunksPurged += await ragDeleteDocument("known_error", id);
+    chunksPurged += await ragDeleteDocument("postmortem", id);
+  } catch (e) {
+    console.error("Failed to purge ticket RAG memory:", e);
+  }
+
+  return NextResponse.json({ ok: true, chunksPurged });
 }
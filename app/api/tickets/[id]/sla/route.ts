@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+
+export async function GET(
+  _request: Request,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  const supabase = await createClient();
+  const { id } = await ctx.params;
+
+  const { data, error } = await (supabase.from("ticket_slas") as any)
+    .select("*")
+    .eq("ticket_id", id)
+    .maybeSingle();
+
+  if (error) return NextResponse.json({ ok: false, error: error.message }, { status: 500 });
+  return NextResponse.json({ ok: true, sla: data ?? null });
+}
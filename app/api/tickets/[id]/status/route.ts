@@ -7,6 +7,9 @@ import {
   getClientIp,
   writeAuditLog,
 } from "@/lib/rbac";
+import { syncTicketRagMemory } from "@/lib/ticket-memory";
+import { onSlaStatusChange } from "@/lib/sla";
+import { transitionTicket, workflowErrorBody } from "@/lib/ticket-workflow";
 
 export async function POST(
   request: Request,
@@ -33,6 +36,14 @@ export async function POST(
     return NextResponse.json({ ok: false, error: "Status required" }, { status: 400 });
   }
 
+  const fields: { resolution_notes?: string } = {};
+  if (body.resolutionNotes !== undefined) {
+    if (typeof body.resolutionNotes !== "string") {
+      return NextResponse.json({ ok: false, error: "resolutionNotes must be a string" }, { status: 400 });
+    }
+    fields.resolution_notes = body.resolutionNotes;
+  }
+
   const { data: before } = await (supabase.from("tickets") as any)
     .select("*")
     .eq("id", id)
@@ -42,39 +53,36 @@ export async function POST(
     return NextResponse.json({ ok: false, error: "Ticket not found" }, { status: 404 });
   }
 
-  const updates: any = { status };
-  if (status === "Resolved") {
-    updates.resolved_at = new Date().toISOString();
-  } else if (status === "Closed") {
-    updates.closed_at = new Date().toISOString();
+  let updated: any;
+  try {
+    const result = await transitionTicket(supabase, actor, before, status, fields);
+    if ("violations" in result) {
+      return NextResponse.json(workflowErrorBody(before, status, result.violations), { status: 422 });
+    }
+    updated = result.ticket;
+  } catch (e: any) {
+    return NextResponse.json({ ok: false, error: e?.message ?? "Failed to update status" }, { status: 500 });
   }
 
-  const { data: updated, error } = await (supabase.from("tickets") as any)
-    .update(updates)
-    .eq("id", id)
-    .select("*")
-    .single();
-
-  if (error) return NextResponse.json({ ok: false, error: error.message }, { status: 500 });
-
-  await (supabase.from("ticket_events") as any).insert({
-    ticket_id: (updated as any).id,
-    actor_id: actor.userId,
-    event_type: "status_change",
-    payload: { from: (before as any).status, to: status },
-  });
-
   await writeAuditLog(supabase, {
     actor_id: actor.userId,
     actor_role: actor.role,
     action: "tickets.update_status",
     entity_type: "ticket",
     entity_id: (updated as any).id,
-    before: { status: (before as any).status },
-    after: { status: (updated as any).status },
+    before: { status: (before as any).status, resolution_notes: (before as any).resolution_notes },
+    after: { status: (updated as any).status, resolution_notes: (updated as any).resolution_notes },
     ip: getClientIp(request),
     user_agent: request.headers.get("user-agent"),
   });
 
+  try {
+    await onSlaStatusChange(supabase, updated, (before as any).status);
+  } catch (e) {
+    console.error("Failed to update ticket SLA:", e);
+  }
+
+  await syncTicketRagMemory(updated);
+
   return NextResponse.json({ ok: true, ticket: updated });
 }
@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { getActorContext } from "@/lib/rbac";
+import { getWorkflow, loadWorkflowFacts, transitionOptions } from "@/lib/ticket-workflow";
+
+// Status changes the workflow offers from the ticket's current status, and
+// whether the caller can make each one right now.
+export async function GET(
+  _request: Request,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  const supabase = await createClient();
+  const actor = await getActorContext(supabase);
+  const { id } = await ctx.params;
+
+  const { data: ticket, error } = await (supabase.from("tickets") as any)
+    .select("*")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (error) return NextResponse.json({ ok: false, error: error.message }, { status: 500 });
+  if (!ticket) return NextResponse.json({ ok: false, error: "Ticket not found" }, { status: 404 });
+
+  try {
+    const transitions = await getWorkflow(supabase, ticket.type);
+    const facts = await loadWorkflowFacts(supabase, ticket, transitions);
+    return NextResponse.json({
+      ok: true,
+      status: ticket.status,
+      transitions: transitionOptions(transitions, ticket, actor.role, facts),
+    });
+  } catch (e: any) {
+    return NextResponse.json({ ok: false, error: e?.message ?? "Failed to load workflow" }, { status: 500 });
+  }
+}
@@ -7,6 +7,22 @@ import {
   getClientIp,
   writeAuditLog,
 } from "@/lib/rbac";
+import {
+  findDuplicateCandidates,
+  parseDuplicateAction,
+  type DuplicateCandidate,
+} from "@/lib/ticket-duplicates";
+import { createTicketLink } from "@/lib/ticket-links";
+import { applyTicketSla } from "@/lib/sla";
+import {
+  acceptedTriageFields,
+  applyTriage,
+  parseTriagePreview,
+  recordTriageEvent,
+  runTicketTriage,
+  triageAutoApplyThreshold,
+  type TriageRecord,
+} from "@/lib/ticket-triage";
 
 type TicketType = "Incident" | "Service Request" | "Problem" | "Change";
 type TicketStatus = "Open" | "In Progress" | "Resolved" | "Closed";
@@ -41,9 +57,30 @@ export async function GET(request: Request) {
     const statusParam = url.searchParams.get("status");
     const q = (url.searchParams.get("q") ?? "").trim();
     const topicsParam = (url.searchParams.get("topics") ?? "").trim();
+    // assigned=me|unassigned|<user id>, team=<team id>|none
+    const assignedParam = (url.searchParams.get("assigned") ?? "").trim();
+    const teamParam = (url.searchParams.get("team") ?? "").trim();
 
     let query = supabase.from("tickets").select("*").order("updated_at", { ascending: false }).limit(200);
 
+    if (assignedParam === "me") {
+      const actor = await getActorContext(supabase);
+      if (!actor.userId) {
+        return NextResponse.json({ ok: false, error: "Sign in to see tickets assigned to you" }, { status: 401 });
+      }
+      query = query.eq("assigned_to", actor.userId);
+    } else if (assignedParam === "unassigned") {
+      query = query.is("assigned_to", null);
+    } else if (assignedParam) {
+      query = query.eq("assigned_to", assignedParam);
+    }
+
+    if (teamParam === "none") {
+      query = query.is("team_id", null);
+    } else if (teamParam) {
+      query = query.eq("team_id", teamParam);
+    }
+
     if (statusParam && isTicketStatus(statusParam)) {
       query = query.eq("status", statusParam);
     }
@@ -102,25 +139,126 @@ export async function POST(request: Request) {
     const site = asString(body.site)?.trim() ?? null;
     const topics = asStringArray(body.topics) ?? [];
 
+    // `triage: true` runs AI triage now and fills in the blank fields it is
+    // confident about; a preview object records what the create form showed.
+    const autoTriage = body.triage === true;
+    const preview = autoTriage ? null : parseTriagePreview(body.triage);
+
     if (!title) return NextResponse.json({ ok: false, error: "title is required" }, { status: 400 });
-    if (!type || !isTicketType(type)) {
+    if (type ? !isTicketType(type) : !autoTriage) {
       return NextResponse.json({ ok: false, error: "type is invalid" }, { status: 400 });
     }
-    if (!priority || !isTicketPriority(priority)) {
+    if (priority ? !isTicketPriority(priority) : !autoTriage) {
       return NextResponse.json({ ok: false, error: "priority is invalid" }, { status: 400 });
     }
 
+    // Duplicate gate: without a `duplicate` decision, likely duplicates among
+    // open tickets and resolved memory hold creation back with a 409.
+    const duplicate = parseDuplicateAction(body.duplicate);
+    if (body.duplicate !== undefined && !duplicate) {
+      return NextResponse.json(
+        { ok: false, error: "duplicate must be {action: 'proceed'} or {action: 'link' | 'merge', ticketId}" },
+        { status: 400 }
+      );
+    }
+
+    if (!duplicate) {
+      let candidates: DuplicateCandidate[] = [];
+      try {
+        candidates = await findDuplicateCandidates({ title, description });
+      } catch (e) {
+        // Like triage, the check is an aid and never blocks creation by failing.
+        console.error("Duplicate check failed:", e);
+      }
+      if (candidates.some((c) => c.likely)) {
+        return NextResponse.json(
+          { ok: false, error: "Possible duplicates found", duplicates: candidates },
+          { status: 409 }
+        );
+      }
+    }
+
+    let target: any = null;
+    if (duplicate && duplicate.action !== "proceed") {
+      const { data, error } = await supabase.from("tickets").select("*").eq("id", duplicate.ticketId).maybeSingle();
+      if (error) return NextResponse.json({ ok: false, error: error.message }, { status: 500 });
+      if (!data) return NextResponse.json({ ok: false, error: "Duplicate target not found" }, { status: 404 });
+      target = data;
+    }
+
+    if (duplicate?.action === "merge") {
+      // Merging keeps one ticket: the report is added to the open original.
+      if (!["Open", "In Progress"].includes(target.status)) {
+        return NextResponse.json(
+          { ok: false, error: "Only an open ticket can take a merged report; link to it instead" },
+          { status: 409 }
+        );
+      }
+
+      const report = { title, description, external_id: externalId, service, site, topics };
+      const { error: eventErr } = await (supabase.from("ticket_events") as any).insert({
+        ticket_id: target.id,
+        actor_id: actor.userId,
+        event_type: "linked",
+        payload: { relation: "merged_report", report },
+      });
+      if (eventErr) return NextResponse.json({ ok: false, error: eventErr.message }, { status: 500 });
+
+      await writeAuditLog(supabase, {
+        actor_id: actor.userId,
+        actor_role: actor.role,
+        action: "tickets.merge_report",
+        entity_type: "ticket",
+        entity_id: target.id,
+        before: null,
+        after: report,
+        ip: getClientIp(request),
+        user_agent: request.headers.get("user-agent"),
+      });
+
+      return NextResponse.json({ ok: true, ticket: target, merged: true, triage: null, triageError: null });
+    }
+
+    let fields = {
+      type: type || undefined,
+      priority: priority || undefined,
+      topics,
+      service: service || undefined,
+      site: site || undefined,
+    };
+    let triage: TriageRecord | null = null;
+    let triageError: string | null = null;
+
+    if (autoTriage) {
+      // Triage is an aid: if it fails the ticket is still created.
+      try {
+        const run = await runTicketTriage({ title, description });
+        if (run) {
+          const threshold = triageAutoApplyThreshold();
+          const { values, applied } = applyTriage(run.proposal, fields, threshold);
+          fields = { ...fields, ...values };
+          triage = { ...run, mode: "auto", applied, threshold };
+        } else {
+          triageError = "Triage produced no usable proposal";
+        }
+      } catch (e) {
+        console.error("Ticket triage failed:", e);
+        triageError = e instanceof Error ? e.message : "Triage failed";
+      }
+    }
+
     const { data: inserted, error: insertErr } = await (supabase.from("tickets") as any)
       .insert({
         external_id: externalId,
         title,
         description,
-        type,
-        priority,
+        type: fields.type ?? "Incident",
+        priority: fields.priority ?? "P3",
         status: "Open",
-        service,
-        site,
-        topics,
+        service: fields.service ?? null,
+        site: fields.site ?? null,
+        topics: fields.topics ?? [],
+        duplicate_of: duplicate?.action === "link" ? target.id : null,
         created_by: actor.userId,
       })
       .select("*")
@@ -138,9 +276,42 @@ export async function POST(request: Request) {
         priority: (inserted as any).priority,
         status: (inserted as any).status,
         topics: (inserted as any).topics,
+        duplicate_check: duplicate?.action ?? "clear",
       },
     });
 
+    if (duplicate?.action === "link") {
+      try {
+        await createTicketLink(supabase, actor.userId, inserted as any, target, "duplicate_of");
+      } catch (e) {
+        console.error("Failed to link duplicate ticket:", e);
+      }
+    }
+
+    // SLA timers must not block creation; the next evaluation starts them.
+    try {
+      await applyTicketSla(supabase, inserted as any);
+    } catch (e) {
+      console.error("Failed to start ticket SLA:", e);
+    }
+
+    if (preview) {
+      triage = {
+        ...preview,
+        mode: "preview",
+        applied: acceptedTriageFields(preview.proposal, inserted as any),
+        threshold: null,
+      };
+    }
+
+    if (triage) {
+      try {
+        await recordTriageEvent(supabase, (inserted as any).id, actor.userId, triage);
+      } catch (e) {
+        console.error("Failed to record triage event:", e);
+      }
+    }
+
     await writeAuditLog(supabase, {
       actor_id: actor.userId,
       actor_role: actor.role,
@@ -153,7 +324,7 @@ export async function POST(request: Request) {
       user_agent: request.headers.get("user-agent"),
     });
 
-    return NextResponse.json({ ok: true, ticket: inserted });
+    return NextResponse.json({ ok: true, ticket: inserted, triage, triageError });
   } catch (err: any) {
     return NextResponse.json({ ok: false, error: `Internal Server Error: ${err.message}` }, { status: 500 });
   }
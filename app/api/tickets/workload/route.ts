@@ -0,0 +1,16 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { ticketWorkload } from "@/lib/ticket-assignment";
+
+// Active tickets per engineer and per team; also serves as the assignee list.
+export async function GET() {
+  const supabase = await createClient();
+
+  try {
+    const workload = await ticketWorkload(supabase);
+    return NextResponse.json({ ok: true, ...workload });
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : "Failed to load workload";
+    return NextResponse.json({ ok: false, error: msg }, { status: 500 });
+  }
+}
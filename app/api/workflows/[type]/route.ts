@@ -0,0 +1,112 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import {
+  canAdmin,
+  deny,
+  getActorContext,
+  getClientIp,
+  writeAuditLog,
+} from "@/lib/rbac";
+import {
+  DEFAULT_WORKFLOWS,
+  getWorkflow,
+  isTicketType,
+  parseWorkflowTransitions,
+  saveWorkflow,
+} from "@/lib/ticket-workflow";
+
+// Replaces a ticket type's workflow. Tickets keep their current status even
+// if the new workflow no longer reaches it; they just move on from there.
+export async function PUT(
+  request: Request,
+  ctx: { params: Promise<{ type: string }> }
+) {
+  const supabase = await createClient();
+  const actor = await getActorContext(supabase);
+
+  if (!canAdmin(actor.role)) {
+    return NextResponse.json(deny("Admin role required"), { status: 403 });
+  }
+
+  const { type } = await ctx.params;
+  const ticketType = decodeURIComponent(type);
+  if (!isTicketType(ticketType)) {
+    return NextResponse.json({ ok: false, error: "Unknown ticket type" }, { status: 404 });
+  }
+
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ ok: false, error: "Invalid JSON" }, { status: 400 });
+  }
+
+  const transitions = parseWorkflowTransitions(body?.transitions);
+  if (typeof transitions === "string") {
+    return NextResponse.json({ ok: false, error: transitions }, { status: 400 });
+  }
+
+  try {
+    const before = await getWorkflow(supabase, ticketType);
+    const workflow = await saveWorkflow(supabase, actor.userId, ticketType, transitions);
+
+    await writeAuditLog(supabase, {
+      actor_id: actor.userId,
+      actor_role: actor.role,
+      action: "workflows.update",
+      entity_type: "ticket_workflow",
+      entity_id: ticketType,
+      before: { transitions: before },
+      after: { transitions },
+      ip: getClientIp(request),
+      user_agent: request.headers.get("user-agent"),
+    });
+
+    return NextResponse.json({ ok: true, workflow });
+  } catch (e: any) {
+    return NextResponse.json({ ok: false, error: e?.message ?? "Failed to save workflow" }, { status: 500 });
+  }
+}
+
+// Drops the override so the type follows the built-in workflow again.
+export async function DELETE(
+  request: Request,
+  ctx: { params: Promise<{ type: string }> }
+) {
+  const supabase = await createClient();
+  const actor = await getActorContext(supabase);
+
+  if (!canAdmin(actor.role)) {
+    return NextResponse.json(deny("Admin role required"), { status: 403 });
+  }
+
+  const { type } = await ctx.params;
+  const ticketType = decodeURIComponent(type);
+  if (!isTicketType(ticketType)) {
+    return NextResponse.json({ ok: false, error: "Unknown ticket type" }, { status: 404 });
+  }
+
+  const { data: before, error } = await (supabase.from("ticket_workflows") as any)
+    .delete()
+    .eq("ticket_type", ticketType)
+    .select("*")
+    .maybeSingle();
+
+  if (error) return NextResponse.json({ ok: false, error: error.message }, { status: 500 });
+
+  if (before) {
+    await writeAuditLog(supabase, {
+      actor_id: actor.userId,
+      actor_role: actor.role,
+      action: "workflows.reset",
+      entity_type: "ticket_workflow",
+      entity_id: ticketType,
+      before: { transitions: before.transitions },
+      after: { transitions: DEFAULT_WORKFLOWS[ticketType] },
+      ip: getClientIp(request),
+      user_agent: request.headers.get("user-agent"),
+    });
+  }
+
+  return NextResponse.json({ ok: true, transitions: DEFAULT_WORKFLOWS[ticketType] });
+}
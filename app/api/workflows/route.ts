@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { listWorkflows, TICKET_STATUSES, WORKFLOW_REQUIREMENTS } from "@/lib/ticket-workflow";
+
+export async function GET() {
+  const supabase = await createClient();
+
+  try {
+    const workflows = await listWorkflows(supabase);
+    return NextResponse.json({
+      ok: true,
+      workflows,
+      statuses: TICKET_STATUSES,
+      requirements: WORKFLOW_REQUIREMENTS,
+    });
+  } catch (e: any) {
+    return NextResponse.json({ ok: false, error: e?.message ?? "Failed to load workflows" }, { status: 500 });
+  }
+}
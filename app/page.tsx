@@ -2,6 +2,7 @@
 
 import React, { useEffect, useMemo, useState } from "react";
 import type { Tables } from "@/database.types";
+import { parseMarkdown, type MarkdownInline } from "@/lib/markdown";
 import {
   authApi,
   ticketApi,
@@ -15,8 +16,54 @@ import {
   TicketEventRow,
   AiSuggestion,
   SopDraft,
-  TicketStatus
+  TicketStatus,
+  RagReindexJobRow,
+  RagDocumentRow,
+  RagDocumentCurationRow,
+  RagItemRow,
+  AiOutputValidation,
+  CitationVerification,
+  AiModelInfo,
+  AiBackendStatus,
+  PromptTemplateKey,
+  PromptTemplateRef,
+  PromptTemplateRow,
+  AiEvalRunRow,
+  AiEvalSummary,
+  AiEvalComparison,
+  TriagePreview,
+  TriageProposal,
+  TriageRecord,
+  DuplicateCandidate,
+  DuplicateDecision,
+  TicketLink,
+  TicketLinkType,
+  ProblemRollup,
+  TicketCommentRow,
+  CommentVisibility,
+  teamApi,
+  Team,
+  Workload,
+  slaApi,
+  SlaStatus,
+  SlaPolicyRow,
+  BusinessCalendarRow,
+  TicketSlaRow,
+  workflowApi,
+  Workflow,
+  TransitionOption,
+  ChangeRequest,
+  ChangeRisk,
+  ProblemRecordRow,
+  LinkedTicket,
+  KnownErrorMatch,
+  PostmortemRow,
+  PostmortemDraft,
+  PostmortemTimelineEntry,
+  PostmortemActionItem,
+  ApiError
 } from "@/lib/api-client";
+import { TICKET_PRIORITIES, TICKET_TOPICS, TICKET_TYPES } from "@/lib/ticket-catalog";
 
 type NavKey = "dashboard" | "tickets" | "sops";
 
@@ -35,9 +82,14 @@ type RagResult = {
   title: string;
   content: string;
   metadata: unknown;
+  section?: string | null;
   score: number;
+  vector_score?: number | null;
+  lexical_score?: number | null;
 };
 
+type RagSearchMode = "vector" | "lexical" | "hybrid";
+
 type EvidenceItem = {
   ref: string;
   source_type: string;
@@ -52,10 +104,57 @@ type Role = "Admin" | "Engineer" | "Viewer";
 type AdminUserRow = { id: string; username: string; created_at: string; role: string };
 type ClientLogLevel = "debug" | "info" | "warn" | "error";
 
-function isRaw(v: AiSuggestion | SopDraft): v is { raw: string } {
+function isRaw(v: AiSuggestion | SopDraft | PostmortemDraft): v is { raw: string } {
   return typeof (v as { raw?: unknown })?.raw === "string";
 }
 
+function ValidationNotice({
+  validation,
+  onRetry,
+}: {
+  validation: AiOutputValidation | null;
+  onRetry: () => void;
+}) {
+  // Skipped output is a canned fallback that explains itself.
+  if (!validation || validation.outcome === "valid" || validation.outcome === "skipped") return null;
+
+  const label =
+    validation.outcome === "repaired"
+      ? `Output repaired after ${validation.attempts} attempts.`
+      : validation.outcome === "partial"
+        ? "Output was only partially valid; invalid items were dropped."
+        : "The model did not return valid output.";
+
+  return (
+    <div
+      className={cn(
+        "mt-3 rounded-xl border px-3 py-2 text-xs",
+        validation.outcome === "failed"
+          ? "border-rose-200 bg-rose-50 text-rose-800"
+          : validation.outcome === "partial"
+            ? "border-amber-200 bg-amber-50 text-amber-800"
+            : "border-slate-200 bg-white text-slate-600"
+      )}
+    >
+      <div className="flex items-center justify-between gap-3">
+        <span>{label}</span>
+        {validation.outcome !== "repaired" ? (
+          <button type="button" className="font-medium underline" onClick={onRetry}>
+            Retry
+          </button>
+        ) : null}
+      </div>
+      {validation.errors.length > 0 && validation.outcome !== "repaired" ? (
+        <ul className="mt-2 list-disc space-y-0.5 pl-5">
+          {validation.errors.slice(0, 5).map((e, i) => (
+            <li key={i}>{e}</li>
+          ))}
+        </ul>
+      ) : null}
+    </div>
+  );
+}
+
 function sendClientLog(level: ClientLogLevel, message: string, context?: unknown) {
   void logApi.send(level, message, context);
 }
@@ -74,6 +173,157 @@ function formatCompactDate(iso: string) {
   });
 }
 
+function formatDateTime(iso: string) {
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return "—";
+  return d.toLocaleString(undefined, {
+    month: "short",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+// Business minutes as "2d 3h", "3h 10m" or "45m" (a working day counts as 24h).
+function formatMinutes(total: number) {
+  const m = Math.abs(Math.round(total));
+  const days = Math.floor(m / 1440);
+  const hours = Math.floor((m % 1440) / 60);
+  const mins = m % 60;
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${mins}m`;
+  return `${mins}m`;
+}
+
+// ISO timestamp <-> the local "YYYY-MM-DDTHH:MM" a datetime-local input uses.
+function toLocalInput(iso: string | null) {
+  if (!iso) return "";
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return "";
+  return new Date(d.getTime() - d.getTimezoneOffset() * 60_000).toISOString().slice(0, 16);
+}
+
+function fromLocalInput(v: string) {
+  return v ? new Date(v).toISOString() : null;
+}
+
+const APPROVAL_TONES: Record<string, "neutral" | "success" | "warning" | "danger" | "info"> = {
+  draft: "neutral",
+  pending: "warning",
+  approved: "success",
+  rejected: "danger",
+};
+
+// One line for an `approved` / `rejected` timeline event.
+function describeApproval(eventType: string, payload: any) {
+  const verb = eventType === "approved" ? "approved" : "rejected";
+  const tally = `${payload?.approvals ?? 0}/${payload?.quorum ?? "?"} approvals`;
+  const settled =
+    payload?.outcome === "approved" ? " · change approved" : payload?.outcome === "rejected" ? " · change rejected" : "";
+  return `@${payload?.approver ?? "unknown"} ${verb} (${tally})${settled}${payload?.comment ? ` — ${payload.comment}` : ""}`;
+}
+
+const STATUS_ACTION_LABELS: Record<TicketStatus, string> = {
+  Open: "Reopen",
+  "In Progress": "Set In Progress",
+  Resolved: "Resolve (stores to RAG)",
+  Closed: "Close",
+};
+
+const WEEKDAY_OPTIONS = ["mon", "tue", "wed", "thu", "fri", "sat", "sun"] as const;
+
+function formatConfidence(p: TriageProposal) {
+  return `${p.value} (${Math.round(p.confidence * 100)}%)`;
+}
+
+// One line for a triage_suggested timeline event.
+function describeTriage(record: TriageRecord) {
+  const { proposal } = record;
+  const proposed = [
+    proposal.type ? `type ${formatConfidence(proposal.type)}` : "",
+    proposal.priority ? `priority ${formatConfidence(proposal.priority)}` : "",
+    proposal.topics.length ? `topics ${proposal.topics.map(formatConfidence).join(", ")}` : "",
+    proposal.service ? `service ${formatConfidence(proposal.service)}` : "",
+    proposal.site ? `site ${formatConfidence(proposal.site)}` : "",
+  ].filter(Boolean);
+  const applied = record.applied.length
+    ? `${record.mode === "auto" ? "Auto-applied" : "Accepted"}: ${record.applied.join(", ")}`
+    : "Nothing applied";
+  return `${applied} · Proposed ${proposed.join("; ") || "nothing"}`;
+}
+
+const LINK_LABELS: Record<string, string> = {
+  duplicate_of: "Duplicate of",
+  duplicated_by: "Duplicated by",
+  caused_by: "Caused by",
+  causes: "Causes",
+  child_of: "Child of",
+  parent_of: "Parent of",
+  related: "Related to",
+  merged: "Merged in",
+  merged_into: "Merged into",
+};
+
+const LINK_TYPE_OPTIONS: TicketLinkType[] = ["related", "caused_by", "child_of", "parent_of", "duplicate_of"];
+
+// One line for a `linked` timeline event.
+function describeLink(payload: any) {
+  if (payload?.relation === "merged_report") {
+    return `Merged report: “${payload.report?.title ?? ""}”`;
+  }
+  const line = `${LINK_LABELS[payload?.relation] ?? payload?.relation} “${payload?.title ?? payload?.ticket_id}”`;
+  return payload?.removed ? `Unlinked: ${line}` : line;
+}
+
+// One line for an `sla_breached` timeline event.
+function describeSlaBreach(payload: any) {
+  const target = payload?.target === "response" ? "First response" : "Resolution";
+  return `${target} target missed (due ${payload?.due_at ? formatDateTime(payload.due_at) : "—"})`;
+}
+
+// One line for an `assigned` timeline event.
+function describeAssignment(payload: any) {
+  const from = payload?.from ?? {};
+  const to = payload?.to ?? {};
+  const parts: string[] = [];
+  if (from.assigned_to !== to.assigned_to) {
+    parts.push(`Assignee: ${from.assignee ?? (from.assigned_to ? "unknown" : "none")} → ${to.assignee ?? (to.assigned_to ? "unknown" : "none")}`);
+  }
+  if (from.team_id !== to.team_id) {
+    parts.push(`Team: ${from.team ?? (from.team_id ? "unknown" : "none")} → ${to.team ?? (to.team_id ? "unknown" : "none")}`);
+  }
+  return parts.join(" · ");
+}
+
+// Postmortem lists are edited as text, one entry per line with `|` between fields.
+function splitPipeLines(text: string): string[][] {
+  return text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => line.split("|").map((part) => part.trim()));
+}
+
+function timelineToText(entries: PostmortemTimelineEntry[]) {
+  return entries.map((e) => `${e.at} | ${e.event}`).join("\n");
+}
+
+function textToTimeline(text: string): PostmortemTimelineEntry[] {
+  return splitPipeLines(text).map(([at = "", ...event]) => ({ at, event: event.join(" | ") }));
+}
+
+function actionsToText(items: PostmortemActionItem[]) {
+  return items.map((a) => [a.action, a.owner ?? "", a.due_date ?? ""].join(" | ")).join("\n");
+}
+
+function textToActions(text: string): PostmortemActionItem[] {
+  return splitPipeLines(text).map(([action = "", owner, due]) => ({
+    action,
+    owner: owner || null,
+    due_date: due || null,
+  }));
+}
+
 function Badge({
   children,
   tone = "neutral",
@@ -173,6 +423,68 @@ function EmptyState({
   );
 }
 
+function MarkdownInlines({ inlines }: { inlines: MarkdownInline[] }) {
+  return (
+    <>
+      {inlines.map((t, i) =>
+        t.kind === "code" ? (
+          <code key={i} className="rounded bg-slate-100 px-1 py-0.5 text-[0.85em]">
+            {t.text}
+          </code>
+        ) : t.kind === "strong" ? (
+          <strong key={i}>{t.text}</strong>
+        ) : t.kind === "em" ? (
+          <em key={i}>{t.text}</em>
+        ) : t.kind === "link" ? (
+          <a key={i} href={t.href} target="_blank" rel="noreferrer" className="text-sky-700 underline">
+            {t.text}
+          </a>
+        ) : (
+          <React.Fragment key={i}>{t.text}</React.Fragment>
+        )
+      )}
+    </>
+  );
+}
+
+// Renders a comment body (see lib/markdown.ts for the supported subset).
+function Markdown({ source }: { source: string }) {
+  const blocks = useMemo(() => parseMarkdown(source), [source]);
+  return (
+    <div className="space-y-2 text-sm text-slate-800">
+      {blocks.map((b, i) =>
+        b.kind === "heading" ? (
+          <div key={i} className={cn("font-semibold text-slate-900", b.level === 1 && "text-base")}>
+            <MarkdownInlines inlines={b.inlines} />
+          </div>
+        ) : b.kind === "code" ? (
+          <pre key={i} className="whitespace-pre-wrap rounded-xl bg-slate-50 p-3 text-xs ring-1 ring-inset ring-slate-200">
+            {b.text}
+          </pre>
+        ) : b.kind === "quote" ? (
+          <blockquote key={i} className="border-l-2 border-slate-300 pl-3 text-slate-600">
+            <MarkdownInlines inlines={b.inlines} />
+          </blockquote>
+        ) : b.kind === "list" ? (
+          React.createElement(
+            b.ordered ? "ol" : "ul",
+            { key: i, className: cn("space-y-1 pl-5", b.ordered ? "list-decimal" : "list-disc") },
+            b.items.map((item, j) => (
+              <li key={j}>
+                <MarkdownInlines inlines={item} />
+              </li>
+            ))
+          )
+        ) : (
+          <p key={i}>
+            <MarkdownInlines inlines={b.inlines} />
+          </p>
+        )
+      )}
+    </div>
+  );
+}
+
 export default function Home() {
   const [nav, setNav] = useState<NavKey>("tickets");
   const [sopQuery, setSopQuery] = useState("");
@@ -202,6 +514,25 @@ export default function Home() {
     if (nav === "sops") void loadSops();
   }, [nav, sopQuery]);
 
+  async function approveSop(sopId: string) {
+    try {
+      const data = await sopApi.approve(sopId);
+      setSops((prev) => prev.map((s) => (s.id === sopId ? data.sop : s)));
+    } catch (err: any) {
+      alert(err.message);
+    }
+  }
+
+  async function deleteSop(sopId: string) {
+    if (!confirm("Delete this SOP? It will also be removed from RAG memory.")) return;
+    try {
+      await sopApi.delete(sopId);
+      setSops((prev) => prev.filter((s) => s.id !== sopId));
+    } catch (err: any) {
+      alert(err.message);
+    }
+  }
+
   const [syncStatus, setSyncStatus] = useState<
     | { state: "idle" }
     | { state: "running" }
@@ -220,40 +551,7 @@ export default function Home() {
     }
   }
 
-  const TOPICS: readonly string[] = [
-    "MES",
-    "MES Development",
-    "TrakSYS MES",
-    "Networks",
-    "Wi‑Fi",
-    "APs",
-    "VMS",
-    "HOSTS",
-    "SQL",
-    "Databases",
-    "Backups",
-    "Active Directory",
-    "DNS",
-    "DHCP",
-    "VPN",
-    "Firewalls",
-    "Switches",
-    "Windows Servers",
-    "Linux",
-    "VMware / Virtualization",
-    "Kubernetes",
-    "Monitoring",
-    "Logs",
-    "Desktops Support",
-    "Printers",
-    "Email",
-    "Certificates",
-    "Patch Management",
-    "Storage (SAN/NAS)",
-    "SCADA / PLC",
-    "Historian",
-    "ERP Integrations",
-  ] as const;
+  const TOPICS = TICKET_TOPICS;
 
   const [topicQuery, setTopicQuery] = useState("");
   const [selectedTopics, setSelectedTopics] = useState<Set<string>>(
@@ -278,6 +576,64 @@ export default function Home() {
   const clearTopics = () => setSelectedTopics(new Set());
 
   const [ticketStatus, setTicketStatus] = useState<TicketStatus | "All">("All");
+  // "" (anyone) | "me" | "unassigned"; team filter: "" | "none" | team id
+  const [ticketAssigned, setTicketAssigned] = useState<"" | "me" | "unassigned">("");
+  const [ticketTeam, setTicketTeam] = useState("");
+
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [workload, setWorkload] = useState<Workload | null>(null);
+  const [workloadStatus, setWorkloadStatus] = useState<
+    | { state: "idle" }
+    | { state: "loading" }
+    | { state: "error"; message: string }
+  >({ state: "idle" });
+  const [teamForm, setTeamForm] = useState({ name: "", description: "" });
+
+  const [slaRisk, setSlaRisk] = useState<{ items: SlaStatus[]; breached: number; atRisk: number } | null>(null);
+  const [slaRiskStatus, setSlaRiskStatus] = useState<
+    | { state: "idle" }
+    | { state: "loading" }
+    | { state: "error"; message: string }
+  >({ state: "idle" });
+  const [ticketSla, setTicketSla] = useState<TicketSlaRow | null>(null);
+  const [ticketTransitions, setTicketTransitions] = useState<TransitionOption[]>([]);
+  const [workflows, setWorkflows] = useState<Workflow[]>([]);
+  const [workflowType, setWorkflowType] = useState<TicketType>("Incident");
+  const [workflowDraft, setWorkflowDraft] = useState("");
+  const [workflowStatus, setWorkflowStatus] = useState<
+    | { state: "idle" }
+    | { state: "saving" }
+    | { state: "saved" }
+    | { state: "error"; message: string }
+  >({ state: "idle" });
+  const [slaPolicies, setSlaPolicies] = useState<SlaPolicyRow[]>([]);
+  const [slaCalendars, setSlaCalendars] = useState<BusinessCalendarRow[]>([]);
+  const [slaAdminStatus, setSlaAdminStatus] = useState<
+    | { state: "idle" }
+    | { state: "saving" }
+    | { state: "error"; message: string }
+  >({ state: "idle" });
+  const [policyForm, setPolicyForm] = useState({
+    name: "",
+    ticketType: "",
+    priority: "",
+    responseMinutes: "60",
+    resolutionMinutes: "480",
+    businessHours: true,
+  });
+  const [calendarForm, setCalendarForm] = useState({
+    name: "",
+    timezone: "UTC",
+    sites: "",
+    open: "09:00",
+    close: "17:00",
+    days: ["mon", "tue", "wed", "thu", "fri"] as string[],
+  });
+  const [teamStatus, setTeamStatus] = useState<
+    | { state: "idle" }
+    | { state: "saving" }
+    | { state: "error"; message: string }
+  >({ state: "idle" });
   const [selectedTicketId, setSelectedTicketId] = useState<string | null>(null);
 
   const [ticketsStatus, setTicketsStatus] = useState<
@@ -298,6 +654,79 @@ export default function Home() {
 
   const [ticketEvents, setTicketEvents] = useState<TicketEventRow[]>([]);
 
+  const [ticketComments, setTicketComments] = useState<TicketCommentRow[]>([]);
+  const [commentStatus, setCommentStatus] = useState<
+    | { state: "idle" }
+    | { state: "saving" }
+    | { state: "error"; message: string }
+  >({ state: "idle" });
+  const [commentForm, setCommentForm] = useState<{ body: string; visibility: CommentVisibility }>({
+    body: "",
+    visibility: "internal",
+  });
+  const [editingComment, setEditingComment] = useState<{ id: string; body: string } | null>(null);
+
+  const [linksStatus, setLinksStatus] = useState<
+    | { state: "idle" }
+    | { state: "loading" }
+    | { state: "saving" }
+    | { state: "error"; message: string }
+  >({ state: "idle" });
+  const [ticketLinks, setTicketLinks] = useState<TicketLink[]>([]);
+  const [problemRollup, setProblemRollup] = useState<ProblemRollup | null>(null);
+  const [linkForm, setLinkForm] = useState<{ type: TicketLinkType; ticketId: string }>({
+    type: "related",
+    ticketId: "",
+  });
+
+  const [changeRequest, setChangeRequest] = useState<ChangeRequest | null>(null);
+  const [changeStatus, setChangeStatus] = useState<
+    | { state: "idle" }
+    | { state: "loading" }
+    | { state: "saving" }
+    | { state: "error"; message: string }
+  >({ state: "idle" });
+  const [changeForm, setChangeForm] = useState({
+    risk: "Medium" as ChangeRisk,
+    windowStart: "",
+    windowEnd: "",
+    assets: "",
+    backoutPlan: "",
+    quorum: "1",
+    approverIds: [] as string[],
+  });
+  const [changeComment, setChangeComment] = useState("");
+
+  const [problemRecord, setProblemRecord] = useState<ProblemRecordRow | null>(null);
+  const [problemIncidents, setProblemIncidents] = useState<LinkedTicket[]>([]);
+  const [problemStatus, setProblemStatus] = useState<
+    | { state: "idle" }
+    | { state: "loading" }
+    | { state: "saving" }
+    | { state: "error"; message: string }
+  >({ state: "idle" });
+  const [problemForm, setProblemForm] = useState({ rootCause: "", workaround: "", permanentFix: "" });
+
+  const [postmortem, setPostmortem] = useState<PostmortemRow | null>(null);
+  const [postmortemStatus, setPostmortemStatus] = useState<
+    | { state: "idle" }
+    | { state: "loading" }
+    | { state: "saving" }
+    | { state: "generating" }
+    | { state: "error"; message: string }
+  >({ state: "idle" });
+  const [postmortemForm, setPostmortemForm] = useState({
+    title: "",
+    summary: "",
+    timeline: "",
+    impact: "",
+    rootCause: "",
+    factors: "",
+    actions: "",
+    references: [] as string[],
+  });
+  const [postmortemStreamText, setPostmortemStreamText] = useState("");
+
   const selectedTicket = useMemo(() => {
     if (!selectedTicketId) return null;
     return tickets.find((t) => t.id === selectedTicketId) ?? null;
@@ -325,8 +754,8 @@ export default function Home() {
     externalId: string;
     title: string;
     description: string;
-    type: TicketType;
-    priority: TicketPriority;
+    type: TicketType | "";
+    priority: TicketPriority | "";
     service: string;
     site: string;
   }>({
@@ -346,6 +775,18 @@ export default function Home() {
     | { state: "error"; message: string }
   >({ state: "idle" });
 
+  // Auto-triage lets the server fill blank fields; a preview shows one-click
+  // suggestions in the form instead.
+  const [createAutoTriage, setCreateAutoTriage] = useState(false);
+  const [triagePreview, setTriagePreview] = useState<TriagePreview | null>(null);
+  const [triageStatus, setTriageStatus] = useState<
+    | { state: "idle" }
+    | { state: "loading" }
+    | { state: "error"; message: string }
+  >({ state: "idle" });
+  const [triageNotice, setTriageNotice] = useState<string | null>(null);
+  const [createDuplicates, setCreateDuplicates] = useState<DuplicateCandidate[] | null>(null);
+
   const [feedbackNotes, setFeedbackNotes] = useState("");
 
   const [me, setMe] = useState<{ role: Role; userId: string | null; username: string | null } | null>(null);
@@ -461,7 +902,9 @@ export default function Home() {
       const data = await ticketApi.list({
         status: ticketStatus,
         q: ticketQuery,
-        topics: selectedTopics.size > 0 ? Array.from(selectedTopics).join(",") : ""
+        topics: selectedTopics.size > 0 ? Array.from(selectedTopics).join(",") : "",
+        assigned: ticketAssigned,
+        team: ticketTeam,
       });
       setTickets(data.tickets);
       setTicketsStatus({ state: "idle" });
@@ -485,349 +928,1387 @@ export default function Home() {
     }
   }
 
-  async function createTicket() {
-    setCreateStatus({ state: "creating" });
+  async function loadComments(ticketId: string) {
+    setTicketComments([]);
     try {
-      const data = await ticketApi.create({
-        external_id: createForm.externalId || undefined,
-        title: createForm.title,
-        description: createForm.description,
-        type: createForm.type,
-        priority: createForm.priority,
-        service: createForm.service || undefined,
-        site: createForm.site || undefined,
-        topics: Array.from(selectedTopics),
-      });
-
-      setCreateStatus({ state: "created" });
-      setCreateOpen(false);
-      setCreateForm({ title: "", description: "", externalId: "", type: "Incident", priority: "P3", service: "", site: "" });
-      void loadTickets();
-      setSelectedTicketId(data.ticket.id);
+      const data = await ticketApi.listComments(ticketId);
+      setTicketComments(data.comments);
     } catch (err: any) {
-      setCreateStatus({ state: "error", message: err.message });
+      setCommentStatus({ state: "error", message: err.message });
     }
   }
 
-  async function saveTicketEdits(ticketId: string) {
-    if (!editTicket) return;
-    setSaveStatus({ state: "saving" });
+  async function addComment(ticketId: string) {
+    if (!commentForm.body.trim()) return;
+    setCommentStatus({ state: "saving" });
+    try {
+      await ticketApi.addComment(ticketId, commentForm);
+      setCommentForm((p) => ({ ...p, body: "" }));
+      setCommentStatus({ state: "idle" });
+      await Promise.all([loadComments(ticketId), loadEvents(ticketId)]);
+    } catch (err: any) {
+      setCommentStatus({ state: "error", message: err.message });
+    }
+  }
 
+  async function saveCommentEdit(ticketId: string) {
+    if (!editingComment?.body.trim()) return;
+    setCommentStatus({ state: "saving" });
     try {
-      const data = await ticketApi.update(ticketId, {
-        title: editTicket.title,
-        description: editTicket.description,
-        resolution_notes: editTicket.resolutionNotes,
-        type: editTicket.type,
-        priority: editTicket.priority,
-        service: editTicket.service || undefined,
-        site: editTicket.site || undefined,
-        topics: Array.from(selectedTopics),
-      });
+      await ticketApi.updateComment(ticketId, editingComment.id, { body: editingComment.body });
+      setEditingComment(null);
+      setCommentStatus({ state: "idle" });
+      await Promise.all([loadComments(ticketId), loadEvents(ticketId)]);
+    } catch (err: any) {
+      setCommentStatus({ state: "error", message: err.message });
+    }
+  }
 
-      setSaveStatus({ state: "saved" });
-      setTickets((prev) => prev.map((t) => (t.id === data.ticket.id ? data.ticket : t)));
-      void loadEvents(data.ticket.id);
-      setTimeout(() => {
-        setSaveStatus({ state: "idle" });
-        setEditTicket(null);
-      }, 1200);
+  async function deleteComment(ticketId: string, commentId: string) {
+    if (!confirm("Delete this comment?")) return;
+    setCommentStatus({ state: "saving" });
+    try {
+      await ticketApi.deleteComment(ticketId, commentId);
+      setCommentStatus({ state: "idle" });
+      await Promise.all([loadComments(ticketId), loadEvents(ticketId)]);
     } catch (err: any) {
-      setSaveStatus({ state: "error", message: err.message });
+      setCommentStatus({ state: "error", message: err.message });
     }
   }
 
-  async function updateTicketStatus(ticketId: string, status: TicketStatus) {
+  async function loadLinks(ticketId: string) {
+    setLinksStatus({ state: "loading" });
+    setTicketLinks([]);
+    setProblemRollup(null);
     try {
-      const data = await ticketApi.updateStatus(ticketId, status);
-      setTickets((prev) => prev.map((t) => (t.id === data.ticket.id ? data.ticket : t)));
-      await loadEvents(data.ticket.id);
+      const data = await ticketApi.listLinks(ticketId);
+      setTicketLinks(data.links);
+      setProblemRollup(data.rollup);
+      setLinksStatus({ state: "idle" });
     } catch (err: any) {
-      alert(err.message);
+      setLinksStatus({ state: "error", message: err.message });
     }
   }
 
-  useEffect(() => {
-    if (nav !== "tickets") return;
-    void loadTickets();
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [nav, ticketStatus, ticketQuery, selectedTopics]);
+  function fillChangeForm(change: ChangeRequest | null) {
+    setChangeForm({
+      risk: (change?.risk as ChangeRisk) ?? "Medium",
+      windowStart: toLocalInput(change?.window_start ?? null),
+      windowEnd: toLocalInput(change?.window_end ?? null),
+      assets: (change?.affected_assets ?? []).join(", "),
+      backoutPlan: change?.backout_plan ?? "",
+      quorum: String(change?.quorum ?? 1),
+      approverIds: (change?.approvers ?? []).map((a) => a.approver_id),
+    });
+  }
 
-  useEffect(() => {
-    if (!selectedTicketId) return;
-    void loadEvents(selectedTicketId);
-  }, [selectedTicketId]);
+  async function loadChange(ticketId: string) {
+    setChangeStatus({ state: "loading" });
+    setChangeRequest(null);
+    try {
+      const data = await ticketApi.getChange(ticketId);
+      setChangeRequest(data.change);
+      fillChangeForm(data.change);
+      setChangeStatus({ state: "idle" });
+    } catch (err: any) {
+      setChangeStatus({ state: "error", message: err.message });
+    }
+  }
 
-  useEffect(() => {
-    if (!selectedTicket) {
-      setEditTicket(null);
+  async function saveChange(ticketId: string) {
+    if (
+      changeRequest &&
+      changeRequest.approval_status !== "draft" &&
+      !confirm("Editing the plan withdraws it from approval and clears every decision. Continue?")
+    ) {
       return;
     }
-    setEditTicket({
-      title: selectedTicket.title,
-      description: selectedTicket.description ?? "",
-      resolutionNotes: selectedTicket.resolution_notes ?? "",
-      type: selectedTicket.type as TicketType,
-      priority: selectedTicket.priority as TicketPriority,
-      service: selectedTicket.service ?? "",
-      site: selectedTicket.site ?? "",
-    });
-    setSaveStatus({ state: "idle" });
-  }, [selectedTicket]);
+    setChangeStatus({ state: "saving" });
+    try {
+      const data = await ticketApi.saveChange(ticketId, {
+        risk: changeForm.risk,
+        window_start: fromLocalInput(changeForm.windowStart),
+        window_end: fromLocalInput(changeForm.windowEnd),
+        affected_assets: changeForm.assets.split(",").map((a) => a.trim()).filter(Boolean),
+        backout_plan: changeForm.backoutPlan,
+        quorum: Number(changeForm.quorum),
+        approver_ids: changeForm.approverIds,
+      });
+      setChangeRequest(data.change);
+      fillChangeForm(data.change);
+      setChangeStatus({ state: "idle" });
+      void loadTransitions(ticketId);
+    } catch (err: any) {
+      setChangeStatus({ state: "error", message: err.message });
+    }
+  }
 
-  const visibleTickets = useMemo(() => {
-    // Server-side filtering is applied; just keep sort stable.
-    return [...tickets].sort((a, b) => (a.updated_at < b.updated_at ? 1 : -1));
-  }, [tickets]);
+  async function submitChange(ticketId: string) {
+    setChangeStatus({ state: "saving" });
+    try {
+      const data = await ticketApi.submitChange(ticketId);
+      setChangeRequest(data.change);
+      setChangeStatus({ state: "idle" });
+    } catch (err: any) {
+      setChangeStatus({ state: "error", message: err.message });
+    }
+  }
 
-  const stats = useMemo(() => {
-    const open = tickets.filter((t: TicketRow) => t.status === "Open").length;
-    const resolved = tickets.filter((t: TicketRow) => t.status === "Resolved" || t.status === "Closed");
+  async function decideChange(ticketId: string, decision: "approved" | "rejected") {
+    setChangeStatus({ state: "saving" });
+    try {
+      const data = await ticketApi.decideChange(ticketId, decision, changeComment.trim() || undefined);
+      setChangeRequest(data.change);
+      setChangeComment("");
+      setChangeStatus({ state: "idle" });
+      void loadTransitions(ticketId);
+      await loadEvents(ticketId);
+    } catch (err: any) {
+      setChangeStatus({ state: "error", message: err.message });
+    }
+  }
 
-    let mttr = "—";
-    if (resolved.length > 0) {
-      const times = resolved.map(t => {
-        if (!t.resolved_at) return null;
-        const start = new Date(t.created_at).getTime();
-        const end = new Date(t.resolved_at).getTime();
-        return end - start;
-      }).filter((v): v is number => v !== null && v > 0);
-
-      if (times.length > 0) {
-        const avgMs = times.reduce((a, b) => a + b, 0) / times.length;
-        const avgHours = avgMs / (1000 * 60 * 60);
-        mttr = avgHours < 1 ? `${(avgHours * 60).toFixed(0)}m` : `${avgHours.toFixed(1)}h`;
-      }
-    }
-
-    return { open, mttr };
-  }, [tickets]);
-
-  const visibleSOPs = useMemo(() => {
-    const q = sopQuery.trim().toLowerCase();
-    if (!q) return sops;
-    return sops.filter((s: SOP) => {
-      return (
-        s.title.toLowerCase().includes(q) ||
-        (s.tags && s.tags.some((tag: string) => tag.toLowerCase().includes(q)))
-      );
+  function fillProblemForm(problem: ProblemRecordRow | null) {
+    setProblemForm({
+      rootCause: problem?.root_cause ?? "",
+      workaround: problem?.workaround ?? "",
+      permanentFix: problem?.permanent_fix ?? "",
     });
-  }, [sops, sopQuery]);
-
-  const [ragAdd, setRagAdd] = useState<{
-    sourceType: string;
-    sourceId: string;
-    title: string;
-    content: string;
-  }>({
-    sourceType: "ticket",
-    sourceId: "",
-    title: "",
-    content: "",
-  });
+  }
 
-  const [ragAddStatus, setRagAddStatus] = useState<
-    | { state: "idle" }
-    | { state: "saving" }
-    | { state: "saved"; chunksUpserted: number }
-    | { state: "error"; message: string }
-  >({ state: "idle" });
+  async function loadProblem(ticketId: string) {
+    setProblemStatus({ state: "loading" });
+    setProblemRecord(null);
+    setProblemIncidents([]);
+    try {
+      const data = await ticketApi.getProblem(ticketId);
+      setProblemRecord(data.problem);
+      setProblemIncidents(data.incidents);
+      fillProblemForm(data.problem);
+      setProblemStatus({ state: "idle" });
+    } catch (err: any) {
+      setProblemStatus({ state: "error", message: err.message });
+    }
+  }
 
-  const [ragQuery, setRagQuery] = useState("");
-  const [ragFilterSourceType, setRagFilterSourceType] = useState<string>("all");
-  const [ragResults, setRagResults] = useState<RagResult[]>([]);
-  const [ragSearchStatus, setRagSearchStatus] = useState<
-    | { state: "idle" }
-    | { state: "searching" }
-    | { state: "done" }
-    | { state: "error"; message: string }
-  >({ state: "idle" });
+  async function saveProblem(ticketId: string) {
+    setProblemStatus({ state: "saving" });
+    try {
+      const data = await ticketApi.saveProblem(ticketId, {
+        root_cause: problemForm.rootCause,
+        workaround: problemForm.workaround,
+        permanent_fix: problemForm.permanentFix,
+      });
+      setProblemRecord(data.problem);
+      fillProblemForm(data.problem);
+      setProblemStatus({ state: "idle" });
+    } catch (err: any) {
+      setProblemStatus({ state: "error", message: err.message });
+    }
+  }
 
-  const [dupTitle, setDupTitle] = useState("");
-  const [dupDesc, setDupDesc] = useState("");
-  const [dupStatus, setDupStatus] = useState<
-    | { state: "idle" }
-    | { state: "checking" }
-    | { state: "done" }
-    | { state: "error"; message: string }
-  >({ state: "idle" });
-  const [dupResults, setDupResults] = useState<RagResult[]>([]);
+  async function setKnownErrorPublished(ticketId: string, published: boolean) {
+    setProblemStatus({ state: "saving" });
+    try {
+      const data = published
+        ? await ticketApi.publishProblem(ticketId)
+        : await ticketApi.unpublishProblem(ticketId);
+      setProblemRecord(data.problem);
+      setProblemStatus({ state: "idle" });
+    } catch (err: any) {
+      setProblemStatus({ state: "error", message: err.message });
+    }
+  }
 
-  const [aiHealth, setAiHealth] = useState<
-    | { state: "idle" }
-    | { state: "checking" }
-    | { state: "ok"; host: string }
-    | { state: "down"; host: string }
-  >({ state: "idle" });
+  function fillPostmortemForm(pm: PostmortemRow | null, ticket: TicketRow) {
+    setPostmortemForm({
+      title: pm?.title ?? `Postmortem: ${ticket.title}`,
+      summary: pm?.summary ?? "",
+      timeline: timelineToText((pm?.timeline as PostmortemTimelineEntry[] | undefined) ?? []),
+      impact: pm?.impact ?? "",
+      rootCause: pm?.root_cause ?? "",
+      factors: (pm?.contributing_factors ?? []).join("\n"),
+      actions: actionsToText((pm?.action_items as PostmortemActionItem[] | undefined) ?? []),
+      references: pm?.references ?? [],
+    });
+  }
 
-  const [aiTitle, setAiTitle] = useState("");
-  const [aiDescription, setAiDescription] = useState("");
+  async function loadPostmortem(ticket: TicketRow) {
+    setPostmortemStatus({ state: "loading" });
+    setPostmortem(null);
+    setPostmortemStreamText("");
+    try {
+      const data = await ticketApi.getPostmortem(ticket.id);
+      setPostmortem(data.postmortem);
+      fillPostmortemForm(data.postmortem, ticket);
+      setPostmortemStatus({ state: "idle" });
+    } catch (err: any) {
+      setPostmortemStatus({ state: "error", message: err.message });
+    }
+  }
 
-  const [aiSuggestStatus, setAiSuggestStatus] = useState<
-    | { state: "idle" }
-    | { state: "running" }
-    | { state: "done" }
-    | { state: "error"; message: string }
-  >({ state: "idle" });
+  // Fills the editor with an AI draft; nothing is stored until it is saved.
+  async function generatePostmortem(ticketId: string) {
+    if (
+      postmortem &&
+      !confirm("Replace the editor contents with a new AI draft? The saved postmortem is kept until you save.")
+    ) {
+      return;
+    }
+    setPostmortemStatus({ state: "generating" });
+    setPostmortemStreamText("");
+    try {
+      let draft: PostmortemDraft | null = null;
+      await aiApi.getPostmortemDraftStream(ticketId, (event) => {
+        if (event.type === "token") setPostmortemStreamText((prev) => prev + event.text);
+        else if (event.type === "repair") setPostmortemStreamText("");
+        else if (event.type === "result") draft = event.result;
+      });
+      const result = draft as PostmortemDraft | null;
+      if (!result || isRaw(result)) {
+        setPostmortemStatus({ state: "error", message: "The model returned no usable draft; try again." });
+        return;
+      }
+      setPostmortemForm((p) => ({
+        ...p,
+        summary: result.summary,
+        timeline: timelineToText(result.timeline),
+        impact: result.impact,
+        rootCause: result.root_cause,
+        factors: result.contributing_factors.join("\n"),
+        actions: actionsToText(result.action_items),
+        references: result.references,
+      }));
+      setPostmortemStreamText("");
+      setPostmortemStatus({ state: "idle" });
+    } catch (err: any) {
+      setPostmortemStatus({ state: "error", message: err.message });
+    }
+  }
 
-  const [aiSuggestEvidence, setAiSuggestEvidence] = useState<EvidenceItem[]>([]);
-  const [aiSuggestResult, setAiSuggestResult] = useState<AiSuggestion | { raw: string } | null>(null);
-  const [aiSuggestModel, setAiSuggestModel] = useState<{ host: string; name: string } | null>(null);
+  async function savePostmortem(ticketId: string) {
+    setPostmortemStatus({ state: "saving" });
+    try {
+      const data = await ticketApi.savePostmortem(ticketId, {
+        title: postmortemForm.title,
+        summary: postmortemForm.summary,
+        timeline: textToTimeline(postmortemForm.timeline),
+        impact: postmortemForm.impact,
+        root_cause: postmortemForm.rootCause,
+        contributing_factors: postmortemForm.factors.split("\n").map((f) => f.trim()).filter(Boolean),
+        action_items: textToActions(postmortemForm.actions),
+        references: postmortemForm.references,
+      });
+      setPostmortem(data.postmortem);
+      setPostmortemStatus({ state: "idle" });
+    } catch (err: any) {
+      setPostmortemStatus({ state: "error", message: err.message });
+    }
+  }
 
-  const [sopResolutionNotes, setSopResolutionNotes] = useState("");
-  const [sopValidationNotes, setSopValidationNotes] = useState("");
-  const [sopRollbackNotes, setSopRollbackNotes] = useState("");
+  async function approvePostmortem(ticketId: string) {
+    setPostmortemStatus({ state: "saving" });
+    try {
+      const data = await ticketApi.approvePostmortem(ticketId);
+      setPostmortem(data.postmortem);
+      setPostmortemStatus({ state: "idle" });
+    } catch (err: any) {
+      setPostmortemStatus({ state: "error", message: err.message });
+    }
+  }
 
-  const [sopStatus, setSopStatus] = useState<
-    | { state: "idle" }
-    | { state: "running" }
-    | { state: "done" }
-    | { state: "error"; message: string }
-  >({ state: "idle" });
+  async function deletePostmortem(ticket: TicketRow) {
+    if (!confirm("Delete this postmortem? It will also be removed from RAG memory.")) return;
+    setPostmortemStatus({ state: "saving" });
+    try {
+      await ticketApi.deletePostmortem(ticket.id);
+      setPostmortem(null);
+      fillPostmortemForm(null, ticket);
+      setPostmortemStatus({ state: "idle" });
+    } catch (err: any) {
+      setPostmortemStatus({ state: "error", message: err.message });
+    }
+  }
 
-  const [sopEvidence, setSopEvidence] = useState<EvidenceItem[]>([]);
-  const [sopDraft, setSopDraft] = useState<SopDraft | null>(null);
+  // Hands a ticket to the dashboard workbench; an Incident can then be linked
+  // to a matching known error from the suggestions.
+  function analyseTicket(ticket: TicketRow) {
+    setAiTitle(ticket.title);
+    setAiDescription(ticket.description ?? "");
+    setAiTicketId(ticket.id);
+    setNav("dashboard");
+  }
 
-  const grafanaDashboardUrl =
-    process.env.NEXT_PUBLIC_GRAFANA_DASHBOARD_URL ?? "";
+  async function linkKnownError(problemId: string) {
+    if (!aiTicketId) return;
+    try {
+      await ticketApi.addLink(aiTicketId, "caused_by", problemId);
+      setAiLinkedProblems((prev) => [...prev, problemId]);
+    } catch (err: any) {
+      alert(err.message);
+    }
+  }
 
-  async function storeRagItem() {
-    setRagAddStatus({ state: "saving" });
+  async function addTicketLink(ticketId: string) {
+    if (!linkForm.ticketId) return;
+    setLinksStatus({ state: "saving" });
     try {
-      const data = await ragApi.upsert({
-        sourceType: ragAdd.sourceType,
-        sourceId: ragAdd.sourceId,
-        title: ragAdd.title,
-        content: ragAdd.content,
-        metadata: { topics: Array.from(selectedTopics) },
-      });
-      setRagAddStatus({ state: "saved", chunksUpserted: data.chunksUpserted });
+      await ticketApi.addLink(ticketId, linkForm.type, linkForm.ticketId);
+      setLinkForm((p) => ({ ...p, ticketId: "" }));
+      if (linkForm.type === "duplicate_of") void loadTickets();
+      await Promise.all([loadLinks(ticketId), loadEvents(ticketId)]);
     } catch (err: any) {
-      setRagAddStatus({ state: "error", message: err.message });
+      setLinksStatus({ state: "error", message: err.message });
     }
   }
 
-  async function runRagSearch() {
-    setRagSearchStatus({ state: "searching" });
-    setRagResults([]);
+  async function removeTicketLink(ticketId: string, link: TicketLink) {
+    setLinksStatus({ state: "saving" });
     try {
-      const data = await ragApi.search({
-        query: ragQuery,
-        limit: 8,
-        filterSourceType:
-          ragFilterSourceType === "all" ? null : ragFilterSourceType,
-      });
-      setRagResults(data.results);
-      setRagSearchStatus({ state: "done" });
+      await ticketApi.removeLink(ticketId, link.id);
+      if (link.link_type === "duplicate_of") void loadTickets();
+      await Promise.all([loadLinks(ticketId), loadEvents(ticketId)]);
     } catch (err: any) {
-      setRagSearchStatus({ state: "error", message: err.message });
+      setLinksStatus({ state: "error", message: err.message });
     }
   }
 
-  async function runDuplicateCheck() {
-    setDupStatus({ state: "checking" });
-    setDupResults([]);
+  // Folds the ticket picked in the link form into `ticketId`.
+  async function mergeIntoTicket(ticketId: string) {
+    const source = tickets.find((t) => t.id === linkForm.ticketId);
+    if (!source) return;
+    if (!confirm(`Merge “${source.title}” into this ticket? It will be closed as a duplicate.`)) return;
+    setLinksStatus({ state: "saving" });
     try {
-      const data = await ragApi.findSimilarTickets({
-        title: dupTitle,
-        description: dupDesc,
-        limit: 8,
-      });
-      setDupResults(data.results);
-      setDupStatus({ state: "done" });
+      await ticketApi.merge(ticketId, [source.id]);
+      setLinkForm((p) => ({ ...p, ticketId: "" }));
+      void loadTickets();
+      await Promise.all([loadLinks(ticketId), loadEvents(ticketId)]);
     } catch (err: any) {
-      setDupStatus({ state: "error", message: err.message });
+      setLinksStatus({ state: "error", message: err.message });
     }
   }
 
-  async function checkAiHealth() {
-    setAiHealth({ state: "checking" });
+  async function previewTriage() {
+    setTriageStatus({ state: "loading" });
     try {
-      const data = await aiApi.getHealth();
-      setAiHealth(data.ok ? { state: "ok", host: data.host } : { state: "down", host: data.host });
-    } catch {
-      setAiHealth({ state: "down", host: "unknown" });
+      const data = await aiApi.triage({
+        title: createForm.title,
+        description: createForm.description,
+      });
+      setTriagePreview(data);
+      setTriageStatus({ state: "idle" });
+    } catch (err: any) {
+      setTriageStatus({ state: "error", message: err.message });
     }
   }
 
-  async function runAiSuggest() {
-    setAiSuggestStatus({ state: "running" });
-    setAiSuggestEvidence([]);
-    setAiSuggestResult(null);
+  function applyTriageProposal(field: "type" | "priority" | "service" | "site", value: string) {
+    setCreateForm((p) => ({ ...p, [field]: value }));
+  }
 
+  async function createTicket(duplicate?: DuplicateDecision) {
+    setCreateStatus({ state: "creating" });
     try {
-      const data = await aiApi.suggest({
-        title: aiTitle,
-        description: aiDescription,
+      const data = await ticketApi.create({
+        external_id: createForm.externalId || undefined,
+        title: createForm.title,
+        description: createForm.description,
+        type: createForm.type || undefined,
+        priority: createForm.priority || undefined,
+        service: createForm.service || undefined,
+        site: createForm.site || undefined,
         topics: Array.from(selectedTopics),
+        triage: createAutoTriage ? true : (triagePreview ?? undefined),
+        duplicate,
       });
 
-      const evidence = data.evidence.map((r: any, idx: number) => ({
-        ref: `E${idx + 1}`,
-        source_type: r.source_type,
-        source_id: r.source_id,
-        title: r.title,
-        score: r.score,
-        content: r.content,
-      }));
-
-      setAiSuggestEvidence(evidence);
-      setAiSuggestResult(data.suggestion);
-      setAiSuggestModel(data.model);
-      setAiSuggestStatus({ state: "done" });
+      setCreateStatus({ state: "created" });
+      setCreateOpen(false);
+      setCreateDuplicates(null);
+      setCreateForm({ title: "", description: "", externalId: "", type: "Incident", priority: "P3", service: "", site: "" });
+      setTriagePreview(null);
+      setTriageNotice(
+        data.merged
+          ? `Report merged into “${data.ticket.title}”.`
+          : data.triageError
+            ? `Triage failed: ${data.triageError}`
+            : data.triage?.mode === "auto"
+              ? describeTriage(data.triage)
+              : null
+      );
+      void loadTickets();
+      setSelectedTicketId(data.ticket.id);
     } catch (err: any) {
-      setAiSuggestStatus({ state: "error", message: err.message });
+      if (err instanceof ApiError && err.status === 409 && Array.isArray(err.body?.duplicates)) {
+        setCreateDuplicates(err.body.duplicates);
+        setCreateStatus({ state: "idle" });
+        return;
+      }
+      setCreateStatus({ state: "error", message: err.message });
     }
   }
 
-  async function submitRating(rating: number, feedback?: string) {
-    if (!selectedTicketId || !aiSuggestResult) return;
+  async function saveTicketEdits(ticketId: string) {
+    if (!editTicket) return;
+    setSaveStatus({ state: "saving" });
+
     try {
-      await aiApi.submitRating({
-        ticketId: selectedTicketId,
-        recommendationPayload: aiSuggestResult,
-        rating,
-        feedback,
-        modelInfo: aiSuggestModel,
+      const data = await ticketApi.update(ticketId, {
+        title: editTicket.title,
+        description: editTicket.description,
+        resolution_notes: editTicket.resolutionNotes,
+        type: editTicket.type,
+        priority: editTicket.priority,
+        service: editTicket.service || undefined,
+        site: editTicket.site || undefined,
+        topics: Array.from(selectedTopics),
       });
-      alert("Thanks for the feedback!");
+
+      setSaveStatus({ state: "saved" });
+      setTickets((prev) => prev.map((t) => (t.id === data.ticket.id ? data.ticket : t)));
+      void loadEvents(data.ticket.id);
+      setTimeout(() => {
+        setSaveStatus({ state: "idle" });
+        setEditTicket(null);
+      }, 1200);
     } catch (err: any) {
-      console.error("Failed to submit rating", err.message);
+      setSaveStatus({ state: "error", message: err.message });
     }
   }
 
-  async function runSopDraft() {
-    setSopStatus({ state: "running" });
-    setSopEvidence([]);
-    setSopDraft(null);
-
+  async function updateTicketStatus(ticketId: string, status: TicketStatus) {
+    // Resolution notes typed into the form go along with the change, so the
+    // workflow's "notes before Resolved" rule sees them.
+    const notes =
+      status === "Resolved" && editTicket && selectedTicket?.id === ticketId ? editTicket.resolutionNotes : undefined;
     try {
-      const data = await aiApi.getSopDraft({
-        ticketTitle: aiTitle,
-        ticketDescription: aiDescription,
-        resolutionNotes: sopResolutionNotes,
-        topics: Array.from(selectedTopics),
-      });
+      const data = await ticketApi.updateStatus(ticketId, status, notes);
+      setTickets((prev) => prev.map((t) => (t.id === data.ticket.id ? data.ticket : t)));
+      void loadTicketSla(data.ticket.id);
+      await loadEvents(data.ticket.id);
+    } catch (err: any) {
+      if (err instanceof ApiError && Array.isArray(err.body?.violations)) {
+        alert(err.body.violations.map((v: { message: string }) => `• ${v.message}`).join("\n"));
+      } else {
+        alert(err.message);
+      }
+    }
+  }
 
-      const evidence = data.evidence.map((r: any, idx: number) => ({
-        ref: `E${idx + 1}`,
-        source_type: r.source_type,
-        source_id: r.source_id,
-        title: r.title,
-        score: r.score,
-        content: r.content,
-      }));
+  async function loadTransitions(ticketId: string) {
+    try {
+      const data = await ticketApi.transitions(ticketId);
+      setTicketTransitions(data.transitions);
+    } catch {
+      setTicketTransitions([]);
+    }
+  }
 
-      setSopEvidence(evidence);
-      setSopDraft(data.sop);
-      setSopStatus({ state: "done" });
+  async function loadWorkflows() {
+    try {
+      const data = await workflowApi.list();
+      setWorkflows(data.workflows);
     } catch (err: any) {
-      setSopStatus({ state: "error", message: err.message });
+      setWorkflowStatus({ state: "error", message: err.message });
     }
   }
 
-  return (
-    <div className="min-h-screen bg-slate-50">
+  async function saveWorkflow() {
+    let transitions: any;
+    try {
+      transitions = JSON.parse(workflowDraft);
+    } catch {
+      setWorkflowStatus({ state: "error", message: "Transitions must be valid JSON" });
+      return;
+    }
+    setWorkflowStatus({ state: "saving" });
+    try {
+      await workflowApi.save(workflowType, transitions);
+      setWorkflowStatus({ state: "saved" });
+      await loadWorkflows();
+    } catch (err: any) {
+      setWorkflowStatus({ state: "error", message: err.message });
+    }
+  }
+
+  async function resetWorkflow() {
+    if (!confirm(`Reset the ${workflowType} workflow to the built-in default?`)) return;
+    setWorkflowStatus({ state: "saving" });
+    try {
+      await workflowApi.reset(workflowType);
+      setWorkflowStatus({ state: "idle" });
+      await loadWorkflows();
+    } catch (err: any) {
+      setWorkflowStatus({ state: "error", message: err.message });
+    }
+  }
+
+  const selectedWorkflow = useMemo(
+    () => workflows.find((w) => w.ticket_type === workflowType) ?? null,
+    [workflows, workflowType]
+  );
+
+  useEffect(() => {
+    setWorkflowDraft(selectedWorkflow ? JSON.stringify(selectedWorkflow.transitions, null, 2) : "");
+  }, [selectedWorkflow]);
+
+  useEffect(() => {
+    if (nav !== "tickets") return;
+    void loadTickets();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [nav, ticketStatus, ticketQuery, selectedTopics, ticketAssigned, ticketTeam]);
+
+  async function loadTeams() {
+    try {
+      const data = await teamApi.list();
+      setTeams(data.teams);
+    } catch (err: any) {
+      setTeamStatus({ state: "error", message: err.message });
+    }
+  }
+
+  // Also the assignee list: every Engineer and Admin appears, even with no tickets.
+  async function loadWorkload() {
+    setWorkloadStatus({ state: "loading" });
+    try {
+      const data = await ticketApi.workload();
+      setWorkload(data);
+      setWorkloadStatus({ state: "idle" });
+    } catch (err: any) {
+      setWorkloadStatus({ state: "error", message: err.message });
+    }
+  }
+
+  async function assignTicket(ticketId: string, assignment: { assignedTo?: string | null; teamId?: string | null }) {
+    try {
+      const data = await ticketApi.assign(ticketId, assignment);
+      setTickets((prev) => prev.map((t) => (t.id === data.ticket.id ? data.ticket : t)));
+      void loadWorkload();
+      await loadEvents(data.ticket.id);
+    } catch (err: any) {
+      alert(err.message);
+    }
+  }
+
+  async function createTeam() {
+    setTeamStatus({ state: "saving" });
+    try {
+      await teamApi.create({ name: teamForm.name, description: teamForm.description });
+      setTeamForm({ name: "", description: "" });
+      setTeamStatus({ state: "idle" });
+      await loadTeams();
+    } catch (err: any) {
+      setTeamStatus({ state: "error", message: err.message });
+    }
+  }
+
+  async function toggleTeamMember(team: Team, userId: string) {
+    const ids = team.members.map((m) => m.user_id);
+    const memberIds = ids.includes(userId) ? ids.filter((id) => id !== userId) : [...ids, userId];
+    try {
+      await teamApi.update(team.id, { memberIds });
+      await loadTeams();
+    } catch (err: any) {
+      setTeamStatus({ state: "error", message: err.message });
+    }
+  }
+
+  async function deleteTeam(team: Team) {
+    if (!confirm(`Delete team “${team.name}”? Its tickets will no longer be routed to a queue.`)) return;
+    try {
+      await teamApi.delete(team.id);
+      await loadTeams();
+    } catch (err: any) {
+      setTeamStatus({ state: "error", message: err.message });
+    }
+  }
+
+  useEffect(() => {
+    if (nav !== "tickets" && nav !== "dashboard") return;
+    void loadTeams();
+    void loadWorkload();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [nav]);
+
+  async function loadSlaRisk() {
+    setSlaRiskStatus({ state: "loading" });
+    try {
+      const data = await slaApi.atRisk();
+      setSlaRisk({ items: data.items, breached: data.breached, atRisk: data.atRisk });
+      setSlaRiskStatus({ state: "idle" });
+    } catch (err: any) {
+      setSlaRiskStatus({ state: "error", message: err.message });
+    }
+  }
+
+  async function loadTicketSla(ticketId: string) {
+    setTicketSla(null);
+    try {
+      const data = await ticketApi.getSla(ticketId);
+      setTicketSla(data.sla);
+    } catch {
+      // The SLA line is informational; the ticket view works without it.
+    }
+  }
+
+  async function loadSlaAdmin() {
+    try {
+      const [policies, calendars] = await Promise.all([slaApi.listPolicies(), slaApi.listCalendars()]);
+      setSlaPolicies(policies.policies);
+      setSlaCalendars(calendars.calendars);
+    } catch (err: any) {
+      setSlaAdminStatus({ state: "error", message: err.message });
+    }
+  }
+
+  async function createSlaPolicy() {
+    setSlaAdminStatus({ state: "saving" });
+    try {
+      await slaApi.createPolicy({
+        name: policyForm.name,
+        ticket_type: policyForm.ticketType || null,
+        priority: policyForm.priority || null,
+        response_minutes: Number(policyForm.responseMinutes),
+        resolution_minutes: Number(policyForm.resolutionMinutes),
+        business_hours: policyForm.businessHours,
+      });
+      setPolicyForm((p) => ({ ...p, name: "" }));
+      setSlaAdminStatus({ state: "idle" });
+      await loadSlaAdmin();
+    } catch (err: any) {
+      setSlaAdminStatus({ state: "error", message: err.message });
+    }
+  }
+
+  async function toggleSlaPolicy(policy: SlaPolicyRow) {
+    try {
+      await slaApi.updatePolicy(policy.id, { active: !policy.active });
+      await loadSlaAdmin();
+    } catch (err: any) {
+      setSlaAdminStatus({ state: "error", message: err.message });
+    }
+  }
+
+  async function deleteSlaPolicy(policy: SlaPolicyRow) {
+    if (!confirm(`Delete SLA policy “${policy.name}”? Running ticket timers keep their targets.`)) return;
+    try {
+      await slaApi.deletePolicy(policy.id);
+      await loadSlaAdmin();
+    } catch (err: any) {
+      setSlaAdminStatus({ state: "error", message: err.message });
+    }
+  }
+
+  async function createSlaCalendar() {
+    setSlaAdminStatus({ state: "saving" });
+    try {
+      await slaApi.createCalendar({
+        name: calendarForm.name,
+        timezone: calendarForm.timezone,
+        sites: calendarForm.sites.split(",").map((x) => x.trim()).filter(Boolean),
+        hours: Object.fromEntries(calendarForm.days.map((d) => [d, [[calendarForm.open, calendarForm.close]]])),
+      });
+      setCalendarForm((p) => ({ ...p, name: "", sites: "" }));
+      setSlaAdminStatus({ state: "idle" });
+      await loadSlaAdmin();
+    } catch (err: any) {
+      setSlaAdminStatus({ state: "error", message: err.message });
+    }
+  }
+
+  async function setDefaultSlaCalendar(calendar: BusinessCalendarRow) {
+    try {
+      await slaApi.updateCalendar(calendar.id, { is_default: true });
+      await loadSlaAdmin();
+    } catch (err: any) {
+      setSlaAdminStatus({ state: "error", message: err.message });
+    }
+  }
+
+  async function deleteSlaCalendar(calendar: BusinessCalendarRow) {
+    if (!confirm(`Delete calendar “${calendar.name}”? Tickets using it will count around the clock.`)) return;
+    try {
+      await slaApi.deleteCalendar(calendar.id);
+      await loadSlaAdmin();
+    } catch (err: any) {
+      setSlaAdminStatus({ state: "error", message: err.message });
+    }
+  }
+
+  useEffect(() => {
+    if (nav !== "dashboard") return;
+    void loadSlaRisk();
+    if (isAdmin) {
+      void loadSlaAdmin();
+      void loadWorkflows();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [nav, isAdmin]);
+
+  const assigneeNames = useMemo(
+    () => new Map((workload?.engineers ?? []).map((e) => [e.user_id, e.username])),
+    [workload]
+  );
+
+  useEffect(() => {
+    if (!selectedTicketId) return;
+    void loadEvents(selectedTicketId);
+    void loadComments(selectedTicketId);
+    void loadLinks(selectedTicketId);
+    void loadTicketSla(selectedTicketId);
+    setEditingComment(null);
+    setChangeComment("");
+  }, [selectedTicketId]);
+
+  useEffect(() => {
+    if (!selectedTicket) {
+      setEditTicket(null);
+      setTicketTransitions([]);
+      return;
+    }
+    void loadTransitions(selectedTicket.id);
+    if (selectedTicket.type === "Change") void loadChange(selectedTicket.id);
+    else setChangeRequest(null);
+    if (selectedTicket.type === "Problem") void loadProblem(selectedTicket.id);
+    else setProblemRecord(null);
+    if (selectedTicket.type === "Incident") void loadPostmortem(selectedTicket);
+    else setPostmortem(null);
+    setEditTicket({
+      title: selectedTicket.title,
+      description: selectedTicket.description ?? "",
+      resolutionNotes: selectedTicket.resolution_notes ?? "",
+      type: selectedTicket.type as TicketType,
+      priority: selectedTicket.priority as TicketPriority,
+      service: selectedTicket.service ?? "",
+      site: selectedTicket.site ?? "",
+    });
+    setSaveStatus({ state: "idle" });
+  }, [selectedTicket]);
+
+  const visibleTickets = useMemo(() => {
+    // Server-side filtering is applied; just keep sort stable.
+    return [...tickets].sort((a, b) => (a.updated_at < b.updated_at ? 1 : -1));
+  }, [tickets]);
+
+  const stats = useMemo(() => {
+    const open = tickets.filter((t: TicketRow) => t.status === "Open").length;
+    const resolved = tickets.filter((t: TicketRow) => t.status === "Resolved" || t.status === "Closed");
+
+    let mttr = "—";
+    if (resolved.length > 0) {
+      const times = resolved.map(t => {
+        if (!t.resolved_at) return null;
+        const start = new Date(t.created_at).getTime();
+        const end = new Date(t.resolved_at).getTime();
+        return end - start;
+      }).filter((v): v is number => v !== null && v > 0);
+
+      if (times.length > 0) {
+        const avgMs = times.reduce((a, b) => a + b, 0) / times.length;
+        const avgHours = avgMs / (1000 * 60 * 60);
+        mttr = avgHours < 1 ? `${(avgHours * 60).toFixed(0)}m` : `${avgHours.toFixed(1)}h`;
+      }
+    }
+
+    return { open, mttr };
+  }, [tickets]);
+
+  const visibleSOPs = useMemo(() => {
+    const q = sopQuery.trim().toLowerCase();
+    if (!q) return sops;
+    return sops.filter((s: SOP) => {
+      return (
+        s.title.toLowerCase().includes(q) ||
+        (s.tags && s.tags.some((tag: string) => tag.toLowerCase().includes(q)))
+      );
+    });
+  }, [sops, sopQuery]);
+
+  const [ragAdd, setRagAdd] = useState<{
+    sourceType: string;
+    sourceId: string;
+    title: string;
+    content: string;
+  }>({
+    sourceType: "ticket",
+    sourceId: "",
+    title: "",
+    content: "",
+  });
+
+  const [ragAddStatus, setRagAddStatus] = useState<
+    | { state: "idle" }
+    | { state: "saving" }
+    | { state: "saved"; chunksUpserted: number }
+    | { state: "error"; message: string }
+  >({ state: "idle" });
+
+  const [ragQuery, setRagQuery] = useState("");
+  const [ragFilterSourceType, setRagFilterSourceType] = useState<string>("all");
+  const [ragSearchMode, setRagSearchMode] = useState<RagSearchMode>("hybrid");
+  const [ragResults, setRagResults] = useState<RagResult[]>([]);
+  const [ragSearchStatus, setRagSearchStatus] = useState<
+    | { state: "idle" }
+    | { state: "searching" }
+    | { state: "done" }
+    | { state: "error"; message: string }
+  >({ state: "idle" });
+
+  const [reindexJob, setReindexJob] = useState<RagReindexJobRow | null>(null);
+  const [reindexStatus, setReindexStatus] = useState<
+    | { state: "idle" }
+    | { state: "starting" }
+    | { state: "error"; message: string }
+  >({ state: "idle" });
+
+  const [memoryDocs, setMemoryDocs] = useState<RagDocumentRow[]>([]);
+  const [memoryTotal, setMemoryTotal] = useState(0);
+  const [memoryPage, setMemoryPage] = useState(1);
+  const [memoryFilter, setMemoryFilter] = useState<{ sourceType: string; sourceId: string }>({
+    sourceType: "all",
+    sourceId: "",
+  });
+  const [memoryStatus, setMemoryStatus] = useState<
+    | { state: "idle" }
+    | { state: "loading" }
+    | { state: "error"; message: string }
+  >({ state: "idle" });
+  const [memoryDoc, setMemoryDoc] = useState<{
+    sourceType: string;
+    sourceId: string;
+    chunks: RagItemRow[];
+    curation: RagDocumentCurationRow | null;
+  } | null>(null);
+  const [memoryMetaDraft, setMemoryMetaDraft] = useState("");
+  const [memoryDocStatus, setMemoryDocStatus] = useState<
+    | { state: "idle" }
+    | { state: "working" }
+    | { state: "error"; message: string }
+  >({ state: "idle" });
+
+  const [promptKey, setPromptKey] = useState<PromptTemplateKey>("suggest");
+  const [promptTemplates, setPromptTemplates] = useState<PromptTemplateRow[]>([]);
+  const [promptVariables, setPromptVariables] = useState<string[]>([]);
+  const [promptDraft, setPromptDraft] = useState<{ baseVersion: number | null; system: string; user: string; notes: string }>({
+    baseVersion: null,
+    system: "",
+    user: "",
+    notes: "",
+  });
+  const [promptStatus, setPromptStatus] = useState<
+    | { state: "idle" }
+    | { state: "loading" }
+    | { state: "saving" }
+    | { state: "error"; message: string }
+  >({ state: "idle" });
+
+  const [evalRuns, setEvalRuns] = useState<AiEvalRunRow[]>([]);
+  const [evalPrompts, setEvalPrompts] = useState<PromptTemplateRow[]>([]);
+  const [evalForm, setEvalForm] = useState({
+    name: "",
+    backend: "",
+    endpoint: "",
+    model: "",
+    promptTemplateId: "",
+    mode: "hybrid" as "vector" | "lexical" | "hybrid",
+    limit: 6,
+    sameAsRunId: "",
+  });
+  const [evalStatus, setEvalStatus] = useState<
+    | { state: "idle" }
+    | { state: "starting" }
+    | { state: "error"; message: string }
+  >({ state: "idle" });
+  const [evalCompare, setEvalCompare] = useState({ baseId: "", candidateId: "" });
+  const [evalReport, setEvalReport] = useState<AiEvalComparison | null>(null);
+
+  const [dupTitle, setDupTitle] = useState("");
+  const [dupDesc, setDupDesc] = useState("");
+  const [dupStatus, setDupStatus] = useState<
+    | { state: "idle" }
+    | { state: "checking" }
+    | { state: "done" }
+    | { state: "error"; message: string }
+  >({ state: "idle" });
+  const [dupResults, setDupResults] = useState<RagResult[]>([]);
+
+  const [aiHealth, setAiHealth] = useState<
+    | { state: "idle" }
+    | { state: "checking" }
+    | { state: "ok"; host: string; backends: AiBackendStatus[] }
+    | { state: "down"; host: string; backends: AiBackendStatus[] }
+  >({ state: "idle" });
+
+  const [aiTitle, setAiTitle] = useState("");
+  const [aiDescription, setAiDescription] = useState("");
+  // The ticket under analysis, when the workbench was opened from one.
+  const [aiTicketId, setAiTicketId] = useState<string | null>(null);
+
+  const [aiSuggestStatus, setAiSuggestStatus] = useState<
+    | { state: "idle" }
+    | { state: "running" }
+    | { state: "done" }
+    | { state: "error"; message: string }
+  >({ state: "idle" });
+
+  const [aiSuggestEvidence, setAiSuggestEvidence] = useState<EvidenceItem[]>([]);
+  const [aiKnownErrors, setAiKnownErrors] = useState<KnownErrorMatch[]>([]);
+  const [aiLinkedProblems, setAiLinkedProblems] = useState<string[]>([]);
+  const [aiSuggestResult, setAiSuggestResult] = useState<AiSuggestion | { raw: string } | null>(null);
+  const [aiSuggestModel, setAiSuggestModel] = useState<AiModelInfo | null>(null);
+  const [aiSuggestPrompt, setAiSuggestPrompt] = useState<PromptTemplateRef | null>(null);
+  const [aiSuggestStreamText, setAiSuggestStreamText] = useState("");
+  const [aiSuggestRepairAttempt, setAiSuggestRepairAttempt] = useState(0);
+  const [aiSuggestValidation, setAiSuggestValidation] = useState<AiOutputValidation | null>(null);
+  const [aiSuggestVerification, setAiSuggestVerification] = useState<CitationVerification | null>(null);
+
+  const [sopResolutionNotes, setSopResolutionNotes] = useState("");
+  const [sopValidationNotes, setSopValidationNotes] = useState("");
+  const [sopRollbackNotes, setSopRollbackNotes] = useState("");
+
+  const [sopStatus, setSopStatus] = useState<
+    | { state: "idle" }
+    | { state: "running" }
+    | { state: "done" }
+    | { state: "error"; message: string }
+  >({ state: "idle" });
+
+  const [sopEvidence, setSopEvidence] = useState<EvidenceItem[]>([]);
+  const [sopDraft, setSopDraft] = useState<SopDraft | null>(null);
+  const [sopStreamText, setSopStreamText] = useState("");
+  const [sopRepairAttempt, setSopRepairAttempt] = useState(0);
+  const [sopValidation, setSopValidation] = useState<AiOutputValidation | null>(null);
+
+  const grafanaDashboardUrl =
+    process.env.NEXT_PUBLIC_GRAFANA_DASHBOARD_URL ?? "";
+
+  async function storeRagItem() {
+    setRagAddStatus({ state: "saving" });
+    try {
+      const data = await ragApi.upsert({
+        sourceType: ragAdd.sourceType,
+        sourceId: ragAdd.sourceId,
+        title: ragAdd.title,
+        content: ragAdd.content,
+        metadata: { topics: Array.from(selectedTopics) },
+      });
+      setRagAddStatus({ state: "saved", chunksUpserted: data.chunksUpserted });
+    } catch (err: any) {
+      setRagAddStatus({ state: "error", message: err.message });
+    }
+  }
+
+  async function runRagSearch() {
+    setRagSearchStatus({ state: "searching" });
+    setRagResults([]);
+    try {
+      const data = await ragApi.search({
+        query: ragQuery,
+        limit: 8,
+        filterSourceType:
+          ragFilterSourceType === "all" ? null : ragFilterSourceType,
+        mode: ragSearchMode,
+      });
+      setRagResults(data.results);
+      setRagSearchStatus({ state: "done" });
+    } catch (err: any) {
+      setRagSearchStatus({ state: "error", message: err.message });
+    }
+  }
+
+  async function loadLatestReindexJob() {
+    try {
+      const data = await ragApi.listReindexJobs();
+      setReindexJob(data.jobs[0] ?? null);
+    } catch {
+      setReindexJob(null);
+    }
+  }
+
+  async function startReindex() {
+    setReindexStatus({ state: "starting" });
+    try {
+      const data = await ragApi.startReindex();
+      setReindexJob(data.job);
+      setReindexStatus({ state: "idle" });
+    } catch (err: any) {
+      setReindexStatus({ state: "error", message: err.message });
+    }
+  }
+
+  useEffect(() => {
+    if (nav !== "dashboard" || !isAdmin) return;
+    void loadLatestReindexJob();
+  }, [nav, isAdmin]);
+
+  useEffect(() => {
+    if (!reindexJob || reindexJob.status !== "running") return;
+    const timer = setTimeout(async () => {
+      try {
+        const data = await ragApi.getReindexJob(reindexJob.id);
+        setReindexJob(data.job);
+      } catch (err: any) {
+        setReindexStatus({ state: "error", message: err.message });
+      }
+    }, 2000);
+    return () => clearTimeout(timer);
+  }, [reindexJob]);
+
+  const reindexPercent =
+    reindexJob && reindexJob.items_total > 0
+      ? Math.round((reindexJob.items_processed / reindexJob.items_total) * 100)
+      : reindexJob?.status === "completed"
+        ? 100
+        : 0;
+
+  const MEMORY_PAGE_SIZE = 20;
+
+  async function loadMemoryDocuments(page = memoryPage) {
+    setMemoryStatus({ state: "loading" });
+    try {
+      const data = await ragApi.listDocuments({
+        page,
+        pageSize: MEMORY_PAGE_SIZE,
+        sourceType: memoryFilter.sourceType === "all" ? undefined : memoryFilter.sourceType,
+        sourceId: memoryFilter.sourceId.trim() || undefined,
+      });
+      setMemoryDocs(data.documents);
+      setMemoryTotal(data.total);
+      setMemoryPage(data.page);
+      setMemoryStatus({ state: "idle" });
+    } catch (err: any) {
+      setMemoryStatus({ state: "error", message: err.message });
+    }
+  }
+
+  useEffect(() => {
+    if (nav !== "dashboard" || !isAdmin) return;
+    void loadMemoryDocuments(1);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [nav, isAdmin]);
+
+  async function openMemoryDocument(sourceType: string, sourceId: string) {
+    setMemoryDocStatus({ state: "working" });
+    try {
+      const data = await ragApi.getDocument(sourceType, sourceId);
+      setMemoryDoc({ sourceType, sourceId, chunks: data.chunks, curation: data.curation });
+      setMemoryMetaDraft(JSON.stringify(data.metadata, null, 2));
+      setMemoryDocStatus({ state: "idle" });
+    } catch (err: any) {
+      setMemoryDocStatus({ state: "error", message: err.message });
+    }
+  }
+
+  async function updateMemoryDocument(patch: {
+    metadata?: Record<string, any>;
+    pinned?: boolean;
+    blacklisted?: boolean;
+  }) {
+    if (!memoryDoc) return;
+    setMemoryDocStatus({ state: "working" });
+    try {
+      const data = await ragApi.updateDocument(memoryDoc.sourceType, memoryDoc.sourceId, patch);
+      setMemoryDoc({ ...memoryDoc, chunks: data.chunks, curation: data.curation });
+      setMemoryMetaDraft(JSON.stringify(data.metadata, null, 2));
+      setMemoryDocStatus({ state: "idle" });
+      await loadMemoryDocuments();
+    } catch (err: any) {
+      setMemoryDocStatus({ state: "error", message: err.message });
+    }
+  }
+
+  async function saveMemoryMetadata() {
+    let metadata: unknown;
+    try {
+      metadata = JSON.parse(memoryMetaDraft);
+    } catch {
+      setMemoryDocStatus({ state: "error", message: "Metadata must be valid JSON" });
+      return;
+    }
+    if (!metadata || typeof metadata !== "object" || Array.isArray(metadata)) {
+      setMemoryDocStatus({ state: "error", message: "Metadata must be a JSON object" });
+      return;
+    }
+    await updateMemoryDocument({ metadata: metadata as Record<string, any> });
+  }
+
+  async function deleteMemoryDocument() {
+    if (!memoryDoc) return;
+    if (!confirm(`Remove ${memoryDoc.sourceType}:${memoryDoc.sourceId} from RAG memory?`)) return;
+    setMemoryDocStatus({ state: "working" });
+    try {
+      await ragApi.deleteDocument(memoryDoc.sourceType, memoryDoc.sourceId);
+      setMemoryDoc(null);
+      setMemoryDocStatus({ state: "idle" });
+      await loadMemoryDocuments();
+    } catch (err: any) {
+      setMemoryDocStatus({ state: "error", message: err.message });
+    }
+  }
+
+  async function deleteMemoryChunk(id: string) {
+    if (!memoryDoc) return;
+    if (!confirm("Delete this chunk from RAG memory?")) return;
+    setMemoryDocStatus({ state: "working" });
+    try {
+      await ragApi.deleteItem(id);
+      const chunks = memoryDoc.chunks.filter((c) => c.id !== id);
+      setMemoryDoc(chunks.length > 0 ? { ...memoryDoc, chunks } : null);
+      setMemoryDocStatus({ state: "idle" });
+      await loadMemoryDocuments();
+    } catch (err: any) {
+      setMemoryDocStatus({ state: "error", message: err.message });
+    }
+  }
+
+  const memoryPageCount = Math.max(1, Math.ceil(memoryTotal / MEMORY_PAGE_SIZE));
+
+  function editFromPrompt(t: PromptTemplateRow | undefined) {
+    setPromptDraft({
+      baseVersion: t?.version ?? null,
+      system: t?.system_template ?? "",
+      user: t?.user_template ?? "",
+      notes: "",
+    });
+  }
+
+  async function loadPromptTemplates(key = promptKey) {
+    setPromptStatus({ state: "loading" });
+    try {
+      const data = await aiApi.listPrompts(key);
+      setPromptTemplates(data.templates);
+      setPromptVariables(data.variables[key] ?? []);
+      editFromPrompt(data.templates.find((t) => t.is_active) ?? data.templates[0]);
+      setPromptStatus({ state: "idle" });
+    } catch (err: any) {
+      setPromptStatus({ state: "error", message: err.message });
+    }
+  }
+
+  useEffect(() => {
+    if (nav !== "dashboard" || !isAdmin) return;
+    void loadPromptTemplates(promptKey);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [nav, isAdmin, promptKey]);
+
+  async function savePromptVersion(activate: boolean) {
+    setPromptStatus({ state: "saving" });
+    try {
+      await aiApi.createPrompt({
+        key: promptKey,
+        system: promptDraft.system,
+        user: promptDraft.user,
+        notes: promptDraft.notes,
+        activate,
+      });
+      await loadPromptTemplates();
+    } catch (err: any) {
+      setPromptStatus({ state: "error", message: err.message });
+    }
+  }
+
+  async function loadEvalRuns() {
+    try {
+      const data = await aiApi.listEvalRuns();
+      setEvalRuns(data.runs);
+    } catch (err: any) {
+      setEvalStatus({ state: "error", message: err.message });
+    }
+  }
+
+  useEffect(() => {
+    if (nav !== "dashboard" || !isAdmin) return;
+    void loadEvalRuns();
+    aiApi
+      .listPrompts("suggest")
+      .then((data) => setEvalPrompts(data.templates))
+      .catch(() => setEvalPrompts([]));
+  }, [nav, isAdmin]);
+
+  useEffect(() => {
+    if (!evalRuns.some((r) => r.status === "running")) return;
+    const timer = setTimeout(() => void loadEvalRuns(), 3000);
+    return () => clearTimeout(timer);
+  }, [evalRuns]);
+
+  async function startEvalRun() {
+    setEvalStatus({ state: "starting" });
+    try {
+      await aiApi.startEvalRun({
+        name: evalForm.name.trim() || undefined,
+        sameAsRunId: evalForm.sameAsRunId || undefined,
+        config: {
+          route:
+            evalForm.backend || evalForm.endpoint || evalForm.model
+              ? {
+                  backend: evalForm.backend.trim() || undefined,
+                  endpoint: evalForm.endpoint.trim() || undefined,
+                  model: evalForm.model.trim() || undefined,
+                }
+              : undefined,
+          promptTemplateId: evalForm.promptTemplateId || undefined,
+          // Deterministic replays: a run should differ only in what it varies.
+          temperature: 0,
+          retrieval: { mode: evalForm.mode, limit: evalForm.limit },
+        },
+      });
+      setEvalStatus({ state: "idle" });
+      await loadEvalRuns();
+    } catch (err: any) {
+      setEvalStatus({ state: "error", message: err.message });
+    }
+  }
+
+  async function compareEvalRuns() {
+    if (!evalCompare.baseId || !evalCompare.candidateId) return;
+    try {
+      const data = await aiApi.compareEvalRuns(evalCompare.baseId, evalCompare.candidateId);
+      setEvalReport(data.report);
+    } catch (err: any) {
+      setEvalStatus({ state: "error", message: err.message });
+    }
+  }
+
+  async function activatePromptVersion(id: string) {
+    setPromptStatus({ state: "saving" });
+    try {
+      await aiApi.activatePrompt(id);
+      await loadPromptTemplates();
+    } catch (err: any) {
+      setPromptStatus({ state: "error", message: err.message });
+    }
+  }
+
+  async function runDuplicateCheck() {
+    setDupStatus({ state: "checking" });
+    setDupResults([]);
+    try {
+      const data = await ragApi.findSimilarTickets({
+        title: dupTitle,
+        description: dupDesc,
+        limit: 8,
+      });
+      setDupResults(data.results);
+      setDupStatus({ state: "done" });
+    } catch (err: any) {
+      setDupStatus({ state: "error", message: err.message });
+    }
+  }
+
+  async function checkAiHealth() {
+    setAiHealth({ state: "checking" });
+    try {
+      const data = await aiApi.getHealth();
+      const backends = data.backends ?? [];
+      setAiHealth(
+        data.ok ? { state: "ok", host: data.host, backends } : { state: "down", host: data.host, backends }
+      );
+    } catch {
+      setAiHealth({ state: "down", host: "unknown", backends: [] });
+    }
+  }
+
+  async function runAiSuggest() {
+    setAiSuggestStatus({ state: "running" });
+    setAiSuggestEvidence([]);
+    setAiKnownErrors([]);
+    setAiLinkedProblems([]);
+    setAiSuggestResult(null);
+    setAiSuggestStreamText("");
+    setAiSuggestRepairAttempt(0);
+    setAiSuggestValidation(null);
+    setAiSuggestVerification(null);
+    setAiSuggestPrompt(null);
+
+    try {
+      // Evidence arrives as soon as retrieval is done; the answer streams in after it.
+      await aiApi.suggestStream(
+        {
+          title: aiTitle,
+          description: aiDescription,
+          topics: Array.from(selectedTopics),
+        },
+        (event) => {
+          if (event.type === "evidence") {
+            setAiSuggestEvidence(event.evidence);
+            setAiKnownErrors(event.known_errors ?? []);
+            setAiSuggestModel(event.model);
+          } else if (event.type === "token") {
+            setAiSuggestStreamText((prev) => prev + event.text);
+          } else if (event.type === "repair") {
+            setAiSuggestStreamText("");
+            setAiSuggestRepairAttempt(event.attempt);
+          } else {
+            setAiSuggestResult(event.result);
+            setAiSuggestModel(event.model);
+            setAiSuggestPrompt(event.prompt);
+            setAiSuggestValidation(event.validation);
+            setAiSuggestVerification(event.verification ?? null);
+          }
+        }
+      );
+      setAiSuggestStatus({ state: "done" });
+    } catch (err: any) {
+      setAiSuggestStatus({ state: "error", message: err.message });
+    }
+  }
+
+  async function submitRating(rating: number, feedback?: string) {
+    if (!selectedTicketId || !aiSuggestResult) return;
+    try {
+      await aiApi.submitRating({
+        ticketId: selectedTicketId,
+        recommendationPayload: aiSuggestResult,
+        rating,
+        feedback,
+        modelInfo: aiSuggestModel,
+        promptTemplate: aiSuggestPrompt,
+      });
+      alert("Thanks for the feedback!");
+    } catch (err: any) {
+      console.error("Failed to submit rating", err.message);
+    }
+  }
+
+  async function runSopDraft() {
+    setSopStatus({ state: "running" });
+    setSopEvidence([]);
+    setSopDraft(null);
+    setSopStreamText("");
+    setSopRepairAttempt(0);
+    setSopValidation(null);
+
+    try {
+      await aiApi.getSopDraftStream(
+        {
+          ticketTitle: aiTitle,
+          ticketDescription: aiDescription,
+          resolutionNotes: sopResolutionNotes,
+          topics: Array.from(selectedTopics),
+        },
+        (event) => {
+          if (event.type === "evidence") {
+            setSopEvidence(event.evidence);
+          } else if (event.type === "token") {
+            setSopStreamText((prev) => prev + event.text);
+          } else if (event.type === "repair") {
+            setSopStreamText("");
+            setSopRepairAttempt(event.attempt);
+          } else {
+            setSopDraft(event.result);
+            setSopValidation(event.validation);
+          }
+        }
+      );
+      setSopStatus({ state: "done" });
+    } catch (err: any) {
+      setSopStatus({ state: "error", message: err.message });
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-50">
       <div className="mx-auto max-w-[1400px] px-4 py-5 sm:px-6 lg:px-8">
         {/* Top bar */}
         <header className="flex items-center justify-between gap-4">
@@ -1056,6 +2537,22 @@ export default function Home() {
                   </span>
                 )}
               </div>
+              {(aiHealth.state === "ok" || aiHealth.state === "down") && aiHealth.backends.length > 1 && (
+                <div className="mt-2 space-y-1">
+                  {aiHealth.backends.map((b) => (
+                    <div key={b.name} className="flex items-center justify-between text-[11px]" title={b.endpoint}>
+                      <span className="text-slate-600 truncate">{b.name}</span>
+                      <span
+                        className={cn(
+                          b.circuit === "open" ? "text-rose-700" : b.healthy ? "text-emerald-700" : "text-amber-800"
+                        )}
+                      >
+                        {b.circuit === "open" ? "circuit open" : b.healthy ? "up" : "down"}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
             </div>
 
             {/* Topics */}
@@ -1151,6 +2648,133 @@ export default function Home() {
                   />
                 </Panel>
 
+                <Panel
+                  title="SLA breach risk"
+                  subtitle="Active tickets past or close to a response or resolution due time."
+                  right={
+                    <div className="flex items-center gap-2">
+                      {slaRisk ? (
+                        <>
+                          <Badge tone={slaRisk.breached > 0 ? "danger" : "neutral"}>{slaRisk.breached} breached</Badge>
+                          <Badge tone={slaRisk.atRisk > 0 ? "warning" : "neutral"}>{slaRisk.atRisk} at risk</Badge>
+                        </>
+                      ) : null}
+                      <button
+                        type="button"
+                        className="rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm font-medium text-slate-900 shadow-sm hover:bg-slate-50"
+                        onClick={() => void loadSlaRisk()}
+                      >
+                        {slaRiskStatus.state === "loading" ? "Checking…" : "Refresh"}
+                      </button>
+                    </div>
+                  }
+                >
+                  {slaRiskStatus.state === "error" ? (
+                    <div className="text-sm text-slate-600">{slaRiskStatus.message}</div>
+                  ) : !slaRisk || slaRisk.items.length === 0 ? (
+                    <EmptyState
+                      title="Nothing at risk"
+                      description="Tickets appear here once they have used most of an SLA target or missed it."
+                    />
+                  ) : (
+                    <ul className="divide-y divide-slate-200">
+                      {slaRisk.items.map((item) => (
+                        <li key={`${item.ticket_id}:${item.target}`}>
+                          <button
+                            type="button"
+                            className="flex w-full items-center justify-between gap-3 py-2 text-left hover:bg-slate-50"
+                            onClick={() => {
+                              setNav("tickets");
+                              setSelectedTicketId(item.ticket_id);
+                            }}
+                          >
+                            <div className="min-w-0">
+                              <div className="truncate text-sm font-medium text-slate-900">{item.title}</div>
+                              <div className="mt-1 text-xs text-slate-600">
+                                {item.external_id ?? item.ticket_id.slice(0, 8)} · {item.priority} ·{" "}
+                                {item.target === "response" ? "First response" : "Resolution"} due{" "}
+                                {formatDateTime(item.due_at)}
+                                {item.assigned_to ? ` · @${assigneeNames.get(item.assigned_to) ?? "unknown"}` : " · Unassigned"}
+                              </div>
+                            </div>
+                            <div className="flex shrink-0 items-center gap-2">
+                              {item.paused ? <Badge tone="neutral">Paused</Badge> : null}
+                              <Badge tone={item.breached ? "danger" : "warning"}>
+                                {item.breached
+                                  ? `Breached ${formatMinutes(item.remaining_minutes)} ago`
+                                  : `${formatMinutes(item.remaining_minutes)} left`}
+                              </Badge>
+                            </div>
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </Panel>
+
+                <Panel
+                  title="Workload"
+                  subtitle="Open and in-progress tickets per engineer and team queue."
+                  right={
+                    workload ? <Badge tone={workload.unassigned > 0 ? "warning" : "neutral"}>{workload.unassigned} unassigned</Badge> : null
+                  }
+                >
+                  {workloadStatus.state === "error" ? (
+                    <div className="text-sm text-slate-600">{workloadStatus.message}</div>
+                  ) : !workload || (workload.engineers.length === 0 && workload.teams.length === 0) ? (
+                    <EmptyState
+                      title="No engineers yet"
+                      description="Engineers and Admins appear here with their active ticket counts."
+                    />
+                  ) : (
+                    <div className="grid grid-cols-1 gap-5 xl:grid-cols-2">
+                      <table className="w-full text-left text-sm">
+                        <thead className="text-xs text-slate-500">
+                          <tr>
+                            <th className="py-2 font-medium">Engineer</th>
+                            <th className="py-2 font-medium">Open</th>
+                            <th className="py-2 font-medium">In progress</th>
+                            <th className="py-2 font-medium">By priority</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-slate-200">
+                          {workload.engineers.map((e) => (
+                            <tr key={e.user_id}>
+                              <td className="py-2 text-slate-900">@{e.username}</td>
+                              <td className="py-2">{e.open}</td>
+                              <td className="py-2">{e.in_progress}</td>
+                              <td className="py-2 text-xs text-slate-600">
+                                {Object.entries(e.by_priority)
+                                  .sort(([a], [b]) => a.localeCompare(b))
+                                  .map(([p, n]) => `${p}: ${n}`)
+                                  .join(" · ") || "—"}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                      <table className="w-full text-left text-sm">
+                        <thead className="text-xs text-slate-500">
+                          <tr>
+                            <th className="py-2 font-medium">Queue</th>
+                            <th className="py-2 font-medium">Active</th>
+                            <th className="py-2 font-medium">Unassigned</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-slate-200">
+                          {workload.teams.map((q) => (
+                            <tr key={q.team_id}>
+                              <td className="py-2 text-slate-900">{q.name}</td>
+                              <td className="py-2">{q.open}</td>
+                              <td className="py-2">{q.unassigned}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                </Panel>
+
                 <div className="grid grid-cols-1 gap-5 xl:grid-cols-2">
                   <Panel
                     title="Recent activity"
@@ -1355,7 +2979,7 @@ export default function Home() {
                         Search memory
                       </div>
                       <div className="mt-3 grid grid-cols-1 gap-3">
-                        <div className="grid grid-cols-1 gap-3 sm:grid-cols-[1fr_160px]">
+                        <div className="grid grid-cols-1 gap-3 sm:grid-cols-[1fr_120px_120px]">
                           <input
                             className="w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 shadow-sm outline-none placeholder:text-slate-400 focus:border-slate-300 focus:ring-4 focus:ring-slate-200/60"
                             placeholder="Ask: 'TrakSYS MES client won't connect'…"
@@ -1373,6 +2997,15 @@ export default function Home() {
                             <option value="postmortem">postmortem</option>
                             <option value="note">note</option>
                           </select>
+                          <select
+                            className="w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 shadow-sm outline-none focus:border-slate-300 focus:ring-4 focus:ring-slate-200/60"
+                            value={ragSearchMode}
+                            onChange={(e) => setRagSearchMode(e.target.value as RagSearchMode)}
+                          >
+                            <option value="hybrid">hybrid</option>
+                            <option value="vector">vector</option>
+                            <option value="lexical">lexical</option>
+                          </select>
                         </div>
 
                         <div className="flex items-center justify-between">
@@ -1381,7 +3014,11 @@ export default function Home() {
                               ? ragSearchStatus.message
                               : ragSearchStatus.state === "done"
                                 ? `${ragResults.length} results`
-                                : "Cosine similarity over local embeddings."}
+                                : ragSearchMode === "hybrid"
+                                  ? "Full-text + cosine similarity, fused by rank."
+                                  : ragSearchMode === "lexical"
+                                    ? "Full-text match over titles and content."
+                                    : "Cosine similarity over local embeddings."}
                           </div>
                           <button
                             type="button"
@@ -1413,15 +3050,28 @@ export default function Home() {
                                         <span className="font-mono">{r.source_id}</span>
                                         <span className="text-slate-300"> • </span>
                                         <span>chunk {r.chunk_index}</span>
+                                        {r.section ? (
+                                          <>
+                                            <span className="text-slate-300"> • </span>
+                                            <span>{r.section}</span>
+                                          </>
+                                        ) : null}
                                       </div>
                                       <div className="mt-2 line-clamp-3 text-sm text-slate-600">
                                         {r.content}
                                       </div>
                                     </div>
-                                    <div className="shrink-0 text-right">
+                                    <div className="shrink-0 space-y-1 text-right">
                                       <Badge tone="neutral">
                                         score {r.score.toFixed(3)}
                                       </Badge>
+                                      {r.vector_score != null || r.lexical_score != null ? (
+                                        <div className="text-[11px] text-slate-500">
+                                          vec {r.vector_score != null ? r.vector_score.toFixed(3) : "—"}
+                                          {" · "}
+                                          lex {r.lexical_score != null ? r.lexical_score.toFixed(3) : "—"}
+                                        </div>
+                                      ) : null}
                                     </div>
                                   </div>
                                 </li>
@@ -1431,7 +3081,79 @@ export default function Home() {
                         </div>
                       </div>
                     </div>
-                  </div>
+                  </div>
+
+                  {isAdmin ? (
+                    <div className="mt-5 rounded-2xl border border-slate-200 bg-white p-4">
+                      <div className="flex items-start justify-between gap-4">
+                        <div>
+                          <div className="text-xs font-semibold text-slate-900">
+                            Re-embed memory
+                          </div>
+                          <div className="mt-1 text-xs text-slate-600">
+                            Rebuilds every RAG item with the current embedding model (tickets, SOPs, synced issues).
+                          </div>
+                        </div>
+                        <button
+                          type="button"
+                          className="rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm font-medium text-slate-900 shadow-sm hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-60"
+                          disabled={reindexStatus.state === "starting" || reindexJob?.status === "running"}
+                          onClick={startReindex}
+                        >
+                          {reindexJob?.status === "running" ? "Reindexing…" : "Start reindex"}
+                        </button>
+                      </div>
+
+                      {reindexJob ? (
+                        <div className="mt-3">
+                          <div className="h-2 w-full overflow-hidden rounded-full bg-slate-100">
+                            <div
+                              className={cn(
+                                "h-full rounded-full transition-all",
+                                reindexJob.status === "failed" ? "bg-rose-500" : "bg-slate-900"
+                              )}
+                              style={{ width: `${reindexPercent}%` }}
+                            />
+                          </div>
+                          <div className="mt-2 flex flex-wrap items-center gap-2 text-xs text-slate-600">
+                            <Badge
+                              tone={
+                                reindexJob.status === "completed"
+                                  ? "success"
+                                  : reindexJob.status === "failed"
+                                    ? "danger"
+                                    : "info"
+                              }
+                            >
+                              {reindexJob.status}
+                            </Badge>
+                            <span>
+                              {reindexJob.items_processed}/{reindexJob.items_total} documents
+                            </span>
+                            <span className="text-slate-300">•</span>
+                            <span>{reindexJob.chunks_written} chunks</span>
+                            {reindexJob.items_failed > 0 ? (
+                              <>
+                                <span className="text-slate-300">•</span>
+                                <span className="text-rose-700">{reindexJob.items_failed} failed</span>
+                              </>
+                            ) : null}
+                            <span className="text-slate-300">•</span>
+                            <span className="font-mono">
+                              {reindexJob.embedding_provider}/{reindexJob.embedding_model}
+                            </span>
+                          </div>
+                          {reindexJob.error_message ? (
+                            <div className="mt-2 text-xs text-rose-700">{reindexJob.error_message}</div>
+                          ) : null}
+                        </div>
+                      ) : null}
+
+                      {reindexStatus.state === "error" ? (
+                        <div className="mt-2 text-xs text-rose-700">{reindexStatus.message}</div>
+                      ) : null}
+                    </div>
+                  ) : null}
                 </Panel>
 
                 <Panel
@@ -1470,6 +3192,21 @@ export default function Home() {
                             value={aiTitle}
                             onChange={(e) => setAiTitle(e.target.value)}
                           />
+                          {aiTicketId ? (
+                            <div className="mt-2 flex items-center gap-2 text-[11px] text-slate-500">
+                              <span>
+                                Analysing ticket{" "}
+                                {tickets.find((t) => t.id === aiTicketId)?.external_id ?? aiTicketId.slice(0, 8)}
+                              </span>
+                              <button
+                                type="button"
+                                className="hover:text-slate-900"
+                                onClick={() => setAiTicketId(null)}
+                              >
+                                Detach
+                              </button>
+                            </div>
+                          ) : null}
                         </div>
 
                         <div>
@@ -1510,6 +3247,63 @@ export default function Home() {
                           </button>
                         </div>
 
+                        {aiKnownErrors.length > 0 ? (
+                          <div className="rounded-2xl border border-amber-200 bg-amber-50/60 p-4">
+                            <div className="text-xs font-semibold text-slate-900">Known errors</div>
+                            <ul className="mt-2 space-y-3">
+                              {aiKnownErrors.map((k) => (
+                                <li key={k.problem_id}>
+                                  <div className="flex items-center justify-between gap-3">
+                                    <button
+                                      type="button"
+                                      className="min-w-0 text-left text-sm font-medium text-slate-900 hover:underline"
+                                      onClick={() => {
+                                        setNav("tickets");
+                                        setSelectedTicketId(k.problem_id);
+                                      }}
+                                    >
+                                      {k.external_id ? `${k.external_id} · ` : ""}
+                                      {k.title}
+                                    </button>
+                                    <div className="flex shrink-0 items-center gap-2">
+                                      {aiLinkedProblems.includes(k.problem_id) ? (
+                                        <Badge tone="info">linked</Badge>
+                                      ) : canWrite &&
+                                        aiTicketId &&
+                                        tickets.find((t) => t.id === aiTicketId)?.type === "Incident" ? (
+                                        <button
+                                          type="button"
+                                          className="rounded-lg border border-slate-200 bg-white px-2 py-1 text-[11px] font-semibold text-slate-700 hover:bg-slate-50"
+                                          onClick={() => void linkKnownError(k.problem_id)}
+                                        >
+                                          Link as cause
+                                        </button>
+                                      ) : null}
+                                      <Badge tone="neutral">score {k.score.toFixed(2)}</Badge>
+                                    </div>
+                                  </div>
+                                  <div className="mt-1 whitespace-pre-wrap text-xs text-slate-700">
+                                    <span className="font-semibold">Workaround:</span> {k.workaround}
+                                  </div>
+                                </li>
+                              ))}
+                            </ul>
+                          </div>
+                        ) : null}
+
+                        {!aiSuggestResult && aiSuggestStatus.state === "running" && aiSuggestStreamText ? (
+                          <div className="rounded-2xl border border-slate-200 bg-slate-50/60 p-4">
+                            <div className="text-xs font-semibold text-slate-900">
+                              {aiSuggestRepairAttempt > 0
+                                ? `Output (repairing invalid output, attempt ${aiSuggestRepairAttempt}…)`
+                                : "Output (streaming…)"}
+                            </div>
+                            <pre className="mt-3 max-h-64 overflow-y-auto whitespace-pre-wrap text-xs text-slate-800">
+                              {aiSuggestStreamText}
+                            </pre>
+                          </div>
+                        ) : null}
+
                         {aiSuggestResult ? (
                           <div className="rounded-2xl border border-slate-200 bg-slate-50/60 p-4">
                             <div className="flex items-center justify-between gap-3">
@@ -1524,6 +3318,27 @@ export default function Home() {
                               ) : null}
                             </div>
 
+                            <ValidationNotice validation={aiSuggestValidation} onRetry={runAiSuggest} />
+
+                            {aiSuggestVerification && aiSuggestVerification.claims_checked > 0 ? (
+                              <div className="mt-2 text-[11px] text-slate-500">
+                                {aiSuggestVerification.claims_supported}/{aiSuggestVerification.claims_checked} claims
+                                supported by cited evidence
+                                {aiSuggestVerification.claims_rejected > 0
+                                  ? ` · ${aiSuggestVerification.claims_rejected} moved to questions · confidence ${aiSuggestVerification.confidence_before.toFixed(2)} → ${aiSuggestVerification.confidence_after.toFixed(2)}`
+                                  : ""}
+                              </div>
+                            ) : null}
+
+                            {aiSuggestModel ? (
+                              <div className="mt-2 text-[11px] text-slate-500">
+                                {aiSuggestModel.backend}/{aiSuggestModel.name}
+                                {aiSuggestPrompt
+                                  ? ` · prompt ${aiSuggestPrompt.key} ${aiSuggestPrompt.version > 0 ? `v${aiSuggestPrompt.version}` : "(built-in)"}`
+                                  : ""}
+                              </div>
+                            ) : null}
+
                             {isRaw(aiSuggestResult) ? (
                               <pre className="mt-3 whitespace-pre-wrap text-xs text-slate-800">
                                 {aiSuggestResult.raw}
@@ -1560,9 +3375,241 @@ export default function Home() {
                                     <div className="text-xs font-semibold text-slate-900">
                                       Validation
                                     </div>
-                                    <ul className="mt-2 list-disc space-y-1 pl-5 text-sm text-slate-800">
-                                      {aiSuggestResult.validation_steps.map((v: string, i: number) => (
-                                        <li key={i}>{v}</li>
+                                    <ul className="mt-2 list-disc space-y-1 pl-5 text-sm text-slate-800">
+                                      {aiSuggestResult.validation_steps.map((v: string, i: number) => (
+                                        <li key={i}>{v}</li>
+                                      ))}
+                                    </ul>
+                                  </div>
+                                  <div>
+                                    <div className="text-xs font-semibold text-slate-900">
+                                      Rollback
+                                    </div>
+                                    <ul className="mt-2 list-disc space-y-1 pl-5 text-sm text-slate-800">
+                                      {aiSuggestResult.rollback_procedures.map((v: string, i: number) => (
+                                        <li key={i}>{v}</li>
+                                      ))}
+                                    </ul>
+                                  </div>
+                                </div>
+
+                                {aiSuggestResult.questions.length ? (
+                                  <div>
+                                    <div className="text-xs font-semibold text-slate-900">
+                                      Questions (missing evidence)
+                                    </div>
+                                    <ul className="mt-2 list-disc space-y-1 pl-5 text-sm text-slate-800">
+                                      {aiSuggestResult.questions.map((q: string, i: number) => (
+                                        <li key={i}>{q}</li>
+                                      ))}
+                                    </ul>
+                                  </div>
+                                ) : null}
+
+                                <div className="mt-6 border-t border-slate-200 pt-4">
+                                  <div className="text-xs font-semibold text-slate-900">
+                                    Was this helpful?
+                                  </div>
+                                  <div className="mt-2 flex items-center gap-2">
+                                    {[1, 2, 3, 4, 5].map((star: number) => (
+                                      <button
+                                        key={star}
+                                        onClick={() => submitRating(star)}
+                                        className="rounded-lg border border-slate-200 p-2 text-lg hover:bg-slate-50"
+                                      >
+                                        ⭐
+                                      </button>
+                                    ))}
+                                  </div>
+                                </div>
+                              </div>
+                            )}
+                          </div>
+                        ) : null}
+
+                        <div className="rounded-2xl border border-slate-200">
+                          <div className="flex items-center justify-between border-b border-slate-200 px-4 py-3">
+                            <div className="text-xs font-semibold text-slate-900">
+                              Evidence used
+                            </div>
+                            <div className="text-xs text-slate-500">
+                              {aiSuggestEvidence.length} items
+                            </div>
+                          </div>
+                          {aiSuggestEvidence.length === 0 ? (
+                            <div className="p-4 text-sm text-slate-600">
+                              Store internal ticket/SOP knowledge in the RAG memory panel first.
+                            </div>
+                          ) : (
+                            <ul className="divide-y divide-slate-200">
+                              {aiSuggestEvidence.map((e) => (
+                                <li key={e.ref} className="p-4">
+                                  <div className="flex items-start justify-between gap-3">
+                                    <div className="min-w-0">
+                                      <div className="truncate text-sm font-medium text-slate-900">
+                                        {e.ref}: {e.title}
+                                      </div>
+                                      <div className="mt-1 text-xs text-slate-500">
+                                        <span className="font-mono">
+                                          {e.source_type}:{e.source_id}
+                                        </span>{" "}
+                                        • score {e.score.toFixed(3)}
+                                      </div>
+                                    </div>
+                                  </div>
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                        </div>
+                      </div>
+                    </div>
+
+                    <div className="rounded-2xl border border-slate-200 bg-white p-4">
+                      <div className="text-xs font-semibold text-slate-900">
+                        SOP draft generation (after resolution)
+                      </div>
+
+                      <div className="mt-3 grid grid-cols-1 gap-3">
+                        <div>
+                          <label className="text-xs font-medium text-slate-600">
+                            Resolution notes (required)
+                          </label>
+                          <textarea
+                            className="mt-1 h-28 w-full resize-none rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 shadow-sm outline-none placeholder:text-slate-400 focus:border-slate-300 focus:ring-4 focus:ring-slate-200/60"
+                            placeholder="What was done to resolve the issue (commands, config changes, restarts, approvals, etc.)"
+                            value={sopResolutionNotes}
+                            onChange={(e) => setSopResolutionNotes(e.target.value)}
+                          />
+                        </div>
+
+                        <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+                          <div>
+                            <label className="text-xs font-medium text-slate-600">
+                              Validation notes (optional)
+                            </label>
+                            <textarea
+                              className="mt-1 h-20 w-full resize-none rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 shadow-sm outline-none placeholder:text-slate-400 focus:border-slate-300 focus:ring-4 focus:ring-slate-200/60"
+                              placeholder="How you verified recovery"
+                              value={sopValidationNotes}
+                              onChange={(e) => setSopValidationNotes(e.target.value)}
+                            />
+                          </div>
+                          <div>
+                            <label className="text-xs font-medium text-slate-600">
+                              Rollback notes (optional)
+                            </label>
+                            <textarea
+                              className="mt-1 h-20 w-full resize-none rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 shadow-sm outline-none placeholder:text-slate-400 focus:border-slate-300 focus:ring-4 focus:ring-slate-200/60"
+                              placeholder="How to revert safely"
+                              value={sopRollbackNotes}
+                              onChange={(e) => setSopRollbackNotes(e.target.value)}
+                            />
+                          </div>
+                        </div>
+
+                        <div className="flex items-center justify-between gap-3">
+                          <div className="text-xs text-slate-600">
+                            {sopStatus.state === "error"
+                              ? sopStatus.message
+                              : "Draft is grounded in RAG evidence + your resolution notes."}
+                          </div>
+                          <button
+                            type="button"
+                            className="rounded-xl bg-slate-900 px-3 py-2 text-sm font-medium text-white shadow-sm hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-60"
+                            disabled={
+                              sopStatus.state === "running" ||
+                              !aiTitle.trim() ||
+                              !sopResolutionNotes.trim()
+                            }
+                            onClick={runSopDraft}
+                          >
+                            {sopStatus.state === "running" ? "Generating…" : "Generate SOP draft"}
+                          </button>
+                        </div>
+
+                        {!sopDraft && sopStatus.state === "running" && sopStreamText ? (
+                          <div className="rounded-2xl border border-slate-200 bg-slate-50/60 p-4">
+                            <div className="text-xs font-semibold text-slate-900">
+                              {sopRepairAttempt > 0
+                                ? `SOP draft (repairing invalid output, attempt ${sopRepairAttempt}…)`
+                                : "SOP draft (streaming…)"}
+                            </div>
+                            <pre className="mt-3 max-h-64 overflow-y-auto whitespace-pre-wrap text-xs text-slate-800">
+                              {sopStreamText}
+                            </pre>
+                          </div>
+                        ) : null}
+
+                        {sopDraft ? (
+                          <div className="rounded-2xl border border-slate-200 bg-slate-50/60 p-4">
+                            <div className="text-xs font-semibold text-slate-900">
+                              SOP draft
+                            </div>
+                            <ValidationNotice validation={sopValidation} onRetry={runSopDraft} />
+                            {isRaw(sopDraft) ? (
+                              <pre className="mt-3 whitespace-pre-wrap text-xs text-slate-800">
+                                {sopDraft.raw}
+                              </pre>
+                            ) : (
+                              <div className="mt-3 space-y-4 text-sm text-slate-800">
+                                <div>
+                                  <div className="text-xs font-semibold text-slate-900">
+                                    Problem
+                                  </div>
+                                  <div className="mt-1">{sopDraft.problem_description}</div>
+                                </div>
+
+                                <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+                                  <div>
+                                    <div className="text-xs font-semibold text-slate-900">
+                                      Symptoms
+                                    </div>
+                                    <ul className="mt-2 list-disc space-y-1 pl-5">
+                                      {sopDraft.symptoms.map((s, i) => (
+                                        <li key={i}>{s}</li>
+                                      ))}
+                                    </ul>
+                                  </div>
+                                  <div>
+                                    <div className="text-xs font-semibold text-slate-900">
+                                      Root cause
+                                    </div>
+                                    <div className="mt-2">{sopDraft.root_cause}</div>
+                                  </div>
+                                </div>
+
+                                <div className="grid grid-cols-1 gap-3 sm:grid-cols-3">
+                                  <div className="sm:col-span-2">
+                                    <div className="text-xs font-semibold text-slate-900">
+                                      Resolution steps
+                                    </div>
+                                    <ol className="mt-2 list-decimal space-y-1 pl-5">
+                                      {sopDraft.resolution_steps.map((s, i) => (
+                                        <li key={i}>{s}</li>
+                                      ))}
+                                    </ol>
+                                  </div>
+                                  <div>
+                                    <div className="text-xs font-semibold text-slate-900">
+                                      References
+                                    </div>
+                                    <div className="mt-2 font-mono text-xs text-slate-600">
+                                      {sopDraft.references?.length
+                                        ? sopDraft.references.join(", ")
+                                        : "—"}
+                                    </div>
+                                  </div>
+                                </div>
+
+                                <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+                                  <div>
+                                    <div className="text-xs font-semibold text-slate-900">
+                                      Validation
+                                    </div>
+                                    <ul className="mt-2 list-disc space-y-1 pl-5">
+                                      {sopDraft.validation_steps.map((s, i) => (
+                                        <li key={i}>{s}</li>
                                       ))}
                                     </ul>
                                   </div>
@@ -1570,42 +3617,12 @@ export default function Home() {
                                     <div className="text-xs font-semibold text-slate-900">
                                       Rollback
                                     </div>
-                                    <ul className="mt-2 list-disc space-y-1 pl-5 text-sm text-slate-800">
-                                      {aiSuggestResult.rollback_procedures.map((v: string, i: number) => (
-                                        <li key={i}>{v}</li>
-                                      ))}
-                                    </ul>
-                                  </div>
-                                </div>
-
-                                {aiSuggestResult.questions.length ? (
-                                  <div>
-                                    <div className="text-xs font-semibold text-slate-900">
-                                      Questions (missing evidence)
-                                    </div>
-                                    <ul className="mt-2 list-disc space-y-1 pl-5 text-sm text-slate-800">
-                                      {aiSuggestResult.questions.map((q: string, i: number) => (
-                                        <li key={i}>{q}</li>
+                                    <ul className="mt-2 list-disc space-y-1 pl-5">
+                                      {sopDraft.rollback_procedures.map((s, i) => (
+                                        <li key={i}>{s}</li>
                                       ))}
                                     </ul>
                                   </div>
-                                ) : null}
-
-                                <div className="mt-6 border-t border-slate-200 pt-4">
-                                  <div className="text-xs font-semibold text-slate-900">
-                                    Was this helpful?
-                                  </div>
-                                  <div className="mt-2 flex items-center gap-2">
-                                    {[1, 2, 3, 4, 5].map((star: number) => (
-                                      <button
-                                        key={star}
-                                        onClick={() => submitRating(star)}
-                                        className="rounded-lg border border-slate-200 p-2 text-lg hover:bg-slate-50"
-                                      >
-                                        ⭐
-                                      </button>
-                                    ))}
-                                  </div>
                                 </div>
                               </div>
                             )}
@@ -1618,29 +3635,25 @@ export default function Home() {
                               Evidence used
                             </div>
                             <div className="text-xs text-slate-500">
-                              {aiSuggestEvidence.length} items
+                              {sopEvidence.length} items
                             </div>
                           </div>
-                          {aiSuggestEvidence.length === 0 ? (
+                          {sopEvidence.length === 0 ? (
                             <div className="p-4 text-sm text-slate-600">
-                              Store internal ticket/SOP knowledge in the RAG memory panel first.
+                              Store internal ticket/SOP knowledge in RAG memory first.
                             </div>
                           ) : (
                             <ul className="divide-y divide-slate-200">
-                              {aiSuggestEvidence.map((e) => (
+                              {sopEvidence.map((e) => (
                                 <li key={e.ref} className="p-4">
-                                  <div className="flex items-start justify-between gap-3">
-                                    <div className="min-w-0">
-                                      <div className="truncate text-sm font-medium text-slate-900">
-                                        {e.ref}: {e.title}
-                                      </div>
-                                      <div className="mt-1 text-xs text-slate-500">
-                                        <span className="font-mono">
-                                          {e.source_type}:{e.source_id}
-                                        </span>{" "}
-                                        • score {e.score.toFixed(3)}
-                                      </div>
-                                    </div>
+                                  <div className="truncate text-sm font-medium text-slate-900">
+                                    {e.ref}: {e.title}
+                                  </div>
+                                  <div className="mt-1 text-xs text-slate-500">
+                                    <span className="font-mono">
+                                      {e.source_type}:{e.source_id}
+                                    </span>{" "}
+                                    • score {e.score.toFixed(3)}
                                   </div>
                                 </li>
                               ))}
@@ -1649,297 +3662,1084 @@ export default function Home() {
                         </div>
                       </div>
                     </div>
+                  </div>
 
-                    <div className="rounded-2xl border border-slate-200 bg-white p-4">
-                      <div className="text-xs font-semibold text-slate-900">
-                        SOP draft generation (after resolution)
+                  <div className="mt-4 text-xs text-slate-500">
+                    To enable the local LLM: run Ollama locally and set{" "}
+                    <span className="font-mono">OLLAMA_MODEL</span> (default{" "}
+                    <span className="font-mono">phi3:mini</span>). No cloud calls.
+                  </div>
+                </Panel>
+
+                <Panel
+                  title="Admin: Users & roles"
+                  subtitle="Local-only user management (Admin only)."
+                  right={isAdmin ? <Badge tone="success">Admin</Badge> : <Badge tone="neutral">Restricted</Badge>}
+                >
+                  {!isAdmin ? (
+                    <EmptyState title="Admin access required" description="Sign in as an Admin to manage users and roles." />
+                  ) : (
+                    <div className="grid grid-cols-1 gap-5 xl:grid-cols-2">
+                      <div className="rounded-2xl border border-slate-200 bg-white p-4">
+                        <div className="text-xs font-semibold text-slate-900">Create user</div>
+
+                        <div className="mt-3 grid grid-cols-1 gap-3 sm:grid-cols-2">
+                          <div>
+                            <label className="text-xs font-medium text-slate-600">Username</label>
+                            <input
+                              className="mt-1 w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 shadow-sm outline-none focus:border-slate-300 focus:ring-4 focus:ring-slate-200/60"
+                              value={newUser.username}
+                              onChange={(e) => setNewUser((p) => ({ ...p, username: e.target.value }))}
+                            />
+                          </div>
+                          <div>
+                            <label className="text-xs font-medium text-slate-600">Password</label>
+                            <input
+                              type="password"
+                              className="mt-1 w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 shadow-sm outline-none focus:border-slate-300 focus:ring-4 focus:ring-slate-200/60"
+                              value={newUser.password}
+                              onChange={(e) => setNewUser((p) => ({ ...p, password: e.target.value }))}
+                            />
+                          </div>
+                          <div>
+                            <label className="text-xs font-medium text-slate-600">Role</label>
+                            <select
+                              className="mt-1 w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 shadow-sm outline-none focus:border-slate-300 focus:ring-4 focus:ring-slate-200/60"
+                              value={newUser.role}
+                              onChange={(e) => setNewUser((p) => ({ ...p, role: e.target.value as Role }))}
+                            >
+                              <option value="Viewer">Viewer</option>
+                              <option value="Engineer">Engineer</option>
+                              <option value="Admin">Admin</option>
+                            </select>
+                          </div>
+                          <div className="flex items-end justify-end">
+                            <button
+                              type="button"
+                              className="rounded-xl bg-slate-900 px-3 py-2 text-sm font-medium text-white shadow-sm hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-60"
+                              disabled={newUserStatus.state === "creating" || !newUser.username.trim() || newUser.password.length < 8}
+                              onClick={createAdminUser}
+                            >
+                              {newUserStatus.state === "creating" ? "Creating…" : "Create"}
+                            </button>
+                          </div>
+                        </div>
+
+                        {newUserStatus.state === "error" ? (
+                          <div className="mt-3 text-xs text-red-700">{newUserStatus.message}</div>
+                        ) : null}
                       </div>
 
-                      <div className="mt-3 grid grid-cols-1 gap-3">
+                      <div className="rounded-2xl border border-slate-200 bg-white">
+                        <div className="flex items-center justify-between border-b border-slate-200 px-4 py-3">
+                          <div className="text-xs font-semibold text-slate-900">Users</div>
+                          <button
+                            type="button"
+                            className="rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm font-medium text-slate-900 shadow-sm hover:bg-slate-50"
+                            onClick={loadAdminUsers}
+                          >
+                            Refresh
+                          </button>
+                        </div>
+
+                        {adminUsersStatus.state === "error" ? (
+                          <div className="p-4 text-sm text-slate-600">{adminUsersStatus.message}</div>
+                        ) : adminUsers.length === 0 ? (
+                          <div className="p-4 text-sm text-slate-600">No users found.</div>
+                        ) : (
+                          <ul className="divide-y divide-slate-200">
+                            {adminUsers.map((u) => (
+                              <li key={u.id} className="flex items-center justify-between gap-3 px-4 py-3">
+                                <div className="min-w-0">
+                                  <div className="truncate text-sm font-medium text-slate-900">@{u.username}</div>
+                                  <div className="mt-1 text-xs text-slate-500 font-mono">{u.id.slice(0, 8)}</div>
+                                </div>
+
+                                <select
+                                  className="rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 shadow-sm outline-none focus:border-slate-300 focus:ring-4 focus:ring-slate-200/60"
+                                  value={(u.role as Role) ?? "Viewer"}
+                                  onChange={(e) => void setUserRole(u.id, e.target.value as Role)}
+                                >
+                                  <option value="Viewer">Viewer</option>
+                                  <option value="Engineer">Engineer</option>
+                                  <option value="Admin">Admin</option>
+                                </select>
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </div>
+                    </div>
+                  )}
+                </Panel>
+
+                <Panel
+                  title="Admin: Teams & queues"
+                  subtitle="Teams that tickets are routed to, and their members."
+                  right={isAdmin ? <Badge tone="neutral">{teams.length} teams</Badge> : <Badge tone="neutral">Restricted</Badge>}
+                >
+                  {!isAdmin ? (
+                    <EmptyState title="Admin access required" description="Sign in as an Admin to manage teams." />
+                  ) : (
+                    <div className="space-y-4">
+                      <div className="flex flex-wrap items-end gap-3">
+                        <div>
+                          <label className="text-xs font-medium text-slate-600">Name</label>
+                          <input
+                            className="mt-1 w-48 rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 shadow-sm outline-none focus:border-slate-300 focus:ring-4 focus:ring-slate-200/60"
+                            value={teamForm.name}
+                            onChange={(e) => setTeamForm((p) => ({ ...p, name: e.target.value }))}
+                          />
+                        </div>
+                        <div className="min-w-0 flex-1">
+                          <label className="text-xs font-medium text-slate-600">Description</label>
+                          <input
+                            className="mt-1 w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 shadow-sm outline-none focus:border-slate-300 focus:ring-4 focus:ring-slate-200/60"
+                            value={teamForm.description}
+                            onChange={(e) => setTeamForm((p) => ({ ...p, description: e.target.value }))}
+                          />
+                        </div>
+                        <button
+                          type="button"
+                          className="rounded-xl bg-slate-900 px-3 py-2 text-sm font-medium text-white shadow-sm hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-60"
+                          disabled={teamStatus.state === "saving" || !teamForm.name.trim()}
+                          onClick={() => void createTeam()}
+                        >
+                          {teamStatus.state === "saving" ? "Creating…" : "Create team"}
+                        </button>
+                      </div>
+
+                      {teamStatus.state === "error" ? (
+                        <div className="text-xs text-red-700">{teamStatus.message}</div>
+                      ) : null}
+
+                      {teams.length === 0 ? (
+                        <div className="text-sm text-slate-600">No teams yet.</div>
+                      ) : (
+                        <ul className="divide-y divide-slate-200 rounded-2xl border border-slate-200">
+                          {teams.map((team) => (
+                            <li key={team.id} className="space-y-2 px-4 py-3">
+                              <div className="flex items-center justify-between gap-3">
+                                <div className="min-w-0">
+                                  <div className="text-sm font-medium text-slate-900">{team.name}</div>
+                                  {team.description ? (
+                                    <div className="text-xs text-slate-500">{team.description}</div>
+                                  ) : null}
+                                </div>
+                                <button
+                                  type="button"
+                                  className="text-xs text-slate-500 hover:text-slate-900"
+                                  onClick={() => void deleteTeam(team)}
+                                >
+                                  Delete
+                                </button>
+                              </div>
+                              <div className="flex flex-wrap gap-2">
+                                {adminUsers
+                                  .filter((u) => u.role === "Engineer" || u.role === "Admin")
+                                  .map((u) => {
+                                    const member = team.members.some((m) => m.user_id === u.id);
+                                    return (
+                                      <button
+                                        key={u.id}
+                                        type="button"
+                                        onClick={() => void toggleTeamMember(team, u.id)}
+                                        className={cn(
+                                          "rounded-full px-2.5 py-1 text-xs font-medium ring-1 ring-inset transition",
+                                          member
+                                            ? "bg-slate-900 text-white ring-slate-900"
+                                            : "bg-white text-slate-700 ring-slate-200 hover:bg-slate-100"
+                                        )}
+                                      >
+                                        @{u.username}
+                                      </button>
+                                    );
+                                  })}
+                              </div>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  )}
+                </Panel>
+
+                <Panel
+                  title="Admin: SLA policies"
+                  subtitle="Response and resolution targets per type and priority, counted in each site's business hours."
+                  right={isAdmin ? <Badge tone="neutral">{slaPolicies.length} policies</Badge> : <Badge tone="neutral">Restricted</Badge>}
+                >
+                  {!isAdmin ? (
+                    <EmptyState title="Admin access required" description="Sign in as an Admin to manage SLA policies." />
+                  ) : (
+                    <div className="space-y-5">
+                      {slaAdminStatus.state === "error" ? (
+                        <div className="text-xs text-red-700">{slaAdminStatus.message}</div>
+                      ) : null}
+
+                      <div className="rounded-2xl border border-slate-200">
+                        <table className="w-full text-left text-sm">
+                          <thead className="text-xs text-slate-500">
+                            <tr>
+                              <th className="px-4 py-2 font-medium">Policy</th>
+                              <th className="px-4 py-2 font-medium">Applies to</th>
+                              <th className="px-4 py-2 font-medium">Response</th>
+                              <th className="px-4 py-2 font-medium">Resolution</th>
+                              <th className="px-4 py-2 font-medium">Clock</th>
+                              <th className="px-4 py-2" />
+                            </tr>
+                          </thead>
+                          <tbody className="divide-y divide-slate-200">
+                            {slaPolicies.map((p) => (
+                              <tr key={p.id} className={p.active ? "" : "text-slate-400"}>
+                                <td className="px-4 py-2">{p.name}</td>
+                                <td className="px-4 py-2 text-xs">
+                                  {p.ticket_type ?? "Any type"} · {p.priority ?? "any priority"}
+                                </td>
+                                <td className="px-4 py-2">{formatMinutes(p.response_minutes)}</td>
+                                <td className="px-4 py-2">{formatMinutes(p.resolution_minutes)}</td>
+                                <td className="px-4 py-2 text-xs">{p.business_hours ? "Business hours" : "24x7"}</td>
+                                <td className="px-4 py-2 text-right text-xs">
+                                  <button type="button" className="text-slate-500 hover:text-slate-900" onClick={() => void toggleSlaPolicy(p)}>
+                                    {p.active ? "Disable" : "Enable"}
+                                  </button>
+                                  <button
+                                    type="button"
+                                    className="ml-3 text-slate-500 hover:text-slate-900"
+                                    onClick={() => void deleteSlaPolicy(p)}
+                                  >
+                                    Delete
+                                  </button>
+                                </td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+
+                      <div className="flex flex-wrap items-end gap-3">
+                        <div>
+                          <label className="text-xs font-medium text-slate-600">Name</label>
+                          <input
+                            className="mt-1 w-40 rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm"
+                            value={policyForm.name}
+                            onChange={(e) => setPolicyForm((p) => ({ ...p, name: e.target.value }))}
+                          />
+                        </div>
+                        <div>
+                          <label className="text-xs font-medium text-slate-600">Type</label>
+                          <select
+                            className="mt-1 rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm"
+                            value={policyForm.ticketType}
+                            onChange={(e) => setPolicyForm((p) => ({ ...p, ticketType: e.target.value }))}
+                          >
+                            <option value="">Any</option>
+                            {TICKET_TYPES.map((t) => (
+                              <option key={t} value={t}>
+                                {t}
+                              </option>
+                            ))}
+                          </select>
+                        </div>
+                        <div>
+                          <label className="text-xs font-medium text-slate-600">Priority</label>
+                          <select
+                            className="mt-1 rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm"
+                            value={policyForm.priority}
+                            onChange={(e) => setPolicyForm((p) => ({ ...p, priority: e.target.value }))}
+                          >
+                            <option value="">Any</option>
+                            {TICKET_PRIORITIES.map((p) => (
+                              <option key={p} value={p}>
+                                {p}
+                              </option>
+                            ))}
+                          </select>
+                        </div>
                         <div>
-                          <label className="text-xs font-medium text-slate-600">
-                            Resolution notes (required)
-                          </label>
-                          <textarea
-                            className="mt-1 h-28 w-full resize-none rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 shadow-sm outline-none placeholder:text-slate-400 focus:border-slate-300 focus:ring-4 focus:ring-slate-200/60"
-                            placeholder="What was done to resolve the issue (commands, config changes, restarts, approvals, etc.)"
-                            value={sopResolutionNotes}
-                            onChange={(e) => setSopResolutionNotes(e.target.value)}
+                          <label className="text-xs font-medium text-slate-600">Response (min)</label>
+                          <input
+                            type="number"
+                            min={1}
+                            className="mt-1 w-28 rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm"
+                            value={policyForm.responseMinutes}
+                            onChange={(e) => setPolicyForm((p) => ({ ...p, responseMinutes: e.target.value }))}
+                          />
+                        </div>
+                        <div>
+                          <label className="text-xs font-medium text-slate-600">Resolution (min)</label>
+                          <input
+                            type="number"
+                            min={1}
+                            className="mt-1 w-28 rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm"
+                            value={policyForm.resolutionMinutes}
+                            onChange={(e) => setPolicyForm((p) => ({ ...p, resolutionMinutes: e.target.value }))}
                           />
                         </div>
+                        <label className="flex items-center gap-2 pb-2 text-xs text-slate-600">
+                          <input
+                            type="checkbox"
+                            checked={policyForm.businessHours}
+                            onChange={(e) => setPolicyForm((p) => ({ ...p, businessHours: e.target.checked }))}
+                          />
+                          Business hours
+                        </label>
+                        <button
+                          type="button"
+                          className="rounded-xl bg-slate-900 px-3 py-2 text-sm font-medium text-white shadow-sm hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-60"
+                          disabled={slaAdminStatus.state === "saving" || !policyForm.name.trim()}
+                          onClick={() => void createSlaPolicy()}
+                        >
+                          Add policy
+                        </button>
+                      </div>
 
-                        <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+                      <div className="rounded-2xl border border-slate-200">
+                        <div className="border-b border-slate-200 px-4 py-3 text-xs font-semibold text-slate-900">
+                          Business calendars
+                        </div>
+                        <ul className="divide-y divide-slate-200">
+                          {slaCalendars.map((c) => (
+                            <li key={c.id} className="flex items-center justify-between gap-3 px-4 py-2">
+                              <div className="min-w-0">
+                                <div className="flex items-center gap-2 text-sm text-slate-900">
+                                  {c.name}
+                                  {c.is_default ? <Badge tone="info">Default</Badge> : null}
+                                </div>
+                                <div className="text-xs text-slate-500">
+                                  {c.timezone} ·{" "}
+                                  {WEEKDAY_OPTIONS.filter((d) => ((c.hours as any)?.[d] ?? []).length > 0)
+                                    .map((d) => `${d} ${((c.hours as any)[d] as string[][]).map((i) => i.join("–")).join(", ")}`)
+                                    .join("; ")}
+                                  {c.sites.length ? ` · sites: ${c.sites.join(", ")}` : ""}
+                                </div>
+                              </div>
+                              <div className="flex shrink-0 gap-3 text-xs">
+                                {!c.is_default ? (
+                                  <button
+                                    type="button"
+                                    className="text-slate-500 hover:text-slate-900"
+                                    onClick={() => void setDefaultSlaCalendar(c)}
+                                  >
+                                    Make default
+                                  </button>
+                                ) : null}
+                                <button
+                                  type="button"
+                                  className="text-slate-500 hover:text-slate-900"
+                                  onClick={() => void deleteSlaCalendar(c)}
+                                >
+                                  Delete
+                                </button>
+                              </div>
+                            </li>
+                          ))}
+                        </ul>
+                        <div className="flex flex-wrap items-end gap-3 border-t border-slate-200 px-4 py-3">
                           <div>
-                            <label className="text-xs font-medium text-slate-600">
-                              Validation notes (optional)
-                            </label>
-                            <textarea
-                              className="mt-1 h-20 w-full resize-none rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 shadow-sm outline-none placeholder:text-slate-400 focus:border-slate-300 focus:ring-4 focus:ring-slate-200/60"
-                              placeholder="How you verified recovery"
-                              value={sopValidationNotes}
-                              onChange={(e) => setSopValidationNotes(e.target.value)}
+                            <label className="text-xs font-medium text-slate-600">Name</label>
+                            <input
+                              className="mt-1 w-40 rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm"
+                              value={calendarForm.name}
+                              onChange={(e) => setCalendarForm((p) => ({ ...p, name: e.target.value }))}
                             />
                           </div>
                           <div>
-                            <label className="text-xs font-medium text-slate-600">
-                              Rollback notes (optional)
-                            </label>
-                            <textarea
-                              className="mt-1 h-20 w-full resize-none rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 shadow-sm outline-none placeholder:text-slate-400 focus:border-slate-300 focus:ring-4 focus:ring-slate-200/60"
-                              placeholder="How to revert safely"
-                              value={sopRollbackNotes}
-                              onChange={(e) => setSopRollbackNotes(e.target.value)}
+                            <label className="text-xs font-medium text-slate-600">Time zone</label>
+                            <input
+                              className="mt-1 w-40 rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm"
+                              value={calendarForm.timezone}
+                              onChange={(e) => setCalendarForm((p) => ({ ...p, timezone: e.target.value }))}
                             />
                           </div>
-                        </div>
-
-                        <div className="flex items-center justify-between gap-3">
-                          <div className="text-xs text-slate-600">
-                            {sopStatus.state === "error"
-                              ? sopStatus.message
-                              : "Draft is grounded in RAG evidence + your resolution notes."}
+                          <div>
+                            <label className="text-xs font-medium text-slate-600">Sites (comma separated)</label>
+                            <input
+                              className="mt-1 w-48 rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm"
+                              value={calendarForm.sites}
+                              onChange={(e) => setCalendarForm((p) => ({ ...p, sites: e.target.value }))}
+                            />
+                          </div>
+                          <div>
+                            <label className="text-xs font-medium text-slate-600">Hours</label>
+                            <div className="mt-1 flex items-center gap-1">
+                              <input
+                                type="time"
+                                className="rounded-xl border border-slate-200 bg-white px-2 py-2 text-sm"
+                                value={calendarForm.open}
+                                onChange={(e) => setCalendarForm((p) => ({ ...p, open: e.target.value }))}
+                              />
+                              <span className="text-xs text-slate-500">to</span>
+                              <input
+                                type="time"
+                                className="rounded-xl border border-slate-200 bg-white px-2 py-2 text-sm"
+                                value={calendarForm.close}
+                                onChange={(e) => setCalendarForm((p) => ({ ...p, close: e.target.value }))}
+                              />
+                            </div>
+                          </div>
+                          <div className="flex flex-wrap gap-1 pb-1">
+                            {WEEKDAY_OPTIONS.map((d) => {
+                              const on = calendarForm.days.includes(d);
+                              return (
+                                <button
+                                  key={d}
+                                  type="button"
+                                  onClick={() =>
+                                    setCalendarForm((p) => ({
+                                      ...p,
+                                      days: on ? p.days.filter((x) => x !== d) : [...p.days, d],
+                                    }))
+                                  }
+                                  className={cn(
+                                    "rounded-full px-2.5 py-1 text-xs font-medium ring-1 ring-inset transition",
+                                    on
+                                      ? "bg-slate-900 text-white ring-slate-900"
+                                      : "bg-white text-slate-700 ring-slate-200 hover:bg-slate-100"
+                                  )}
+                                >
+                                  {d}
+                                </button>
+                              );
+                            })}
                           </div>
                           <button
                             type="button"
                             className="rounded-xl bg-slate-900 px-3 py-2 text-sm font-medium text-white shadow-sm hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-60"
                             disabled={
-                              sopStatus.state === "running" ||
-                              !aiTitle.trim() ||
-                              !sopResolutionNotes.trim()
+                              slaAdminStatus.state === "saving" || !calendarForm.name.trim() || calendarForm.days.length === 0
                             }
-                            onClick={runSopDraft}
+                            onClick={() => void createSlaCalendar()}
                           >
-                            {sopStatus.state === "running" ? "Generating…" : "Generate SOP draft"}
+                            Add calendar
                           </button>
                         </div>
+                      </div>
+                    </div>
+                  )}
+                </Panel>
 
-                        {sopDraft ? (
-                          <div className="rounded-2xl border border-slate-200 bg-slate-50/60 p-4">
-                            <div className="text-xs font-semibold text-slate-900">
-                              SOP draft
-                            </div>
-                            {isRaw(sopDraft) ? (
-                              <pre className="mt-3 whitespace-pre-wrap text-xs text-slate-800">
-                                {sopDraft.raw}
-                              </pre>
-                            ) : (
-                              <div className="mt-3 space-y-4 text-sm text-slate-800">
-                                <div>
-                                  <div className="text-xs font-semibold text-slate-900">
-                                    Problem
-                                  </div>
-                                  <div className="mt-1">{sopDraft.problem_description}</div>
-                                </div>
+                <Panel
+                  title="Admin: Workflows"
+                  subtitle="Allowed status changes per ticket type, with role guards and fields required before each move."
+                  right={
+                    isAdmin ? (
+                      <select
+                        className="rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 shadow-sm outline-none focus:border-slate-300 focus:ring-4 focus:ring-slate-200/60"
+                        value={workflowType}
+                        onChange={(e) => {
+                          setWorkflowType(e.target.value as TicketType);
+                          setWorkflowStatus({ state: "idle" });
+                        }}
+                      >
+                        {TICKET_TYPES.map((t) => (
+                          <option key={t} value={t}>
+                            {t}
+                          </option>
+                        ))}
+                      </select>
+                    ) : (
+                      <Badge tone="neutral">Restricted</Badge>
+                    )
+                  }
+                >
+                  {!isAdmin ? (
+                    <EmptyState title="Admin access required" description="Sign in as an Admin to edit workflows." />
+                  ) : !selectedWorkflow ? (
+                    <div className="text-sm text-slate-600">Loading…</div>
+                  ) : (
+                    <div className="grid grid-cols-1 gap-5 xl:grid-cols-2">
+                      <div className="rounded-2xl border border-slate-200">
+                        <div className="flex items-center justify-between border-b border-slate-200 px-4 py-3">
+                          <div className="text-xs font-semibold text-slate-900">{selectedWorkflow.ticket_type}</div>
+                          {selectedWorkflow.customized ? (
+                            <Badge tone="info">Customised {selectedWorkflow.updated_at ? formatCompactDate(selectedWorkflow.updated_at) : ""}</Badge>
+                          ) : (
+                            <Badge tone="neutral">Built-in</Badge>
+                          )}
+                        </div>
+                        <ul className="divide-y divide-slate-200">
+                          {selectedWorkflow.transitions.map((t, i) => (
+                            <li key={i} className="px-4 py-2 text-sm">
+                              <div className="text-slate-900">
+                                {t.from.join(" / ")} → <span className="font-medium">{t.to}</span>
+                              </div>
+                              <div className="mt-0.5 text-xs text-slate-500">
+                                {t.roles.join(", ")}
+                                {t.requires.length ? ` · requires ${t.requires.join(", ")}` : ""}
+                              </div>
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
 
-                                <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
-                                  <div>
-                                    <div className="text-xs font-semibold text-slate-900">
-                                      Symptoms
-                                    </div>
-                                    <ul className="mt-2 list-disc space-y-1 pl-5">
-                                      {sopDraft.symptoms.map((s, i) => (
-                                        <li key={i}>{s}</li>
-                                      ))}
-                                    </ul>
-                                  </div>
-                                  <div>
-                                    <div className="text-xs font-semibold text-slate-900">
-                                      Root cause
-                                    </div>
-                                    <div className="mt-2">{sopDraft.root_cause}</div>
-                                  </div>
-                                </div>
+                      <div className="space-y-3">
+                        <div className="text-xs text-slate-500">
+                          Each transition is <span className="font-mono">{"{ from, to, roles, requires }"}</span>. Requirements:{" "}
+                          <span className="font-mono">resolution_notes, assigned_to, service, site, approval</span>.
+                        </div>
+                        <textarea
+                          className="h-72 w-full rounded-xl border border-slate-200 bg-white px-3 py-2 font-mono text-xs text-slate-900 shadow-sm outline-none focus:border-slate-300 focus:ring-4 focus:ring-slate-200/60"
+                          value={workflowDraft}
+                          onChange={(e) => setWorkflowDraft(e.target.value)}
+                        />
+                        {workflowStatus.state === "error" ? (
+                          <div className="text-xs text-red-700">{workflowStatus.message}</div>
+                        ) : workflowStatus.state === "saved" ? (
+                          <div className="text-xs text-slate-600">Saved</div>
+                        ) : null}
+                        <div className="flex justify-end gap-2">
+                          <button
+                            type="button"
+                            className="rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm font-medium text-slate-900 shadow-sm hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-60"
+                            disabled={workflowStatus.state === "saving" || !selectedWorkflow.customized}
+                            onClick={() => void resetWorkflow()}
+                          >
+                            Reset to default
+                          </button>
+                          <button
+                            type="button"
+                            className="rounded-xl bg-slate-900 px-3 py-2 text-sm font-medium text-white shadow-sm hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-60"
+                            disabled={workflowStatus.state === "saving"}
+                            onClick={() => void saveWorkflow()}
+                          >
+                            {workflowStatus.state === "saving" ? "Saving…" : "Save workflow"}
+                          </button>
+                        </div>
+                      </div>
+                    </div>
+                  )}
+                </Panel>
 
-                                <div className="grid grid-cols-1 gap-3 sm:grid-cols-3">
-                                  <div className="sm:col-span-2">
-                                    <div className="text-xs font-semibold text-slate-900">
-                                      Resolution steps
-                                    </div>
-                                    <ol className="mt-2 list-decimal space-y-1 pl-5">
-                                      {sopDraft.resolution_steps.map((s, i) => (
-                                        <li key={i}>{s}</li>
-                                      ))}
-                                    </ol>
-                                  </div>
-                                  <div>
-                                    <div className="text-xs font-semibold text-slate-900">
-                                      References
-                                    </div>
-                                    <div className="mt-2 font-mono text-xs text-slate-600">
-                                      {sopDraft.references?.length
-                                        ? sopDraft.references.join(", ")
-                                        : "—"}
-                                    </div>
-                                  </div>
-                                </div>
+                <Panel
+                  title="Admin: RAG memory"
+                  subtitle="Inspect stored documents, edit metadata, pin or blacklist evidence."
+                  right={isAdmin ? <Badge tone="neutral">{memoryTotal} documents</Badge> : <Badge tone="neutral">Restricted</Badge>}
+                >
+                  {!isAdmin ? (
+                    <EmptyState title="Admin access required" description="Sign in as an Admin to curate RAG memory." />
+                  ) : (
+                    <div className="grid grid-cols-1 gap-5 xl:grid-cols-2">
+                      <div className="rounded-2xl border border-slate-200 bg-white">
+                        <div className="flex flex-wrap items-center gap-2 border-b border-slate-200 px-4 py-3">
+                          <select
+                            className="rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 shadow-sm outline-none focus:border-slate-300 focus:ring-4 focus:ring-slate-200/60"
+                            value={memoryFilter.sourceType}
+                            onChange={(e) => setMemoryFilter((p) => ({ ...p, sourceType: e.target.value }))}
+                          >
+                            <option value="all">All sources</option>
+                            <option value="ticket">Tickets</option>
+                            <option value="sop">SOPs</option>
+                            <option value="github_issue">GitHub issues</option>
+                          </select>
+                          <input
+                            className="min-w-0 flex-1 rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 shadow-sm outline-none focus:border-slate-300 focus:ring-4 focus:ring-slate-200/60"
+                            placeholder="Source id contains…"
+                            value={memoryFilter.sourceId}
+                            onChange={(e) => setMemoryFilter((p) => ({ ...p, sourceId: e.target.value }))}
+                            onKeyDown={(e) => {
+                              if (e.key === "Enter") void loadMemoryDocuments(1);
+                            }}
+                          />
+                          <button
+                            type="button"
+                            className="rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm font-medium text-slate-900 shadow-sm hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-60"
+                            disabled={memoryStatus.state === "loading"}
+                            onClick={() => void loadMemoryDocuments(1)}
+                          >
+                            {memoryStatus.state === "loading" ? "Loading…" : "Filter"}
+                          </button>
+                        </div>
 
-                                <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
-                                  <div>
-                                    <div className="text-xs font-semibold text-slate-900">
-                                      Validation
+                        {memoryStatus.state === "error" ? (
+                          <div className="p-4 text-sm text-slate-600">{memoryStatus.message}</div>
+                        ) : memoryDocs.length === 0 ? (
+                          <div className="p-4 text-sm text-slate-600">No documents in memory.</div>
+                        ) : (
+                          <ul className="divide-y divide-slate-200">
+                            {memoryDocs.map((d) => (
+                              <li key={`${d.source_type}:${d.source_id}`}>
+                                <button
+                                  type="button"
+                                  className={cn(
+                                    "flex w-full items-center justify-between gap-3 px-4 py-3 text-left hover:bg-slate-50",
+                                    memoryDoc?.sourceType === d.source_type && memoryDoc?.sourceId === d.source_id
+                                      ? "bg-slate-50"
+                                      : ""
+                                  )}
+                                  onClick={() => void openMemoryDocument(d.source_type, d.source_id)}
+                                >
+                                  <div className="min-w-0">
+                                    <div className="truncate text-sm font-medium text-slate-900">{d.title}</div>
+                                    <div className="mt-1 text-xs text-slate-500">
+                                      <span className="font-mono">{d.source_type}:{d.source_id}</span> · {d.chunk_count} chunks ·{" "}
+                                      {d.embedding_provider}/{d.embedding_model}
                                     </div>
-                                    <ul className="mt-2 list-disc space-y-1 pl-5">
-                                      {sopDraft.validation_steps.map((s, i) => (
-                                        <li key={i}>{s}</li>
-                                      ))}
-                                    </ul>
                                   </div>
-                                  <div>
-                                    <div className="text-xs font-semibold text-slate-900">
-                                      Rollback
-                                    </div>
-                                    <ul className="mt-2 list-disc space-y-1 pl-5">
-                                      {sopDraft.rollback_procedures.map((s, i) => (
-                                        <li key={i}>{s}</li>
-                                      ))}
-                                    </ul>
+                                  <div className="flex shrink-0 items-center gap-1">
+                                    {d.pinned ? <Badge tone="success">Pinned</Badge> : null}
+                                    {d.blacklisted ? <Badge tone="danger">Blacklisted</Badge> : null}
                                   </div>
-                                </div>
+                                </button>
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+
+                        <div className="flex items-center justify-between border-t border-slate-200 px-4 py-3 text-xs text-slate-600">
+                          <span>
+                            Page {memoryPage} of {memoryPageCount}
+                          </span>
+                          <div className="flex gap-2">
+                            <button
+                              type="button"
+                              className="rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm font-medium text-slate-900 shadow-sm hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-60"
+                              disabled={memoryPage <= 1 || memoryStatus.state === "loading"}
+                              onClick={() => void loadMemoryDocuments(memoryPage - 1)}
+                            >
+                              Previous
+                            </button>
+                            <button
+                              type="button"
+                              className="rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm font-medium text-slate-900 shadow-sm hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-60"
+                              disabled={memoryPage >= memoryPageCount || memoryStatus.state === "loading"}
+                              onClick={() => void loadMemoryDocuments(memoryPage + 1)}
+                            >
+                              Next
+                            </button>
+                          </div>
+                        </div>
+                      </div>
+
+                      <div className="rounded-2xl border border-slate-200 bg-white p-4">
+                        {!memoryDoc ? (
+                          <div className="text-sm text-slate-600">Select a document to inspect its chunks.</div>
+                        ) : (
+                          <div className="space-y-4">
+                            <div className="flex flex-wrap items-center justify-between gap-2">
+                              <div className="min-w-0 truncate font-mono text-xs text-slate-700">
+                                {memoryDoc.sourceType}:{memoryDoc.sourceId}
+                              </div>
+                              <div className="flex flex-wrap gap-2">
+                                <button
+                                  type="button"
+                                  className="rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm font-medium text-slate-900 shadow-sm hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-60"
+                                  disabled={memoryDocStatus.state === "working"}
+                                  onClick={() => void updateMemoryDocument({ pinned: !memoryDoc.curation?.pinned })}
+                                >
+                                  {memoryDoc.curation?.pinned ? "Unpin" : "Pin"}
+                                </button>
+                                <button
+                                  type="button"
+                                  className="rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm font-medium text-slate-900 shadow-sm hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-60"
+                                  disabled={memoryDocStatus.state === "working"}
+                                  onClick={() => void updateMemoryDocument({ blacklisted: !memoryDoc.curation?.blacklisted })}
+                                >
+                                  {memoryDoc.curation?.blacklisted ? "Un-blacklist" : "Blacklist"}
+                                </button>
+                                <button
+                                  type="button"
+                                  className="rounded-xl border border-rose-200 bg-white px-3 py-2 text-sm font-medium text-rose-700 shadow-sm hover:bg-rose-50 disabled:cursor-not-allowed disabled:opacity-60"
+                                  disabled={memoryDocStatus.state === "working"}
+                                  onClick={() => void deleteMemoryDocument()}
+                                >
+                                  Delete
+                                </button>
                               </div>
-                            )}
-                          </div>
-                        ) : null}
-
-                        <div className="rounded-2xl border border-slate-200">
-                          <div className="flex items-center justify-between border-b border-slate-200 px-4 py-3">
-                            <div className="text-xs font-semibold text-slate-900">
-                              Evidence used
-                            </div>
-                            <div className="text-xs text-slate-500">
-                              {sopEvidence.length} items
                             </div>
-                          </div>
-                          {sopEvidence.length === 0 ? (
-                            <div className="p-4 text-sm text-slate-600">
-                              Store internal ticket/SOP knowledge in RAG memory first.
+
+                            <div>
+                              <label className="text-xs font-medium text-slate-600">Metadata (JSON)</label>
+                              <textarea
+                                className="mt-1 h-40 w-full font-mono text-xs rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 shadow-sm outline-none focus:border-slate-300 focus:ring-4 focus:ring-slate-200/60"
+                                value={memoryMetaDraft}
+                                onChange={(e) => setMemoryMetaDraft(e.target.value)}
+                              />
+                              <div className="mt-2 flex items-center justify-between gap-2">
+                                <div className="text-xs text-slate-500">
+                                  Re-indexing a ticket or SOP re-derives its metadata.
+                                </div>
+                                <button
+                                  type="button"
+                                  className="rounded-xl bg-slate-900 px-3 py-2 text-sm font-medium text-white shadow-sm hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-60"
+                                  disabled={memoryDocStatus.state === "working"}
+                                  onClick={() => void saveMemoryMetadata()}
+                                >
+                                  Save metadata
+                                </button>
+                              </div>
                             </div>
-                          ) : (
-                            <ul className="divide-y divide-slate-200">
-                              {sopEvidence.map((e) => (
-                                <li key={e.ref} className="p-4">
-                                  <div className="truncate text-sm font-medium text-slate-900">
-                                    {e.ref}: {e.title}
-                                  </div>
-                                  <div className="mt-1 text-xs text-slate-500">
-                                    <span className="font-mono">
-                                      {e.source_type}:{e.source_id}
-                                    </span>{" "}
-                                    • score {e.score.toFixed(3)}
+
+                            {memoryDocStatus.state === "error" ? (
+                              <div className="text-xs text-red-700">{memoryDocStatus.message}</div>
+                            ) : null}
+
+                            <ul className="max-h-96 space-y-2 overflow-y-auto">
+                              {memoryDoc.chunks.map((c) => (
+                                <li key={c.id} className="rounded-xl border border-slate-200 p-3">
+                                  <div className="flex items-center justify-between gap-2 text-xs text-slate-500">
+                                    <span>
+                                      #{c.chunk_index}
+                                      {(c.metadata as any)?.section ? ` · ${(c.metadata as any).section}` : ""}
+                                    </span>
+                                    <button
+                                      type="button"
+                                      className="text-rose-700 hover:underline"
+                                      disabled={memoryDocStatus.state === "working"}
+                                      onClick={() => void deleteMemoryChunk(c.id)}
+                                    >
+                                      Delete chunk
+                                    </button>
                                   </div>
+                                  <pre className="mt-2 whitespace-pre-wrap text-xs text-slate-800">{c.content}</pre>
                                 </li>
                               ))}
                             </ul>
-                          )}
-                        </div>
+                          </div>
+                        )}
                       </div>
                     </div>
-                  </div>
-
-                  <div className="mt-4 text-xs text-slate-500">
-                    To enable the local LLM: run Ollama locally and set{" "}
-                    <span className="font-mono">OLLAMA_MODEL</span> (default{" "}
-                    <span className="font-mono">phi3:mini</span>). No cloud calls.
-                  </div>
+                  )}
                 </Panel>
 
                 <Panel
-                  title="Admin: Users & roles"
-                  subtitle="Local-only user management (Admin only)."
-                  right={isAdmin ? <Badge tone="success">Admin</Badge> : <Badge tone="neutral">Restricted</Badge>}
+                  title="Admin: Prompt templates"
+                  subtitle="Versioned prompts for AI suggestions, SOP drafts and triage. Edits are saved as new versions."
+                  right={
+                    isAdmin ? (
+                      <select
+                        className="rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 shadow-sm outline-none focus:border-slate-300 focus:ring-4 focus:ring-slate-200/60"
+                        value={promptKey}
+                        onChange={(e) => setPromptKey(e.target.value as PromptTemplateKey)}
+                      >
+                        <option value="suggest">AI suggest</option>
+                        <option value="sop_draft">SOP draft</option>
+                        <option value="triage">Triage</option>
+                        <option value="postmortem">Postmortem</option>
+                      </select>
+                    ) : (
+                      <Badge tone="neutral">Restricted</Badge>
+                    )
+                  }
                 >
                   {!isAdmin ? (
-                    <EmptyState title="Admin access required" description="Sign in as an Admin to manage users and roles." />
+                    <EmptyState title="Admin access required" description="Sign in as an Admin to edit prompt templates." />
                   ) : (
-                    <div className="grid grid-cols-1 gap-5 xl:grid-cols-2">
-                      <div className="rounded-2xl border border-slate-200 bg-white p-4">
-                        <div className="text-xs font-semibold text-slate-900">Create user</div>
-
-                        <div className="mt-3 grid grid-cols-1 gap-3 sm:grid-cols-2">
-                          <div>
-                            <label className="text-xs font-medium text-slate-600">Username</label>
-                            <input
-                              className="mt-1 w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 shadow-sm outline-none focus:border-slate-300 focus:ring-4 focus:ring-slate-200/60"
-                              value={newUser.username}
-                              onChange={(e) => setNewUser((p) => ({ ...p, username: e.target.value }))}
-                            />
-                          </div>
-                          <div>
-                            <label className="text-xs font-medium text-slate-600">Password</label>
-                            <input
-                              type="password"
-                              className="mt-1 w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 shadow-sm outline-none focus:border-slate-300 focus:ring-4 focus:ring-slate-200/60"
-                              value={newUser.password}
-                              onChange={(e) => setNewUser((p) => ({ ...p, password: e.target.value }))}
-                            />
-                          </div>
-                          <div>
-                            <label className="text-xs font-medium text-slate-600">Role</label>
-                            <select
-                              className="mt-1 w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 shadow-sm outline-none focus:border-slate-300 focus:ring-4 focus:ring-slate-200/60"
-                              value={newUser.role}
-                              onChange={(e) => setNewUser((p) => ({ ...p, role: e.target.value as Role }))}
-                            >
-                              <option value="Viewer">Viewer</option>
-                              <option value="Engineer">Engineer</option>
-                              <option value="Admin">Admin</option>
-                            </select>
-                          </div>
-                          <div className="flex items-end justify-end">
-                            <button
-                              type="button"
-                              className="rounded-xl bg-slate-900 px-3 py-2 text-sm font-medium text-white shadow-sm hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-60"
-                              disabled={newUserStatus.state === "creating" || !newUser.username.trim() || newUser.password.length < 8}
-                              onClick={createAdminUser}
-                            >
-                              {newUserStatus.state === "creating" ? "Creating…" : "Create"}
-                            </button>
+                    <div className="grid grid-cols-1 gap-5 xl:grid-cols-3">
+                      <div className="rounded-2xl border border-slate-200 bg-white">
+                        {promptTemplates.length === 0 ? (
+                          <div className="p-4 text-sm text-slate-600">
+                            {promptStatus.state === "loading"
+                              ? "Loading…"
+                              : "No versions yet. The built-in prompt is in use."}
                           </div>
-                        </div>
-
-                        {newUserStatus.state === "error" ? (
-                          <div className="mt-3 text-xs text-red-700">{newUserStatus.message}</div>
-                        ) : null}
+                        ) : (
+                          <ul className="divide-y divide-slate-200">
+                            {promptTemplates.map((t) => (
+                              <li key={t.id} className="flex items-start justify-between gap-3 px-4 py-3">
+                                <button
+                                  type="button"
+                                  className="min-w-0 text-left"
+                                  onClick={() => editFromPrompt(t)}
+                                >
+                                  <div className="text-sm font-medium text-slate-900">
+                                    v{t.version}
+                                    {promptDraft.baseVersion === t.version ? (
+                                      <span className="ml-2 text-xs font-normal text-slate-500">editing</span>
+                                    ) : null}
+                                  </div>
+                                  <div className="mt-1 truncate text-xs text-slate-500">
+                                    {formatCompactDate(t.created_at)}
+                                    {t.notes ? ` · ${t.notes}` : ""}
+                                  </div>
+                                </button>
+                                {t.is_active ? (
+                                  <Badge tone="success">Active</Badge>
+                                ) : (
+                                  <button
+                                    type="button"
+                                    className="rounded-xl border border-slate-200 bg-white px-3 py-1.5 text-xs font-medium text-slate-900 shadow-sm hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-60"
+                                    disabled={promptStatus.state === "saving"}
+                                    onClick={() => void activatePromptVersion(t.id)}
+                                  >
+                                    Activate
+                                  </button>
+                                )}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
                       </div>
 
-                      <div className="rounded-2xl border border-slate-200 bg-white">
-                        <div className="flex items-center justify-between border-b border-slate-200 px-4 py-3">
-                          <div className="text-xs font-semibold text-slate-900">Users</div>
+                      <div className="space-y-3 rounded-2xl border border-slate-200 bg-white p-4 xl:col-span-2">
+                        <div className="text-xs text-slate-500">
+                          Variables:{" "}
+                          {promptVariables.map((v) => (
+                            <span key={v} className="mr-1 font-mono">{`{{${v}}}`}</span>
+                          ))}
+                          — <span className="font-mono">{"{{evidence}}"}</span> and{" "}
+                          <span className="font-mono">{"{{schema}}"}</span> are required.
+                        </div>
+                        <div>
+                          <label className="text-xs font-medium text-slate-600">System prompt</label>
+                          <textarea
+                            className="mt-1 h-28 w-full font-mono text-xs rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 shadow-sm outline-none focus:border-slate-300 focus:ring-4 focus:ring-slate-200/60"
+                            value={promptDraft.system}
+                            onChange={(e) => setPromptDraft((p) => ({ ...p, system: e.target.value }))}
+                          />
+                        </div>
+                        <div>
+                          <label className="text-xs font-medium text-slate-600">User prompt</label>
+                          <textarea
+                            className="mt-1 h-64 w-full font-mono text-xs rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 shadow-sm outline-none focus:border-slate-300 focus:ring-4 focus:ring-slate-200/60"
+                            value={promptDraft.user}
+                            onChange={(e) => setPromptDraft((p) => ({ ...p, user: e.target.value }))}
+                          />
+                        </div>
+                        <input
+                          className="w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 shadow-sm outline-none focus:border-slate-300 focus:ring-4 focus:ring-slate-200/60"
+                          placeholder="What changed in this version?"
+                          value={promptDraft.notes}
+                          onChange={(e) => setPromptDraft((p) => ({ ...p, notes: e.target.value }))}
+                        />
+                        {promptStatus.state === "error" ? (
+                          <div className="text-xs text-red-700">{promptStatus.message}</div>
+                        ) : null}
+                        <div className="flex justify-end gap-2">
                           <button
                             type="button"
-                            className="rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm font-medium text-slate-900 shadow-sm hover:bg-slate-50"
-                            onClick={loadAdminUsers}
+                            className="rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm font-medium text-slate-900 shadow-sm hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-60"
+                            disabled={promptStatus.state === "saving"}
+                            onClick={() => void savePromptVersion(false)}
                           >
-                            Refresh
+                            Save as new version
+                          </button>
+                          <button
+                            type="button"
+                            className="rounded-xl bg-slate-900 px-3 py-2 text-sm font-medium text-white shadow-sm hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-60"
+                            disabled={promptStatus.state === "saving"}
+                            onClick={() => void savePromptVersion(true)}
+                          >
+                            {promptStatus.state === "saving" ? "Saving…" : "Save & activate"}
                           </button>
                         </div>
+                      </div>
+                    </div>
+                  )}
+                </Panel>
 
-                        {adminUsersStatus.state === "error" ? (
-                          <div className="p-4 text-sm text-slate-600">{adminUsersStatus.message}</div>
-                        ) : adminUsers.length === 0 ? (
-                          <div className="p-4 text-sm text-slate-600">No users found.</div>
-                        ) : (
-                          <ul className="divide-y divide-slate-200">
-                            {adminUsers.map((u) => (
-                              <li key={u.id} className="flex items-center justify-between gap-3 px-4 py-3">
-                                <div className="min-w-0">
-                                  <div className="truncate text-sm font-medium text-slate-900">@{u.username}</div>
-                                  <div className="mt-1 text-xs text-slate-500 font-mono">{u.id.slice(0, 8)}</div>
-                                </div>
+                <Panel
+                  title="Admin: AI evaluation"
+                  subtitle="Replay rated, resolved tickets under a model, prompt version and retrieval config, then compare runs."
+                  right={isAdmin ? <Badge tone="neutral">{evalRuns.length} runs</Badge> : <Badge tone="neutral">Restricted</Badge>}
+                >
+                  {!isAdmin ? (
+                    <EmptyState title="Admin access required" description="Sign in as an Admin to run evaluations." />
+                  ) : (
+                    <div className="space-y-5">
+                      <div className="grid grid-cols-1 gap-3 md:grid-cols-4">
+                        <input
+                          className="rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 shadow-sm outline-none focus:border-slate-300 focus:ring-4 focus:ring-slate-200/60"
+                          placeholder="Run name"
+                          value={evalForm.name}
+                          onChange={(e) => setEvalForm((p) => ({ ...p, name: e.target.value }))}
+                        />
+                        <input
+                          className="rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 shadow-sm outline-none focus:border-slate-300 focus:ring-4 focus:ring-slate-200/60"
+                          placeholder="Backend name (optional)"
+                          value={evalForm.backend}
+                          onChange={(e) => setEvalForm((p) => ({ ...p, backend: e.target.value }))}
+                        />
+                        <input
+                          className="rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 shadow-sm outline-none focus:border-slate-300 focus:ring-4 focus:ring-slate-200/60"
+                          placeholder="Endpoint, e.g. stub server (optional)"
+                          value={evalForm.endpoint}
+                          onChange={(e) => setEvalForm((p) => ({ ...p, endpoint: e.target.value }))}
+                        />
+                        <input
+                          className="rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 shadow-sm outline-none focus:border-slate-300 focus:ring-4 focus:ring-slate-200/60"
+                          placeholder="Model (optional)"
+                          value={evalForm.model}
+                          onChange={(e) => setEvalForm((p) => ({ ...p, model: e.target.value }))}
+                        />
+                        <select
+                          className="rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 shadow-sm outline-none focus:border-slate-300 focus:ring-4 focus:ring-slate-200/60"
+                          value={evalForm.promptTemplateId}
+                          onChange={(e) => setEvalForm((p) => ({ ...p, promptTemplateId: e.target.value }))}
+                        >
+                          <option value="">Active prompt</option>
+                          {evalPrompts.map((t) => (
+                            <option key={t.id} value={t.id}>
+                              Prompt v{t.version}
+                              {t.is_active ? " (active)" : ""}
+                            </option>
+                          ))}
+                        </select>
+                        <select
+                          className="rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 shadow-sm outline-none focus:border-slate-300 focus:ring-4 focus:ring-slate-200/60"
+                          value={evalForm.mode}
+                          onChange={(e) =>
+                            setEvalForm((p) => ({ ...p, mode: e.target.value as "vector" | "lexical" | "hybrid" }))
+                          }
+                        >
+                          <option value="hybrid">Hybrid retrieval</option>
+                          <option value="vector">Vector retrieval</option>
+                          <option value="lexical">Lexical retrieval</option>
+                        </select>
+                        <input
+                          type="number"
+                          min={1}
+                          max={20}
+                          className="rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 shadow-sm outline-none focus:border-slate-300 focus:ring-4 focus:ring-slate-200/60"
+                          value={evalForm.limit}
+                          onChange={(e) => setEvalForm((p) => ({ ...p, limit: Number(e.target.value) || 6 }))}
+                          title="Evidence documents per case"
+                        />
+                        <select
+                          className="rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 shadow-sm outline-none focus:border-slate-300 focus:ring-4 focus:ring-slate-200/60"
+                          value={evalForm.sameAsRunId}
+                          onChange={(e) => setEvalForm((p) => ({ ...p, sameAsRunId: e.target.value }))}
+                        >
+                          <option value="">Recently rated tickets</option>
+                          {evalRuns.map((r) => (
+                            <option key={r.id} value={r.id}>
+                              Same cases as {r.name}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                      <div className="flex items-center justify-between gap-3">
+                        <div className="text-xs text-slate-500">
+                          Each ticket&apos;s own resolved document is withheld from its evidence. Runs use temperature 0.
+                        </div>
+                        <button
+                          type="button"
+                          className="rounded-xl bg-slate-900 px-3 py-2 text-sm font-medium text-white shadow-sm hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-60"
+                          disabled={evalStatus.state === "starting" || evalRuns.some((r) => r.status === "running")}
+                          onClick={() => void startEvalRun()}
+                        >
+                          {evalRuns.some((r) => r.status === "running") ? "Running…" : "Start run"}
+                        </button>
+                      </div>
+                      {evalStatus.state === "error" ? (
+                        <div className="text-xs text-rose-700">{evalStatus.message}</div>
+                      ) : null}
 
-                                <select
-                                  className="rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 shadow-sm outline-none focus:border-slate-300 focus:ring-4 focus:ring-slate-200/60"
-                                  value={(u.role as Role) ?? "Viewer"}
-                                  onChange={(e) => void setUserRole(u.id, e.target.value as Role)}
-                                >
-                                  <option value="Viewer">Viewer</option>
-                                  <option value="Engineer">Engineer</option>
-                                  <option value="Admin">Admin</option>
-                                </select>
+                      {evalRuns.length === 0 ? (
+                        <div className="text-sm text-slate-600">No evaluation runs yet.</div>
+                      ) : (
+                        <div className="overflow-x-auto rounded-2xl border border-slate-200 bg-white">
+                          <table className="min-w-full text-left text-xs">
+                            <thead className="bg-slate-50 text-slate-500">
+                              <tr>
+                                <th className="px-3 py-2 font-medium">Run</th>
+                                <th className="px-3 py-2 font-medium">Status</th>
+                                <th className="px-3 py-2 font-medium">JSON valid</th>
+                                <th className="px-3 py-2 font-medium">Citations</th>
+                                <th className="px-3 py-2 font-medium">Resolution overlap</th>
+                                <th className="px-3 py-2 font-medium">Recall</th>
+                                <th className="px-3 py-2 font-medium">Latency</th>
+                              </tr>
+                            </thead>
+                            <tbody className="divide-y divide-slate-200">
+                              {evalRuns.map((r) => {
+                                const summary = r.summary as AiEvalSummary | null;
+                                const pct = (v: number | null | undefined) =>
+                                  typeof v === "number" ? `${Math.round(v * 100)}%` : "—";
+                                return (
+                                  <tr key={r.id}>
+                                    <td className="px-3 py-2">
+                                      <div className="font-medium text-slate-900">{r.name}</div>
+                                      <div className="text-slate-500">{formatCompactDate(r.started_at)}</div>
+                                    </td>
+                                    <td className="px-3 py-2">
+                                      <Badge
+                                        tone={r.status === "completed" ? "success" : r.status === "failed" ? "danger" : "info"}
+                                      >
+                                        {r.status}
+                                      </Badge>
+                                      <div className="mt-1 text-slate-500">
+                                        {r.cases_processed}/{r.cases_total}
+                                        {r.cases_failed > 0 ? ` · ${r.cases_failed} failed` : ""}
+                                      </div>
+                                    </td>
+                                    <td className="px-3 py-2">{pct(summary?.json_valid_rate)}</td>
+                                    <td className="px-3 py-2">{pct(summary?.citation_coverage)}</td>
+                                    <td className="px-3 py-2">{pct(summary?.resolution_overlap)}</td>
+                                    <td className="px-3 py-2">{pct(summary?.retrieval_recall)}</td>
+                                    <td className="px-3 py-2">
+                                      {typeof summary?.avg_latency_ms === "number" ? `${summary.avg_latency_ms} ms` : "—"}
+                                    </td>
+                                  </tr>
+                                );
+                              })}
+                            </tbody>
+                          </table>
+                        </div>
+                      )}
+
+                      <div className="flex flex-wrap items-center gap-2">
+                        {(["baseId", "candidateId"] as const).map((field) => (
+                          <select
+                            key={field}
+                            className="rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 shadow-sm outline-none focus:border-slate-300 focus:ring-4 focus:ring-slate-200/60"
+                            value={evalCompare[field]}
+                            onChange={(e) => setEvalCompare((p) => ({ ...p, [field]: e.target.value }))}
+                          >
+                            <option value="">{field === "baseId" ? "Base run" : "Candidate run"}</option>
+                            {evalRuns
+                              .filter((r) => r.status === "completed")
+                              .map((r) => (
+                                <option key={r.id} value={r.id}>
+                                  {r.name}
+                                </option>
+                              ))}
+                          </select>
+                        ))}
+                        <button
+                          type="button"
+                          className="rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm font-medium text-slate-900 shadow-sm hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-60"
+                          disabled={!evalCompare.baseId || !evalCompare.candidateId}
+                          onClick={() => void compareEvalRuns()}
+                        >
+                          Compare
+                        </button>
+                      </div>
+
+                      {evalReport ? (
+                        <div className="rounded-2xl border border-slate-200 bg-slate-50/60 p-4">
+                          <div className="text-xs text-slate-600">
+                            {evalReport.candidate.name} vs {evalReport.base.name} over {evalReport.common_cases} shared
+                            tickets
+                          </div>
+                          <ul className="mt-2 space-y-1 text-xs">
+                            {evalReport.metrics.map((m) => (
+                              <li key={m.metric} className="flex items-center justify-between gap-3">
+                                <span className="font-mono text-slate-700">{m.metric}</span>
+                                <span className="text-slate-600">
+                                  {m.base ?? "—"} → {m.candidate ?? "—"}
+                                  {m.delta !== null ? (
+                                    <span
+                                      className={cn(
+                                        "ml-2 font-medium",
+                                        // Lower latency is better; for every other metric higher is.
+                                        (m.metric === "latency_ms" ? -m.delta : m.delta) > 0
+                                          ? "text-emerald-700"
+                                          : (m.metric === "latency_ms" ? -m.delta : m.delta) < 0
+                                            ? "text-rose-700"
+                                            : "text-slate-500"
+                                      )}
+                                    >
+                                      ({m.delta > 0 ? "+" : ""}
+                                      {m.delta})
+                                    </span>
+                                  ) : null}
+                                </span>
                               </li>
                             ))}
                           </ul>
-                        )}
-                      </div>
+                        </div>
+                      ) : null}
                     </div>
                   )}
                 </Panel>
@@ -1958,6 +4758,9 @@ export default function Home() {
                       onClick={() => {
                         setCreateOpen(true);
                         setCreateStatus({ state: "idle" });
+                        setTriagePreview(null);
+                        setTriageStatus({ state: "idle" });
+                        setCreateDuplicates(null);
                       }}
                       disabled={!canWrite}
                     >
@@ -2021,9 +4824,10 @@ export default function Home() {
                             className="mt-1 w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 shadow-sm outline-none focus:border-slate-300 focus:ring-4 focus:ring-slate-200/60"
                             value={createForm.type}
                             onChange={(e) =>
-                              setCreateForm((p) => ({ ...p, type: e.target.value as TicketType }))
+                              setCreateForm((p) => ({ ...p, type: e.target.value as TicketType | "" }))
                             }
                           >
+                            {createAutoTriage ? <option value="">Let triage decide</option> : null}
                             <option value="Incident">Incident</option>
                             <option value="Service Request">Service Request</option>
                             <option value="Problem">Problem</option>
@@ -2041,10 +4845,11 @@ export default function Home() {
                             onChange={(e) =>
                               setCreateForm((p) => ({
                                 ...p,
-                                priority: e.target.value as TicketPriority,
+                                priority: e.target.value as TicketPriority | "",
                               }))
                             }
                           >
+                            {createAutoTriage ? <option value="">Let triage decide</option> : null}
                             <option value="P1">P1</option>
                             <option value="P2">P2</option>
                             <option value="P3">P3</option>
@@ -2092,6 +4897,145 @@ export default function Home() {
                         </div>
                       </div>
 
+                      <div className="mt-4 rounded-xl border border-slate-200 bg-slate-50/60 p-3">
+                        <div className="flex flex-wrap items-center justify-between gap-3">
+                          <label className="flex items-center gap-2 text-xs text-slate-700">
+                            <input
+                              type="checkbox"
+                              checked={createAutoTriage}
+                              onChange={(e) => {
+                                const on = e.target.checked;
+                                setCreateAutoTriage(on);
+                                // Blank fields are the ones triage may fill.
+                                setCreateForm((p) =>
+                                  on
+                                    ? { ...p, type: "", priority: "" }
+                                    : { ...p, type: p.type || "Incident", priority: p.priority || "P3" }
+                                );
+                              }}
+                            />
+                            Auto-triage on create: fill blank fields the model is confident about
+                          </label>
+                          <button
+                            type="button"
+                            className="rounded-xl border border-slate-200 bg-white px-3 py-2 text-xs font-medium text-slate-900 shadow-sm hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-60"
+                            disabled={triageStatus.state === "loading" || !createForm.title.trim()}
+                            onClick={() => void previewTriage()}
+                          >
+                            {triageStatus.state === "loading" ? "Triaging…" : "Suggest labels"}
+                          </button>
+                        </div>
+                        {triageStatus.state === "error" ? (
+                          <div className="mt-2 text-xs text-rose-700">{triageStatus.message}</div>
+                        ) : null}
+                        {triagePreview ? (
+                          <div className="mt-3 space-y-2">
+                            <div className="flex flex-wrap gap-2">
+                              {(["type", "priority", "service", "site"] as const).map((field) => {
+                                const proposal = triagePreview.proposal[field];
+                                if (!proposal) return null;
+                                const active = createForm[field] === proposal.value;
+                                return (
+                                  <button
+                                    key={field}
+                                    type="button"
+                                    onClick={() => applyTriageProposal(field, proposal.value)}
+                                    className={cn(
+                                      "rounded-full px-2.5 py-1 text-xs font-medium ring-1 ring-inset transition",
+                                      active
+                                        ? "bg-slate-900 text-white ring-slate-900"
+                                        : "bg-white text-slate-700 ring-slate-200 hover:bg-slate-100"
+                                    )}
+                                  >
+                                    {field}: {formatConfidence(proposal)}
+                                  </button>
+                                );
+                              })}
+                              {triagePreview.proposal.topics.map((topic) => {
+                                const active = selectedTopics.has(topic.value);
+                                return (
+                                  <button
+                                    key={topic.value}
+                                    type="button"
+                                    onClick={() => toggleTopic(topic.value)}
+                                    className={cn(
+                                      "rounded-full px-2.5 py-1 text-xs font-medium ring-1 ring-inset transition",
+                                      active
+                                        ? "bg-slate-900 text-white ring-slate-900"
+                                        : "bg-white text-slate-700 ring-slate-200 hover:bg-slate-100"
+                                    )}
+                                  >
+                                    topic: {formatConfidence(topic)}
+                                  </button>
+                                );
+                              })}
+                            </div>
+                            {triagePreview.proposal.rationale ? (
+                              <div className="text-xs text-slate-600">{triagePreview.proposal.rationale}</div>
+                            ) : null}
+                            <div className="text-xs text-slate-500">
+                              Based on {triagePreview.similar.length} similar resolved tickets
+                              {triagePreview.model ? ` · ${triagePreview.model.backend}/${triagePreview.model.name}` : ""}
+                            </div>
+                          </div>
+                        ) : null}
+                      </div>
+
+                      {createDuplicates ? (
+                        <div className="mt-4 rounded-xl border border-amber-100 bg-amber-50/60 p-3">
+                          <div className="text-xs font-medium text-amber-800">
+                            Possible duplicates: link to one, merge into an open one, or create anyway.
+                          </div>
+                          <ul className="mt-2 divide-y divide-amber-100">
+                            {createDuplicates.map((c) => (
+                              <li key={c.ticket_id} className="flex items-center justify-between gap-3 py-2">
+                                <div className="min-w-0">
+                                  <div className="flex items-center gap-2">
+                                    <span className="truncate text-sm text-slate-900">{c.title}</span>
+                                    {c.likely ? <Badge tone="warning">Likely</Badge> : null}
+                                  </div>
+                                  <div className="mt-0.5 text-xs text-slate-600">
+                                    {c.external_id ? `${c.external_id} · ` : ""}
+                                    {c.status} · {c.source === "open" ? "open ticket" : "resolved memory"} · score{" "}
+                                    {c.score.toFixed(3)}
+                                  </div>
+                                </div>
+                                <div className="flex shrink-0 gap-2">
+                                  <button
+                                    type="button"
+                                    className="rounded-xl border border-slate-200 bg-white px-2.5 py-1.5 text-xs font-medium text-slate-900 shadow-sm hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-60"
+                                    disabled={createStatus.state === "creating"}
+                                    onClick={() => void createTicket({ action: "link", ticketId: c.ticket_id })}
+                                  >
+                                    Create as duplicate
+                                  </button>
+                                  {c.source === "open" ? (
+                                    <button
+                                      type="button"
+                                      className="rounded-xl border border-slate-200 bg-white px-2.5 py-1.5 text-xs font-medium text-slate-900 shadow-sm hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-60"
+                                      disabled={createStatus.state === "creating"}
+                                      onClick={() => void createTicket({ action: "merge", ticketId: c.ticket_id })}
+                                    >
+                                      Merge into
+                                    </button>
+                                  ) : null}
+                                </div>
+                              </li>
+                            ))}
+                          </ul>
+                          <div className="mt-2 flex justify-end">
+                            <button
+                              type="button"
+                              className="rounded-xl border border-slate-200 bg-white px-2.5 py-1.5 text-xs font-medium text-slate-900 shadow-sm hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-60"
+                              disabled={createStatus.state === "creating"}
+                              onClick={() => void createTicket({ action: "proceed" })}
+                            >
+                              Create anyway
+                            </button>
+                          </div>
+                        </div>
+                      ) : null}
+
                       <div className="mt-4 flex items-center justify-between gap-3">
                         <div className="text-xs text-slate-600">
                           {createStatus.state === "error" ? createStatus.message : null}
@@ -2100,7 +5044,7 @@ export default function Home() {
                           type="button"
                           className="rounded-xl bg-slate-900 px-3 py-2 text-sm font-medium text-white shadow-sm hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-60"
                           disabled={createStatus.state === "creating" || !createForm.title.trim()}
-                          onClick={createTicket}
+                          onClick={() => void createTicket()}
                         >
                           {createStatus.state === "creating" ? "Creating…" : "Create"}
                         </button>
@@ -2108,6 +5052,19 @@ export default function Home() {
                     </div>
                   ) : null}
 
+                  {triageNotice ? (
+                    <div className="mb-4 flex items-start justify-between gap-3 rounded-xl border border-slate-200 bg-slate-50 px-3 py-2 text-xs text-slate-700">
+                      <span>{triageNotice}</span>
+                      <button
+                        type="button"
+                        className="font-medium text-slate-900 hover:underline"
+                        onClick={() => setTriageNotice(null)}
+                      >
+                        Dismiss
+                      </button>
+                    </div>
+                  ) : null}
+
                   <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
                     <div className="w-full sm:max-w-md">
                       <label className="sr-only" htmlFor="ticket-search">
@@ -2141,6 +5098,34 @@ export default function Home() {
                         <option value="Closed">Closed</option>
                       </select>
                     </div>
+
+                    <div className="flex items-center gap-2">
+                      <span className="text-xs font-medium text-slate-600">
+                        Owner
+                      </span>
+                      <select
+                        className="rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 shadow-sm outline-none focus:border-slate-300 focus:ring-4 focus:ring-slate-200/60"
+                        value={ticketAssigned}
+                        onChange={(e) => setTicketAssigned(e.target.value as "" | "me" | "unassigned")}
+                      >
+                        <option value="">Anyone</option>
+                        {me?.userId ? <option value="me">Assigned to me</option> : null}
+                        <option value="unassigned">Unassigned</option>
+                      </select>
+                      <select
+                        className="rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 shadow-sm outline-none focus:border-slate-300 focus:ring-4 focus:ring-slate-200/60"
+                        value={ticketTeam}
+                        onChange={(e) => setTicketTeam(e.target.value)}
+                      >
+                        <option value="">All queues</option>
+                        <option value="none">No queue</option>
+                        {teams.map((team) => (
+                          <option key={team.id} value={team.id}>
+                            {team.name}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
                   </div>
 
                   {/* Selected topics (context bar) */}
@@ -2248,6 +5233,10 @@ export default function Home() {
                                           <span className="truncate">{t.service}</span>
                                         </>
                                       ) : null}
+                                      <span className="text-slate-300">•</span>
+                                      <span>
+                                        {t.assigned_to ? `@${assigneeNames.get(t.assigned_to) ?? "unknown"}` : "Unassigned"}
+                                      </span>
                                     </div>
                                   </div>
                                   <div className="flex shrink-0 flex-col items-end gap-2">
@@ -2280,6 +5269,17 @@ export default function Home() {
                       <Panel
                         title="Ticket details"
                         subtitle="Triage and resolution workspace."
+                        right={
+                          selectedTicket ? (
+                            <button
+                              type="button"
+                              className="rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm font-medium text-slate-900 shadow-sm hover:bg-slate-50"
+                              onClick={() => analyseTicket(selectedTicket)}
+                            >
+                              Analyse with AI
+                            </button>
+                          ) : null
+                        }
                       >
                         {selectedTicket && editTicket ? (
                           <div className="space-y-4">
@@ -2298,8 +5298,102 @@ export default function Home() {
                               >
                                 {selectedTicket.status}
                               </Badge>
+                              {selectedTicket.duplicate_of ? (
+                                <button
+                                  type="button"
+                                  onClick={() => setSelectedTicketId(selectedTicket.duplicate_of)}
+                                  title="Open the original ticket"
+                                >
+                                  <Badge tone="warning">
+                                    Duplicate of{" "}
+                                    {tickets.find((t) => t.id === selectedTicket.duplicate_of)?.title ?? "another ticket"}
+                                  </Badge>
+                                </button>
+                              ) : null}
+                            </div>
+
+                            <div className="flex flex-wrap items-center gap-2">
+                              <span className="text-xs font-medium text-slate-600">Owner</span>
+                              <select
+                                className="rounded-xl border border-slate-200 bg-white px-3 py-1.5 text-sm text-slate-900 shadow-sm"
+                                value={selectedTicket.assigned_to ?? ""}
+                                onChange={(e) => void assignTicket(selectedTicket.id, { assignedTo: e.target.value || null })}
+                                disabled={!canWrite}
+                              >
+                                <option value="">Unassigned</option>
+                                {selectedTicket.assigned_to && !assigneeNames.has(selectedTicket.assigned_to) ? (
+                                  <option value={selectedTicket.assigned_to}>Unknown user</option>
+                                ) : null}
+                                {(workload?.engineers ?? []).map((e) => (
+                                  <option key={e.user_id} value={e.user_id}>
+                                    @{e.username}
+                                  </option>
+                                ))}
+                              </select>
+                              <select
+                                className="rounded-xl border border-slate-200 bg-white px-3 py-1.5 text-sm text-slate-900 shadow-sm"
+                                value={selectedTicket.team_id ?? ""}
+                                onChange={(e) => void assignTicket(selectedTicket.id, { teamId: e.target.value || null })}
+                                disabled={!canWrite}
+                              >
+                                <option value="">No queue</option>
+                                {teams.map((team) => (
+                                  <option key={team.id} value={team.id}>
+                                    {team.name}
+                                  </option>
+                                ))}
+                              </select>
+                              {canWrite && me?.userId && selectedTicket.assigned_to !== me.userId ? (
+                                <button
+                                  type="button"
+                                  className="rounded-xl border border-slate-200 bg-white px-3 py-1.5 text-sm font-medium text-slate-900 shadow-sm hover:bg-slate-50"
+                                  onClick={() => void assignTicket(selectedTicket.id, { assignedTo: "me" })}
+                                >
+                                  Assign to me
+                                </button>
+                              ) : null}
                             </div>
 
+                            {ticketSla && ticketSla.ticket_id === selectedTicket.id ? (
+                              <div className="flex flex-wrap items-center gap-2 text-xs text-slate-600">
+                                <span className="font-medium">SLA</span>
+                                {ticketSla.paused_at &&
+                                selectedTicket.status !== "Resolved" &&
+                                selectedTicket.status !== "Closed" ? (
+                                  <Badge tone="neutral">Paused</Badge>
+                                ) : null}
+                                <Badge
+                                  tone={
+                                    ticketSla.response_breached_at ? "danger" : ticketSla.first_response_at ? "success" : "info"
+                                  }
+                                >
+                                  Response{" "}
+                                  {ticketSla.first_response_at
+                                    ? ticketSla.response_breached_at
+                                      ? "late"
+                                      : "met"
+                                    : `due ${formatDateTime(ticketSla.response_due_at)}`}
+                                </Badge>
+                                <Badge
+                                  tone={
+                                    ticketSla.resolution_breached_at
+                                      ? "danger"
+                                      : selectedTicket.status === "Resolved" || selectedTicket.status === "Closed"
+                                        ? "success"
+                                        : "info"
+                                  }
+                                >
+                                  Resolution{" "}
+                                  {selectedTicket.status === "Resolved" || selectedTicket.status === "Closed"
+                                    ? ticketSla.resolution_breached_at
+                                      ? "late"
+                                      : "met"
+                                    : `due ${formatDateTime(ticketSla.resolution_due_at)}`}
+                                </Badge>
+                                {ticketSla.business_hours ? <span>business hours</span> : <span>24x7</span>}
+                              </div>
+                            ) : null}
+
                             <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
                               <div>
                                 <label className="text-xs font-medium text-slate-600">
@@ -2442,33 +5536,638 @@ export default function Home() {
                                   {saveStatus.state === "saving" ? "Saving…" : "Save"}
                                 </button>
 
-                                <button
-                                  type="button"
-                                  className="rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm font-medium text-slate-900 shadow-sm hover:bg-slate-50"
-                                  onClick={() => void updateTicketStatus(selectedTicket.id, "In Progress")}
-                                  disabled={!canWrite}
-                                >
-                                  Set In Progress
-                                </button>
+                                {ticketTransitions.map((option) => {
+                                  // Notes typed into the form count: they are sent with the change.
+                                  const blockers = option.violations.filter(
+                                    (v) =>
+                                      !(v.rule === "required_field" && v.field === "resolution_notes" && editTicket.resolutionNotes.trim())
+                                  );
+                                  return (
+                                    <button
+                                      key={option.to}
+                                      type="button"
+                                      className={cn(
+                                        "rounded-xl px-3 py-2 text-sm font-medium shadow-sm disabled:cursor-not-allowed disabled:opacity-60",
+                                        option.to === "Resolved"
+                                          ? "bg-slate-900 text-white hover:bg-slate-800"
+                                          : "border border-slate-200 bg-white text-slate-900 hover:bg-slate-50"
+                                      )}
+                                      onClick={() => void updateTicketStatus(selectedTicket.id, option.to)}
+                                      disabled={!canWrite || blockers.length > 0}
+                                      title={blockers.map((v) => v.message).join("\n") || undefined}
+                                    >
+                                      {STATUS_ACTION_LABELS[option.to]}
+                                    </button>
+                                  );
+                                })}
+                              </div>
+                            </div>
 
-                                <button
-                                  type="button"
-                                  className="rounded-xl bg-slate-900 px-3 py-2 text-sm font-medium text-white shadow-sm hover:bg-slate-800"
-                                  onClick={() => void updateTicketStatus(selectedTicket.id, "Resolved")}
-                                  disabled={!canWrite}
-                                >
-                                  Resolve (stores to RAG)
-                                </button>
+                            {selectedTicket.type === "Change" ? (
+                              <div className="rounded-2xl border border-slate-200">
+                                <div className="flex items-center justify-between border-b border-slate-200 px-4 py-3">
+                                  <div className="text-xs font-semibold text-slate-900">Change request</div>
+                                  <div className="flex items-center gap-2 text-xs text-slate-500">
+                                    {changeStatus.state === "loading"
+                                      ? "Loading…"
+                                      : changeStatus.state === "saving"
+                                        ? "Saving…"
+                                        : null}
+                                    {changeRequest ? (
+                                      <>
+                                        <span>
+                                          {changeRequest.approvers.filter((a) => a.decision === "approved").length}/
+                                          {changeRequest.quorum} approvals
+                                        </span>
+                                        <Badge tone={APPROVAL_TONES[changeRequest.approval_status] ?? "neutral"}>
+                                          {changeRequest.approval_status}
+                                        </Badge>
+                                      </>
+                                    ) : (
+                                      <Badge tone="neutral">Not planned</Badge>
+                                    )}
+                                  </div>
+                                </div>
 
-                                <button
-                                  type="button"
-                                  className="rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm font-medium text-slate-900 shadow-sm hover:bg-slate-50"
-                                  onClick={() => void updateTicketStatus(selectedTicket.id, "Closed")}
-                                  disabled={!canWrite}
-                                >
-                                  Close
-                                </button>
+                                <div className="space-y-3 px-4 py-3">
+                                  {changeStatus.state === "error" ? (
+                                    <div className="text-xs text-red-700">{changeStatus.message}</div>
+                                  ) : null}
+
+                                  <div className="grid grid-cols-1 gap-3 md:grid-cols-4">
+                                    <div>
+                                      <label className="text-xs font-medium text-slate-600">Risk</label>
+                                      <select
+                                        className="mt-1 w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm"
+                                        value={changeForm.risk}
+                                        onChange={(e) => setChangeForm((p) => ({ ...p, risk: e.target.value as ChangeRisk }))}
+                                        disabled={!canWrite}
+                                      >
+                                        <option value="Low">Low</option>
+                                        <option value="Medium">Medium</option>
+                                        <option value="High">High</option>
+                                      </select>
+                                    </div>
+                                    <div>
+                                      <label className="text-xs font-medium text-slate-600">Window start</label>
+                                      <input
+                                        type="datetime-local"
+                                        className="mt-1 w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm"
+                                        value={changeForm.windowStart}
+                                        onChange={(e) => setChangeForm((p) => ({ ...p, windowStart: e.target.value }))}
+                                        disabled={!canWrite}
+                                      />
+                                    </div>
+                                    <div>
+                                      <label className="text-xs font-medium text-slate-600">Window end</label>
+                                      <input
+                                        type="datetime-local"
+                                        className="mt-1 w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm"
+                                        value={changeForm.windowEnd}
+                                        onChange={(e) => setChangeForm((p) => ({ ...p, windowEnd: e.target.value }))}
+                                        disabled={!canWrite}
+                                      />
+                                    </div>
+                                    <div>
+                                      <label className="text-xs font-medium text-slate-600">Quorum</label>
+                                      <input
+                                        type="number"
+                                        min={1}
+                                        className="mt-1 w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm"
+                                        value={changeForm.quorum}
+                                        onChange={(e) => setChangeForm((p) => ({ ...p, quorum: e.target.value }))}
+                                        disabled={!canWrite}
+                                      />
+                                    </div>
+                                  </div>
+
+                                  <div>
+                                    <label className="text-xs font-medium text-slate-600">Affected assets (comma separated)</label>
+                                    <input
+                                      className="mt-1 w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm"
+                                      value={changeForm.assets}
+                                      onChange={(e) => setChangeForm((p) => ({ ...p, assets: e.target.value }))}
+                                      placeholder="e.g. PLC-Line3, MES-APP01"
+                                      disabled={!canWrite}
+                                    />
+                                  </div>
+
+                                  <div>
+                                    <label className="text-xs font-medium text-slate-600">Backout plan</label>
+                                    <textarea
+                                      className="mt-1 h-24 w-full resize-none rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm"
+                                      value={changeForm.backoutPlan}
+                                      onChange={(e) => setChangeForm((p) => ({ ...p, backoutPlan: e.target.value }))}
+                                      disabled={!canWrite}
+                                    />
+                                  </div>
+
+                                  <div>
+                                    <label className="text-xs font-medium text-slate-600">Approvers</label>
+                                    <div className="mt-1 flex flex-wrap gap-1.5">
+                                      {(workload?.engineers ?? []).map((e) => {
+                                        const on = changeForm.approverIds.includes(e.user_id);
+                                        const decision = changeRequest?.approvers.find((a) => a.approver_id === e.user_id)?.decision;
+                                        return (
+                                          <button
+                                            key={e.user_id}
+                                            type="button"
+                                            disabled={!canWrite}
+                                            onClick={() =>
+                                              setChangeForm((p) => ({
+                                                ...p,
+                                                approverIds: on
+                                                  ? p.approverIds.filter((x) => x !== e.user_id)
+                                                  : [...p.approverIds, e.user_id],
+                                              }))
+                                            }
+                                            className={cn(
+                                              "rounded-full px-2.5 py-1 text-xs font-medium ring-1 ring-inset transition",
+                                              on
+                                                ? "bg-slate-900 text-white ring-slate-900"
+                                                : "bg-white text-slate-700 ring-slate-200 hover:bg-slate-100"
+                                            )}
+                                          >
+                                            @{e.username}
+                                            {decision === "approved" ? " ✓" : decision === "rejected" ? " ✗" : ""}
+                                          </button>
+                                        );
+                                      })}
+                                    </div>
+                                  </div>
+
+                                  {changeRequest && changeRequest.approvers.some((a) => a.comment) ? (
+                                    <ul className="space-y-1 text-xs text-slate-600">
+                                      {changeRequest.approvers
+                                        .filter((a) => a.comment)
+                                        .map((a) => (
+                                          <li key={a.approver_id}>
+                                            @{a.username} ({a.decision}): {a.comment}
+                                          </li>
+                                        ))}
+                                    </ul>
+                                  ) : null}
+
+                                  <div className="flex flex-wrap items-center justify-end gap-2">
+                                    <button
+                                      type="button"
+                                      className="rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm font-medium text-slate-900 shadow-sm hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-60"
+                                      disabled={!canWrite || changeStatus.state === "saving"}
+                                      onClick={() => void saveChange(selectedTicket.id)}
+                                    >
+                                      Save plan
+                                    </button>
+                                    {changeRequest &&
+                                    (changeRequest.approval_status === "draft" || changeRequest.approval_status === "rejected") ? (
+                                      <button
+                                        type="button"
+                                        className="rounded-xl bg-slate-900 px-3 py-2 text-sm font-medium text-white shadow-sm hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-60"
+                                        disabled={!canWrite || changeStatus.state === "saving"}
+                                        onClick={() => void submitChange(selectedTicket.id)}
+                                      >
+                                        Submit for approval
+                                      </button>
+                                    ) : null}
+                                  </div>
+
+                                  {changeRequest?.approval_status === "pending" &&
+                                  me?.userId &&
+                                  changeRequest.approvers.some((a) => a.approver_id === me.userId && !a.decision) ? (
+                                    <div className="flex flex-wrap items-center gap-2 border-t border-slate-200 pt-3">
+                                      <input
+                                        className="min-w-0 flex-1 rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm"
+                                        placeholder="Comment (required to reject)"
+                                        value={changeComment}
+                                        onChange={(e) => setChangeComment(e.target.value)}
+                                      />
+                                      <button
+                                        type="button"
+                                        className="rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm font-medium text-red-700 shadow-sm hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-60"
+                                        disabled={changeStatus.state === "saving" || !changeComment.trim()}
+                                        onClick={() => void decideChange(selectedTicket.id, "rejected")}
+                                      >
+                                        Reject
+                                      </button>
+                                      <button
+                                        type="button"
+                                        className="rounded-xl bg-slate-900 px-3 py-2 text-sm font-medium text-white shadow-sm hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-60"
+                                        disabled={changeStatus.state === "saving"}
+                                        onClick={() => void decideChange(selectedTicket.id, "approved")}
+                                      >
+                                        Approve
+                                      </button>
+                                    </div>
+                                  ) : null}
+                                </div>
+                              </div>
+                            ) : null}
+
+                            {selectedTicket.type === "Problem" ? (
+                              <div className="rounded-2xl border border-slate-200">
+                                <div className="flex items-center justify-between border-b border-slate-200 px-4 py-3">
+                                  <div className="text-xs font-semibold text-slate-900">Known error</div>
+                                  <div className="flex items-center gap-2 text-xs text-slate-500">
+                                    {problemStatus.state === "loading"
+                                      ? "Loading…"
+                                      : problemStatus.state === "saving"
+                                        ? "Saving…"
+                                        : null}
+                                    {problemRecord?.known_error_status === "published" ? (
+                                      <Badge tone="success">Published</Badge>
+                                    ) : (
+                                      <Badge tone="neutral">Draft</Badge>
+                                    )}
+                                  </div>
+                                </div>
+
+                                <div className="space-y-3 px-4 py-3">
+                                  {problemStatus.state === "error" ? (
+                                    <div className="text-xs text-red-700">{problemStatus.message}</div>
+                                  ) : null}
+
+                                  <div>
+                                    <label className="text-xs font-medium text-slate-600">Root cause</label>
+                                    <textarea
+                                      className="mt-1 h-20 w-full resize-none rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm"
+                                      value={problemForm.rootCause}
+                                      onChange={(e) => setProblemForm((p) => ({ ...p, rootCause: e.target.value }))}
+                                      disabled={!canWrite}
+                                    />
+                                  </div>
+                                  <div>
+                                    <label className="text-xs font-medium text-slate-600">Workaround</label>
+                                    <textarea
+                                      className="mt-1 h-20 w-full resize-none rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm"
+                                      value={problemForm.workaround}
+                                      onChange={(e) => setProblemForm((p) => ({ ...p, workaround: e.target.value }))}
+                                      disabled={!canWrite}
+                                    />
+                                  </div>
+                                  <div>
+                                    <label className="text-xs font-medium text-slate-600">Permanent fix</label>
+                                    <textarea
+                                      className="mt-1 h-20 w-full resize-none rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm"
+                                      value={problemForm.permanentFix}
+                                      onChange={(e) => setProblemForm((p) => ({ ...p, permanentFix: e.target.value }))}
+                                      disabled={!canWrite}
+                                    />
+                                  </div>
+
+                                  <div className="flex flex-wrap items-center justify-between gap-2">
+                                    <div className="text-[11px] text-slate-500">
+                                      {problemRecord?.published_at
+                                        ? `Published ${formatDateTime(problemRecord.published_at)} · offered on matching incidents`
+                                        : "Publishing indexes the workaround into RAG memory."}
+                                    </div>
+                                    <div className="flex items-center gap-2">
+                                      <button
+                                        type="button"
+                                        className="rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm font-medium text-slate-900 shadow-sm hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-60"
+                                        disabled={!canWrite || problemStatus.state === "saving"}
+                                        onClick={() => void saveProblem(selectedTicket.id)}
+                                      >
+                                        Save
+                                      </button>
+                                      {problemRecord?.known_error_status === "published" ? (
+                                        <button
+                                          type="button"
+                                          className="rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm font-medium text-red-700 shadow-sm hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-60"
+                                          disabled={!canWrite || problemStatus.state === "saving"}
+                                          onClick={() => void setKnownErrorPublished(selectedTicket.id, false)}
+                                        >
+                                          Unpublish
+                                        </button>
+                                      ) : (
+                                        <button
+                                          type="button"
+                                          className="rounded-xl bg-slate-900 px-3 py-2 text-sm font-medium text-white shadow-sm hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-60"
+                                          disabled={!canWrite || !problemRecord || problemStatus.state === "saving"}
+                                          onClick={() => void setKnownErrorPublished(selectedTicket.id, true)}
+                                        >
+                                          Publish known error
+                                        </button>
+                                      )}
+                                    </div>
+                                  </div>
+
+                                  <div className="border-t border-slate-200 pt-3">
+                                    <div className="text-xs font-medium text-slate-600">
+                                      Linked incidents ({problemIncidents.length})
+                                    </div>
+                                    {problemIncidents.length > 0 ? (
+                                      <ul className="mt-1 divide-y divide-slate-100">
+                                        {problemIncidents.map((t) => (
+                                          <li key={t.id} className="flex items-center justify-between gap-3 py-1.5">
+                                            <button
+                                              type="button"
+                                              className="min-w-0 truncate text-left text-sm text-slate-900 hover:underline"
+                                              onClick={() => setSelectedTicketId(t.id)}
+                                            >
+                                              {t.external_id ? `${t.external_id} · ` : ""}
+                                              {t.title}
+                                            </button>
+                                            <div className="flex shrink-0 items-center gap-2">
+                                              <Badge tone="neutral">{t.priority}</Badge>
+                                              <Badge tone="neutral">{t.status}</Badge>
+                                            </div>
+                                          </li>
+                                        ))}
+                                      </ul>
+                                    ) : (
+                                      <div className="mt-1 text-xs text-slate-500">No incidents linked yet.</div>
+                                    )}
+                                  </div>
+                                </div>
+                              </div>
+                            ) : null}
+
+                            {selectedTicket.type === "Incident" &&
+                            (selectedTicket.priority === "P1" || selectedTicket.priority === "P2" || postmortem) ? (
+                              <div className="rounded-2xl border border-slate-200">
+                                <div className="flex items-center justify-between border-b border-slate-200 px-4 py-3">
+                                  <div className="text-xs font-semibold text-slate-900">Postmortem</div>
+                                  <div className="flex items-center gap-2 text-xs text-slate-500">
+                                    {postmortemStatus.state === "loading"
+                                      ? "Loading…"
+                                      : postmortemStatus.state === "saving"
+                                        ? "Saving…"
+                                        : postmortemStatus.state === "generating"
+                                          ? "Drafting…"
+                                          : null}
+                                    {postmortem ? (
+                                      <Badge tone={postmortem.status === "Approved" ? "success" : "warning"}>
+                                        {postmortem.status}
+                                      </Badge>
+                                    ) : (
+                                      <Badge tone="neutral">Not written</Badge>
+                                    )}
+                                  </div>
+                                </div>
+
+                                <div className="space-y-3 px-4 py-3">
+                                  {postmortemStatus.state === "error" ? (
+                                    <div className="text-xs text-red-700">{postmortemStatus.message}</div>
+                                  ) : null}
+
+                                  {postmortemStatus.state === "generating" && postmortemStreamText ? (
+                                    <pre className="max-h-48 overflow-y-auto whitespace-pre-wrap rounded-xl bg-slate-50 p-3 text-xs text-slate-800">
+                                      {postmortemStreamText}
+                                    </pre>
+                                  ) : null}
+
+                                  <div>
+                                    <label className="text-xs font-medium text-slate-600">Title</label>
+                                    <input
+                                      className="mt-1 w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm"
+                                      value={postmortemForm.title}
+                                      onChange={(e) => setPostmortemForm((p) => ({ ...p, title: e.target.value }))}
+                                      disabled={!canWrite}
+                                    />
+                                  </div>
+                                  <div>
+                                    <label className="text-xs font-medium text-slate-600">Summary</label>
+                                    <textarea
+                                      className="mt-1 h-20 w-full resize-none rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm"
+                                      value={postmortemForm.summary}
+                                      onChange={(e) => setPostmortemForm((p) => ({ ...p, summary: e.target.value }))}
+                                      disabled={!canWrite}
+                                    />
+                                  </div>
+                                  <div>
+                                    <label className="text-xs font-medium text-slate-600">Timeline (one per line: timestamp | event)</label>
+                                    <textarea
+                                      className="mt-1 h-32 w-full resize-none rounded-xl border border-slate-200 bg-white px-3 py-2 font-mono text-xs"
+                                      value={postmortemForm.timeline}
+                                      onChange={(e) => setPostmortemForm((p) => ({ ...p, timeline: e.target.value }))}
+                                      disabled={!canWrite}
+                                    />
+                                  </div>
+                                  <div>
+                                    <label className="text-xs font-medium text-slate-600">Impact</label>
+                                    <textarea
+                                      className="mt-1 h-20 w-full resize-none rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm"
+                                      value={postmortemForm.impact}
+                                      onChange={(e) => setPostmortemForm((p) => ({ ...p, impact: e.target.value }))}
+                                      disabled={!canWrite}
+                                    />
+                                  </div>
+                                  <div>
+                                    <label className="text-xs font-medium text-slate-600">Root cause</label>
+                                    <textarea
+                                      className="mt-1 h-20 w-full resize-none rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm"
+                                      value={postmortemForm.rootCause}
+                                      onChange={(e) => setPostmortemForm((p) => ({ ...p, rootCause: e.target.value }))}
+                                      disabled={!canWrite}
+                                    />
+                                  </div>
+                                  <div>
+                                    <label className="text-xs font-medium text-slate-600">Contributing factors (one per line)</label>
+                                    <textarea
+                                      className="mt-1 h-20 w-full resize-none rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm"
+                                      value={postmortemForm.factors}
+                                      onChange={(e) => setPostmortemForm((p) => ({ ...p, factors: e.target.value }))}
+                                      disabled={!canWrite}
+                                    />
+                                  </div>
+                                  <div>
+                                    <label className="text-xs font-medium text-slate-600">Action items (one per line: action | owner | due YYYY-MM-DD)</label>
+                                    <textarea
+                                      className="mt-1 h-24 w-full resize-none rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm"
+                                      value={postmortemForm.actions}
+                                      onChange={(e) => setPostmortemForm((p) => ({ ...p, actions: e.target.value }))}
+                                      disabled={!canWrite}
+                                    />
+                                  </div>
+
+                                  <div className="flex flex-wrap items-center justify-between gap-2">
+                                    <div className="text-[11px] text-slate-500">
+                                      {postmortem?.approved_at
+                                        ? `Approved ${formatDateTime(postmortem.approved_at)} · indexed into RAG memory`
+                                        : "Approval indexes the postmortem into RAG memory."}
+                                      {postmortemForm.references.length
+                                        ? ` · Evidence used: ${postmortemForm.references.join(", ")}`
+                                        : ""}
+                                    </div>
+                                    <div className="flex flex-wrap items-center gap-2">
+                                      {isAdmin && postmortem ? (
+                                        <button
+                                          type="button"
+                                          className="rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm font-medium text-red-700 shadow-sm hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-60"
+                                          disabled={postmortemStatus.state === "saving"}
+                                          onClick={() => void deletePostmortem(selectedTicket)}
+                                        >
+                                          Delete
+                                        </button>
+                                      ) : null}
+                                      <button
+                                        type="button"
+                                        className="rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm font-medium text-slate-900 shadow-sm hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-60"
+                                        disabled={
+                                          !canWrite ||
+                                          postmortemStatus.state === "generating" ||
+                                          postmortemStatus.state === "saving"
+                                        }
+                                        onClick={() => void generatePostmortem(selectedTicket.id)}
+                                      >
+                                        {postmortemStatus.state === "generating" ? "Drafting…" : "Draft with AI"}
+                                      </button>
+                                      <button
+                                        type="button"
+                                        className="rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm font-medium text-slate-900 shadow-sm hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-60"
+                                        disabled={
+                                          !canWrite ||
+                                          !postmortemForm.title.trim() ||
+                                          postmortemStatus.state === "generating" ||
+                                          postmortemStatus.state === "saving"
+                                        }
+                                        onClick={() => void savePostmortem(selectedTicket.id)}
+                                      >
+                                        Save
+                                      </button>
+                                      {isAdmin && postmortem?.status === "Draft" ? (
+                                        <button
+                                          type="button"
+                                          className="rounded-xl bg-slate-900 px-3 py-2 text-sm font-medium text-white shadow-sm hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-60"
+                                          disabled={postmortemStatus.state === "saving"}
+                                          onClick={() => void approvePostmortem(selectedTicket.id)}
+                                        >
+                                          Approve
+                                        </button>
+                                      ) : null}
+                                    </div>
+                                  </div>
+                                </div>
+                              </div>
+                            ) : null}
+
+                            <div className="rounded-2xl border border-slate-200">
+                              <div className="flex items-center justify-between border-b border-slate-200 px-4 py-3">
+                                <div className="text-xs font-semibold text-slate-900">Links</div>
+                                <div className="text-xs text-slate-500">
+                                  {linksStatus.state === "loading"
+                                    ? "Loading…"
+                                    : linksStatus.state === "saving"
+                                      ? "Saving…"
+                                      : `${ticketLinks.length} links`}
+                                </div>
                               </div>
+
+                              {problemRollup ? (
+                                <div className="border-b border-slate-200 bg-slate-50 px-4 py-3 text-xs text-slate-700">
+                                  <div className="font-semibold text-slate-900">
+                                    {problemRollup.incidents} linked incidents · {problemRollup.open} open
+                                  </div>
+                                  {problemRollup.incidents > 0 ? (
+                                    <div className="mt-1 space-y-1">
+                                      <div>
+                                        {Object.entries(problemRollup.by_priority)
+                                          .sort(([a], [b]) => a.localeCompare(b))
+                                          .map(([p, n]) => `${p}: ${n}`)
+                                          .join(" · ")}
+                                        {" — "}
+                                        {Object.entries(problemRollup.by_status)
+                                          .map(([st, n]) => `${st}: ${n}`)
+                                          .join(" · ")}
+                                      </div>
+                                      {problemRollup.services.length || problemRollup.sites.length ? (
+                                        <div>
+                                          {[...problemRollup.services, ...problemRollup.sites].join(", ")}
+                                        </div>
+                                      ) : null}
+                                      {problemRollup.first_reported_at && problemRollup.last_reported_at ? (
+                                        <div className="text-slate-500">
+                                          First {formatCompactDate(problemRollup.first_reported_at)} · latest{" "}
+                                          {formatCompactDate(problemRollup.last_reported_at)}
+                                        </div>
+                                      ) : null}
+                                    </div>
+                                  ) : null}
+                                </div>
+                              ) : null}
+
+                              {linksStatus.state === "error" ? (
+                                <div className="border-b border-slate-200 px-4 py-3 text-sm text-slate-600">
+                                  {linksStatus.message}
+                                </div>
+                              ) : null}
+
+                              {ticketLinks.length > 0 ? (
+                                <ul className="divide-y divide-slate-200">
+                                  {ticketLinks.map((l) => (
+                                    <li key={l.id} className="flex items-center justify-between gap-3 px-4 py-2">
+                                      <button
+                                        type="button"
+                                        className="min-w-0 text-left text-sm text-slate-900 hover:underline"
+                                        onClick={() => setSelectedTicketId(l.ticket.id)}
+                                      >
+                                        <span className="text-slate-500">{LINK_LABELS[l.relation] ?? l.relation}</span>{" "}
+                                        {l.ticket.title}
+                                      </button>
+                                      <div className="flex shrink-0 items-center gap-2">
+                                        <Badge tone="neutral">{l.ticket.status}</Badge>
+                                        <button
+                                          type="button"
+                                          className="text-xs text-slate-500 hover:text-slate-900"
+                                          onClick={() => void removeTicketLink(selectedTicket.id, l)}
+                                          disabled={!canWrite || linksStatus.state === "saving"}
+                                        >
+                                          Remove
+                                        </button>
+                                      </div>
+                                    </li>
+                                  ))}
+                                </ul>
+                              ) : null}
+
+                              {canWrite ? (
+                                <div className="flex flex-wrap items-center gap-2 border-t border-slate-200 px-4 py-3">
+                                  <select
+                                    className="rounded-xl border border-slate-200 bg-white px-2 py-1.5 text-sm"
+                                    value={linkForm.type}
+                                    onChange={(e) =>
+                                      setLinkForm((p) => ({ ...p, type: e.target.value as TicketLinkType }))
+                                    }
+                                  >
+                                    {LINK_TYPE_OPTIONS.map((t) => (
+                                      <option key={t} value={t}>
+                                        {LINK_LABELS[t]}
+                                      </option>
+                                    ))}
+                                  </select>
+                                  <select
+                                    className="min-w-0 flex-1 rounded-xl border border-slate-200 bg-white px-2 py-1.5 text-sm"
+                                    value={linkForm.ticketId}
+                                    onChange={(e) => setLinkForm((p) => ({ ...p, ticketId: e.target.value }))}
+                                  >
+                                    <option value="">Choose a ticket…</option>
+                                    {tickets
+                                      .filter((t) => t.id !== selectedTicket.id)
+                                      .map((t) => (
+                                        <option key={t.id} value={t.id}>
+                                          {t.external_id ? `${t.external_id} · ` : ""}
+                                          {t.title}
+                                        </option>
+                                      ))}
+                                  </select>
+                                  <button
+                                    type="button"
+                                    className="rounded-xl border border-slate-200 bg-white px-3 py-1.5 text-sm font-medium text-slate-900 shadow-sm hover:bg-slate-50"
+                                    onClick={() => void addTicketLink(selectedTicket.id)}
+                                    disabled={!linkForm.ticketId || linksStatus.state === "saving"}
+                                  >
+                                    Link
+                                  </button>
+                                  <button
+                                    type="button"
+                                    className="rounded-xl border border-slate-200 bg-white px-3 py-1.5 text-sm font-medium text-slate-900 shadow-sm hover:bg-slate-50"
+                                    onClick={() => void mergeIntoTicket(selectedTicket.id)}
+                                    disabled={!linkForm.ticketId || linksStatus.state === "saving"}
+                                    title="Move its history here and close it as a duplicate"
+                                  >
+                                    Merge into this
+                                  </button>
+                                </div>
+                              ) : null}
                             </div>
 
                             <div className="rounded-2xl border border-slate-200">
@@ -2483,6 +6182,43 @@ export default function Home() {
                                 </div>
                               </div>
 
+                              {canWrite ? (
+                                <div className="space-y-2 border-b border-slate-200 px-4 py-3">
+                                  <textarea
+                                    className="h-20 w-full resize-y rounded-xl border border-slate-200 px-3 py-2 text-sm"
+                                    placeholder="Add a comment or work note (markdown supported)…"
+                                    value={commentForm.body}
+                                    onChange={(e) => setCommentForm((p) => ({ ...p, body: e.target.value }))}
+                                  />
+                                  <div className="flex flex-wrap items-center justify-between gap-2">
+                                    <div className="flex items-center gap-3 text-xs text-slate-600">
+                                      <select
+                                        className="rounded-xl border border-slate-200 bg-white px-2 py-1.5 text-sm"
+                                        value={commentForm.visibility}
+                                        onChange={(e) =>
+                                          setCommentForm((p) => ({
+                                            ...p,
+                                            visibility: e.target.value as CommentVisibility,
+                                          }))
+                                        }
+                                      >
+                                        <option value="internal">Internal work note</option>
+                                        <option value="public">Public comment</option>
+                                      </select>
+                                      {commentStatus.state === "error" ? commentStatus.message : null}
+                                    </div>
+                                    <button
+                                      type="button"
+                                      className="rounded-xl bg-slate-900 px-3 py-1.5 text-sm font-medium text-white shadow-sm hover:bg-slate-800"
+                                      onClick={() => void addComment(selectedTicket.id)}
+                                      disabled={!commentForm.body.trim() || commentStatus.state === "saving"}
+                                    >
+                                      {commentStatus.state === "saving" ? "Saving…" : "Comment"}
+                                    </button>
+                                  </div>
+                                </div>
+                              ) : null}
+
                               {eventsStatus.state === "error" ? (
                                 <div className="p-4 text-sm text-slate-600">
                                   {eventsStatus.message}
@@ -2508,6 +6244,116 @@ export default function Home() {
                                               </span>
                                             ) : null}
                                           </div>
+                                          {ev.event_type === "linked" ? (
+                                            <div className="mt-1 text-xs text-slate-600">
+                                              {describeLink(ev.payload)}
+                                            </div>
+                                          ) : null}
+                                          {ev.event_type === "sla_breached" ? (
+                                            <div className="mt-1 text-xs text-red-700">
+                                              {describeSlaBreach(ev.payload)}
+                                            </div>
+                                          ) : null}
+                                          {ev.event_type === "approved" || ev.event_type === "rejected" ? (
+                                            <div
+                                              className={cn(
+                                                "mt-1 text-xs",
+                                                ev.event_type === "approved" ? "text-slate-600" : "text-red-700"
+                                              )}
+                                            >
+                                              {describeApproval(ev.event_type, ev.payload)}
+                                            </div>
+                                          ) : null}
+                                          {ev.event_type === "assigned" ? (
+                                            <div className="mt-1 text-xs text-slate-600">
+                                              {describeAssignment(ev.payload)}
+                                            </div>
+                                          ) : null}
+                                          {ev.event_type === "commented"
+                                            ? (() => {
+                                                const payload = ev.payload as any;
+                                                if (payload?.action !== "created") {
+                                                  return (
+                                                    <div className="mt-1 text-xs text-slate-600">
+                                                      Comment {payload?.action ?? "updated"}
+                                                    </div>
+                                                  );
+                                                }
+                                                const comment = ticketComments.find((c) => c.id === payload.comment_id);
+                                                if (!comment) {
+                                                  return <div className="mt-1 text-xs text-slate-500">Comment deleted</div>;
+                                                }
+                                                const editing = editingComment?.id === comment.id;
+                                                const mayModify =
+                                                  canWrite && (isAdmin || (!!me?.userId && comment.author_id === me.userId));
+                                                return (
+                                                  <div className="mt-2 space-y-2">
+                                                    <div className="flex flex-wrap items-center gap-2 text-xs text-slate-500">
+                                                      <span>{comment.author_name ? `@${comment.author_name}` : "Unknown"}</span>
+                                                      {comment.visibility === "internal" ? (
+                                                        <Badge tone="warning">Internal</Badge>
+                                                      ) : (
+                                                        <Badge tone="info">Public</Badge>
+                                                      )}
+                                                      {comment.edited_at ? <span>edited</span> : null}
+                                                      {mayModify && !editing ? (
+                                                        <>
+                                                          <button
+                                                            type="button"
+                                                            className="hover:text-slate-900"
+                                                            onClick={() => setEditingComment({ id: comment.id, body: comment.body })}
+                                                          >
+                                                            Edit
+                                                          </button>
+                                                          <button
+                                                            type="button"
+                                                            className="hover:text-slate-900"
+                                                            onClick={() => void deleteComment(selectedTicket.id, comment.id)}
+                                                          >
+                                                            Delete
+                                                          </button>
+                                                        </>
+                                                      ) : null}
+                                                    </div>
+                                                    {editing ? (
+                                                      <div className="space-y-2">
+                                                        <textarea
+                                                          className="h-24 w-full resize-y rounded-xl border border-slate-200 px-3 py-2 text-sm"
+                                                          value={editingComment.body}
+                                                          onChange={(e) =>
+                                                            setEditingComment((p) => (p ? { ...p, body: e.target.value } : p))
+                                                          }
+                                                        />
+                                                        <div className="flex gap-2">
+                                                          <button
+                                                            type="button"
+                                                            className="rounded-xl bg-slate-900 px-3 py-1.5 text-xs font-medium text-white hover:bg-slate-800"
+                                                            onClick={() => void saveCommentEdit(selectedTicket.id)}
+                                                            disabled={!editingComment.body.trim() || commentStatus.state === "saving"}
+                                                          >
+                                                            Save
+                                                          </button>
+                                                          <button
+                                                            type="button"
+                                                            className="rounded-xl border border-slate-200 bg-white px-3 py-1.5 text-xs font-medium text-slate-900 hover:bg-slate-50"
+                                                            onClick={() => setEditingComment(null)}
+                                                          >
+                                                            Cancel
+                                                          </button>
+                                                        </div>
+                                                      </div>
+                                                    ) : (
+                                                      <Markdown source={comment.body} />
+                                                    )}
+                                                  </div>
+                                                );
+                                              })()
+                                            : null}
+                                          {ev.event_type === "triage_suggested" ? (
+                                            <div className="mt-1 text-xs text-slate-600">
+                                              {describeTriage(ev.payload as unknown as TriageRecord)}
+                                            </div>
+                                          ) : null}
                                           <div className="mt-1 text-xs text-slate-500">
                                             {formatCompactDate(ev.created_at)}
                                           </div>
@@ -2778,15 +6624,16 @@ export default function Home() {
                       />
                     ) : (
                       <div className="rounded-2xl border border-slate-200 bg-white">
-                        <div className="grid grid-cols-[1fr_140px_140px] gap-3 border-b border-slate-200 px-4 py-3 text-xs font-semibold text-slate-600">
+                        <div className="grid grid-cols-[1fr_140px_140px_160px] gap-3 border-b border-slate-200 px-4 py-3 text-xs font-semibold text-slate-600">
                           <div>Title</div>
                           <div>Version</div>
                           <div>Updated</div>
+                          <div className="text-right">Actions</div>
                         </div>
                         <ul className="divide-y divide-slate-200">
                           {visibleSOPs.map((s) => (
                             <li key={s.id} className="px-4 py-3">
-                              <div className="grid grid-cols-[1fr_140px_140px] items-center gap-3">
+                              <div className="grid grid-cols-[1fr_140px_140px_160px] items-center gap-3">
                                 <div className="min-w-0">
                                   <div className="truncate text-sm font-medium text-slate-900">
                                     {s.title}
@@ -2808,6 +6655,26 @@ export default function Home() {
                                 <div className="text-sm text-slate-700">
                                   {formatCompactDate(s.updated_at)}
                                 </div>
+                                <div className="flex justify-end gap-2">
+                                  {isAdmin && s.status !== "Approved" ? (
+                                    <button
+                                      type="button"
+                                      className="rounded-lg border border-slate-200 bg-white px-2 py-1 text-xs font-medium text-slate-900 shadow-sm hover:bg-slate-50"
+                                      onClick={() => approveSop(s.id)}
+                                    >
+                                      Approve
+                                    </button>
+                                  ) : null}
+                                  {isAdmin ? (
+                                    <button
+                                      type="button"
+                                      className="rounded-lg border border-rose-200 bg-white px-2 py-1 text-xs font-medium text-rose-700 shadow-sm hover:bg-rose-50"
+                                      onClick={() => deleteSop(s.id)}
+                                    >
+                                      Delete
+                                    </button>
+                                  ) : null}
+                                </div>
                               </div>
                             </li>
                           ))}
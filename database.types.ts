@@ -81,8 +81,11 @@ export type Database = {
           content: string
           created_at: string
           embedding: string
+          embedding_model: string
+          embedding_provider: string
           id: string
           metadata: Json
+          search_tsv: unknown
           source_id: string
           source_type: string
           title: string
@@ -93,6 +96,8 @@ export type Database = {
           content: string
           created_at?: string
           embedding: string
+          embedding_model?: string
+          embedding_provider?: string
           id?: string
           metadata?: Json
           source_id: string
@@ -105,6 +110,8 @@ export type Database = {
           content?: string
           created_at?: string
           embedding?: string
+          embedding_model?: string
+          embedding_provider?: string
           id?: string
           metadata?: Json
           source_id?: string
@@ -162,6 +169,7 @@ export type Database = {
           created_at: string
           created_by: string | null
           description: string
+          duplicate_of: string | null
           external_id: string | null
           id: string
           priority: string
@@ -170,6 +178,7 @@ export type Database = {
           service: string | null
           site: string | null
           status: string
+          team_id: string | null
           title: string
           topics: string[]
           type: string
@@ -181,6 +190,7 @@ export type Database = {
           created_at?: string
           created_by?: string | null
           description?: string
+          duplicate_of?: string | null
           external_id?: string | null
           id?: string
           priority: string
@@ -189,6 +199,7 @@ export type Database = {
           service?: string | null
           site?: string | null
           status: string
+          team_id?: string | null
           title: string
           topics?: string[]
           type: string
@@ -200,6 +211,7 @@ export type Database = {
           created_at?: string
           created_by?: string | null
           description?: string
+          duplicate_of?: string | null
           external_id?: string | null
           id?: string
           priority?: string
@@ -208,12 +220,28 @@ export type Database = {
           service?: string | null
           site?: string | null
           status?: string
+          team_id?: string | null
           title?: string
           topics?: string[]
           type?: string
           updated_at?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "tickets_duplicate_of_fkey"
+            columns: ["duplicate_of"]
+            isOneToOne: false
+            referencedRelation: "tickets"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tickets_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       user_roles: {
         Row: {
@@ -306,6 +334,8 @@ export type Database = {
           rating: number
           feedback: string | null
           model_info: Json | null
+          prompt_template_id: string | null
+          prompt_template_version: number | null
           actor_id: string | null
           created_at: string
         }
@@ -316,6 +346,8 @@ export type Database = {
           rating: number
           feedback?: string | null
           model_info?: Json | null
+          prompt_template_id?: string | null
+          prompt_template_version?: number | null
           actor_id?: string | null
           created_at?: string
         }
@@ -326,6 +358,8 @@ export type Database = {
           rating?: number
           feedback?: string | null
           model_info?: Json | null
+          prompt_template_id?: string | null
+          prompt_template_version?: number | null
           actor_id?: string | null
           created_at?: string
         }
@@ -361,26 +395,885 @@ export type Database = {
         }
         Relationships: []
       }
+      rag_reindex_jobs: {
+        Row: {
+          id: string
+          status: string
+          source_types: string[]
+          embedding_provider: string
+          embedding_model: string
+          items_total: number
+          items_processed: number
+          items_failed: number
+          chunks_written: number
+          failures: Json
+          error_message: string | null
+          created_by: string | null
+          started_at: string
+          finished_at: string | null
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          status?: string
+          source_types?: string[]
+          embedding_provider: string
+          embedding_model: string
+          items_total?: number
+          items_processed?: number
+          items_failed?: number
+          chunks_written?: number
+          failures?: Json
+          error_message?: string | null
+          created_by?: string | null
+          started_at?: string
+          finished_at?: string | null
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          status?: string
+          source_types?: string[]
+          embedding_provider?: string
+          embedding_model?: string
+          items_total?: number
+          items_processed?: number
+          items_failed?: number
+          chunks_written?: number
+          failures?: Json
+          error_message?: string | null
+          created_by?: string | null
+          started_at?: string
+          finished_at?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      rag_document_curation: {
+        Row: {
+          blacklisted: boolean
+          note: string | null
+          pinned: boolean
+          source_id: string
+          source_type: string
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          blacklisted?: boolean
+          note?: string | null
+          pinned?: boolean
+          source_id: string
+          source_type: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          blacklisted?: boolean
+          note?: string | null
+          pinned?: boolean
+          source_id?: string
+          source_type?: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
+      ai_prompt_templates: {
+        Row: {
+          id: string
+          key: string
+          version: number
+          system_template: string
+          user_template: string
+          notes: string | null
+          is_active: boolean
+          created_by: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          key: string
+          version: number
+          system_template: string
+          user_template: string
+          notes?: string | null
+          is_active?: boolean
+          created_by?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          key?: string
+          version?: number
+          system_template?: string
+          user_template?: string
+          notes?: string | null
+          is_active?: boolean
+          created_by?: string | null
+          created_at?: string
+        }
+        Relationships: []
+      }
+      ai_eval_runs: {
+        Row: {
+          id: string
+          name: string
+          status: string
+          config: Json
+          ticket_ids: string[]
+          expected_source_ids: Json
+          cases_total: number
+          cases_processed: number
+          cases_failed: number
+          summary: Json | null
+          error_message: string | null
+          created_by: string | null
+          started_at: string
+          finished_at: string | null
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          status?: string
+          config?: Json
+          ticket_ids?: string[]
+          expected_source_ids?: Json
+          cases_total?: number
+          cases_processed?: number
+          cases_failed?: number
+          summary?: Json | null
+          error_message?: string | null
+          created_by?: string | null
+          started_at?: string
+          finished_at?: string | null
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          status?: string
+          config?: Json
+          ticket_ids?: string[]
+          expected_source_ids?: Json
+          cases_total?: number
+          cases_processed?: number
+          cases_failed?: number
+          summary?: Json | null
+          error_message?: string | null
+          created_by?: string | null
+          started_at?: string
+          finished_at?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      ai_eval_results: {
+        Row: {
+          id: string
+          run_id: string
+          ticket_id: string
+          json_outcome: string | null
+          json_valid: boolean
+          citation_coverage: number | null
+          resolution_overlap: number | null
+          retrieval_recall: number | null
+          retrieved_source_ids: string[]
+          suggestion: Json | null
+          model_info: Json | null
+          prompt: Json | null
+          latency_ms: number | null
+          error: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          run_id: string
+          ticket_id: string
+          json_outcome?: string | null
+          json_valid?: boolean
+          citation_coverage?: number | null
+          resolution_overlap?: number | null
+          retrieval_recall?: number | null
+          retrieved_source_ids?: string[]
+          suggestion?: Json | null
+          model_info?: Json | null
+          prompt?: Json | null
+          latency_ms?: number | null
+          error?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          run_id?: string
+          ticket_id?: string
+          json_outcome?: string | null
+          json_valid?: boolean
+          citation_coverage?: number | null
+          resolution_overlap?: number | null
+          retrieval_recall?: number | null
+          retrieved_source_ids?: string[]
+          suggestion?: Json | null
+          model_info?: Json | null
+          prompt?: Json | null
+          latency_ms?: number | null
+          error?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ai_eval_results_run_id_fkey"
+            columns: ["run_id"]
+            isOneToOne: false
+            referencedRelation: "ai_eval_runs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ticket_links: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          from_ticket_id: string
+          id: string
+          link_type: string
+          to_ticket_id: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          from_ticket_id: string
+          id?: string
+          link_type: string
+          to_ticket_id: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          from_ticket_id?: string
+          id?: string
+          link_type?: string
+          to_ticket_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ticket_links_from_ticket_id_fkey"
+            columns: ["from_ticket_id"]
+            isOneToOne: false
+            referencedRelation: "tickets"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ticket_links_to_ticket_id_fkey"
+            columns: ["to_ticket_id"]
+            isOneToOne: false
+            referencedRelation: "tickets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ticket_comments: {
+        Row: {
+          author_id: string | null
+          author_name: string | null
+          body: string
+          created_at: string
+          edited_at: string | null
+          id: string
+          ticket_id: string
+          updated_at: string
+          visibility: string
+        }
+        Insert: {
+          author_id?: string | null
+          author_name?: string | null
+          body: string
+          created_at?: string
+          edited_at?: string | null
+          id?: string
+          ticket_id: string
+          updated_at?: string
+          visibility?: string
+        }
+        Update: {
+          author_id?: string | null
+          author_name?: string | null
+          body?: string
+          created_at?: string
+          edited_at?: string | null
+          id?: string
+          ticket_id?: string
+          updated_at?: string
+          visibility?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ticket_comments_ticket_id_fkey"
+            columns: ["ticket_id"]
+            isOneToOne: false
+            referencedRelation: "tickets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      teams: {
+        Row: {
+          created_at: string
+          description: string
+          id: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string
+          id?: string
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          description?: string
+          id?: string
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      team_members: {
+        Row: {
+          created_at: string
+          team_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          team_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          team_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "team_members_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "team_members_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "local_users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      business_calendars: {
+        Row: {
+          created_at: string
+          holidays: string[]
+          hours: Json
+          id: string
+          is_default: boolean
+          name: string
+          sites: string[]
+          timezone: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          holidays?: string[]
+          hours: Json
+          id?: string
+          is_default?: boolean
+          name: string
+          sites?: string[]
+          timezone?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          holidays?: string[]
+          hours?: Json
+          id?: string
+          is_default?: boolean
+          name?: string
+          sites?: string[]
+          timezone?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      sla_policies: {
+        Row: {
+          active: boolean
+          business_hours: boolean
+          created_at: string
+          id: string
+          name: string
+          pause_statuses: string[]
+          priority: string | null
+          resolution_minutes: number
+          response_minutes: number
+          ticket_type: string | null
+          updated_at: string
+        }
+        Insert: {
+          active?: boolean
+          business_hours?: boolean
+          created_at?: string
+          id?: string
+          name: string
+          pause_statuses?: string[]
+          priority?: string | null
+          resolution_minutes: number
+          response_minutes: number
+          ticket_type?: string | null
+          updated_at?: string
+        }
+        Update: {
+          active?: boolean
+          business_hours?: boolean
+          created_at?: string
+          id?: string
+          name?: string
+          pause_statuses?: string[]
+          priority?: string | null
+          resolution_minutes?: number
+          response_minutes?: number
+          ticket_type?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      ticket_slas: {
+        Row: {
+          business_hours: boolean
+          calendar_id: string | null
+          first_response_at: string | null
+          pause_statuses: string[]
+          paused_at: string | null
+          paused_minutes: number
+          policy_id: string | null
+          resolution_breached_at: string | null
+          resolution_due_at: string
+          resolution_minutes: number
+          response_breached_at: string | null
+          response_due_at: string
+          response_minutes: number
+          started_at: string
+          ticket_id: string
+          updated_at: string
+        }
+        Insert: {
+          business_hours: boolean
+          calendar_id?: string | null
+          first_response_at?: string | null
+          pause_statuses?: string[]
+          paused_at?: string | null
+          paused_minutes?: number
+          policy_id?: string | null
+          resolution_breached_at?: string | null
+          resolution_due_at: string
+          resolution_minutes: number
+          response_breached_at?: string | null
+          response_due_at: string
+          response_minutes: number
+          started_at: string
+          ticket_id: string
+          updated_at?: string
+        }
+        Update: {
+          business_hours?: boolean
+          calendar_id?: string | null
+          first_response_at?: string | null
+          pause_statuses?: string[]
+          paused_at?: string | null
+          paused_minutes?: number
+          policy_id?: string | null
+          resolution_breached_at?: string | null
+          resolution_due_at?: string
+          resolution_minutes?: number
+          response_breached_at?: string | null
+          response_due_at?: string
+          response_minutes?: number
+          started_at?: string
+          ticket_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ticket_slas_calendar_id_fkey"
+            columns: ["calendar_id"]
+            isOneToOne: false
+            referencedRelation: "business_calendars"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ticket_slas_policy_id_fkey"
+            columns: ["policy_id"]
+            isOneToOne: false
+            referencedRelation: "sla_policies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ticket_slas_ticket_id_fkey"
+            columns: ["ticket_id"]
+            isOneToOne: true
+            referencedRelation: "tickets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ticket_workflows: {
+        Row: {
+          ticket_type: string
+          transitions: Json
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          ticket_type: string
+          transitions: Json
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          ticket_type?: string
+          transitions?: Json
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ticket_workflows_updated_by_fkey"
+            columns: ["updated_by"]
+            isOneToOne: false
+            referencedRelation: "local_users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      change_requests: {
+        Row: {
+          affected_assets: string[]
+          approval_status: string
+          backout_plan: string
+          created_at: string
+          decided_at: string | null
+          quorum: number
+          risk: string
+          submitted_at: string | null
+          ticket_id: string
+          updated_at: string
+          window_end: string | null
+          window_start: string | null
+        }
+        Insert: {
+          affected_assets?: string[]
+          approval_status?: string
+          backout_plan?: string
+          created_at?: string
+          decided_at?: string | null
+          quorum?: number
+          risk?: string
+          submitted_at?: string | null
+          ticket_id: string
+          updated_at?: string
+          window_end?: string | null
+          window_start?: string | null
+        }
+        Update: {
+          affected_assets?: string[]
+          approval_status?: string
+          backout_plan?: string
+          created_at?: string
+          decided_at?: string | null
+          quorum?: number
+          risk?: string
+          submitted_at?: string | null
+          ticket_id?: string
+          updated_at?: string
+          window_end?: string | null
+          window_start?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "change_requests_ticket_id_fkey"
+            columns: ["ticket_id"]
+            isOneToOne: true
+            referencedRelation: "tickets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      change_approvers: {
+        Row: {
+          approver_id: string
+          comment: string
+          created_at: string
+          decided_at: string | null
+          decision: string | null
+          ticket_id: string
+        }
+        Insert: {
+          approver_id: string
+          comment?: string
+          created_at?: string
+          decided_at?: string | null
+          decision?: string | null
+          ticket_id: string
+        }
+        Update: {
+          approver_id?: string
+          comment?: string
+          created_at?: string
+          decided_at?: string | null
+          decision?: string | null
+          ticket_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "change_approvers_approver_id_fkey"
+            columns: ["approver_id"]
+            isOneToOne: false
+            referencedRelation: "local_users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "change_approvers_ticket_id_fkey"
+            columns: ["ticket_id"]
+            isOneToOne: false
+            referencedRelation: "change_requests"
+            referencedColumns: ["ticket_id"]
+          },
+        ]
+      }
+      problem_records: {
+        Row: {
+          created_at: string
+          known_error_status: string
+          permanent_fix: string
+          published_at: string | null
+          published_by: string | null
+          root_cause: string
+          ticket_id: string
+          updated_at: string
+          workaround: string
+        }
+        Insert: {
+          created_at?: string
+          known_error_status?: string
+          permanent_fix?: string
+          published_at?: string | null
+          published_by?: string | null
+          root_cause?: string
+          ticket_id: string
+          updated_at?: string
+          workaround?: string
+        }
+        Update: {
+          created_at?: string
+          known_error_status?: string
+          permanent_fix?: string
+          published_at?: string | null
+          published_by?: string | null
+          root_cause?: string
+          ticket_id?: string
+          updated_at?: string
+          workaround?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "problem_records_published_by_fkey"
+            columns: ["published_by"]
+            isOneToOne: false
+            referencedRelation: "local_users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "problem_records_ticket_id_fkey"
+            columns: ["ticket_id"]
+            isOneToOne: true
+            referencedRelation: "tickets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      postmortems: {
+        Row: {
+          action_items: Json
+          approved_at: string | null
+          approved_by: string | null
+          contributing_factors: string[]
+          created_at: string
+          created_by: string | null
+          impact: string
+          references: string[]
+          root_cause: string
+          status: string
+          summary: string
+          ticket_id: string
+          timeline: Json
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          action_items?: Json
+          approved_at?: string | null
+          approved_by?: string | null
+          contributing_factors?: string[]
+          created_at?: string
+          created_by?: string | null
+          impact?: string
+          references?: string[]
+          root_cause?: string
+          status?: string
+          summary?: string
+          ticket_id: string
+          timeline?: Json
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          action_items?: Json
+          approved_at?: string | null
+          approved_by?: string | null
+          contributing_factors?: string[]
+          created_at?: string
+          created_by?: string | null
+          impact?: string
+          references?: string[]
+          root_cause?: string
+          status?: string
+          summary?: string
+          ticket_id?: string
+          timeline?: Json
+          title?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "postmortems_approved_by_fkey"
+            columns: ["approved_by"]
+            isOneToOne: false
+            referencedRelation: "local_users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "postmortems_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "local_users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "postmortems_ticket_id_fkey"
+            columns: ["ticket_id"]
+            isOneToOne: true
+            referencedRelation: "tickets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
-      [_ in never]: never
+      rag_documents: {
+        Row: {
+          blacklisted: boolean
+          chunk_count: number
+          content_chars: number
+          created_at: string
+          embedding_model: string
+          embedding_provider: string
+          pinned: boolean
+          source_id: string
+          source_type: string
+          title: string
+          updated_at: string
+        }
+        Relationships: []
+      }
     }
     Functions: {
+      activate_prompt_template: {
+        Args: {
+          p_id: string
+        }
+        Returns: undefined
+      }
+      merge_tickets: {
+        Args: {
+          p_actor?: string
+          p_sources: string[]
+          p_target: string
+        }
+        Returns: undefined
+      }
+      rag_metadata_matches: {
+        Args: {
+          filters: Json
+          metadata: Json
+        }
+        Returns: boolean
+      }
+      rag_replace_document: {
+        Args: {
+          p_rows: Json
+          p_source_id: string
+          p_source_type: string
+        }
+        Returns: number
+      }
       rag_search: {
         Args: {
+          filter_embedding_model?: string
+          filter_embedding_provider?: string
+          filter_metadata?: Json
           filter_source_type?: string
           match_count?: number
-          query_embedding: string
+          query_embedding?: string
+          query_text?: string
+          rrf_k?: number
+          search_mode?: string
         }
         Returns: {
           chunk_index: number
           content: string
+          embedding_model: string
+          embedding_provider: string
           id: string
+          lexical_rank: number | null
+          lexical_score: number | null
           metadata: Json
+          pinned: boolean
           score: number
           source_id: string
           source_type: string
           title: string
+          vector_rank: number | null
+          vector_score: number | null
+        }[]
+      }
+      search_open_tickets: {
+        Args: {
+          match_count?: number
+          query_text: string
+        }
+        Returns: {
+          description: string
+          external_id: string | null
+          id: string
+          lexical_score: number
+          priority: string
+          status: string
+          title: string
         }[]
       }
     }
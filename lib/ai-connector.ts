@@ -0,0 +1,264 @@
+import { metrics } from "@/lib/metrics";
+
+export const LOCAL_AI_ENDPOINT = process.env.LOCAL_AI_ENDPOINT ?? "http://localhost:8080";
+export const LOCAL_AI_MODEL = process.env.LOCAL_AI_MODEL ?? "gpt-4";
+
+export type ChatCompletionArgs = {
+  system: string;
+  user: string;
+  temperature?: number;
+  maxTokens?: number;
+  json?: boolean;
+};
+
+export type LocalAIConnectorOptions = {
+  maxRetries?: number; // per request; lower it when a router can fail over instead
+};
+
+export function parseJsonCompletion(content: string): any {
+  try {
+    return JSON.parse(content);
+  } catch {
+    // Small local models often wrap the object in prose or ``` fences.
+    const start = content.indexOf("{");
+    const end = content.lastIndexOf("}");
+    if (start !== -1 && end > start) {
+      try {
+        return JSON.parse(content.slice(start, end + 1));
+      } catch {
+        // fall through
+      }
+    }
+    return { raw: content };
+  }
+}
+
+/**
+ * LocalAIConnector provides a standardized, OpenAI-compatible interface
+ * for interacting with local inference servers like LocalAI.
+ */
+export class LocalAIConnector {
+  private endpoint: string;
+  private model: string;
+  private maxRetries: number;
+
+  constructor(
+    endpoint: string = LOCAL_AI_ENDPOINT,
+    model: string = LOCAL_AI_MODEL,
+    options: LocalAIConnectorOptions = {}
+  ) {
+    this.endpoint = endpoint;
+    this.model = model;
+    this.maxRetries = Math.max(1, options.maxRetries ?? 3);
+  }
+
+  async healthCheck(timeoutMs = 5_000): Promise<boolean> {
+    try {
+      const res = await fetch(`${this.endpoint}/v1/models`, {
+        method: "GET",
+        headers: { "Content-Type": "application/json" },
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+      return res.ok;
+    } catch {
+      return false;
+    }
+  }
+
+  private buildPayload(args: ChatCompletionArgs): any {
+    const payload: any = {
+      model: this.model,
+      messages: [
+        { role: "system", content: args.system },
+        { role: "user", content: args.user },
+      ],
+      temperature: args.temperature ?? 0.2,
+      max_tokens: args.maxTokens ?? 1000,
+    };
+
+    if (args.json) {
+      payload.response_format = { type: "json_object" };
+    }
+    return payload;
+  }
+
+  private recordUsage(usage: any) {
+    if (!usage) return;
+    metrics().llmTokensTotal?.inc({ model: this.model, type: "prompt" }, usage.prompt_tokens ?? 0);
+    metrics().llmTokensTotal?.inc(
+      { model: this.model, type: "completion" },
+      usage.completion_tokens ?? 0
+    );
+  }
+
+  async chatCompletion(args: ChatCompletionArgs): Promise<any> {
+    const content = await this.chatCompletionText(args);
+    return args.json ? parseJsonCompletion(content) : content;
+  }
+
+  /** chatCompletion without JSON parsing: returns the raw message content. */
+  async chatCompletionText(args: ChatCompletionArgs): Promise<string> {
+    let lastError: Error | null = null;
+    const maxRetries = this.maxRetries;
+    const timeoutMs = 30_000;
+
+    for (let attempt = 1; attempt <= maxRetries; attempt++) {
+      const start = process.hrtime.bigint();
+      const controller = new AbortController();
+      const timeout = setTimeout(() => controller.abort(), timeoutMs);
+
+      try {
+        const payload = this.buildPayload(args);
+
+        const res = await fetch(`${this.endpoint}/v1/chat/completions`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(payload),
+          signal: controller.signal,
+        });
+
+        if (!res.ok) {
+          const text = await res.text();
+          throw new Error(`LocalAI Error (${res.status}): ${text}`);
+        }
+
+        const data = await res.json();
+        const content = data.choices?.[0]?.message?.content ?? "";
+
+        const duration = Number(process.hrtime.bigint() - start) / 1e9;
+        metrics().llmLatencySeconds?.observe({ model: this.model, status: "success" }, duration);
+
+        // Instrument token usage
+        this.recordUsage(data.usage);
+
+        return content;
+      } catch (err: any) {
+        lastError = err;
+        const duration = Number(process.hrtime.bigint() - start) / 1e9;
+        metrics().llmLatencySeconds?.observe({ model: this.model, status: "error" }, duration);
+
+        if (err.name === "AbortError") {
+          console.warn(`LocalAI timeout on attempt ${attempt}`);
+        } else {
+          console.error(`LocalAI error on attempt ${attempt}:`, err.message);
+        }
+        // Wait briefly before retry
+        if (attempt < maxRetries) {
+          await new Promise((resolve) => setTimeout(resolve, 1000 * attempt));
+        }
+      } finally {
+        clearTimeout(timeout);
+      }
+    }
+
+    throw lastError || new Error("LocalAI request failed after retries");
+  }
+
+  /**
+   * Streaming variant of chatCompletion (`stream: true`): yields content
+   * deltas as LocalAI produces them. Only establishing the connection is
+   * retried; once tokens have been yielded a failure is thrown to the caller.
+   * The timeout applies to silence between chunks, not the whole completion,
+   * so slow CPU-only generation is not cut off while it is still producing.
+   */
+  async *chatCompletionStream(args: ChatCompletionArgs): AsyncGenerator<string> {
+    const maxRetries = this.maxRetries;
+    const idleTimeoutMs = 30_000;
+    const start = process.hrtime.bigint();
+
+    let controller = new AbortController();
+    let idleTimer: ReturnType<typeof setTimeout> | undefined;
+    const armIdleTimer = () => {
+      clearTimeout(idleTimer);
+      idleTimer = setTimeout(() => controller.abort(), idleTimeoutMs);
+    };
+
+    let res: Response | null = null;
+    let lastError: Error | null = null;
+
+    for (let attempt = 1; attempt <= maxRetries; attempt++) {
+      controller = new AbortController();
+      armIdleTimer();
+      try {
+        res = await fetch(`${this.endpoint}/v1/chat/completions`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json", Accept: "text/event-stream" },
+          body: JSON.stringify({
+            ...this.buildPayload(args),
+            stream: true,
+            stream_options: { include_usage: true },
+          }),
+          signal: controller.signal,
+        });
+
+        if (!res.ok) {
+          const text = await res.text();
+          throw new Error(`LocalAI Error (${res.status}): ${text}`);
+        }
+        break;
+      } catch (err: any) {
+        lastError = err;
+        res = null;
+        if (err.name === "AbortError") {
+          console.warn(`LocalAI stream timeout on attempt ${attempt}`);
+        } else {
+          console.error(`LocalAI stream error on attempt ${attempt}:`, err.message);
+        }
+        if (attempt < maxRetries) {
+          await new Promise((resolve) => setTimeout(resolve, 1000 * attempt));
+        }
+      }
+    }
+
+    if (!res?.body) {
+      clearTimeout(idleTimer);
+      const duration = Number(process.hrtime.bigint() - start) / 1e9;
+      metrics().llmLatencySeconds?.observe({ model: this.model, status: "error" }, duration);
+      throw lastError || new Error("LocalAI stream request failed after retries");
+    }
+
+    const reader = res.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    let status: "success" | "error" = "error";
+
+    try {
+      for (;;) {
+        armIdleTimer();
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+
+        const lines = buffer.split("\n");
+        buffer = lines.pop() ?? "";
+
+        for (const line of lines) {
+          const trimmed = line.trim();
+          if (!trimmed.startsWith("data:")) continue;
+          const data = trimmed.slice(5).trim();
+          if (data === "[DONE]") {
+            status = "success";
+            return;
+          }
+
+          let chunk: any;
+          try {
+            chunk = JSON.parse(data);
+          } catch {
+            continue;
+          }
+          this.recordUsage(chunk.usage);
+          const delta = chunk.choices?.[0]?.delta?.content;
+          if (typeof delta === "string" && delta) yield delta;
+        }
+      }
+      status = "success";
+    } finally {
+      clearTimeout(idleTimer);
+      // Stops generation upstream if the caller (e.g. a disconnected SSE client) bailed out early.
+      if (status === "error") controller.abort();
+      const duration = Number(process.hrtime.bigint() - start) / 1e9;
+      metrics().llmLatencySeconds?.observe({ model: this.model, status }, duration);
+    }
+  }
+}
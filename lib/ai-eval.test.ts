@@ -0,0 +1,242 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  compareAiEvalRuns,
+  createAiEvalRun,
+  getActiveAiEvalRun,
+  parseAiEvalConfig,
+  parseExpectedSourceIds,
+  runAiEvalJob,
+  summarizeAiEvalResults,
+  type AiEvalResult,
+} from "@/lib/ai-eval";
+import { fakeSupabase, hasOp, opArgs, type FakeQuery, type FakeResponse } from "@/lib/testing/fake-supabase";
+
+const { aiSuggest } = vi.hoisted(() => ({ aiSuggest: vi.fn() }));
+
+vi.mock("@/lib/ai", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/ai")>()),
+  aiSuggest,
+}));
+
+let respond: (q: FakeQuery) => FakeResponse | void = () => {};
+let admin = fakeSupabase((q) => respond(q));
+vi.mock("@/lib/supabase/admin", () => ({
+  createClient: async () => admin.client,
+}));
+
+afterEach(() => {
+  respond = () => {};
+  admin = fakeSupabase((q) => respond(q));
+  aiSuggest.mockReset();
+  vi.restoreAllMocks();
+  vi.useRealTimers();
+});
+
+function result(overrides: Partial<AiEvalResult> = {}): AiEvalResult {
+  return {
+    id: "res-1",
+    run_id: "run-1",
+    ticket_id: "t-1",
+    json_outcome: "valid",
+    json_valid: true,
+    citation_coverage: 1,
+    resolution_overlap: 0.5,
+    retrieval_recall: 1,
+    retrieved_source_ids: [],
+    suggestion: null,
+    model_info: null,
+    prompt: null,
+    latency_ms: 1000,
+    error: null,
+    created_at: "2026-01-01T00:00:00Z",
+    ...overrides,
+  };
+}
+
+describe("parseAiEvalConfig", () => {
+  it("keeps only recognised, in-range settings", () => {
+    expect(
+      parseAiEvalConfig({
+        route: { backend: " gpu ", endpoint: "", model: 7 },
+        promptTemplateId: "tpl-2",
+        temperature: 3,
+        retrieval: { mode: "lexical", limit: 50, expandNeighbors: 2 },
+      })
+    ).toEqual({
+      route: { backend: "gpu" },
+      promptTemplateId: "tpl-2",
+      retrieval: { mode: "lexical", expandNeighbors: 2 },
+    });
+  });
+
+  it("treats anything but an object as the default config", () => {
+    expect(parseAiEvalConfig(null)).toEqual({});
+    expect(parseAiEvalConfig("fast")).toEqual({});
+  });
+});
+
+describe("parseExpectedSourceIds", () => {
+  it("keeps document keys and drops tickets without any", () => {
+    expect(parseExpectedSourceIds({ "t-1": ["ticket:INC-1", "INC-2", 3], "t-2": ["INC-3"], "t-3": "sop:1" })).toEqual(
+      { "t-1": ["ticket:INC-1"] }
+    );
+    expect(parseExpectedSourceIds([["t-1", ["ticket:INC-1"]]])).toEqual({});
+  });
+});
+
+describe("summarizeAiEvalResults", () => {
+  it("excludes skipped and errored cases from the JSON validity rate", () => {
+    const summary = summarizeAiEvalResults(
+      [
+        result(),
+        result({ json_outcome: "failed", json_valid: false, latency_ms: 3000 }),
+        result({ json_outcome: "skipped", json_valid: false, citation_coverage: null, resolution_overlap: null }),
+        result({ json_outcome: null, json_valid: false, latency_ms: null, error: "Ticket not found" }),
+      ],
+      4.25
+    );
+
+    expect(summary).toEqual({
+      cases: 4,
+      cases_failed: 1,
+      json_valid_rate: 0.5,
+      outcomes: { valid: 1, failed: 1, skipped: 1 },
+      citation_coverage: 1,
+      resolution_overlap: 0.5,
+      retrieval_recall: 1,
+      avg_latency_ms: 1667,
+      avg_human_rating: 4.25,
+    });
+  });
+
+  it("reports null rates when no case was scored", () => {
+    expect(summarizeAiEvalResults([], null)).toMatchObject({ cases: 0, json_valid_rate: null, avg_latency_ms: null });
+  });
+});
+
+describe("getActiveAiEvalRun", () => {
+  it("fails running runs without a recent heartbeat before looking for one", async () => {
+    const { client, queries } = fakeSupabase((q) => (hasOp(q, "select") ? { data: { id: "run-1" } } : undefined));
+
+    vi.useFakeTimers({ now: new Date("2026-01-05T12:00:00Z") });
+    await expect(getActiveAiEvalRun(client)).resolves.toEqual({ id: "run-1" });
+
+    const [stale] = queries;
+    expect(opArgs(stale!, "update")![0]).toMatchObject({ status: "failed" });
+    expect(opArgs(stale!, "lt")).toEqual(["updated_at", "2026-01-05T11:45:00.000Z"]);
+  });
+});
+
+describe("createAiEvalRun", () => {
+  const params = { name: "baseline", config: {}, ticketIds: ["t-1"], expectedSourceIds: {}, createdBy: null };
+
+  it("returns null when the one-running-run index rejects the insert", async () => {
+    const { client } = fakeSupabase(() => ({ error: { message: "duplicate key", code: "23505" } }));
+
+    await expect(createAiEvalRun(client, params)).resolves.toBeNull();
+  });
+
+  it("records the case count on the new run", async () => {
+    const { client, queries } = fakeSupabase(() => ({ data: { id: "run-1" } }));
+
+    await createAiEvalRun(client, params);
+
+    expect(opArgs(queries[0]!, "insert")![0]).toMatchObject({ status: "running", cases_total: 1 });
+  });
+});
+
+describe("compareAiEvalRuns", () => {
+  it("compares the metrics over the tickets both runs replayed", async () => {
+    const base = [result({ ticket_id: "t-1" }), result({ ticket_id: "t-2", json_valid: false, json_outcome: "failed" })];
+    const candidate = [
+      result({ ticket_id: "t-1", run_id: "run-2", latency_ms: 500 }),
+      result({ ticket_id: "t-3", run_id: "run-2" }),
+    ];
+    const { client } = fakeSupabase((q) => {
+      const [, id] = (opArgs(q, "eq") ?? []) as [string, string];
+      if (q.table === "ai_eval_runs") return { data: { id, name: id, config: {}, started_at: null } };
+      return { data: id === "run-1" ? base : candidate };
+    });
+
+    const comparison = await compareAiEvalRuns(client, "run-1", "run-2");
+
+    expect(comparison!.common_cases).toBe(1);
+    expect(comparison!.cases.map((c) => c.ticket_id)).toEqual(["t-1"]);
+    expect(comparison!.metrics.find((m) => m.metric === "latency_ms")).toEqual({
+      metric: "latency_ms",
+      base: 1000,
+      candidate: 500,
+      delta: -500,
+    });
+  });
+
+  it("returns null when either run is missing", async () => {
+    const { client } = fakeSupabase(() => ({ data: null }));
+
+    await expect(compareAiEvalRuns(client, "run-1", "run-2")).resolves.toBeNull();
+  });
+});
+
+describe("runAiEvalJob", () => {
+  const ticket = {
+    id: "t-1",
+    external_id: "INC-1",
+    title: "Pump status stale",
+    description: "Modbus gateway restarted",
+    resolution_notes: "Restart the modbus gateway",
+    topics: [],
+  };
+
+  it("replays each ticket without its own document and scores the result", async () => {
+    respond = (q) => {
+      if (q.table === "ai_eval_runs" && hasOp(q, "maybeSingle")) {
+        return {
+          data: {
+            id: "run-1",
+            config: { retrieval: { limit: 4 } },
+            ticket_ids: ["t-1", "t-2"],
+            expected_source_ids: { "t-1": ["ticket:INC-9"] },
+          },
+        };
+      }
+      if (q.table === "tickets") return { data: [ticket] };
+      if (q.table === "ai_eval_results" && hasOp(q, "select")) return { data: [] };
+    };
+    aiSuggest.mockResolvedValue({
+      evidence: [{ ref: "E1", source_type: "ticket", source_id: "INC-9" }],
+      suggestion: {
+        summary: "Restart the modbus gateway",
+        confidence_overall: 0.8,
+        root_causes: [],
+        recommended_steps: [],
+        validation_steps: [],
+        rollback_procedures: [],
+        questions: [],
+      },
+      validation: { outcome: "repaired", attempts: 2, errors: [] },
+      verification: { claims_checked: 2, claims_supported: 1 },
+      model: { host: "http://localai:8080", name: "mini", backend: "localai" },
+      prompt: null,
+    });
+
+    await runAiEvalJob("run-1");
+
+    expect(aiSuggest.mock.calls[0]![1]).toMatchObject({ retrieval: { limit: 4, exclude: ["ticket:INC-1"] } });
+    const rows = admin.queries
+      .filter((q) => q.table === "ai_eval_results" && hasOp(q, "upsert"))
+      .map((q) => opArgs(q, "upsert")![0] as Record<string, unknown>);
+    expect(rows[0]).toMatchObject({
+      ticket_id: "t-1",
+      json_outcome: "repaired",
+      json_valid: true,
+      citation_coverage: 0.5,
+      resolution_overlap: 1,
+      retrieval_recall: 1,
+      retrieved_source_ids: ["ticket:INC-9"],
+    });
+    expect(rows[1]).toMatchObject({ ticket_id: "t-2", error: "Ticket not found" });
+
+    const final = admin.queries.filter((q) => q.table === "ai_eval_runs" && hasOp(q, "update")).at(-1)!;
+    expect(opArgs(final, "update")![0]).toMatchObject({ status: "completed", cases_processed: 2, cases_failed: 1 });
+  });
+});
@@ -0,0 +1,543 @@
+import type { Tables } from "@/database.types";
+import {
+  aiSuggest,
+  buildSuggestQuery,
+  retrieveEvidence,
+  type AiSuggestInput,
+  type AiSuggestion,
+} from "@/lib/ai";
+import type { AiRouteOverride } from "@/lib/ai-router";
+import { distinctiveTerms } from "@/lib/ai-verify";
+import { metrics } from "@/lib/metrics";
+import { RAG_SEARCH_MODES, type RagSearchMode } from "@/lib/rag";
+import { ticketToRagDocument } from "@/lib/rag-documents";
+import { createClient } from "@/lib/supabase/admin";
+
+export type AiEvalRun = Tables<"ai_eval_runs">;
+export type AiEvalResult = Tables<"ai_eval_results">;
+
+/** What a run varies: model routing, prompt version and retrieval. */
+export type AiEvalConfig = {
+  route?: AiRouteOverride;
+  promptTemplateId?: string | null;
+  temperature?: number;
+  retrieval?: {
+    mode?: RagSearchMode;
+    limit?: number;
+    expandNeighbors?: number;
+  };
+};
+
+export type AiEvalSummary = {
+  cases: number;
+  cases_failed: number;
+  json_valid_rate: number | null;
+  outcomes: Record<string, number>;
+  citation_coverage: number | null;
+  resolution_overlap: number | null;
+  retrieval_recall: number | null;
+  avg_latency_ms: number | null;
+  avg_human_rating: number | null; // past ratings of suggestions for these tickets
+};
+
+export type AiEvalMetric = "json_valid" | "citation_coverage" | "resolution_overlap" | "retrieval_recall";
+
+export type AiEvalComparison = {
+  base: Pick<AiEvalRun, "id" | "name" | "config" | "started_at">;
+  candidate: Pick<AiEvalRun, "id" | "name" | "config" | "started_at">;
+  common_cases: number;
+  metrics: Array<{
+    metric: AiEvalMetric | "latency_ms";
+    base: number | null;
+    candidate: number | null;
+    delta: number | null;
+  }>;
+  cases: Array<{
+    ticket_id: string;
+    base: Pick<AiEvalResult, AiEvalMetric | "json_outcome" | "latency_ms" | "error">;
+    candidate: Pick<AiEvalResult, AiEvalMetric | "json_outcome" | "latency_ms" | "error">;
+  }>;
+};
+
+export const MAX_EVAL_CASES = 100;
+const DEFAULT_EVAL_CASES = 25;
+// A running evaluation that has not finished a case for this long was
+// orphaned (e.g. by a restart mid-run) and no longer blocks new runs.
+const STALE_AFTER_MINUTES = 15;
+
+const EVAL_METRICS: AiEvalMetric[] = [
+  "json_valid",
+  "citation_coverage",
+  "resolution_overlap",
+  "retrieval_recall",
+];
+
+export function parseAiEvalConfig(v: unknown): AiEvalConfig {
+  if (!v || typeof v !== "object") return {};
+  const o = v as Record<string, any>;
+  const config: AiEvalConfig = {};
+
+  if (o.route && typeof o.route === "object") {
+    const route: AiRouteOverride = {};
+    for (const k of ["backend", "endpoint", "model"] as const) {
+      if (typeof o.route[k] === "string" && o.route[k].trim()) route[k] = o.route[k].trim();
+    }
+    if (Object.keys(route).length > 0) config.route = route;
+  }
+  if (typeof o.promptTemplateId === "string" && o.promptTemplateId.trim()) {
+    config.promptTemplateId = o.promptTemplateId.trim();
+  }
+  if (typeof o.temperature === "number" && o.temperature >= 0 && o.temperature <= 2) {
+    config.temperature = o.temperature;
+  }
+  if (o.retrieval && typeof o.retrieval === "object") {
+    const r = o.retrieval;
+    config.retrieval = {};
+    if (RAG_SEARCH_MODES.includes(r.mode)) config.retrieval.mode = r.mode;
+    if (Number.isInteger(r.limit) && r.limit >= 1 && r.limit <= 20) config.retrieval.limit = r.limit;
+    if (Number.isInteger(r.expandNeighbors) && r.expandNeighbors >= 0 && r.expandNeighbors <= 3) {
+      config.retrieval.expandNeighbors = r.expandNeighbors;
+    }
+  }
+  return config;
+}
+
+/** Expected documents per ticket, as RAG document keys ("ticket:<id>"). */
+export function parseExpectedSourceIds(v: unknown): Record<string, string[]> {
+  if (!v || typeof v !== "object" || Array.isArray(v)) return {};
+  const out: Record<string, string[]> = {};
+  for (const [ticketId, keys] of Object.entries(v as Record<string, unknown>)) {
+    if (!Array.isArray(keys)) continue;
+    const valid = keys.filter((k): k is string => typeof k === "string" && k.includes(":"));
+    if (valid.length > 0) out[ticketId] = valid;
+  }
+  return out;
+}
+
+/**
+ * The case set for a new run: explicit ticket ids, the same tickets as an
+ * earlier run (so the two compare like for like), or by default the most
+ * recently rated tickets that are resolved and have resolution notes.
+ */
+export async function selectEvalTickets(
+  supabase: any,
+  params: { ticketIds?: string[]; sameAsRun?: AiEvalRun | null; limit?: number }
+): Promise<string[]> {
+  const limit = Math.max(1, Math.min(params.limit ?? DEFAULT_EVAL_CASES, MAX_EVAL_CASES));
+
+  if (params.ticketIds?.length) return Array.from(new Set(params.ticketIds)).slice(0, MAX_EVAL_CASES);
+  if (params.sameAsRun) return params.sameAsRun.ticket_ids.slice(0, MAX_EVAL_CASES);
+
+  const { data: ratings, error: ratingsError } = await (supabase.from("ai_recommendation_ratings") as any)
+    .select("ticket_id")
+    .order("created_at", { ascending: false })
+    .limit(limit * 10);
+
+  if (ratingsError) throw new Error(ratingsError.message);
+
+  const rated = Array.from(
+    new Set(((ratings as Array<{ ticket_id: string | null }>) ?? []).map((r) => r.ticket_id).filter(Boolean))
+  ) as string[];
+  if (rated.length === 0) return [];
+
+  const { data: tickets, error } = await (supabase.from("tickets") as any)
+    .select("id,resolution_notes")
+    .in("id", rated)
+    .in("status", ["Resolved", "Closed"]);
+
+  if (error) throw new Error(error.message);
+
+  const eligible = new Set(
+    ((tickets as Array<{ id: string; resolution_notes: string | null }>) ?? [])
+      .filter((t) => t.resolution_notes?.trim())
+      .map((t) => t.id)
+  );
+  return rated.filter((id) => eligible.has(id)).slice(0, limit);
+}
+
+/**
+ * Returns the run currently in progress, after failing any running run whose
+ * heartbeat (updated_at) is older than STALE_AFTER_MINUTES.
+ */
+export async function getActiveAiEvalRun(supabase: any): Promise<AiEvalRun | null> {
+  const now = new Date();
+  const cutoff = new Date(now.getTime() - STALE_AFTER_MINUTES * 60_000).toISOString();
+  const { error: staleErr } = await (supabase.from("ai_eval_runs") as any)
+    .update({
+      status: "failed",
+      error_message: `Abandoned: no progress for ${STALE_AFTER_MINUTES} minutes`,
+      finished_at: now.toISOString(),
+      updated_at: now.toISOString(),
+    })
+    .eq("status", "running")
+    .lt("updated_at", cutoff);
+  if (staleErr) throw new Error(staleErr.message);
+
+  const { data, error } = await (supabase.from("ai_eval_runs") as any)
+    .select("*")
+    .eq("status", "running")
+    .order("started_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  return data ?? null;
+}
+
+/**
+ * Starts a run row. Returns null when another run is already running: a
+ * partial unique index allows one running row, so of two concurrent starts
+ * only one is created.
+ */
+export async function createAiEvalRun(
+  supabase: any,
+  params: {
+    name: string;
+    config: AiEvalConfig;
+    ticketIds: string[];
+    expectedSourceIds: Record<string, string[]>;
+    createdBy: string | null;
+  }
+): Promise<AiEvalRun | null> {
+  const { data, error } = await (supabase.from("ai_eval_runs") as any)
+    .insert({
+      name: params.name,
+      status: "running",
+      config: params.config,
+      ticket_ids: params.ticketIds,
+      expected_source_ids: params.expectedSourceIds,
+      cases_total: params.ticketIds.length,
+      created_by: params.createdBy,
+    })
+    .select("*")
+    .single();
+
+  if (error?.code === "23505") return null;
+  if (error || !data) throw new Error(error?.message || "Failed to create evaluation run");
+  return data;
+}
+
+export async function getAiEvalRun(supabase: any, id: string): Promise<AiEvalRun | null> {
+  const { data, error } = await (supabase.from("ai_eval_runs") as any)
+    .select("*")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  return data ?? null;
+}
+
+export async function listAiEvalRuns(supabase: any, limit = 20): Promise<AiEvalRun[]> {
+  const { data, error } = await (supabase.from("ai_eval_runs") as any)
+    .select("*")
+    .order("started_at", { ascending: false })
+    .limit(limit);
+
+  if (error) throw new Error(error.message);
+  return data ?? [];
+}
+
+export async function listAiEvalResults(supabase: any, runId: string): Promise<AiEvalResult[]> {
+  const { data, error } = await (supabase.from("ai_eval_results") as any)
+    .select("*")
+    .eq("run_id", runId)
+    .order("created_at", { ascending: true });
+
+  if (error) throw new Error(error.message);
+  return data ?? [];
+}
+
+function suggestionText(suggestion: AiSuggestion | { raw: string }): string {
+  if ("raw" in suggestion) return suggestion.raw;
+  return [
+    suggestion.summary,
+    ...suggestion.root_causes.map((c) => c.cause),
+    ...suggestion.recommended_steps.map((s) => `${s.step} ${s.rationale}`),
+    ...suggestion.validation_steps,
+  ].join("\n");
+}
+
+// Share of the resolution notes' distinctive terms the suggestion mentions.
+function resolutionOverlap(resolutionNotes: string, suggestion: AiSuggestion | { raw: string }): number | null {
+  const expected = distinctiveTerms(resolutionNotes);
+  if (expected.size === 0) return null;
+  const produced = distinctiveTerms(suggestionText(suggestion));
+  let shared = 0;
+  for (const t of expected) if (produced.has(t)) shared++;
+  return shared / expected.size;
+}
+
+function mean(values: Array<number | null | undefined>): number | null {
+  const present = values.filter((v): v is number => typeof v === "number");
+  if (present.length === 0) return null;
+  return present.reduce((a, b) => a + b, 0) / present.length;
+}
+
+function round(v: number | null, digits = 3): number | null {
+  return v === null ? null : Math.round(v * 10 ** digits) / 10 ** digits;
+}
+
+// Skipped cases never reached the model, so they say nothing about its JSON.
+function metricValue(result: AiEvalResult, metric: AiEvalMetric): number | null {
+  if (metric === "json_valid") {
+    return result.error || result.json_outcome === "skipped" ? null : result.json_valid ? 1 : 0;
+  }
+  return result[metric];
+}
+
+/**
+ * Replays one ticket. The ticket's own resolved document is excluded from
+ * the evidence so the model cannot copy the answer. Retrieval recall is
+ * measured against the run's expected documents for the ticket when given;
+ * otherwise against the ticket's own document, searched for separately with
+ * the same query and retrieval settings.
+ */
+async function evaluateTicket(
+  ticket: any,
+  config: AiEvalConfig,
+  expected: string[]
+): Promise<Omit<AiEvalResult, "id" | "run_id" | "created_at">> {
+  const input: AiSuggestInput = {
+    title: ticket.title,
+    description: ticket.description ?? "",
+    topics: ticket.topics ?? [],
+  };
+  const self = `ticket:${ticketToRagDocument(ticket).sourceId}`;
+
+  const started = Date.now();
+  const result = await aiSuggest(input, {
+    route: config.route,
+    promptTemplateId: config.promptTemplateId,
+    temperature: config.temperature,
+    retrieval: { ...config.retrieval, exclude: [self] },
+  });
+  const latencyMs = Date.now() - started;
+
+  const retrieved = result.evidence.map((e) => `${e.source_type}:${e.source_id}`);
+
+  let recall: number | null;
+  if (expected.length > 0) {
+    recall = expected.filter((k) => retrieved.includes(k)).length / expected.length;
+  } else {
+    const withSelf = await retrieveEvidence({
+      query: buildSuggestQuery(input),
+      limit: config.retrieval?.limit ?? 6,
+      mode: config.retrieval?.mode,
+      expandNeighbors: config.retrieval?.expandNeighbors,
+    });
+    recall = withSelf.some((e) => `${e.source_type}:${e.source_id}` === self) ? 1 : 0;
+  }
+
+  const noEvidence = result.evidence.length === 0;
+  const verification = result.verification;
+
+  return {
+    ticket_id: ticket.id,
+    json_outcome: result.validation.outcome,
+    json_valid: ["valid", "repaired"].includes(result.validation.outcome) && !("raw" in result.suggestion),
+    citation_coverage: noEvidence
+      ? null
+      : verification && verification.claims_checked > 0
+        ? verification.claims_supported / verification.claims_checked
+        : 0,
+    resolution_overlap: noEvidence ? null : resolutionOverlap(ticket.resolution_notes ?? "", result.suggestion),
+    retrieval_recall: recall,
+    retrieved_source_ids: retrieved,
+    suggestion: result.suggestion as any,
+    model_info: result.model,
+    prompt: result.prompt,
+    latency_ms: latencyMs,
+    error: null,
+  };
+}
+
+async function averageHumanRating(supabase: any, ticketIds: string[]): Promise<number | null> {
+  if (ticketIds.length === 0) return null;
+  const { data, error } = await (supabase.from("ai_recommendation_ratings") as any)
+    .select("rating")
+    .in("ticket_id", ticketIds);
+  if (error) return null;
+  return mean(((data as Array<{ rating: number }>) ?? []).map((r) => r.rating));
+}
+
+/**
+ * Aggregates a run's results. Outcomes tally every scored case, skipped
+ * (no-evidence) ones included; the JSON validity rate only counts cases
+ * where the model was actually called.
+ */
+export function summarizeAiEvalResults(results: AiEvalResult[], avgHumanRating: number | null): AiEvalSummary {
+  const ok = results.filter((r) => !r.error);
+  const outcomes: Record<string, number> = {};
+  for (const r of ok) {
+    const outcome = r.json_outcome ?? "unknown";
+    outcomes[outcome] = (outcomes[outcome] ?? 0) + 1;
+  }
+
+  return {
+    cases: results.length,
+    cases_failed: results.length - ok.length,
+    json_valid_rate: round(mean(ok.map((r) => metricValue(r, "json_valid")))),
+    outcomes,
+    citation_coverage: round(mean(ok.map((r) => r.citation_coverage))),
+    resolution_overlap: round(mean(ok.map((r) => r.resolution_overlap))),
+    retrieval_recall: round(mean(ok.map((r) => r.retrieval_recall))),
+    avg_latency_ms: round(mean(ok.map((r) => r.latency_ms)), 0),
+    avg_human_rating: round(avgHumanRating, 2),
+  };
+}
+
+/**
+ * Replays every ticket of the run through aiSuggest one at a time (the
+ * inference server is the bottleneck) and stores a scored result per case.
+ * Runs outside the request like the reindex job: progress is recorded on
+ * the run row (updated_at doubles as the heartbeat) and failures are stored
+ * per case instead of thrown.
+ */
+export async function runAiEvalJob(runId: string): Promise<void> {
+  const supabase = await createClient();
+  const runs = () => supabase.from("ai_eval_runs") as any;
+
+  let processed = 0;
+  let failed = 0;
+
+  try {
+    const run = await getAiEvalRun(supabase, runId);
+    if (!run) throw new Error("Evaluation run not found");
+
+    const config = parseAiEvalConfig(run.config);
+    const expected = parseExpectedSourceIds(run.expected_source_ids);
+
+    const { data: tickets, error } = await (supabase.from("tickets") as any)
+      .select("*")
+      .in("id", run.ticket_ids);
+    if (error) throw new Error(error.message);
+    const byId = new Map(((tickets as any[]) ?? []).map((t) => [t.id, t]));
+
+    for (const ticketId of run.ticket_ids) {
+      const ticket = byId.get(ticketId);
+      let row: Omit<AiEvalResult, "id" | "run_id" | "created_at">;
+      try {
+        if (!ticket) throw new Error("Ticket not found");
+        row = await evaluateTicket(ticket, config, expected[ticketId] ?? []);
+        metrics().aiEvalCasesTotal.inc({ status: "ok" }, 1);
+      } catch (e) {
+        failed++;
+        metrics().aiEvalCasesTotal.inc({ status: "error" }, 1);
+        row = {
+          ticket_id: ticketId,
+          json_outcome: null,
+          json_valid: false,
+          citation_coverage: null,
+          resolution_overlap: null,
+          retrieval_recall: null,
+          retrieved_source_ids: [],
+          suggestion: null,
+          model_info: null,
+          prompt: null,
+          latency_ms: null,
+          error: e instanceof Error ? e.message : "Evaluation failed",
+        };
+      }
+
+      const { error: insertError } = await (supabase.from("ai_eval_results") as any).upsert(
+        { ...row, run_id: runId },
+        { onConflict: "run_id,ticket_id" }
+      );
+      if (insertError) throw new Error(insertError.message);
+
+      processed++;
+      await runs()
+        .update({ cases_processed: processed, cases_failed: failed, updated_at: new Date().toISOString() })
+        .eq("id", runId);
+    }
+
+    const results = await listAiEvalResults(supabase, runId);
+    const summary = summarizeAiEvalResults(results, await averageHumanRating(supabase, run.ticket_ids));
+
+    await runs()
+      .update({
+        status: "completed",
+        cases_processed: processed,
+        cases_failed: failed,
+        summary,
+        finished_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", runId);
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : "Evaluation failed";
+    console.error("AI evaluation run failed:", msg);
+    await runs()
+      .update({
+        status: "failed",
+        cases_processed: processed,
+        cases_failed: failed,
+        error_message: msg,
+        finished_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", runId);
+  }
+}
+
+/**
+ * Side-by-side report of two runs over the tickets both replayed, so runs
+ * with different case sets still compare like for like.
+ */
+export async function compareAiEvalRuns(
+  supabase: any,
+  baseId: string,
+  candidateId: string
+): Promise<AiEvalComparison | null> {
+  const [base, candidate] = await Promise.all([
+    getAiEvalRun(supabase, baseId),
+    getAiEvalRun(supabase, candidateId),
+  ]);
+  if (!base || !candidate) return null;
+
+  const [baseResults, candidateResults] = await Promise.all([
+    listAiEvalResults(supabase, baseId),
+    listAiEvalResults(supabase, candidateId),
+  ]);
+
+  const candidateByTicket = new Map(candidateResults.map((r) => [r.ticket_id, r]));
+  const pairs = baseResults
+    .filter((r) => candidateByTicket.has(r.ticket_id))
+    .map((r) => ({ base: r, candidate: candidateByTicket.get(r.ticket_id)! }));
+
+  const pick = (r: AiEvalResult) => ({
+    json_outcome: r.json_outcome,
+    json_valid: r.json_valid,
+    citation_coverage: r.citation_coverage,
+    resolution_overlap: r.resolution_overlap,
+    retrieval_recall: r.retrieval_recall,
+    latency_ms: r.latency_ms,
+    error: r.error,
+  });
+
+  const compare = (value: (r: AiEvalResult) => number | null, digits = 3) => {
+    const b = round(mean(pairs.map((p) => value(p.base))), digits);
+    const c = round(mean(pairs.map((p) => value(p.candidate))), digits);
+    return { base: b, candidate: c, delta: b === null || c === null ? null : round(c - b, digits) };
+  };
+
+  const runInfo = (r: AiEvalRun) => ({ id: r.id, name: r.name, config: r.config, started_at: r.started_at });
+
+  return {
+    base: runInfo(base),
+    candidate: runInfo(candidate),
+    common_cases: pairs.length,
+    metrics: [
+      ...EVAL_METRICS.map((metric) => ({
+        metric,
+        ...compare((r) => (r.error ? null : metricValue(r, metric))),
+      })),
+      { metric: "latency_ms" as const, ...compare((r) => r.latency_ms, 0) },
+    ],
+    cases: pairs.map((p) => ({
+      ticket_id: p.base.ticket_id,
+      base: pick(p.base),
+      candidate: pick(p.candidate),
+    })),
+  };
+}
@@ -0,0 +1,170 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { aiBackendStatuses, loadAiBackends, modelForTask, routeCompletion } from "@/lib/ai-router";
+
+// Per-endpoint behaviour of the fake connector.
+const { servers, calls } = vi.hoisted(() => ({
+  servers: new Map<string, { healthy: boolean; reply: () => string }>(),
+  calls: [] as Array<{ endpoint: string; model: string }>,
+}));
+
+vi.mock("@/lib/ai-connector", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/ai-connector")>()),
+  LocalAIConnector: class {
+    constructor(
+      private endpoint: string,
+      private model: string
+    ) {}
+    async healthCheck() {
+      return servers.get(this.endpoint)?.healthy ?? false;
+    }
+    async chatCompletionText() {
+      calls.push({ endpoint: this.endpoint, model: this.model });
+      const server = servers.get(this.endpoint);
+      if (!server) throw new Error("connection refused");
+      return server.reply();
+    }
+  },
+}));
+
+const BACKENDS = [
+  { name: "gpu", endpoint: "http://gpu:8080/", models: { default: "large", triage: "small" } },
+  { name: "cpu", endpoint: "http://cpu:8080", model: "small" },
+];
+
+function serve(endpoint: string, reply: () => string, healthy = true) {
+  servers.set(endpoint, { healthy, reply });
+}
+
+const down = () => {
+  throw new Error("503 Service Unavailable");
+};
+
+const ask = () => routeCompletion("suggest", { system: "s", user: "u" });
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.stubEnv("AI_BACKENDS", JSON.stringify(BACKENDS));
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+  servers.clear();
+  calls.length = 0;
+  delete (globalThis as { __itTrackerAiBackends?: unknown }).__itTrackerAiBackends;
+});
+
+describe("loadAiBackends", () => {
+  it("parses AI_BACKENDS in priority order", () => {
+    expect(loadAiBackends()).toEqual([
+      { name: "gpu", endpoint: "http://gpu:8080", models: { default: "large", triage: "small" } },
+      { name: "cpu", endpoint: "http://cpu:8080", models: { default: "small" } },
+    ]);
+  });
+
+  it("names unnamed backends and skips entries without a model", () => {
+    vi.stubEnv("AI_BACKENDS", JSON.stringify([{ endpoint: "http://a" }, { endpoint: "http://b", model: "m" }]));
+
+    expect(loadAiBackends()).toEqual([{ name: "backend-2", endpoint: "http://b", models: { default: "m" } }]);
+  });
+
+  it("falls back to the single LocalAI endpoint when AI_BACKENDS is invalid", () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.stubEnv("AI_BACKENDS", "[{");
+
+    expect(loadAiBackends()).toMatchObject([{ name: "localai" }]);
+  });
+});
+
+describe("modelForTask", () => {
+  it("uses the task's model and falls back to the default", () => {
+    const [gpu] = loadAiBackends();
+
+    expect(modelForTask(gpu!, "triage")).toBe("small");
+    expect(modelForTask(gpu!, "suggest")).toBe("large");
+  });
+});
+
+describe("routeCompletion", () => {
+  it("fails over to the next backend", async () => {
+    serve("http://gpu:8080", down);
+    serve("http://cpu:8080", () => "ok");
+
+    await expect(ask()).resolves.toEqual({
+      content: "ok",
+      model: { host: "http://cpu:8080", name: "small", backend: "cpu" },
+    });
+  });
+
+  it("tries healthy backends first", async () => {
+    serve("http://gpu:8080", () => "gpu", false);
+    serve("http://cpu:8080", () => "cpu");
+
+    await expect(ask()).resolves.toMatchObject({ content: "cpu" });
+    expect(calls.map((c) => c.endpoint)).toEqual(["http://cpu:8080"]);
+  });
+
+  it("opens the circuit after three consecutive failures", async () => {
+    serve("http://gpu:8080", down);
+    serve("http://cpu:8080", () => "ok");
+
+    for (let i = 0; i < 3; i++) await ask();
+    calls.length = 0;
+    await ask();
+
+    expect(calls.map((c) => c.endpoint)).toEqual(["http://cpu:8080"]);
+    const [gpu] = await aiBackendStatuses();
+    expect(gpu).toMatchObject({ circuit: "open", consecutive_failures: 3 });
+  });
+
+  it("sends one trial request after the cooldown and closes on success", async () => {
+    serve("http://gpu:8080", down);
+    // Half-open circuits rank behind healthy ones.
+    serve("http://cpu:8080", () => "ok", false);
+    for (let i = 0; i < 3; i++) await ask();
+
+    vi.advanceTimersByTime(30_000);
+    expect((await aiBackendStatuses())[0]).toMatchObject({ circuit: "half_open" });
+
+    serve("http://gpu:8080", () => "back");
+    await expect(ask()).resolves.toMatchObject({ content: "back" });
+    expect((await aiBackendStatuses())[0]).toMatchObject({ circuit: "closed", consecutive_failures: 0 });
+  });
+
+  it("re-opens the circuit when the trial fails", async () => {
+    serve("http://gpu:8080", down);
+    serve("http://cpu:8080", () => "ok", false);
+    for (let i = 0; i < 3; i++) await ask();
+
+    vi.advanceTimersByTime(30_000);
+    await ask();
+
+    expect((await aiBackendStatuses())[0]).toMatchObject({ circuit: "open", consecutive_failures: 4 });
+  });
+
+  it("still tries every backend when all circuits are open", async () => {
+    serve("http://gpu:8080", down);
+    serve("http://cpu:8080", down);
+    for (let i = 0; i < 3; i++) await ask().catch(() => {});
+    calls.length = 0;
+
+    await expect(ask()).rejects.toThrow("503 Service Unavailable");
+    expect(calls).toHaveLength(2);
+  });
+
+  it("pins a request to an ad-hoc endpoint and model", async () => {
+    serve("http://stub:9000", () => "stubbed");
+
+    await expect(
+      routeCompletion("triage", { system: "s", user: "u" }, { endpoint: "http://stub:9000/", model: "replay" })
+    ).resolves.toEqual({ content: "stubbed", model: { host: "http://stub:9000", name: "replay", backend: "override" } });
+  });
+
+  it("rejects an unknown pinned backend", async () => {
+    await expect(routeCompletion("suggest", { system: "s", user: "u" }, { backend: "tpu" })).rejects.toThrow(
+      "Unknown AI backend: tpu"
+    );
+  });
+});
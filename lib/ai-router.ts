@@ -0,0 +1,317 @@
+import {
+  LOCAL_AI_ENDPOINT,
+  LOCAL_AI_MODEL,
+  LocalAIConnector,
+  type ChatCompletionArgs,
+} from "@/lib/ai-connector";
+import { metrics } from "@/lib/metrics";
+
+export type AiTask = "suggest" | "sop_draft" | "triage" | "postmortem";
+
+/**
+ * One OpenAI-compatible inference server (LocalAI, Ollama, llama.cpp
+ * server, ...). `models.default` is used for any task without its own entry,
+ * so a small fast model can serve triage while drafting uses a larger one.
+ */
+export type AiBackend = {
+  name: string;
+  endpoint: string;
+  models: Partial<Record<AiTask, string>> & { default: string };
+};
+
+export type AiModelInfo = {
+  host: string;
+  name: string; // model
+  backend: string;
+};
+
+/**
+ * Pins a request to one backend instead of the configured failover order:
+ * a configured backend by name, or an ad-hoc endpoint (e.g. a stub or
+ * recording server for deterministic evaluation runs). `model` replaces the
+ * per-task model.
+ */
+export type AiRouteOverride = {
+  backend?: string;
+  endpoint?: string;
+  model?: string;
+};
+
+export type RoutedCompletion = {
+  content: string;
+  model: AiModelInfo;
+};
+
+export type AiCircuitState = "closed" | "open" | "half_open";
+
+export type AiBackendStatus = {
+  name: string;
+  endpoint: string;
+  models: AiBackend["models"];
+  healthy: boolean | null; // null = not checked yet
+  circuit: AiCircuitState;
+  consecutive_failures: number;
+};
+
+// Consecutive failures that open a backend's circuit.
+const FAILURE_THRESHOLD = 3;
+// How long an open circuit rejects traffic before one trial request.
+const OPEN_COOLDOWN_MS = 30_000;
+// How long a healthCheck() result is trusted.
+const HEALTH_TTL_MS = 15_000;
+
+const AI_TASKS: AiTask[] = ["suggest", "sop_draft", "triage", "postmortem"];
+
+type BackendState = {
+  failures: number;
+  openedAt: number | null;
+  healthy: boolean | null;
+  checkedAt: number;
+};
+
+function parseBackend(v: unknown, idx: number): AiBackend | null {
+  if (!v || typeof v !== "object") return null;
+  const o = v as Record<string, any>;
+  if (typeof o.endpoint !== "string" || !o.endpoint.trim()) return null;
+
+  const models = o.models && typeof o.models === "object" ? o.models : {};
+  const defaultModel =
+    typeof models.default === "string" ? models.default : typeof o.model === "string" ? o.model : null;
+  if (!defaultModel) return null;
+
+  const backend: AiBackend = {
+    name: typeof o.name === "string" && o.name.trim() ? o.name.trim() : `backend-${idx + 1}`,
+    endpoint: o.endpoint.replace(/\/+$/, ""),
+    models: { default: defaultModel },
+  };
+  for (const task of AI_TASKS) {
+    if (typeof models[task] === "string") backend.models[task] = models[task];
+  }
+  return backend;
+}
+
+/**
+ * Backends in priority order from AI_BACKENDS (a JSON array of
+ * `{ name, endpoint, models: { default, suggest?, sop_draft?, triage?, postmortem? } }`),
+ * or the single LOCAL_AI_ENDPOINT / LOCAL_AI_MODEL pair when unset.
+ */
+export function loadAiBackends(): AiBackend[] {
+  const raw = process.env.AI_BACKENDS;
+  if (raw?.trim()) {
+    try {
+      const parsed = JSON.parse(raw);
+      const backends = (Array.isArray(parsed) ? parsed : [])
+        .map(parseBackend)
+        .filter((b): b is AiBackend => b !== null);
+      if (backends.length > 0) return backends;
+      console.error("AI_BACKENDS has no valid entries; using LOCAL_AI_ENDPOINT");
+    } catch (e) {
+      console.error("AI_BACKENDS is not valid JSON; using LOCAL_AI_ENDPOINT:", e);
+    }
+  }
+  return [{ name: "localai", endpoint: LOCAL_AI_ENDPOINT, models: { default: LOCAL_AI_MODEL } }];
+}
+
+export function modelForTask(backend: AiBackend, task: AiTask): string {
+  return backend.models[task] ?? backend.models.default;
+}
+
+function routeBackends(route?: AiRouteOverride): AiBackend[] {
+  if (!route?.backend && !route?.endpoint && !route?.model) return loadAiBackends();
+
+  if (route.endpoint) {
+    return [
+      {
+        name: route.backend || "override",
+        endpoint: route.endpoint.replace(/\/+$/, ""),
+        models: { default: route.model || LOCAL_AI_MODEL },
+      },
+    ];
+  }
+
+  const backends = loadAiBackends();
+  const pinned = route.backend ? backends.filter((b) => b.name === route.backend) : backends;
+  if (pinned.length === 0) throw new Error(`Unknown AI backend: ${route.backend}`);
+  return route.model ? pinned.map((b) => ({ ...b, models: { default: route.model! } })) : pinned;
+}
+
+function backendStates(): Map<string, BackendState> {
+  const g = globalThis as unknown as { __itTrackerAiBackends?: Map<string, BackendState> };
+  if (!g.__itTrackerAiBackends) g.__itTrackerAiBackends = new Map();
+  return g.__itTrackerAiBackends;
+}
+
+function stateFor(name: string): BackendState {
+  const states = backendStates();
+  let state = states.get(name);
+  if (!state) {
+    state = { failures: 0, openedAt: null, healthy: null, checkedAt: 0 };
+    states.set(name, state);
+  }
+  return state;
+}
+
+function circuitOf(state: BackendState, now = Date.now()): AiCircuitState {
+  if (state.openedAt === null) return "closed";
+  return now - state.openedAt >= OPEN_COOLDOWN_MS ? "half_open" : "open";
+}
+
+function recordSuccess(backend: AiBackend, task: AiTask) {
+  const state = stateFor(backend.name);
+  state.failures = 0;
+  state.openedAt = null;
+  state.healthy = true;
+  state.checkedAt = Date.now();
+  metrics().aiBackendRequestsTotal.inc({ backend: backend.name, task, status: "ok" }, 1);
+}
+
+function recordFailure(backend: AiBackend, task: AiTask) {
+  const state = stateFor(backend.name);
+  state.failures++;
+  // A failed half-open trial re-opens the circuit for another cooldown.
+  if (state.failures >= FAILURE_THRESHOLD || state.openedAt !== null) state.openedAt = Date.now();
+  metrics().aiBackendRequestsTotal.inc({ backend: backend.name, task, status: "error" }, 1);
+}
+
+async function refreshHealth(backend: AiBackend, force = false): Promise<boolean> {
+  const state = stateFor(backend.name);
+  if (!force && state.healthy !== null && Date.now() - state.checkedAt < HEALTH_TTL_MS) {
+    return state.healthy;
+  }
+  state.healthy = await new LocalAIConnector(backend.endpoint, backend.models.default).healthCheck();
+  state.checkedAt = Date.now();
+  return state.healthy;
+}
+
+/**
+ * Backends to try for a request, best first: healthy closed circuits, then
+ * half-open ones due a trial, then closed-but-unhealthy ones. Open circuits
+ * are skipped; if that leaves nothing, every backend is tried anyway so the
+ * caller gets a real error instead of an empty route.
+ */
+async function candidates(backends: AiBackend[]): Promise<AiBackend[]> {
+  const now = Date.now();
+  const health = await Promise.all(
+    backends.map((b) => (circuitOf(stateFor(b.name), now) === "open" ? false : refreshHealth(b)))
+  );
+
+  const rank = (b: AiBackend, idx: number) => {
+    const circuit = circuitOf(stateFor(b.name), now);
+    if (circuit === "open") return -1;
+    if (circuit === "closed" && health[idx]) return 0;
+    if (circuit === "half_open") return 1;
+    return 2;
+  };
+
+  const ranked = backends
+    .map((b, idx) => ({ b, r: rank(b, idx), idx }))
+    .filter((x) => x.r >= 0)
+    .sort((x, y) => x.r - y.r || x.idx - y.idx)
+    .map((x) => x.b);
+
+  return ranked.length > 0 ? ranked : backends;
+}
+
+function connectorFor(backend: AiBackend, task: AiTask, backendCount: number) {
+  // With somewhere to fail over to, one attempt per backend beats three
+  // slow retries against a server that is already down.
+  return new LocalAIConnector(backend.endpoint, modelForTask(backend, task), {
+    maxRetries: backendCount > 1 ? 1 : 3,
+  });
+}
+
+function modelInfo(backend: AiBackend, task: AiTask): AiModelInfo {
+  return { host: backend.endpoint, name: modelForTask(backend, task), backend: backend.name };
+}
+
+/** The backend a task would use right now, without calling it. */
+export async function plannedModel(task: AiTask, route?: AiRouteOverride): Promise<AiModelInfo> {
+  const backends = routeBackends(route);
+  const [first] = await candidates(backends);
+  return modelInfo(first ?? backends[0]!, task);
+}
+
+export async function routeCompletion(
+  task: AiTask,
+  args: ChatCompletionArgs,
+  route?: AiRouteOverride
+): Promise<RoutedCompletion> {
+  const backends = routeBackends(route);
+  let lastError: Error | null = null;
+
+  for (const backend of await candidates(backends)) {
+    try {
+      const content = await connectorFor(backend, task, backends.length).chatCompletionText(args);
+      recordSuccess(backend, task);
+      return { content, model: modelInfo(backend, task) };
+    } catch (e) {
+      lastError = e instanceof Error ? e : new Error(String(e));
+      recordFailure(backend, task);
+      console.warn(`AI backend ${backend.name} failed for ${task}, trying next:`, lastError.message);
+    }
+  }
+
+  throw lastError || new Error("No AI backend available");
+}
+
+/**
+ * Streaming counterpart of routeCompletion. Failover only happens before
+ * the first token; after that a failure is thrown, since the caller has
+ * already forwarded part of the answer.
+ */
+export async function* routeCompletionStream(
+  task: AiTask,
+  args: ChatCompletionArgs,
+  route?: AiRouteOverride
+): AsyncGenerator<string, RoutedCompletion> {
+  const backends = routeBackends(route);
+  let lastError: Error | null = null;
+
+  for (const backend of await candidates(backends)) {
+    const stream = connectorFor(backend, task, backends.length).chatCompletionStream(args);
+
+    let first: IteratorResult<string>;
+    try {
+      first = await stream.next();
+    } catch (e) {
+      lastError = e instanceof Error ? e : new Error(String(e));
+      recordFailure(backend, task);
+      console.warn(`AI backend ${backend.name} failed for ${task}, trying next:`, lastError.message);
+      continue;
+    }
+
+    let content = "";
+    try {
+      for (let step = first; !step.done; step = await stream.next()) {
+        content += step.value;
+        yield step.value;
+      }
+    } catch (e) {
+      recordFailure(backend, task);
+      throw e;
+    }
+
+    recordSuccess(backend, task);
+    return { content, model: modelInfo(backend, task) };
+  }
+
+  throw lastError || new Error("No AI backend available");
+}
+
+/** Health and circuit state of every configured backend, checked now. */
+export async function aiBackendStatuses(): Promise<AiBackendStatus[]> {
+  const backends = loadAiBackends();
+  await Promise.all(backends.map((b) => refreshHealth(b, true)));
+
+  return backends.map((b) => {
+    const state = stateFor(b.name);
+    return {
+      name: b.name,
+      endpoint: b.endpoint,
+      models: b.models,
+      healthy: state.healthy,
+      circuit: circuitOf(state),
+      consecutive_failures: state.failures,
+    };
+  });
+}
@@ -0,0 +1,246 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { aiSuggest } from "@/lib/ai";
+import { checkAiSuggestion, checkPostmortemDraft, checkSopDraft } from "@/lib/ai-schema";
+
+const { routeCompletion, ragSearchDocuments } = vi.hoisted(() => ({
+  routeCompletion: vi.fn(),
+  ragSearchDocuments: vi.fn(),
+}));
+
+const MODEL = { host: "http://localai:8080", name: "mini", backend: "local" };
+
+vi.mock("@/lib/ai-router", () => ({
+  routeCompletion,
+  routeCompletionStream: vi.fn(),
+  plannedModel: async () => MODEL,
+}));
+
+vi.mock("@/lib/rag", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/rag")>()),
+  ragSearchDocuments,
+  // Lexical citation checks only; no embedding backend in tests.
+  embedTexts: async () => ({ provider: "hash", model: "char-bucket-v1", vectors: [] }),
+}));
+
+vi.mock("@/lib/prompt-templates", async (importOriginal) => {
+  const mod = await importOriginal<typeof import("@/lib/prompt-templates")>();
+  return { ...mod, resolvePromptTemplate: async (key: "suggest") => mod.builtinPromptTemplate(key) };
+});
+
+vi.mock("@/lib/problem-records", () => ({
+  matchKnownErrors: async () => [],
+}));
+
+afterEach(() => {
+  routeCompletion.mockReset();
+  ragSearchDocuments.mockReset();
+});
+
+function suggestion(overrides: Record<string, unknown> = {}) {
+  return {
+    summary: "Pump PLC lost its modbus link",
+    confidence_overall: 0.8,
+    root_causes: [{ cause: "Modbus gateway restarted", confidence: 0.7, evidence_refs: ["E1"] }],
+    recommended_steps: [{ step: "Restart the modbus gateway", rationale: "Restores polling", evidence_refs: ["E1"] }],
+    validation_steps: ["Pump status updates again"],
+    rollback_procedures: [],
+    questions: [],
+    ...overrides,
+  };
+}
+
+describe("checkAiSuggestion", () => {
+  it("accepts a well-formed suggestion", () => {
+    const check = checkAiSuggestion(suggestion(), ["E1"]);
+
+    expect(check.errors).toEqual([]);
+    expect(check.value).toEqual(suggestion());
+  });
+
+  it("rejects output that is not a JSON object", () => {
+    expect(checkAiSuggestion([], ["E1"])).toEqual({ value: null, errors: ["output is not a JSON object"] });
+    expect(checkAiSuggestion({ raw: "Sure! Here is" }, ["E1"])).toEqual({
+      value: null,
+      errors: ["output is not valid JSON"],
+    });
+  });
+
+  it("reports unknown refs but keeps the cited item", () => {
+    const check = checkAiSuggestion(
+      suggestion({ root_causes: [{ cause: "Gateway restarted", confidence: 0.7, evidence_refs: ["E1", "E9"] }] }),
+      ["E1"]
+    );
+
+    expect(check.errors).toEqual(["root_causes[0].evidence_refs cites unknown refs E9"]);
+    expect(check.value?.root_causes).toHaveLength(1);
+  });
+
+  it("drops malformed items from the salvage", () => {
+    const check = checkAiSuggestion(
+      suggestion({ recommended_steps: [{ step: "", evidence_refs: ["E1"] }, "restart it"] }),
+      ["E1"]
+    );
+
+    expect(check.errors).toEqual([
+      "step must be a non-empty string",
+      "rationale must be a string",
+      "recommended_steps[1] must be an object",
+    ]);
+    expect(check.value?.recommended_steps).toEqual([]);
+    expect(check.value?.root_causes).toHaveLength(1);
+  });
+
+  it("returns no value when nothing usable remains", () => {
+    const check = checkAiSuggestion({ summary: "", root_causes: "none" }, ["E1"]);
+
+    expect(check.value).toBeNull();
+    expect(check.errors).toContain("summary must be a non-empty string");
+    expect(check.errors).toContain("confidence_overall must be a number in [0,1]");
+  });
+});
+
+describe("checkSopDraft", () => {
+  const draft = {
+    problem_description: "Pump PLC loses its modbus link",
+    symptoms: ["Stale pump status"],
+    root_cause: "Gateway restart",
+    resolution_steps: ["Restart the gateway"],
+    validation_steps: [],
+    rollback_procedures: [],
+    references: ["E1"],
+  };
+
+  it("requires at least one resolution step", () => {
+    const check = checkSopDraft({ ...draft, resolution_steps: [] }, ["E1"]);
+
+    expect(check.value).toBeNull();
+    expect(check.errors).toEqual(["resolution_steps must contain at least one step"]);
+  });
+
+  it("keeps only references to known evidence", () => {
+    const check = checkSopDraft({ ...draft, references: ["E1", "E4"] }, ["E1"]);
+
+    expect(check.errors).toEqual(["references cites unknown refs E4"]);
+    expect(check.value?.references).toEqual(["E1"]);
+  });
+});
+
+describe("checkPostmortemDraft", () => {
+  const draft = {
+    summary: "Line 3 lost pump telemetry for 40 minutes",
+    timeline: [{ at: "2026-01-05T08:00:00Z", event: "Alarms raised" }],
+    impact: "Line 3 ran on manual control",
+    root_cause: "Gateway firmware leaked sockets",
+    contributing_factors: ["No socket monitoring"],
+    action_items: [{ action: "Upgrade gateway firmware", owner: "ana", due_date: "2026-02-01" }],
+    references: ["E1"],
+  };
+
+  it("accepts a complete draft", () => {
+    expect(checkPostmortemDraft(draft, ["E1"])).toEqual({ value: draft, errors: [] });
+  });
+
+  it("drops malformed timeline entries and action items", () => {
+    const check = checkPostmortemDraft(
+      {
+        ...draft,
+        timeline: [...draft.timeline, { at: "yesterday", event: "Escalated" }],
+        action_items: [{ action: "Add monitoring", owner: " ", due_date: "soon" }, { action: "Document", owner: null }],
+      },
+      ["E1"]
+    );
+
+    expect(check.errors).toEqual([
+      "timeline[1].at must be an ISO timestamp",
+      "action_items[0].due_date must be YYYY-MM-DD or null",
+    ]);
+    expect(check.value?.timeline).toEqual(draft.timeline);
+    expect(check.value?.action_items).toEqual([{ action: "Document", owner: null, due_date: null }]);
+  });
+
+  it("needs a summary and an impact to be usable", () => {
+    const check = checkPostmortemDraft({ ...draft, impact: "" }, ["E1"]);
+
+    expect(check.value).toBeNull();
+    expect(check.errors).toEqual(["impact must be a non-empty string"]);
+  });
+});
+
+describe("aiSuggest validation", () => {
+  const input = { title: "Pump status stale", description: "Modbus gateway restarted overnight" };
+
+  function evidence() {
+    ragSearchDocuments.mockResolvedValue([
+      {
+        source_type: "ticket",
+        source_id: "T-1",
+        chunk_index: 0,
+        title: "Pump status stale after modbus gateway restart",
+        content: "Resolution: restart the modbus gateway to restore polling",
+        metadata: {},
+        score: 0.9,
+      },
+    ]);
+  }
+
+  function replies(...contents: string[]) {
+    for (const content of contents) routeCompletion.mockResolvedValueOnce({ content, model: MODEL });
+  }
+
+  it("passes valid output through on the first attempt", async () => {
+    evidence();
+    replies(JSON.stringify(suggestion()));
+
+    const result = await aiSuggest(input);
+
+    expect(result.validation).toEqual({ outcome: "valid", attempts: 1, errors: [] });
+    expect(routeCompletion).toHaveBeenCalledTimes(1);
+  });
+
+  it("sends the validation errors back and accepts a repaired answer", async () => {
+    evidence();
+    replies(JSON.stringify(suggestion({ confidence_overall: 3 })), JSON.stringify(suggestion()));
+
+    const result = await aiSuggest(input);
+
+    expect(result.validation).toEqual({ outcome: "repaired", attempts: 2, errors: [] });
+    const repair = routeCompletion.mock.calls[1]![1];
+    expect(repair.user).toContain("- confidence_overall must be a number in [0,1]");
+  });
+
+  it("returns the salvaged part when repairs run out", async () => {
+    evidence();
+    const bad = JSON.stringify(suggestion({ questions: "none" }));
+    replies(bad, bad, bad);
+
+    const result = await aiSuggest(input);
+
+    expect(result.validation).toEqual({
+      outcome: "partial",
+      attempts: 3,
+      errors: ["questions must be an array of strings"],
+    });
+    expect(result.suggestion).toMatchObject({ summary: "Pump PLC lost its modbus link", questions: [] });
+  });
+
+  it("returns the raw text when no attempt parses", async () => {
+    evidence();
+    replies("not json", "still not json", "nope");
+
+    const result = await aiSuggest(input);
+
+    expect(result.validation.outcome).toBe("failed");
+    expect(result.validation.attempts).toBe(3);
+    expect(result.suggestion).toEqual({ raw: "nope" });
+  });
+
+  it("skips the model and validation when there is no evidence", async () => {
+    ragSearchDocuments.mockResolvedValue([]);
+
+    const result = await aiSuggest(input);
+
+    expect(routeCompletion).not.toHaveBeenCalled();
+    expect(result.validation).toEqual({ outcome: "skipped", attempts: 0, errors: [] });
+    expect(result.model).toEqual(MODEL);
+  });
+});
@@ -0,0 +1,343 @@
+import type { AiSuggestion, PostmortemDraft, SopDraft, TicketTriage, TriageProposal } from "@/lib/ai";
+import { TICKET_PRIORITIES, TICKET_TYPES } from "@/lib/ticket-catalog";
+
+/**
+ * Result of checking model output against the expected JSON shape.
+ * `errors` lists every problem found (empty = fully valid); `value` is the
+ * best-effort salvage with invalid items dropped, or null when nothing
+ * usable remains.
+ */
+export type SchemaCheck<T> = {
+  value: T | null;
+  errors: string[];
+};
+
+function isObject(v: unknown): v is Record<string, unknown> {
+  return !!v && typeof v === "object" && !Array.isArray(v);
+}
+
+function isConfidence(v: unknown): v is number {
+  return typeof v === "number" && Number.isFinite(v) && v >= 0 && v <= 1;
+}
+
+function checkString(
+  obj: Record<string, unknown>,
+  key: string,
+  errors: string[],
+  opts: { required?: boolean } = {}
+): string {
+  const v = obj[key];
+  if (typeof v === "string" && (v.trim() || !opts.required)) return v;
+  errors.push(`${key} must be a ${opts.required ? "non-empty " : ""}string`);
+  return "";
+}
+
+function checkStringArray(obj: Record<string, unknown>, key: string, errors: string[]): string[] {
+  const v = obj[key];
+  if (v === undefined) {
+    errors.push(`${key} is missing`);
+    return [];
+  }
+  if (!Array.isArray(v)) {
+    errors.push(`${key} must be an array of strings`);
+    return [];
+  }
+  const out = v.filter((s): s is string => typeof s === "string" && s.trim() !== "");
+  if (out.length !== v.length) errors.push(`${key} must only contain non-empty strings`);
+  return out;
+}
+
+// Citation problems are reported (so they trigger a repair) but do not drop
+// the item: the citation verifier turns unsupported claims into questions.
+function checkRefs(v: unknown, path: string, knownRefs: Set<string>, errors: string[]): string[] {
+  if (!Array.isArray(v) || v.length === 0) {
+    errors.push(`${path}.evidence_refs must cite at least one evidence ref`);
+    return [];
+  }
+  const refs = v.filter((r): r is string => typeof r === "string");
+  const unknown = refs.filter((r) => !knownRefs.has(r));
+  if (unknown.length > 0) {
+    errors.push(`${path}.evidence_refs cites unknown refs ${unknown.join(", ")}`);
+  }
+  return refs;
+}
+
+function checkItems<T>(
+  obj: Record<string, unknown>,
+  key: string,
+  errors: string[],
+  checkItem: (item: unknown, path: string, itemErrors: string[]) => T
+): T[] {
+  const v = obj[key];
+  if (!Array.isArray(v)) {
+    errors.push(`${key} must be an array`);
+    return [];
+  }
+
+  const out: T[] = [];
+  v.forEach((item, i) => {
+    const itemErrors: string[] = [];
+    const checked = checkItem(item, `${key}[${i}]`, itemErrors);
+    errors.push(...itemErrors);
+    // Malformed items are dropped from the salvage rather than guessed at.
+    if (itemErrors.length === 0) out.push(checked);
+  });
+  return out;
+}
+
+export function checkAiSuggestion(raw: unknown, knownRefs: string[]): SchemaCheck<AiSuggestion> {
+  if (!isObject(raw)) return { value: null, errors: ["output is not a JSON object"] };
+  if (typeof raw.raw === "string" && Object.keys(raw).length === 1) {
+    return { value: null, errors: ["output is not valid JSON"] };
+  }
+
+  const refs = new Set(knownRefs);
+  const errors: string[] = [];
+
+  const summary = checkString(raw, "summary", errors, { required: true });
+
+  let confidence = 0;
+  if (isConfidence(raw.confidence_overall)) confidence = raw.confidence_overall;
+  else errors.push("confidence_overall must be a number in [0,1]");
+
+  const root_causes = checkItems(raw, "root_causes", errors, (item, path, itemErrors) => {
+    if (!isObject(item)) {
+      itemErrors.push(`${path} must be an object`);
+      return null as never;
+    }
+    const cause = checkString(item, "cause", itemErrors, { required: true });
+    if (!isConfidence(item.confidence)) itemErrors.push(`${path}.confidence must be a number in [0,1]`);
+    const evidence_refs = checkRefs(item.evidence_refs, path, refs, errors);
+    return { cause, confidence: Number(item.confidence), evidence_refs };
+  });
+
+  const recommended_steps = checkItems(raw, "recommended_steps", errors, (item, path, itemErrors) => {
+    if (!isObject(item)) {
+      itemErrors.push(`${path} must be an object`);
+      return null as never;
+    }
+    const step = checkString(item, "step", itemErrors, { required: true });
+    const rationale = checkString(item, "rationale", itemErrors);
+    const evidence_refs = checkRefs(item.evidence_refs, path, refs, errors);
+    return { step, rationale, evidence_refs };
+  });
+
+  const validation_steps = checkStringArray(raw, "validation_steps", errors);
+  const rollback_procedures = checkStringArray(raw, "rollback_procedures", errors);
+  const questions = checkStringArray(raw, "questions", errors);
+
+  const usable = !!summary || root_causes.length > 0 || recommended_steps.length > 0;
+
+  return {
+    value: usable
+      ? {
+          summary,
+          confidence_overall: confidence,
+          root_causes,
+          recommended_steps,
+          validation_steps,
+          rollback_procedures,
+          questions,
+        }
+      : null,
+    errors,
+  };
+}
+
+export function checkSopDraft(raw: unknown, knownRefs: string[]): SchemaCheck<SopDraft> {
+  if (!isObject(raw)) return { value: null, errors: ["output is not a JSON object"] };
+  if (typeof raw.raw === "string" && Object.keys(raw).length === 1) {
+    return { value: null, errors: ["output is not valid JSON"] };
+  }
+
+  const refs = new Set(knownRefs);
+  const errors: string[] = [];
+
+  const problem_description = checkString(raw, "problem_description", errors, { required: true });
+  const symptoms = checkStringArray(raw, "symptoms", errors);
+  const root_cause = checkString(raw, "root_cause", errors);
+  const resolution_steps = checkStringArray(raw, "resolution_steps", errors);
+  if (Array.isArray(raw.resolution_steps) && resolution_steps.length === 0) {
+    errors.push("resolution_steps must contain at least one step");
+  }
+  const validation_steps = checkStringArray(raw, "validation_steps", errors);
+  const rollback_procedures = checkStringArray(raw, "rollback_procedures", errors);
+
+  const references = checkStringArray(raw, "references", errors);
+  const unknown = references.filter((r) => !refs.has(r));
+  if (unknown.length > 0) errors.push(`references cites unknown refs ${unknown.join(", ")}`);
+
+  const usable = !!problem_description && resolution_steps.length > 0;
+
+  return {
+    value: usable
+      ? {
+          problem_description,
+          symptoms,
+          root_cause,
+          resolution_steps,
+          validation_steps,
+          rollback_procedures,
+          references: references.filter((r) => refs.has(r)),
+        }
+      : null,
+    errors,
+  };
+}
+
+const DUE_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+export function checkPostmortemDraft(raw: unknown, knownRefs: string[]): SchemaCheck<PostmortemDraft> {
+  if (!isObject(raw)) return { value: null, errors: ["output is not a JSON object"] };
+  if (typeof raw.raw === "string" && Object.keys(raw).length === 1) {
+    return { value: null, errors: ["output is not valid JSON"] };
+  }
+
+  const refs = new Set(knownRefs);
+  const errors: string[] = [];
+
+  const summary = checkString(raw, "summary", errors, { required: true });
+  const timeline = checkItems(raw, "timeline", errors, (item, path, itemErrors) => {
+    if (!isObject(item)) {
+      itemErrors.push(`${path} must be an object`);
+      return null as never;
+    }
+    const at = checkString(item, "at", itemErrors, { required: true });
+    if (at && Number.isNaN(new Date(at).getTime())) itemErrors.push(`${path}.at must be an ISO timestamp`);
+    const event = checkString(item, "event", itemErrors, { required: true });
+    return { at, event };
+  });
+  const impact = checkString(raw, "impact", errors, { required: true });
+  const root_cause = checkString(raw, "root_cause", errors);
+  const contributing_factors = checkStringArray(raw, "contributing_factors", errors);
+  const action_items = checkItems(raw, "action_items", errors, (item, path, itemErrors) => {
+    if (!isObject(item)) {
+      itemErrors.push(`${path} must be an object`);
+      return null as never;
+    }
+    const action = checkString(item, "action", itemErrors, { required: true });
+    const owner = typeof item.owner === "string" && item.owner.trim() ? item.owner.trim() : null;
+    if (item.owner !== null && item.owner !== undefined && typeof item.owner !== "string") {
+      itemErrors.push(`${path}.owner must be a string or null`);
+    }
+    let due_date: string | null = null;
+    if (typeof item.due_date === "string" && DUE_DATE.test(item.due_date)) due_date = item.due_date;
+    else if (item.due_date !== null && item.due_date !== undefined) {
+      itemErrors.push(`${path}.due_date must be YYYY-MM-DD or null`);
+    }
+    return { action, owner, due_date };
+  });
+
+  const references = checkStringArray(raw, "references", errors);
+  const unknown = references.filter((r) => !refs.has(r));
+  if (unknown.length > 0) errors.push(`references cites unknown refs ${unknown.join(", ")}`);
+
+  const usable = !!summary && !!impact;
+
+  return {
+    value: usable
+      ? {
+          summary,
+          timeline,
+          impact,
+          root_cause,
+          contributing_factors,
+          action_items,
+          references: references.filter((r) => refs.has(r)),
+        }
+      : null,
+    errors,
+  };
+}
+
+/**
+ * Matches a proposed value against the allowed ones, ignoring case, and
+ * returns it in the allowed spelling; null when it is not allowed.
+ */
+function matchAllowed(value: string, allowed: readonly string[]): string | null {
+  const wanted = value.trim().toLowerCase();
+  return allowed.find((a) => a.toLowerCase() === wanted) ?? null;
+}
+
+// Null/missing is a valid "no proposal"; callers that need a value check it.
+function checkProposal(
+  v: unknown,
+  path: string,
+  allowed: readonly string[] | null,
+  errors: string[]
+): TriageProposal | null {
+  if (v === null || v === undefined) return null;
+  if (!isObject(v) || typeof v.value !== "string" || !v.value.trim()) {
+    errors.push(`${path} must be null or {"value": string, "confidence": number}`);
+    return null;
+  }
+  if (!isConfidence(v.confidence)) {
+    errors.push(`${path}.confidence must be a number in [0,1]`);
+    return null;
+  }
+  if (!allowed) return { value: v.value.trim(), confidence: v.confidence };
+
+  const value = matchAllowed(v.value, allowed);
+  if (!value) {
+    errors.push(
+      allowed.length > 0
+        ? `${path}.value "${v.value}" is not one of: ${allowed.join(", ")}`
+        : `${path} must be null: no similar ticket has one`
+    );
+    return null;
+  }
+  return { value, confidence: v.confidence };
+}
+
+/**
+ * `known` lists the values triage may propose. Services and sites come from
+ * the similar tickets shown to the model, so a name it made up is rejected;
+ * when they are omitted (re-checking a stored proposal) any value passes.
+ */
+export function checkTicketTriage(
+  raw: unknown,
+  known: { topics: readonly string[]; services?: string[]; sites?: string[] }
+): SchemaCheck<TicketTriage> {
+  if (!isObject(raw)) return { value: null, errors: ["output is not a JSON object"] };
+  if (typeof raw.raw === "string" && Object.keys(raw).length === 1) {
+    return { value: null, errors: ["output is not valid JSON"] };
+  }
+
+  const errors: string[] = [];
+
+  const type = checkProposal(raw.type, "type", TICKET_TYPES, errors);
+  const priority = checkProposal(raw.priority, "priority", TICKET_PRIORITIES, errors);
+  const service = checkProposal(raw.service, "service", known.services ?? null, errors);
+  const site = checkProposal(raw.site, "site", known.sites ?? null, errors);
+
+  const seen = new Set<string>();
+  const topics = checkItems(raw, "topics", errors, (item, path, itemErrors) => {
+    if (!isObject(item)) {
+      itemErrors.push(`${path} must be an object`);
+      return null;
+    }
+    const proposal = checkProposal(item, path, known.topics, itemErrors);
+    // A repeated topic is dropped quietly rather than worth a repair.
+    if (!proposal || seen.has(proposal.value)) return null;
+    seen.add(proposal.value);
+    return proposal;
+  }).filter((t): t is TriageProposal => t !== null);
+
+  const rationale = checkString(raw, "rationale", errors);
+
+  const usable = !!type || !!priority || topics.length > 0 || !!service || !!site;
+
+  return {
+    value: usable
+      ? {
+          type: type as TicketTriage["type"],
+          priority: priority as TicketTriage["priority"],
+          topics,
+          service,
+          site,
+          rationale,
+        }
+      : null,
+    errors,
+  };
+}
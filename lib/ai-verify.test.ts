@@ -0,0 +1,135 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { AiSuggestion, EvidenceItem } from "@/lib/ai";
+import { distinctiveTerms, verifyCitations } from "@/lib/ai-verify";
+
+const { embedTexts } = vi.hoisted(() => ({ embedTexts: vi.fn() }));
+
+vi.mock("@/lib/rag", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/rag")>()),
+  embedTexts,
+}));
+
+afterEach(() => {
+  embedTexts.mockReset();
+  vi.restoreAllMocks();
+});
+
+function evidence(ref: string, content: string): EvidenceItem {
+  return { ref, source_type: "ticket", source_id: `T-${ref}`, title: "", score: 0.5, content };
+}
+
+function suggestion(overrides: Partial<AiSuggestion> = {}): AiSuggestion {
+  return {
+    summary: "Pump status is stale",
+    confidence_overall: 0.8,
+    root_causes: [],
+    recommended_steps: [],
+    validation_steps: [],
+    rollback_procedures: [],
+    questions: [],
+    ...overrides,
+  };
+}
+
+// Hash vectors never count as semantic support.
+const hashOnly = () => embedTexts.mockResolvedValue({ provider: "hash", model: "char-bucket-v1", vectors: [] });
+
+describe("distinctiveTerms", () => {
+  it("lower-cases, drops stopwords and short words, keeps hostnames and versions whole", () => {
+    expect([...distinctiveTerms("Check the PLC-02.site.local firmware v2.4.1 and reboot it.")]).toEqual([
+      "plc-02.site.local",
+      "firmware",
+      "v2.4.1",
+      "reboot",
+    ]);
+  });
+});
+
+describe("verifyCitations", () => {
+  it("keeps claims that share enough terms with the cited evidence", async () => {
+    hashOnly();
+    const input = suggestion({
+      root_causes: [{ cause: "Modbus gateway restarted", confidence: 0.7, evidence_refs: ["E1"] }],
+    });
+
+    const { suggestion: out, verification } = await verifyCitations(input, [
+      evidence("E1", "After the modbus gateway restarted, polling stopped."),
+    ]);
+
+    expect(out.root_causes).toEqual(input.root_causes);
+    expect(out.confidence_overall).toBe(0.8);
+    expect(verification).toMatchObject({ claims_checked: 1, claims_supported: 1, claims_rejected: 0 });
+  });
+
+  it("moves unsupported claims to questions and scales confidence", async () => {
+    hashOnly();
+    const input = suggestion({
+      root_causes: [{ cause: "Modbus gateway restarted", confidence: 0.7, evidence_refs: ["E1"] }],
+      recommended_steps: [
+        { step: "Replace the cooling fan", rationale: "Overheating", evidence_refs: ["E1"] },
+        { step: "Reseat the fibre patch", rationale: "", evidence_refs: ["E7"] },
+      ],
+    });
+
+    const { suggestion: out, verification } = await verifyCitations(input, [
+      evidence("E1", "The modbus gateway restarted overnight."),
+    ]);
+
+    expect(out.recommended_steps).toEqual([]);
+    expect(out.questions).toEqual([
+      "Unverified (cited E1, which does not support it): Replace the cooling fan",
+      "Unverified (cited E7, which does not support it): Reseat the fibre patch",
+    ]);
+    // One of three claims survived.
+    expect(out.confidence_overall).toBe(0.27);
+    expect(verification).toMatchObject({ claims_supported: 1, claims_rejected: 2, confidence_after: 0.27 });
+  });
+
+  it("drops only the unsupported citation of a supported claim", async () => {
+    hashOnly();
+    const input = suggestion({
+      root_causes: [{ cause: "Modbus gateway restarted", confidence: 0.7, evidence_refs: ["E1", "E2"] }],
+    });
+
+    const { suggestion: out, verification } = await verifyCitations(input, [
+      evidence("E1", "The modbus gateway restarted."),
+      evidence("E2", "Printer toner was low."),
+    ]);
+
+    expect(out.root_causes[0]!.evidence_refs).toEqual(["E1"]);
+    expect(verification.refs_dropped).toBe(1);
+  });
+
+  it("counts an uncited claim as unverified", async () => {
+    hashOnly();
+    const input = suggestion({ root_causes: [{ cause: "Firmware bug", confidence: 0.4, evidence_refs: [] }] });
+
+    const { suggestion: out } = await verifyCitations(input, [evidence("E1", "Firmware bug in v2")]);
+
+    expect(out.questions).toEqual(["Unverified (no evidence cited): Firmware bug"]);
+  });
+
+  it("accepts semantic support from a real embedding model", async () => {
+    const close = [1, 0, 0];
+    embedTexts.mockResolvedValue({ provider: "localai", model: "mini", vectors: [close, close] });
+    const input = suggestion({
+      root_causes: [{ cause: "Controller lost power", confidence: 0.6, evidence_refs: ["E1"] }],
+    });
+
+    const { suggestion: out } = await verifyCitations(input, [evidence("E1", "UPS tripped on the PLC cabinet")]);
+
+    expect(out.root_causes).toHaveLength(1);
+  });
+
+  it("falls back to the lexical check when embeddings fail", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    embedTexts.mockRejectedValue(new Error("connection refused"));
+    const input = suggestion({
+      root_causes: [{ cause: "Controller lost power", confidence: 0.6, evidence_refs: ["E1"] }],
+    });
+
+    const { verification } = await verifyCitations(input, [evidence("E1", "UPS tripped on the PLC cabinet")]);
+
+    expect(verification.claims_rejected).toBe(1);
+  });
+});
@@ -0,0 +1,149 @@
+import type { AiSuggestion, EvidenceItem } from "@/lib/ai";
+import { metrics } from "@/lib/metrics";
+import { cosineSimilarity, embedTexts } from "@/lib/rag";
+
+export type CitationVerification = {
+  claims_checked: number;
+  claims_supported: number;
+  claims_rejected: number; // moved to questions
+  refs_dropped: number; // citations removed from otherwise supported claims
+  confidence_before: number;
+  confidence_after: number;
+};
+
+// Share of a claim's distinctive terms that must appear in the cited evidence.
+const LEXICAL_MIN_OVERLAP = 0.2;
+// Cosine similarity that counts as support; only used with a real embedding
+// model, since the hash embedder scores almost any two English texts highly.
+const SEMANTIC_MIN_SIMILARITY = 0.55;
+
+const STOPWORDS = new Set([
+  "the", "and", "for", "with", "that", "this", "from", "are", "was", "were", "has", "have",
+  "had", "not", "but", "can", "could", "should", "would", "will", "into", "onto", "then",
+  "than", "their", "there", "they", "them", "its", "any", "all", "each", "via", "per",
+  "check", "ensure", "verify", "confirm", "make", "sure", "issue", "problem", "likely",
+  "possible", "cause", "step", "use", "using",
+]);
+
+// Lower-cased content words of a text, minus stopwords; shared with the
+// evaluation harness for resolution overlap.
+export function distinctiveTerms(text: string): Set<string> {
+  const out = new Set<string>();
+  // Keeps dotted/hyphenated tokens (hostnames, versions, error codes) whole.
+  for (const m of text.toLowerCase().match(/[a-z0-9][a-z0-9._-]{2,}/g) ?? []) {
+    const t = m.replace(/[._-]+$/, "");
+    if (t.length >= 3 && !STOPWORDS.has(t)) out.add(t);
+  }
+  return out;
+}
+
+function lexicalOverlap(claim: Set<string>, evidence: Set<string>): number {
+  if (claim.size === 0) return 0;
+  let shared = 0;
+  for (const t of claim) if (evidence.has(t)) shared++;
+  return shared / claim.size;
+}
+
+type Claim = { text: string; refs: string[] };
+
+/**
+ * Checks every root cause and recommended step against the evidence it
+ * cites. A citation counts when the claim shares enough distinctive terms
+ * with the evidence, or is semantically close to it. Unsupported citations
+ * are dropped; claims left with none (including ones citing refs that do
+ * not exist) are removed and re-asked as questions. confidence_overall is
+ * scaled by the share of claims that survived.
+ */
+export async function verifyCitations(
+  suggestion: AiSuggestion,
+  evidence: EvidenceItem[]
+): Promise<{ suggestion: AiSuggestion; verification: CitationVerification }> {
+  const byRef = new Map(evidence.map((e) => [e.ref, e]));
+  const claims: Claim[] = [
+    ...suggestion.root_causes.map((c) => ({ text: c.cause, refs: c.evidence_refs ?? [] })),
+    ...suggestion.recommended_steps.map((s) => ({
+      text: `${s.step} ${s.rationale ?? ""}`,
+      refs: s.evidence_refs ?? [],
+    })),
+  ];
+
+  const evidenceTerms = new Map(evidence.map((e) => [e.ref, distinctiveTerms(`${e.title} ${e.content}`)]));
+
+  let semantic: ((claimIdx: number, ref: string) => number) | null = null;
+  if (claims.length > 0 && evidence.length > 0) {
+    try {
+      const batch = await embedTexts([...claims.map((c) => c.text), ...evidence.map((e) => e.content)]);
+      if (batch.provider !== "hash") {
+        const refIdx = new Map(evidence.map((e, i) => [e.ref, claims.length + i]));
+        semantic = (claimIdx, ref) => {
+          const idx = refIdx.get(ref);
+          return idx === undefined ? 0 : cosineSimilarity(batch.vectors[claimIdx]!, batch.vectors[idx]!);
+        };
+      }
+    } catch (e) {
+      console.warn("Citation verifier: embeddings unavailable, lexical check only:", e);
+    }
+  }
+
+  let refsDropped = 0;
+  const supportedRefs = claims.map((claim, idx) => {
+    const claimTerms = distinctiveTerms(claim.text);
+    const kept = claim.refs.filter((ref) => {
+      if (!byRef.has(ref)) return false;
+      if (lexicalOverlap(claimTerms, evidenceTerms.get(ref)!) >= LEXICAL_MIN_OVERLAP) return true;
+      return !!semantic && semantic(idx, ref) >= SEMANTIC_MIN_SIMILARITY;
+    });
+    if (kept.length > 0) refsDropped += claim.refs.length - kept.length;
+    return kept;
+  });
+
+  const questions = [...suggestion.questions];
+  const rejectQuestion = (text: string, refs: string[]) =>
+    refs.length
+      ? `Unverified (cited ${refs.join(", ")}, which does not support it): ${text.trim()}`
+      : `Unverified (no evidence cited): ${text.trim()}`;
+
+  const causeCount = suggestion.root_causes.length;
+  const root_causes = suggestion.root_causes.flatMap((c, i) => {
+    const refs = supportedRefs[i]!;
+    if (refs.length === 0) {
+      questions.push(rejectQuestion(c.cause, c.evidence_refs ?? []));
+      return [];
+    }
+    return [{ ...c, evidence_refs: refs }];
+  });
+  const recommended_steps = suggestion.recommended_steps.flatMap((s, i) => {
+    const refs = supportedRefs[causeCount + i]!;
+    if (refs.length === 0) {
+      questions.push(rejectQuestion(s.step, s.evidence_refs ?? []));
+      return [];
+    }
+    return [{ ...s, evidence_refs: refs }];
+  });
+
+  const supported = root_causes.length + recommended_steps.length;
+  const rejected = claims.length - supported;
+  const before = suggestion.confidence_overall;
+  const after = claims.length > 0 ? before * (supported / claims.length) : before;
+
+  metrics().aiCitationClaimsTotal.inc({ status: "supported" }, supported);
+  metrics().aiCitationClaimsTotal.inc({ status: "rejected" }, rejected);
+
+  return {
+    suggestion: {
+      ...suggestion,
+      confidence_overall: Math.round(after * 100) / 100,
+      root_causes,
+      recommended_steps,
+      questions,
+    },
+    verification: {
+      claims_checked: claims.length,
+      claims_supported: supported,
+      claims_rejected: rejected,
+      refs_dropped: refsDropped,
+      confidence_before: before,
+      confidence_after: Math.round(after * 100) / 100,
+    },
+  };
+}
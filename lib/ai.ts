@@ -1,14 +1,54 @@
-import { ragSearch } from "@/lib/rag";
+import {
+  hasRagMetadataFilters,
+  ragDocumentKey,
+  ragSearchDocuments,
+  type RagMetadataFilters,
+  type RagSearchMode,
+} from "@/lib/rag";
 import { metrics } from "@/lib/metrics";
-
-const LOCAL_AI_ENDPOINT = process.env.LOCAL_AI_ENDPOINT ?? "http://localhost:8080";
-const LOCAL_AI_MODEL = process.env.LOCAL_AI_MODEL ?? "gpt-4";
+import { parseJsonCompletion, type ChatCompletionArgs } from "@/lib/ai-connector";
+import {
+  plannedModel,
+  routeCompletion,
+  routeCompletionStream,
+  type AiModelInfo,
+  type AiRouteOverride,
+  type AiTask,
+  type RoutedCompletion,
+} from "@/lib/ai-router";
+import {
+  checkAiSuggestion,
+  checkPostmortemDraft,
+  checkSopDraft,
+  checkTicketTriage,
+  type SchemaCheck,
+} from "@/lib/ai-schema";
+import { verifyCitations, type CitationVerification } from "@/lib/ai-verify";
+import { matchKnownErrors, type KnownErrorMatch } from "@/lib/problem-records";
+import { ticketToRagDocument } from "@/lib/rag-documents";
+import {
+  renderPromptTemplate,
+  resolvePromptTemplate,
+  type PromptTemplateRef,
+} from "@/lib/prompt-templates";
+import {
+  TICKET_PRIORITIES,
+  TICKET_TOPICS,
+  TICKET_TYPES,
+  type CatalogTicketPriority,
+  type CatalogTicketType,
+} from "@/lib/ticket-catalog";
+
+export { LocalAIConnector, type ChatCompletionArgs } from "@/lib/ai-connector";
+export type { AiModelInfo } from "@/lib/ai-router";
 
 export type EvidenceItem = {
   ref: string; // e.g. "E1"
   source_type: string;
   source_id: string;
   title: string;
+  section?: string | null; // which part of the document matched
+  status?: string | null; // SOP approval status; drafts are labelled in prompts
   score: number;
   content: string;
 };
@@ -17,6 +57,7 @@ export type AiSuggestInput = {
   title: string;
   description: string;
   topics?: string[];
+  filters?: RagMetadataFilters;
 };
 
 export type AiSuggestion = {
@@ -37,6 +78,22 @@ export type AiSuggestion = {
   questions: string[];
 };
 
+/**
+ * Per-call overrides used by the offline evaluation harness. Normal requests
+ * use the configured routing, the active prompt and default retrieval.
+ */
+export type AiSuggestOptions = {
+  route?: AiRouteOverride;
+  promptTemplateId?: string | null;
+  temperature?: number;
+  retrieval?: {
+    mode?: RagSearchMode;
+    limit?: number;
+    expandNeighbors?: number;
+    exclude?: string[]; // document keys ("ticket:<id>") kept out of the evidence
+  };
+};
+
 export type SopDraftInput = {
   ticketTitle: string;
   ticketDescription: string;
@@ -44,6 +101,7 @@ export type SopDraftInput = {
   validationNotes?: string;
   rollbackNotes?: string;
   topics?: string[];
+  filters?: RagMetadataFilters;
 };
 
 export type SopDraft = {
@@ -57,128 +115,112 @@ export type SopDraft = {
 };
 
 /**
- * LocalAIConnector provides a standardized, OpenAI-compatible interface
- * for interacting with local inference servers like LocalAI.
+ * The incident a postmortem is drafted from, as collected by
+ * lib/postmortems.ts: the ticket plus its timeline, comments and links.
  */
-export class LocalAIConnector {
-  private endpoint: string;
-  private model: string;
+export type PostmortemDraftInput = {
+  ticket: {
+    id: string;
+    external_id: string | null;
+    title: string;
+    description: string;
+    priority: string;
+    service: string | null;
+    site: string | null;
+    resolution_notes: string;
+    created_at: string;
+    resolved_at: string | null;
+  };
+  timeline: Array<{ at: string; actor: string | null; event: string }>;
+  comments: Array<{ at: string; author: string | null; internal: boolean; body: string }>;
+  links: Array<{ relation: string; title: string; type: string; status: string }>;
+};
 
-  constructor(endpoint: string = LOCAL_AI_ENDPOINT, model: string = LOCAL_AI_MODEL) {
-    this.endpoint = endpoint;
-    this.model = model;
-  }
+export type PostmortemDraft = {
+  summary: string;
+  timeline: Array<{ at: string; event: string }>;
+  impact: string;
+  root_cause: string;
+  contributing_factors: string[];
+  action_items: Array<{ action: string; owner: string | null; due_date: string | null }>;
+  references: string[]; // evidence refs
+};
 
-  async healthCheck(): Promise<boolean> {
-    try {
-      const res = await fetch(`${this.endpoint}/v1/models`, {
-        method: "GET",
-        headers: { "Content-Type": "application/json" },
-      });
-      return res.ok;
-    } catch {
-      return false;
-    }
-  }
+export type TriageInput = {
+  title: string;
+  description: string;
+};
 
-  async chatCompletion(args: {
-    system: string;
-    user: string;
-    temperature?: number;
-    maxTokens?: number;
-    json?: boolean;
-  }): Promise<any> {
-    let lastError: Error | null = null;
-    const maxRetries = 3;
-    const timeoutMs = 30_000;
-
-    for (let attempt = 1; attempt <= maxRetries; attempt++) {
-      const start = process.hrtime.bigint();
-      const controller = new AbortController();
-      const timeout = setTimeout(() => controller.abort(), timeoutMs);
-
-      try {
-        const payload: any = {
-          model: this.model,
-          messages: [
-            { role: "system", content: args.system },
-            { role: "user", content: args.user },
-          ],
-          temperature: args.temperature ?? 0.2,
-          max_tokens: args.maxTokens ?? 1000,
-        };
-
-        if (args.json) {
-          payload.response_format = { type: "json_object" };
-        }
-
-        const res = await fetch(`${this.endpoint}/v1/chat/completions`, {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify(payload),
-          signal: controller.signal,
-        });
-
-        if (!res.ok) {
-          const text = await res.text();
-          throw new Error(`LocalAI Error (${res.status}): ${text}`);
-        }
-
-        const data = await res.json();
-        const content = data.choices?.[0]?.message?.content ?? "";
-
-        const duration = Number(process.hrtime.bigint() - start) / 1e9;
-        metrics().llmLatencySeconds?.observe({ model: this.model, status: "success" }, duration);
-
-        // Instrument token usage
-        if (data.usage) {
-          metrics().llmTokensTotal?.inc(
-            { model: this.model, type: "prompt" },
-            data.usage.prompt_tokens ?? 0
-          );
-          metrics().llmTokensTotal?.inc(
-            { model: this.model, type: "completion" },
-            data.usage.completion_tokens ?? 0
-          );
-        }
-
-        if (args.json) {
-          try {
-            return JSON.parse(content);
-          } catch {
-            return { raw: content };
-          }
-        }
-        return content;
-      } catch (err: any) {
-        lastError = err;
-        const duration = Number(process.hrtime.bigint() - start) / 1e9;
-        metrics().llmLatencySeconds?.observe({ model: this.model, status: "error" }, duration);
-
-        if (err.name === "AbortError") {
-          console.warn(`LocalAI timeout on attempt ${attempt}`);
-        } else {
-          console.error(`LocalAI error on attempt ${attempt}:`, err.message);
-        }
-        // Wait briefly before retry
-        if (attempt < maxRetries) {
-          await new Promise((resolve) => setTimeout(resolve, 1000 * attempt));
-        }
-      } finally {
-        clearTimeout(timeout);
-      }
+export type TriageProposal<T extends string = string> = {
+  value: T;
+  confidence: number; // 0..1
+};
+
+/**
+ * Proposed classification for a new ticket. A field is null when the model
+ * had no basis for it; service and site are only ever copied from similar
+ * resolved tickets, never invented.
+ */
+export type TicketTriage = {
+  type: TriageProposal<CatalogTicketType> | null;
+  priority: TriageProposal<CatalogTicketPriority> | null;
+  topics: TriageProposal[];
+  service: TriageProposal | null;
+  site: TriageProposal | null;
+  rationale: string;
+};
+
+/**
+ * Events emitted by the streaming AI endpoints: evidence first (as soon as
+ * retrieval finishes), then raw completion tokens, then the parsed result.
+ * The evidence event names the backend the request is planned for; the
+ * result names the one that actually answered, which differs after failover.
+ */
+export type AiStreamEvent<T> =
+  | {
+      type: "evidence";
+      evidence: EvidenceItem[];
+      model: AiModelInfo;
+      known_errors?: KnownErrorMatch[]; // suggestions only
     }
+  | { type: "token"; text: string }
+  | { type: "repair"; attempt: number; errors: string[] }
+  | {
+      type: "result";
+      result: T;
+      validation: AiOutputValidation;
+      model: AiModelInfo;
+      prompt: PromptTemplateRef | null; // null when no model call was made
+      verification?: CitationVerification; // suggestions only
+    };
 
-    throw lastError || new Error("LocalAI request failed after retries");
-  }
-}
+/**
+ * How the model output fared against its schema: valid first time, valid
+ * after a repair prompt, partially valid (invalid items dropped) or failed
+ * (nothing usable; the raw text is returned). Skipped means the model was
+ * not called (e.g. no evidence) and a canned fallback was returned.
+ */
+export type AiOutputOutcome = "valid" | "repaired" | "partial" | "failed" | "skipped";
 
-const connector = new LocalAIConnector();
+export type AiOutputValidation = {
+  outcome: AiOutputOutcome;
+  attempts: number; // model calls made, including repairs
+  errors: string[]; // problems left in the final output
+};
 
 function buildEvidenceBlock(evidence: EvidenceItem[]) {
   return evidence
     .map((e) => {
-      const header = `${e.ref} [${e.source_type}:${e.source_id}] ${e.title} (score ${e.score.toFixed(
+      const section = e.section ? ` — ${e.section}` : "";
+      const label =
+        e.source_type === "sop"
+          ? e.status === "Approved"
+            ? " {APPROVED SOP}"
+            : " {DRAFT SOP - unapproved, treat as unverified}"
+          : e.source_type === "known_error"
+            ? " {KNOWN ERROR - documented workaround}"
+            : "";
+      const header = `${e.ref} [${e.source_type}:${e.source_id}]${label} ${e.title}${section} (score ${e.score.toFixed(
         3
       )})`;
       return `${header}\n${e.content}`;
@@ -186,41 +228,301 @@ function buildEvidenceBlock(evidence: EvidenceItem[]) {
     .join("\n\n---\n\n");
 }
 
+/**
+ * Returns up to `limit` distinct documents (not chunks) as E1..En evidence.
+ * `expandNeighbors` widens each hit with adjacent chunks of the same document.
+ */
 export async function retrieveEvidence(params: {
   query: string;
   limit?: number;
+  mode?: RagSearchMode;
+  filters?: RagMetadataFilters;
+  expandNeighbors?: number;
+  exclude?: string[];
 }): Promise<EvidenceItem[]> {
-  const results = await ragSearch({ query: params.query, limit: params.limit ?? 6 });
+  const limit = params.limit ?? 6;
+  // Hybrid by default: pasted error codes and hostnames need the lexical signal.
+  const mode = params.mode ?? "hybrid";
+  const excluded = new Set(params.exclude ?? []);
+  const search = {
+    query: params.query,
+    limit: limit + excluded.size,
+    mode,
+    expandNeighbors: params.expandNeighbors,
+  };
+  const keep = (docs: Awaited<ReturnType<typeof ragSearchDocuments>>) =>
+    docs.filter((r) => !excluded.has(ragDocumentKey(r))).slice(0, limit);
+
+  let results = keep(await ragSearchDocuments({ ...search, filters: params.filters }));
+
+  // Filters are a preference, not a hard constraint: matches at the same
+  // site/service come first, then the list is topped up from everywhere.
+  if (hasRagMetadataFilters(params.filters) && results.length < limit) {
+    const seen = new Set(results.map(ragDocumentKey));
+    const rest = keep(await ragSearchDocuments(search));
+    results = [...results, ...rest.filter((r) => !seen.has(ragDocumentKey(r)))].slice(0, limit);
+  }
 
   return results.map((r, idx) => ({
     ref: `E${idx + 1}`,
     source_type: r.source_type,
     source_id: r.source_id,
     title: r.title,
+    section: r.section,
+    status: r.source_type === "sop" ? (r.metadata?.status ?? null) : null,
     score: r.score,
     content: r.content,
   }));
 }
 
-export async function aiSuggest(input: AiSuggestInput): Promise<{
-  evidence: EvidenceItem[];
-  suggestion: AiSuggestion | { raw: string };
-  model: { host: string; name: string };
-}> {
-  const query = [
+/**
+ * Retrieval and prompt building are shared by the blocking and streaming
+ * entry points. With no evidence there is nothing to ground on, so a canned
+ * `fallback` answer is returned instead of a model request.
+ */
+type PreparedCompletion<T> =
+  | { evidence: EvidenceItem[]; task: AiTask; route?: AiRouteOverride; fallback: T }
+  | {
+      evidence: EvidenceItem[];
+      task: AiTask;
+      route?: AiRouteOverride;
+      prompt: PromptTemplateRef;
+      request: ChatCompletionArgs;
+      check: (output: unknown) => SchemaCheck<T>;
+    };
+
+type ModelCompletion<T> = Extract<PreparedCompletion<T>, { request: ChatCompletionArgs }>;
+
+type ValidatedOutput<T> = {
+  output: T | { raw: string };
+  validation: AiOutputValidation;
+  model: AiModelInfo;
+  prompt: PromptTemplateRef | null;
+};
+
+// Produces one completion, optionally yielding tokens along the way.
+type Completer = (
+  task: AiTask,
+  args: ChatCompletionArgs,
+  route?: AiRouteOverride
+) => AsyncGenerator<string, RoutedCompletion>;
+
+// Output shapes rendered into the {{schema}} prompt variable. They stay in
+// code rather than in the template registry because lib/ai-schema.ts checks
+// answers against exactly these shapes.
+const AI_SUGGESTION_SCHEMA = `{
+  "summary": string,
+  "confidence_overall": number,
+  "root_causes": [{"cause": string, "confidence": number, "evidence_refs": string[]}],
+  "recommended_steps": [{"step": string, "rationale": string, "evidence_refs": string[]}],
+  "validation_steps": string[],
+  "rollback_procedures": string[],
+  "questions": string[]
+}`;
+
+const SOP_DRAFT_SCHEMA = `{
+  "problem_description": string,
+  "symptoms": string[],
+  "root_cause": string,
+  "resolution_steps": string[],
+  "validation_steps": string[],
+  "rollback_procedures": string[],
+  "references": string[]
+}`;
+
+const POSTMORTEM_SCHEMA = `{
+  "summary": string,
+  "timeline": [{"at": string, "event": string}],
+  "impact": string,
+  "root_cause": string,
+  "contributing_factors": string[],
+  "action_items": [{"action": string, "owner": string | null, "due_date": string | null}],
+  "references": string[]
+}`;
+
+const TICKET_TRIAGE_SCHEMA = `{
+  "type": {"value": ${TICKET_TYPES.map((t) => JSON.stringify(t)).join(" | ")}, "confidence": number} | null,
+  "priority": {"value": ${TICKET_PRIORITIES.map((p) => JSON.stringify(p)).join(" | ")}, "confidence": number} | null,
+  "topics": [{"value": string, "confidence": number}],
+  "service": {"value": string, "confidence": number} | null,
+  "site": {"value": string, "confidence": number} | null,
+  "rationale": string
+}`;
+
+const MAX_REPAIR_ATTEMPTS = 2;
+const MAX_REPAIR_ECHO_CHARS = 4000;
+
+// A blocking call surfaces the whole completion as a single token.
+async function* blockingCompleter(
+  task: AiTask,
+  args: ChatCompletionArgs,
+  route?: AiRouteOverride
+): AsyncGenerator<string, RoutedCompletion> {
+  const completion = await routeCompletion(task, args, route);
+  yield completion.content;
+  return completion;
+}
+
+const streamingCompleter: Completer = routeCompletionStream;
+
+function buildRepairRequest(
+  original: ChatCompletionArgs,
+  previous: string,
+  errors: string[]
+): ChatCompletionArgs {
+  return {
+    ...original,
+    temperature: 0,
+    user: [
+      original.user,
+      "",
+      "YOUR PREVIOUS OUTPUT (invalid):",
+      previous.slice(0, MAX_REPAIR_ECHO_CHARS),
+      "",
+      "VALIDATION ERRORS:",
+      ...errors.slice(0, 20).map((e) => `- ${e}`),
+      "",
+      "Return ONLY the corrected JSON object matching the OUTPUT JSON SCHEMA. Only cite the evidence refs listed above.",
+    ].join("\n"),
+  };
+}
+
+/**
+ * Runs the completion and checks it against the task schema. Invalid output
+ * (bad JSON, wrong shape, unknown evidence refs) gets up to
+ * MAX_REPAIR_ATTEMPTS repair prompts; if it is still invalid, the salvaged
+ * part is returned as "partial", or the raw text as "failed".
+ */
+async function* completeValidated<T>(
+  prepared: ModelCompletion<T>,
+  complete: Completer
+): AsyncGenerator<AiStreamEvent<never>, ValidatedOutput<T>> {
+  let request = prepared.request;
+  const { prompt } = prepared;
+  let content = "";
+  let model: AiModelInfo | null = null;
+  let errors: string[] = [];
+  let salvaged: T | null = null;
+  let attempts = 0;
+
+  const finish = (result: ValidatedOutput<T>): ValidatedOutput<T> => {
+    metrics().aiOutputValidationTotal.inc({ task: prepared.task, outcome: result.validation.outcome }, 1);
+    return result;
+  };
+
+  for (let repair = 0; repair <= MAX_REPAIR_ATTEMPTS; repair++) {
+    if (repair > 0) {
+      yield { type: "repair", attempt: repair, errors };
+      request = buildRepairRequest(prepared.request, content, errors);
+    }
+
+    attempts++;
+    const completion = complete(prepared.task, request, prepared.route);
+    for (;;) {
+      const step = await completion.next();
+      if (step.done) {
+        ({ content, model } = step.value);
+        break;
+      }
+      yield { type: "token", text: step.value };
+    }
+    const check = prepared.check(parseJsonCompletion(content));
+
+    if (check.value && check.errors.length === 0) {
+      return finish({
+        output: check.value,
+        validation: { outcome: repair === 0 ? "valid" : "repaired", attempts, errors: [] },
+        model: model!,
+        prompt,
+      });
+    }
+
+    errors = check.errors;
+    if (check.value) salvaged = check.value;
+  }
+
+  if (salvaged) {
+    return finish({
+      output: salvaged,
+      validation: { outcome: "partial", attempts, errors },
+      model: model!,
+      prompt,
+    });
+  }
+  return finish({
+    output: { raw: content },
+    validation: { outcome: "failed", attempts, errors },
+    model: model!,
+    prompt,
+  });
+}
+
+const NOT_VALIDATED: AiOutputValidation = { outcome: "skipped", attempts: 0, errors: [] };
+
+async function runPrepared<T>(prepared: PreparedCompletion<T>): Promise<ValidatedOutput<T>> {
+  if ("fallback" in prepared) {
+    return {
+      output: prepared.fallback,
+      validation: NOT_VALIDATED,
+      model: await plannedModel(prepared.task, prepared.route),
+      prompt: null,
+    };
+  }
+
+  const run = completeValidated(prepared, blockingCompleter);
+  for (;;) {
+    const step = await run.next();
+    if (step.done) return step.value;
+  }
+}
+
+async function* streamPrepared<T>(
+  prepared: PreparedCompletion<T>
+): AsyncGenerator<AiStreamEvent<T | { raw: string }>> {
+  const planned = await plannedModel(prepared.task, prepared.route);
+  yield { type: "evidence", evidence: prepared.evidence, model: planned };
+
+  if ("fallback" in prepared) {
+    yield { type: "result", result: prepared.fallback, validation: NOT_VALIDATED, model: planned, prompt: null };
+    return;
+  }
+
+  const { output, validation, model, prompt } = yield* completeValidated(prepared, streamingCompleter);
+  yield { type: "result", result: output, validation, model, prompt };
+}
+
+/** The retrieval query aiSuggest runs for an issue. */
+export function buildSuggestQuery(input: AiSuggestInput): string {
+  return [
     input.title.trim(),
     input.description.trim(),
     (input.topics ?? []).length ? `Topics: ${(input.topics ?? []).join(", ")}` : "",
   ]
     .filter(Boolean)
     .join("\n");
+}
 
-  const evidence = await retrieveEvidence({ query, limit: 6 });
+async function prepareAiSuggest(
+  input: AiSuggestInput,
+  options: AiSuggestOptions = {}
+): Promise<PreparedCompletion<AiSuggestion>> {
+  const query = buildSuggestQuery(input);
+
+  const evidence = await retrieveEvidence({
+    query,
+    limit: options.retrieval?.limit ?? 6,
+    mode: options.retrieval?.mode,
+    expandNeighbors: options.retrieval?.expandNeighbors,
+    exclude: options.retrieval?.exclude,
+    filters: input.filters,
+  });
 
   if (evidence.length === 0) {
     return {
       evidence: [],
-      suggestion: {
+      task: "suggest",
+      route: options.route,
+      fallback: {
         summary:
           "Insufficient internal evidence available in RAG memory to provide grounded recommendations.",
         confidence_overall: 0,
@@ -232,68 +534,91 @@ export async function aiSuggest(input: AiSuggestInput): Promise<{
           "Add relevant prior resolutions/SOPs to RAG memory, or provide more context (exact errors, impacted hosts, time window, recent changes).",
         ],
       },
-      model: { host: LOCAL_AI_ENDPOINT, name: LOCAL_AI_MODEL },
     };
   }
 
-  const system = [
-    "You are an expert L2/L3 support engineer specializing in industrial software (MES, ERP, PLC) and enterprise IT systems.",
-    "Your objective: Provide highly technical, concise, and grounded resolution guidance.",
-    "BEYOND ALL: You MUST be strictly grounded in the provided EVIDENCE (RAG). Do not use outside knowledge or hallucinate commands.",
-    "If evidence is insufficient, clearly state that and ask specific technical questions.",
-    "Return ONLY valid JSON matching the requested schema. No markdown, no pre-amble.",
-    "All confidence values must be accurate numbers in [0,1] reflecting evidence strength.",
-  ].join(" ");
-
-  const user = [
-    "TASK: Analyze the issue and propose likely root causes and step-by-step resolution guidance.",
-    "",
-    "ISSUE:",
-    `Title: ${input.title}`,
-    `Description: ${input.description || "(none)"}`,
-    (input.topics ?? []).length ? `Topics: ${(input.topics ?? []).join(", ")}` : "",
-    "",
-    "EVIDENCE:",
-    buildEvidenceBlock(evidence),
-    "",
-    "OUTPUT JSON SCHEMA:",
-    `{
-  "summary": string,
-  "confidence_overall": number,
-  "root_causes": [{"cause": string, "confidence": number, "evidence_refs": string[]}],
-  "recommended_steps": [{"step": string, "rationale": string, "evidence_refs": string[]}],
-  "validation_steps": string[],
-  "rollback_procedures": string[],
-  "questions": string[]
-}`,
-    "",
-    "RULES:",
-    "- Every root cause and every step MUST include at least one evidence_refs entry from the provided refs (E1..En).",
-    "- If you cannot support something with evidence, do not include it; instead add it as a question.",
-  ]
-    .filter(Boolean)
-    .join("\n");
-
-  const suggestion = (await connector.chatCompletion({
-    system,
-    user,
-    temperature: 0.15,
-    maxTokens: 700,
-    json: true,
-  })) as AiSuggestion | { raw: string };
+  const template = await resolvePromptTemplate("suggest", options.promptTemplateId);
+  const vars = {
+    title: input.title,
+    description: input.description || "(none)",
+    topics: (input.topics ?? []).length ? `Topics: ${(input.topics ?? []).join(", ")}` : "",
+    evidence: buildEvidenceBlock(evidence),
+    schema: AI_SUGGESTION_SCHEMA,
+  };
+  const system = renderPromptTemplate(template.system, vars);
+  const user = renderPromptTemplate(template.user, vars);
 
+  const refs = evidence.map((e) => e.ref);
   return {
     evidence,
-    suggestion,
-    model: { host: LOCAL_AI_ENDPOINT, name: LOCAL_AI_MODEL },
+    request: { system, user, temperature: options.temperature ?? 0.15, maxTokens: 700, json: true },
+    task: "suggest",
+    route: options.route,
+    prompt: { id: template.id, key: template.key, version: template.version },
+    check: (output) => checkAiSuggestion(output, refs),
   };
 }
 
-export async function aiSopDraft(input: SopDraftInput): Promise<{
+// Known errors are a side lookup: a failure must not cost the suggestion.
+async function knownErrorsFor(input: AiSuggestInput): Promise<KnownErrorMatch[]> {
+  try {
+    return await matchKnownErrors(buildSuggestQuery(input));
+  } catch (e) {
+    console.error("Failed to match known errors:", e);
+    return [];
+  }
+}
+
+async function verifySuggestion(
+  output: AiSuggestion | { raw: string },
+  evidence: EvidenceItem[]
+): Promise<{ suggestion: AiSuggestion | { raw: string }; verification?: CitationVerification }> {
+  if ("raw" in output) return { suggestion: output };
+  return verifyCitations(output, evidence);
+}
+
+export async function aiSuggest(input: AiSuggestInput, options: AiSuggestOptions = {}): Promise<{
   evidence: EvidenceItem[];
-  sop: SopDraft | { raw: string };
-  model: { host: string; name: string };
+  suggestion: AiSuggestion | { raw: string };
+  validation: AiOutputValidation;
+  verification?: CitationVerification;
+  model: AiModelInfo;
+  prompt: PromptTemplateRef | null;
+  known_errors: KnownErrorMatch[]; // published workarounds matching the issue
 }> {
+  const [prepared, known_errors] = await Promise.all([prepareAiSuggest(input, options), knownErrorsFor(input)]);
+  const { output, validation, model, prompt } = await runPrepared(prepared);
+  const { suggestion, verification } = await verifySuggestion(output, prepared.evidence);
+  return {
+    evidence: prepared.evidence,
+    known_errors,
+    suggestion,
+    validation,
+    verification,
+    model,
+    prompt,
+  };
+}
+
+export async function* aiSuggestStream(
+  input: AiSuggestInput
+): AsyncGenerator<AiStreamEvent<AiSuggestion | { raw: string }>> {
+  const [prepared, known_errors] = await Promise.all([prepareAiSuggest(input), knownErrorsFor(input)]);
+  for await (const event of streamPrepared(prepared)) {
+    if (event.type === "evidence") {
+      yield { ...event, known_errors };
+      continue;
+    }
+    if (event.type !== "result") {
+      yield event;
+      continue;
+    }
+    const { suggestion, verification } = await verifySuggestion(event.result, prepared.evidence);
+    yield { ...event, result: suggestion, verification };
+  }
+}
+
+async function prepareAiSopDraft(input: SopDraftInput): Promise<PreparedCompletion<SopDraft>> {
   const query = [
     input.ticketTitle.trim(),
     input.ticketDescription.trim(),
@@ -303,12 +628,13 @@ export async function aiSopDraft(input: SopDraftInput): Promise<{
     .filter(Boolean)
     .join("\n");
 
-  const evidence = await retrieveEvidence({ query, limit: 8 });
+  const evidence = await retrieveEvidence({ query, limit: 8, filters: input.filters });
 
   if (evidence.length === 0) {
     return {
       evidence: [],
-      sop: {
+      task: "sop_draft",
+      fallback: {
         problem_description:
           "Insufficient internal evidence available in RAG memory to generate a grounded SOP draft.",
         symptoms: [],
@@ -318,60 +644,220 @@ export async function aiSopDraft(input: SopDraftInput): Promise<{
         rollback_procedures: [],
         references: [],
       },
-      model: { host: LOCAL_AI_ENDPOINT, name: LOCAL_AI_MODEL },
     };
   }
 
-  const system = [
-    "You are a technical documentation specialist and senior operations engineer.",
-    "TASK: Synthesize the provided resolution notes and RAG evidence into a professional Standard Operating Procedure (SOP).",
-    "RULES: Use strictly imperative, clear technical language. Ground all steps in the evidence and resolution notes provided.",
-    "Do not invent commands or configuration paths. If missing, be conservative.",
-    "Return ONLY valid JSON. No markdown summaries or chat chatter.",
-  ].join(" ");
-
-  const user = [
-    "TASK: Generate a Standard Operating Procedure (SOP) draft for the resolved issue.",
-    "",
-    "TICKET:",
-    `Title: ${input.ticketTitle}`,
-    `Description: ${input.ticketDescription || "(none)"}`,
-    (input.topics ?? []).length ? `Topics: ${(input.topics ?? []).join(", ")}` : "",
-    "",
-    "RESOLUTION NOTES (authoritative):",
-    input.resolutionNotes,
-    "",
-    "OPTIONAL NOTES:",
-    `Validation: ${input.validationNotes ?? "(none)"}`,
-    `Rollback: ${input.rollbackNotes ?? "(none)"}`,
-    "",
-    "EVIDENCE:",
-    buildEvidenceBlock(evidence),
-    "",
-    "OUTPUT JSON SCHEMA:",
-    `{
-  "problem_description": string,
-  "symptoms": string[],
-  "root_cause": string,
-  "resolution_steps": string[],
-  "validation_steps": string[],
-  "rollback_procedures": string[],
-  "references": string[]
-}`,
-    "",
-    "RULES:",
-    "- Use clear imperative steps.",
-    "- Include validation and rollback procedures if supported; otherwise keep them minimal and conservative.",
-    "- references must be evidence refs used (E1..En).",
-  ].join("\n");
-
-  const sop = (await connector.chatCompletion({
-    system,
-    user,
-    temperature: 0.1,
-    maxTokens: 900,
-    json: true,
-  })) as SopDraft | { raw: string };
-
-  return { evidence, sop, model: { host: LOCAL_AI_ENDPOINT, name: LOCAL_AI_MODEL } };
+  const template = await resolvePromptTemplate("sop_draft");
+  const vars = {
+    title: input.ticketTitle,
+    description: input.ticketDescription || "(none)",
+    topics: (input.topics ?? []).length ? `Topics: ${(input.topics ?? []).join(", ")}` : "",
+    resolution_notes: input.resolutionNotes,
+    validation_notes: input.validationNotes ?? "(none)",
+    rollback_notes: input.rollbackNotes ?? "(none)",
+    evidence: buildEvidenceBlock(evidence),
+    schema: SOP_DRAFT_SCHEMA,
+  };
+  const system = renderPromptTemplate(template.system, vars);
+  const user = renderPromptTemplate(template.user, vars);
+
+  const refs = evidence.map((e) => e.ref);
+  return {
+    evidence,
+    request: { system, user, temperature: 0.1, maxTokens: 900, json: true },
+    task: "sop_draft",
+    prompt: { id: template.id, key: template.key, version: template.version },
+    check: (output) => checkSopDraft(output, refs),
+  };
+}
+
+export async function aiSopDraft(input: SopDraftInput): Promise<{
+  evidence: EvidenceItem[];
+  sop: SopDraft | { raw: string };
+  validation: AiOutputValidation;
+  model: AiModelInfo;
+  prompt: PromptTemplateRef | null;
+}> {
+  const prepared = await prepareAiSopDraft(input);
+  const { output, validation, model, prompt } = await runPrepared(prepared);
+  return { evidence: prepared.evidence, sop: output, validation, model, prompt };
+}
+
+export async function* aiSopDraftStream(
+  input: SopDraftInput
+): AsyncGenerator<AiStreamEvent<SopDraft | { raw: string }>> {
+  yield* streamPrepared(await prepareAiSopDraft(input));
+}
+
+// Similar tickets are shown with their labels: that is what triage copies.
+function buildTriageEvidenceBlock(evidence: EvidenceItem[], labels: string[]) {
+  if (evidence.length === 0) return "(no similar resolved tickets found)";
+  return evidence
+    .map((e, i) => `${e.ref} [${e.source_type}:${e.source_id}] ${e.title} (score ${e.score.toFixed(3)})\n${labels[i]}\n${e.content}`)
+    .join("\n\n---\n\n");
+}
+
+function distinctLabels(values: unknown[]): string[] {
+  return [...new Set(values.filter((v): v is string => typeof v === "string" && v.trim() !== ""))];
+}
+
+async function prepareAiTriage(input: TriageInput): Promise<PreparedCompletion<TicketTriage>> {
+  const query = [input.title.trim(), input.description.trim()].filter(Boolean).join("\n");
+
+  // Only resolved tickets carry trustworthy labels; SOPs have none to copy.
+  const docs = await ragSearchDocuments({ query, limit: 5, mode: "hybrid", filterSourceType: "ticket" });
+  const evidence: EvidenceItem[] = docs.map((d, idx) => ({
+    ref: `E${idx + 1}`,
+    source_type: d.source_type,
+    source_id: d.source_id,
+    title: d.title,
+    section: d.section,
+    score: d.score,
+    content: d.content,
+  }));
+  const labels = docs.map((d) =>
+    [
+      `Type: ${d.metadata?.type ?? "unknown"}`,
+      `Priority: ${d.metadata?.priority ?? "unknown"}`,
+      `Service: ${d.metadata?.service || "none"}`,
+      `Site: ${d.metadata?.site || "none"}`,
+      `Topics: ${(d.metadata?.topics ?? []).join(", ") || "none"}`,
+    ].join(" | ")
+  );
+
+  const template = await resolvePromptTemplate("triage");
+  const vars = {
+    title: input.title,
+    description: input.description || "(none)",
+    topic_catalog: TICKET_TOPICS.join(", "),
+    evidence: buildTriageEvidenceBlock(evidence, labels),
+    schema: TICKET_TRIAGE_SCHEMA,
+  };
+  const system = renderPromptTemplate(template.system, vars);
+  const user = renderPromptTemplate(template.user, vars);
+
+  const known = {
+    topics: TICKET_TOPICS,
+    services: distinctLabels(docs.map((d) => d.metadata?.service)),
+    sites: distinctLabels(docs.map((d) => d.metadata?.site)),
+  };
+  return {
+    evidence,
+    request: { system, user, temperature: 0, maxTokens: 400, json: true },
+    task: "triage",
+    prompt: { id: template.id, key: template.key, version: template.version },
+    check: (output) => checkTicketTriage(output, known),
+  };
+}
+
+/**
+ * Proposes type, priority, topics, service and site for a new ticket from
+ * its text and the labels of similar resolved tickets. Unlike suggestions,
+ * triage runs without evidence too: the text alone still says a lot.
+ */
+export async function aiTriage(input: TriageInput): Promise<{
+  evidence: EvidenceItem[];
+  triage: TicketTriage | { raw: string };
+  validation: AiOutputValidation;
+  model: AiModelInfo;
+  prompt: PromptTemplateRef | null;
+}> {
+  const prepared = await prepareAiTriage(input);
+  const { output, validation, model, prompt } = await runPrepared(prepared);
+  return { evidence: prepared.evidence, triage: output, validation, model, prompt };
+}
+
+// Long work notes are clipped so one pasted log cannot crowd out the timeline.
+const MAX_POSTMORTEM_COMMENT_CHARS = 1500;
+
+function buildPostmortemVars(input: PostmortemDraftInput) {
+  const { ticket } = input;
+  const incident = [
+    `Priority: ${ticket.priority}`,
+    `Service: ${ticket.service || "unknown"}`,
+    `Site: ${ticket.site || "unknown"}`,
+    `Opened: ${ticket.created_at}`,
+    `Resolved: ${ticket.resolved_at ?? "not yet"}`,
+    ticket.resolution_notes.trim() ? `Resolution notes:\n${ticket.resolution_notes.trim()}` : "",
+  ]
+    .filter(Boolean)
+    .join("\n");
+
+  const timeline = input.timeline.length
+    ? input.timeline.map((e) => `${e.at} — ${e.event}${e.actor ? ` (${e.actor})` : ""}`).join("\n")
+    : "(no events recorded)";
+
+  const comments = input.comments.length
+    ? input.comments
+        .map((c) => {
+          const body =
+            c.body.length > MAX_POSTMORTEM_COMMENT_CHARS ? `${c.body.slice(0, MAX_POSTMORTEM_COMMENT_CHARS)}…` : c.body;
+          return `${c.at} ${c.author ?? "unknown"}${c.internal ? " [work note]" : ""}:\n${body}`;
+        })
+        .join("\n\n")
+    : "(none)";
+
+  const links = input.links.length
+    ? input.links.map((l) => `${l.relation}: ${l.type} “${l.title}” (${l.status})`).join("\n")
+    : "(none)";
+
+  return { incident, timeline, comments, links };
+}
+
+async function prepareAiPostmortemDraft(input: PostmortemDraftInput): Promise<PreparedCompletion<PostmortemDraft>> {
+  const { ticket } = input;
+  const query = [ticket.title.trim(), ticket.description.trim(), ticket.resolution_notes.trim()]
+    .filter(Boolean)
+    .join("\n");
+
+  // The incident's own memory entries (the ticket, and its postmortem once
+  // approved) would only echo the record given above.
+  const evidence = await retrieveEvidence({
+    query,
+    limit: 4,
+    exclude: [`ticket:${ticketToRagDocument(ticket).sourceId}`, `postmortem:${ticket.id}`],
+  });
+
+  const template = await resolvePromptTemplate("postmortem");
+  const vars = {
+    title: ticket.title,
+    description: ticket.description || "(none)",
+    ...buildPostmortemVars(input),
+    evidence: evidence.length ? buildEvidenceBlock(evidence) : "(none)",
+    schema: POSTMORTEM_SCHEMA,
+  };
+  const system = renderPromptTemplate(template.system, vars);
+  const user = renderPromptTemplate(template.user, vars);
+
+  const refs = evidence.map((e) => e.ref);
+  return {
+    evidence,
+    request: { system, user, temperature: 0.1, maxTokens: 1400, json: true },
+    task: "postmortem",
+    prompt: { id: template.id, key: template.key, version: template.version },
+    check: (output) => checkPostmortemDraft(output, refs),
+  };
+}
+
+/**
+ * Drafts a postmortem from an incident's record, timeline, comments and
+ * links. Like triage it runs without evidence too: the incident record is
+ * the source, past incidents and SOPs are only background.
+ */
+export async function aiPostmortemDraft(input: PostmortemDraftInput): Promise<{
+  evidence: EvidenceItem[];
+  postmortem: PostmortemDraft | { raw: string };
+  validation: AiOutputValidation;
+  model: AiModelInfo;
+  prompt: PromptTemplateRef | null;
+}> {
+  const prepared = await prepareAiPostmortemDraft(input);
+  const { output, validation, model, prompt } = await runPrepared(prepared);
+  return { evidence: prepared.evidence, postmortem: output, validation, model, prompt };
+}
+
+export async function* aiPostmortemDraftStream(
+  input: PostmortemDraftInput
+): AsyncGenerator<AiStreamEvent<PostmortemDraft | { raw: string }>> {
+  yield* streamPrepared(await prepareAiPostmortemDraft(input));
 }
@@ -7,6 +7,102 @@ export type TicketPriority = "P1" | "P2" | "P3" | "P4";
 export type TicketRow = Tables<"tickets">;
 export type TicketEventRow = Tables<"ticket_events">;
 export type SopRow = Tables<"sops">;
+export type RagReindexJobRow = Tables<"rag_reindex_jobs">;
+export type RagDocumentRow = Tables<"rag_documents">;
+export type RagDocumentCurationRow = Tables<"rag_document_curation">;
+export type RagItemRow = Omit<Tables<"rag_items">, "embedding" | "search_tsv">;
+export type PromptTemplateRow = Tables<"ai_prompt_templates">;
+export type PromptTemplateKey = "suggest" | "sop_draft" | "triage" | "postmortem";
+export type AiEvalRunRow = Tables<"ai_eval_runs">;
+export type AiEvalResultRow = Tables<"ai_eval_results">;
+export type TicketLinkRow = Tables<"ticket_links">;
+export type TicketCommentRow = Tables<"ticket_comments">;
+export type CommentVisibility = "public" | "internal";
+export type TeamRow = Tables<"teams">;
+export type SlaPolicyRow = Tables<"sla_policies">;
+export type BusinessCalendarRow = Tables<"business_calendars">;
+export type TicketSlaRow = Tables<"ticket_slas">;
+export type ChangeRequestRow = Tables<"change_requests">;
+export type ChangeApproverRow = Tables<"change_approvers">;
+export type ChangeRisk = "Low" | "Medium" | "High";
+export type ProblemRecordRow = Tables<"problem_records">;
+export type PostmortemRow = Tables<"postmortems">;
+export type PostmortemTimelineEntry = { at: string; event: string };
+export type PostmortemActionItem = { action: string; owner: string | null; due_date: string | null };
+
+export type ChangeRequest = ChangeRequestRow & { approvers: Array<ChangeApproverRow & { username: string }> };
+
+export type SlaStatus = {
+    ticket_id: string;
+    external_id: string | null;
+    title: string;
+    status: string;
+    priority: string;
+    assigned_to: string | null;
+    target: "response" | "resolution";
+    due_at: string;
+    remaining_minutes: number;
+    elapsed_ratio: number;
+    breached: boolean;
+    at_risk: boolean;
+    paused: boolean;
+};
+
+export type Team = TeamRow & { members: Array<{ user_id: string; username: string }> };
+
+export type EngineerWorkload = {
+    user_id: string;
+    username: string;
+    role: string;
+    open: number;
+    in_progress: number;
+    by_priority: Record<string, number>;
+};
+
+export type Workload = {
+    engineers: EngineerWorkload[];
+    teams: Array<{ team_id: string; name: string; open: number; unassigned: number }>;
+    unassigned: number;
+};
+
+export type WorkflowRequirement = "resolution_notes" | "assigned_to" | "service" | "site" | "approval";
+
+export type WorkflowTransition = {
+    from: TicketStatus[];
+    to: TicketStatus;
+    roles: Array<"Admin" | "Engineer" | "Viewer">;
+    requires: WorkflowRequirement[];
+};
+
+export type Workflow = {
+    ticket_type: TicketType;
+    transitions: WorkflowTransition[];
+    customized: boolean;
+    updated_at: string | null;
+};
+
+export type WorkflowViolation = {
+    rule: "status" | "transition" | "role" | "required_field";
+    message: string;
+    field?: WorkflowRequirement;
+    roles?: string[];
+};
+
+export type TransitionOption = {
+    to: TicketStatus;
+    allowed: boolean;
+    requires: WorkflowRequirement[];
+    violations: WorkflowViolation[];
+};
+
+export type RagMetadataFilters = {
+    service?: string;
+    site?: string;
+    topics?: string[];
+    priorities?: string[];
+    resolvedAfter?: string;
+    resolvedBefore?: string;
+};
 
 export type AiSuggestion =
     | {
@@ -40,6 +136,194 @@ export type SopDraft =
     }
     | { raw: string };
 
+export type PostmortemDraft =
+    | {
+        summary: string;
+        timeline: PostmortemTimelineEntry[];
+        impact: string;
+        root_cause: string;
+        contributing_factors: string[];
+        action_items: PostmortemActionItem[];
+        references: string[];
+    }
+    | { raw: string };
+
+export type AiEvidence = {
+    ref: string;
+    source_type: string;
+    source_id: string;
+    title: string;
+    section?: string | null;
+    status?: string | null;
+    score: number;
+    content: string;
+};
+
+export type AiOutputValidation = {
+    outcome: "valid" | "repaired" | "partial" | "failed" | "skipped";
+    attempts: number;
+    errors: string[];
+};
+
+export type CitationVerification = {
+    claims_checked: number;
+    claims_supported: number;
+    claims_rejected: number;
+    refs_dropped: number;
+    confidence_before: number;
+    confidence_after: number;
+};
+
+export type AiModelInfo = {
+    host: string;
+    name: string;
+    backend: string;
+};
+
+export type PromptTemplateRef = {
+    id: string | null;
+    key: PromptTemplateKey;
+    version: number;
+};
+
+export type AiEvalConfig = {
+    route?: { backend?: string; endpoint?: string; model?: string };
+    promptTemplateId?: string | null;
+    temperature?: number;
+    retrieval?: { mode?: "vector" | "lexical" | "hybrid"; limit?: number; expandNeighbors?: number };
+};
+
+export type AiEvalSummary = {
+    cases: number;
+    cases_failed: number;
+    json_valid_rate: number | null;
+    outcomes: Record<string, number>;
+    citation_coverage: number | null;
+    resolution_overlap: number | null;
+    retrieval_recall: number | null;
+    avg_latency_ms: number | null;
+    avg_human_rating: number | null;
+};
+
+export type AiEvalComparison = {
+    base: Pick<AiEvalRunRow, "id" | "name" | "config" | "started_at">;
+    candidate: Pick<AiEvalRunRow, "id" | "name" | "config" | "started_at">;
+    common_cases: number;
+    metrics: Array<{ metric: string; base: number | null; candidate: number | null; delta: number | null }>;
+    cases: Array<{ ticket_id: string; base: Partial<AiEvalResultRow>; candidate: Partial<AiEvalResultRow> }>;
+};
+
+export type AiBackendStatus = {
+    name: string;
+    endpoint: string;
+    models: Record<string, string>;
+    healthy: boolean | null;
+    circuit: "closed" | "open" | "half_open";
+    consecutive_failures: number;
+};
+
+export type TriageProposal<T extends string = string> = { value: T; confidence: number };
+
+export type TicketTriage = {
+    type: TriageProposal<TicketType> | null;
+    priority: TriageProposal<TicketPriority> | null;
+    topics: TriageProposal[];
+    service: TriageProposal | null;
+    site: TriageProposal | null;
+    rationale: string;
+};
+
+export type TriageField = "type" | "priority" | "topics" | "service" | "site";
+
+export type DuplicateCandidate = {
+    ticket_id: string;
+    external_id: string | null;
+    title: string;
+    status: string;
+    priority: string | null;
+    source: "open" | "memory";
+    score: number;
+    likely: boolean;
+};
+
+export type DuplicateDecision =
+    | { action: "proceed" }
+    | { action: "link" | "merge"; ticketId: string };
+
+// parent_of is stored as child_of from the other ticket.
+export type TicketLinkType = "duplicate_of" | "caused_by" | "child_of" | "parent_of" | "related";
+
+export type TicketLink = {
+    id: string;
+    link_type: Exclude<TicketLinkType, "parent_of">;
+    relation: string;
+    ticket: Pick<
+        TicketRow,
+        "id" | "external_id" | "title" | "type" | "priority" | "status" | "service" | "site" | "created_at"
+    >;
+    created_at: string;
+};
+
+export type ProblemRollup = {
+    incidents: number;
+    open: number;
+    by_status: Record<string, number>;
+    by_priority: Record<string, number>;
+    services: string[];
+    sites: string[];
+    first_reported_at: string | null;
+    last_reported_at: string | null;
+};
+
+export type LinkedTicket = TicketLink["ticket"];
+
+export type KnownErrorMatch = {
+    problem_id: string;
+    external_id: string | null;
+    title: string;
+    workaround: string;
+    score: number;
+};
+
+export type TriagePreview = {
+    proposal: TicketTriage;
+    model: AiModelInfo | null;
+    prompt: PromptTemplateRef | null;
+    similar: string[];
+    threshold: number;
+};
+
+export type TriageRecord = Omit<TriagePreview, "threshold"> & {
+    mode: "auto" | "preview";
+    applied: TriageField[];
+    threshold: number | null;
+};
+
+export type AiStreamEvent<T> =
+    | { type: "evidence"; evidence: AiEvidence[]; model: AiModelInfo; known_errors?: KnownErrorMatch[] }
+    | { type: "token"; text: string }
+    | { type: "repair"; attempt: number; errors: string[] }
+    | {
+        type: "result";
+        result: T;
+        validation: AiOutputValidation;
+        model: AiModelInfo;
+        prompt: PromptTemplateRef | null;
+        verification?: CitationVerification;
+    };
+
+/** A non-2xx API response; `body` keeps whatever else the route returned. */
+export class ApiError extends Error {
+    constructor(
+        message: string,
+        readonly status: number,
+        readonly body: any
+    ) {
+        super(message);
+        this.name = "ApiError";
+    }
+}
+
 async function apiFetch<T>(
     url: string,
     options?: RequestInit
@@ -55,12 +339,62 @@ async function apiFetch<T>(
     const json = await res.json();
 
     if (!res.ok) {
-        throw new Error(json.error || json.message || "Request failed");
+        throw new ApiError(json.error || json.message || "Request failed", res.status, json);
     }
 
     return json as T;
 }
 
+/**
+ * POSTs `body` and consumes the Server-Sent Events response, calling
+ * `onEvent` per frame. An `error` frame rejects the returned promise.
+ */
+async function apiStream<E extends { type: string }>(
+    url: string,
+    body: unknown,
+    onEvent: (event: E) => void
+): Promise<void> {
+    const res = await fetch(url, {
+        method: "POST",
+        headers: {
+            "Content-Type": "application/json",
+            Accept: "text/event-stream",
+        },
+        body: JSON.stringify(body),
+    });
+
+    if (!res.ok || !res.body) {
+        const json = await res.json().catch(() => ({}));
+        throw new Error(json.error || json.message || "Request failed");
+    }
+
+    const reader = res.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+
+    for (;;) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+
+        const frames = buffer.split("\n\n");
+        buffer = frames.pop() ?? "";
+
+        for (const frame of frames) {
+            const data = frame
+                .split("\n")
+                .filter((line) => line.startsWith("data:"))
+                .map((line) => line.slice(5).trim())
+                .join("\n");
+            if (!data) continue;
+
+            const event = JSON.parse(data);
+            if (event.type === "error") throw new Error(event.error || "Stream failed");
+            onEvent(event as E);
+        }
+    }
+}
+
 // Auth
 export const authApi = {
     getMe: () => apiFetch<{ user: any; ok: boolean }>("/api/auth/me"),
@@ -79,20 +413,49 @@ export const authApi = {
 
 // Tickets
 export const ticketApi = {
-    list: (filters: { status?: string; q?: string; topics?: string }) => {
+    // assigned: "me" | "unassigned" | user id; team: team id | "none"
+    list: (filters: { status?: string; q?: string; topics?: string; assigned?: string; team?: string }) => {
         const params = new URLSearchParams();
         if (filters.status && filters.status !== "All") params.set("status", filters.status);
         if (filters.q) params.set("q", filters.q);
         if (filters.topics) params.set("topics", filters.topics);
+        if (filters.assigned) params.set("assigned", filters.assigned);
+        if (filters.team) params.set("team", filters.team);
         return apiFetch<{ tickets: TicketRow[] }>(`/api/tickets?${params.toString()}`);
     },
-    create: (ticket: Partial<TicketRow>) =>
-        apiFetch<{ ok: boolean; ticket: TicketRow }>("/api/tickets", {
+    // A 409 ApiError carries `body.duplicates: DuplicateCandidate[]`; resend with `duplicate` set.
+    create: (ticket: Partial<TicketRow> & { triage?: true | TriagePreview; duplicate?: DuplicateDecision }) =>
+        apiFetch<{
+            ok: boolean;
+            ticket: TicketRow;
+            merged?: boolean;
+            triage: TriageRecord | null;
+            triageError: string | null;
+        }>("/api/tickets", {
             method: "POST",
             body: JSON.stringify(ticket),
         }),
     getEvents: (ticketId: string) =>
-        apiFetch<{ events: TicketEventRow[] }>(`/api/tickets/${ticketId}/events`),
+        apiFetch<{ ok: boolean; events: TicketEventRow[] }>(`/api/tickets/${ticketId}/events`),
+    // Internal work notes are only returned to Engineers and Admins.
+    listComments: (ticketId: string) =>
+        apiFetch<{ ok: boolean; comments: TicketCommentRow[] }>(`/api/tickets/${ticketId}/comments`),
+    addComment: (ticketId: string, comment: { body: string; visibility: CommentVisibility }) =>
+        apiFetch<{ ok: boolean; comment: TicketCommentRow }>(`/api/tickets/${ticketId}/comments`, {
+            method: "POST",
+            body: JSON.stringify(comment),
+        }),
+    updateComment: (
+        ticketId: string,
+        commentId: string,
+        patch: { body?: string; visibility?: CommentVisibility }
+    ) =>
+        apiFetch<{ ok: boolean; comment: TicketCommentRow }>(`/api/tickets/${ticketId}/comments/${commentId}`, {
+            method: "PATCH",
+            body: JSON.stringify(patch),
+        }),
+    deleteComment: (ticketId: string, commentId: string) =>
+        apiFetch<{ ok: boolean }>(`/api/tickets/${ticketId}/comments/${commentId}`, { method: "DELETE" }),
     update: (ticketId: string, updates: Partial<TicketRow>) =>
         apiFetch<{ ok: boolean; ticket: TicketRow }>(`/api/tickets/${ticketId}`, {
             method: "PATCH",
@@ -100,10 +463,116 @@ export const ticketApi = {
         }),
     delete: (ticketId: string) =>
         apiFetch<{ ok: boolean }>(`/api/tickets/${ticketId}`, { method: "DELETE" }),
-    updateStatus: (ticketId: string, status: TicketStatus) =>
+    // A 422 ApiError carries `body.violations: WorkflowViolation[]`.
+    updateStatus: (ticketId: string, status: TicketStatus, resolutionNotes?: string) =>
         apiFetch<{ ok: boolean; ticket: TicketRow }>(`/api/tickets/${ticketId}/status`, {
             method: "POST",
-            body: JSON.stringify({ status }),
+            body: JSON.stringify({ status, resolutionNotes }),
+        }),
+    // Change tickets only; `change` is null until the plan is first saved.
+    getChange: (ticketId: string) =>
+        apiFetch<{ ok: boolean; change: ChangeRequest | null }>(`/api/tickets/${ticketId}/change`),
+    // Editing a submitted plan returns it to draft (`reopened`).
+    saveChange: (
+        ticketId: string,
+        change: {
+            risk?: ChangeRisk;
+            window_start?: string | null;
+            window_end?: string | null;
+            affected_assets?: string[];
+            backout_plan?: string;
+            quorum?: number;
+            approver_ids?: string[];
+        }
+    ) =>
+        apiFetch<{ ok: boolean; change: ChangeRequest; reopened: boolean }>(`/api/tickets/${ticketId}/change`, {
+            method: "PUT",
+            body: JSON.stringify(change),
+        }),
+    submitChange: (ticketId: string) =>
+        apiFetch<{ ok: boolean; change: ChangeRequest }>(`/api/tickets/${ticketId}/change/submit`, { method: "POST" }),
+    decideChange: (ticketId: string, decision: "approved" | "rejected", comment?: string) =>
+        apiFetch<{ ok: boolean; change: ChangeRequest; settled: boolean }>(`/api/tickets/${ticketId}/change/decision`, {
+            method: "POST",
+            body: JSON.stringify({ decision, comment }),
+        }),
+    // Problem tickets only; `problem` is null until the record is first saved.
+    getProblem: (ticketId: string) =>
+        apiFetch<{ ok: boolean; problem: ProblemRecordRow | null; incidents: LinkedTicket[] }>(
+            `/api/tickets/${ticketId}/problem`
+        ),
+    saveProblem: (
+        ticketId: string,
+        problem: { root_cause?: string; workaround?: string; permanent_fix?: string }
+    ) =>
+        apiFetch<{ ok: boolean; problem: ProblemRecordRow }>(`/api/tickets/${ticketId}/problem`, {
+            method: "PUT",
+            body: JSON.stringify(problem),
+        }),
+    publishProblem: (ticketId: string) =>
+        apiFetch<{ ok: boolean; problem: ProblemRecordRow }>(`/api/tickets/${ticketId}/problem/publish`, {
+            method: "POST",
+        }),
+    unpublishProblem: (ticketId: string) =>
+        apiFetch<{ ok: boolean; problem: ProblemRecordRow }>(`/api/tickets/${ticketId}/problem/publish`, {
+            method: "DELETE",
+        }),
+    // P1/P2 incidents only; `postmortem` is null until a draft is first saved.
+    getPostmortem: (ticketId: string) =>
+        apiFetch<{ ok: boolean; postmortem: PostmortemRow | null }>(`/api/tickets/${ticketId}/postmortem`),
+    savePostmortem: (
+        ticketId: string,
+        postmortem: {
+            title?: string;
+            summary?: string;
+            timeline?: PostmortemTimelineEntry[];
+            impact?: string;
+            root_cause?: string;
+            contributing_factors?: string[];
+            action_items?: PostmortemActionItem[];
+            references?: string[];
+        }
+    ) =>
+        apiFetch<{ ok: boolean; postmortem: PostmortemRow }>(`/api/tickets/${ticketId}/postmortem`, {
+            method: "PUT",
+            body: JSON.stringify(postmortem),
+        }),
+    approvePostmortem: (ticketId: string) =>
+        apiFetch<{ ok: boolean; postmortem: PostmortemRow }>(`/api/tickets/${ticketId}/postmortem/approve`, {
+            method: "POST",
+        }),
+    deletePostmortem: (ticketId: string) =>
+        apiFetch<{ ok: boolean }>(`/api/tickets/${ticketId}/postmortem`, { method: "DELETE" }),
+    transitions: (ticketId: string) =>
+        apiFetch<{ ok: boolean; status: TicketStatus; transitions: TransitionOption[] }>(
+            `/api/tickets/${ticketId}/transitions`
+        ),
+    // Omitted keys stay as they are; null clears, "me" assigns the caller.
+    assign: (ticketId: string, assignment: { assignedTo?: string | null; teamId?: string | null }) =>
+        apiFetch<{ ok: boolean; ticket: TicketRow }>(`/api/tickets/${ticketId}/assign`, {
+            method: "POST",
+            body: JSON.stringify(assignment),
+        }),
+    workload: () => apiFetch<{ ok: boolean } & Workload>("/api/tickets/workload"),
+    getSla: (ticketId: string) =>
+        apiFetch<{ ok: boolean; sla: TicketSlaRow | null }>(`/api/tickets/${ticketId}/sla`),
+    // `rollup` is set for Problem tickets: the Incidents linked to them.
+    listLinks: (ticketId: string) =>
+        apiFetch<{ ok: boolean; links: TicketLink[]; rollup: ProblemRollup | null }>(
+            `/api/tickets/${ticketId}/links`
+        ),
+    addLink: (ticketId: string, type: TicketLinkType, otherTicketId: string) =>
+        apiFetch<{ ok: boolean; link: TicketLinkRow }>(`/api/tickets/${ticketId}/links`, {
+            method: "POST",
+            body: JSON.stringify({ type, ticketId: otherTicketId }),
+        }),
+    removeLink: (ticketId: string, linkId: string) =>
+        apiFetch<{ ok: boolean }>(`/api/tickets/${ticketId}/links/${linkId}`, { method: "DELETE" }),
+    // Folds `ticketIds` into `ticketId`, closing them as its duplicates.
+    merge: (ticketId: string, ticketIds: string[]) =>
+        apiFetch<{ ok: boolean; ticket: TicketRow; merged: string[] }>(`/api/tickets/${ticketId}/merge`, {
+            method: "POST",
+            body: JSON.stringify({ ticketIds }),
         }),
 };
 
@@ -115,6 +584,16 @@ export const sopApi = {
         if (filters.tags?.length) params.set("tags", filters.tags.join(","));
         return apiFetch<{ sops: SopRow[] }>(`/api/sops?${params.toString()}`);
     },
+    get: (sopId: string) => apiFetch<{ ok: boolean; sop: SopRow }>(`/api/sops/${sopId}`),
+    update: (sopId: string, updates: Partial<SopRow>) =>
+        apiFetch<{ ok: boolean; sop: SopRow }>(`/api/sops/${sopId}`, {
+            method: "PATCH",
+            body: JSON.stringify(updates),
+        }),
+    approve: (sopId: string) =>
+        apiFetch<{ ok: boolean; sop: SopRow }>(`/api/sops/${sopId}/approve`, { method: "POST" }),
+    delete: (sopId: string) =>
+        apiFetch<{ ok: boolean }>(`/api/sops/${sopId}`, { method: "DELETE" }),
 };
 
 // Admin
@@ -132,6 +611,74 @@ export const adminApi = {
         }),
 };
 
+// Teams (ticket queues)
+export const teamApi = {
+    list: () => apiFetch<{ ok: boolean; teams: Team[] }>("/api/teams"),
+    create: (team: { name: string; description?: string; memberIds?: string[] }) =>
+        apiFetch<{ ok: boolean; team: TeamRow }>("/api/teams", {
+            method: "POST",
+            body: JSON.stringify(team),
+        }),
+    update: (teamId: string, updates: { name?: string; description?: string; memberIds?: string[] }) =>
+        apiFetch<{ ok: boolean; team: TeamRow }>(`/api/teams/${teamId}`, {
+            method: "PATCH",
+            body: JSON.stringify(updates),
+        }),
+    delete: (teamId: string) =>
+        apiFetch<{ ok: boolean }>(`/api/teams/${teamId}`, { method: "DELETE" }),
+};
+
+// Status workflows per ticket type
+export const workflowApi = {
+    list: () =>
+        apiFetch<{ ok: boolean; workflows: Workflow[]; statuses: TicketStatus[]; requirements: WorkflowRequirement[] }>(
+            "/api/workflows"
+        ),
+    save: (ticketType: TicketType, transitions: WorkflowTransition[]) =>
+        apiFetch<{ ok: boolean }>(`/api/workflows/${encodeURIComponent(ticketType)}`, {
+            method: "PUT",
+            body: JSON.stringify({ transitions }),
+        }),
+    reset: (ticketType: TicketType) =>
+        apiFetch<{ ok: boolean; transitions: WorkflowTransition[] }>(`/api/workflows/${encodeURIComponent(ticketType)}`, {
+            method: "DELETE",
+        }),
+};
+
+// SLA policies, business calendars and breach risk
+export const slaApi = {
+    atRisk: (limit?: number) =>
+        apiFetch<{ ok: boolean; items: SlaStatus[]; breached: number; atRisk: number; riskRatio: number }>(
+            `/api/sla/at-risk${limit ? `?limit=${limit}` : ""}`
+        ),
+    listPolicies: () => apiFetch<{ ok: boolean; policies: SlaPolicyRow[] }>("/api/sla/policies"),
+    createPolicy: (policy: Partial<SlaPolicyRow>) =>
+        apiFetch<{ ok: boolean; policy: SlaPolicyRow }>("/api/sla/policies", {
+            method: "POST",
+            body: JSON.stringify(policy),
+        }),
+    updatePolicy: (policyId: string, patch: Partial<SlaPolicyRow>) =>
+        apiFetch<{ ok: boolean; policy: SlaPolicyRow }>(`/api/sla/policies/${policyId}`, {
+            method: "PATCH",
+            body: JSON.stringify(patch),
+        }),
+    deletePolicy: (policyId: string) =>
+        apiFetch<{ ok: boolean }>(`/api/sla/policies/${policyId}`, { method: "DELETE" }),
+    listCalendars: () => apiFetch<{ ok: boolean; calendars: BusinessCalendarRow[] }>("/api/sla/calendars"),
+    createCalendar: (calendar: Partial<BusinessCalendarRow>) =>
+        apiFetch<{ ok: boolean; calendar: BusinessCalendarRow }>("/api/sla/calendars", {
+            method: "POST",
+            body: JSON.stringify(calendar),
+        }),
+    updateCalendar: (calendarId: string, patch: Partial<BusinessCalendarRow>) =>
+        apiFetch<{ ok: boolean; calendar: BusinessCalendarRow }>(`/api/sla/calendars/${calendarId}`, {
+            method: "PATCH",
+            body: JSON.stringify(patch),
+        }),
+    deleteCalendar: (calendarId: string) =>
+        apiFetch<{ ok: boolean }>(`/api/sla/calendars/${calendarId}`, { method: "DELETE" }),
+};
+
 // RAG
 export const ragApi = {
     upsert: (payload: {
@@ -145,32 +692,132 @@ export const ragApi = {
             method: "POST",
             body: JSON.stringify(payload),
         }),
-    search: (payload: { query: string; limit?: number; filterSourceType?: string | null }) =>
+    search: (payload: {
+        query: string;
+        limit?: number;
+        filterSourceType?: string | null;
+        mode?: "vector" | "lexical" | "hybrid";
+        filters?: RagMetadataFilters;
+        collapse?: boolean;
+        expandNeighbors?: number;
+    }) =>
         apiFetch<{ results: any[] }>("/api/rag/search", {
             method: "POST",
             body: JSON.stringify(payload),
         }),
-    findSimilarTickets: (payload: { title: string; description: string; limit?: number }) =>
+    findSimilarTickets: (payload: {
+        title: string;
+        description: string;
+        limit?: number;
+        filters?: RagMetadataFilters;
+    }) =>
         apiFetch<{ results: any[] }>("/api/rag/similar-tickets", {
             method: "POST",
             body: JSON.stringify(payload),
         }),
+    startReindex: (sourceTypes?: string[]) =>
+        apiFetch<{ ok: boolean; job: RagReindexJobRow }>("/api/rag/reindex", {
+            method: "POST",
+            body: JSON.stringify({ sourceTypes }),
+        }),
+    listReindexJobs: () =>
+        apiFetch<{ ok: boolean; jobs: RagReindexJobRow[] }>("/api/rag/reindex"),
+    getReindexJob: (jobId: string) =>
+        apiFetch<{ ok: boolean; job: RagReindexJobRow }>(`/api/rag/reindex?id=${encodeURIComponent(jobId)}`),
+    listDocuments: (params: {
+        page?: number;
+        pageSize?: number;
+        sourceType?: string;
+        sourceId?: string;
+        pinned?: boolean;
+        blacklisted?: boolean;
+    } = {}) => {
+        const qs = new URLSearchParams();
+        for (const [k, v] of Object.entries(params)) {
+            if (v !== undefined && v !== "") qs.set(k, String(v));
+        }
+        return apiFetch<{ ok: boolean; documents: RagDocumentRow[]; total: number; page: number; pageSize: number }>(
+            `/api/rag/items?${qs.toString()}`
+        );
+    },
+    getItem: (id: string) =>
+        apiFetch<{ ok: boolean; item: RagItemRow }>(`/api/rag/items/${encodeURIComponent(id)}`),
+    deleteItem: (id: string) =>
+        apiFetch<{ ok: boolean }>(`/api/rag/items/${encodeURIComponent(id)}`, {
+            method: "DELETE",
+        }),
+    getDocument: (sourceType: string, sourceId: string) =>
+        apiFetch<{
+            ok: boolean;
+            sourceType: string;
+            sourceId: string;
+            chunks: RagItemRow[];
+            metadata: Record<string, any>;
+            curation: RagDocumentCurationRow | null;
+        }>(`/api/rag/items/document?${new URLSearchParams({ sourceType, sourceId }).toString()}`),
+    updateDocument: (
+        sourceType: string,
+        sourceId: string,
+        patch: {
+            metadata?: Record<string, any>;
+            pinned?: boolean;
+            blacklisted?: boolean;
+            note?: string | null;
+        }
+    ) =>
+        apiFetch<{
+            ok: boolean;
+            chunks: RagItemRow[];
+            metadata: Record<string, any>;
+            curation: RagDocumentCurationRow | null;
+        }>(`/api/rag/items/document?${new URLSearchParams({ sourceType, sourceId }).toString()}`, {
+            method: "PATCH",
+            body: JSON.stringify(patch),
+        }),
+    deleteDocument: (sourceType: string, sourceId: string) =>
+        apiFetch<{ ok: boolean; chunksDeleted: number }>(
+            `/api/rag/items/document?${new URLSearchParams({ sourceType, sourceId }).toString()}`,
+            { method: "DELETE" }
+        ),
 };
 
 // AI
 export const aiApi = {
-    getHealth: () => apiFetch<{ ok: boolean; host: string; status: string; model: string }>("/api/ai/health"),
-    suggest: (payload: { title: string; description: string; topics?: string[] }) =>
-        apiFetch<{ ok: boolean; evidence: any[]; suggestion: AiSuggestion; model: any }>("/api/ai/suggest", {
+    getHealth: () =>
+        apiFetch<{ ok: boolean; host: string; status: string; model: string; backends: AiBackendStatus[] }>(
+            "/api/ai/health"
+        ),
+    suggest: (payload: {
+        title: string;
+        description: string;
+        topics?: string[];
+        filters?: RagMetadataFilters;
+    }) =>
+        apiFetch<{ ok: boolean; evidence: any[]; suggestion: AiSuggestion; validation: AiOutputValidation; verification?: CitationVerification; model: AiModelInfo; prompt: PromptTemplateRef | null; known_errors: KnownErrorMatch[] }>("/api/ai/suggest", {
+            method: "POST",
+            body: JSON.stringify(payload),
+        }),
+    triage: (payload: { title: string; description: string }) =>
+        apiFetch<TriagePreview & { ok: boolean }>("/api/ai/triage", {
             method: "POST",
             body: JSON.stringify(payload),
         }),
+    suggestStream: (
+        payload: {
+            title: string;
+            description: string;
+            topics?: string[];
+            filters?: RagMetadataFilters;
+        },
+        onEvent: (event: AiStreamEvent<AiSuggestion>) => void
+    ) => apiStream("/api/ai/suggest", { ...payload, stream: true }, onEvent),
     submitRating: (payload: {
         ticketId: string;
         recommendationPayload: any;
         rating: number;
         feedback?: string;
         modelInfo: any;
+        promptTemplate?: PromptTemplateRef | null;
     }) =>
         apiFetch<{ ok: boolean }>("/api/ai/ratings", {
             method: "POST",
@@ -181,11 +828,65 @@ export const aiApi = {
         ticketDescription: string;
         resolutionNotes: string;
         topics?: string[];
+        filters?: RagMetadataFilters;
+    }) =>
+        apiFetch<{ ok: boolean; evidence: any[]; sop: SopDraft; validation: AiOutputValidation; model: AiModelInfo; prompt: PromptTemplateRef | null }>("/api/ai/sop-draft", {
+            method: "POST",
+            body: JSON.stringify(payload),
+        }),
+    getSopDraftStream: (
+        payload: {
+            ticketTitle: string;
+            ticketDescription: string;
+            resolutionNotes: string;
+            topics?: string[];
+            filters?: RagMetadataFilters;
+        },
+        onEvent: (event: AiStreamEvent<SopDraft>) => void
+    ) => apiStream("/api/ai/sop-draft", { ...payload, stream: true }, onEvent),
+    getPostmortemDraftStream: (ticketId: string, onEvent: (event: AiStreamEvent<PostmortemDraft>) => void) =>
+        apiStream("/api/ai/postmortem-draft", { ticketId, stream: true }, onEvent),
+    listPrompts: (key?: PromptTemplateKey) =>
+        apiFetch<{ ok: boolean; templates: PromptTemplateRow[]; variables: Record<PromptTemplateKey, string[]> }>(
+            key ? `/api/ai/prompts?key=${key}` : "/api/ai/prompts"
+        ),
+    createPrompt: (payload: {
+        key: PromptTemplateKey;
+        system: string;
+        user: string;
+        notes?: string;
+        activate?: boolean;
+    }) =>
+        apiFetch<{ ok: boolean; template: PromptTemplateRow }>("/api/ai/prompts", {
+            method: "POST",
+            body: JSON.stringify(payload),
+        }),
+    activatePrompt: (id: string) =>
+        apiFetch<{ ok: boolean; template: PromptTemplateRow }>(`/api/ai/prompts/${id}`, {
+            method: "PATCH",
+            body: JSON.stringify({ active: true }),
+        }),
+    listEvalRuns: () => apiFetch<{ ok: boolean; runs: AiEvalRunRow[] }>("/api/ai/eval"),
+    getEvalRun: (runId: string) =>
+        apiFetch<{ ok: boolean; run: AiEvalRunRow; results: AiEvalResultRow[] }>(
+            `/api/ai/eval?id=${encodeURIComponent(runId)}`
+        ),
+    startEvalRun: (payload: {
+        name?: string;
+        config?: AiEvalConfig;
+        ticketIds?: string[];
+        sameAsRunId?: string;
+        limit?: number;
+        expectedSourceIds?: Record<string, string[]>;
     }) =>
-        apiFetch<{ ok: boolean; evidence: any[]; sop: SopDraft; model: any }>("/api/ai/sop-draft", {
+        apiFetch<{ ok: boolean; run: AiEvalRunRow }>("/api/ai/eval", {
             method: "POST",
             body: JSON.stringify(payload),
         }),
+    compareEvalRuns: (baseId: string, candidateId: string) =>
+        apiFetch<{ ok: boolean; report: AiEvalComparison }>(
+            `/api/ai/eval/compare?${new URLSearchParams({ base: baseId, candidate: candidateId }).toString()}`
+        ),
 };
 
 // Sync
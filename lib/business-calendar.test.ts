@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import {
+  addBusinessMinutes,
+  businessMinutesBetween,
+  isValidTimezone,
+  parseWeeklyHours,
+  type BusinessCalendar,
+} from "@/lib/business-calendar";
+
+const WEEKDAY_HOURS: Array<[string, string]> = [["08:00", "17:00"]];
+
+// Mon-Fri 08:00-17:00 in Berlin: UTC+1 in winter, UTC+2 from 29 March 2026.
+const berlin: BusinessCalendar = {
+  timezone: "Europe/Berlin",
+  hours: { mon: WEEKDAY_HOURS, tue: WEEKDAY_HOURS, wed: WEEKDAY_HOURS, thu: WEEKDAY_HOURS, fri: WEEKDAY_HOURS },
+  holidays: [],
+};
+
+const at = (iso: string) => new Date(iso);
+
+describe("addBusinessMinutes", () => {
+  it("counts wall-clock minutes without a calendar", () => {
+    expect(addBusinessMinutes(null, at("2026-01-09T15:00:00Z"), 90).toISOString()).toBe("2026-01-09T16:30:00.000Z");
+  });
+
+  it("carries the remainder over the weekend", () => {
+    // Friday 16:00 local + 2h = Monday 09:00 local.
+    expect(addBusinessMinutes(berlin, at("2026-01-09T15:00:00Z"), 120).toISOString()).toBe(
+      "2026-01-12T08:00:00.000Z"
+    );
+  });
+
+  it("starts counting at opening time", () => {
+    expect(addBusinessMinutes(berlin, at("2026-01-12T05:00:00Z"), 30).toISOString()).toBe("2026-01-12T07:30:00.000Z");
+  });
+
+  it("skips holidays", () => {
+    const cal = { ...berlin, holidays: ["2026-01-12"] };
+
+    expect(addBusinessMinutes(cal, at("2026-01-09T15:00:00Z"), 120).toISOString()).toBe("2026-01-13T08:00:00.000Z");
+  });
+
+  it("skips the gap between split intervals", () => {
+    const cal = { ...berlin, hours: { mon: [["08:00", "12:00"], ["13:00", "17:00"]] as Array<[string, string]> } };
+
+    // Monday 11:30 local + 1h = 13:30 local.
+    expect(addBusinessMinutes(cal, at("2026-01-12T10:30:00Z"), 60).toISOString()).toBe("2026-01-12T12:30:00.000Z");
+  });
+
+  it("follows the zone across a daylight saving change", () => {
+    // Friday 17:00 CET + 1h = Monday 09:00 CEST.
+    expect(addBusinessMinutes(berlin, at("2026-03-27T16:00:00Z"), 60).toISOString()).toBe("2026-03-30T07:00:00.000Z");
+  });
+});
+
+describe("businessMinutesBetween", () => {
+  it("counts only opening hours", () => {
+    expect(businessMinutesBetween(berlin, at("2026-01-09T15:00:00Z"), at("2026-01-12T08:00:00Z"))).toBe(120);
+  });
+
+  it("is the inverse of addBusinessMinutes", () => {
+    const from = at("2026-01-07T13:17:00Z");
+    const due = addBusinessMinutes(berlin, from, 1000);
+
+    expect(businessMinutesBetween(berlin, from, due)).toBe(1000);
+  });
+
+  it("returns 0 when the end is not after the start", () => {
+    expect(businessMinutesBetween(berlin, at("2026-01-12T08:00:00Z"), at("2026-01-09T15:00:00Z"))).toBe(0);
+    expect(businessMinutesBetween(null, at("2026-01-12T08:00:00Z"), at("2026-01-12T09:30:00Z"))).toBe(90);
+  });
+});
+
+describe("parseWeeklyHours", () => {
+  it("accepts intervals up to midnight", () => {
+    expect(parseWeeklyHours({ sat: [["00:00", "24:00"]], sun: [] })).toEqual({ sat: [["00:00", "24:00"]], sun: [] });
+  });
+
+  it("rejects unknown days, bad clocks and empty weeks", () => {
+    expect(parseWeeklyHours({ monday: [] })).toBe("Unknown weekday: monday");
+    expect(parseWeeklyHours({ mon: "08:00-17:00" })).toBe("hours.mon must be a list of [open, close] pairs");
+    expect(parseWeeklyHours({ mon: [["17:00", "08:00"]] })).toBe("hours.mon has an invalid interval");
+    expect(parseWeeklyHours({ mon: [["8:00", "17:00"]] })).toBe("hours.mon has an invalid interval");
+    expect(parseWeeklyHours({ mon: [["08:00", "24:30"]] })).toBe("hours.mon has an invalid interval");
+    expect(parseWeeklyHours({ mon: [] })).toBe("hours must open on at least one day");
+    expect(parseWeeklyHours([])).toBe("hours must be an object keyed by weekday");
+  });
+});
+
+describe("isValidTimezone", () => {
+  it("accepts IANA zones only", () => {
+    expect(isValidTimezone("America/Chicago")).toBe(true);
+    expect(isValidTimezone("Mars/Olympus")).toBe(false);
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Business-hours arithmetic for SLA timers. A calendar is a set of weekly
+ * opening hours in an IANA time zone, minus holidays; SLA targets count only
+ * the minutes inside those hours. A null calendar means 24x7.
+ */
+
+export type Weekday = "sun" | "mon" | "tue" | "wed" | "thu" | "fri" | "sat";
+
+export const WEEKDAYS: Weekday[] = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+// Local "HH:MM" opening intervals per weekday; "24:00" closes at midnight.
+export type WeeklyHours = Partial<Record<Weekday, Array<[string, string]>>>;
+
+export type BusinessCalendar = {
+  timezone: string;
+  hours: WeeklyHours;
+  holidays: string[]; // local dates, YYYY-MM-DD
+};
+
+const MINUTE_MS = 60_000;
+// How far ahead to look for opening hours before giving up (~10 years).
+const MAX_DAYS = 3660;
+
+function parseClock(v: string): number | null {
+  const m = /^(\d{2}):(\d{2})$/.exec(v);
+  if (!m) return null;
+  const minutes = Number(m[1]) * 60 + Number(m[2]);
+  return Number(m[2]) < 60 && minutes <= 24 * 60 ? minutes : null;
+}
+
+export function isValidTimezone(tz: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: tz });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Validates weekly hours from a request body; returns an error message on failure. */
+export function parseWeeklyHours(v: unknown): WeeklyHours | string {
+  if (!v || typeof v !== "object" || Array.isArray(v)) return "hours must be an object keyed by weekday";
+  const out: WeeklyHours = {};
+  for (const [day, intervals] of Object.entries(v as Record<string, unknown>)) {
+    if (!(WEEKDAYS as string[]).includes(day)) return `Unknown weekday: ${day}`;
+    if (!Array.isArray(intervals)) return `hours.${day} must be a list of [open, close] pairs`;
+    const parsed: Array<[string, string]> = [];
+    for (const pair of intervals) {
+      const [open, close] = Array.isArray(pair) ? pair : [];
+      const from = typeof open === "string" ? parseClock(open) : null;
+      const to = typeof close === "string" ? parseClock(close) : null;
+      if (from === null || to === null || from >= to) return `hours.${day} has an invalid interval`;
+      parsed.push([open, close]);
+    }
+    out[day as Weekday] = parsed;
+  }
+  if (!Object.values(out).some((intervals) => intervals && intervals.length > 0)) {
+    return "hours must open on at least one day";
+  }
+  return out;
+}
+
+// Milliseconds the zone is ahead of UTC at `at`.
+function zoneOffset(tz: string, at: number): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: tz,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(new Date(at));
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+  const asUtc = Date.UTC(get("year"), get("month") - 1, get("day"), get("hour"), get("minute"), get("second"));
+  return asUtc - Math.floor(at / 1000) * 1000;
+}
+
+// UTC instant of a local wall-clock time; the second pass settles DST edges.
+function localToUtc(tz: string, y: number, m: number, d: number, minutes: number): number {
+  const wall = Date.UTC(y, m, d) + minutes * MINUTE_MS;
+  const first = wall - zoneOffset(tz, wall);
+  return wall - zoneOffset(tz, first);
+}
+
+/** Opening intervals as UTC [start, end) pairs, from `fromMs` onwards. */
+function* openIntervals(cal: BusinessCalendar, fromMs: number): Generator<[number, number]> {
+  const local = new Date(fromMs + zoneOffset(cal.timezone, fromMs));
+  const y = local.getUTCFullYear();
+  const m = local.getUTCMonth();
+  const d = local.getUTCDate();
+  const holidays = new Set(cal.holidays);
+
+  for (let i = 0; i < MAX_DAYS; i++) {
+    const day = new Date(Date.UTC(y, m, d + i));
+    const date = day.toISOString().slice(0, 10);
+    if (holidays.has(date)) continue;
+
+    const intervals = cal.hours[WEEKDAYS[day.getUTCDay()]!] ?? [];
+    for (const [open, close] of intervals) {
+      const start = localToUtc(cal.timezone, day.getUTCFullYear(), day.getUTCMonth(), day.getUTCDate(), parseClock(open)!);
+      const end = localToUtc(cal.timezone, day.getUTCFullYear(), day.getUTCMonth(), day.getUTCDate(), parseClock(close)!);
+      if (end <= fromMs) continue;
+      yield [Math.max(start, fromMs), end];
+    }
+  }
+}
+
+/** The instant `minutes` business minutes after `from`. */
+export function addBusinessMinutes(cal: BusinessCalendar | null, from: Date, minutes: number): Date {
+  if (!cal) return new Date(from.getTime() + minutes * MINUTE_MS);
+
+  let remaining = minutes * MINUTE_MS;
+  let last = from.getTime();
+  for (const [start, end] of openIntervals(cal, from.getTime())) {
+    if (remaining <= end - start) return new Date(start + remaining);
+    remaining -= end - start;
+    last = end;
+  }
+  // No opening hours within the horizon: fall back to wall-clock time.
+  return new Date(last + remaining);
+}
+
+/** Business minutes between two instants (0 if `to` is not after `from`). */
+export function businessMinutesBetween(cal: BusinessCalendar | null, from: Date, to: Date): number {
+  const fromMs = from.getTime();
+  const toMs = to.getTime();
+  if (toMs <= fromMs) return 0;
+  if (!cal) return (toMs - fromMs) / MINUTE_MS;
+
+  let total = 0;
+  for (const [start, end] of openIntervals(cal, fromMs)) {
+    if (start >= toMs) break;
+    total += Math.min(end, toMs) - start;
+  }
+  return total / MINUTE_MS;
+}
@@ -0,0 +1,170 @@
+import { describe, expect, it } from "vitest";
+import {
+  decideChangeRequest,
+  parseChangeInput,
+  saveChangeRequest,
+  submissionProblem,
+  type ApprovalDecision,
+  type ChangeRequest,
+} from "@/lib/change-requests";
+import { fakeSupabase, hasOp, opArgs, type FakeQuery } from "@/lib/testing/fake-supabase";
+
+function change(overrides: Partial<ChangeRequest> = {}): ChangeRequest {
+  return {
+    ticket_id: "t-1",
+    risk: "Medium",
+    window_start: "2026-02-01T22:00:00.000Z",
+    window_end: "2026-02-02T02:00:00.000Z",
+    affected_assets: ["core-sw-1"],
+    backout_plan: "Restore the saved config",
+    quorum: 2,
+    approval_status: "pending",
+    submitted_at: "2026-01-20T09:00:00.000Z",
+    decided_at: null,
+    approvers: ["ana", "bo", "cy"].map((name) => ({
+      ticket_id: "t-1",
+      approver_id: `u-${name}`,
+      username: name,
+      decision: null,
+      comment: "",
+      decided_at: null,
+    })),
+    ...overrides,
+  } as ChangeRequest;
+}
+
+/**
+ * A database holding one change request: approver updates are applied to
+ * it, and reads return it in the shape getChangeRequest selects.
+ */
+function changeStore(initial: ChangeRequest) {
+  const state = structuredClone(initial);
+  const db = fakeSupabase((q: FakeQuery) => {
+    if (q.table === "change_approvers" && hasOp(q, "update")) {
+      const approverId = q.ops.find(([op, [column]]) => op === "eq" && column === "approver_id")?.[1][1];
+      const { decision } = opArgs(q, "update")![0] as { decision: ApprovalDecision | null };
+      for (const a of state.approvers) if (!approverId || a.approver_id === approverId) a.decision = decision;
+      return;
+    }
+    if (q.table === "change_requests" && hasOp(q, "update")) {
+      Object.assign(state, opArgs(q, "update")![0]);
+      return;
+    }
+    if (q.table === "change_requests") {
+      const { approvers, ...row } = state;
+      return {
+        data: {
+          ...row,
+          change_approvers: approvers.map(({ username, ...a }) => ({ ...a, local_users: { username } })),
+        },
+      };
+    }
+  });
+  return { ...db, state };
+}
+
+const approver = (name: string) => ({ userId: `u-${name}`, username: name, role: "Engineer" as const });
+
+describe("parseChangeInput", () => {
+  it("normalises timestamps, assets and approvers", () => {
+    expect(
+      parseChangeInput({
+        risk: "High",
+        window_start: "2026-02-01T23:00:00+01:00",
+        window_end: null,
+        affected_assets: [" core-sw-1 ", "core-sw-1", ""],
+        quorum: "2",
+        approver_ids: ["u-ana", "u-ana", "u-bo"],
+      })
+    ).toEqual({
+      risk: "High",
+      window_start: "2026-02-01T22:00:00.000Z",
+      window_end: null,
+      affected_assets: ["core-sw-1"],
+      quorum: 2,
+      approver_ids: ["u-ana", "u-bo"],
+    });
+  });
+
+  it("rejects invalid fields", () => {
+    expect(parseChangeInput({ risk: "Extreme" })).toBe("risk must be one of: Low, Medium, High");
+    expect(parseChangeInput({ window_start: "tonight" })).toBe("window_start must be an ISO timestamp or null");
+    expect(parseChangeInput({ quorum: 0 })).toBe("quorum must be a positive whole number");
+    expect(parseChangeInput({ approver_ids: Array.from({ length: 21 }, (_, i) => `u-${i}`) })).toBe(
+      "At most 20 approvers"
+    );
+  });
+});
+
+describe("submissionProblem", () => {
+  it("needs a window, a backout plan and enough approvers", () => {
+    const draft = change({ approval_status: "draft" });
+
+    expect(submissionProblem(draft)).toBeNull();
+    expect(submissionProblem({ ...draft, window_end: null })).toBe("Set an implementation window before submitting");
+    expect(submissionProblem({ ...draft, backout_plan: " " })).toBe("Add a backout plan before submitting");
+    expect(submissionProblem({ ...draft, quorum: 4 })).toBe("Name at least 4 approvers to reach quorum");
+    expect(submissionProblem(change())).toBe("Change is already awaiting approval");
+  });
+});
+
+describe("decideChangeRequest", () => {
+  it("stays pending until the quorum approves", async () => {
+    const { client, state } = changeStore(change());
+
+    const first = await decideChangeRequest(client, approver("ana"), change(), "approved", "");
+    expect(first).toMatchObject({ settled: false, change: { approval_status: "pending" } });
+
+    const second = await decideChangeRequest(client, approver("bo"), state, "approved", "Looks safe");
+    expect(second).toMatchObject({ settled: true, change: { approval_status: "approved" } });
+  });
+
+  it("rejects once the quorum can no longer be reached", async () => {
+    const { client, state, queries } = changeStore(change());
+
+    await decideChangeRequest(client, approver("ana"), change(), "rejected", "No rollback tested");
+    expect(state.approval_status).toBe("pending");
+
+    const result = await decideChangeRequest(client, approver("bo"), state, "rejected", "");
+    expect(result).toMatchObject({ settled: true, change: { approval_status: "rejected" } });
+
+    const events = queries.filter((q) => q.table === "ticket_events").map((q) => opArgs(q, "insert")![0]);
+    expect(events.at(-1)).toMatchObject({
+      event_type: "rejected",
+      payload: { approver: "bo", comment: null, approvals: 0, quorum: 2, outcome: "rejected" },
+    });
+  });
+
+  it("only lets named approvers decide on a pending change", async () => {
+    const { client } = changeStore(change());
+
+    await expect(decideChangeRequest(client, approver("dee"), change(), "approved", "")).resolves.toBe(
+      "Only a named approver can decide on this change"
+    );
+    await expect(
+      decideChangeRequest(client, approver("ana"), change({ approval_status: "draft" }), "approved", "")
+    ).resolves.toBe("Change is not awaiting approval");
+  });
+});
+
+describe("saveChangeRequest", () => {
+  it("sends a pending change back to draft when its plan changes", async () => {
+    const { client, queries } = changeStore(change());
+
+    const result = await saveChangeRequest(client, "t-1", { backout_plan: "Roll back the firmware" });
+
+    expect(result).toMatchObject({ reopened: true });
+    const upsert = queries.find((q) => hasOp(q, "upsert"))!;
+    expect(opArgs(upsert, "upsert")![0]).toMatchObject({ approval_status: "draft", submitted_at: null });
+    const reset = queries.find((q) => q.table === "change_approvers" && hasOp(q, "update"))!;
+    expect(opArgs(reset, "update")).toEqual([{ decision: null, comment: "", decided_at: null }]);
+  });
+
+  it("rejects a window that ends before it starts", async () => {
+    const { client } = changeStore(change());
+
+    await expect(saveChangeRequest(client, "t-1", { window_end: "2026-02-01T21:00:00.000Z" })).resolves.toBe(
+      "window_end must be after window_start"
+    );
+  });
+});
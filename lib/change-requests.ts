@@ -0,0 +1,263 @@
+import type { Tables } from "@/database.types";
+import type { ActorContext } from "@/lib/rbac";
+import { listAssignees } from "@/lib/ticket-assignment";
+
+export type ChangeRequestRow = Tables<"change_requests">;
+export type ChangeApproverRow = Tables<"change_approvers">;
+
+export type ChangeRisk = "Low" | "Medium" | "High";
+export type ApprovalStatus = "draft" | "pending" | "approved" | "rejected";
+export type ApprovalDecision = "approved" | "rejected";
+
+export const CHANGE_RISKS: ChangeRisk[] = ["Low", "Medium", "High"];
+
+export type ChangeApprover = ChangeApproverRow & { username: string };
+
+export type ChangeRequest = ChangeRequestRow & { approvers: ChangeApprover[] };
+
+// Editing any of these after submission sends the change back to draft:
+// approvers signed off on the plan as it was.
+const PLAN_FIELDS = ["risk", "window_start", "window_end", "affected_assets", "backout_plan", "quorum"] as const;
+
+const MAX_APPROVERS = 20;
+
+function parseTimestamp(v: unknown): string | null | undefined {
+  if (v === null) return null;
+  if (typeof v !== "string") return undefined;
+  const d = new Date(v);
+  return Number.isNaN(d.getTime()) ? undefined : d.toISOString();
+}
+
+/**
+ * Validates the CAB fields of a change from a request body. Omitted keys are
+ * left unchanged. Returns the normalised fields (plus `approver_ids` when
+ * given), or an error message for a 400.
+ */
+export function parseChangeInput(
+  v: any
+): (Partial<ChangeRequestRow> & { approver_ids?: string[] }) | string {
+  const out: Partial<ChangeRequestRow> & { approver_ids?: string[] } = {};
+
+  if (v?.risk !== undefined) {
+    if (!(CHANGE_RISKS as unknown[]).includes(v.risk)) return `risk must be one of: ${CHANGE_RISKS.join(", ")}`;
+    out.risk = v.risk;
+  }
+  for (const key of ["window_start", "window_end"] as const) {
+    if (v?.[key] === undefined) continue;
+    const ts = parseTimestamp(v[key]);
+    if (ts === undefined) return `${key} must be an ISO timestamp or null`;
+    out[key] = ts;
+  }
+  if (v?.affected_assets !== undefined) {
+    if (!Array.isArray(v.affected_assets) || v.affected_assets.some((a: unknown) => typeof a !== "string")) {
+      return "affected_assets must be a list of asset names";
+    }
+    out.affected_assets = [...new Set<string>(v.affected_assets.map((a: string) => a.trim()).filter(Boolean))];
+  }
+  if (v?.backout_plan !== undefined) {
+    if (typeof v.backout_plan !== "string") return "backout_plan must be a string";
+    out.backout_plan = v.backout_plan.trim();
+  }
+  if (v?.quorum !== undefined) {
+    const n = Number(v.quorum);
+    if (!Number.isInteger(n) || n < 1) return "quorum must be a positive whole number";
+    out.quorum = n;
+  }
+  if (v?.approver_ids !== undefined) {
+    if (!Array.isArray(v.approver_ids) || v.approver_ids.some((id: unknown) => typeof id !== "string")) {
+      return "approver_ids must be a list of user ids";
+    }
+    out.approver_ids = [...new Set<string>(v.approver_ids)];
+    if (out.approver_ids.length > MAX_APPROVERS) return `At most ${MAX_APPROVERS} approvers`;
+  }
+  return out;
+}
+
+export async function getChangeRequest(supabase: any, ticketId: string): Promise<ChangeRequest | null> {
+  const { data, error } = await (supabase.from("change_requests") as any)
+    .select("*, change_approvers ( *, local_users ( username ) )")
+    .eq("ticket_id", ticketId)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  if (!data) return null;
+
+  const { change_approvers, ...change } = data;
+  return {
+    ...change,
+    approvers: (change_approvers ?? [])
+      .map(({ local_users, ...a }: any) => ({ ...a, username: local_users?.username ?? a.approver_id }))
+      .sort((a: ChangeApprover, b: ChangeApprover) => a.username.localeCompare(b.username)),
+  };
+}
+
+/** Whether the change may be implemented (the workflow's `approval` requirement). */
+export async function isChangeApproved(supabase: any, ticketId: string): Promise<boolean> {
+  const { data, error } = await (supabase.from("change_requests") as any)
+    .select("approval_status")
+    .eq("ticket_id", ticketId)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  return data?.approval_status === "approved";
+}
+
+/**
+ * Creates or updates a ticket's change request. Changing the plan or the
+ * approver list of a submitted change clears its decisions and returns it
+ * to draft. Returns an error message for an invalid window or approvers
+ * who are not Engineers or Admins.
+ */
+export async function saveChangeRequest(
+  supabase: any,
+  ticketId: string,
+  input: Partial<ChangeRequestRow> & { approver_ids?: string[] }
+): Promise<{ change: ChangeRequest; reopened: boolean } | string> {
+  const { approver_ids, ...fields } = input;
+  const before = await getChangeRequest(supabase, ticketId);
+
+  const windowStart = fields.window_start !== undefined ? fields.window_start : (before?.window_start ?? null);
+  const windowEnd = fields.window_end !== undefined ? fields.window_end : (before?.window_end ?? null);
+  if (windowStart && windowEnd && new Date(windowEnd) <= new Date(windowStart)) {
+    return "window_end must be after window_start";
+  }
+
+  if (approver_ids) {
+    const staff = await listAssignees(supabase);
+    const unknown = approver_ids.filter((id) => !staff.has(id));
+    if (unknown.length > 0) return "Approvers must be Engineers or Admins";
+  }
+
+  const planChanged = PLAN_FIELDS.some(
+    (f) => fields[f] !== undefined && JSON.stringify(fields[f]) !== JSON.stringify(before?.[f])
+  );
+  const approversChanged =
+    !!approver_ids &&
+    JSON.stringify([...approver_ids].sort()) !== JSON.stringify((before?.approvers ?? []).map((a) => a.approver_id).sort());
+  const reopened = !!before && before.approval_status !== "draft" && (planChanged || approversChanged);
+
+  const row: Record<string, unknown> = { ...fields, ticket_id: ticketId, updated_at: new Date().toISOString() };
+  if (reopened) Object.assign(row, { approval_status: "draft", submitted_at: null, decided_at: null });
+
+  const { error } = await (supabase.from("change_requests") as any).upsert(row, { onConflict: "ticket_id" });
+  if (error) throw new Error(error.message);
+
+  if (approversChanged) {
+    const keep = new Set(approver_ids);
+    const removed = (before?.approvers ?? []).filter((a) => !keep.has(a.approver_id)).map((a) => a.approver_id);
+    if (removed.length > 0) {
+      const { error: delErr } = await (supabase.from("change_approvers") as any)
+        .delete()
+        .eq("ticket_id", ticketId)
+        .in("approver_id", removed);
+      if (delErr) throw new Error(delErr.message);
+    }
+    const existing = new Set((before?.approvers ?? []).map((a) => a.approver_id));
+    const added = approver_ids!.filter((id) => !existing.has(id));
+    if (added.length > 0) {
+      const { error: insErr } = await (supabase.from("change_approvers") as any).insert(
+        added.map((approver_id) => ({ ticket_id: ticketId, approver_id }))
+      );
+      if (insErr) throw new Error(insErr.message);
+    }
+  }
+
+  if (reopened) {
+    const { error: resetErr } = await (supabase.from("change_approvers") as any)
+      .update({ decision: null, comment: "", decided_at: null })
+      .eq("ticket_id", ticketId);
+    if (resetErr) throw new Error(resetErr.message);
+  }
+
+  return { change: (await getChangeRequest(supabase, ticketId))!, reopened };
+}
+
+/** Why a change cannot be submitted yet, or null when it is ready. */
+export function submissionProblem(change: ChangeRequest): string | null {
+  if (change.approval_status === "pending") return "Change is already awaiting approval";
+  if (change.approval_status === "approved") return "Change is already approved";
+  if (!change.window_start || !change.window_end) return "Set an implementation window before submitting";
+  if (!change.backout_plan.trim()) return "Add a backout plan before submitting";
+  if (change.approvers.length < change.quorum) {
+    return `Name at least ${change.quorum} approver${change.quorum === 1 ? "" : "s"} to reach quorum`;
+  }
+  return null;
+}
+
+/** Sends a draft (or rejected) change to its approvers. */
+export async function submitChangeRequest(supabase: any, change: ChangeRequest): Promise<ChangeRequest> {
+  const now = new Date().toISOString();
+  const { error } = await (supabase.from("change_requests") as any)
+    .update({ approval_status: "pending", submitted_at: now, decided_at: null, updated_at: now })
+    .eq("ticket_id", change.ticket_id);
+  if (error) throw new Error(error.message);
+
+  if (change.approval_status === "rejected") {
+    const { error: resetErr } = await (supabase.from("change_approvers") as any)
+      .update({ decision: null, comment: "", decided_at: null })
+      .eq("ticket_id", change.ticket_id);
+    if (resetErr) throw new Error(resetErr.message);
+  }
+  return (await getChangeRequest(supabase, change.ticket_id))!;
+}
+
+// Approved once `quorum` approvers agree; rejected once enough decline that
+// the quorum can no longer be reached.
+function outcome(change: ChangeRequest): ApprovalStatus {
+  const approvals = change.approvers.filter((a) => a.decision === "approved").length;
+  const rejections = change.approvers.filter((a) => a.decision === "rejected").length;
+  if (approvals >= change.quorum) return "approved";
+  if (change.approvers.length - rejections < change.quorum) return "rejected";
+  return "pending";
+}
+
+/**
+ * Records one approver's decision on a pending change and an
+ * `approved`/`rejected` timeline event, then settles the change if the
+ * quorum is reached (or lost). Returns an error message for a 400/403.
+ */
+export async function decideChangeRequest(
+  supabase: any,
+  actor: ActorContext,
+  change: ChangeRequest,
+  decision: ApprovalDecision,
+  comment: string
+): Promise<{ change: ChangeRequest; settled: boolean } | string> {
+  if (change.approval_status !== "pending") return "Change is not awaiting approval";
+  const approver = change.approvers.find((a) => a.approver_id === actor.userId);
+  if (!approver) return "Only a named approver can decide on this change";
+
+  const now = new Date().toISOString();
+  const { error } = await (supabase.from("change_approvers") as any)
+    .update({ decision, comment, decided_at: now })
+    .eq("ticket_id", change.ticket_id)
+    .eq("approver_id", approver.approver_id);
+  if (error) throw new Error(error.message);
+
+  const decided = (await getChangeRequest(supabase, change.ticket_id))!;
+  const status = outcome(decided);
+  if (status !== "pending") {
+    const { error: updErr } = await (supabase.from("change_requests") as any)
+      .update({ approval_status: status, decided_at: now, updated_at: now })
+      .eq("ticket_id", change.ticket_id);
+    if (updErr) throw new Error(updErr.message);
+  }
+
+  const approvals = decided.approvers.filter((a) => a.decision === "approved").length;
+  const { error: evErr } = await (supabase.from("ticket_events") as any).insert({
+    ticket_id: change.ticket_id,
+    actor_id: actor.userId,
+    event_type: decision,
+    payload: {
+      approver: approver.username,
+      comment: comment || null,
+      approvals,
+      quorum: decided.quorum,
+      outcome: status,
+    },
+  });
+  if (evErr) throw new Error(evErr.message);
+
+  return {
+    change: status === "pending" ? decided : (await getChangeRequest(supabase, change.ticket_id))!,
+    settled: status !== "pending",
+  };
+}
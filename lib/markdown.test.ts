@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { parseInline, parseMarkdown } from "@/lib/markdown";
+
+describe("parseInline", () => {
+  it("splits code, bold, italics and links out of the text", () => {
+    expect(parseInline("Run `ipconfig /all`, **then** _reboot_ per [KB](https://kb.example.com/1).")).toEqual([
+      { kind: "text", text: "Run " },
+      { kind: "code", text: "ipconfig /all" },
+      { kind: "text", text: ", " },
+      { kind: "strong", text: "then" },
+      { kind: "text", text: " " },
+      { kind: "em", text: "reboot" },
+      { kind: "text", text: " per " },
+      { kind: "link", text: "KB", href: "https://kb.example.com/1" },
+      { kind: "text", text: "." },
+    ]);
+  });
+
+  it("leaves snake_case words and non-http links as text", () => {
+    expect(parseInline("set max_retry_count [here](javascript:alert(1))")).toEqual([
+      { kind: "text", text: "set max_retry_count [here](javascript:alert(1))" },
+    ]);
+  });
+
+  it("does not interpret markup inside code", () => {
+    expect(parseInline("`**not bold**`")).toEqual([{ kind: "code", text: "**not bold**" }]);
+  });
+});
+
+describe("parseMarkdown", () => {
+  it("parses headings, lists, quotes and fenced code", () => {
+    const source = [
+      "## Steps",
+      "1. Stop the service",
+      "2. Clear the cache",
+      "",
+      "- checked logs",
+      "* checked disk",
+      "> Vendor says this is fixed in 4.2",
+      "```",
+      "<script>alert(1)</script>",
+      "```",
+    ].join("\n");
+
+    expect(parseMarkdown(source)).toEqual([
+      { kind: "heading", level: 2, inlines: [{ kind: "text", text: "Steps" }] },
+      {
+        kind: "list",
+        ordered: true,
+        items: [[{ kind: "text", text: "Stop the service" }], [{ kind: "text", text: "Clear the cache" }]],
+      },
+      {
+        kind: "list",
+        ordered: false,
+        items: [[{ kind: "text", text: "checked logs" }], [{ kind: "text", text: "checked disk" }]],
+      },
+      { kind: "quote", inlines: [{ kind: "text", text: "Vendor says this is fixed in 4.2" }] },
+      { kind: "code", text: "<script>alert(1)</script>" },
+    ]);
+  });
+
+  it("joins wrapped lines into one paragraph and splits on blank lines", () => {
+    expect(parseMarkdown("First line\r\nsecond line\n\nNext paragraph")).toEqual([
+      { kind: "paragraph", inlines: [{ kind: "text", text: "First line second line" }] },
+      { kind: "paragraph", inlines: [{ kind: "text", text: "Next paragraph" }] },
+    ]);
+  });
+
+  it("ends a paragraph where a list starts", () => {
+    expect(parseMarkdown("Tried:\n- restart").map((b) => b.kind)).toEqual(["paragraph", "list"]);
+  });
+
+  it("keeps an unclosed fence as code to the end", () => {
+    expect(parseMarkdown("```\nSELECT 1;\n# not a heading")).toEqual([
+      { kind: "code", text: "SELECT 1;\n# not a heading" },
+    ]);
+  });
+});
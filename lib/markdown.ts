@@ -0,0 +1,107 @@
+/**
+ * A small markdown subset for ticket comments: headings, paragraphs, bullet
+ * and numbered lists, block quotes, fenced code, and inline code, bold,
+ * italics and http(s) links. It parses to plain data so the UI renders it as
+ * React elements; raw HTML is never interpreted.
+ */
+
+export type MarkdownInline =
+  | { kind: "text"; text: string }
+  | { kind: "code"; text: string }
+  | { kind: "strong"; text: string }
+  | { kind: "em"; text: string }
+  | { kind: "link"; text: string; href: string };
+
+export type MarkdownBlock =
+  | { kind: "heading"; level: 1 | 2 | 3; inlines: MarkdownInline[] }
+  | { kind: "paragraph"; inlines: MarkdownInline[] }
+  | { kind: "quote"; inlines: MarkdownInline[] }
+  | { kind: "list"; ordered: boolean; items: MarkdownInline[][] }
+  | { kind: "code"; text: string };
+
+const INLINE_PATTERN =
+  /`([^`]+)`|\*\*([^*]+)\*\*|(?<!\w)__([^_]+)__(?!\w)|\*([^*\s][^*]*)\*|(?<!\w)_([^_\s][^_]*)_(?!\w)|\[([^\]]+)\]\((https?:\/\/[^\s)]+)\)/g;
+
+export function parseInline(source: string): MarkdownInline[] {
+  const out: MarkdownInline[] = [];
+  let last = 0;
+  for (const m of source.matchAll(INLINE_PATTERN)) {
+    const index = m.index ?? 0;
+    if (index > last) out.push({ kind: "text", text: source.slice(last, index) });
+    if (m[1] !== undefined) out.push({ kind: "code", text: m[1] });
+    else if (m[2] !== undefined || m[3] !== undefined) out.push({ kind: "strong", text: (m[2] ?? m[3])! });
+    else if (m[4] !== undefined || m[5] !== undefined) out.push({ kind: "em", text: (m[4] ?? m[5])! });
+    else out.push({ kind: "link", text: m[6]!, href: m[7]! });
+    last = index + m[0].length;
+  }
+  if (last < source.length) out.push({ kind: "text", text: source.slice(last) });
+  return out;
+}
+
+const BULLET = /^\s*[-*+]\s+(.*)$/;
+const NUMBERED = /^\s*\d+[.)]\s+(.*)$/;
+const HEADING = /^(#{1,3})\s+(.*)$/;
+const QUOTE = /^>\s?(.*)$/;
+const FENCE = /^```/;
+
+export function parseMarkdown(source: string): MarkdownBlock[] {
+  const lines = source.replace(/\r\n?/g, "\n").split("\n");
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  const startsBlock = (line: string) =>
+    !line.trim() || FENCE.test(line) || HEADING.test(line) || QUOTE.test(line) || BULLET.test(line) || NUMBERED.test(line);
+
+  while (i < lines.length) {
+    const line = lines[i]!;
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    if (FENCE.test(line)) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !FENCE.test(lines[i]!)) code.push(lines[i++]!);
+      i++; // closing fence, if any
+      blocks.push({ kind: "code", text: code.join("\n") });
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      blocks.push({
+        kind: "heading",
+        level: heading[1]!.length as 1 | 2 | 3,
+        inlines: parseInline(heading[2]!.trim()),
+      });
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i]!)) quoted.push(QUOTE.exec(lines[i++]!)![1]!);
+      blocks.push({ kind: "quote", inlines: parseInline(quoted.join(" ").trim()) });
+      continue;
+    }
+
+    const ordered = NUMBERED.test(line);
+    if (ordered || BULLET.test(line)) {
+      const pattern = ordered ? NUMBERED : BULLET;
+      const items: MarkdownInline[][] = [];
+      while (i < lines.length && pattern.test(lines[i]!)) {
+        items.push(parseInline(pattern.exec(lines[i++]!)![1]!.trim()));
+      }
+      blocks.push({ kind: "list", ordered, items });
+      continue;
+    }
+
+    const para: string[] = [];
+    while (i < lines.length && (para.length === 0 || !startsBlock(lines[i]!))) para.push(lines[i++]!.trim());
+    blocks.push({ kind: "paragraph", inlines: parseInline(para.join(" ")) });
+  }
+
+  return blocks;
+}
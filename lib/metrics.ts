@@ -1,5 +1,6 @@
 import {
   Counter,
+  Gauge,
   Histogram,
   Registry,
   collectDefaultMetrics,
@@ -21,6 +22,9 @@ type MetricsBundle = {
   ragSearchResultsTotal: Counter<"status">;
   ragSearchDurationSeconds: Histogram<"status">;
 
+  ragEmbeddingRequestsTotal: Counter<"provider" | "status">;
+  ragReindexDocumentsTotal: Counter<"status">;
+
   similarTicketsRequestsTotal: Counter<"status">;
   similarTicketsDurationSeconds: Histogram<"status">;
 
@@ -32,6 +36,16 @@ type MetricsBundle = {
   aiSopDraftEvidenceItemsTotal: Counter<"status">;
   aiSopDraftDurationSeconds: Histogram<"status">;
 
+  aiOutputValidationTotal: Counter<"task" | "outcome">;
+  aiCitationClaimsTotal: Counter<"status">;
+  aiBackendRequestsTotal: Counter<"backend" | "task" | "status">;
+  aiEvalCasesTotal: Counter<"status">;
+  aiTriageFieldsTotal: Counter<"field" | "decision">;
+
+  slaBreachesTotal: Counter<"target" | "priority">;
+  slaTicketsAtRisk: Gauge<"target">;
+  slaTicketsBreached: Gauge<"target">;
+
   llmTokensTotal: Counter<"model" | "type">;
   llmLatencySeconds: Histogram<"model" | "status">;
 };
@@ -103,6 +117,20 @@ function createMetrics(): MetricsBundle {
     registers: [registry],
   });
 
+  const ragEmbeddingRequestsTotal = new Counter({
+    name: "it_tracker_rag_embedding_requests_total",
+    help: "Embedding provider calls (status ok, error or fallback)",
+    labelNames: ["provider", "status"] as const,
+    registers: [registry],
+  });
+
+  const ragReindexDocumentsTotal = new Counter({
+    name: "it_tracker_rag_reindex_documents_total",
+    help: "Documents re-embedded by RAG reindex jobs",
+    labelNames: ["status"] as const,
+    registers: [registry],
+  });
+
   const similarTicketsRequestsTotal = new Counter({
     name: "it_tracker_similar_tickets_requests_total",
     help: "Duplicate/similar ticket detection requests",
@@ -162,6 +190,63 @@ function createMetrics(): MetricsBundle {
     registers: [registry],
   });
 
+  const aiOutputValidationTotal = new Counter({
+    name: "it_tracker_ai_output_validation_total",
+    help: "AI JSON output schema checks by outcome (valid, repaired, partial, failed)",
+    labelNames: ["task", "outcome"] as const,
+    registers: [registry],
+  });
+
+  const aiCitationClaimsTotal = new Counter({
+    name: "it_tracker_ai_citation_claims_total",
+    help: "AI suggestion claims checked against cited evidence (supported or rejected)",
+    labelNames: ["status"] as const,
+    registers: [registry],
+  });
+
+  const aiBackendRequestsTotal = new Counter({
+    name: "it_tracker_ai_backend_requests_total",
+    help: "AI completion attempts per inference backend and task (ok or error)",
+    labelNames: ["backend", "task", "status"] as const,
+    registers: [registry],
+  });
+
+  const aiEvalCasesTotal = new Counter({
+    name: "it_tracker_ai_eval_cases_total",
+    help: "Tickets replayed by offline AI evaluation runs (ok or error)",
+    labelNames: ["status"] as const,
+    registers: [registry],
+  });
+
+  const aiTriageFieldsTotal = new Counter({
+    name: "it_tracker_ai_triage_fields_total",
+    help: "AI triage field proposals by decision (applied to the ticket or left as a suggestion)",
+    labelNames: ["field", "decision"] as const,
+    registers: [registry],
+  });
+
+  const slaBreachesTotal = new Counter({
+    name: "it_tracker_sla_breaches_total",
+    help: "SLA targets breached, recorded as sla_breached ticket events",
+    labelNames: ["target", "priority"] as const, // response or resolution
+    registers: [registry],
+  });
+
+  // Set on each SLA evaluation (every /api/metrics scrape).
+  const slaTicketsAtRisk = new Gauge({
+    name: "it_tracker_sla_tickets_at_risk",
+    help: "Active tickets close to an SLA due time but not yet breached",
+    labelNames: ["target"] as const,
+    registers: [registry],
+  });
+
+  const slaTicketsBreached = new Gauge({
+    name: "it_tracker_sla_tickets_breached",
+    help: "Active tickets past an SLA due time",
+    labelNames: ["target"] as const,
+    registers: [registry],
+  });
+
   const llmTokensTotal = new Counter({
     name: "it_tracker_llm_tokens_total",
     help: "Total LLM tokens consumed",
@@ -187,6 +272,8 @@ function createMetrics(): MetricsBundle {
     ragSearchRequestsTotal,
     ragSearchResultsTotal,
     ragSearchDurationSeconds,
+    ragEmbeddingRequestsTotal,
+    ragReindexDocumentsTotal,
     similarTicketsRequestsTotal,
     similarTicketsDurationSeconds,
     aiSuggestRequestsTotal,
@@ -195,6 +282,14 @@ function createMetrics(): MetricsBundle {
     aiSopDraftRequestsTotal,
     aiSopDraftEvidenceItemsTotal,
     aiSopDraftDurationSeconds,
+    aiOutputValidationTotal,
+    aiCitationClaimsTotal,
+    aiBackendRequestsTotal,
+    aiEvalCasesTotal,
+    aiTriageFieldsTotal,
+    slaBreachesTotal,
+    slaTicketsAtRisk,
+    slaTicketsBreached,
     llmTokensTotal,
     llmLatencySeconds,
   };
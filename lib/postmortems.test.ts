@@ -0,0 +1,191 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  loadPostmortemInput,
+  parsePostmortemInput,
+  postmortemEligibility,
+  syncPostmortemRagMemory,
+} from "@/lib/postmortems";
+import { fakeSupabase, type FakeQuery } from "@/lib/testing/fake-supabase";
+
+const { ragDeleteDocument, ragUpsert, listTicketComments, listTicketLinks } = vi.hoisted(() => ({
+  ragDeleteDocument: vi.fn(),
+  ragUpsert: vi.fn(),
+  listTicketComments: vi.fn(),
+  listTicketLinks: vi.fn(),
+}));
+
+vi.mock("@/lib/rag", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/rag")>()),
+  ragDeleteDocument,
+  ragUpsert,
+}));
+vi.mock("@/lib/ticket-comments", () => ({ listTicketComments }));
+vi.mock("@/lib/ticket-links", () => ({ listTicketLinks }));
+
+afterEach(() => {
+  ragDeleteDocument.mockReset();
+  ragUpsert.mockReset();
+  listTicketComments.mockReset();
+  listTicketLinks.mockReset();
+});
+
+const INCIDENT = {
+  id: "t-1",
+  external_id: "INC-7",
+  type: "Incident",
+  title: "Line 3 pump telemetry lost",
+  description: "Pump status stale",
+  priority: "P1",
+  service: "SCADA",
+  site: null,
+  topics: [],
+  resolution_notes: "Restarted the gateway",
+  created_at: "2026-01-05T08:00:00.000Z",
+  resolved_at: "2026-01-05T08:40:00.000Z",
+};
+
+describe("postmortemEligibility", () => {
+  it("allows P1 and P2 incidents only", () => {
+    expect(postmortemEligibility({ type: "Incident", priority: "P2" })).toBeNull();
+    expect(postmortemEligibility({ type: "Incident", priority: "P3" })).toBe(
+      "Postmortems are written for P1/P2 incidents"
+    );
+    expect(postmortemEligibility({ type: "Problem", priority: "P1" })).toBe(
+      "Postmortems are written for P1/P2 incidents"
+    );
+  });
+});
+
+describe("parsePostmortemInput", () => {
+  it("normalises text, sorts the timeline and cleans action items", () => {
+    expect(
+      parsePostmortemInput({
+        summary: " Telemetry lost ",
+        timeline: [
+          { at: "2026-01-05T09:40:00+01:00", event: " Resolved " },
+          { at: "2026-01-05T08:00:00Z", event: "Alarms raised" },
+        ],
+        action_items: [{ action: " Upgrade firmware ", owner: " ", due_date: null }],
+        contributing_factors: [" No monitoring ", ""],
+      })
+    ).toEqual({
+      summary: "Telemetry lost",
+      timeline: [
+        { at: "2026-01-05T08:00:00.000Z", event: "Alarms raised" },
+        { at: "2026-01-05T08:40:00.000Z", event: "Resolved" },
+      ],
+      action_items: [{ action: "Upgrade firmware", owner: null, due_date: null }],
+      contributing_factors: ["No monitoring"],
+    });
+  });
+
+  it("rejects invalid fields", () => {
+    expect(parsePostmortemInput({ title: "  " })).toBe("title must not be empty");
+    expect(parsePostmortemInput({ timeline: [{ at: "yesterday", event: "x" }] })).toBe(
+      "timeline entries need an ISO timestamp in at"
+    );
+    expect(parsePostmortemInput({ action_items: [{ action: "x", due_date: "01/02/2026" }] })).toBe(
+      "action item due_date must be YYYY-MM-DD or null"
+    );
+    expect(parsePostmortemInput({ references: "E1" })).toBe("references must be a list of strings");
+    expect(parsePostmortemInput({})).toBe("No editable fields provided");
+  });
+});
+
+describe("syncPostmortemRagMemory", () => {
+  const postmortem = {
+    ticket_id: "t-1",
+    title: "Postmortem: Line 3 pump telemetry lost",
+    summary: "Telemetry lost for 40 minutes",
+    timeline: [{ at: "2026-01-05T08:00:00.000Z", event: "Alarms raised" }],
+    impact: "",
+    root_cause: "",
+    contributing_factors: [],
+    action_items: [{ action: "Upgrade firmware", owner: "ana", due_date: "2026-02-01" }],
+    status: "Approved",
+  };
+
+  it("indexes an approved postmortem with its sections", async () => {
+    const { client } = fakeSupabase((q) => ({ data: q.table === "tickets" ? INCIDENT : postmortem }));
+
+    await syncPostmortemRagMemory(client, "t-1");
+
+    expect(ragUpsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        sourceType: "postmortem",
+        sourceId: "t-1",
+        content: [
+          "Title: Postmortem: Line 3 pump telemetry lost",
+          "Incident: Line 3 pump telemetry lost (P1)",
+          "Service: SCADA",
+          "Summary:\nTelemetry lost for 40 minutes",
+          "Timeline:\n1. 2026-01-05T08:00:00.000Z — Alarms raised",
+          "Action Items:\n1. Upgrade firmware (owner: ana) (due 2026-02-01)",
+        ].join("\n\n"),
+      })
+    );
+  });
+
+  it("removes a draft from RAG memory", async () => {
+    const { client } = fakeSupabase((q) => ({
+      data: q.table === "tickets" ? INCIDENT : { ...postmortem, status: "Draft" },
+    }));
+
+    await syncPostmortemRagMemory(client, "t-1");
+
+    expect(ragDeleteDocument).toHaveBeenCalledWith("postmortem", "t-1");
+    expect(ragUpsert).not.toHaveBeenCalled();
+  });
+});
+
+describe("loadPostmortemInput", () => {
+  const event = (event_type: string, extra: Record<string, unknown> = {}) => ({
+    ticket_id: "t-1",
+    event_type,
+    actor_id: "u-1",
+    from_status: null,
+    to_status: null,
+    payload: {},
+    created_at: "2026-01-05T08:10:00.000Z",
+    ...extra,
+  });
+
+  it("describes the timeline with actor names and leaves out comment events", async () => {
+    const { client } = fakeSupabase((q: FakeQuery) => {
+      if (q.table === "tickets") return { data: INCIDENT };
+      if (q.table === "local_users") return { data: [{ id: "u-1", username: "sam" }] };
+      if (q.table === "ticket_events") {
+        return {
+          data: [
+            event("created", { actor_id: null }),
+            event("status_changed", { from_status: "Open", to_status: "In Progress" }),
+            event("commented"),
+            event("sla_breached", { actor_id: null, payload: { target: "response" } }),
+          ],
+        };
+      }
+    });
+    listTicketComments.mockResolvedValue([
+      { created_at: "2026-01-05T08:20:00.000Z", author_name: "sam", visibility: "internal", body: "Gateway hung" },
+    ]);
+    listTicketLinks.mockResolvedValue([]);
+
+    const input = await loadPostmortemInput(client, "t-1");
+
+    expect(listTicketComments).toHaveBeenCalledWith(client, "t-1", "Admin");
+    expect(input?.timeline.map((e) => [e.actor, e.event])).toEqual([
+      [null, "Ticket opened"],
+      ["sam", "Status Open → In Progress"],
+      [null, "First response SLA target missed"],
+    ]);
+    expect(input?.comments).toEqual([
+      { at: "2026-01-05T08:20:00.000Z", author: "sam", internal: true, body: "Gateway hung" },
+    ]);
+  });
+
+  it("returns null for a missing ticket", async () => {
+    const { client } = fakeSupabase();
+
+    await expect(loadPostmortemInput(client, "t-404")).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,276 @@
+import type { Tables } from "@/database.types";
+import type { PostmortemDraftInput } from "@/lib/ai";
+import { ragDeleteDocument, ragUpsert } from "@/lib/rag";
+import { postmortemToRagDocument } from "@/lib/rag-documents";
+import { listTicketComments } from "@/lib/ticket-comments";
+import { listTicketLinks } from "@/lib/ticket-links";
+
+export type PostmortemRow = Tables<"postmortems">;
+
+export type PostmortemStatus = "Draft" | "Approved";
+
+export type PostmortemTimelineEntry = { at: string; event: string };
+
+export type PostmortemActionItem = { action: string; owner: string | null; due_date: string | null };
+
+// Major incidents only: lower priorities are reviewed through the ticket itself.
+export const POSTMORTEM_PRIORITIES = ["P1", "P2"];
+
+const TEXT_FIELDS = ["title", "summary", "impact", "root_cause"] as const;
+const MAX_TEXT_LENGTH = 20000;
+const MAX_ITEMS = 200;
+const DUE_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Why a ticket cannot have a postmortem, or null. */
+export function postmortemEligibility(ticket: { type: string; priority: string }): string | null {
+  if (ticket.type !== "Incident" || !POSTMORTEM_PRIORITIES.includes(ticket.priority)) {
+    return `Postmortems are written for ${POSTMORTEM_PRIORITIES.join("/")} incidents`;
+  }
+  return null;
+}
+
+function parseStringList(v: unknown, key: string): string[] | string {
+  if (!Array.isArray(v) || v.some((s) => typeof s !== "string")) return `${key} must be a list of strings`;
+  if (v.length > MAX_ITEMS) return `${key} must have at most ${MAX_ITEMS} entries`;
+  return v.map((s: string) => s.trim()).filter(Boolean);
+}
+
+/**
+ * Validates postmortem fields from a request body. Omitted keys are left
+ * unchanged. Returns the normalised fields, or an error message for a 400.
+ */
+export function parsePostmortemInput(v: any): Partial<PostmortemRow> | string {
+  const out: Partial<PostmortemRow> = {};
+
+  for (const key of TEXT_FIELDS) {
+    if (v?.[key] === undefined) continue;
+    if (typeof v[key] !== "string") return `${key} must be a string`;
+    if (v[key].length > MAX_TEXT_LENGTH) return `${key} must be at most ${MAX_TEXT_LENGTH} characters`;
+    out[key] = v[key].trim();
+  }
+  if (out.title !== undefined && !out.title) return "title must not be empty";
+
+  if (v?.timeline !== undefined) {
+    if (!Array.isArray(v.timeline) || v.timeline.length > MAX_ITEMS) {
+      return `timeline must be a list of at most ${MAX_ITEMS} { at, event } entries`;
+    }
+    const timeline: PostmortemTimelineEntry[] = [];
+    for (const e of v.timeline) {
+      const at = typeof e?.at === "string" ? new Date(e.at) : null;
+      if (!at || Number.isNaN(at.getTime())) return "timeline entries need an ISO timestamp in at";
+      if (typeof e.event !== "string" || !e.event.trim()) return "timeline entries need an event";
+      timeline.push({ at: at.toISOString(), event: e.event.trim() });
+    }
+    out.timeline = timeline.sort((a, b) => a.at.localeCompare(b.at));
+  }
+
+  if (v?.action_items !== undefined) {
+    if (!Array.isArray(v.action_items) || v.action_items.length > MAX_ITEMS) {
+      return `action_items must be a list of at most ${MAX_ITEMS} { action, owner, due_date } entries`;
+    }
+    const items: PostmortemActionItem[] = [];
+    for (const a of v.action_items) {
+      if (typeof a?.action !== "string" || !a.action.trim()) return "action items need an action";
+      if (a.owner != null && typeof a.owner !== "string") return "action item owner must be a string or null";
+      if (a.due_date != null && (typeof a.due_date !== "string" || !DUE_DATE.test(a.due_date))) {
+        return "action item due_date must be YYYY-MM-DD or null";
+      }
+      items.push({ action: a.action.trim(), owner: a.owner?.trim() || null, due_date: a.due_date || null });
+    }
+    out.action_items = items;
+  }
+
+  for (const key of ["contributing_factors", "references"] as const) {
+    if (v?.[key] === undefined) continue;
+    const list = parseStringList(v[key], key);
+    if (typeof list === "string") return list;
+    out[key] = list;
+  }
+
+  if (Object.keys(out).length === 0) return "No editable fields provided";
+  return out;
+}
+
+export async function getPostmortem(supabase: any, ticketId: string): Promise<PostmortemRow | null> {
+  const { data, error } = await (supabase.from("postmortems") as any)
+    .select("*")
+    .eq("ticket_id", ticketId)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  return data ?? null;
+}
+
+/**
+ * Brings the postmortem's RAG document in line with it: indexed while
+ * approved, removed otherwise. Best-effort like SOP indexing: a failed
+ * embedding must not fail the write itself.
+ */
+export async function syncPostmortemRagMemory(supabase: any, ticketId: string): Promise<void> {
+  try {
+    const [{ data: ticket, error }, postmortem] = await Promise.all([
+      (supabase.from("tickets") as any).select("*").eq("id", ticketId).maybeSingle(),
+      getPostmortem(supabase, ticketId),
+    ]);
+    if (error) throw new Error(error.message);
+
+    if (ticket && postmortem?.status === "Approved") {
+      await ragUpsert(postmortemToRagDocument(ticket, postmortem));
+    } else {
+      await ragDeleteDocument("postmortem", ticketId);
+    }
+  } catch (e) {
+    console.error("Failed to sync postmortem RAG memory:", e);
+  }
+}
+
+/**
+ * Creates or edits a ticket's postmortem. A new one is titled after the
+ * incident unless a title is given. Edits keep the approval, as with SOPs,
+ * and an approved postmortem is re-indexed.
+ */
+export async function savePostmortem(
+  supabase: any,
+  actorId: string | null,
+  ticket: { id: string; title: string },
+  fields: Partial<PostmortemRow>
+): Promise<PostmortemRow> {
+  const before = await getPostmortem(supabase, ticket.id);
+  const row = before
+    ? { ...fields, ticket_id: ticket.id }
+    : { title: `Postmortem: ${ticket.title}`, ...fields, ticket_id: ticket.id, created_by: actorId };
+
+  const { data, error } = await (supabase.from("postmortems") as any)
+    .upsert({ ...row, updated_at: new Date().toISOString() }, { onConflict: "ticket_id" })
+    .select("*")
+    .single();
+  if (error) throw new Error(error.message);
+
+  if (data.status === "Approved") await syncPostmortemRagMemory(supabase, ticket.id);
+  return data;
+}
+
+export async function approvePostmortem(
+  supabase: any,
+  actorId: string | null,
+  ticketId: string
+): Promise<PostmortemRow> {
+  const now = new Date().toISOString();
+  const { data, error } = await (supabase.from("postmortems") as any)
+    .update({ status: "Approved", approved_by: actorId, approved_at: now, updated_at: now })
+    .eq("ticket_id", ticketId)
+    .select("*")
+    .single();
+  if (error) throw new Error(error.message);
+
+  await syncPostmortemRagMemory(supabase, ticketId);
+  return data;
+}
+
+export async function deletePostmortem(supabase: any, ticketId: string): Promise<void> {
+  const { error } = await (supabase.from("postmortems") as any).delete().eq("ticket_id", ticketId);
+  if (error) throw new Error(error.message);
+
+  try {
+    await ragDeleteDocument("postmortem", ticketId);
+  } catch (e) {
+    console.error("Failed to remove postmortem from RAG:", e);
+  }
+}
+
+// One timeline line per event; comments are passed separately and triage
+// proposals say nothing about the incident, so both are left out.
+function describeEvent(ev: Tables<"ticket_events">): string | null {
+  const payload = (ev.payload ?? {}) as any;
+  switch (ev.event_type) {
+    case "created":
+      return "Ticket opened";
+    case "updated":
+      return `Ticket updated${payload.fields?.length ? `: ${payload.fields.join(", ")}` : ""}`;
+    case "status_changed":
+      return `Status ${ev.from_status ?? "?"} → ${ev.to_status ?? "?"}`;
+    case "assigned": {
+      const to = payload.to ?? {};
+      const parts = [
+        to.assigned_to !== payload.from?.assigned_to ? `assignee ${to.assignee ?? "none"}` : "",
+        to.team_id !== payload.from?.team_id ? `team ${to.team ?? "none"}` : "",
+      ].filter(Boolean);
+      return `Reassigned${parts.length ? `: ${parts.join(", ")}` : ""}`;
+    }
+    case "linked":
+      if (payload.relation === "merged_report") return `Merged report “${payload.report?.title ?? ""}”`;
+      return `${payload.removed ? "Unlinked" : "Linked"} ${payload.relation ?? ""} “${payload.title ?? payload.ticket_id}”`;
+    case "sla_breached":
+      return `${payload.target === "response" ? "First response" : "Resolution"} SLA target missed`;
+    case "commented":
+    case "triage_suggested":
+      return null;
+    default:
+      return ev.event_type;
+  }
+}
+
+/**
+ * Collects what a postmortem draft is written from: the ticket, its
+ * timeline, every comment and work note, and its linked tickets. Returns
+ * null when the ticket does not exist.
+ */
+export async function loadPostmortemInput(supabase: any, ticketId: string): Promise<PostmortemDraftInput | null> {
+  const { data: ticket, error } = await (supabase.from("tickets") as any)
+    .select("*")
+    .eq("id", ticketId)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  if (!ticket) return null;
+
+  const [{ data: events, error: eventsErr }, comments, links] = await Promise.all([
+    (supabase.from("ticket_events") as any)
+      .select("*")
+      .eq("ticket_id", ticketId)
+      .order("created_at", { ascending: true }),
+    // Drafting is staff-only, so work notes are included.
+    listTicketComments(supabase, ticketId, "Admin"),
+    listTicketLinks(supabase, ticketId),
+  ]);
+  if (eventsErr) throw new Error(eventsErr.message);
+
+  const actorIds = [...new Set(((events ?? []) as Tables<"ticket_events">[]).map((e) => e.actor_id).filter(Boolean))];
+  const names = new Map<string, string>();
+  if (actorIds.length > 0) {
+    const { data: users, error: usersErr } = await (supabase.from("local_users") as any)
+      .select("id, username")
+      .in("id", actorIds);
+    if (usersErr) throw new Error(usersErr.message);
+    for (const u of users ?? []) names.set(u.id, u.username);
+  }
+
+  return {
+    ticket: {
+      id: ticket.id,
+      external_id: ticket.external_id ?? null,
+      title: ticket.title,
+      description: ticket.description ?? "",
+      priority: ticket.priority,
+      service: ticket.service,
+      site: ticket.site,
+      resolution_notes: ticket.resolution_notes ?? "",
+      created_at: ticket.created_at,
+      resolved_at: ticket.resolved_at,
+    },
+    timeline: ((events ?? []) as Tables<"ticket_events">[]).flatMap((ev) => {
+      const event = describeEvent(ev);
+      return event ? [{ at: ev.created_at, actor: ev.actor_id ? (names.get(ev.actor_id) ?? null) : null, event }] : [];
+    }),
+    comments: comments.map((c) => ({
+      at: c.created_at,
+      author: c.author_name,
+      internal: c.visibility === "internal",
+      body: c.body,
+    })),
+    links: links.map((l) => ({
+      relation: l.relation,
+      title: l.ticket.title,
+      type: l.ticket.type,
+      status: l.ticket.status,
+    })),
+  };
+}
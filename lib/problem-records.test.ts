@@ -0,0 +1,173 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  knownErrorMatchThreshold,
+  matchKnownErrors,
+  parseProblemInput,
+  publicationProblem,
+  syncKnownErrorRagMemory,
+  type ProblemRecordRow,
+} from "@/lib/problem-records";
+import { fakeSupabase } from "@/lib/testing/fake-supabase";
+
+const { ragDeleteDocument, ragSearchDocuments, ragUpsert } = vi.hoisted(() => ({
+  ragDeleteDocument: vi.fn(),
+  ragSearchDocuments: vi.fn(),
+  ragUpsert: vi.fn(),
+}));
+
+vi.mock("@/lib/rag", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/rag")>()),
+  ragDeleteDocument,
+  ragSearchDocuments,
+  ragUpsert,
+}));
+
+afterEach(() => {
+  ragDeleteDocument.mockReset();
+  ragSearchDocuments.mockReset();
+  ragUpsert.mockReset();
+  vi.unstubAllEnvs();
+});
+
+function record(overrides: Partial<ProblemRecordRow> = {}): ProblemRecordRow {
+  return {
+    ticket_id: "p-1",
+    root_cause: "Gateway firmware leaks sockets",
+    workaround: "Restart the modbus gateway",
+    permanent_fix: "",
+    known_error_status: "draft",
+    published_at: null,
+    published_by: null,
+    ...overrides,
+  } as ProblemRecordRow;
+}
+
+function knownError(problemId: string, score: number, vectorScore: number | null) {
+  return {
+    source_type: "known_error",
+    source_id: problemId,
+    title: `Known error ${problemId}`,
+    content: "",
+    metadata: { problem_id: problemId, external_id: null, workaround: "Restart the modbus gateway" },
+    score,
+    vector_score: vectorScore,
+  };
+}
+
+describe("knownErrorMatchThreshold", () => {
+  it("defaults to 0.8 and ignores unusable values", () => {
+    expect(knownErrorMatchThreshold()).toBe(0.8);
+    vi.stubEnv("KNOWN_ERROR_MATCH_THRESHOLD", "0.7");
+    expect(knownErrorMatchThreshold()).toBe(0.7);
+    vi.stubEnv("KNOWN_ERROR_MATCH_THRESHOLD", "-1");
+    expect(knownErrorMatchThreshold()).toBe(0.8);
+  });
+});
+
+describe("parseProblemInput", () => {
+  it("trims the fields it was given", () => {
+    expect(parseProblemInput({ workaround: " Restart the gateway ", title: "ignored" })).toEqual({
+      workaround: "Restart the gateway",
+    });
+  });
+
+  it("rejects wrong types, oversized fields and empty bodies", () => {
+    expect(parseProblemInput({ root_cause: 42 })).toBe("root_cause must be a string");
+    expect(parseProblemInput({ permanent_fix: "x".repeat(20001) })).toBe(
+      "permanent_fix must be at most 20000 characters"
+    );
+    expect(parseProblemInput({})).toBe("Provide at least one of: root_cause, workaround, permanent_fix");
+  });
+});
+
+describe("publicationProblem", () => {
+  it("needs a root cause and a workaround on an unpublished record", () => {
+    expect(publicationProblem(record())).toBeNull();
+    expect(publicationProblem(null)).toBe("Record the root cause and workaround first");
+    expect(publicationProblem(record({ root_cause: " " }))).toBe("Record the root cause before publishing");
+    expect(publicationProblem(record({ workaround: "" }))).toBe("Record a workaround before publishing");
+    expect(publicationProblem(record({ known_error_status: "published" }))).toBe("Known error is already published");
+  });
+});
+
+describe("syncKnownErrorRagMemory", () => {
+  const problem = { id: "p-1", type: "Problem", title: "Gateway drops", description: "Polls time out" };
+
+  it("indexes a published known error with its sections", async () => {
+    const published = record({ known_error_status: "published" });
+    const { client } = fakeSupabase((q) => ({ data: q.table === "tickets" ? problem : published }));
+
+    await syncKnownErrorRagMemory(client, "p-1");
+
+    expect(ragUpsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        sourceType: "known_error",
+        sourceId: "p-1",
+        content: [
+          "Title: Gateway drops",
+          "Symptoms:\nPolls time out",
+          "Root Cause:\nGateway firmware leaks sockets",
+          "Workaround:\nRestart the modbus gateway",
+        ].join("\n\n"),
+      })
+    );
+    expect(ragDeleteDocument).not.toHaveBeenCalled();
+  });
+
+  it("removes the document once the record is unpublished or the ticket is no longer a Problem", async () => {
+    let ticket = problem;
+    let current = record();
+    const { client } = fakeSupabase((q) => ({ data: q.table === "tickets" ? ticket : current }));
+
+    await syncKnownErrorRagMemory(client, "p-1");
+    ticket = { ...problem, type: "Incident" };
+    current = record({ known_error_status: "published" });
+    await syncKnownErrorRagMemory(client, "p-1");
+
+    expect(ragDeleteDocument.mock.calls).toEqual([
+      ["known_error", "p-1"],
+      ["known_error", "p-1"],
+    ]);
+    expect(ragUpsert).not.toHaveBeenCalled();
+  });
+});
+
+describe("matchKnownErrors", () => {
+  it("filters on the raw cosine, not the curation-weighted score", async () => {
+    ragSearchDocuments.mockResolvedValue([
+      knownError("pinned", 1.2, 0.6),
+      knownError("close", 0.85, 0.85),
+      knownError("closest", 0.9, 0.93),
+    ]);
+
+    const matches = await matchKnownErrors("modbus polls time out");
+
+    expect(ragSearchDocuments).toHaveBeenCalledWith({
+      query: "modbus polls time out",
+      limit: 3,
+      mode: "vector",
+      filterSourceType: "known_error",
+    });
+    expect(matches).toEqual([
+      {
+        problem_id: "closest",
+        external_id: null,
+        title: "Known error closest",
+        workaround: "Restart the modbus gateway",
+        score: 0.93,
+      },
+      {
+        problem_id: "close",
+        external_id: null,
+        title: "Known error close",
+        workaround: "Restart the modbus gateway",
+        score: 0.85,
+      },
+    ]);
+  });
+
+  it("skips the search for an empty query", async () => {
+    await expect(matchKnownErrors("  ")).resolves.toEqual([]);
+    expect(ragSearchDocuments).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,136 @@
+import type { Tables } from "@/database.types";
+import { ragDeleteDocument, ragSearchDocuments, ragUpsert } from "@/lib/rag";
+import { knownErrorToRagDocument } from "@/lib/rag-documents";
+
+export type ProblemRecordRow = Tables<"problem_records">;
+
+/** A published known error whose symptoms match an issue being analysed. */
+export type KnownErrorMatch = {
+  problem_id: string;
+  external_id: string | null;
+  title: string;
+  workaround: string;
+  score: number; // raw cosine similarity
+};
+
+const PROBLEM_FIELDS = ["root_cause", "workaround", "permanent_fix"] as const;
+const MAX_FIELD_LENGTH = 20000;
+
+const DEFAULT_MATCH_THRESHOLD = 0.8;
+
+/** KNOWN_ERROR_MATCH_THRESHOLD: vector similarity at which a known error counts as matching. */
+export function knownErrorMatchThreshold(): number {
+  const raw = Number(process.env.KNOWN_ERROR_MATCH_THRESHOLD);
+  return process.env.KNOWN_ERROR_MATCH_THRESHOLD && Number.isFinite(raw) && raw > 0
+    ? raw
+    : DEFAULT_MATCH_THRESHOLD;
+}
+
+/** Validates problem record fields from a request body; returns an error message on failure. */
+export function parseProblemInput(v: any): Partial<ProblemRecordRow> | string {
+  const out: Partial<ProblemRecordRow> = {};
+  for (const key of PROBLEM_FIELDS) {
+    if (v?.[key] === undefined) continue;
+    if (typeof v[key] !== "string") return `${key} must be a string`;
+    if (v[key].length > MAX_FIELD_LENGTH) return `${key} must be at most ${MAX_FIELD_LENGTH} characters`;
+    out[key] = v[key].trim();
+  }
+  if (Object.keys(out).length === 0) return `Provide at least one of: ${PROBLEM_FIELDS.join(", ")}`;
+  return out;
+}
+
+export async function getProblemRecord(supabase: any, ticketId: string): Promise<ProblemRecordRow | null> {
+  const { data, error } = await (supabase.from("problem_records") as any)
+    .select("*")
+    .eq("ticket_id", ticketId)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  return data ?? null;
+}
+
+export async function saveProblemRecord(
+  supabase: any,
+  ticketId: string,
+  fields: Partial<ProblemRecordRow>
+): Promise<ProblemRecordRow> {
+  const { data, error } = await (supabase.from("problem_records") as any)
+    .upsert({ ...fields, ticket_id: ticketId, updated_at: new Date().toISOString() }, { onConflict: "ticket_id" })
+    .select("*")
+    .single();
+  if (error) throw new Error(error.message);
+  return data;
+}
+
+/** Why a record cannot be published as a known error yet, or null. */
+export function publicationProblem(record: ProblemRecordRow | null): string | null {
+  if (!record) return "Record the root cause and workaround first";
+  if (record.known_error_status === "published") return "Known error is already published";
+  if (!record.root_cause.trim()) return "Record the root cause before publishing";
+  if (!record.workaround.trim()) return "Record a workaround before publishing";
+  return null;
+}
+
+export async function setKnownErrorStatus(
+  supabase: any,
+  actorId: string | null,
+  ticketId: string,
+  published: boolean
+): Promise<ProblemRecordRow> {
+  const now = new Date().toISOString();
+  const { data, error } = await (supabase.from("problem_records") as any)
+    .update(
+      published
+        ? { known_error_status: "published", published_at: now, published_by: actorId, updated_at: now }
+        : { known_error_status: "draft", published_at: null, published_by: null, updated_at: now }
+    )
+    .eq("ticket_id", ticketId)
+    .select("*")
+    .single();
+  if (error) throw new Error(error.message);
+  return data;
+}
+
+/**
+ * Brings the known-error document in RAG memory in line with the Problem:
+ * indexed while published (and still a Problem), removed otherwise. Best-effort like
+ * syncTicketRagMemory: failures are logged, never thrown.
+ */
+export async function syncKnownErrorRagMemory(supabase: any, ticketId: string): Promise<void> {
+  try {
+    const [{ data: ticket, error }, record] = await Promise.all([
+      (supabase.from("tickets") as any).select("*").eq("id", ticketId).maybeSingle(),
+      getProblemRecord(supabase, ticketId),
+    ]);
+    if (error) throw new Error(error.message);
+
+    if (ticket?.type === "Problem" && record?.known_error_status === "published") {
+      await ragUpsert(knownErrorToRagDocument(ticket, record));
+    } else {
+      await ragDeleteDocument("known_error", ticketId);
+    }
+  } catch (e) {
+    console.error("Failed to sync known error RAG memory:", e);
+  }
+}
+
+/**
+ * Published known errors similar to the issue text, best match first. The
+ * threshold applies to the raw cosine, not the curation-weighted rank score,
+ * so pinning a known error does not make it match more loosely.
+ */
+export async function matchKnownErrors(query: string, limit = 3): Promise<KnownErrorMatch[]> {
+  if (!query.trim()) return [];
+  const threshold = knownErrorMatchThreshold();
+  const docs = await ragSearchDocuments({ query, limit, mode: "vector", filterSourceType: "known_error" });
+  return docs
+    .map((d) => ({ doc: d, similarity: d.vector_score ?? d.score }))
+    .filter(({ doc, similarity }) => similarity >= threshold && typeof doc.metadata?.problem_id === "string")
+    .sort((a, b) => b.similarity - a.similarity)
+    .map(({ doc, similarity }) => ({
+      problem_id: doc.metadata.problem_id,
+      external_id: doc.metadata.external_id ?? null,
+      title: doc.title,
+      workaround: doc.metadata.workaround ?? "",
+      score: Number(similarity.toFixed(3)),
+    }));
+}
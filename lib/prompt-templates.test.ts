@@ -0,0 +1,133 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  PROMPT_TEMPLATE_KEYS,
+  builtinPromptTemplate,
+  createPromptTemplateVersion,
+  getActivePromptTemplate,
+  isPromptTemplateKey,
+  renderPromptTemplate,
+  resolvePromptTemplate,
+  validatePromptTemplate,
+} from "@/lib/prompt-templates";
+import { fakeSupabase, hasOp, opArgs, type FakeQuery, type FakeResponse } from "@/lib/testing/fake-supabase";
+
+let respond: (q: FakeQuery) => FakeResponse | void = () => {};
+let server = fakeSupabase((q) => respond(q));
+vi.mock("@/lib/supabase/server", () => ({
+  createClient: async () => server.client,
+}));
+
+afterEach(() => {
+  respond = () => {};
+  server = fakeSupabase((q) => respond(q));
+  vi.restoreAllMocks();
+});
+
+function row(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "tpl-3",
+    key: "suggest",
+    version: 3,
+    system_template: "system {{schema}}",
+    user_template: "user {{evidence}}",
+    ...overrides,
+  };
+}
+
+describe("renderPromptTemplate", () => {
+  it("substitutes variables and drops lines left empty by a lone placeholder", () => {
+    const out = renderPromptTemplate("Title: {{ title }}\n{{topics}}\nEvidence:\n{{evidence}}", {
+      title: "Pump alarm",
+      topics: "",
+      evidence: "E1 ...",
+    });
+
+    expect(out).toBe("Title: Pump alarm\nEvidence:\nE1 ...");
+  });
+
+  it("renders unknown variables as empty text", () => {
+    expect(renderPromptTemplate("Site: {{site}}.", {})).toBe("Site: .");
+  });
+});
+
+describe("validatePromptTemplate", () => {
+  it("accepts every built-in template", () => {
+    for (const key of PROMPT_TEMPLATE_KEYS) {
+      const t = builtinPromptTemplate(key);
+      expect(validatePromptTemplate(key, t.system, t.user)).toEqual([]);
+    }
+  });
+
+  it("reports empty parts, unknown variables and missing required ones", () => {
+    expect(validatePromptTemplate("triage", " ", "{{resolution_notes}}")).toEqual([
+      "system template must not be empty",
+      "unknown variables: resolution_notes (allowed: title, description, topic_catalog, evidence, schema)",
+      "template must use {{evidence}}",
+      "template must use {{schema}}",
+    ]);
+  });
+});
+
+describe("isPromptTemplateKey", () => {
+  it("accepts only known keys", () => {
+    expect(isPromptTemplateKey("sop_draft")).toBe(true);
+    expect(isPromptTemplateKey("summary")).toBe(false);
+    expect(isPromptTemplateKey(undefined)).toBe(false);
+  });
+});
+
+describe("getActivePromptTemplate", () => {
+  it("returns the active registry version", async () => {
+    respond = () => ({ data: row() });
+
+    await expect(getActivePromptTemplate("suggest")).resolves.toEqual({
+      id: "tpl-3",
+      key: "suggest",
+      version: 3,
+      system: "system {{schema}}",
+      user: "user {{evidence}}",
+    });
+    expect(opArgs(server.queries[0]!, "eq")).toEqual(["key", "suggest"]);
+  });
+
+  it("falls back to the built-in prompt when the registry cannot be read", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    respond = () => ({ error: { message: "relation does not exist" } });
+
+    await expect(getActivePromptTemplate("triage")).resolves.toEqual(builtinPromptTemplate("triage"));
+  });
+});
+
+describe("resolvePromptTemplate", () => {
+  it("rejects a pinned version of another key instead of falling back", async () => {
+    respond = () => ({ data: row({ key: "triage" }) });
+
+    await expect(resolvePromptTemplate("suggest", "tpl-3")).rejects.toThrow(
+      "Prompt template tpl-3 is not a suggest template"
+    );
+  });
+});
+
+describe("createPromptTemplateVersion", () => {
+  it("saves the next version and activates it on request", async () => {
+    const { client, queries } = fakeSupabase((q) => {
+      if (hasOp(q, "order")) return { data: { version: 3 } };
+      if (hasOp(q, "insert")) return { data: row({ id: "tpl-4", version: 4 }) };
+      if (q.table.startsWith("rpc:")) return {};
+      return { data: row({ id: "tpl-4", version: 4, is_active: true }) };
+    });
+
+    const saved = await createPromptTemplateVersion(
+      client,
+      { key: "suggest", system: "s {{schema}}", user: "u {{evidence}}", activate: true },
+      "user-1"
+    );
+
+    const insert = queries.find((q) => hasOp(q, "insert"))!;
+    expect(opArgs(insert, "insert")![0]).toMatchObject({ key: "suggest", version: 4, created_by: "user-1" });
+    expect(opArgs(queries.find((q) => q.table === "rpc:activate_prompt_template")!, "args")).toEqual([
+      { p_id: "tpl-4" },
+    ]);
+    expect(saved).toMatchObject({ id: "tpl-4", is_active: true });
+  });
+});
@@ -0,0 +1,352 @@
+import type { Tables } from "@/database.types";
+import { createClient } from "@/lib/supabase/server";
+
+export type PromptTemplateRow = Tables<"ai_prompt_templates">;
+
+export type PromptTemplateKey = "suggest" | "sop_draft" | "triage" | "postmortem";
+
+export const PROMPT_TEMPLATE_KEYS: PromptTemplateKey[] = ["suggest", "sop_draft", "triage", "postmortem"];
+
+/**
+ * The template a response was rendered from. `id` is null and `version` 0
+ * for the built-in fallback used when the registry cannot be read.
+ */
+export type PromptTemplateRef = {
+  id: string | null;
+  key: PromptTemplateKey;
+  version: number;
+};
+
+export type PromptTemplate = PromptTemplateRef & {
+  system: string;
+  user: string;
+};
+
+export type PromptTemplateInput = {
+  key: PromptTemplateKey;
+  system: string;
+  user: string;
+  notes?: string | null;
+  activate?: boolean;
+};
+
+// Placeholders each key may use. `evidence` and `schema` are required: the
+// answer must stay grounded and match what lib/ai-schema.ts validates.
+export const PROMPT_VARIABLES: Record<PromptTemplateKey, string[]> = {
+  suggest: ["title", "description", "topics", "evidence", "schema"],
+  sop_draft: [
+    "title",
+    "description",
+    "topics",
+    "resolution_notes",
+    "validation_notes",
+    "rollback_notes",
+    "evidence",
+    "schema",
+  ],
+  triage: ["title", "description", "topic_catalog", "evidence", "schema"],
+  postmortem: ["title", "description", "incident", "timeline", "comments", "links", "evidence", "schema"],
+};
+
+const REQUIRED_VARIABLES = ["evidence", "schema"];
+
+// Mirrors version 1 in the ai_prompt_templates migration.
+const BUILTIN_TEMPLATES: Record<PromptTemplateKey, { system: string; user: string }> = {
+  suggest: {
+    system: [
+      "You are an expert L2/L3 support engineer specializing in industrial software (MES, ERP, PLC) and enterprise IT systems.",
+      "Your objective: Provide highly technical, concise, and grounded resolution guidance.",
+      "BEYOND ALL: You MUST be strictly grounded in the provided EVIDENCE (RAG). Do not use outside knowledge or hallucinate commands.",
+      "If evidence is insufficient, clearly state that and ask specific technical questions.",
+      "Return ONLY valid JSON matching the requested schema. No markdown, no pre-amble.",
+      "All confidence values must be accurate numbers in [0,1] reflecting evidence strength.",
+    ].join(" "),
+    user: [
+      "TASK: Analyze the issue and propose likely root causes and step-by-step resolution guidance.",
+      "",
+      "ISSUE:",
+      "Title: {{title}}",
+      "Description: {{description}}",
+      "{{topics}}",
+      "",
+      "EVIDENCE:",
+      "{{evidence}}",
+      "",
+      "OUTPUT JSON SCHEMA:",
+      "{{schema}}",
+      "",
+      "RULES:",
+      "- Every root cause and every step MUST include at least one evidence_refs entry from the provided refs (E1..En).",
+      "- If you cannot support something with evidence, do not include it; instead add it as a question.",
+      "- Prefer APPROVED SOP evidence over tickets. Never rely on a DRAFT SOP alone; corroborate it or lower confidence.",
+    ].join("\n"),
+  },
+  sop_draft: {
+    system: [
+      "You are a technical documentation specialist and senior operations engineer.",
+      "TASK: Synthesize the provided resolution notes and RAG evidence into a professional Standard Operating Procedure (SOP).",
+      "RULES: Use strictly imperative, clear technical language. Ground all steps in the evidence and resolution notes provided.",
+      "Do not invent commands or configuration paths. If missing, be conservative.",
+      "Return ONLY valid JSON. No markdown summaries or chat chatter.",
+    ].join(" "),
+    user: [
+      "TASK: Generate a Standard Operating Procedure (SOP) draft for the resolved issue.",
+      "",
+      "TICKET:",
+      "Title: {{title}}",
+      "Description: {{description}}",
+      "{{topics}}",
+      "",
+      "RESOLUTION NOTES (authoritative):",
+      "{{resolution_notes}}",
+      "",
+      "OPTIONAL NOTES:",
+      "Validation: {{validation_notes}}",
+      "Rollback: {{rollback_notes}}",
+      "",
+      "EVIDENCE:",
+      "{{evidence}}",
+      "",
+      "OUTPUT JSON SCHEMA:",
+      "{{schema}}",
+      "",
+      "RULES:",
+      "- Use clear imperative steps.",
+      "- Include validation and rollback procedures if supported; otherwise keep them minimal and conservative.",
+      "- references must be evidence refs used (E1..En).",
+    ].join("\n"),
+  },
+  triage: {
+    system: [
+      "You are a service desk dispatcher for industrial (MES, ERP, PLC) and enterprise IT systems.",
+      "TASK: Classify a new ticket by its type, priority, topics, service and site.",
+      "Base every label on the ticket text and on the labels of the similar resolved tickets provided.",
+      "Return ONLY valid JSON matching the requested schema. No markdown, no pre-amble.",
+      "Confidence values must be numbers in [0,1]; use low values when the text is vague or the similar tickets disagree.",
+    ].join(" "),
+    user: [
+      "TASK: Propose labels for this new ticket.",
+      "",
+      "NEW TICKET:",
+      "Title: {{title}}",
+      "Description: {{description}}",
+      "",
+      "ALLOWED TOPICS:",
+      "{{topic_catalog}}",
+      "",
+      "SIMILAR RESOLVED TICKETS:",
+      "{{evidence}}",
+      "",
+      "OUTPUT JSON SCHEMA:",
+      "{{schema}}",
+      "",
+      "RULES:",
+      "- topics must be chosen from ALLOWED TOPICS only; propose at most 3.",
+      "- service and site must be copied exactly from a similar ticket that clearly matches; otherwise null.",
+      "- P1 means production down or safety impact; P4 means cosmetic or a routine request.",
+    ].join("\n"),
+  },
+  postmortem: {
+    system: [
+      "You are a senior operations engineer writing a blameless postmortem for a major incident in industrial (MES, ERP, PLC) or enterprise IT systems.",
+      "Base every statement on the incident record, its timeline, comments and linked tickets; use the background EVIDENCE only for context from past incidents and SOPs.",
+      "Do not invent times, people, systems or commands; when something is unknown, say so.",
+      "Return ONLY valid JSON matching the requested schema. No markdown, no pre-amble.",
+    ].join(" "),
+    user: [
+      "TASK: Draft a postmortem for this incident.",
+      "",
+      "INCIDENT:",
+      "Title: {{title}}",
+      "Description: {{description}}",
+      "{{incident}}",
+      "",
+      "TIMELINE (authoritative):",
+      "{{timeline}}",
+      "",
+      "COMMENTS AND WORK NOTES:",
+      "{{comments}}",
+      "",
+      "LINKED TICKETS:",
+      "{{links}}",
+      "",
+      "BACKGROUND EVIDENCE:",
+      "{{evidence}}",
+      "",
+      "OUTPUT JSON SCHEMA:",
+      "{{schema}}",
+      "",
+      "RULES:",
+      "- timeline entries must use timestamps taken from the TIMELINE or COMMENTS above, in ISO 8601.",
+      "- Keep it blameless: describe systems, signals and decisions, not individual fault.",
+      "- action_items must be concrete and checkable; owner is a username from the record or null, due_date is YYYY-MM-DD or null.",
+      "- references must be evidence refs used (E1..En); leave it empty when the background evidence was not used.",
+    ].join("\n"),
+  },
+};
+
+const PLACEHOLDER = /\{\{\s*([a-z_]+)\s*\}\}/g;
+const LONE_PLACEHOLDER = /^\s*\{\{\s*[a-z_]+\s*\}\}\s*$/;
+
+export function isPromptTemplateKey(v: unknown): v is PromptTemplateKey {
+  return typeof v === "string" && (PROMPT_TEMPLATE_KEYS as string[]).includes(v);
+}
+
+export function builtinPromptTemplate(key: PromptTemplateKey): PromptTemplate {
+  return { id: null, key, version: 0, ...BUILTIN_TEMPLATES[key] };
+}
+
+function toTemplate(row: PromptTemplateRow): PromptTemplate {
+  return {
+    id: row.id,
+    key: row.key as PromptTemplateKey,
+    version: row.version,
+    system: row.system_template,
+    user: row.user_template,
+  };
+}
+
+/**
+ * Substitutes {{variable}} placeholders. A line holding nothing but a
+ * placeholder that renders empty (e.g. no topics) is dropped entirely.
+ */
+export function renderPromptTemplate(template: string, vars: Record<string, string>): string {
+  return template
+    .split("\n")
+    .flatMap((line) => {
+      const rendered = line.replace(PLACEHOLDER, (_, name: string) => vars[name] ?? "");
+      return LONE_PLACEHOLDER.test(line) && !rendered.trim() ? [] : [rendered];
+    })
+    .join("\n");
+}
+
+/** Problems that would make a template unusable for `key`; empty when valid. */
+export function validatePromptTemplate(key: PromptTemplateKey, system: string, user: string): string[] {
+  const errors: string[] = [];
+  if (!system.trim()) errors.push("system template must not be empty");
+  if (!user.trim()) errors.push("user template must not be empty");
+
+  const allowed = new Set(PROMPT_VARIABLES[key]);
+  const used = new Set<string>();
+  for (const text of [system, user]) {
+    for (const m of text.matchAll(PLACEHOLDER)) used.add(m[1]!);
+  }
+
+  const unknown = [...used].filter((v) => !allowed.has(v));
+  if (unknown.length > 0) {
+    errors.push(`unknown variables: ${unknown.join(", ")} (allowed: ${PROMPT_VARIABLES[key].join(", ")})`);
+  }
+  for (const required of REQUIRED_VARIABLES) {
+    if (!used.has(required)) errors.push(`template must use {{${required}}}`);
+  }
+  return errors;
+}
+
+/**
+ * The active template for `key`. Falls back to the built-in prompt when the
+ * registry is empty or unreachable, so AI requests never fail on it.
+ */
+export async function getActivePromptTemplate(key: PromptTemplateKey): Promise<PromptTemplate> {
+  try {
+    const supabase = await createClient();
+    const { data, error } = await (supabase.from("ai_prompt_templates") as any)
+      .select("*")
+      .eq("key", key)
+      .eq("is_active", true)
+      .maybeSingle();
+
+    if (error) throw new Error(error.message);
+    if (data) return toTemplate(data as PromptTemplateRow);
+    console.warn(`No active ${key} prompt template; using the built-in prompt`);
+  } catch (e) {
+    console.error(`Failed to load ${key} prompt template; using the built-in prompt:`, e);
+  }
+  return builtinPromptTemplate(key);
+}
+
+/**
+ * A specific version when `id` is given (the evaluation harness pins one),
+ * otherwise the active template. Unlike the active lookup, a pinned version
+ * that cannot be loaded is an error rather than a silent fallback.
+ */
+export async function resolvePromptTemplate(
+  key: PromptTemplateKey,
+  id?: string | null
+): Promise<PromptTemplate> {
+  if (!id) return getActivePromptTemplate(key);
+
+  const supabase = await createClient();
+  const row = await getPromptTemplate(supabase, id);
+  if (!row || row.key !== key) throw new Error(`Prompt template ${id} is not a ${key} template`);
+  return toTemplate(row);
+}
+
+export async function listPromptTemplates(
+  supabase: any,
+  key?: PromptTemplateKey | null
+): Promise<PromptTemplateRow[]> {
+  let query = (supabase.from("ai_prompt_templates") as any)
+    .select("*")
+    .order("key", { ascending: true })
+    .order("version", { ascending: false });
+
+  if (key) query = query.eq("key", key);
+
+  const { data, error } = await query;
+  if (error) throw new Error(error.message);
+  return data ?? [];
+}
+
+export async function getPromptTemplate(supabase: any, id: string): Promise<PromptTemplateRow | null> {
+  const { data, error } = await (supabase.from("ai_prompt_templates") as any)
+    .select("*")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  return data ?? null;
+}
+
+export async function activatePromptTemplate(supabase: any, id: string): Promise<PromptTemplateRow | null> {
+  const { error } = await supabase.rpc("activate_prompt_template", { p_id: id });
+  if (error) throw new Error(error.message);
+  return getPromptTemplate(supabase, id);
+}
+
+/**
+ * Saves an edit as the next version of `key`. Existing versions are never
+ * modified, so every recorded template id/version stays reproducible.
+ */
+export async function createPromptTemplateVersion(
+  supabase: any,
+  input: PromptTemplateInput,
+  createdBy: string | null
+): Promise<PromptTemplateRow> {
+  const { data: latest, error: latestError } = await (supabase.from("ai_prompt_templates") as any)
+    .select("version")
+    .eq("key", input.key)
+    .order("version", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (latestError) throw new Error(latestError.message);
+
+  const { data, error } = await (supabase.from("ai_prompt_templates") as any)
+    .insert({
+      key: input.key,
+      version: (latest?.version ?? 0) + 1,
+      system_template: input.system,
+      user_template: input.user,
+      notes: input.notes ?? null,
+      created_by: createdBy,
+    })
+    .select("*")
+    .single();
+
+  if (error) throw new Error(error.message);
+
+  if (input.activate) {
+    return (await activatePromptTemplate(supabase, data.id)) ?? data;
+  }
+  return data;
+}
@@ -0,0 +1,145 @@
+import type { RagUpsertInput } from "@/lib/rag";
+
+// Builders that turn domain rows into RAG documents. Shared by the live
+// indexing paths and the reindex job so both produce identical content.
+
+export function ticketToRagDocument(ticket: any): RagUpsertInput {
+  const contentParts = [
+    `Title: ${ticket.title}`,
+    ticket.service ? `Service: ${ticket.service}` : "",
+    ticket.site ? `Site: ${ticket.site}` : "",
+    ticket.topics?.length ? `Topics: ${ticket.topics.join(", ")}` : "",
+    "",
+    "Description:",
+    ticket.description ?? "",
+    "",
+    "Resolution Notes:",
+    ticket.resolution_notes ?? "",
+  ].filter(Boolean);
+
+  return {
+    sourceType: "ticket",
+    sourceId: ticket.external_id ?? ticket.id,
+    title: ticket.title,
+    content: contentParts.join("\n"),
+    metadata: {
+      ticket_id: ticket.id,
+      external_id: ticket.external_id,
+      type: ticket.type,
+      priority: ticket.priority,
+      status: ticket.status,
+      service: ticket.service,
+      site: ticket.site,
+      topics: ticket.topics,
+      resolved_at: ticket.resolved_at,
+    },
+  };
+}
+
+function listSection(label: string, items: string[] | null | undefined): string {
+  if (!items?.length) return "";
+  return [`${label}:`, ...items.map((item, i) => `${i + 1}. ${item}`)].join("\n");
+}
+
+export function sopToRagDocument(sop: any): RagUpsertInput {
+  const content = [
+    `Title: ${sop.title}`,
+    sop.tags?.length ? `Tags: ${sop.tags.join(", ")}` : "",
+    sop.problem_description ? `Problem Description:\n${sop.problem_description}` : "",
+    listSection("Symptoms", sop.symptoms),
+    sop.root_cause ? `Root Cause:\n${sop.root_cause}` : "",
+    listSection("Resolution Steps", sop.resolution_steps),
+    listSection("Validation Steps", sop.validation_steps),
+    listSection("Rollback Procedures", sop.rollback_procedures),
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+
+  return {
+    sourceType: "sop",
+    sourceId: sop.id,
+    title: sop.title,
+    content,
+    metadata: {
+      sop_id: sop.id,
+      status: sop.status,
+      version: sop.version,
+      tags: sop.tags ?? [],
+    },
+  };
+}
+
+// A published known error: the Problem ticket plus its problem record.
+export function knownErrorToRagDocument(ticket: any, record: any): RagUpsertInput {
+  const content = [
+    `Title: ${ticket.title}`,
+    ticket.service ? `Service: ${ticket.service}` : "",
+    ticket.site ? `Site: ${ticket.site}` : "",
+    ticket.topics?.length ? `Topics: ${ticket.topics.join(", ")}` : "",
+    ticket.description ? `Symptoms:\n${ticket.description}` : "",
+    record.root_cause ? `Root Cause:\n${record.root_cause}` : "",
+    record.workaround ? `Workaround:\n${record.workaround}` : "",
+    record.permanent_fix ? `Permanent Fix:\n${record.permanent_fix}` : "",
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+
+  return {
+    sourceType: "known_error",
+    sourceId: ticket.id,
+    title: ticket.title,
+    content,
+    metadata: {
+      problem_id: ticket.id,
+      external_id: ticket.external_id,
+      status: ticket.status,
+      service: ticket.service,
+      site: ticket.site,
+      topics: ticket.topics,
+      workaround: record.workaround,
+      published_at: record.published_at,
+    },
+  };
+}
+
+// An approved postmortem, with the incident's labels for metadata filters.
+export function postmortemToRagDocument(ticket: any, postmortem: any): RagUpsertInput {
+  const timeline = (Array.isArray(postmortem.timeline) ? postmortem.timeline : []).map(
+    (e: any) => `${e.at} — ${e.event}`
+  );
+  const actions = (Array.isArray(postmortem.action_items) ? postmortem.action_items : []).map(
+    (a: any) => `${a.action}${a.owner ? ` (owner: ${a.owner})` : ""}${a.due_date ? ` (due ${a.due_date})` : ""}`
+  );
+  const content = [
+    `Title: ${postmortem.title}`,
+    `Incident: ${ticket.title} (${ticket.priority})`,
+    ticket.service ? `Service: ${ticket.service}` : "",
+    ticket.site ? `Site: ${ticket.site}` : "",
+    ticket.topics?.length ? `Topics: ${ticket.topics.join(", ")}` : "",
+    postmortem.summary ? `Summary:\n${postmortem.summary}` : "",
+    listSection("Timeline", timeline),
+    postmortem.impact ? `Impact:\n${postmortem.impact}` : "",
+    postmortem.root_cause ? `Root Cause:\n${postmortem.root_cause}` : "",
+    listSection("Contributing Factors", postmortem.contributing_factors),
+    listSection("Action Items", actions),
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+
+  return {
+    sourceType: "postmortem",
+    sourceId: ticket.id,
+    title: postmortem.title,
+    content,
+    metadata: {
+      ticket_id: ticket.id,
+      external_id: ticket.external_id,
+      priority: ticket.priority,
+      service: ticket.service,
+      site: ticket.site,
+      topics: ticket.topics,
+      status: postmortem.status,
+      approved_at: postmortem.approved_at,
+    },
+  };
+}
@@ -0,0 +1,177 @@
+import type { Tables } from "@/database.types";
+
+export type RagDocumentRow = Tables<"rag_documents">;
+export type RagDocumentCuration = Tables<"rag_document_curation">;
+
+export type RagItemRow = Omit<Tables<"rag_items">, "embedding" | "search_tsv">;
+
+export type RagDocumentListInput = {
+  page?: number;
+  pageSize?: number;
+  sourceType?: string | null;
+  sourceId?: string | null;
+  pinned?: boolean;
+  blacklisted?: boolean;
+};
+
+export type RagDocumentPatch = {
+  metadata?: Record<string, any>;
+  pinned?: boolean;
+  blacklisted?: boolean;
+  note?: string | null;
+};
+
+const MAX_PAGE_SIZE = 100;
+
+// Everything but the embedding vector and the generated tsvector.
+const ITEM_COLUMNS =
+  "id,source_type,source_id,chunk_index,title,content,metadata,embedding_provider,embedding_model,created_at,updated_at";
+
+// Per-chunk keys written by ragReplaceDocument; they are not document metadata.
+const CHUNK_METADATA_KEYS = ["section", "sections"];
+
+export function documentMetadata(chunkMetadata: any): Record<string, any> {
+  const meta = { ...(chunkMetadata ?? {}) };
+  for (const k of CHUNK_METADATA_KEYS) delete meta[k];
+  return meta;
+}
+
+export async function listRagDocuments(
+  supabase: any,
+  input: RagDocumentListInput = {}
+): Promise<{ documents: RagDocumentRow[]; total: number; page: number; pageSize: number }> {
+  const pageSize = Math.max(1, Math.min(input.pageSize ?? 25, MAX_PAGE_SIZE));
+  const page = Math.max(1, input.page ?? 1);
+  const from = (page - 1) * pageSize;
+
+  let query = (supabase.from("rag_documents") as any)
+    .select("*", { count: "exact" })
+    .order("updated_at", { ascending: false })
+    .order("source_id", { ascending: true })
+    .range(from, from + pageSize - 1);
+
+  if (input.sourceType) query = query.eq("source_type", input.sourceType);
+  if (input.sourceId) query = query.ilike("source_id", `%${input.sourceId}%`);
+  if (input.pinned !== undefined) query = query.eq("pinned", input.pinned);
+  if (input.blacklisted !== undefined) query = query.eq("blacklisted", input.blacklisted);
+
+  const { data, error, count } = await query;
+  if (error) throw new Error(error.message);
+
+  return { documents: data ?? [], total: count ?? 0, page, pageSize };
+}
+
+export async function getRagItem(supabase: any, id: string): Promise<RagItemRow | null> {
+  const { data, error } = await (supabase.from("rag_items") as any)
+    .select(ITEM_COLUMNS)
+    .eq("id", id)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  return data ?? null;
+}
+
+export async function deleteRagItem(supabase: any, id: string): Promise<RagItemRow | null> {
+  const { data, error } = await (supabase.from("rag_items") as any)
+    .delete()
+    .eq("id", id)
+    .select(ITEM_COLUMNS)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  return data ?? null;
+}
+
+async function getCuration(
+  supabase: any,
+  sourceType: string,
+  sourceId: string
+): Promise<RagDocumentCuration | null> {
+  const { data, error } = await (supabase.from("rag_document_curation") as any)
+    .select("*")
+    .eq("source_type", sourceType)
+    .eq("source_id", sourceId)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  return data ?? null;
+}
+
+/** All chunks of one document in order, plus its curation flags. */
+export async function getRagDocument(
+  supabase: any,
+  sourceType: string,
+  sourceId: string
+): Promise<{
+  chunks: RagItemRow[];
+  metadata: Record<string, any>;
+  curation: RagDocumentCuration | null;
+} | null> {
+  const { data, error } = await (supabase.from("rag_items") as any)
+    .select(ITEM_COLUMNS)
+    .eq("source_type", sourceType)
+    .eq("source_id", sourceId)
+    .order("chunk_index", { ascending: true });
+
+  if (error) throw new Error(error.message);
+
+  const chunks = (data as RagItemRow[]) ?? [];
+  if (chunks.length === 0) return null;
+
+  return {
+    chunks,
+    metadata: documentMetadata(chunks[0]!.metadata),
+    curation: await getCuration(supabase, sourceType, sourceId),
+  };
+}
+
+/**
+ * Applies an admin edit to one document. Metadata replaces the document-level
+ * metadata on every chunk (per-chunk section keys are preserved); it is
+ * re-derived from the source the next time a ticket or SOP is re-indexed.
+ * Curation flags live in rag_document_curation and survive re-indexing.
+ */
+export async function updateRagDocument(
+  supabase: any,
+  sourceType: string,
+  sourceId: string,
+  patch: RagDocumentPatch,
+  updatedBy: string | null
+): Promise<void> {
+  if (patch.metadata) {
+    const { data, error } = await (supabase.from("rag_items") as any)
+      .select("id,metadata")
+      .eq("source_type", sourceType)
+      .eq("source_id", sourceId);
+
+    if (error) throw new Error(error.message);
+
+    for (const row of (data as Array<{ id: string; metadata: any }>) ?? []) {
+      const chunkKeys: Record<string, any> = {};
+      for (const k of CHUNK_METADATA_KEYS) {
+        if (row.metadata?.[k] !== undefined) chunkKeys[k] = row.metadata[k];
+      }
+      const { error: updateError } = await (supabase.from("rag_items") as any)
+        .update({ metadata: { ...patch.metadata, ...chunkKeys }, updated_at: new Date().toISOString() })
+        .eq("id", row.id);
+      if (updateError) throw new Error(updateError.message);
+    }
+  }
+
+  if (patch.pinned !== undefined || patch.blacklisted !== undefined || patch.note !== undefined) {
+    const existing = await getCuration(supabase, sourceType, sourceId);
+    const { error } = await (supabase.from("rag_document_curation") as any).upsert(
+      {
+        source_type: sourceType,
+        source_id: sourceId,
+        pinned: patch.pinned ?? existing?.pinned ?? false,
+        blacklisted: patch.blacklisted ?? existing?.blacklisted ?? false,
+        note: patch.note !== undefined ? patch.note : existing?.note ?? null,
+        updated_by: updatedBy,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: "source_type,source_id" }
+    );
+    if (error) throw new Error(error.message);
+  }
+}
@@ -0,0 +1,124 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { RAG_EMBEDDING_DIM, type EmbeddingProvider } from "@/lib/rag";
+import {
+  createRagReindexJob,
+  getActiveRagReindexJob,
+  runRagReindexJob,
+} from "@/lib/rag-reindex";
+import { fakeSupabase, hasOp, opArgs, type FakeQuery, type FakeResponse } from "@/lib/testing/fake-supabase";
+
+let respond: (q: FakeQuery) => FakeResponse | void = () => {};
+let admin = fakeSupabase((q) => respond(q));
+vi.mock("@/lib/supabase/admin", () => ({
+  createClient: async () => admin.client,
+}));
+
+afterEach(() => {
+  respond = () => {};
+  admin = fakeSupabase((q) => respond(q));
+  vi.useRealTimers();
+});
+
+function storedRow(sourceId: string, chunkIndex = 0) {
+  return {
+    source_type: "github_issue",
+    source_id: sourceId,
+    chunk_index: chunkIndex,
+    title: `Issue ${sourceId}`,
+    content: `Title: Issue ${sourceId}`,
+    metadata: { sections: ["Title"] },
+  };
+}
+
+function provider(embed: EmbeddingProvider["embed"]): EmbeddingProvider {
+  return { name: "localai", model: "mini", embed };
+}
+
+const vectors = async (texts: string[]) => texts.map(() => new Array(RAG_EMBEDDING_DIM).fill(0.1));
+
+function jobUpdates() {
+  return admin.queries
+    .filter((q) => q.table === "rag_reindex_jobs" && hasOp(q, "update"))
+    .map((q) => opArgs(q, "update")![0] as Record<string, any>);
+}
+
+describe("getActiveRagReindexJob", () => {
+  it("fails running jobs without a recent heartbeat before looking for one", async () => {
+    const running = { id: "job-1", status: "running" };
+    const { client, queries } = fakeSupabase((q) => (hasOp(q, "select") ? { data: running } : undefined));
+
+    vi.useFakeTimers({ now: new Date("2026-01-05T12:00:00Z") });
+    await expect(getActiveRagReindexJob(client)).resolves.toEqual(running);
+
+    const [stale, lookup] = queries;
+    expect(opArgs(stale!, "update")![0]).toMatchObject({ status: "failed", error_message: expect.stringContaining("Abandoned") });
+    expect(opArgs(stale!, "eq")).toEqual(["status", "running"]);
+    expect(opArgs(stale!, "lt")).toEqual(["updated_at", "2026-01-05T11:45:00.000Z"]);
+    expect(opArgs(lookup!, "eq")).toEqual(["status", "running"]);
+  });
+});
+
+describe("createRagReindexJob", () => {
+  it("returns null when the one-running-job index rejects the insert", async () => {
+    const { client } = fakeSupabase(() => ({ error: { message: "duplicate key", code: "23505" } }));
+
+    await expect(createRagReindexJob(client, { sourceTypes: [], createdBy: null })).resolves.toBeNull();
+  });
+
+  it("throws other insert errors", async () => {
+    const { client } = fakeSupabase(() => ({ error: { message: "permission denied", code: "42501" } }));
+
+    await expect(createRagReindexJob(client, { sourceTypes: [], createdBy: null })).rejects.toThrow(
+      "permission denied"
+    );
+  });
+});
+
+describe("runRagReindexJob", () => {
+  it("re-embeds stored documents in batches and completes the job", async () => {
+    const rows = Array.from({ length: 10 }, (_, i) => storedRow(`GH-${i}`));
+    respond = (q) => (q.table === "rag_items" ? { data: rows } : q.table.startsWith("rpc:") ? { data: 1 } : undefined);
+    const embed = vi.fn(vectors);
+
+    await runRagReindexJob("job-1", ["github_issue"], provider(embed));
+
+    // 10 documents at 8 per embedding call.
+    expect(embed).toHaveBeenCalledTimes(2);
+    expect(admin.queries.filter((q) => q.table === "rpc:rag_replace_document")).toHaveLength(10);
+
+    const updates = jobUpdates();
+    expect(updates[0]).toMatchObject({ items_total: 10 });
+    // Every batch touches the heartbeat.
+    expect(updates.slice(1).every((u) => typeof u.updated_at === "string")).toBe(true);
+    expect(updates.at(-1)).toMatchObject({
+      status: "completed",
+      items_processed: 10,
+      items_failed: 0,
+      chunks_written: 10,
+    });
+  });
+
+  it("records a failed batch per document and carries on", async () => {
+    const rows = Array.from({ length: 9 }, (_, i) => storedRow(`GH-${i}`));
+    respond = (q) => (q.table === "rag_items" ? { data: rows } : q.table.startsWith("rpc:") ? { data: 1 } : undefined);
+    const embed = vi
+      .fn<EmbeddingProvider["embed"]>()
+      .mockRejectedValueOnce(new Error("model not loaded"))
+      .mockImplementation(vectors);
+
+    await runRagReindexJob("job-1", ["github_issue"], provider(embed));
+
+    const final = jobUpdates().at(-1)!;
+    expect(final).toMatchObject({ status: "completed", items_processed: 9, items_failed: 8, chunks_written: 1 });
+    expect(final.failures[0]).toEqual({ source_type: "github_issue", source_id: "GH-0", error: "model not loaded" });
+  });
+
+  it("fails the job when the documents cannot be collected", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    respond = (q) => (q.table === "rag_items" ? { error: { message: "relation does not exist" } } : undefined);
+
+    await runRagReindexJob("job-1", ["github_issue"], provider(vi.fn(vectors)));
+
+    expect(jobUpdates().at(-1)).toMatchObject({ status: "failed", error_message: "relation does not exist" });
+  });
+});
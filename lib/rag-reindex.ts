@@ -0,0 +1,323 @@
+import type { Tables } from "@/database.types";
+import { metrics } from "@/lib/metrics";
+import {
+  chunkTextBySections,
+  getEmbeddingProvider,
+  ragReplaceDocument,
+  type EmbeddingProvider,
+  type RagDocumentChunks,
+  type RagUpsertInput,
+} from "@/lib/rag";
+import {
+  knownErrorToRagDocument,
+  postmortemToRagDocument,
+  sopToRagDocument,
+  ticketToRagDocument,
+} from "@/lib/rag-documents";
+import { createClient } from "@/lib/supabase/admin";
+
+export type RagReindexJob = Tables<"rag_reindex_jobs">;
+
+const DOCS_PER_BATCH = 8;
+const PAGE_SIZE = 1000;
+const MAX_RECORDED_FAILURES = 100;
+// A running job that has not finished a batch for this long was orphaned
+// (e.g. by a restart mid-run) and no longer holds the reindex lock.
+const STALE_AFTER_MINUTES = 15;
+
+// Sources whose content can be re-derived from their own tables. Anything
+// else (e.g. github_issue, manual uploads) only lives in rag_items, so its
+// stored chunks are re-embedded as-is.
+const DERIVED_SOURCE_TYPES = ["ticket", "sop", "known_error", "postmortem"];
+
+function wantsSource(sourceTypes: string[], sourceType: string) {
+  return sourceTypes.length === 0 || sourceTypes.includes(sourceType);
+}
+
+function toChunks(doc: RagUpsertInput): RagDocumentChunks {
+  return {
+    sourceType: doc.sourceType,
+    sourceId: doc.sourceId,
+    title: doc.title,
+    metadata: doc.metadata,
+    chunks: chunkTextBySections(doc.content),
+  };
+}
+
+async function collectStoredDocuments(
+  supabase: any,
+  sourceTypes: string[]
+): Promise<RagDocumentChunks[]> {
+  const byKey = new Map<string, RagDocumentChunks>();
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    let query = (supabase.from("rag_items") as any)
+      .select("source_type,source_id,chunk_index,title,content,metadata")
+      .not("source_type", "in", `(${DERIVED_SOURCE_TYPES.join(",")})`)
+      .order("source_type")
+      .order("source_id")
+      .order("chunk_index")
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (sourceTypes.length > 0) query = query.in("source_type", sourceTypes);
+
+    const { data, error } = await query;
+    if (error) throw new Error(error.message);
+
+    for (const row of (data as any[]) ?? []) {
+      const key = `${row.source_type}:${row.source_id}`;
+      let doc = byKey.get(key);
+      if (!doc) {
+        doc = {
+          sourceType: row.source_type,
+          sourceId: row.source_id,
+          title: row.title,
+          metadata: row.metadata ?? {},
+          chunks: [],
+        };
+        byKey.set(key, doc);
+      }
+      doc.chunks.push({
+        content: row.content,
+        sections: Array.isArray(row.metadata?.sections) ? row.metadata.sections : [],
+      });
+    }
+
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return Array.from(byKey.values());
+}
+
+export async function collectReindexDocuments(
+  supabase: any,
+  sourceTypes: string[] = []
+): Promise<RagDocumentChunks[]> {
+  const docs: RagDocumentChunks[] = [];
+
+  if (wantsSource(sourceTypes, "ticket")) {
+    const { data, error } = await (supabase.from("tickets") as any)
+      .select("*")
+      .in("status", ["Resolved", "Closed"])
+      .is("duplicate_of", null);
+    if (error) throw new Error(error.message);
+    docs.push(...((data as any[]) ?? []).map((t) => toChunks(ticketToRagDocument(t))));
+  }
+
+  if (wantsSource(sourceTypes, "sop")) {
+    const { data, error } = await (supabase.from("sops") as any).select("*");
+    if (error) throw new Error(error.message);
+    docs.push(...((data as any[]) ?? []).map((s) => toChunks(sopToRagDocument(s))));
+  }
+
+  if (wantsSource(sourceTypes, "known_error")) {
+    const { data, error } = await (supabase.from("problem_records") as any)
+      .select("*, tickets!inner ( * )")
+      .eq("known_error_status", "published")
+      .eq("tickets.type", "Problem");
+    if (error) throw new Error(error.message);
+    docs.push(
+      ...((data as any[]) ?? []).map(({ tickets, ...record }) => toChunks(knownErrorToRagDocument(tickets, record)))
+    );
+  }
+
+  if (wantsSource(sourceTypes, "postmortem")) {
+    const { data, error } = await (supabase.from("postmortems") as any)
+      .select("*, tickets!inner ( * )")
+      .eq("status", "Approved");
+    if (error) throw new Error(error.message);
+    docs.push(
+      ...((data as any[]) ?? []).map(({ tickets, ...postmortem }) =>
+        toChunks(postmortemToRagDocument(tickets, postmortem))
+      )
+    );
+  }
+
+  const storedTypes = sourceTypes.filter((t) => !DERIVED_SOURCE_TYPES.includes(t));
+  if (sourceTypes.length === 0 || storedTypes.length > 0) {
+    docs.push(...(await collectStoredDocuments(supabase, storedTypes)));
+  }
+
+  return docs.filter((d) => d.chunks.length > 0);
+}
+
+/**
+ * Returns the job currently holding the reindex lock, after failing any
+ * running job whose heartbeat (updated_at) is older than STALE_AFTER_MINUTES.
+ */
+export async function getActiveRagReindexJob(supabase: any): Promise<RagReindexJob | null> {
+  const now = new Date();
+  const cutoff = new Date(now.getTime() - STALE_AFTER_MINUTES * 60_000).toISOString();
+  const { error: staleErr } = await (supabase.from("rag_reindex_jobs") as any)
+    .update({
+      status: "failed",
+      error_message: `Abandoned: no progress for ${STALE_AFTER_MINUTES} minutes`,
+      finished_at: now.toISOString(),
+      updated_at: now.toISOString(),
+    })
+    .eq("status", "running")
+    .lt("updated_at", cutoff);
+  if (staleErr) throw new Error(staleErr.message);
+
+  const { data, error } = await (supabase.from("rag_reindex_jobs") as any)
+    .select("*")
+    .eq("status", "running")
+    .order("started_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  return data ?? null;
+}
+
+/**
+ * Starts a job row. Returns null when another job is already running: a
+ * partial unique index allows one running row, so of two concurrent starts
+ * only one gets the lock.
+ */
+export async function createRagReindexJob(
+  supabase: any,
+  params: { sourceTypes: string[]; createdBy: string | null }
+): Promise<RagReindexJob | null> {
+  const provider = getEmbeddingProvider();
+
+  const { data, error } = await (supabase.from("rag_reindex_jobs") as any)
+    .insert({
+      status: "running",
+      source_types: params.sourceTypes,
+      embedding_provider: provider.name,
+      embedding_model: provider.model,
+      created_by: params.createdBy,
+    })
+    .select("*")
+    .single();
+
+  if (error?.code === "23505") return null;
+  if (error || !data) throw new Error(error?.message || "Failed to create reindex job");
+  return data;
+}
+
+export async function getRagReindexJob(supabase: any, id: string): Promise<RagReindexJob | null> {
+  const { data, error } = await (supabase.from("rag_reindex_jobs") as any)
+    .select("*")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  return data ?? null;
+}
+
+export async function listRagReindexJobs(supabase: any, limit = 10): Promise<RagReindexJob[]> {
+  const { data, error } = await (supabase.from("rag_reindex_jobs") as any)
+    .select("*")
+    .order("started_at", { ascending: false })
+    .limit(limit);
+
+  if (error) throw new Error(error.message);
+  return data ?? [];
+}
+
+/**
+ * Re-chunks and re-embeds every document in scope, DOCS_PER_BATCH documents
+ * per embedding call, swapping each document in via ragReplaceDocument.
+ * Runs outside the request (see /api/rag/reindex), so it uses the service
+ * role client and records progress on the job row instead of throwing,
+ * touching updated_at after each batch as the lock heartbeat.
+ *
+ * The provider is called directly rather than through embedTexts: a reindex
+ * must not silently fall back to the hash embedder.
+ */
+export async function runRagReindexJob(
+  jobId: string,
+  sourceTypes: string[] = [],
+  provider: EmbeddingProvider = getEmbeddingProvider()
+): Promise<void> {
+  const supabase = await createClient();
+  const jobs = () => supabase.from("rag_reindex_jobs") as any;
+
+  let itemsProcessed = 0;
+  let itemsFailed = 0;
+  let chunksWritten = 0;
+  const failures: Array<{ source_type: string; source_id: string; error: string }> = [];
+
+  try {
+    const docs = await collectReindexDocuments(supabase, sourceTypes);
+    await jobs().update({ items_total: docs.length, updated_at: new Date().toISOString() }).eq("id", jobId);
+
+    for (let i = 0; i < docs.length; i += DOCS_PER_BATCH) {
+      const group = docs.slice(i, i + DOCS_PER_BATCH);
+
+      let vectors: number[][] | null = null;
+      let batchError = "";
+      try {
+        vectors = await provider.embed(group.flatMap((d) => d.chunks.map((c) => c.content)));
+      } catch (e) {
+        batchError = e instanceof Error ? e.message : "Embedding failed";
+      }
+
+      let offset = 0;
+      for (const doc of group) {
+        const docVectors = vectors?.slice(offset, offset + doc.chunks.length) ?? null;
+        offset += doc.chunks.length;
+
+        try {
+          if (!docVectors) throw new Error(batchError);
+          chunksWritten += await ragReplaceDocument(supabase, doc, {
+            provider: provider.name,
+            model: provider.model,
+            vectors: docVectors,
+          });
+          metrics().ragReindexDocumentsTotal.inc({ status: "ok" }, 1);
+        } catch (e) {
+          itemsFailed++;
+          metrics().ragReindexDocumentsTotal.inc({ status: "error" }, 1);
+          if (failures.length < MAX_RECORDED_FAILURES) {
+            failures.push({
+              source_type: doc.sourceType,
+              source_id: doc.sourceId,
+              error: e instanceof Error ? e.message : "Reindex failed",
+            });
+          }
+        }
+        itemsProcessed++;
+      }
+
+      await jobs()
+        .update({
+          items_processed: itemsProcessed,
+          items_failed: itemsFailed,
+          chunks_written: chunksWritten,
+          failures,
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", jobId);
+    }
+
+    await jobs()
+      .update({
+        status: "completed",
+        items_processed: itemsProcessed,
+        items_failed: itemsFailed,
+        chunks_written: chunksWritten,
+        failures,
+        finished_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", jobId);
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : "Reindex failed";
+    console.error("RAG reindex failed:", msg);
+    await jobs()
+      .update({
+        status: "failed",
+        items_processed: itemsProcessed,
+        items_failed: itemsFailed,
+        chunks_written: chunksWritten,
+        failures,
+        error_message: msg,
+        finished_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", jobId);
+  }
+}
@@ -0,0 +1,472 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  RAG_EMBEDDING_DIM,
+  chunkTextByChars,
+  chunkTextBySections,
+  collapseRagResults,
+  cosineSimilarity,
+  createHashEmbeddingProvider,
+  createLocalAIEmbeddingProvider,
+  embedTexts,
+  hasRagMetadataFilters,
+  isRagSearchMode,
+  parseRagMetadataFilters,
+  ragDocumentWeight,
+  ragSearch,
+  ragSearchDocuments,
+  vectorToPgVectorString,
+  type EmbeddingProvider,
+  type RagResult,
+} from "@/lib/rag";
+
+const rpc = vi.fn();
+const from = vi.fn();
+vi.mock("@/lib/supabase/server", () => ({
+  createClient: async () => ({ rpc, from }),
+}));
+
+function vector(fill: number, dims: number = RAG_EMBEDDING_DIM): number[] {
+  return new Array(dims).fill(fill);
+}
+
+function stubEmbeddingsResponse(body: unknown, status = 200) {
+  const fetchMock = vi.fn(async () => new Response(JSON.stringify(body), { status }));
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+  rpc.mockReset();
+  from.mockReset();
+});
+
+function searchRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "row-1",
+    source_type: "ticket",
+    source_id: "T-1",
+    chunk_index: 0,
+    title: "Pump alarm",
+    content: "Title: Pump alarm",
+    metadata: { section: "Title" },
+    score: 0.03,
+    embedding_provider: "hash",
+    embedding_model: "char-bucket-v1",
+    ...overrides,
+  };
+}
+
+describe("createLocalAIEmbeddingProvider", () => {
+  it("posts all texts in one request and returns vectors in input order", async () => {
+    const fetchMock = stubEmbeddingsResponse({
+      data: [
+        { index: 1, embedding: vector(0.2) },
+        { index: 0, embedding: vector(0.1) },
+      ],
+    });
+
+    const vectors = await createLocalAIEmbeddingProvider("http://ai.test", "mini").embed(["a", "b"]);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe("http://ai.test/v1/embeddings");
+    expect(JSON.parse(init.body as string)).toEqual({ model: "mini", input: ["a", "b"] });
+    expect(vectors.map((v) => v[0])).toEqual([0.1, 0.2]);
+  });
+
+  it("rejects a response with fewer vectors than inputs", async () => {
+    stubEmbeddingsResponse({ data: [{ index: 0, embedding: vector(0.1) }] });
+
+    await expect(createLocalAIEmbeddingProvider("http://ai.test", "mini").embed(["a", "b"])).rejects.toThrow(
+      "returned 1 vectors for 2 inputs"
+    );
+  });
+
+  it("rejects vectors of the wrong dimension", async () => {
+    stubEmbeddingsResponse({ data: [{ index: 0, embedding: vector(0.1, 768) }] });
+
+    await expect(createLocalAIEmbeddingProvider("http://ai.test", "big").embed(["a"])).rejects.toThrow(
+      `must return ${RAG_EMBEDDING_DIM} dims, got 768`
+    );
+  });
+
+  it("surfaces HTTP errors with the status", async () => {
+    stubEmbeddingsResponse({ error: "model not loaded" }, 503);
+
+    await expect(createLocalAIEmbeddingProvider("http://ai.test", "mini").embed(["a"])).rejects.toThrow("(503)");
+  });
+});
+
+describe("embedTexts", () => {
+  it("reports the provider that produced the vectors", async () => {
+    const provider: EmbeddingProvider = { name: "stub", model: "m1", embed: async (texts) => texts.map(() => vector(1)) };
+
+    const batch = await embedTexts(["a"], provider);
+
+    expect(batch.provider).toBe("stub");
+    expect(batch.model).toBe("m1");
+    expect(batch.vectors).toHaveLength(1);
+  });
+
+  it("falls back to the hash provider when the configured one fails", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const provider: EmbeddingProvider = {
+      name: "localai",
+      model: "mini",
+      embed: async () => {
+        throw new Error("connection refused");
+      },
+    };
+
+    const batch = await embedTexts(["pump alarm"], provider);
+
+    expect(batch.provider).toBe("hash");
+    expect(batch.vectors[0]).toHaveLength(RAG_EMBEDDING_DIM);
+  });
+
+  it("does not fall back from the hash provider itself", async () => {
+    const provider: EmbeddingProvider = {
+      name: "hash",
+      model: "char-bucket-v1",
+      embed: async () => {
+        throw new Error("boom");
+      },
+    };
+
+    await expect(embedTexts(["a"], provider)).rejects.toThrow("boom");
+  });
+});
+
+describe("hash embeddings", () => {
+  it("are unit length and deterministic", async () => {
+    const [a, b] = await createHashEmbeddingProvider().embed(["Line 3 PLC fault", "line 3 plc fault"]);
+
+    expect(a).toHaveLength(RAG_EMBEDDING_DIM);
+    expect(Math.hypot(...a!)).toBeCloseTo(1, 6);
+    expect(cosineSimilarity(a!, b!)).toBeCloseTo(1, 6);
+  });
+});
+
+describe("vectorToPgVectorString", () => {
+  it("rounds to six decimals", () => {
+    expect(vectorToPgVectorString(vector(1 / 3)).startsWith("[0.333333,0.333333,")).toBe(true);
+  });
+
+  it("rejects vectors of the wrong dimension", () => {
+    expect(() => vectorToPgVectorString(vector(0, 3))).toThrow(`must be ${RAG_EMBEDDING_DIM} dims, got 3`);
+  });
+});
+
+describe("ragSearch", () => {
+  it("runs lexical search without embedding the query", async () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal("fetch", fetchMock);
+    rpc.mockResolvedValue({ data: [searchRow({ lexical_score: 0.4 })], error: null });
+
+    const [result] = await ragSearch({ query: "pump alarm", mode: "lexical" });
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(rpc).toHaveBeenCalledWith(
+      "rag_search",
+      expect.objectContaining({
+        query_embedding: null,
+        filter_embedding_provider: null,
+        filter_embedding_model: null,
+        query_text: "pump alarm",
+        search_mode: "lexical",
+      })
+    );
+    expect(result).toMatchObject({ section: "Title", vector_score: null, lexical_score: 0.4, pinned: false });
+  });
+
+  it("sends the embedding and its provider for hybrid search", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.stubGlobal("fetch", vi.fn(async () => new Response("down", { status: 503 })));
+    rpc.mockResolvedValue({ data: [searchRow({ vector_score: 0.8, lexical_score: 0.2 })], error: null });
+
+    const [result] = await ragSearch({ query: "pump alarm", mode: "hybrid", limit: 3 });
+
+    const args = rpc.mock.calls[0]![1];
+    expect(args.search_mode).toBe("hybrid");
+    expect(args.match_count).toBe(3);
+    expect(args.query_embedding).toMatch(/^\[/);
+    // The LocalAI call failed, so only hash-embedded rows may match.
+    expect(args.filter_embedding_provider).toBe("hash");
+    expect(result).toMatchObject({ score: 0.03, vector_score: 0.8, lexical_score: 0.2 });
+  });
+
+  it("defaults to vector mode and clamps the limit", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.stubGlobal("fetch", vi.fn(async () => new Response("down", { status: 503 })));
+    rpc.mockResolvedValue({ data: [], error: null });
+
+    await ragSearch({ query: "pump", limit: 500 });
+
+    expect(rpc.mock.calls[0]![1]).toMatchObject({ search_mode: "vector", match_count: 50 });
+  });
+
+  it("throws the RPC error", async () => {
+    rpc.mockResolvedValue({ data: null, error: { message: "function rag_search does not exist" } });
+
+    await expect(ragSearch({ query: "pump", mode: "lexical" })).rejects.toThrow("rag_search does not exist");
+  });
+});
+
+describe("isRagSearchMode", () => {
+  it("accepts only the known modes", () => {
+    expect(["vector", "lexical", "hybrid"].every(isRagSearchMode)).toBe(true);
+    expect(isRagSearchMode("fuzzy")).toBe(false);
+    expect(isRagSearchMode(undefined)).toBe(false);
+  });
+});
+
+describe("parseRagMetadataFilters", () => {
+  it("keeps valid keys, trimming strings and normalising timestamps", () => {
+    expect(
+      parseRagMetadataFilters({
+        service: "  MES ",
+        topics: ["network", " ", 7, "plc "],
+        priorities: ["P1"],
+        resolvedAfter: "2025-01-02",
+      })
+    ).toEqual({
+      service: "MES",
+      site: undefined,
+      topics: ["network", "plc"],
+      priorities: ["P1"],
+      resolvedAfter: "2025-01-02T00:00:00.000Z",
+      resolvedBefore: undefined,
+    });
+  });
+
+  it("drops invalid values", () => {
+    const filters = parseRagMetadataFilters({ site: "Plant 2", resolvedBefore: "not a date", topics: "network" });
+
+    expect(filters?.site).toBe("Plant 2");
+    expect(filters?.resolvedBefore).toBeUndefined();
+    expect(filters?.topics).toBeUndefined();
+  });
+
+  it("returns undefined when nothing usable is left", () => {
+    expect(parseRagMetadataFilters({ service: "", topics: [] })).toBeUndefined();
+    expect(parseRagMetadataFilters(["MES"])).toBeUndefined();
+    expect(parseRagMetadataFilters(null)).toBeUndefined();
+  });
+});
+
+describe("hasRagMetadataFilters", () => {
+  it("is false for missing or all-undefined filters", () => {
+    expect(hasRagMetadataFilters(undefined)).toBe(false);
+    expect(hasRagMetadataFilters({ service: undefined })).toBe(false);
+    expect(hasRagMetadataFilters({ priorities: ["P2"] })).toBe(true);
+  });
+});
+
+describe("ragSearch filters", () => {
+  it("passes metadata filters to the RPC in its snake_case shape", async () => {
+    rpc.mockResolvedValue({ data: [], error: null });
+
+    await ragSearch({
+      query: "pump",
+      mode: "lexical",
+      filters: { site: "Plant 2", resolvedAfter: "2025-01-01T00:00:00.000Z" },
+    });
+
+    expect(rpc.mock.calls[0]![1].filter_metadata).toEqual({
+      service: undefined,
+      site: "Plant 2",
+      topics: undefined,
+      priorities: undefined,
+      resolved_after: "2025-01-01T00:00:00.000Z",
+      resolved_before: undefined,
+    });
+  });
+
+  it("sends no filter when none is set", async () => {
+    rpc.mockResolvedValue({ data: [], error: null });
+
+    await ragSearch({ query: "pump", mode: "lexical", filters: {} });
+
+    expect(rpc.mock.calls[0]![1].filter_metadata).toBeNull();
+  });
+});
+
+function chunk(sourceId: string, chunkIndex: number, score: number, overrides: Partial<RagResult> = {}): RagResult {
+  return {
+    ...(searchRow({ id: `${sourceId}#${chunkIndex}`, source_id: sourceId, chunk_index: chunkIndex, score }) as any),
+    section: null,
+    vector_score: score,
+    lexical_score: null,
+    pinned: false,
+    ...overrides,
+  };
+}
+
+describe("collapseRagResults", () => {
+  it("keeps one result per document, best chunk first, in first-seen order", () => {
+    const docs = collapseRagResults([chunk("A", 2, 0.9), chunk("B", 0, 0.8), chunk("A", 5, 0.7)]);
+
+    expect(docs.map((d) => [d.source_id, d.chunk_index])).toEqual([
+      ["A", 2],
+      ["B", 0],
+    ]);
+    expect(docs[0]!.matched_chunks).toEqual([
+      { chunk_index: 2, score: 0.9 },
+      { chunk_index: 5, score: 0.7 },
+    ]);
+    expect(docs[0]!.context_chunk_indexes).toEqual([2]);
+  });
+
+  it("keeps documents with the same id but different source types apart", () => {
+    const docs = collapseRagResults([chunk("X", 0, 0.9), chunk("X", 0, 0.8, { source_type: "sop" })]);
+
+    expect(docs).toHaveLength(2);
+  });
+});
+
+describe("ragDocumentWeight", () => {
+  it("ranks approved SOPs over tickets over draft SOPs, with pins on top", () => {
+    expect(ragDocumentWeight({ source_type: "ticket", metadata: {}, pinned: false })).toBe(1);
+    expect(ragDocumentWeight({ source_type: "sop", metadata: { status: "Approved" }, pinned: false })).toBe(1.25);
+    expect(ragDocumentWeight({ source_type: "sop", metadata: { status: "Draft" }, pinned: false })).toBe(0.8);
+    expect(ragDocumentWeight({ source_type: "ticket", metadata: {}, pinned: true })).toBe(1.5);
+    expect(ragDocumentWeight({ source_type: "sop", metadata: { status: "Approved" }, pinned: true })).toBeCloseTo(1.875);
+  });
+});
+
+describe("ragSearchDocuments", () => {
+  it("over-fetches chunks, re-ranks by weighted score and trims to the limit", async () => {
+    rpc.mockResolvedValue({
+      data: [
+        searchRow({ source_id: "T-1", score: 0.9 }),
+        searchRow({ source_id: "T-1", chunk_index: 1, score: 0.85 }),
+        searchRow({ source_type: "sop", source_id: "S-1", score: 0.8, metadata: { status: "Approved" } }),
+        searchRow({ source_id: "T-2", score: 0.5 }),
+      ],
+      error: null,
+    });
+
+    const docs = await ragSearchDocuments({ query: "pump", mode: "lexical", limit: 2 });
+
+    expect(rpc.mock.calls[0]![1].match_count).toBe(8);
+    expect(docs.map((d) => `${d.source_type}:${d.source_id}`)).toEqual(["sop:S-1", "ticket:T-1"]);
+    expect(docs[0]!.score).toBeCloseTo(1);
+    expect(docs[0]!.weight).toBe(1.25);
+  });
+
+  it("widens the best chunk with its neighbours when asked", async () => {
+    rpc.mockResolvedValue({ data: [searchRow({ source_id: "T-1", chunk_index: 3, score: 0.9 })], error: null });
+    const query: any = {
+      select: () => query,
+      eq: () => query,
+      gte: () => query,
+      lte: () => query,
+      order: async () => ({
+        data: [
+          { chunk_index: 2, content: "before" },
+          { chunk_index: 3, content: "match" },
+          { chunk_index: 4, content: "after" },
+        ],
+        error: null,
+      }),
+    };
+    from.mockReturnValue(query);
+
+    const [doc] = await ragSearchDocuments({ query: "pump", mode: "lexical", expandNeighbors: 1 });
+
+    expect(from).toHaveBeenCalledWith("rag_items");
+    expect(doc!.content).toBe("before\n…\nmatch\n…\nafter");
+    expect(doc!.context_chunk_indexes).toEqual([2, 3, 4]);
+  });
+});
+
+describe("chunkTextBySections", () => {
+  const steps = Array.from({ length: 30 }, (_, i) => `Step ${i} restarts the OPC server on node ${i}.`).join(" ");
+
+  it("returns nothing for blank text", () => {
+    expect(chunkTextBySections("  \n ")).toEqual([]);
+  });
+
+  it("packs small sections into one chunk and lists them", () => {
+    const chunks = chunkTextBySections("Title: Pump alarm\n\nService: MES\n\nRoot Cause:\nLoose sensor cable");
+
+    expect(chunks).toEqual([
+      {
+        content: "Title: Pump alarm\nService: MES\nRoot Cause: Loose sensor cable",
+        sections: ["Title", "Service", "Root Cause"],
+      },
+    ]);
+  });
+
+  it("matches headings case-insensitively and ignores unknown ones", () => {
+    const [chunk] = chunkTextBySections("ROOT CAUSE:\nbad cable\nNote: check the other line too");
+
+    expect(chunk!.sections).toEqual(["Root Cause"]);
+    expect(chunk!.content).toBe("ROOT CAUSE:\nbad cable\nNote: check the other line too");
+  });
+
+  it("recognises known-error and postmortem headings", () => {
+    const text = [
+      "Incident: Line 3 down (P1)",
+      "Summary:\nPLC lost power.",
+      "Timeline:\n- 09:00 alarm",
+      "Impact:\n2h downtime",
+      "Contributing Factors:\n- no UPS",
+      "Action Items:\n- fit UPS",
+      "Workaround:\nRestart the PLC.",
+      "Permanent Fix:\nReplace the PSU.",
+    ].join("\n\n");
+
+    expect(chunkTextBySections(text)[0]!.sections).toEqual([
+      "Incident",
+      "Summary",
+      "Timeline",
+      "Impact",
+      "Contributing Factors",
+      "Action Items",
+      "Workaround",
+      "Permanent Fix",
+    ]);
+  });
+
+  it("starts a new chunk when the next section does not fit", () => {
+    const chunks = chunkTextBySections(`Title: Pump\n\nDescription:\n${"x".repeat(290)}`, 310, 50);
+
+    expect(chunks.map((c) => c.sections)).toEqual([["Title"], ["Description"]]);
+  });
+
+  it("splits an oversized section at sentences, repeating its heading with overlap", () => {
+    const chunks = chunkTextBySections(`Title: Pump\n\nResolution Notes:\n${steps}`, 400, 100);
+    const pieces = chunks.slice(1);
+
+    expect(chunks[0]!.content).toBe("Title: Pump");
+    expect(pieces.length).toBeGreaterThan(2);
+    for (const piece of pieces) {
+      expect(piece.content.startsWith("Resolution Notes:\n")).toBe(true);
+      expect(piece.content.length).toBeLessThanOrEqual(400);
+      expect(piece.content).toMatch(/\.$/);
+      expect(piece.sections).toEqual(["Resolution Notes"]);
+    }
+    // The last sentence of one piece opens the next.
+    const lastOfFirst = pieces[0]!.content.split(". ").pop()!;
+    expect(pieces[1]!.content).toContain(lastOfFirst);
+    expect(pieces.at(-1)!.content).toContain("Step 29 restarts");
+  });
+
+  it("falls back to sentence packing for text without headings", () => {
+    const chunks = chunkTextBySections(steps, 300, 0);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.every((c) => c.sections.length === 0 && c.content.length <= 300)).toBe(true);
+  });
+});
+
+describe("chunkTextByChars", () => {
+  it("splits with overlap and no empty chunks", () => {
+    const chunks = chunkTextByChars("a".repeat(25), 10, 3);
+
+    expect(chunks.map((c) => c.length)).toEqual([10, 10, 10, 4]);
+  });
+});
@@ -1,7 +1,12 @@
 import { createClient } from "@/lib/supabase/server";
+import { metrics } from "@/lib/metrics";
 
 export const RAG_EMBEDDING_DIM = 384 as const;
 
+const LOCAL_AI_ENDPOINT = process.env.LOCAL_AI_ENDPOINT ?? "http://localhost:8080";
+const LOCAL_AI_EMBEDDING_MODEL = process.env.LOCAL_AI_EMBEDDING_MODEL ?? "all-MiniLM-L6-v2";
+const RAG_EMBEDDING_PROVIDER = process.env.RAG_EMBEDDING_PROVIDER ?? "localai";
+
 export type RagUpsertInput = {
   sourceType: string;
   sourceId: string;
@@ -12,10 +17,40 @@ export type RagUpsertInput = {
   overlapChars?: number;
 };
 
+// A chunk plus the document sections it covers (e.g. ["Resolution Notes"]).
+export type RagChunk = {
+  content: string;
+  sections: string[];
+};
+
+export type RagDocumentChunks = {
+  sourceType: string;
+  sourceId: string;
+  title: string;
+  metadata?: Record<string, unknown>;
+  chunks: RagChunk[];
+};
+
+export type RagSearchMode = "vector" | "lexical" | "hybrid";
+
+export const RAG_SEARCH_MODES: readonly RagSearchMode[] = ["vector", "lexical", "hybrid"];
+
+// Filters over the metadata stored with each document (see ticketToRagDocument).
+export type RagMetadataFilters = {
+  service?: string;
+  site?: string;
+  topics?: string[]; // any overlap
+  priorities?: string[];
+  resolvedAfter?: string; // ISO timestamp
+  resolvedBefore?: string; // ISO timestamp
+};
+
 export type RagSearchInput = {
   query: string;
   limit?: number;
   filterSourceType?: string | null;
+  mode?: RagSearchMode;
+  filters?: RagMetadataFilters;
 };
 
 export type RagResult = {
@@ -26,7 +61,46 @@ export type RagResult = {
   title: string;
   content: string;
   metadata: any;
-  score: number;
+  section: string | null; // first section the chunk covers, if known
+  score: number; // fused score in hybrid mode, otherwise the single signal
+  vector_score: number | null;
+  lexical_score: number | null;
+  embedding_provider: string;
+  embedding_model: string;
+  pinned: boolean; // admin-pinned document (see rag_document_curation)
+};
+
+/**
+ * One document (source_type + source_id) collapsed from its matching chunks.
+ * `id`, `chunk_index`, `score` and the per-signal scores describe the best
+ * chunk; `content` is that chunk, widened with neighbouring chunks when
+ * expansion is requested.
+ */
+export type RagDocumentResult = RagResult & {
+  matched_chunks: Array<{ chunk_index: number; score: number }>;
+  context_chunk_indexes: number[];
+  weight: number; // already applied to `score`, see ragDocumentWeight
+};
+
+export type RagDocumentSearchInput = RagSearchInput & {
+  expandNeighbors?: number; // chunks either side of the best chunk
+};
+
+/**
+ * An EmbeddingProvider turns text into RAG_EMBEDDING_DIM-sized vectors.
+ * `name` and `model` are stored on every rag_items row so that vectors from
+ * different providers/models are never compared against each other.
+ */
+export type EmbeddingProvider = {
+  name: string;
+  model: string;
+  embed(texts: string[]): Promise<number[][]>;
+};
+
+export type EmbeddingBatch = {
+  provider: string;
+  model: string;
+  vectors: number[][];
 };
 
 export async function embedTextToVector384(text: string): Promise<number[]> {
@@ -43,6 +117,114 @@ export async function embedTextToVector384(text: string): Promise<number[]> {
   return vector.map((v) => v / mag);
 }
 
+export function createHashEmbeddingProvider(): EmbeddingProvider {
+  return {
+    name: "hash",
+    model: "char-bucket-v1",
+    embed: (texts) => Promise.all(texts.map((t) => embedTextToVector384(t))),
+  };
+}
+
+/**
+ * OpenAI-compatible `/v1/embeddings` provider, pointed at the same LocalAI
+ * server as LocalAIConnector by default.
+ */
+export function createLocalAIEmbeddingProvider(
+  endpoint: string = LOCAL_AI_ENDPOINT,
+  model: string = LOCAL_AI_EMBEDDING_MODEL
+): EmbeddingProvider {
+  return {
+    name: "localai",
+    model,
+    async embed(texts) {
+      const controller = new AbortController();
+      const timeout = setTimeout(() => controller.abort(), 30_000);
+
+      try {
+        const res = await fetch(`${endpoint}/v1/embeddings`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ model, input: texts }),
+          signal: controller.signal,
+        });
+
+        if (!res.ok) {
+          const text = await res.text();
+          throw new Error(`LocalAI embeddings error (${res.status}): ${text}`);
+        }
+
+        const data = await res.json();
+        const items = ((data.data as any[]) ?? [])
+          .slice()
+          .sort((a, b) => (a.index ?? 0) - (b.index ?? 0));
+
+        if (items.length !== texts.length) {
+          throw new Error(
+            `LocalAI embeddings returned ${items.length} vectors for ${texts.length} inputs`
+          );
+        }
+
+        return items.map((item) => {
+          const vec = item.embedding as number[];
+          if (!Array.isArray(vec) || vec.length !== RAG_EMBEDDING_DIM) {
+            throw new Error(
+              `Embedding model ${model} must return ${RAG_EMBEDDING_DIM} dims, got ${vec?.length ?? 0}`
+            );
+          }
+          return vec;
+        });
+      } finally {
+        clearTimeout(timeout);
+      }
+    },
+  };
+}
+
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (RAG_EMBEDDING_PROVIDER === "hash") return createHashEmbeddingProvider();
+  return createLocalAIEmbeddingProvider();
+}
+
+/**
+ * Embeds texts with the configured provider, falling back to the offline
+ * hash provider when it is unreachable. The returned provider/model must be
+ * persisted (upsert) or used as a filter (search) alongside the vectors.
+ */
+export async function embedTexts(
+  texts: string[],
+  provider: EmbeddingProvider = getEmbeddingProvider()
+): Promise<EmbeddingBatch> {
+  try {
+    const vectors = await provider.embed(texts);
+    metrics().ragEmbeddingRequestsTotal.inc({ provider: provider.name, status: "ok" }, 1);
+    return { provider: provider.name, model: provider.model, vectors };
+  } catch (e) {
+    metrics().ragEmbeddingRequestsTotal.inc({ provider: provider.name, status: "error" }, 1);
+    if (provider.name === "hash") throw e;
+
+    console.warn(
+      `Embedding provider ${provider.name} failed, using hash fallback:`,
+      e instanceof Error ? e.message : e
+    );
+    const fallback = createHashEmbeddingProvider();
+    const vectors = await fallback.embed(texts);
+    metrics().ragEmbeddingRequestsTotal.inc({ provider: fallback.name, status: "fallback" }, 1);
+    return { provider: fallback.name, model: fallback.model, vectors };
+  }
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let na = 0;
+  let nb = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i]! * b[i]!;
+    na += a[i]! * a[i]!;
+    nb += b[i]! * b[i]!;
+  }
+  return dot / (Math.sqrt(na) * Math.sqrt(nb) || 1);
+}
+
 export function vectorToPgVectorString(vec: number[]): string {
   if (vec.length !== RAG_EMBEDDING_DIM) {
     throw new Error(
@@ -76,12 +258,253 @@ export function chunkTextByChars(
   return chunks;
 }
 
+// Section headings written by ticketToRagDocument, sopToRagDocument,
+// knownErrorToRagDocument, postmortemToRagDocument and the GitHub sync.
+// Matched case-insensitively at the start of a line.
+const SECTION_HEADINGS = [
+  "title",
+  "service",
+  "site",
+  "topics",
+  "tags",
+  "labels",
+  "state",
+  "url",
+  "body",
+  "description",
+  "problem description",
+  "symptoms",
+  "root cause",
+  "resolution notes",
+  "resolution steps",
+  "validation steps",
+  "rollback procedures",
+  "workaround",
+  "permanent fix",
+  "incident",
+  "summary",
+  "timeline",
+  "impact",
+  "contributing factors",
+  "action items",
+];
+
+const HEADING_RE = /^([A-Za-z][A-Za-z ]{0,40}):\s*(.*)$/;
+const SENTENCE_BREAK_RE = /(?<=[.!?])\s+(?=[A-Z0-9"'(\[])/;
+
+type TextSection = {
+  name: string | null;
+  heading: string | null;
+  lines: string[]; // body lines, heading excluded
+};
+
+type TextUnit = { text: string; sep: string };
+
+function sectionName(heading: string): string {
+  return heading
+    .trim()
+    .toLowerCase()
+    .replace(/\b[a-z]/g, (c) => c.toUpperCase());
+}
+
+function splitSections(text: string): TextSection[] {
+  const sections: TextSection[] = [];
+  let current: TextSection = { name: null, heading: null, lines: [] };
+
+  for (const line of text.split("\n")) {
+    const m = HEADING_RE.exec(line.trim());
+    if (m && SECTION_HEADINGS.includes(m[1]!.trim().toLowerCase())) {
+      if (current.heading || current.lines.some((l) => l.trim())) sections.push(current);
+      current = {
+        name: sectionName(m[1]!),
+        heading: m[1]!.trim(),
+        lines: m[2] ? [m[2]] : [],
+      };
+      continue;
+    }
+    current.lines.push(line);
+  }
+  if (current.heading || current.lines.some((l) => l.trim())) sections.push(current);
+
+  return sections;
+}
+
+function renderSection(section: TextSection): string {
+  const body = section.lines.join("\n").trim();
+  if (!section.heading) return body;
+  // Blank lines around a one-line body (e.g. "Title: x" then a gap) keep it inline.
+  if (!body.includes("\n")) return `${section.heading}: ${body}`.trim();
+  return `${section.heading}:\n${body}`;
+}
+
+// Lines stay whole (list items, log lines); prose lines split at sentence ends.
+function sentenceUnits(lines: string[], maxChars: number, overlapChars: number): TextUnit[] {
+  const units: TextUnit[] = [];
+  for (const line of lines) {
+    const trimmed = line.trim();
+    if (!trimmed) continue;
+    trimmed.split(SENTENCE_BREAK_RE).forEach((sentence, i) => {
+      const sep = i === 0 ? "\n" : " ";
+      if (sentence.length <= maxChars) {
+        units.push({ text: sentence, sep });
+        return;
+      }
+      chunkTextByChars(sentence, maxChars, overlapChars).forEach((piece, j) =>
+        units.push({ text: piece, sep: j === 0 ? sep : " " })
+      );
+    });
+  }
+  return units;
+}
+
+function joinUnits(units: TextUnit[]): string {
+  return units.map((u, i) => (i === 0 ? u.text : u.sep + u.text)).join("");
+}
+
+/**
+ * Splits an oversized section at sentence/line boundaries. Every piece is
+ * re-prefixed with the section heading so e.g. resolution steps never lose
+ * their "Resolution Notes:" context, and consecutive pieces share up to
+ * `overlapChars` of trailing sentences.
+ */
+function splitLongSection(section: TextSection, maxChars: number, overlapChars: number): string[] {
+  const prefix = section.heading ? `${section.heading}:\n` : "";
+  const budget = Math.max(200, maxChars - prefix.length);
+  const units = sentenceUnits(section.lines, budget, Math.min(overlapChars, budget / 2));
+
+  const pieces: string[] = [];
+  let current: TextUnit[] = [];
+  let currentLen = 0;
+
+  for (const unit of units) {
+    const addLen = (current.length ? unit.sep.length : 0) + unit.text.length;
+    if (current.length && currentLen + addLen > budget) {
+      pieces.push(prefix + joinUnits(current));
+
+      const carried: TextUnit[] = [];
+      let carriedLen = 0;
+      for (let i = current.length - 1; i > 0; i--) {
+        const u = current[i]!;
+        if (carriedLen + u.text.length + 1 > overlapChars) break;
+        carried.unshift(u);
+        carriedLen += u.text.length + 1;
+      }
+      if (carriedLen + unit.text.length + 1 > budget) {
+        carried.length = 0;
+        carriedLen = 0;
+      }
+      current = carried;
+      currentLen = carriedLen;
+    }
+    current.push(unit);
+    currentLen += (current.length > 1 ? unit.sep.length : 0) + unit.text.length;
+  }
+  if (current.length) pieces.push(prefix + joinUnits(current));
+
+  return pieces;
+}
+
+/**
+ * Structure-aware chunker for the "Heading:" layouts we index (tickets,
+ * SOPs, GitHub issues). Whole sections are packed together up to `maxChars`;
+ * oversized sections are split at sentence boundaries. Each chunk reports
+ * the sections it covers so search hits can say which part matched.
+ * Text without known headings degrades to sentence-aware packing.
+ */
+export function chunkTextBySections(
+  text: string,
+  maxChars = 1400,
+  overlapChars = 200
+): RagChunk[] {
+  const clean = text.trim();
+  if (!clean) return [];
+
+  const chunks: RagChunk[] = [];
+  let buf: string[] = [];
+  let bufLen = 0;
+  let bufSections: string[] = [];
+
+  const flush = () => {
+    if (buf.length) chunks.push({ content: buf.join("\n").trim(), sections: bufSections });
+    buf = [];
+    bufLen = 0;
+    bufSections = [];
+  };
+
+  for (const section of splitSections(clean)) {
+    const rendered = renderSection(section);
+    if (!rendered) continue;
+
+    if (rendered.length > maxChars) {
+      flush();
+      for (const piece of splitLongSection(section, maxChars, overlapChars)) {
+        chunks.push({ content: piece, sections: section.name ? [section.name] : [] });
+      }
+      continue;
+    }
+
+    if (buf.length && bufLen + 1 + rendered.length > maxChars) flush();
+    buf.push(rendered);
+    bufLen += (buf.length > 1 ? 1 : 0) + rendered.length;
+    if (section.name && !bufSections.includes(section.name)) bufSections.push(section.name);
+  }
+  flush();
+
+  return chunks;
+}
+
+/**
+ * Atomically replaces every chunk of one document (delete + insert in a
+ * single rag_replace_document call), so re-chunking never leaves stale
+ * trailing chunks and readers never see a half-written document.
+ */
+export async function ragReplaceDocument(
+  supabase: any,
+  doc: RagDocumentChunks,
+  batch: EmbeddingBatch
+): Promise<number> {
+  const rows = doc.chunks.map((chunk, i) => ({
+    chunk_index: i,
+    title: doc.title,
+    content: chunk.content,
+    metadata: {
+      ...(doc.metadata ?? {}),
+      section: chunk.sections[0] ?? null,
+      sections: chunk.sections,
+    },
+    embedding: vectorToPgVectorString(batch.vectors[i]!),
+    embedding_provider: batch.provider,
+    embedding_model: batch.model,
+  }));
+
+  const { data, error } = await supabase.rpc("rag_replace_document", {
+    p_source_type: doc.sourceType,
+    p_source_id: doc.sourceId,
+    p_rows: rows,
+  });
+
+  if (error) throw new Error(error.message);
+  return typeof data === "number" ? data : rows.length;
+}
+
+export async function ragDeleteDocument(sourceType: string, sourceId: string): Promise<number> {
+  const supabase = await createClient();
+  const { data, error } = await (supabase.from("rag_items") as any)
+    .delete()
+    .eq("source_type", sourceType)
+    .eq("source_id", sourceId)
+    .select("id");
+
+  if (error) throw new Error(error.message);
+  return (data as any[])?.length ?? 0;
+}
+
 export async function ragUpsert(input: RagUpsertInput): Promise<{
   chunksUpserted: number;
 }> {
   const supabase = await createClient();
 
-  const chunks = chunkTextByChars(
+  const chunks = chunkTextBySections(
     input.content,
     input.maxChunkChars ?? 1400,
     input.overlapChars ?? 200
@@ -89,42 +512,95 @@ export async function ragUpsert(input: RagUpsertInput): Promise<{
 
   if (chunks.length === 0) return { chunksUpserted: 0 };
 
-  const rows = await Promise.all(
-    chunks.map(async (chunk, i) => {
-      const vec = await embedTextToVector384(chunk);
-      const embedding = vectorToPgVectorString(vec);
-      return {
-        source_type: input.sourceType,
-        source_id: input.sourceId,
-        chunk_index: i,
-        title: input.title,
-        content: chunk,
-        metadata: input.metadata ?? {},
-        embedding,
-      };
-    })
+  const batch = await embedTexts(chunks.map((c) => c.content));
+
+  const chunksUpserted = await ragReplaceDocument(
+    supabase,
+    {
+      sourceType: input.sourceType,
+      sourceId: input.sourceId,
+      title: input.title,
+      metadata: input.metadata,
+      chunks,
+    },
+    batch
   );
 
-  const { error } = await (supabase.from("rag_items") as any)
-    .upsert(rows, { onConflict: "source_type,source_id,chunk_index" });
+  return { chunksUpserted };
+}
 
-  if (error) throw new Error(error.message);
+export function isRagSearchMode(v: unknown): v is RagSearchMode {
+  return typeof v === "string" && (RAG_SEARCH_MODES as readonly string[]).includes(v);
+}
+
+function nonEmptyString(v: unknown): string | undefined {
+  return typeof v === "string" && v.trim() ? v.trim() : undefined;
+}
 
-  return { chunksUpserted: rows.length };
+function nonEmptyStringArray(v: unknown): string[] | undefined {
+  if (!Array.isArray(v)) return undefined;
+  const items = v.filter((x): x is string => typeof x === "string").map((x) => x.trim()).filter(Boolean);
+  return items.length > 0 ? items : undefined;
 }
 
+function isoTimestamp(v: unknown): string | undefined {
+  const s = nonEmptyString(v);
+  if (!s) return undefined;
+  const ms = Date.parse(s);
+  return Number.isNaN(ms) ? undefined : new Date(ms).toISOString();
+}
+
+/** Parses untrusted request JSON into RagMetadataFilters, dropping invalid keys. */
+export function parseRagMetadataFilters(v: unknown): RagMetadataFilters | undefined {
+  if (!v || typeof v !== "object" || Array.isArray(v)) return undefined;
+  const raw = v as Record<string, unknown>;
+
+  const filters: RagMetadataFilters = {
+    service: nonEmptyString(raw.service),
+    site: nonEmptyString(raw.site),
+    topics: nonEmptyStringArray(raw.topics),
+    priorities: nonEmptyStringArray(raw.priorities),
+    resolvedAfter: isoTimestamp(raw.resolvedAfter),
+    resolvedBefore: isoTimestamp(raw.resolvedBefore),
+  };
+
+  return hasRagMetadataFilters(filters) ? filters : undefined;
+}
+
+export function hasRagMetadataFilters(filters: RagMetadataFilters | undefined): boolean {
+  return !!filters && Object.values(filters).some((v) => v !== undefined);
+}
+
+function toFilterMetadataArg(filters: RagMetadataFilters | undefined) {
+  if (!filters || !hasRagMetadataFilters(filters)) return null;
+  return {
+    service: filters.service,
+    site: filters.site,
+    topics: filters.topics,
+    priorities: filters.priorities,
+    resolved_after: filters.resolvedAfter,
+    resolved_before: filters.resolvedBefore,
+  };
+}
 
 export async function ragSearch(input: RagSearchInput): Promise<RagResult[]> {
   const supabase = await createClient();
 
-  const vec = await embedTextToVector384(input.query);
-  const embedding = vectorToPgVectorString(vec);
+  const mode = input.mode ?? "vector";
   const limit = Math.max(1, Math.min(input.limit ?? 8, 50));
 
+  // Lexical-only search never touches the embedding provider.
+  const batch = mode === "lexical" ? null : await embedTexts([input.query]);
+
   const { data, error } = await (supabase as any).rpc("rag_search", {
-    query_embedding: embedding,
+    query_embedding: batch ? vectorToPgVectorString(batch.vectors[0]!) : null,
     match_count: limit,
     filter_source_type: input.filterSourceType ?? null,
+    filter_embedding_provider: batch?.provider ?? null,
+    filter_embedding_model: batch?.model ?? null,
+    query_text: input.query,
+    search_mode: mode,
+    filter_metadata: toFilterMetadataArg(input.filters),
   });
 
   if (error) throw new Error(error.message);
@@ -139,6 +615,106 @@ export async function ragSearch(input: RagSearchInput): Promise<RagResult[]> {
     title: row.title,
     content: row.content,
     metadata: row.metadata,
-    score: row.similarity,
+    section: row.metadata?.section ?? null,
+    score: row.score,
+    vector_score: row.vector_score ?? null,
+    lexical_score: row.lexical_score ?? null,
+    embedding_provider: row.embedding_provider,
+    embedding_model: row.embedding_model,
+    pinned: row.pinned ?? false,
   }));
 }
+
+const DOCUMENT_OVERFETCH = 4;
+
+export function ragDocumentKey(r: { source_type: string; source_id: string }): string {
+  return `${r.source_type}:${r.source_id}`;
+}
+
+/** Groups chunk results by document, keeping first-seen (best-scored) order. */
+export function collapseRagResults(results: RagResult[]): RagDocumentResult[] {
+  const docs = new Map<string, RagDocumentResult>();
+
+  for (const r of results) {
+    const key = ragDocumentKey(r);
+    const existing = docs.get(key);
+    if (existing) {
+      existing.matched_chunks.push({ chunk_index: r.chunk_index, score: r.score });
+      continue;
+    }
+    docs.set(key, {
+      ...r,
+      matched_chunks: [{ chunk_index: r.chunk_index, score: r.score }],
+      context_chunk_indexes: [r.chunk_index],
+      weight: 1,
+    });
+  }
+
+  return Array.from(docs.values());
+}
+
+async function expandWithNeighbors(
+  supabase: any,
+  doc: RagDocumentResult,
+  radius: number
+): Promise<RagDocumentResult> {
+  const { data, error } = await (supabase.from("rag_items") as any)
+    .select("chunk_index,content")
+    .eq("source_type", doc.source_type)
+    .eq("source_id", doc.source_id)
+    .gte("chunk_index", doc.chunk_index - radius)
+    .lte("chunk_index", doc.chunk_index + radius)
+    .order("chunk_index", { ascending: true });
+
+  if (error) throw new Error(error.message);
+
+  const rows = (data as Array<{ chunk_index: number; content: string }>) ?? [];
+  if (rows.length <= 1) return doc;
+
+  return {
+    ...doc,
+    content: rows.map((row) => row.content).join("\n…\n"),
+    context_chunk_indexes: rows.map((row) => row.chunk_index),
+  };
+}
+
+const PINNED_WEIGHT = 1.5;
+
+/**
+ * Curated knowledge outranks raw history: approved SOPs are boosted above
+ * resolved tickets, draft SOPs are ranked below them, and documents an admin
+ * pinned are boosted on top of that.
+ */
+export function ragDocumentWeight(
+  r: Pick<RagResult, "source_type" | "metadata" | "pinned">
+): number {
+  let weight = 1;
+  if (r.source_type === "sop") weight = r.metadata?.status === "Approved" ? 1.25 : 0.8;
+  return r.pinned ? weight * PINNED_WEIGHT : weight;
+}
+
+/**
+ * Document-level search: over-fetches chunks, collapses them per
+ * (source_type, source_id) and returns up to `limit` distinct documents,
+ * so one long ticket cannot crowd out other evidence.
+ */
+export async function ragSearchDocuments(
+  input: RagDocumentSearchInput
+): Promise<RagDocumentResult[]> {
+  const limit = Math.max(1, Math.min(input.limit ?? 8, 50));
+
+  const chunks = await ragSearch({ ...input, limit: limit * DOCUMENT_OVERFETCH });
+  const docs = collapseRagResults(chunks)
+    .map((doc) => {
+      const weight = ragDocumentWeight(doc);
+      return { ...doc, weight, score: doc.score * weight };
+    })
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+
+  const radius = Math.max(0, Math.min(input.expandNeighbors ?? 0, 3));
+  if (radius === 0 || docs.length === 0) return docs;
+
+  const supabase = await createClient();
+  return Promise.all(docs.map((doc) => expandWithNeighbors(supabase, doc, radius)));
+}
@@ -0,0 +1,235 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  breachRiskList,
+  calendarForSite,
+  matchSlaPolicy,
+  onSlaStatusChange,
+  parseCalendarInput,
+  parseSlaPolicyInput,
+  recordFirstResponse,
+  slaAtRiskRatio,
+  type BusinessCalendarRow,
+  type SlaPolicyRow,
+  type SlaStatus,
+  type TicketSlaRow,
+} from "@/lib/sla";
+import { fakeSupabase, hasOp, opArgs, type FakeQuery } from "@/lib/testing/fake-supabase";
+
+const NOW = "2026-01-05T12:00:00.000Z";
+
+beforeEach(() => {
+  vi.useFakeTimers({ now: new Date(NOW) });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+});
+
+function policy(overrides: Partial<SlaPolicyRow>): SlaPolicyRow {
+  return { id: "p", name: "p", ticket_type: null, priority: null, active: true, ...overrides } as SlaPolicyRow;
+}
+
+function ticketSla(overrides: Partial<TicketSlaRow> = {}): TicketSlaRow {
+  return {
+    ticket_id: "t-1",
+    policy_id: "p-1",
+    calendar_id: null,
+    business_hours: false,
+    pause_statuses: ["Pending Vendor"],
+    response_minutes: 60,
+    resolution_minutes: 240,
+    started_at: "2026-01-05T08:00:00.000Z",
+    response_due_at: "2026-01-05T09:00:00.000Z",
+    resolution_due_at: "2026-01-05T12:00:00.000Z",
+    first_response_at: "2026-01-05T08:30:00.000Z",
+    paused_at: null,
+    paused_minutes: 0,
+    response_breached_at: null,
+    resolution_breached_at: null,
+    ...overrides,
+  } as TicketSlaRow;
+}
+
+const ticket = (status: string) => ({ id: "t-1", priority: "P2", status }) as any;
+
+// The ticket's SLA row for lookups; breach updates (`.is(column, null)`) win.
+function slaStore(sla: TicketSlaRow) {
+  return fakeSupabase((q: FakeQuery) => {
+    if (q.table !== "ticket_slas") return;
+    if (hasOp(q, "is")) return { data: [sla] };
+    if (hasOp(q, "maybeSingle")) return { data: sla };
+  });
+}
+
+function breachEvents(queries: FakeQuery[]) {
+  return queries
+    .filter((q) => q.table === "ticket_events")
+    .map((q) => (opArgs(q, "insert")![0] as { payload: Record<string, unknown> }).payload);
+}
+
+describe("slaAtRiskRatio", () => {
+  it("defaults to 0.75 and only accepts ratios between 0 and 1", () => {
+    expect(slaAtRiskRatio()).toBe(0.75);
+    vi.stubEnv("SLA_AT_RISK_RATIO", "0.5");
+    expect(slaAtRiskRatio()).toBe(0.5);
+    vi.stubEnv("SLA_AT_RISK_RATIO", "1");
+    expect(slaAtRiskRatio()).toBe(0.75);
+  });
+});
+
+describe("matchSlaPolicy", () => {
+  const policies = [
+    policy({ id: "any" }),
+    policy({ id: "incident", ticket_type: "Incident" }),
+    policy({ id: "p1", priority: "P1" }),
+    policy({ id: "incident-p1", ticket_type: "Incident", priority: "P1" }),
+    policy({ id: "inactive", ticket_type: "Change", priority: "P1", active: false }),
+  ];
+
+  it("prefers type and priority, then priority, then type", () => {
+    expect(matchSlaPolicy(policies, { type: "Incident", priority: "P1" })?.id).toBe("incident-p1");
+    expect(matchSlaPolicy(policies, { type: "Change", priority: "P1" })?.id).toBe("p1");
+    expect(matchSlaPolicy(policies, { type: "Incident", priority: "P3" })?.id).toBe("incident");
+    expect(matchSlaPolicy(policies, { type: "Change", priority: "P3" })?.id).toBe("any");
+  });
+
+  it("returns null when nothing active matches", () => {
+    expect(matchSlaPolicy([policies[4]!], { type: "Change", priority: "P1" })).toBeNull();
+  });
+});
+
+describe("calendarForSite", () => {
+  const calendars = [
+    { id: "default", sites: [], is_default: true },
+    { id: "plant-a", sites: ["Plant A"], is_default: false },
+  ] as unknown as BusinessCalendarRow[];
+
+  it("uses the site's calendar, else the default", () => {
+    expect(calendarForSite(calendars, "Plant A")?.id).toBe("plant-a");
+    expect(calendarForSite(calendars, "Plant B")?.id).toBe("default");
+    expect(calendarForSite([calendars[1]!], null)).toBeNull();
+  });
+});
+
+describe("parseSlaPolicyInput", () => {
+  it("normalises a full policy", () => {
+    expect(
+      parseSlaPolicyInput({
+        name: " P1 ",
+        priority: "P1",
+        ticket_type: "",
+        response_minutes: "30",
+        resolution_minutes: 240,
+      })
+    ).toEqual({ name: "P1", priority: "P1", ticket_type: null, response_minutes: 30, resolution_minutes: 240 });
+  });
+
+  it("rejects inconsistent targets and stopped pause statuses", () => {
+    expect(parseSlaPolicyInput({ name: "x", response_minutes: 60, resolution_minutes: 30 })).toBe(
+      "resolution_minutes cannot be shorter than response_minutes"
+    );
+    expect(parseSlaPolicyInput({ name: "x", response_minutes: 1.5, resolution_minutes: 30 })).toBe(
+      "response_minutes must be a positive whole number of minutes"
+    );
+    expect(parseSlaPolicyInput({ pause_statuses: ["Resolved"] }, true)).toBe(
+      "Resolved and Closed already stop the clock"
+    );
+  });
+
+  it("accepts a partial edit", () => {
+    expect(parseSlaPolicyInput({ active: false }, true)).toEqual({ active: false });
+  });
+});
+
+describe("parseCalendarInput", () => {
+  it("validates the time zone, hours and holidays", () => {
+    const hours = { mon: [["08:00", "17:00"]] };
+    const input = { name: "Plant A", timezone: "Europe/Berlin", hours, sites: [" Plant A ", ""] };
+
+    expect(parseCalendarInput(input)).toEqual({ ...input, sites: ["Plant A"] });
+    expect(parseCalendarInput({ timezone: "CEST" }, true)).toBe("timezone must be an IANA time zone");
+    expect(parseCalendarInput({ name: "x", hours: {} })).toBe("hours must open on at least one day");
+    expect(parseCalendarInput({ holidays: ["26/12/2026"] }, true)).toBe("holidays must be a list of YYYY-MM-DD dates");
+  });
+});
+
+describe("breachRiskList", () => {
+  it("lists breached targets first, then the most used up", () => {
+    const s = (id: string, breached: boolean, at_risk: boolean, elapsed_ratio: number) =>
+      ({ ticket_id: id, breached, at_risk, elapsed_ratio }) as SlaStatus;
+
+    const statuses = [
+      s("ok", false, false, 0.2),
+      s("risk", false, true, 0.9),
+      s("late", true, false, 1.2),
+      s("soon", false, true, 0.8),
+    ];
+
+    expect(breachRiskList(statuses).map((x) => x.ticket_id)).toEqual(["late", "risk", "soon"]);
+  });
+});
+
+describe("onSlaStatusChange", () => {
+  it("pauses the clocks and records a resolution reached past its due time", async () => {
+    const { client, queries } = slaStore(ticketSla({ resolution_due_at: "2026-01-05T11:00:00.000Z" }));
+
+    await onSlaStatusChange(client, ticket("Resolved"), "In Progress");
+
+    const update = queries.find((q) => q.table === "ticket_slas" && hasOp(q, "update") && !hasOp(q, "is"))!;
+    expect(opArgs(update, "update")![0]).toMatchObject({ paused_at: NOW });
+    expect(breachEvents(queries)).toEqual([
+      { target: "resolution", due_at: "2026-01-05T11:00:00.000Z", policy_id: "p-1", priority: "P2" },
+    ]);
+  });
+
+  it("records a late first response when a ticket leaves Open", async () => {
+    const { client, queries } = slaStore(ticketSla({ first_response_at: null }));
+
+    await onSlaStatusChange(client, ticket("In Progress"), "Open");
+
+    expect(breachEvents(queries).map((p) => p.target)).toEqual(["response"]);
+  });
+
+  it("pushes the due times back by the time spent paused", async () => {
+    const { client, queries } = slaStore(
+      ticketSla({
+        paused_at: "2026-01-05T10:00:00.000Z",
+        paused_minutes: 10,
+        resolution_due_at: "2026-01-05T12:10:00.000Z",
+      })
+    );
+
+    await onSlaStatusChange(client, ticket("In Progress"), "Pending Vendor");
+
+    const update = queries.find((q) => q.table === "ticket_slas" && hasOp(q, "update"))!;
+    expect(opArgs(update, "update")![0]).toEqual({
+      paused_at: null,
+      paused_minutes: 130,
+      response_due_at: "2026-01-05T11:10:00.000Z",
+      resolution_due_at: "2026-01-05T14:10:00.000Z",
+      updated_at: NOW,
+    });
+    expect(breachEvents(queries)).toEqual([]);
+  });
+});
+
+describe("recordFirstResponse", () => {
+  it("records a breach when the first response came after the due time", async () => {
+    const { client, queries } = slaStore(ticketSla({ first_response_at: null }));
+
+    await recordFirstResponse(client, ticket("Open"));
+
+    expect(breachEvents(queries).map((p) => p.target)).toEqual(["response"]);
+  });
+
+  it("records nothing for a response in time", async () => {
+    const { client, queries } = slaStore(
+      ticketSla({ first_response_at: null, response_due_at: "2026-01-05T13:00:00.000Z" })
+    );
+
+    await recordFirstResponse(client, ticket("Open"));
+
+    expect(breachEvents(queries)).toEqual([]);
+  });
+});
@@ -0,0 +1,485 @@
+import type { Tables } from "@/database.types";
+import {
+  addBusinessMinutes,
+  businessMinutesBetween,
+  isValidTimezone,
+  parseWeeklyHours,
+  type BusinessCalendar,
+  type WeeklyHours,
+} from "@/lib/business-calendar";
+import { metrics } from "@/lib/metrics";
+
+export type SlaPolicyRow = Tables<"sla_policies">;
+export type BusinessCalendarRow = Tables<"business_calendars">;
+export type TicketSlaRow = Tables<"ticket_slas">;
+
+export type SlaTarget = "response" | "resolution";
+
+/** One target of one active ticket, as shown in the breach-risk list. */
+export type SlaStatus = {
+  ticket_id: string;
+  external_id: string | null;
+  title: string;
+  status: string;
+  priority: string;
+  assigned_to: string | null;
+  target: SlaTarget;
+  due_at: string;
+  remaining_minutes: number; // business minutes; negative once breached
+  elapsed_ratio: number; // share of the target used
+  breached: boolean;
+  at_risk: boolean;
+  paused: boolean;
+};
+
+type SlaTicket = Pick<
+  Tables<"tickets">,
+  "id" | "external_id" | "title" | "type" | "priority" | "status" | "site" | "assigned_to" | "created_at" | "updated_at"
+>;
+
+// The resolution target is met once a ticket gets here; its clocks stop.
+const STOPPED_STATUSES = ["Resolved", "Closed"];
+
+const DEFAULT_AT_RISK_RATIO = 0.75;
+
+/** SLA_AT_RISK_RATIO: share of a target used up before a ticket counts as at risk. */
+export function slaAtRiskRatio(): number {
+  const raw = Number(process.env.SLA_AT_RISK_RATIO);
+  return process.env.SLA_AT_RISK_RATIO && Number.isFinite(raw) && raw > 0 && raw < 1
+    ? raw
+    : DEFAULT_AT_RISK_RATIO;
+}
+
+function isHalted(sla: Pick<TicketSlaRow, "pause_statuses">, status: string): boolean {
+  return STOPPED_STATUSES.includes(status) || sla.pause_statuses.includes(status);
+}
+
+export function toBusinessCalendar(row: BusinessCalendarRow): BusinessCalendar {
+  return { timezone: row.timezone, hours: row.hours as WeeklyHours, holidays: row.holidays };
+}
+
+/** The most specific active policy for a ticket's type and priority. */
+export function matchSlaPolicy(
+  policies: SlaPolicyRow[],
+  ticket: Pick<SlaTicket, "type" | "priority">
+): SlaPolicyRow | null {
+  let best: SlaPolicyRow | null = null;
+  let bestScore = -1;
+  for (const p of policies) {
+    if (!p.active) continue;
+    if (p.ticket_type && p.ticket_type !== ticket.type) continue;
+    if (p.priority && p.priority !== ticket.priority) continue;
+    // Type and priority together beat priority alone, which beats type alone.
+    const score = (p.priority ? 2 : 0) + (p.ticket_type ? 1 : 0);
+    if (score > bestScore) {
+      best = p;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+export function calendarForSite(calendars: BusinessCalendarRow[], site: string | null): BusinessCalendarRow | null {
+  return (
+    (site ? calendars.find((c) => c.sites.includes(site)) : undefined) ??
+    calendars.find((c) => c.is_default) ??
+    null
+  );
+}
+
+async function loadSlaConfig(supabase: any) {
+  const [policies, calendars] = await Promise.all([
+    (supabase.from("sla_policies") as any).select("*"),
+    (supabase.from("business_calendars") as any).select("*"),
+  ]);
+  if (policies.error) throw new Error(policies.error.message);
+  if (calendars.error) throw new Error(calendars.error.message);
+  return {
+    policies: (policies.data ?? []) as SlaPolicyRow[],
+    calendars: (calendars.data ?? []) as BusinessCalendarRow[],
+  };
+}
+
+async function loadCalendar(supabase: any, sla: TicketSlaRow): Promise<BusinessCalendar | null> {
+  if (!sla.business_hours || !sla.calendar_id) return null;
+  const { data, error } = await (supabase.from("business_calendars") as any)
+    .select("*")
+    .eq("id", sla.calendar_id)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  return data ? toBusinessCalendar(data) : null;
+}
+
+// Due times push back by the business minutes spent paused.
+function dueTimes(
+  sla: Pick<TicketSlaRow, "started_at" | "response_minutes" | "resolution_minutes" | "paused_minutes">,
+  calendar: BusinessCalendar | null
+) {
+  const started = new Date(sla.started_at);
+  return {
+    response_due_at: addBusinessMinutes(calendar, started, sla.response_minutes + sla.paused_minutes).toISOString(),
+    resolution_due_at: addBusinessMinutes(calendar, started, sla.resolution_minutes + sla.paused_minutes).toISOString(),
+  };
+}
+
+/**
+ * Starts, or re-targets, a ticket's SLA from the matching policy and its
+ * site's calendar. Progress so far (first response, pauses, breaches) is
+ * kept. Without a matching policy the ticket has no SLA.
+ */
+export async function applyTicketSla(supabase: any, ticket: SlaTicket): Promise<TicketSlaRow | null> {
+  const { policies, calendars } = await loadSlaConfig(supabase);
+  const policy = matchSlaPolicy(policies, ticket);
+
+  const { data: existing, error: getErr } = await (supabase.from("ticket_slas") as any)
+    .select("*")
+    .eq("ticket_id", ticket.id)
+    .maybeSingle();
+  if (getErr) throw new Error(getErr.message);
+
+  if (!policy) {
+    if (existing) {
+      const { error } = await (supabase.from("ticket_slas") as any).delete().eq("ticket_id", ticket.id);
+      if (error) throw new Error(error.message);
+    }
+    return null;
+  }
+
+  const calendarRow = policy.business_hours ? calendarForSite(calendars, ticket.site) : null;
+  const halted = STOPPED_STATUSES.includes(ticket.status) || policy.pause_statuses.includes(ticket.status);
+  const base = {
+    ticket_id: ticket.id,
+    policy_id: policy.id,
+    calendar_id: calendarRow?.id ?? null,
+    response_minutes: policy.response_minutes,
+    resolution_minutes: policy.resolution_minutes,
+    business_hours: policy.business_hours && !!calendarRow,
+    pause_statuses: policy.pause_statuses,
+    started_at: existing?.started_at ?? ticket.created_at,
+    // Tickets picked up before SLAs existed count as answered.
+    first_response_at: existing ? existing.first_response_at : ticket.status === "Open" ? null : ticket.updated_at,
+    paused_at: existing ? existing.paused_at : halted ? ticket.updated_at : null,
+    paused_minutes: existing?.paused_minutes ?? 0,
+  };
+
+  const row = {
+    ...base,
+    ...dueTimes(base, calendarRow ? toBusinessCalendar(calendarRow) : null),
+    updated_at: new Date().toISOString(),
+  };
+
+  const { data, error } = await (supabase.from("ticket_slas") as any)
+    .upsert(row, { onConflict: "ticket_id" })
+    .select("*")
+    .single();
+  if (error) throw new Error(error.message);
+  return data;
+}
+
+/**
+ * Stops the response clock; later responses do not move it. A response
+ * after the due time records the breach, as evaluateSlas only checks
+ * unanswered tickets.
+ */
+export async function recordFirstResponse(
+  supabase: any,
+  ticket: Pick<SlaTicket, "id" | "priority">,
+  at = new Date()
+): Promise<void> {
+  const { data, error } = await (supabase.from("ticket_slas") as any)
+    .update({ first_response_at: at.toISOString(), updated_at: new Date().toISOString() })
+    .eq("ticket_id", ticket.id)
+    .is("first_response_at", null)
+    .select("*");
+  if (error) throw new Error(error.message);
+
+  const sla = ((data ?? []) as TicketSlaRow[])[0];
+  if (sla && !sla.response_breached_at && at > new Date(sla.response_due_at)) {
+    await recordSlaBreach(supabase, ticket, sla, "response", sla.response_due_at);
+  }
+}
+
+/**
+ * Moves a ticket's clocks on a status change: leaving Open is a first
+ * response, and entering a paused or stopped status holds both due times
+ * until the ticket becomes active again. evaluateSlas only watches running
+ * clocks, so a response or stop past its due time is recorded as a breach
+ * here.
+ */
+export async function onSlaStatusChange(
+  supabase: any,
+  ticket: SlaTicket,
+  fromStatus: string
+): Promise<void> {
+  const { data: sla, error } = await (supabase.from("ticket_slas") as any)
+    .select("*")
+    .eq("ticket_id", ticket.id)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  if (!sla) {
+    await applyTicketSla(supabase, ticket);
+    return;
+  }
+
+  const now = new Date();
+  const patch: Partial<TicketSlaRow> = {};
+
+  if (fromStatus === "Open" && ticket.status !== "Open" && !sla.first_response_at) {
+    patch.first_response_at = now.toISOString();
+  }
+
+  const wasHalted = isHalted(sla, fromStatus) || !!sla.paused_at;
+  const halted = isHalted(sla, ticket.status);
+  if (!wasHalted && halted) {
+    patch.paused_at = now.toISOString();
+  } else if (wasHalted && !halted && sla.paused_at) {
+    const calendar = await loadCalendar(supabase, sla);
+    patch.paused_minutes = sla.paused_minutes + businessMinutesBetween(calendar, new Date(sla.paused_at), now);
+    patch.paused_at = null;
+    Object.assign(patch, dueTimes({ ...sla, paused_minutes: patch.paused_minutes }, calendar));
+  }
+
+  const breaches: Array<[SlaTarget, string]> = [];
+  if (patch.first_response_at && !sla.response_breached_at && now > new Date(sla.response_due_at)) {
+    breaches.push(["response", sla.response_due_at]);
+  }
+  if (!wasHalted && halted && !sla.resolution_breached_at && now > new Date(sla.resolution_due_at)) {
+    breaches.push(["resolution", sla.resolution_due_at]);
+  }
+
+  if (Object.keys(patch).length > 0) {
+    const { error: updErr } = await (supabase.from("ticket_slas") as any)
+      .update({ ...patch, updated_at: now.toISOString() })
+      .eq("ticket_id", ticket.id);
+    if (updErr) throw new Error(updErr.message);
+  }
+
+  for (const [target, dueAt] of breaches) {
+    await recordSlaBreach(supabase, ticket, sla, target, dueAt);
+  }
+}
+
+/**
+ * Checks every active ticket against its SLA: starts timers for tickets that
+ * have none, records newly breached targets as `sla_breached` events, and
+ * refreshes the SLA gauges. Returns the status of every running target.
+ */
+export async function evaluateSlas(supabase: any): Promise<SlaStatus[]> {
+  const m = metrics();
+  const now = new Date();
+  const riskRatio = slaAtRiskRatio();
+
+  const { data: tickets, error } = await (supabase.from("tickets") as any)
+    .select("id, external_id, title, type, priority, status, site, assigned_to, created_at, updated_at")
+    .not("status", "in", `(${STOPPED_STATUSES.map((s) => `"${s}"`).join(",")})`)
+    .limit(1000);
+  if (error) throw new Error(error.message);
+
+  const active = (tickets ?? []) as SlaTicket[];
+  if (active.length === 0) {
+    m.slaTicketsAtRisk.set({ target: "response" }, 0);
+    m.slaTicketsAtRisk.set({ target: "resolution" }, 0);
+    m.slaTicketsBreached.set({ target: "response" }, 0);
+    m.slaTicketsBreached.set({ target: "resolution" }, 0);
+    return [];
+  }
+
+  const [slaRes, calRes] = await Promise.all([
+    (supabase.from("ticket_slas") as any).select("*").in("ticket_id", active.map((t) => t.id)),
+    (supabase.from("business_calendars") as any).select("*"),
+  ]);
+  if (slaRes.error) throw new Error(slaRes.error.message);
+  if (calRes.error) throw new Error(calRes.error.message);
+
+  const slas = new Map<string, TicketSlaRow>(((slaRes.data ?? []) as TicketSlaRow[]).map((s) => [s.ticket_id, s]));
+  const calendars = new Map<string, BusinessCalendar>(
+    ((calRes.data ?? []) as BusinessCalendarRow[]).map((c) => [c.id, toBusinessCalendar(c)])
+  );
+
+  const statuses: SlaStatus[] = [];
+  const counts = {
+    at_risk: { response: 0, resolution: 0 },
+    breached: { response: 0, resolution: 0 },
+  };
+
+  for (const ticket of active) {
+    let sla = slas.get(ticket.id) ?? null;
+    if (!sla) {
+      try {
+        sla = await applyTicketSla(supabase, ticket);
+      } catch (e) {
+        console.error("Failed to start ticket SLA:", e);
+      }
+      if (!sla) continue;
+    }
+
+    const calendar = sla.business_hours && sla.calendar_id ? (calendars.get(sla.calendar_id) ?? null) : null;
+    const paused = !!sla.paused_at;
+
+    const targets: Array<[SlaTarget, string, number, string | null]> = [
+      ["resolution", sla.resolution_due_at, sla.resolution_minutes, sla.resolution_breached_at],
+    ];
+    if (!sla.first_response_at) {
+      targets.unshift(["response", sla.response_due_at, sla.response_minutes, sla.response_breached_at]);
+    }
+
+    for (const [target, dueAt, minutes, breachedAt] of targets) {
+      const due = new Date(dueAt);
+      // While paused the clock is held at the moment it stopped.
+      const at = paused ? new Date(sla.paused_at!) : now;
+      const remaining =
+        due >= at ? businessMinutesBetween(calendar, at, due) : -businessMinutesBetween(calendar, due, at);
+      const breached = !!breachedAt || (!paused && due < now);
+      const elapsedRatio = Math.max(0, 1 - remaining / minutes);
+      const atRisk = !breached && elapsedRatio >= riskRatio;
+
+      if (breached && !breachedAt) {
+        await recordSlaBreach(supabase, ticket, sla, target, dueAt);
+      }
+
+      if (breached) counts.breached[target]++;
+      else if (atRisk) counts.at_risk[target]++;
+
+      statuses.push({
+        ticket_id: ticket.id,
+        external_id: ticket.external_id,
+        title: ticket.title,
+        status: ticket.status,
+        priority: ticket.priority,
+        assigned_to: ticket.assigned_to,
+        target,
+        due_at: dueAt,
+        remaining_minutes: Math.round(remaining),
+        elapsed_ratio: Number(elapsedRatio.toFixed(3)),
+        breached,
+        at_risk: atRisk,
+        paused,
+      });
+    }
+  }
+
+  for (const target of ["response", "resolution"] as const) {
+    m.slaTicketsAtRisk.set({ target }, counts.at_risk[target]);
+    m.slaTicketsBreached.set({ target }, counts.breached[target]);
+  }
+
+  return statuses;
+}
+
+async function recordSlaBreach(
+  supabase: any,
+  ticket: Pick<SlaTicket, "id" | "priority">,
+  sla: TicketSlaRow,
+  target: SlaTarget,
+  dueAt: string
+) {
+  const column = target === "response" ? "response_breached_at" : "resolution_breached_at";
+  // Only the evaluation that sets the column records the event.
+  const { data, error } = await (supabase.from("ticket_slas") as any)
+    .update({ [column]: new Date().toISOString() })
+    .eq("ticket_id", ticket.id)
+    .is(column, null)
+    .select("ticket_id");
+  if (error) throw new Error(error.message);
+  if (!data || data.length === 0) return;
+
+  await (supabase.from("ticket_events") as any).insert({
+    ticket_id: ticket.id,
+    actor_id: null,
+    event_type: "sla_breached",
+    payload: { target, due_at: dueAt, policy_id: sla.policy_id, priority: ticket.priority },
+  });
+  metrics().slaBreachesTotal.inc({ target, priority: ticket.priority });
+}
+
+/** Breached targets first, then those closest to their due time. */
+export function breachRiskList(statuses: SlaStatus[], limit = 20): SlaStatus[] {
+  return statuses
+    .filter((s) => s.breached || s.at_risk)
+    .sort((a, b) => Number(b.breached) - Number(a.breached) || b.elapsed_ratio - a.elapsed_ratio)
+    .slice(0, limit);
+}
+
+/**
+ * Validates a policy create (all fields) or edit (`partial`) body. Returns
+ * the normalised columns, or an error message for a 400.
+ */
+export function parseSlaPolicyInput(v: any, partial = false): Partial<SlaPolicyRow> | string {
+  const out: Partial<SlaPolicyRow> = {};
+
+  if (v?.name !== undefined || !partial) {
+    const name = typeof v?.name === "string" ? v.name.trim() : "";
+    if (!name) return "name is required";
+    out.name = name;
+  }
+  for (const key of ["ticket_type", "priority"] as const) {
+    if (v?.[key] === undefined) continue;
+    if (v[key] !== null && typeof v[key] !== "string") return `${key} must be a string or null`;
+    out[key] = v[key] ? v[key].trim() || null : null;
+  }
+  for (const key of ["response_minutes", "resolution_minutes"] as const) {
+    if (v?.[key] === undefined && partial) continue;
+    const n = Number(v?.[key]);
+    if (!Number.isInteger(n) || n <= 0) return `${key} must be a positive whole number of minutes`;
+    out[key] = n;
+  }
+  if (
+    out.response_minutes !== undefined &&
+    out.resolution_minutes !== undefined &&
+    out.resolution_minutes < out.response_minutes
+  ) {
+    return "resolution_minutes cannot be shorter than response_minutes";
+  }
+  for (const key of ["business_hours", "active"] as const) {
+    if (v?.[key] === undefined) continue;
+    if (typeof v[key] !== "boolean") return `${key} must be a boolean`;
+    out[key] = v[key];
+  }
+  if (v?.pause_statuses !== undefined) {
+    if (!Array.isArray(v.pause_statuses) || v.pause_statuses.some((s: unknown) => typeof s !== "string")) {
+      return "pause_statuses must be a list of statuses";
+    }
+    if (v.pause_statuses.some((s: string) => STOPPED_STATUSES.includes(s))) {
+      return "Resolved and Closed already stop the clock";
+    }
+    out.pause_statuses = v.pause_statuses;
+  }
+  return out;
+}
+
+/** Same contract as parseSlaPolicyInput, for business calendars. */
+export function parseCalendarInput(v: any, partial = false): Partial<BusinessCalendarRow> | string {
+  const out: Partial<BusinessCalendarRow> = {};
+
+  if (v?.name !== undefined || !partial) {
+    const name = typeof v?.name === "string" ? v.name.trim() : "";
+    if (!name) return "name is required";
+    out.name = name;
+  }
+  if (v?.timezone !== undefined) {
+    if (typeof v.timezone !== "string" || !isValidTimezone(v.timezone)) return "timezone must be an IANA time zone";
+    out.timezone = v.timezone;
+  }
+  if (v?.hours !== undefined || !partial) {
+    const hours = parseWeeklyHours(v?.hours);
+    if (typeof hours === "string") return hours;
+    out.hours = hours;
+  }
+  if (v?.holidays !== undefined) {
+    if (!Array.isArray(v.holidays) || v.holidays.some((d: unknown) => typeof d !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(d))) {
+      return "holidays must be a list of YYYY-MM-DD dates";
+    }
+    out.holidays = v.holidays;
+  }
+  if (v?.sites !== undefined) {
+    if (!Array.isArray(v.sites) || v.sites.some((s: unknown) => typeof s !== "string")) {
+      return "sites must be a list of site names";
+    }
+    out.sites = v.sites.map((s: string) => s.trim()).filter(Boolean);
+  }
+  if (v?.is_default !== undefined) {
+    if (typeof v.is_default !== "boolean") return "is_default must be a boolean";
+    out.is_default = v.is_default;
+  }
+  return out;
+}
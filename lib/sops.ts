@@ -1,4 +1,6 @@
 import { createClient } from "@/lib/supabase/server";
+import { ragDeleteDocument, ragUpsert } from "@/lib/rag";
+import { sopToRagDocument } from "@/lib/rag-documents";
 
 export type SopInput = {
     title: string;
@@ -13,6 +15,16 @@ export type SopInput = {
     status?: "Draft" | "Approved";
 };
 
+// RAG memory is kept in sync on a best-effort basis: a failed embedding
+// must not fail the SOP write itself (same policy as ticket resolution).
+async function indexSop(sop: any) {
+    try {
+        await ragUpsert(sopToRagDocument(sop));
+    } catch (e) {
+        console.error("Failed to index SOP into RAG:", e);
+    }
+}
+
 export async function createSop(input: SopInput) {
     const supabase = await createClient();
     const { data: { user } } = await supabase.auth.getUser();
@@ -35,6 +47,7 @@ export async function createSop(input: SopInput) {
         .single();
 
     if (error) throw new Error(error.message);
+    await indexSop(data);
     return data;
 }
 
@@ -75,5 +88,22 @@ export async function updateSop(id: string, updates: Partial<SopInput>) {
         .single();
 
     if (error) throw new Error(error.message);
+    await indexSop(data);
     return data;
 }
+
+export async function approveSop(id: string) {
+    return updateSop(id, { status: "Approved" });
+}
+
+export async function deleteSop(id: string) {
+    const supabase = await createClient();
+    const { error } = await (supabase.from("sops") as any).delete().eq("id", id);
+    if (error) throw new Error(error.message);
+
+    try {
+        await ragDeleteDocument("sop", id);
+    } catch (e) {
+        console.error("Failed to remove SOP from RAG:", e);
+    }
+}
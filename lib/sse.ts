@@ -0,0 +1,55 @@
+const encoder = new TextEncoder();
+
+function formatEvent(event: string, data: unknown): Uint8Array {
+  return encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * True when the client asked for Server-Sent Events, either with
+ * `Accept: text/event-stream` or `"stream": true` in the JSON body.
+ */
+export function wantsEventStream(request: Request, body: { stream?: unknown }): boolean {
+  return (
+    body.stream === true ||
+    (request.headers.get("accept") ?? "").includes("text/event-stream")
+  );
+}
+
+/**
+ * Streams `{ type, ... }` events as SSE, one `event: <type>` frame each. The
+ * iterator is pulled on demand and closed if the client disconnects; an
+ * error mid-stream is sent as a final `error` event since the status code
+ * has already gone out.
+ */
+export function sseResponse(events: AsyncIterable<{ type: string }>): Response {
+  const iterator = events[Symbol.asyncIterator]();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { value, done } = await iterator.next();
+        if (done) {
+          controller.close();
+          return;
+        }
+        controller.enqueue(formatEvent(value.type, value));
+      } catch (e) {
+        const error = e instanceof Error ? e.message : "Stream failed";
+        controller.enqueue(formatEvent("error", { type: "error", error }));
+        controller.close();
+      }
+    },
+    async cancel() {
+      await iterator.return?.();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
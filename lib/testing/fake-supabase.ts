@@ -0,0 +1,57 @@
+/**
+ * A stand-in for the Supabase client in unit tests. Every `from(table)`
+ * chain and `rpc(name, args)` call is recorded; `respond` decides what the
+ * awaited chain resolves to (default `{ data: null, error: null }`).
+ */
+export type FakeQuery = {
+  table: string; // "rpc:<name>" for RPC calls
+  ops: Array<[string, unknown[]]>;
+};
+
+export type FakeResponse = { data?: unknown; error?: { message: string; code?: string } | null };
+
+export function fakeSupabase(respond: (q: FakeQuery) => FakeResponse | void = () => {}) {
+  const queries: FakeQuery[] = [];
+
+  const resolve = (q: FakeQuery) => Promise.resolve({ data: null, error: null, ...(respond(q) ?? {}) });
+
+  const chain = (q: FakeQuery): any =>
+    new Proxy(
+      {},
+      {
+        get(_target, prop) {
+          if (prop === "then") {
+            return (onFulfilled: any, onRejected: any) => resolve(q).then(onFulfilled, onRejected);
+          }
+          return (...args: unknown[]) => {
+            q.ops.push([String(prop), args]);
+            return chain(q);
+          };
+        },
+      }
+    );
+
+  const client = {
+    from(table: string) {
+      const q: FakeQuery = { table, ops: [] };
+      queries.push(q);
+      return chain(q);
+    },
+    rpc(name: string, args: unknown) {
+      const q: FakeQuery = { table: `rpc:${name}`, ops: [["args", [args]]] };
+      queries.push(q);
+      return resolve(q);
+    },
+  };
+
+  return { client, queries };
+}
+
+/** Arguments of the first `op` call in a recorded chain, if any. */
+export function opArgs(q: FakeQuery, op: string): unknown[] | undefined {
+  return q.ops.find(([name]) => name === op)?.[1];
+}
+
+export function hasOp(q: FakeQuery, op: string): boolean {
+  return q.ops.some(([name]) => name === op);
+}
@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import { assignTicket, listAssignees, parseAssignment, ticketWorkload } from "@/lib/ticket-assignment";
+import { fakeSupabase, hasOp, opArgs, type FakeQuery } from "@/lib/testing/fake-supabase";
+
+const actor = { userId: "u-1", username: "sam", role: "Engineer" as const };
+
+const USERS = [
+  { id: "u-1", username: "sam", user_roles: [{ role: "Engineer" }] },
+  { id: "u-2", username: "ana", user_roles: [{ role: "Admin" }] },
+  { id: "u-3", username: "viewer", user_roles: [{ role: "Viewer" }] },
+  { id: "u-4", username: "norole", user_roles: [] },
+];
+
+const TEAMS = [
+  { id: "team-net", name: "Network" },
+  { id: "team-ot", name: "OT" },
+];
+
+function respondWith(tickets: unknown) {
+  return (q: FakeQuery) => {
+    if (q.table === "local_users") return { data: USERS };
+    if (q.table === "teams") return { data: TEAMS };
+    if (q.table === "tickets") return { data: tickets };
+  };
+}
+
+describe("parseAssignment", () => {
+  it("assigns the caller for \"me\" and trims ids", () => {
+    expect(parseAssignment({ assignedTo: "me", teamId: " team-ot " }, actor)).toEqual({
+      assigned_to: "u-1",
+      team_id: "team-ot",
+    });
+  });
+
+  it("clears with null and leaves omitted keys unchanged", () => {
+    expect(parseAssignment({ assignedTo: null }, actor)).toEqual({ assigned_to: null });
+  });
+
+  it("rejects invalid or empty bodies", () => {
+    expect(parseAssignment({ assignedTo: "me" }, { userId: null, username: null, role: "Viewer" })).toBe(
+      "Sign in to assign tickets to yourself"
+    );
+    expect(parseAssignment({ assignedTo: 7 }, actor)).toBe('assignedTo must be a user id, "me" or null');
+    expect(parseAssignment({ teamId: "" }, actor)).toBe("teamId must be a team id or null");
+    expect(parseAssignment({}, actor)).toBe("assignedTo or teamId is required");
+  });
+});
+
+describe("listAssignees", () => {
+  it("keeps only Admins and Engineers", async () => {
+    const { client } = fakeSupabase(respondWith([]));
+
+    const assignees = await listAssignees(client);
+
+    expect([...assignees.keys()]).toEqual(["u-1", "u-2"]);
+  });
+});
+
+describe("assignTicket", () => {
+  const ticket = { id: "t-1", assigned_to: null, team_id: "team-net" } as any;
+
+  it("records the change with names on both sides", async () => {
+    const { client, queries } = fakeSupabase(respondWith({ ...ticket, assigned_to: "u-2", team_id: "team-ot" }));
+
+    await assignTicket(client, "u-1", ticket, { assigned_to: "u-2", team_id: "team-ot" });
+
+    const event = queries.find((q) => q.table === "ticket_events")!;
+    expect(opArgs(event, "insert")![0]).toMatchObject({
+      event_type: "assigned",
+      payload: {
+        from: { assigned_to: null, assignee: null, team_id: "team-net", team: "Network" },
+        to: { assigned_to: "u-2", assignee: "ana", team_id: "team-ot", team: "OT" },
+      },
+    });
+  });
+
+  it("does nothing when the assignment is unchanged", async () => {
+    const { client, queries } = fakeSupabase(respondWith(ticket));
+
+    await expect(assignTicket(client, "u-1", ticket, { team_id: "team-net" })).resolves.toBeNull();
+    expect(queries).toEqual([]);
+  });
+});
+
+describe("ticketWorkload", () => {
+  it("counts active tickets per engineer and per team queue", async () => {
+    const { client, queries } = fakeSupabase(
+      respondWith([
+        { assigned_to: "u-1", team_id: "team-ot", status: "In Progress", priority: "P1" },
+        { assigned_to: "u-1", team_id: null, status: "Open", priority: "P3" },
+        { assigned_to: null, team_id: "team-ot", status: "Open", priority: "P2" },
+        { assigned_to: null, team_id: null, status: "Open", priority: "P4" },
+      ])
+    );
+
+    const workload = await ticketWorkload(client);
+
+    expect(opArgs(queries.find((q) => q.table === "tickets" && hasOp(q, "in"))!, "in")).toEqual([
+      "status",
+      ["Open", "In Progress"],
+    ]);
+    expect(workload.engineers).toEqual([
+      { user_id: "u-1", username: "sam", role: "Engineer", open: 1, in_progress: 1, by_priority: { P1: 1, P3: 1 } },
+      { user_id: "u-2", username: "ana", role: "Admin", open: 0, in_progress: 0, by_priority: {} },
+    ]);
+    expect(workload.teams).toEqual([
+      { team_id: "team-net", name: "Network", open: 0, unassigned: 0 },
+      { team_id: "team-ot", name: "OT", open: 2, unassigned: 1 },
+    ]);
+    expect(workload.unassigned).toBe(2);
+  });
+});
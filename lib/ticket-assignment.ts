@@ -0,0 +1,200 @@
+import type { Tables } from "@/database.types";
+import type { ActorContext } from "@/lib/rbac";
+
+export type TeamRow = Tables<"teams">;
+
+export type Team = TeamRow & { members: Array<{ user_id: string; username: string }> };
+
+/** Who owns a ticket: an engineer, a team queue, or both. */
+export type Assignment = {
+  assigned_to: string | null;
+  team_id: string | null;
+};
+
+export type EngineerWorkload = {
+  user_id: string;
+  username: string;
+  role: string;
+  open: number;
+  in_progress: number;
+  by_priority: Record<string, number>;
+};
+
+export type Workload = {
+  engineers: EngineerWorkload[];
+  teams: Array<{ team_id: string; name: string; open: number; unassigned: number }>;
+  unassigned: number;
+};
+
+// Only roles that can work a ticket can own one.
+const ASSIGNABLE_ROLES = ["Admin", "Engineer"];
+
+const ACTIVE_STATUSES = ["Open", "In Progress"];
+
+/**
+ * Parses `assignedTo` / `teamId` from a request body. Omitted keys are left
+ * unchanged, null clears; "me" assigns the caller.
+ */
+export function parseAssignment(
+  v: any,
+  actor: ActorContext
+): Partial<Assignment> | string {
+  const out: Partial<Assignment> = {};
+
+  if (v?.assignedTo !== undefined) {
+    if (v.assignedTo === null) out.assigned_to = null;
+    else if (v.assignedTo === "me") {
+      if (!actor.userId) return "Sign in to assign tickets to yourself";
+      out.assigned_to = actor.userId;
+    } else if (typeof v.assignedTo === "string" && v.assignedTo.trim()) out.assigned_to = v.assignedTo.trim();
+    else return "assignedTo must be a user id, \"me\" or null";
+  }
+
+  if (v?.teamId !== undefined) {
+    if (v.teamId === null) out.team_id = null;
+    else if (typeof v.teamId === "string" && v.teamId.trim()) out.team_id = v.teamId.trim();
+    else return "teamId must be a team id or null";
+  }
+
+  if (out.assigned_to === undefined && out.team_id === undefined) {
+    return "assignedTo or teamId is required";
+  }
+  return out;
+}
+
+/** Usernames of assignable users, keyed by id. */
+export async function listAssignees(supabase: any): Promise<Map<string, { username: string; role: string }>> {
+  const { data, error } = await (supabase.from("local_users") as any).select("id, username, user_roles ( role )");
+  if (error) throw new Error(error.message);
+
+  const out = new Map<string, { username: string; role: string }>();
+  for (const u of data ?? []) {
+    const role = u.user_roles?.[0]?.role ?? "Viewer";
+    if (ASSIGNABLE_ROLES.includes(role)) out.set(u.id, { username: u.username, role });
+  }
+  return out;
+}
+
+export async function listTeams(supabase: any): Promise<Team[]> {
+  const { data, error } = await (supabase.from("teams") as any)
+    .select("*, team_members ( user_id, local_users ( username ) )")
+    .order("name", { ascending: true });
+  if (error) throw new Error(error.message);
+
+  return (data ?? []).map(({ team_members, ...team }: any) => ({
+    ...team,
+    members: (team_members ?? []).map((m: any) => ({
+      user_id: m.user_id,
+      username: m.local_users?.username ?? m.user_id,
+    })),
+  }));
+}
+
+export async function getTeam(supabase: any, teamId: string): Promise<TeamRow | null> {
+  const { data, error } = await (supabase.from("teams") as any).select("*").eq("id", teamId).maybeSingle();
+  if (error) throw new Error(error.message);
+  return data ?? null;
+}
+
+/** Replaces a team's member list. */
+export async function setTeamMembers(supabase: any, teamId: string, userIds: string[]): Promise<void> {
+  const { error: delErr } = await (supabase.from("team_members") as any).delete().eq("team_id", teamId);
+  if (delErr) throw new Error(delErr.message);
+  if (userIds.length === 0) return;
+
+  const { error } = await (supabase.from("team_members") as any).insert(
+    userIds.map((user_id) => ({ team_id: teamId, user_id }))
+  );
+  if (error) throw new Error(error.message);
+}
+
+/**
+ * Applies an assignment change and records it as an `assigned` event with
+ * from/to values. Returns null when nothing changed.
+ */
+export async function assignTicket(
+  supabase: any,
+  actorId: string | null,
+  ticket: Tables<"tickets">,
+  change: Partial<Assignment>
+): Promise<Tables<"tickets"> | null> {
+  const before: Assignment = { assigned_to: ticket.assigned_to, team_id: ticket.team_id };
+  const after: Assignment = { ...before, ...change };
+  if (before.assigned_to === after.assigned_to && before.team_id === after.team_id) return null;
+
+  const { data: updated, error } = await (supabase.from("tickets") as any)
+    .update(after)
+    .eq("id", ticket.id)
+    .select("*")
+    .single();
+  if (error) throw new Error(error.message);
+
+  const [assignees, teams] = await Promise.all([
+    listAssignees(supabase),
+    (supabase.from("teams") as any).select("id, name"),
+  ]);
+  const teamNames = new Map<string, string>((teams.data ?? []).map((t: any) => [t.id, t.name]));
+  const describe = (a: Assignment) => ({
+    ...a,
+    assignee: a.assigned_to ? (assignees.get(a.assigned_to)?.username ?? null) : null,
+    team: a.team_id ? (teamNames.get(a.team_id) ?? null) : null,
+  });
+
+  const { error: evErr } = await (supabase.from("ticket_events") as any).insert({
+    ticket_id: ticket.id,
+    actor_id: actorId,
+    event_type: "assigned",
+    payload: { from: describe(before), to: describe(after) },
+  });
+  if (evErr) throw new Error(evErr.message);
+
+  return updated;
+}
+
+/** Open and in-progress tickets per engineer and per team queue. */
+export async function ticketWorkload(supabase: any): Promise<Workload> {
+  const [assignees, teams, active] = await Promise.all([
+    listAssignees(supabase),
+    (supabase.from("teams") as any).select("id, name").order("name", { ascending: true }),
+    (supabase.from("tickets") as any)
+      .select("assigned_to, team_id, status, priority")
+      .in("status", ACTIVE_STATUSES),
+  ]);
+  if (teams.error) throw new Error(teams.error.message);
+  if (active.error) throw new Error(active.error.message);
+
+  const engineers = new Map<string, EngineerWorkload>();
+  for (const [user_id, u] of assignees) {
+    engineers.set(user_id, { user_id, username: u.username, role: u.role, open: 0, in_progress: 0, by_priority: {} });
+  }
+
+  const queues = new Map<string, { team_id: string; name: string; open: number; unassigned: number }>(
+    (teams.data ?? []).map((t: any) => [t.id, { team_id: t.id, name: t.name, open: 0, unassigned: 0 }])
+  );
+
+  let unassigned = 0;
+  for (const t of active.data ?? []) {
+    if (t.team_id && queues.has(t.team_id)) {
+      const q = queues.get(t.team_id)!;
+      q.open++;
+      if (!t.assigned_to) q.unassigned++;
+    }
+
+    const e = t.assigned_to ? engineers.get(t.assigned_to) : undefined;
+    if (!e) {
+      if (!t.assigned_to) unassigned++;
+      continue;
+    }
+    if (t.status === "In Progress") e.in_progress++;
+    else e.open++;
+    e.by_priority[t.priority] = (e.by_priority[t.priority] ?? 0) + 1;
+  }
+
+  return {
+    engineers: [...engineers.values()].sort(
+      (a, b) => b.open + b.in_progress - (a.open + a.in_progress) || a.username.localeCompare(b.username)
+    ),
+    teams: [...queues.values()],
+    unassigned,
+  };
+}
@@ -0,0 +1,44 @@
+// Field values a ticket can take. Shared by the create form and AI triage,
+// which may only propose values from these lists.
+
+export const TICKET_TYPES = ["Incident", "Service Request", "Problem", "Change"] as const;
+
+export const TICKET_PRIORITIES = ["P1", "P2", "P3", "P4"] as const;
+
+export const TICKET_TOPICS: readonly string[] = [
+  "MES",
+  "MES Development",
+  "TrakSYS MES",
+  "Networks",
+  "Wi‑Fi",
+  "APs",
+  "VMS",
+  "HOSTS",
+  "SQL",
+  "Databases",
+  "Backups",
+  "Active Directory",
+  "DNS",
+  "DHCP",
+  "VPN",
+  "Firewalls",
+  "Switches",
+  "Windows Servers",
+  "Linux",
+  "VMware / Virtualization",
+  "Kubernetes",
+  "Monitoring",
+  "Logs",
+  "Desktops Support",
+  "Printers",
+  "Email",
+  "Certificates",
+  "Patch Management",
+  "Storage (SAN/NAS)",
+  "SCADA / PLC",
+  "Historian",
+  "ERP Integrations",
+];
+
+export type CatalogTicketType = (typeof TICKET_TYPES)[number];
+export type CatalogTicketPriority = (typeof TICKET_PRIORITIES)[number];
@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import {
+  canModifyComment,
+  canSeeInternalNotes,
+  listTicketComments,
+  parseCommentInput,
+  updateTicketComment,
+  type TicketCommentRow,
+} from "@/lib/ticket-comments";
+import { fakeSupabase, hasOp, opArgs } from "@/lib/testing/fake-supabase";
+
+function comment(overrides: Partial<TicketCommentRow> = {}): TicketCommentRow {
+  return {
+    id: "c-1",
+    ticket_id: "t-1",
+    author_id: "user-1",
+    author_name: "sam",
+    body: "Restarted the gateway",
+    visibility: "public",
+    created_at: "2026-01-01T00:00:00Z",
+    updated_at: "2026-01-01T00:00:00Z",
+    edited_at: null,
+    ...overrides,
+  } as TicketCommentRow;
+}
+
+const author = { userId: "user-1", username: "sam", role: "Engineer" as const };
+
+describe("parseCommentInput", () => {
+  it("requires a body and defaults new comments to public", () => {
+    expect(parseCommentInput({ body: "  Checked the logs " })).toEqual({ body: "Checked the logs", visibility: "public" });
+    expect(parseCommentInput({ body: " " })).toBe("body is required");
+    expect(parseCommentInput({ body: "x".repeat(20001) })).toBe("body must be at most 20000 characters");
+  });
+
+  it("rejects unknown visibilities", () => {
+    expect(parseCommentInput({ body: "x", visibility: "private" })).toBe("visibility must be one of: public, internal");
+  });
+
+  it("accepts a partial edit but not an empty one", () => {
+    expect(parseCommentInput({ visibility: "internal" }, true)).toEqual({ visibility: "internal" });
+    expect(parseCommentInput({}, true)).toBe("Nothing to update");
+  });
+});
+
+describe("comment permissions", () => {
+  it("shows internal notes to Engineers and Admins only", () => {
+    expect(canSeeInternalNotes("Engineer")).toBe(true);
+    expect(canSeeInternalNotes("Admin")).toBe(true);
+    expect(canSeeInternalNotes("Viewer")).toBe(false);
+  });
+
+  it("lets authors and Admins modify a comment", () => {
+    expect(canModifyComment(author, comment())).toBe(true);
+    expect(canModifyComment({ ...author, userId: "user-2" }, comment())).toBe(false);
+    expect(canModifyComment({ userId: "user-2", username: "ana", role: "Admin" }, comment())).toBe(true);
+    expect(canModifyComment({ userId: null, username: null, role: "Viewer" }, comment({ author_id: null }))).toBe(
+      false
+    );
+  });
+});
+
+describe("listTicketComments", () => {
+  it("filters internal notes out for Viewers", async () => {
+    const { client, queries } = fakeSupabase(() => ({ data: [] }));
+
+    await listTicketComments(client, "t-1", "Viewer");
+    await listTicketComments(client, "t-1", "Engineer");
+
+    expect(queries[0]!.ops.filter(([op]) => op === "eq").map(([, args]) => args)).toEqual([
+      ["ticket_id", "t-1"],
+      ["visibility", "public"],
+    ]);
+    expect(queries[1]!.ops.filter(([op]) => op === "eq")).toHaveLength(1);
+  });
+});
+
+describe("updateTicketComment", () => {
+  it("moves the comment's earlier events to its new visibility", async () => {
+    const updated = comment({ visibility: "internal" });
+    const { client, queries } = fakeSupabase((q) => {
+      if (q.table === "ticket_comments") return { data: updated };
+      if (hasOp(q, "select")) {
+        return {
+          data: [
+            { id: "ev-1", payload: { action: "created", comment_id: "c-1", visibility: "public" } },
+            { id: "ev-2", payload: { action: "edited", comment_id: "c-1", visibility: "internal" } },
+          ],
+        };
+      }
+    });
+
+    await updateTicketComment(client, author, comment(), { visibility: "internal" });
+
+    const lookup = queries.find((q) => q.table === "ticket_events" && hasOp(q, "select"))!;
+    expect(opArgs(lookup, "eq")).toEqual(["event_type", "commented"]);
+    const retagged = queries.filter((q) => q.table === "ticket_events" && hasOp(q, "update"));
+    expect(retagged.map((q) => [opArgs(q, "eq"), opArgs(q, "update")])).toEqual([
+      [["id", "ev-1"], [{ payload: { action: "created", comment_id: "c-1", visibility: "internal" } }]],
+    ]);
+    const edited = queries.find((q) => q.table === "ticket_events" && hasOp(q, "insert"))!;
+    expect(opArgs(edited, "insert")![0]).toMatchObject({ payload: { action: "edited", visibility: "internal" } });
+  });
+
+  it("leaves earlier events alone when only the body changes", async () => {
+    const { client, queries } = fakeSupabase((q) => (q.table === "ticket_comments" ? { data: comment() } : undefined));
+
+    await updateTicketComment(client, author, comment(), { body: "Restarted both gateways" });
+
+    expect(queries.filter((q) => q.table === "ticket_events").map((q) => q.ops[0]![0])).toEqual(["insert"]);
+  });
+});
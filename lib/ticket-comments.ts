@@ -0,0 +1,164 @@
+import type { Tables } from "@/database.types";
+import { canAdmin, canWrite, type ActorContext, type Role } from "@/lib/rbac";
+
+export type TicketCommentRow = Tables<"ticket_comments">;
+
+/** 'public' comments are shown to every role; 'internal' work notes only to Engineers and Admins. */
+export type CommentVisibility = "public" | "internal";
+
+export const COMMENT_VISIBILITIES: CommentVisibility[] = ["public", "internal"];
+
+const MAX_COMMENT_LENGTH = 20000;
+
+export function canSeeInternalNotes(role: Role): boolean {
+  return canWrite(role);
+}
+
+// Authors edit their own comments; Admins may edit or delete any.
+export function canModifyComment(actor: ActorContext, comment: TicketCommentRow): boolean {
+  return canAdmin(actor.role) || (!!actor.userId && comment.author_id === actor.userId);
+}
+
+/**
+ * Validates a create (all fields) or edit (`partial`) body. Returns the
+ * normalised fields, or an error message for a 400.
+ */
+export function parseCommentInput(
+  v: any,
+  partial = false
+): { body?: string; visibility?: CommentVisibility } | string {
+  const out: { body?: string; visibility?: CommentVisibility } = {};
+
+  if (v?.body !== undefined || !partial) {
+    const body = typeof v?.body === "string" ? v.body.trim() : "";
+    if (!body) return "body is required";
+    if (body.length > MAX_COMMENT_LENGTH) return `body must be at most ${MAX_COMMENT_LENGTH} characters`;
+    out.body = body;
+  }
+
+  if (v?.visibility !== undefined) {
+    if (!(COMMENT_VISIBILITIES as unknown[]).includes(v.visibility)) {
+      return `visibility must be one of: ${COMMENT_VISIBILITIES.join(", ")}`;
+    }
+    out.visibility = v.visibility;
+  } else if (!partial) {
+    out.visibility = "public";
+  }
+
+  if (partial && out.body === undefined && out.visibility === undefined) {
+    return "Nothing to update";
+  }
+  return out;
+}
+
+export async function listTicketComments(
+  supabase: any,
+  ticketId: string,
+  role: Role
+): Promise<TicketCommentRow[]> {
+  let query = (supabase.from("ticket_comments") as any)
+    .select("*")
+    .eq("ticket_id", ticketId)
+    .order("created_at", { ascending: true });
+  if (!canSeeInternalNotes(role)) query = query.eq("visibility", "public");
+
+  const { data, error } = await query;
+  if (error) throw new Error(error.message);
+  return data ?? [];
+}
+
+export async function getTicketComment(supabase: any, commentId: string): Promise<TicketCommentRow | null> {
+  const { data, error } = await (supabase.from("ticket_comments") as any)
+    .select("*")
+    .eq("id", commentId)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  return data ?? null;
+}
+
+// The timeline entry carries the comment id, not its text: the body lives
+// in ticket_comments, where internal notes can be filtered by role.
+async function recordCommentEvent(
+  supabase: any,
+  actorId: string | null,
+  comment: TicketCommentRow,
+  action: "created" | "edited" | "deleted"
+) {
+  const { error } = await (supabase.from("ticket_events") as any).insert({
+    ticket_id: comment.ticket_id,
+    actor_id: actorId,
+    event_type: "commented",
+    payload: { action, comment_id: comment.id, visibility: comment.visibility },
+  });
+  if (error) throw new Error(error.message);
+}
+
+export async function createTicketComment(
+  supabase: any,
+  actor: ActorContext,
+  ticketId: string,
+  input: { body: string; visibility: CommentVisibility }
+): Promise<TicketCommentRow> {
+  const { data, error } = await (supabase.from("ticket_comments") as any)
+    .insert({
+      ticket_id: ticketId,
+      author_id: actor.userId,
+      author_name: actor.username,
+      body: input.body,
+      visibility: input.visibility,
+    })
+    .select("*")
+    .single();
+  if (error) throw new Error(error.message);
+
+  await recordCommentEvent(supabase, actor.userId, data, "created");
+  return data;
+}
+
+// Timelines filter `commented` events by the visibility in their payload, so
+// a comment's earlier events follow it when its visibility changes.
+async function retagCommentEvents(supabase: any, comment: TicketCommentRow) {
+  const { data, error } = await (supabase.from("ticket_events") as any)
+    .select("id, payload")
+    .eq("event_type", "commented")
+    .eq("payload->>comment_id", comment.id);
+  if (error) throw new Error(error.message);
+
+  for (const ev of (data ?? []) as Array<{ id: string; payload: any }>) {
+    if (ev.payload?.visibility === comment.visibility) continue;
+    const { error: updErr } = await (supabase.from("ticket_events") as any)
+      .update({ payload: { ...ev.payload, visibility: comment.visibility } })
+      .eq("id", ev.id);
+    if (updErr) throw new Error(updErr.message);
+  }
+}
+
+export async function updateTicketComment(
+  supabase: any,
+  actor: ActorContext,
+  comment: TicketCommentRow,
+  patch: { body?: string; visibility?: CommentVisibility }
+): Promise<TicketCommentRow> {
+  const now = new Date().toISOString();
+  const { data, error } = await (supabase.from("ticket_comments") as any)
+    .update({ ...patch, updated_at: now, edited_at: now })
+    .eq("id", comment.id)
+    .select("*")
+    .single();
+  if (error) throw new Error(error.message);
+
+  if (data.visibility !== comment.visibility) await retagCommentEvents(supabase, data);
+  await recordCommentEvent(supabase, actor.userId, data, "edited");
+  return data;
+}
+
+export async function deleteTicketComment(
+  supabase: any,
+  actor: ActorContext,
+  comment: TicketCommentRow
+): Promise<void> {
+  const { error } = await (supabase.from("ticket_comments") as any).delete().eq("id", comment.id);
+  if (error) throw new Error(error.message);
+
+  await recordCommentEvent(supabase, actor.userId, comment, "deleted");
+}
@@ -0,0 +1,114 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { duplicateMatchThreshold, findDuplicateCandidates, parseDuplicateAction } from "@/lib/ticket-duplicates";
+import { fakeSupabase, opArgs, type FakeQuery, type FakeResponse } from "@/lib/testing/fake-supabase";
+
+const { embedTexts, ragSearchDocuments } = vi.hoisted(() => ({
+  embedTexts: vi.fn(),
+  ragSearchDocuments: vi.fn(),
+}));
+
+vi.mock("@/lib/rag", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/rag")>()),
+  embedTexts,
+  ragSearchDocuments,
+}));
+
+let respond: (q: FakeQuery) => FakeResponse | void = () => {};
+let server = fakeSupabase((q) => respond(q));
+vi.mock("@/lib/supabase/server", () => ({
+  createClient: async () => server.client,
+}));
+
+afterEach(() => {
+  respond = () => {};
+  server = fakeSupabase((q) => respond(q));
+  embedTexts.mockReset();
+  ragSearchDocuments.mockReset();
+  vi.unstubAllEnvs();
+});
+
+function openTicket(id: string, title: string) {
+  return { id, external_id: null, title, description: "", status: "Open", priority: "P3", lexical_score: 0.2 };
+}
+
+function memoryDoc(ticketId: string, score: number, vectorScore: number) {
+  return {
+    source_type: "ticket",
+    source_id: ticketId,
+    title: `Resolved ${ticketId}`,
+    content: "",
+    metadata: { ticket_id: ticketId, external_id: `INC-${ticketId}`, status: "Closed", priority: "P2" },
+    score,
+    vector_score: vectorScore,
+  };
+}
+
+describe("duplicateMatchThreshold", () => {
+  it("defaults to 0.85 and ignores invalid overrides", () => {
+    expect(duplicateMatchThreshold()).toBe(0.85);
+
+    vi.stubEnv("DUPLICATE_MATCH_THRESHOLD", "0.9");
+    expect(duplicateMatchThreshold()).toBe(0.9);
+
+    vi.stubEnv("DUPLICATE_MATCH_THRESHOLD", "0");
+    expect(duplicateMatchThreshold()).toBe(0.85);
+  });
+});
+
+describe("parseDuplicateAction", () => {
+  it("accepts proceed, link and merge with a ticket id", () => {
+    expect(parseDuplicateAction({ action: "proceed" })).toEqual({ action: "proceed" });
+    expect(parseDuplicateAction({ action: "merge", ticketId: " t-1 " })).toEqual({ action: "merge", ticketId: "t-1" });
+  });
+
+  it("rejects link or merge without a target", () => {
+    expect(parseDuplicateAction({ action: "link" })).toBeNull();
+    expect(parseDuplicateAction({ action: "close", ticketId: "t-1" })).toBeNull();
+    expect(parseDuplicateAction(null)).toBeNull();
+  });
+});
+
+describe("findDuplicateCandidates", () => {
+  it("ranks open tickets and memory together by cosine similarity", async () => {
+    respond = () => ({ data: [openTicket("t-open", "Pump alarm"), openTicket("t-other", "Printer jam")] });
+    // Query, then each open ticket.
+    embedTexts.mockResolvedValue({ provider: "localai", model: "mini", vectors: [[1, 0], [0.9, 0.1], [0, 1]] });
+    ragSearchDocuments.mockResolvedValue([memoryDoc("t-old", 0.6, 0.88)]);
+
+    const candidates = await findDuplicateCandidates({ title: "Pump alarm", description: "Line 3" }, 3);
+
+    expect(candidates.map((c) => [c.ticket_id, c.source, c.score, c.likely])).toEqual([
+      ["t-open", "open", 0.994, true],
+      ["t-old", "memory", 0.88, true],
+      ["t-other", "open", 0, false],
+    ]);
+    expect(opArgs(server.queries[0]!, "args")).toEqual([{ query_text: "Pump alarm\n\nLine 3", match_count: 20 }]);
+    expect(ragSearchDocuments).toHaveBeenCalledWith(
+      expect.objectContaining({ mode: "vector", filterSourceType: "ticket", limit: 3 })
+    );
+  });
+
+  it("scores memory by raw cosine rather than the weighted rank score", async () => {
+    respond = () => ({ data: [] });
+    ragSearchDocuments.mockResolvedValue([memoryDoc("t-old", 0.95, 0.7)]);
+
+    const [candidate] = await findDuplicateCandidates({ title: "Pump alarm", description: "" });
+
+    expect(candidate).toMatchObject({ ticket_id: "t-old", external_id: "INC-t-old", score: 0.7, likely: false });
+    expect(embedTexts).not.toHaveBeenCalled();
+  });
+
+  it("skips the search for an empty report", async () => {
+    await expect(findDuplicateCandidates({ title: " ", description: "" })).resolves.toEqual([]);
+    expect(server.queries).toEqual([]);
+  });
+
+  it("surfaces open-ticket search errors", async () => {
+    respond = () => ({ error: { message: "function search_open_tickets does not exist" } });
+    ragSearchDocuments.mockResolvedValue([]);
+
+    await expect(findDuplicateCandidates({ title: "Pump alarm", description: "" })).rejects.toThrow(
+      "search_open_tickets"
+    );
+  });
+});
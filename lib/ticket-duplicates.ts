@@ -0,0 +1,123 @@
+import { cosineSimilarity, embedTexts, ragSearchDocuments } from "@/lib/rag";
+import { createClient } from "@/lib/supabase/server";
+
+/**
+ * A ticket that may describe the same issue as a new one. Open tickets come
+ * from full-text search over the tickets table, resolved ones from RAG
+ * memory; both are scored by embedding cosine similarity so they rank
+ * together.
+ */
+export type DuplicateCandidate = {
+  ticket_id: string;
+  external_id: string | null;
+  title: string;
+  status: string;
+  priority: string | null;
+  source: "open" | "memory";
+  score: number; // 0..1
+  likely: boolean; // score at or above the match threshold
+};
+
+/**
+ * What the creator chose when the gate found candidates: create anyway,
+ * create and mark as a duplicate of `ticketId`, or add the report to the
+ * open ticket `ticketId` instead of creating a new one.
+ */
+export type DuplicateAction =
+  | { action: "proceed" }
+  | { action: "link"; ticketId: string }
+  | { action: "merge"; ticketId: string };
+
+type OpenTicketMatch = {
+  id: string;
+  external_id: string | null;
+  title: string;
+  description: string;
+  status: string;
+  priority: string;
+  lexical_score: number;
+};
+
+const DEFAULT_MATCH_THRESHOLD = 0.85;
+const OPEN_CANDIDATE_POOL = 20;
+
+/** DUPLICATE_MATCH_THRESHOLD: the score at which creation is held back. */
+export function duplicateMatchThreshold(): number {
+  const raw = Number(process.env.DUPLICATE_MATCH_THRESHOLD);
+  return process.env.DUPLICATE_MATCH_THRESHOLD && Number.isFinite(raw) && raw > 0
+    ? raw
+    : DEFAULT_MATCH_THRESHOLD;
+}
+
+export function parseDuplicateAction(v: unknown): DuplicateAction | null {
+  if (!v || typeof v !== "object") return null;
+  const { action, ticketId } = v as Record<string, unknown>;
+  if (action === "proceed") return { action };
+  if ((action === "link" || action === "merge") && typeof ticketId === "string" && ticketId.trim()) {
+    return { action, ticketId: ticketId.trim() };
+  }
+  return null;
+}
+
+function reportText(title: string, description: string | null | undefined): string {
+  return [title.trim(), (description ?? "").trim()].filter(Boolean).join("\n\n");
+}
+
+export async function findDuplicateCandidates(
+  input: { title: string; description: string },
+  limit = 5
+): Promise<DuplicateCandidate[]> {
+  const query = reportText(input.title, input.description);
+  if (!query) return [];
+
+  const threshold = duplicateMatchThreshold();
+  const supabase = await createClient();
+
+  const [open, memory] = await Promise.all([
+    (supabase as any).rpc("search_open_tickets", { query_text: query, match_count: OPEN_CANDIDATE_POOL }),
+    ragSearchDocuments({ query, limit, mode: "vector", filterSourceType: "ticket" }),
+  ]);
+  if (open.error) throw new Error(open.error.message);
+
+  const openRows = (open.data ?? []) as OpenTicketMatch[];
+
+  const candidates: DuplicateCandidate[] = [];
+
+  if (openRows.length > 0) {
+    const batch = await embedTexts([query, ...openRows.map((r) => reportText(r.title, r.description))]);
+    const [queryVector, ...vectors] = batch.vectors;
+    openRows.forEach((r, i) => {
+      candidates.push({
+        ticket_id: r.id,
+        external_id: r.external_id,
+        title: r.title,
+        status: r.status,
+        priority: r.priority,
+        source: "open",
+        score: cosineSimilarity(queryVector!, vectors[i]!),
+        likely: false,
+      });
+    });
+  }
+
+  for (const doc of memory) {
+    const ticketId = doc.metadata?.ticket_id;
+    if (typeof ticketId !== "string") continue;
+    candidates.push({
+      ticket_id: ticketId,
+      external_id: doc.metadata?.external_id ?? null,
+      title: doc.title,
+      status: doc.metadata?.status ?? "Resolved",
+      priority: doc.metadata?.priority ?? null,
+      source: "memory",
+      // The raw cosine, not the curation-weighted rank score.
+      score: doc.vector_score ?? doc.score,
+      likely: false,
+    });
+  }
+
+  return candidates
+    .map((c) => ({ ...c, score: Number(c.score.toFixed(3)), likely: c.score >= threshold }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
@@ -0,0 +1,149 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  createTicketLink,
+  deleteTicketLink,
+  isTicketLinkInput,
+  linkRelation,
+  mergeTickets,
+  normalizeTicketLink,
+  problemRollup,
+  type TicketLinkRow,
+} from "@/lib/ticket-links";
+import { fakeSupabase, hasOp, opArgs } from "@/lib/testing/fake-supabase";
+
+const { onSlaStatusChange, purgeTicketRagMemory, syncTicketRagMemory } = vi.hoisted(() => ({
+  onSlaStatusChange: vi.fn(),
+  purgeTicketRagMemory: vi.fn(),
+  syncTicketRagMemory: vi.fn(),
+}));
+
+vi.mock("@/lib/sla", () => ({ onSlaStatusChange }));
+vi.mock("@/lib/ticket-memory", () => ({ purgeTicketRagMemory, syncTicketRagMemory }));
+
+afterEach(() => {
+  vi.resetAllMocks();
+});
+
+const A = { id: "a", title: "Pump alarm again" };
+const B = { id: "b", title: "Pump alarm" };
+
+function eventsOf(queries: ReturnType<typeof fakeSupabase>["queries"]) {
+  return queries
+    .filter((q) => q.table === "ticket_events")
+    .flatMap((q) => opArgs(q, "insert")![0] as Array<{ ticket_id: string; payload: Record<string, unknown> }>);
+}
+
+describe("normalizeTicketLink", () => {
+  it("stores parent_of as child_of the other way round", () => {
+    expect(normalizeTicketLink("a", "b", "parent_of")).toEqual({ from: "b", to: "a", type: "child_of" });
+    expect(normalizeTicketLink("a", "b", "caused_by")).toEqual({ from: "a", to: "b", type: "caused_by" });
+  });
+
+  it("accepts only known link inputs", () => {
+    expect(isTicketLinkInput("parent_of")).toBe(true);
+    expect(isTicketLinkInput("blocks")).toBe(false);
+  });
+});
+
+describe("linkRelation", () => {
+  it("reads a link from either side", () => {
+    const link = { link_type: "duplicate_of", from_ticket_id: "a" };
+
+    expect(linkRelation(link, "a")).toBe("duplicate_of");
+    expect(linkRelation(link, "b")).toBe("duplicated_by");
+  });
+});
+
+describe("createTicketLink", () => {
+  it("marks a duplicate, takes it out of RAG memory and records both sides", async () => {
+    const { client, queries } = fakeSupabase((q) => (hasOp(q, "single") ? { data: { id: "link-1" } } : undefined));
+
+    await createTicketLink(client, "user-1", A, B, "duplicate_of");
+
+    const update = queries.find((q) => q.table === "tickets")!;
+    expect(opArgs(update, "update")).toEqual([{ duplicate_of: "b" }]);
+    expect(opArgs(update, "eq")).toEqual(["id", "a"]);
+    expect(purgeTicketRagMemory).toHaveBeenCalledWith("a");
+    expect(eventsOf(queries).map((e) => [e.ticket_id, e.payload.relation, e.payload.ticket_id])).toEqual([
+      ["a", "duplicate_of", "b"],
+      ["b", "duplicated_by", "a"],
+    ]);
+  });
+
+  it("leaves the tickets alone for other link types", async () => {
+    const { client, queries } = fakeSupabase((q) => (hasOp(q, "single") ? { data: { id: "link-1" } } : undefined));
+
+    await createTicketLink(client, "user-1", A, B, "related");
+
+    expect(queries.some((q) => q.table === "tickets")).toBe(false);
+    expect(purgeTicketRagMemory).not.toHaveBeenCalled();
+  });
+});
+
+describe("deleteTicketLink", () => {
+  it("clears duplicate_of and puts the ticket back into memory", async () => {
+    const link = { id: "link-1", from_ticket_id: "a", to_ticket_id: "b", link_type: "duplicate_of" } as TicketLinkRow;
+    const restored = { ...A, duplicate_of: null, status: "Resolved" };
+    const { client, queries } = fakeSupabase((q) => {
+      if (q.table !== "tickets") return;
+      if (hasOp(q, "update")) return { data: restored };
+      return { data: [{ ...A, duplicate_of: "b" }, B] };
+    });
+
+    await deleteTicketLink(client, "user-1", link);
+
+    expect(syncTicketRagMemory).toHaveBeenCalledWith(restored);
+    expect(eventsOf(queries).every((e) => e.payload.removed === true)).toBe(true);
+  });
+});
+
+describe("mergeTickets", () => {
+  it("closes the sources through the RPC, then stops their SLA clocks", async () => {
+    const sources = [
+      { id: "s1", status: "Open" },
+      { id: "s2", status: "In Progress" },
+    ] as any[];
+    const { client, queries } = fakeSupabase();
+
+    await mergeTickets(client, "t", sources, "user-1");
+
+    expect(opArgs(queries[0]!, "args")).toEqual([{ p_target: "t", p_sources: ["s1", "s2"], p_actor: "user-1" }]);
+    expect(onSlaStatusChange.mock.calls.map(([, ticket, previous]) => [ticket.id, ticket.status, previous])).toEqual([
+      ["s1", "Closed", "Open"],
+      ["s2", "Closed", "In Progress"],
+    ]);
+    expect(purgeTicketRagMemory.mock.calls).toEqual([["s1"], ["s2"]]);
+  });
+
+  it("touches nothing when the merge fails", async () => {
+    const { client } = fakeSupabase(() => ({ error: { message: "Only Incidents can be merged" } }));
+
+    await expect(mergeTickets(client, "t", [{ id: "s1", status: "Open" }] as any[], null)).rejects.toThrow(
+      "Only Incidents can be merged"
+    );
+    expect(onSlaStatusChange).not.toHaveBeenCalled();
+  });
+});
+
+describe("problemRollup", () => {
+  it("summarises the linked Incidents", async () => {
+    const incidents = [
+      { id: "i2", status: "Resolved", priority: "P2", service: "SCADA", site: null, created_at: "2026-01-03T00:00:00Z" },
+      { id: "i1", status: "Open", priority: "P2", service: "SCADA", site: "Plant A", created_at: "2026-01-01T00:00:00Z" },
+    ];
+    const { client } = fakeSupabase((q) =>
+      hasOp(q, "order") ? { data: incidents } : { data: [{ from_ticket_id: "i1" }, { from_ticket_id: "i2" }] }
+    );
+
+    await expect(problemRollup(client, "p")).resolves.toEqual({
+      incidents: 2,
+      open: 1,
+      by_status: { Resolved: 1, Open: 1 },
+      by_priority: { P2: 2 },
+      services: ["SCADA"],
+      sites: ["Plant A"],
+      first_reported_at: "2026-01-01T00:00:00Z",
+      last_reported_at: "2026-01-03T00:00:00Z",
+    });
+  });
+});
@@ -0,0 +1,314 @@
+import type { Tables } from "@/database.types";
+import { onSlaStatusChange } from "@/lib/sla";
+import { purgeTicketRagMemory, syncTicketRagMemory } from "@/lib/ticket-memory";
+
+export type TicketLinkRow = Tables<"ticket_links">;
+
+/**
+ * Stored link types, read from `from_ticket_id`: "A duplicate_of B",
+ * "A caused_by B", "A child_of B". `related` is symmetric.
+ */
+export type TicketLinkType = "duplicate_of" | "caused_by" | "child_of" | "related";
+
+// What the API accepts; parent_of is stored as child_of the other way round.
+export type TicketLinkInput = TicketLinkType | "parent_of";
+
+export const TICKET_LINK_INPUTS: TicketLinkInput[] = ["duplicate_of", "caused_by", "child_of", "parent_of", "related"];
+
+// How each side of a link reads it, used in `linked` events and listings.
+const LINK_RELATIONS: Record<TicketLinkType, { outgoing: string; incoming: string }> = {
+  duplicate_of: { outgoing: "duplicate_of", incoming: "duplicated_by" },
+  caused_by: { outgoing: "caused_by", incoming: "causes" },
+  child_of: { outgoing: "child_of", incoming: "parent_of" },
+  related: { outgoing: "related", incoming: "related" },
+};
+
+// Links through which a Problem collects the Incidents it rolls up.
+const ROLLUP_LINK_TYPES: TicketLinkType[] = ["caused_by", "child_of"];
+
+const LINKED_TICKET_COLUMNS = "id, external_id, title, type, priority, status, service, site, created_at";
+
+export type LinkedTicket = Pick<
+  Tables<"tickets">,
+  "id" | "external_id" | "title" | "type" | "priority" | "status" | "service" | "site" | "created_at"
+>;
+
+export type TicketLinkView = {
+  id: string;
+  link_type: TicketLinkType;
+  relation: string; // the link read from this ticket's side
+  ticket: LinkedTicket;
+  created_at: string;
+};
+
+export type ProblemRollup = {
+  incidents: number;
+  open: number;
+  by_status: Record<string, number>;
+  by_priority: Record<string, number>;
+  services: string[];
+  sites: string[];
+  first_reported_at: string | null;
+  last_reported_at: string | null;
+};
+
+export function isTicketLinkInput(v: unknown): v is TicketLinkInput {
+  return typeof v === "string" && (TICKET_LINK_INPUTS as string[]).includes(v);
+}
+
+/** Orients a link made from `ticketId`'s side into its stored form. */
+export function normalizeTicketLink(
+  ticketId: string,
+  otherId: string,
+  input: TicketLinkInput
+): { from: string; to: string; type: TicketLinkType } {
+  if (input === "parent_of") return { from: otherId, to: ticketId, type: "child_of" };
+  return { from: ticketId, to: otherId, type: input };
+}
+
+export function linkRelation(link: Pick<TicketLinkRow, "link_type" | "from_ticket_id">, ticketId: string): string {
+  const relations = LINK_RELATIONS[link.link_type as TicketLinkType];
+  if (!relations) return link.link_type;
+  return link.from_ticket_id === ticketId ? relations.outgoing : relations.incoming;
+}
+
+export async function listTicketLinks(supabase: any, ticketId: string): Promise<TicketLinkView[]> {
+  const { data: links, error } = await (supabase.from("ticket_links") as any)
+    .select("*")
+    .or(`from_ticket_id.eq.${ticketId},to_ticket_id.eq.${ticketId}`)
+    .order("created_at", { ascending: true });
+  if (error) throw new Error(error.message);
+
+  const rows = (links ?? []) as TicketLinkRow[];
+  if (rows.length === 0) return [];
+
+  const otherIds = [...new Set(rows.map((l) => (l.from_ticket_id === ticketId ? l.to_ticket_id : l.from_ticket_id)))];
+  const { data: tickets, error: ticketsErr } = await (supabase.from("tickets") as any)
+    .select(LINKED_TICKET_COLUMNS)
+    .in("id", otherIds);
+  if (ticketsErr) throw new Error(ticketsErr.message);
+
+  const byId = new Map<string, LinkedTicket>(((tickets ?? []) as LinkedTicket[]).map((t) => [t.id, t]));
+  return rows.flatMap((l) => {
+    const ticket = byId.get(l.from_ticket_id === ticketId ? l.to_ticket_id : l.from_ticket_id);
+    if (!ticket) return [];
+    return [
+      {
+        id: l.id,
+        link_type: l.link_type as TicketLinkType,
+        relation: linkRelation(l, ticketId),
+        ticket,
+        created_at: l.created_at,
+      },
+    ];
+  });
+}
+
+export async function getTicketLink(supabase: any, linkId: string): Promise<TicketLinkRow | null> {
+  const { data, error } = await (supabase.from("ticket_links") as any).select("*").eq("id", linkId).maybeSingle();
+  if (error) throw new Error(error.message);
+  return data ?? null;
+}
+
+/** An existing link of the same type between the two tickets, in either direction for `related`. */
+export async function findTicketLink(
+  supabase: any,
+  link: { from: string; to: string; type: TicketLinkType }
+): Promise<TicketLinkRow | null> {
+  const pairs =
+    link.type === "related"
+      ? `and(from_ticket_id.eq.${link.from},to_ticket_id.eq.${link.to}),and(from_ticket_id.eq.${link.to},to_ticket_id.eq.${link.from})`
+      : `and(from_ticket_id.eq.${link.from},to_ticket_id.eq.${link.to})`;
+  const { data, error } = await (supabase.from("ticket_links") as any)
+    .select("*")
+    .eq("link_type", link.type)
+    .or(pairs)
+    .limit(1)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  return data ?? null;
+}
+
+/**
+ * Records a relation on both tickets as `linked` events, so each timeline
+ * shows the other side.
+ */
+export async function recordLinkEvents(
+  supabase: any,
+  actorId: string | null,
+  link: {
+    from: { id: string; title: string };
+    to: { id: string; title: string };
+    relation: string; // from -> to
+    inverse: string; // to -> from
+    payload?: Record<string, unknown>;
+  }
+): Promise<void> {
+  const { error } = await (supabase.from("ticket_events") as any).insert([
+    {
+      ticket_id: link.from.id,
+      actor_id: actorId,
+      event_type: "linked",
+      payload: { relation: link.relation, ticket_id: link.to.id, title: link.to.title, ...link.payload },
+    },
+    {
+      ticket_id: link.to.id,
+      actor_id: actorId,
+      event_type: "linked",
+      payload: { relation: link.inverse, ticket_id: link.from.id, title: link.from.title, ...link.payload },
+    },
+  ]);
+  if (error) throw new Error(error.message);
+}
+
+/**
+ * Stores a link and records it on both timelines. A duplicate_of link also
+ * sets tickets.duplicate_of and takes the duplicate out of RAG memory: the
+ * original already holds that knowledge.
+ */
+export async function createTicketLink(
+  supabase: any,
+  actorId: string | null,
+  from: { id: string; title: string },
+  to: { id: string; title: string },
+  type: TicketLinkType
+): Promise<TicketLinkRow> {
+  const { data, error } = await (supabase.from("ticket_links") as any)
+    .insert({ from_ticket_id: from.id, to_ticket_id: to.id, link_type: type, created_by: actorId })
+    .select("*")
+    .single();
+  if (error) throw new Error(error.message);
+
+  if (type === "duplicate_of") {
+    const { error: dupErr } = await (supabase.from("tickets") as any)
+      .update({ duplicate_of: to.id })
+      .eq("id", from.id);
+    if (dupErr) throw new Error(dupErr.message);
+    try {
+      await purgeTicketRagMemory(from.id);
+    } catch (e) {
+      console.error("Failed to purge duplicate ticket from RAG memory:", e);
+    }
+  }
+
+  const relations = LINK_RELATIONS[type];
+  await recordLinkEvents(supabase, actorId, {
+    from,
+    to,
+    relation: relations.outgoing,
+    inverse: relations.incoming,
+  });
+  return data;
+}
+
+export async function deleteTicketLink(
+  supabase: any,
+  actorId: string | null,
+  link: TicketLinkRow
+): Promise<void> {
+  const { error } = await (supabase.from("ticket_links") as any).delete().eq("id", link.id);
+  if (error) throw new Error(error.message);
+
+  const { data: tickets, error: ticketsErr } = await (supabase.from("tickets") as any)
+    .select("*")
+    .in("id", [link.from_ticket_id, link.to_ticket_id]);
+  if (ticketsErr) throw new Error(ticketsErr.message);
+
+  const from = (tickets ?? []).find((t: any) => t.id === link.from_ticket_id);
+  const to = (tickets ?? []).find((t: any) => t.id === link.to_ticket_id);
+
+  if (link.link_type === "duplicate_of" && from?.duplicate_of === link.to_ticket_id) {
+    const { data: updated, error: dupErr } = await (supabase.from("tickets") as any)
+      .update({ duplicate_of: null })
+      .eq("id", from.id)
+      .select("*")
+      .single();
+    if (dupErr) throw new Error(dupErr.message);
+    // No longer a duplicate: a resolved ticket goes back into memory.
+    await syncTicketRagMemory(updated);
+  }
+
+  if (from && to) {
+    const relations = LINK_RELATIONS[link.link_type as TicketLinkType];
+    await recordLinkEvents(supabase, actorId, {
+      from,
+      to,
+      relation: relations?.outgoing ?? link.link_type,
+      inverse: relations?.incoming ?? link.link_type,
+      payload: { removed: true },
+    });
+  }
+}
+
+/**
+ * Folds `sources` into `targetId` (see merge_tickets): events and links
+ * move over and each source is closed as a duplicate of the target. The
+ * caller checks each source may close under its workflow; closing then
+ * stops its SLA clocks as a status change would.
+ */
+export async function mergeTickets(
+  supabase: any,
+  targetId: string,
+  sources: Tables<"tickets">[],
+  actorId: string | null
+): Promise<void> {
+  const { error } = await supabase.rpc("merge_tickets", {
+    p_target: targetId,
+    p_sources: sources.map((s) => s.id),
+    p_actor: actorId ?? undefined,
+  });
+  if (error) throw new Error(error.message);
+
+  for (const source of sources) {
+    try {
+      await onSlaStatusChange(supabase, { ...source, status: "Closed" }, source.status);
+    } catch (e) {
+      console.error("Failed to update merged ticket SLA:", e);
+    }
+    try {
+      await purgeTicketRagMemory(source.id);
+    } catch (e) {
+      console.error("Failed to purge merged ticket from RAG memory:", e);
+    }
+  }
+}
+
+/** The Incidents linked to a Problem (caused_by or child_of it), newest first. */
+export async function listProblemIncidents(supabase: any, problemId: string): Promise<LinkedTicket[]> {
+  const { data: links, error } = await (supabase.from("ticket_links") as any)
+    .select("from_ticket_id")
+    .eq("to_ticket_id", problemId)
+    .in("link_type", ROLLUP_LINK_TYPES);
+  if (error) throw new Error(error.message);
+
+  const ids = [...new Set(((links ?? []) as Array<{ from_ticket_id: string }>).map((l) => l.from_ticket_id))];
+  if (ids.length === 0) return [];
+  const { data, error: ticketsErr } = await (supabase.from("tickets") as any)
+    .select(LINKED_TICKET_COLUMNS)
+    .in("id", ids)
+    .eq("type", "Incident")
+    .order("created_at", { ascending: false });
+  if (ticketsErr) throw new Error(ticketsErr.message);
+  return data ?? [];
+}
+
+/** The Incidents linked to a Problem, summarised. */
+export async function problemRollup(supabase: any, problemId: string): Promise<ProblemRollup> {
+  const incidents = await listProblemIncidents(supabase, problemId);
+  const count = (values: string[]) =>
+    values.reduce<Record<string, number>>((acc, v) => ({ ...acc, [v]: (acc[v] ?? 0) + 1 }), {});
+  const distinct = (values: Array<string | null>) =>
+    [...new Set(values.filter((v): v is string => !!v))].sort();
+  const reported = incidents.map((t) => t.created_at).sort();
+
+  return {
+    incidents: incidents.length,
+    open: incidents.filter((t) => t.status === "Open" || t.status === "In Progress").length,
+    by_status: count(incidents.map((t) => t.status)),
+    by_priority: count(incidents.map((t) => t.priority)),
+    services: distinct(incidents.map((t) => t.service)),
+    sites: distinct(incidents.map((t) => t.site)),
+    first_reported_at: reported[0] ?? null,
+    last_reported_at: reported[reported.length - 1] ?? null,
+  };
+}
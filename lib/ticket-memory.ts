@@ -0,0 +1,58 @@
+import { ragUpsert } from "@/lib/rag";
+import { ticketToRagDocument } from "@/lib/rag-documents";
+import { createClient } from "@/lib/supabase/server";
+
+// Only tickets with a confirmed resolution belong in RAG memory.
+const MEMORY_STATUSES = ["Resolved", "Closed"];
+
+// Ticket fields that feed ticketToRagDocument; editing any of them on a
+// resolved ticket makes its stored chunks stale.
+export const TICKET_MEMORY_FIELDS = [
+  "title",
+  "description",
+  "resolution_notes",
+  "service",
+  "site",
+  "topics",
+  "type",
+  "priority",
+];
+
+// A duplicate's knowledge lives on the ticket it duplicates.
+export function belongsInRagMemory(ticket: { status: string; duplicate_of?: string | null }): boolean {
+  return MEMORY_STATUSES.includes(ticket.status) && !ticket.duplicate_of;
+}
+
+/**
+ * Removes every chunk stored for a ticket. Matches on metadata.ticket_id so
+ * it works whether the document was keyed by external_id or by id.
+ */
+export async function purgeTicketRagMemory(ticketId: string): Promise<number> {
+  const supabase = await createClient();
+  const { data, error } = await (supabase.from("rag_items") as any)
+    .delete()
+    .eq("source_type", "ticket")
+    .eq("metadata->>ticket_id", ticketId)
+    .select("id");
+
+  if (error) throw new Error(error.message);
+  return (data as any[])?.length ?? 0;
+}
+
+/**
+ * Brings RAG memory in line with the ticket's current state: resolved and
+ * closed tickets are (re-)upserted, anything else (e.g. a reopened ticket
+ * whose fix turned out to be wrong) is purged. Best-effort, like the rest of
+ * the indexing paths: failures are logged, never thrown.
+ */
+export async function syncTicketRagMemory(ticket: any): Promise<void> {
+  try {
+    if (belongsInRagMemory(ticket)) {
+      await ragUpsert(ticketToRagDocument(ticket));
+    } else {
+      await purgeTicketRagMemory(ticket.id);
+    }
+  } catch (e) {
+    console.error("Failed to sync ticket RAG memory:", e);
+  }
+}
@@ -0,0 +1,141 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { TicketTriage } from "@/lib/ai";
+import { checkTicketTriage } from "@/lib/ai-schema";
+import { TICKET_TOPICS } from "@/lib/ticket-catalog";
+import {
+  acceptedTriageFields,
+  applyTriage,
+  parseTriagePreview,
+  triageAutoApplyThreshold,
+} from "@/lib/ticket-triage";
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+function triage(overrides: Partial<TicketTriage> = {}): TicketTriage {
+  return {
+    type: { value: "Incident", confidence: 0.9 },
+    priority: { value: "P2", confidence: 0.6 },
+    topics: [
+      { value: "SCADA / PLC", confidence: 0.95 },
+      { value: "Networks", confidence: 0.5 },
+    ],
+    service: { value: "Line 3 SCADA", confidence: 0.88 },
+    site: null,
+    rationale: "PLC alarms",
+    ...overrides,
+  };
+}
+
+describe("triageAutoApplyThreshold", () => {
+  it("defaults to 0.85 and reads AI_TRIAGE_AUTO_APPLY_THRESHOLD", () => {
+    expect(triageAutoApplyThreshold()).toBe(0.85);
+
+    vi.stubEnv("AI_TRIAGE_AUTO_APPLY_THRESHOLD", "0.7");
+    expect(triageAutoApplyThreshold()).toBe(0.7);
+
+    vi.stubEnv("AI_TRIAGE_AUTO_APPLY_THRESHOLD", "high");
+    expect(triageAutoApplyThreshold()).toBe(0.85);
+  });
+});
+
+describe("applyTriage", () => {
+  it("fills blank fields with confident proposals only", () => {
+    expect(applyTriage(triage(), {}, 0.85)).toEqual({
+      values: { type: "Incident", service: "Line 3 SCADA", topics: ["SCADA / PLC"] },
+      applied: ["type", "service", "topics"],
+    });
+  });
+
+  it("never overrides what the creator set", () => {
+    const { values, applied } = applyTriage(triage(), { type: "Change", topics: ["Networks"] }, 0.85);
+
+    expect(values).toEqual({ type: "Change", topics: ["Networks"], service: "Line 3 SCADA" });
+    expect(applied).toEqual(["service"]);
+  });
+
+  it("applies nothing above a threshold of 1", () => {
+    expect(applyTriage(triage(), {}, 1.01).applied).toEqual([]);
+  });
+});
+
+describe("acceptedTriageFields", () => {
+  it("lists fields that ended up with the proposed value", () => {
+    const ticket = { type: "Incident", priority: "P3", topics: ["SCADA / PLC", "Networks"], service: "Line 3 SCADA" };
+
+    expect(acceptedTriageFields(triage(), ticket)).toEqual(["type", "topics", "service"]);
+  });
+
+  it("does not count topics when only some were kept", () => {
+    expect(acceptedTriageFields(triage(), { topics: ["SCADA / PLC"] })).toEqual([]);
+  });
+});
+
+describe("checkTicketTriage", () => {
+  const known = { topics: TICKET_TOPICS, services: ["Line 3 SCADA"], sites: [] };
+
+  it("matches allowed values case-insensitively and drops repeated topics", () => {
+    const check = checkTicketTriage(
+      {
+        type: { value: "incident", confidence: 0.9 },
+        priority: null,
+        topics: [
+          { value: "scada / plc", confidence: 0.9 },
+          { value: "SCADA / PLC", confidence: 0.7 },
+        ],
+        service: { value: "line 3 scada", confidence: 0.8 },
+        site: null,
+        rationale: "",
+      },
+      known
+    );
+
+    expect(check.errors).toEqual([]);
+    expect(check.value).toMatchObject({
+      type: { value: "Incident" },
+      topics: [{ value: "SCADA / PLC", confidence: 0.9 }],
+      service: { value: "Line 3 SCADA" },
+    });
+  });
+
+  it("rejects values that are not allowed or not seen on similar tickets", () => {
+    const check = checkTicketTriage(
+      {
+        type: { value: "Outage", confidence: 0.9 },
+        priority: { value: "P2", confidence: 2 },
+        topics: [],
+        service: { value: "Line 9", confidence: 0.8 },
+        site: { value: "Plant B", confidence: 0.8 },
+        rationale: "",
+      },
+      known
+    );
+
+    expect(check.errors).toEqual([
+      'type.value "Outage" is not one of: Incident, Service Request, Problem, Change',
+      "priority.confidence must be a number in [0,1]",
+      'service.value "Line 9" is not one of: Line 3 SCADA',
+      "site must be null: no similar ticket has one",
+    ]);
+    expect(check.value).toBeNull();
+  });
+});
+
+describe("parseTriagePreview", () => {
+  it("re-checks the proposal sent back by the create form", () => {
+    const preview = parseTriagePreview({
+      proposal: triage(),
+      model: { host: "http://localai:8080", name: "mini", backend: "localai" },
+      similar: ["ticket:INC-1", 7],
+    });
+
+    expect(preview).toMatchObject({ prompt: null, similar: ["ticket:INC-1"] });
+    expect(preview!.proposal.service).toEqual({ value: "Line 3 SCADA", confidence: 0.88 });
+  });
+
+  it("rejects a preview without a usable proposal", () => {
+    expect(parseTriagePreview({ proposal: { topics: [] } })).toBeNull();
+    expect(parseTriagePreview("triage")).toBeNull();
+  });
+});
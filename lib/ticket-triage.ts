@@ -0,0 +1,147 @@
+import { aiTriage, type AiModelInfo, type TicketTriage, type TriageInput } from "@/lib/ai";
+import { checkTicketTriage } from "@/lib/ai-schema";
+import { metrics } from "@/lib/metrics";
+import type { PromptTemplateRef } from "@/lib/prompt-templates";
+import { TICKET_TOPICS } from "@/lib/ticket-catalog";
+
+export type TriageField = "type" | "priority" | "topics" | "service" | "site";
+
+export const TRIAGE_FIELDS: TriageField[] = ["type", "priority", "topics", "service", "site"];
+
+export type TriageFieldValues = {
+  type?: string;
+  priority?: string;
+  topics?: string[];
+  service?: string;
+  site?: string;
+};
+
+/**
+ * A triage run as recorded on the `triage_suggested` ticket event. "auto"
+ * ran at creation and applied confident proposals itself; "preview" was
+ * shown in the create form, where the creator picked what to keep.
+ */
+export type TriageRecord = {
+  mode: "auto" | "preview";
+  proposal: TicketTriage;
+  applied: TriageField[];
+  threshold: number | null; // auto mode only
+  model: AiModelInfo | null;
+  prompt: PromptTemplateRef | null;
+  similar: string[]; // document keys of the similar tickets shown to the model
+};
+
+export type TriageRun = Omit<TriageRecord, "mode" | "applied" | "threshold">;
+
+const DEFAULT_AUTO_APPLY_THRESHOLD = 0.85;
+
+/**
+ * Minimum confidence for a proposal to be applied without asking, from
+ * AI_TRIAGE_AUTO_APPLY_THRESHOLD. A value above 1 turns auto-apply off.
+ */
+export function triageAutoApplyThreshold(): number {
+  const raw = Number(process.env.AI_TRIAGE_AUTO_APPLY_THRESHOLD);
+  return process.env.AI_TRIAGE_AUTO_APPLY_THRESHOLD && Number.isFinite(raw) && raw >= 0
+    ? raw
+    : DEFAULT_AUTO_APPLY_THRESHOLD;
+}
+
+/**
+ * Fills the fields the creator left blank with proposals at or above
+ * `threshold`. Anything the creator set is kept as is.
+ */
+export function applyTriage(
+  triage: TicketTriage,
+  provided: TriageFieldValues,
+  threshold: number
+): { values: TriageFieldValues; applied: TriageField[] } {
+  const values: TriageFieldValues = { ...provided };
+  const applied: TriageField[] = [];
+  const confident = (p: { confidence: number } | null): boolean => !!p && p.confidence >= threshold;
+
+  for (const field of ["type", "priority", "service", "site"] as const) {
+    const proposal = triage[field];
+    if (!values[field] && confident(proposal)) {
+      values[field] = proposal!.value;
+      applied.push(field);
+    }
+  }
+
+  const topics = triage.topics.filter(confident).map((t) => t.value);
+  if (!values.topics?.length && topics.length > 0) {
+    values.topics = topics;
+    applied.push("topics");
+  }
+
+  return { values, applied };
+}
+
+/** Fields whose final value on the ticket is the one triage proposed. */
+export function acceptedTriageFields(triage: TicketTriage, ticket: TriageFieldValues): TriageField[] {
+  return TRIAGE_FIELDS.filter((field) => {
+    if (field === "topics") {
+      return triage.topics.length > 0 && triage.topics.every((t) => ticket.topics?.includes(t.value));
+    }
+    const proposal = triage[field];
+    return !!proposal && proposal.value === ticket[field];
+  });
+}
+
+/**
+ * A preview sent back by the create form: `{ proposal, model?, prompt?,
+ * similar? }` as returned by POST /api/ai/triage. Null when the proposal
+ * does not check out.
+ */
+export function parseTriagePreview(v: unknown): TriageRun | null {
+  if (!v || typeof v !== "object") return null;
+  const body = v as Record<string, unknown>;
+  const proposal = checkTicketTriage(body.proposal, { topics: TICKET_TOPICS }).value;
+  if (!proposal) return null;
+
+  const isObject = (x: unknown): x is Record<string, unknown> => !!x && typeof x === "object";
+  return {
+    proposal,
+    model: isObject(body.model) ? (body.model as AiModelInfo) : null,
+    prompt: isObject(body.prompt) ? (body.prompt as PromptTemplateRef) : null,
+    similar: Array.isArray(body.similar) ? body.similar.filter((s): s is string => typeof s === "string") : [],
+  };
+}
+
+/**
+ * Runs triage for a ticket that is about to be created. Returns null when the
+ * model gave nothing usable; model failures are thrown to the caller.
+ */
+export async function runTicketTriage(input: TriageInput): Promise<TriageRun | null> {
+  const { evidence, triage, model, prompt } = await aiTriage(input);
+  if ("raw" in triage) return null;
+  return {
+    proposal: triage,
+    model,
+    prompt,
+    similar: evidence.map((e) => `${e.source_type}:${e.source_id}`),
+  };
+}
+
+export async function recordTriageEvent(
+  supabase: any,
+  ticketId: string,
+  actorId: string | null,
+  record: TriageRecord
+): Promise<void> {
+  const { error } = await (supabase.from("ticket_events") as any).insert({
+    ticket_id: ticketId,
+    actor_id: actorId,
+    event_type: "triage_suggested",
+    payload: record,
+  });
+  if (error) throw new Error(error.message);
+
+  for (const field of TRIAGE_FIELDS) {
+    const proposed = field === "topics" ? record.proposal.topics.length > 0 : !!record.proposal[field];
+    if (!proposed) continue;
+    metrics().aiTriageFieldsTotal.inc(
+      { field, decision: record.applied.includes(field) ? "applied" : "suggested" },
+      1
+    );
+  }
+}
@@ -0,0 +1,181 @@
+import { describe, expect, it } from "vitest";
+import type { Tables } from "@/database.types";
+import {
+  DEFAULT_WORKFLOWS,
+  checkTransition,
+  checkTypeChange,
+  loadWorkflowFacts,
+  parseWorkflowTransitions,
+  transitionOptions,
+  transitionTicket,
+} from "@/lib/ticket-workflow";
+import { fakeSupabase, hasOp, opArgs } from "@/lib/testing/fake-supabase";
+
+const STANDARD = DEFAULT_WORKFLOWS.Incident!;
+const CHANGE = DEFAULT_WORKFLOWS.Change!;
+
+const unapproved = { approved: false };
+const approved = { approved: true };
+
+function ticket(overrides: Partial<Tables<"tickets">> = {}): Tables<"tickets"> {
+  return {
+    id: "t-1",
+    type: "Incident",
+    status: "Open",
+    assigned_to: null,
+    resolution_notes: null,
+    closed_at: null,
+    ...overrides,
+  } as Tables<"tickets">;
+}
+
+describe("checkTransition", () => {
+  it("allows a listed move for the right role", () => {
+    expect(checkTransition(STANDARD, ticket(), "In Progress", "Engineer", unapproved)).toEqual([]);
+  });
+
+  it("rejects unknown statuses and moves the workflow does not list", () => {
+    expect(checkTransition(STANDARD, ticket(), "Done", "Admin", unapproved)).toMatchObject([{ rule: "status" }]);
+    expect(checkTransition(STANDARD, ticket({ status: "Closed" }), "Resolved", "Admin", unapproved)).toEqual([
+      { rule: "transition", message: "Incident tickets cannot move from Closed to Resolved" },
+    ]);
+  });
+
+  it("reports a missing role", () => {
+    expect(checkTransition(STANDARD, ticket(), "Closed", "Engineer", unapproved)).toEqual([
+      { rule: "role", message: "Moving Incident tickets to Closed requires the Admin role", roles: ["Admin"] },
+    ]);
+  });
+
+  it("requires resolution notes to resolve", () => {
+    expect(checkTransition(STANDARD, ticket({ resolution_notes: "  " }), "Resolved", "Engineer", unapproved)).toEqual([
+      {
+        rule: "required_field",
+        field: "resolution_notes",
+        message: "Resolution notes must be set before moving to Resolved",
+      },
+    ]);
+    expect(
+      checkTransition(STANDARD, ticket({ resolution_notes: "Reseated cable" }), "Resolved", "Engineer", unapproved)
+    ).toEqual([]);
+  });
+
+  it("holds a Change until it is assigned and approved", () => {
+    const change = ticket({ type: "Change" });
+
+    expect(checkTransition(CHANGE, change, "In Progress", "Engineer", unapproved).map((v) => v.message)).toEqual([
+      "An assignee must be set before moving to In Progress",
+      "The change must be approved before moving to In Progress",
+    ]);
+    expect(checkTransition(CHANGE, { ...change, assigned_to: "u-1" }, "In Progress", "Engineer", approved)).toEqual(
+      []
+    );
+  });
+
+  it("passes when any rule covering the move passes, else reports the closest", () => {
+    const transitions = [
+      { from: ["Open" as const], to: "Closed" as const, roles: ["Admin" as const], requires: [] },
+      { from: ["Open" as const], to: "Closed" as const, roles: ["Engineer" as const], requires: ["service" as const] },
+    ];
+
+    expect(checkTransition(transitions, ticket({ service: "MES" }), "Closed", "Engineer", unapproved)).toEqual([]);
+    expect(checkTransition(transitions, ticket(), "Closed", "Engineer", unapproved)).toMatchObject([
+      { rule: "role" },
+    ]);
+  });
+});
+
+describe("checkTypeChange", () => {
+  it("allows a status the new workflow reaches from Open", () => {
+    expect(checkTypeChange(CHANGE, ticket({ type: "Change", status: "Open" }), unapproved)).toEqual([]);
+    expect(
+      checkTypeChange(CHANGE, ticket({ type: "Change", status: "In Progress", assigned_to: "u-1" }), approved)
+    ).toEqual([]);
+  });
+
+  it("refuses an In Progress ticket becoming an unapproved Change", () => {
+    expect(
+      checkTypeChange(CHANGE, ticket({ type: "Change", status: "In Progress", assigned_to: "u-1" }), unapproved)
+    ).toMatchObject([{ rule: "transition" }]);
+  });
+
+  it("ignores roles: an Admin-only path still counts", () => {
+    expect(checkTypeChange(STANDARD, ticket({ status: "Closed" }), unapproved)).toEqual([]);
+  });
+});
+
+describe("transitionOptions", () => {
+  it("lists each next status with what blocks it", () => {
+    const options = transitionOptions(STANDARD, ticket({ status: "In Progress" }), "Engineer", unapproved);
+
+    expect(options.map((o) => [o.to, o.allowed, o.requires])).toEqual([
+      ["Open", true, []],
+      ["Resolved", false, ["resolution_notes"]],
+      ["Closed", false, []],
+    ]);
+  });
+});
+
+describe("parseWorkflowTransitions", () => {
+  it("defaults roles to staff and de-duplicates lists", () => {
+    expect(parseWorkflowTransitions([{ from: "Open", to: "Resolved", requires: ["site", "site"] }])).toEqual([
+      { from: ["Open"], to: "Resolved", roles: ["Engineer", "Admin"], requires: ["site"] },
+    ]);
+  });
+
+  it("rejects malformed transitions", () => {
+    expect(parseWorkflowTransitions([])).toBe("transitions must be a non-empty list");
+    expect(parseWorkflowTransitions([{ from: ["Open"], to: "Open" }])).toBe(
+      "transitions[0] cannot move a ticket to the status it is already in"
+    );
+    expect(parseWorkflowTransitions([{ from: ["Open"], to: "Closed", roles: ["Owner"] }])).toBe(
+      "transitions[0].roles must list roles from: Admin, Engineer, Viewer"
+    );
+    expect(parseWorkflowTransitions([{ from: ["Open"], to: "Closed", requires: ["priority"] }])).toBe(
+      "transitions[0].requires may only list: resolution_notes, assigned_to, service, site, approval"
+    );
+  });
+});
+
+describe("loadWorkflowFacts", () => {
+  it("only looks up the change approval when a transition needs it", async () => {
+    const { client, queries } = fakeSupabase(() => ({ data: { approval_status: "approved" } }));
+
+    await expect(loadWorkflowFacts(client, ticket(), STANDARD)).resolves.toEqual({ approved: false });
+    expect(queries).toEqual([]);
+
+    await expect(loadWorkflowFacts(client, ticket({ type: "Change" }), CHANGE)).resolves.toEqual({ approved: true });
+    expect(queries.map((q) => q.table)).toEqual(["change_requests"]);
+  });
+});
+
+describe("transitionTicket", () => {
+  const actor = { userId: "u-1", username: "sam", role: "Engineer" as const };
+
+  it("saves the new status with the fields set alongside it and records the change", async () => {
+    const { client, queries } = fakeSupabase((q) => (hasOp(q, "single") ? { data: { id: "t-1" } } : undefined));
+
+    const result = await transitionTicket(client, actor, ticket({ status: "In Progress" }), "Resolved", {
+      resolution_notes: "Reseated cable",
+    });
+
+    expect(result).toEqual({ ticket: { id: "t-1" } });
+    const update = queries.find((q) => q.table === "tickets")!;
+    expect(opArgs(update, "update")![0]).toMatchObject({ status: "Resolved", resolution_notes: "Reseated cable" });
+    const event = queries.find((q) => q.table === "ticket_events")!;
+    expect(opArgs(event, "insert")![0]).toMatchObject({
+      from_status: "In Progress",
+      to_status: "Resolved",
+      payload: { fields: ["resolutionNotes"] },
+    });
+  });
+
+  it("returns the violations without saving", async () => {
+    const { client, queries } = fakeSupabase();
+
+    const result = await transitionTicket(client, actor, ticket(), "Closed");
+
+    expect(result).toMatchObject({ violations: [{ rule: "role" }] });
+    expect(queries.map((q) => q.table)).toEqual(["ticket_workflows"]);
+  });
+});
@@ -0,0 +1,353 @@
+import type { Tables } from "@/database.types";
+import type { ActorContext, Role } from "@/lib/rbac";
+import { TICKET_TYPES } from "@/lib/ticket-catalog";
+import { isChangeApproved } from "@/lib/change-requests";
+
+/**
+ * Status workflows per ticket type: which status changes are allowed, who
+ * may make them and which ticket fields must be filled in first. Admins can
+ * override a type's workflow (ticket_workflows); otherwise the built-in one
+ * below applies.
+ */
+
+export type TicketStatus = "Open" | "In Progress" | "Resolved" | "Closed";
+
+export const TICKET_STATUSES: TicketStatus[] = ["Open", "In Progress", "Resolved", "Closed"];
+
+// Ticket fields a transition can require to be non-empty, plus `approval`:
+// the ticket's change request has been approved.
+export type WorkflowRequirement = "resolution_notes" | "assigned_to" | "service" | "site" | "approval";
+
+export const WORKFLOW_REQUIREMENTS: WorkflowRequirement[] = ["resolution_notes", "assigned_to", "service", "site", "approval"];
+
+/** State outside the ticket row that requirements depend on. */
+export type WorkflowFacts = { approved: boolean };
+
+const ROLES: Role[] = ["Admin", "Engineer", "Viewer"];
+
+export type WorkflowTransition = {
+  from: TicketStatus[];
+  to: TicketStatus;
+  roles: Role[];
+  requires: WorkflowRequirement[];
+};
+
+export type Workflow = {
+  ticket_type: string;
+  transitions: WorkflowTransition[];
+  customized: boolean;
+  updated_at: string | null;
+};
+
+export type WorkflowViolation =
+  | { rule: "status"; message: string }
+  | { rule: "transition"; message: string }
+  | { rule: "role"; message: string; roles: Role[] }
+  | { rule: "required_field"; message: string; field: WorkflowRequirement };
+
+/** Each possible next status for a ticket, with what (if anything) blocks it. */
+export type TransitionOption = {
+  to: TicketStatus;
+  allowed: boolean;
+  requires: WorkflowRequirement[];
+  violations: WorkflowViolation[];
+};
+
+const STAFF: Role[] = ["Engineer", "Admin"];
+
+const STANDARD_WORKFLOW: WorkflowTransition[] = [
+  { from: ["Open"], to: "In Progress", roles: STAFF, requires: [] },
+  { from: ["In Progress"], to: "Open", roles: STAFF, requires: [] },
+  { from: ["Open", "In Progress"], to: "Resolved", roles: STAFF, requires: ["resolution_notes"] },
+  { from: ["Resolved"], to: "In Progress", roles: STAFF, requires: [] },
+  { from: ["Resolved"], to: "Closed", roles: STAFF, requires: [] },
+  // Closing without a resolution (cancelled, raised in error) and reopening
+  // a closed ticket are Admin decisions.
+  { from: ["Open", "In Progress"], to: "Closed", roles: ["Admin"], requires: [] },
+  { from: ["Closed"], to: "Open", roles: ["Admin"], requires: [] },
+];
+
+export const DEFAULT_WORKFLOWS: Record<string, WorkflowTransition[]> = {
+  Incident: STANDARD_WORKFLOW,
+  "Service Request": STANDARD_WORKFLOW,
+  Problem: STANDARD_WORKFLOW,
+  // Implementation (In Progress) waits for CAB approval.
+  Change: [
+    { from: ["Open"], to: "In Progress", roles: STAFF, requires: ["assigned_to", "approval"] },
+    { from: ["In Progress"], to: "Open", roles: STAFF, requires: [] },
+    { from: ["In Progress"], to: "Resolved", roles: STAFF, requires: ["resolution_notes"] },
+    { from: ["Resolved"], to: "In Progress", roles: STAFF, requires: [] },
+    { from: ["Resolved"], to: "Closed", roles: STAFF, requires: [] },
+    { from: ["Open", "In Progress"], to: "Closed", roles: ["Admin"], requires: [] },
+    { from: ["Closed"], to: "Open", roles: ["Admin"], requires: [] },
+  ],
+};
+
+const REQUIREMENT_LABELS: Record<WorkflowRequirement, string> = {
+  resolution_notes: "Resolution notes",
+  assigned_to: "An assignee",
+  service: "Service",
+  site: "Site",
+  approval: "Change approval",
+};
+
+export function isTicketStatus(v: unknown): v is TicketStatus {
+  return (TICKET_STATUSES as unknown[]).includes(v);
+}
+
+export function isTicketType(v: unknown): v is string {
+  return (TICKET_TYPES as readonly unknown[]).includes(v);
+}
+
+/** Validates a transition list from a request body; returns an error message on failure. */
+export function parseWorkflowTransitions(v: unknown): WorkflowTransition[] | string {
+  if (!Array.isArray(v) || v.length === 0) return "transitions must be a non-empty list";
+
+  const out: WorkflowTransition[] = [];
+  for (const [i, t] of v.entries()) {
+    const at = `transitions[${i}]`;
+    if (!t || typeof t !== "object") return `${at} must be an object`;
+
+    const from = Array.isArray(t.from) ? t.from : [t.from];
+    if (from.length === 0 || !from.every(isTicketStatus)) {
+      return `${at}.from must list statuses from: ${TICKET_STATUSES.join(", ")}`;
+    }
+    if (!isTicketStatus(t.to)) return `${at}.to must be one of: ${TICKET_STATUSES.join(", ")}`;
+    if (from.includes(t.to)) return `${at} cannot move a ticket to the status it is already in`;
+
+    const roles = t.roles ?? STAFF;
+    if (!Array.isArray(roles) || roles.length === 0 || !roles.every((r: unknown) => (ROLES as unknown[]).includes(r))) {
+      return `${at}.roles must list roles from: ${ROLES.join(", ")}`;
+    }
+
+    const requires = t.requires ?? [];
+    if (!Array.isArray(requires) || !requires.every((r: unknown) => (WORKFLOW_REQUIREMENTS as unknown[]).includes(r))) {
+      return `${at}.requires may only list: ${WORKFLOW_REQUIREMENTS.join(", ")}`;
+    }
+
+    out.push({
+      from: [...new Set<TicketStatus>(from)],
+      to: t.to,
+      roles: [...new Set<Role>(roles)],
+      requires: [...new Set<WorkflowRequirement>(requires)],
+    });
+  }
+  return out;
+}
+
+/** Every ticket type's workflow, with Admin overrides applied. */
+export async function listWorkflows(supabase: any): Promise<Workflow[]> {
+  const { data, error } = await (supabase.from("ticket_workflows") as any).select("*");
+  if (error) throw new Error(error.message);
+
+  const overrides = new Map<string, Tables<"ticket_workflows">>((data ?? []).map((w: any) => [w.ticket_type, w]));
+  return TICKET_TYPES.map((type) => {
+    const override = overrides.get(type);
+    return {
+      ticket_type: type,
+      transitions: override ? (override.transitions as WorkflowTransition[]) : DEFAULT_WORKFLOWS[type]!,
+      customized: !!override,
+      updated_at: override?.updated_at ?? null,
+    };
+  });
+}
+
+export async function getWorkflow(supabase: any, ticketType: string): Promise<WorkflowTransition[]> {
+  const { data, error } = await (supabase.from("ticket_workflows") as any)
+    .select("transitions")
+    .eq("ticket_type", ticketType)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  return (data?.transitions as WorkflowTransition[] | undefined) ?? DEFAULT_WORKFLOWS[ticketType] ?? STANDARD_WORKFLOW;
+}
+
+export async function saveWorkflow(
+  supabase: any,
+  actorId: string | null,
+  ticketType: string,
+  transitions: WorkflowTransition[]
+): Promise<Tables<"ticket_workflows">> {
+  if (!isTicketType(ticketType)) throw new Error(`Unknown ticket type: ${ticketType}`);
+  const { data, error } = await (supabase.from("ticket_workflows") as any)
+    .upsert(
+      { ticket_type: ticketType, transitions, updated_by: actorId, updated_at: new Date().toISOString() },
+      { onConflict: "ticket_type" }
+    )
+    .select("*")
+    .single();
+  if (error) throw new Error(error.message);
+  return data;
+}
+
+/** Loads the facts a workflow's requirements need; skips the queries it does not. */
+export async function loadWorkflowFacts(
+  supabase: any,
+  ticket: Tables<"tickets">,
+  transitions: WorkflowTransition[]
+): Promise<WorkflowFacts> {
+  const needsApproval = transitions.some((t) => t.requires.includes("approval"));
+  return { approved: needsApproval ? await isChangeApproved(supabase, ticket.id) : false };
+}
+
+function isMet(ticket: Tables<"tickets">, field: WorkflowRequirement, facts: WorkflowFacts): boolean {
+  if (field === "approval") return facts.approved;
+  const v = ticket[field];
+  return typeof v === "string" && v.trim().length > 0;
+}
+
+/**
+ * Checks moving `ticket` to `to` against its type's workflow. An empty list
+ * means the change is allowed. Required fields are checked on the ticket as
+ * it will be saved, so callers pass any values set alongside the change.
+ */
+export function checkTransition(
+  transitions: WorkflowTransition[],
+  ticket: Tables<"tickets">,
+  to: string,
+  role: Role,
+  facts: WorkflowFacts
+): WorkflowViolation[] {
+  if (!isTicketStatus(to)) {
+    return [{ rule: "status", message: `Status must be one of: ${TICKET_STATUSES.join(", ")}` }];
+  }
+
+  const candidates = transitions.filter((t) => t.to === to && t.from.includes(ticket.status as TicketStatus));
+  if (candidates.length === 0) {
+    return [{ rule: "transition", message: `${ticket.type} tickets cannot move from ${ticket.status} to ${to}` }];
+  }
+
+  // Several rules may cover the same move (e.g. different roles); the first
+  // that passes wins, otherwise report the one closest to passing.
+  let best: WorkflowViolation[] | null = null;
+  for (const t of candidates) {
+    const violations: WorkflowViolation[] = [];
+    if (!t.roles.includes(role)) {
+      violations.push({
+        rule: "role",
+        message: `Moving ${ticket.type} tickets to ${to} requires the ${t.roles.join(" or ")} role`,
+        roles: t.roles,
+      });
+    }
+    for (const field of t.requires) {
+      if (!isMet(ticket, field, facts)) {
+        violations.push({
+          rule: "required_field",
+          field,
+          message:
+            field === "approval"
+              ? `The change must be approved before moving to ${to}`
+              : `${REQUIREMENT_LABELS[field]} must be set before moving to ${to}`,
+        });
+      }
+    }
+    if (violations.length === 0) return [];
+    if (!best || violations.length < best.length) best = violations;
+  }
+  return best!;
+}
+
+/**
+ * Checks changing a ticket's type, which keeps its status: that status must
+ * be reachable from Open under the new type's workflow with what the ticket
+ * meets today, so e.g. an In Progress Incident cannot become an unapproved
+ * Change. Roles are not checked; they gate who moves a ticket, not where it
+ * can be. `ticket` carries the new type. An empty list means allowed.
+ */
+export function checkTypeChange(
+  transitions: WorkflowTransition[],
+  ticket: Tables<"tickets">,
+  facts: WorkflowFacts
+): WorkflowViolation[] {
+  const reached = new Set<TicketStatus>(["Open"]);
+  for (let grew = true; grew; ) {
+    grew = false;
+    for (const t of transitions) {
+      if (reached.has(t.to) || !t.from.some((s) => reached.has(s))) continue;
+      if (!t.requires.every((field) => isMet(ticket, field, facts))) continue;
+      reached.add(t.to);
+      grew = true;
+    }
+  }
+  if (reached.has(ticket.status as TicketStatus)) return [];
+  return [
+    {
+      rule: "transition",
+      message: `${ticket.type} tickets cannot be ${ticket.status} without going through their workflow; move the ticket to Open before changing its type`,
+    },
+  ];
+}
+
+/** Next statuses reachable from the ticket's current status, for the caller's role. */
+export function transitionOptions(
+  transitions: WorkflowTransition[],
+  ticket: Tables<"tickets">,
+  role: Role,
+  facts: WorkflowFacts
+): TransitionOption[] {
+  const targets = TICKET_STATUSES.filter((s) =>
+    transitions.some((t) => t.to === s && t.from.includes(ticket.status as TicketStatus))
+  );
+  return targets.map((to) => {
+    const violations = checkTransition(transitions, ticket, to, role, facts);
+    const requires = transitions
+      .filter((t) => t.to === to && t.from.includes(ticket.status as TicketStatus))
+      .flatMap((t) => t.requires);
+    return { to, allowed: violations.length === 0, requires: [...new Set(requires)], violations };
+  });
+}
+
+/** The 422 body for a refused status change. */
+export function workflowErrorBody(ticket: Tables<"tickets">, to: string, violations: WorkflowViolation[]) {
+  return {
+    ok: false as const,
+    error: violations.map((v) => v.message).join("; "),
+    code: "workflow_violation" as const,
+    from: ticket.status,
+    to,
+    violations,
+  };
+}
+
+/**
+ * Validates and applies a status change, recording a `status_changed`
+ * event. `fields` are values saved in the same update (resolution notes
+ * typed in while resolving). Returns the violations instead when the
+ * workflow refuses the change.
+ */
+export async function transitionTicket(
+  supabase: any,
+  actor: ActorContext,
+  ticket: Tables<"tickets">,
+  to: string,
+  fields: { resolution_notes?: string } = {}
+): Promise<{ ticket: Tables<"tickets"> } | { violations: WorkflowViolation[] }> {
+  const transitions = await getWorkflow(supabase, ticket.type);
+  const facts = await loadWorkflowFacts(supabase, ticket, transitions);
+  const violations = checkTransition(transitions, { ...ticket, ...fields }, to, actor.role, facts);
+  if (violations.length > 0) return { violations };
+
+  const now = new Date().toISOString();
+  const patch: Record<string, unknown> = { ...fields, status: to };
+  if (to === "Resolved") patch.resolved_at = now;
+  if (to === "Closed" && !ticket.closed_at) patch.closed_at = now;
+
+  const { data: updated, error } = await (supabase.from("tickets") as any)
+    .update(patch)
+    .eq("id", ticket.id)
+    .select("*")
+    .single();
+  if (error) throw new Error(error.message);
+
+  const notesChanged = fields.resolution_notes !== undefined && fields.resolution_notes !== ticket.resolution_notes;
+  const { error: evErr } = await (supabase.from("ticket_events") as any).insert({
+    ticket_id: ticket.id,
+    actor_id: actor.userId,
+    event_type: "status_changed",
+    from_status: ticket.status,
+    to_status: to,
+    payload: notesChanged ? { fields: ["resolutionNotes"] } : {},
+  });
+  if (evErr) throw new Error(evErr.message);
+
+  return { ticket: updated };
+}
@@ -0,0 +1,57 @@
+BEGIN;
+
+-- Record which embedding provider/model produced each vector so that
+-- vectors from different models are never compared in rag_search.
+-- Existing rows were produced by the character-bucket hash embedder.
+ALTER TABLE public.rag_items
+  ADD COLUMN IF NOT EXISTS embedding_provider text NOT NULL DEFAULT 'hash',
+  ADD COLUMN IF NOT EXISTS embedding_model text NOT NULL DEFAULT 'char-bucket-v1';
+
+CREATE INDEX IF NOT EXISTS rag_items_embedding_provider_model_idx
+  ON public.rag_items (embedding_provider, embedding_model);
+
+-- Signature changes, so drop the old overload first.
+DROP FUNCTION IF EXISTS public.rag_search(vector, integer, text);
+
+CREATE OR REPLACE FUNCTION public.rag_search(
+  query_embedding vector(384),
+  match_count integer DEFAULT 8,
+  filter_source_type text DEFAULT NULL,
+  filter_embedding_provider text DEFAULT NULL,
+  filter_embedding_model text DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  source_type text,
+  source_id text,
+  chunk_index integer,
+  title text,
+  content text,
+  metadata jsonb,
+  embedding_provider text,
+  embedding_model text,
+  score double precision
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    r.id,
+    r.source_type,
+    r.source_id,
+    r.chunk_index,
+    r.title,
+    r.content,
+    r.metadata,
+    r.embedding_provider,
+    r.embedding_model,
+    (1 - (r.embedding <=> query_embedding))::double precision AS score
+  FROM public.rag_items r
+  WHERE (filter_source_type IS NULL OR r.source_type = filter_source_type)
+    AND (filter_embedding_provider IS NULL OR r.embedding_provider = filter_embedding_provider)
+    AND (filter_embedding_model IS NULL OR r.embedding_model = filter_embedding_model)
+  ORDER BY r.embedding <=> query_embedding
+  LIMIT match_count;
+$$;
+
+COMMIT;
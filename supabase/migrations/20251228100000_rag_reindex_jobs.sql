@@ -0,0 +1,61 @@
+BEGIN;
+
+-- Tracks full RAG re-embedding runs (mirrors sync_logs so the UI can poll progress).
+CREATE TABLE IF NOT EXISTS public.rag_reindex_jobs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  status text NOT NULL DEFAULT 'running', -- 'running', 'completed', 'failed'
+  source_types text[] NOT NULL DEFAULT '{}'::text[], -- empty = all sources
+  embedding_provider text NOT NULL,
+  embedding_model text NOT NULL,
+  items_total integer NOT NULL DEFAULT 0,
+  items_processed integer NOT NULL DEFAULT 0,
+  items_failed integer NOT NULL DEFAULT 0,
+  chunks_written integer NOT NULL DEFAULT 0,
+  failures jsonb NOT NULL DEFAULT '[]'::jsonb, -- [{source_type, source_id, error}]
+  error_message text,
+  created_by uuid,
+  started_at timestamptz NOT NULL DEFAULT now(),
+  finished_at timestamptz,
+  CONSTRAINT rag_reindex_jobs_status_check CHECK (status IN ('running', 'completed', 'failed'))
+);
+
+CREATE INDEX IF NOT EXISTS rag_reindex_jobs_started_at_idx ON public.rag_reindex_jobs(started_at DESC);
+
+-- Replace all chunks of one document in a single transaction.
+-- p_rows: [{chunk_index, title, content, metadata, embedding, embedding_provider, embedding_model}]
+CREATE OR REPLACE FUNCTION public.rag_replace_document(
+  p_source_type text,
+  p_source_id text,
+  p_rows jsonb
+)
+RETURNS integer
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  inserted integer;
+BEGIN
+  DELETE FROM public.rag_items
+  WHERE source_type = p_source_type AND source_id = p_source_id;
+
+  INSERT INTO public.rag_items (
+    source_type, source_id, chunk_index, title, content, metadata,
+    embedding, embedding_provider, embedding_model
+  )
+  SELECT
+    p_source_type,
+    p_source_id,
+    (r->>'chunk_index')::integer,
+    r->>'title',
+    r->>'content',
+    COALESCE(r->'metadata', '{}'::jsonb),
+    (r->>'embedding')::vector(384),
+    r->>'embedding_provider',
+    r->>'embedding_model'
+  FROM jsonb_array_elements(p_rows) AS r;
+
+  GET DIAGNOSTICS inserted = ROW_COUNT;
+  RETURN inserted;
+END;
+$$;
+
+COMMIT;
@@ -0,0 +1,128 @@
+BEGIN;
+
+-- Full-text index over title + content. The 'simple' config does no stemming
+-- or stop-word removal, so error codes, hostnames and PLC tag names survive
+-- tokenization intact.
+ALTER TABLE public.rag_items
+  ADD COLUMN IF NOT EXISTS search_tsv tsvector
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('simple', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('simple', coalesce(content, '')), 'B')
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS rag_items_search_tsv_gin
+  ON public.rag_items USING gin (search_tsv);
+
+DROP FUNCTION IF EXISTS public.rag_search(vector, integer, text, text, text);
+
+-- search_mode:
+--   'vector'  - cosine similarity only (score = vector_score)
+--   'lexical' - full-text rank only (score = lexical_score); no embedding needed
+--   'hybrid'  - reciprocal rank fusion of both candidate lists:
+--               score = 1/(rrf_k + vector_rank) + 1/(rrf_k + lexical_rank)
+-- Embedding provider/model filters only apply to the vector signal; lexical
+-- matches are model-independent.
+CREATE OR REPLACE FUNCTION public.rag_search(
+  query_embedding vector(384) DEFAULT NULL,
+  match_count integer DEFAULT 8,
+  filter_source_type text DEFAULT NULL,
+  filter_embedding_provider text DEFAULT NULL,
+  filter_embedding_model text DEFAULT NULL,
+  query_text text DEFAULT NULL,
+  search_mode text DEFAULT 'vector',
+  rrf_k integer DEFAULT 60
+)
+RETURNS TABLE (
+  id uuid,
+  source_type text,
+  source_id text,
+  chunk_index integer,
+  title text,
+  content text,
+  metadata jsonb,
+  embedding_provider text,
+  embedding_model text,
+  score double precision,
+  vector_score double precision,
+  lexical_score double precision,
+  vector_rank integer,
+  lexical_rank integer
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH lex_query AS (
+    -- OR together every query term so long pasted messages still match
+    -- documents that share only the distinctive tokens.
+    SELECT to_tsquery(
+      'simple',
+      string_agg('''' || replace(replace(t.lexeme, '\', '\\'), '''', '''''') || '''', ' | ')
+    ) AS tsq
+    FROM unnest(tsvector_to_array(to_tsvector('simple', coalesce(query_text, '')))) AS t(lexeme)
+  ),
+  vec AS (
+    SELECT
+      r.id,
+      (1 - (r.embedding <=> query_embedding))::double precision AS vector_score,
+      (row_number() OVER (ORDER BY r.embedding <=> query_embedding))::integer AS vector_rank
+    FROM public.rag_items r
+    WHERE search_mode IN ('vector', 'hybrid')
+      AND query_embedding IS NOT NULL
+      AND (filter_source_type IS NULL OR r.source_type = filter_source_type)
+      AND (filter_embedding_provider IS NULL OR r.embedding_provider = filter_embedding_provider)
+      AND (filter_embedding_model IS NULL OR r.embedding_model = filter_embedding_model)
+    ORDER BY r.embedding <=> query_embedding
+    LIMIT match_count * 4
+  ),
+  lex AS (
+    SELECT
+      r.id,
+      ts_rank_cd(r.search_tsv, q.tsq, 32)::double precision AS lexical_score,
+      (row_number() OVER (ORDER BY ts_rank_cd(r.search_tsv, q.tsq, 32) DESC))::integer AS lexical_rank
+    FROM public.rag_items r
+    CROSS JOIN lex_query q
+    WHERE search_mode IN ('lexical', 'hybrid')
+      AND q.tsq IS NOT NULL
+      AND r.search_tsv @@ q.tsq
+      AND (filter_source_type IS NULL OR r.source_type = filter_source_type)
+    ORDER BY lexical_score DESC
+    LIMIT match_count * 4
+  ),
+  fused AS (
+    SELECT
+      coalesce(v.id, l.id) AS id,
+      v.vector_score,
+      l.lexical_score,
+      v.vector_rank,
+      l.lexical_rank,
+      CASE search_mode
+        WHEN 'vector' THEN v.vector_score
+        WHEN 'lexical' THEN l.lexical_score
+        ELSE coalesce(1.0 / (rrf_k + v.vector_rank), 0)
+           + coalesce(1.0 / (rrf_k + l.lexical_rank), 0)
+      END::double precision AS score
+    FROM vec v
+    FULL OUTER JOIN lex l ON l.id = v.id
+  )
+  SELECT
+    r.id,
+    r.source_type,
+    r.source_id,
+    r.chunk_index,
+    r.title,
+    r.content,
+    r.metadata,
+    r.embedding_provider,
+    r.embedding_model,
+    f.score,
+    f.vector_score,
+    f.lexical_score,
+    f.vector_rank,
+    f.lexical_rank
+  FROM fused f
+  JOIN public.rag_items r ON r.id = f.id
+  ORDER BY f.score DESC NULLS LAST
+  LIMIT match_count;
+$$;
+
+COMMIT;
@@ -0,0 +1,151 @@
+BEGIN;
+
+-- Structured filters over rag_items.metadata (as written by ticketToRagDocument).
+-- filters: {
+--   "service": text, "site": text,            -- case-insensitive equality
+--   "topics": text[],                         -- any overlap
+--   "priorities": text[],                     -- priority IN (...)
+--   "resolved_after": timestamptz, "resolved_before": timestamptz
+-- }
+-- Absent keys (or a NULL filters object) match everything.
+CREATE OR REPLACE FUNCTION public.rag_metadata_matches(metadata jsonb, filters jsonb)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    filters IS NULL
+    OR (
+      (filters->>'service' IS NULL
+        OR lower(metadata->>'service') = lower(filters->>'service'))
+      AND (filters->>'site' IS NULL
+        OR lower(metadata->>'site') = lower(filters->>'site'))
+      AND (jsonb_typeof(filters->'topics') IS DISTINCT FROM 'array'
+        OR jsonb_array_length(filters->'topics') = 0
+        OR (
+          jsonb_typeof(metadata->'topics') = 'array'
+          AND metadata->'topics' ?| ARRAY(SELECT jsonb_array_elements_text(filters->'topics'))
+        ))
+      AND (jsonb_typeof(filters->'priorities') IS DISTINCT FROM 'array'
+        OR jsonb_array_length(filters->'priorities') = 0
+        OR metadata->>'priority' IN (SELECT jsonb_array_elements_text(filters->'priorities')))
+      AND (filters->>'resolved_after' IS NULL
+        OR (metadata->>'resolved_at' IS NOT NULL
+          AND (metadata->>'resolved_at')::timestamptz >= (filters->>'resolved_after')::timestamptz))
+      AND (filters->>'resolved_before' IS NULL
+        OR (metadata->>'resolved_at' IS NOT NULL
+          AND (metadata->>'resolved_at')::timestamptz <= (filters->>'resolved_before')::timestamptz))
+    );
+$$;
+
+DROP FUNCTION IF EXISTS public.rag_search(vector, integer, text, text, text, text, text, integer);
+
+-- Same as the hybrid rag_search, plus filter_metadata (see rag_metadata_matches)
+-- applied to both the vector and lexical candidate lists.
+CREATE OR REPLACE FUNCTION public.rag_search(
+  query_embedding vector(384) DEFAULT NULL,
+  match_count integer DEFAULT 8,
+  filter_source_type text DEFAULT NULL,
+  filter_embedding_provider text DEFAULT NULL,
+  filter_embedding_model text DEFAULT NULL,
+  query_text text DEFAULT NULL,
+  search_mode text DEFAULT 'vector',
+  rrf_k integer DEFAULT 60,
+  filter_metadata jsonb DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  source_type text,
+  source_id text,
+  chunk_index integer,
+  title text,
+  content text,
+  metadata jsonb,
+  embedding_provider text,
+  embedding_model text,
+  score double precision,
+  vector_score double precision,
+  lexical_score double precision,
+  vector_rank integer,
+  lexical_rank integer
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH lex_query AS (
+    -- OR together every query term so long pasted messages still match
+    -- documents that share only the distinctive tokens.
+    SELECT to_tsquery(
+      'simple',
+      string_agg('''' || replace(replace(t.lexeme, '\', '\\'), '''', '''''') || '''', ' | ')
+    ) AS tsq
+    FROM unnest(tsvector_to_array(to_tsvector('simple', coalesce(query_text, '')))) AS t(lexeme)
+  ),
+  vec AS (
+    SELECT
+      r.id,
+      (1 - (r.embedding <=> query_embedding))::double precision AS vector_score,
+      (row_number() OVER (ORDER BY r.embedding <=> query_embedding))::integer AS vector_rank
+    FROM public.rag_items r
+    WHERE search_mode IN ('vector', 'hybrid')
+      AND query_embedding IS NOT NULL
+      AND (filter_source_type IS NULL OR r.source_type = filter_source_type)
+      AND (filter_embedding_provider IS NULL OR r.embedding_provider = filter_embedding_provider)
+      AND (filter_embedding_model IS NULL OR r.embedding_model = filter_embedding_model)
+      AND public.rag_metadata_matches(r.metadata, filter_metadata)
+    ORDER BY r.embedding <=> query_embedding
+    LIMIT match_count * 4
+  ),
+  lex AS (
+    SELECT
+      r.id,
+      ts_rank_cd(r.search_tsv, q.tsq, 32)::double precision AS lexical_score,
+      (row_number() OVER (ORDER BY ts_rank_cd(r.search_tsv, q.tsq, 32) DESC))::integer AS lexical_rank
+    FROM public.rag_items r
+    CROSS JOIN lex_query q
+    WHERE search_mode IN ('lexical', 'hybrid')
+      AND q.tsq IS NOT NULL
+      AND r.search_tsv @@ q.tsq
+      AND (filter_source_type IS NULL OR r.source_type = filter_source_type)
+      AND public.rag_metadata_matches(r.metadata, filter_metadata)
+    ORDER BY lexical_score DESC
+    LIMIT match_count * 4
+  ),
+  fused AS (
+    SELECT
+      coalesce(v.id, l.id) AS id,
+      v.vector_score,
+      l.lexical_score,
+      v.vector_rank,
+      l.lexical_rank,
+      CASE search_mode
+        WHEN 'vector' THEN v.vector_score
+        WHEN 'lexical' THEN l.lexical_score
+        ELSE coalesce(1.0 / (rrf_k + v.vector_rank), 0)
+           + coalesce(1.0 / (rrf_k + l.lexical_rank), 0)
+      END::double precision AS score
+    FROM vec v
+    FULL OUTER JOIN lex l ON l.id = v.id
+  )
+  SELECT
+    r.id,
+    r.source_type,
+    r.source_id,
+    r.chunk_index,
+    r.title,
+    r.content,
+    r.metadata,
+    r.embedding_provider,
+    r.embedding_model,
+    f.score,
+    f.vector_score,
+    f.lexical_score,
+    f.vector_rank,
+    f.lexical_rank
+  FROM fused f
+  JOIN public.rag_items r ON r.id = f.id
+  ORDER BY f.score DESC NULLS LAST
+  LIMIT match_count;
+$$;
+
+COMMIT;
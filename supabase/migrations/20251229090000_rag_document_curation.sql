@@ -0,0 +1,158 @@
+BEGIN;
+
+-- Admin curation flags per RAG document. Kept outside rag_items so they
+-- survive re-upserts and full re-embedding runs (which replace all chunks).
+CREATE TABLE IF NOT EXISTS public.rag_document_curation (
+  source_type text NOT NULL,
+  source_id text NOT NULL,
+  pinned boolean NOT NULL DEFAULT false, -- boosted in document-level ranking
+  blacklisted boolean NOT NULL DEFAULT false, -- never returned by rag_search
+  note text,
+  updated_by uuid,
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (source_type, source_id)
+);
+
+-- One row per stored document, for the admin memory browser.
+CREATE OR REPLACE VIEW public.rag_documents AS
+SELECT
+  r.source_type,
+  r.source_id,
+  (array_agg(r.title ORDER BY r.chunk_index))[1] AS title,
+  count(*)::integer AS chunk_count,
+  sum(length(r.content))::integer AS content_chars,
+  min(r.embedding_provider) AS embedding_provider,
+  min(r.embedding_model) AS embedding_model,
+  min(r.created_at) AS created_at,
+  max(r.updated_at) AS updated_at,
+  coalesce(bool_or(c.pinned), false) AS pinned,
+  coalesce(bool_or(c.blacklisted), false) AS blacklisted
+FROM public.rag_items r
+LEFT JOIN public.rag_document_curation c
+  ON c.source_type = r.source_type AND c.source_id = r.source_id
+GROUP BY r.source_type, r.source_id;
+
+-- Return type gains "pinned", so the previous definition has to go first.
+DROP FUNCTION IF EXISTS public.rag_search(vector, integer, text, text, text, text, text, integer, jsonb);
+
+-- Same as the filtered hybrid rag_search, but blacklisted documents are
+-- excluded from both candidate lists and each row reports its pinned flag.
+CREATE OR REPLACE FUNCTION public.rag_search(
+  query_embedding vector(384) DEFAULT NULL,
+  match_count integer DEFAULT 8,
+  filter_source_type text DEFAULT NULL,
+  filter_embedding_provider text DEFAULT NULL,
+  filter_embedding_model text DEFAULT NULL,
+  query_text text DEFAULT NULL,
+  search_mode text DEFAULT 'vector',
+  rrf_k integer DEFAULT 60,
+  filter_metadata jsonb DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  source_type text,
+  source_id text,
+  chunk_index integer,
+  title text,
+  content text,
+  metadata jsonb,
+  embedding_provider text,
+  embedding_model text,
+  score double precision,
+  vector_score double precision,
+  lexical_score double precision,
+  vector_rank integer,
+  lexical_rank integer,
+  pinned boolean
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH lex_query AS (
+    -- OR together every query term so long pasted messages still match
+    -- documents that share only the distinctive tokens.
+    SELECT to_tsquery(
+      'simple',
+      string_agg('''' || replace(replace(t.lexeme, '\', '\\'), '''', '''''') || '''', ' | ')
+    ) AS tsq
+    FROM unnest(tsvector_to_array(to_tsvector('simple', coalesce(query_text, '')))) AS t(lexeme)
+  ),
+  vec AS (
+    SELECT
+      r.id,
+      (1 - (r.embedding <=> query_embedding))::double precision AS vector_score,
+      (row_number() OVER (ORDER BY r.embedding <=> query_embedding))::integer AS vector_rank
+    FROM public.rag_items r
+    WHERE search_mode IN ('vector', 'hybrid')
+      AND query_embedding IS NOT NULL
+      AND (filter_source_type IS NULL OR r.source_type = filter_source_type)
+      AND (filter_embedding_provider IS NULL OR r.embedding_provider = filter_embedding_provider)
+      AND (filter_embedding_model IS NULL OR r.embedding_model = filter_embedding_model)
+      AND public.rag_metadata_matches(r.metadata, filter_metadata)
+      AND NOT EXISTS (
+        SELECT 1 FROM public.rag_document_curation c
+        WHERE c.source_type = r.source_type AND c.source_id = r.source_id AND c.blacklisted
+      )
+    ORDER BY r.embedding <=> query_embedding
+    LIMIT match_count * 4
+  ),
+  lex AS (
+    SELECT
+      r.id,
+      ts_rank_cd(r.search_tsv, q.tsq, 32)::double precision AS lexical_score,
+      (row_number() OVER (ORDER BY ts_rank_cd(r.search_tsv, q.tsq, 32) DESC))::integer AS lexical_rank
+    FROM public.rag_items r
+    CROSS JOIN lex_query q
+    WHERE search_mode IN ('lexical', 'hybrid')
+      AND q.tsq IS NOT NULL
+      AND r.search_tsv @@ q.tsq
+      AND (filter_source_type IS NULL OR r.source_type = filter_source_type)
+      AND public.rag_metadata_matches(r.metadata, filter_metadata)
+      AND NOT EXISTS (
+        SELECT 1 FROM public.rag_document_curation c
+        WHERE c.source_type = r.source_type AND c.source_id = r.source_id AND c.blacklisted
+      )
+    ORDER BY lexical_score DESC
+    LIMIT match_count * 4
+  ),
+  fused AS (
+    SELECT
+      coalesce(v.id, l.id) AS id,
+      v.vector_score,
+      l.lexical_score,
+      v.vector_rank,
+      l.lexical_rank,
+      CASE search_mode
+        WHEN 'vector' THEN v.vector_score
+        WHEN 'lexical' THEN l.lexical_score
+        ELSE coalesce(1.0 / (rrf_k + v.vector_rank), 0)
+           + coalesce(1.0 / (rrf_k + l.lexical_rank), 0)
+      END::double precision AS score
+    FROM vec v
+    FULL OUTER JOIN lex l ON l.id = v.id
+  )
+  SELECT
+    r.id,
+    r.source_type,
+    r.source_id,
+    r.chunk_index,
+    r.title,
+    r.content,
+    r.metadata,
+    r.embedding_provider,
+    r.embedding_model,
+    f.score,
+    f.vector_score,
+    f.lexical_score,
+    f.vector_rank,
+    f.lexical_rank,
+    coalesce(c.pinned, false) AS pinned
+  FROM fused f
+  JOIN public.rag_items r ON r.id = f.id
+  LEFT JOIN public.rag_document_curation c
+    ON c.source_type = r.source_type AND c.source_id = r.source_id
+  ORDER BY f.score DESC NULLS LAST
+  LIMIT match_count;
+$$;
+
+COMMIT;
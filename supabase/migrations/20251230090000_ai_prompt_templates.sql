@@ -0,0 +1,116 @@
+BEGIN;
+
+-- Versioned prompt templates for the AI endpoints. Versions are immutable:
+-- an edit inserts a new version, and exactly one version per key is active.
+-- Templates use {{variable}} placeholders rendered by lib/prompt-templates.ts.
+CREATE TABLE IF NOT EXISTS public.ai_prompt_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  key text NOT NULL, -- 'suggest', 'sop_draft'
+  version integer NOT NULL,
+  system_template text NOT NULL,
+  user_template text NOT NULL,
+  notes text,
+  is_active boolean NOT NULL DEFAULT false,
+  created_by uuid,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT ai_prompt_templates_key_version_key UNIQUE (key, version),
+  CONSTRAINT ai_prompt_templates_version_check CHECK (version >= 1)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS ai_prompt_templates_active_idx
+  ON public.ai_prompt_templates(key)
+  WHERE is_active;
+
+-- Swaps the active version of a key in one statement pair, so the partial
+-- unique index never sees two active rows and readers never see none.
+CREATE OR REPLACE FUNCTION public.activate_prompt_template(p_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  target_key text;
+BEGIN
+  SELECT key INTO target_key FROM public.ai_prompt_templates WHERE id = p_id;
+  IF target_key IS NULL THEN
+    RAISE EXCEPTION 'Prompt template % not found', p_id;
+  END IF;
+
+  UPDATE public.ai_prompt_templates
+  SET is_active = false
+  WHERE key = target_key AND is_active AND id <> p_id;
+
+  UPDATE public.ai_prompt_templates
+  SET is_active = true
+  WHERE id = p_id;
+END;
+$$;
+
+-- Which prompt produced a rated answer (null for the built-in fallback).
+ALTER TABLE public.ai_recommendation_ratings
+  ADD COLUMN IF NOT EXISTS prompt_template_id uuid REFERENCES public.ai_prompt_templates(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS prompt_template_version integer;
+
+CREATE INDEX IF NOT EXISTS ai_recommendation_ratings_prompt_idx
+  ON public.ai_recommendation_ratings(prompt_template_id);
+
+-- Version 1 of each key is the prompt that used to be hard-coded in lib/ai.ts.
+INSERT INTO public.ai_prompt_templates (key, version, system_template, user_template, notes, is_active)
+VALUES
+(
+  'suggest',
+  1,
+  $prompt$You are an expert L2/L3 support engineer specializing in industrial software (MES, ERP, PLC) and enterprise IT systems. Your objective: Provide highly technical, concise, and grounded resolution guidance. BEYOND ALL: You MUST be strictly grounded in the provided EVIDENCE (RAG). Do not use outside knowledge or hallucinate commands. If evidence is insufficient, clearly state that and ask specific technical questions. Return ONLY valid JSON matching the requested schema. No markdown, no pre-amble. All confidence values must be accurate numbers in [0,1] reflecting evidence strength.$prompt$,
+  $prompt$TASK: Analyze the issue and propose likely root causes and step-by-step resolution guidance.
+
+ISSUE:
+Title: {{title}}
+Description: {{description}}
+{{topics}}
+
+EVIDENCE:
+{{evidence}}
+
+OUTPUT JSON SCHEMA:
+{{schema}}
+
+RULES:
+- Every root cause and every step MUST include at least one evidence_refs entry from the provided refs (E1..En).
+- If you cannot support something with evidence, do not include it; instead add it as a question.
+- Prefer APPROVED SOP evidence over tickets. Never rely on a DRAFT SOP alone; corroborate it or lower confidence.$prompt$,
+  'Initial version',
+  true
+),
+(
+  'sop_draft',
+  1,
+  $prompt$You are a technical documentation specialist and senior operations engineer. TASK: Synthesize the provided resolution notes and RAG evidence into a professional Standard Operating Procedure (SOP). RULES: Use strictly imperative, clear technical language. Ground all steps in the evidence and resolution notes provided. Do not invent commands or configuration paths. If missing, be conservative. Return ONLY valid JSON. No markdown summaries or chat chatter.$prompt$,
+  $prompt$TASK: Generate a Standard Operating Procedure (SOP) draft for the resolved issue.
+
+TICKET:
+Title: {{title}}
+Description: {{description}}
+{{topics}}
+
+RESOLUTION NOTES (authoritative):
+{{resolution_notes}}
+
+OPTIONAL NOTES:
+Validation: {{validation_notes}}
+Rollback: {{rollback_notes}}
+
+EVIDENCE:
+{{evidence}}
+
+OUTPUT JSON SCHEMA:
+{{schema}}
+
+RULES:
+- Use clear imperative steps.
+- Include validation and rollback procedures if supported; otherwise keep them minimal and conservative.
+- references must be evidence refs used (E1..En).$prompt$,
+  'Initial version',
+  true
+)
+ON CONFLICT (key, version) DO NOTHING;
+
+COMMIT;
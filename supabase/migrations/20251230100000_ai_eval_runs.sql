@@ -0,0 +1,47 @@
+BEGIN;
+
+-- Offline evaluation runs: a fixed set of historical tickets replayed
+-- through aiSuggest under one model / prompt / retrieval configuration.
+CREATE TABLE IF NOT EXISTS public.ai_eval_runs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  status text NOT NULL DEFAULT 'running', -- 'running', 'completed', 'failed'
+  config jsonb NOT NULL DEFAULT '{}'::jsonb, -- {route, promptTemplateId, temperature, retrieval}
+  ticket_ids uuid[] NOT NULL DEFAULT '{}'::uuid[], -- the case set, in replay order
+  expected_source_ids jsonb NOT NULL DEFAULT '{}'::jsonb, -- {ticket_id: ["ticket:<id>", ...]}
+  cases_total integer NOT NULL DEFAULT 0,
+  cases_processed integer NOT NULL DEFAULT 0,
+  cases_failed integer NOT NULL DEFAULT 0,
+  summary jsonb, -- aggregate scores, set when the run completes
+  error_message text,
+  created_by uuid,
+  started_at timestamptz NOT NULL DEFAULT now(),
+  finished_at timestamptz,
+  CONSTRAINT ai_eval_runs_status_check CHECK (status IN ('running', 'completed', 'failed'))
+);
+
+CREATE INDEX IF NOT EXISTS ai_eval_runs_started_at_idx ON public.ai_eval_runs(started_at DESC);
+
+-- One scored case per ticket per run.
+CREATE TABLE IF NOT EXISTS public.ai_eval_results (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_id uuid NOT NULL REFERENCES public.ai_eval_runs(id) ON DELETE CASCADE,
+  ticket_id uuid NOT NULL,
+  json_outcome text, -- AiOutputOutcome; null when the case errored
+  json_valid boolean NOT NULL DEFAULT false,
+  citation_coverage real, -- supported claims / claims checked
+  resolution_overlap real, -- share of resolution_notes terms the suggestion covers
+  retrieval_recall real, -- share of expected documents retrieved; null when none expected
+  retrieved_source_ids text[] NOT NULL DEFAULT '{}'::text[],
+  suggestion jsonb,
+  model_info jsonb,
+  prompt jsonb,
+  latency_ms integer,
+  error text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT ai_eval_results_run_ticket_key UNIQUE (run_id, ticket_id)
+);
+
+CREATE INDEX IF NOT EXISTS ai_eval_results_run_idx ON public.ai_eval_results(run_id);
+
+COMMIT;
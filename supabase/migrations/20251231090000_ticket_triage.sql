@@ -0,0 +1,40 @@
+BEGIN;
+
+-- AI triage proposals are kept on the ticket timeline.
+ALTER TABLE public.ticket_events DROP CONSTRAINT IF EXISTS ticket_events_type_check;
+ALTER TABLE public.ticket_events
+  ADD CONSTRAINT ticket_events_type_check
+  CHECK (event_type IN ('created','updated','status_changed','commented','assigned','triage_suggested'));
+
+-- Version 1 of the triage prompt mirrors the built-in one in lib/prompt-templates.ts.
+INSERT INTO public.ai_prompt_templates (key, version, system_template, user_template, notes, is_active)
+VALUES
+(
+  'triage',
+  1,
+  $prompt$You are a service desk dispatcher for industrial (MES, ERP, PLC) and enterprise IT systems. TASK: Classify a new ticket by its type, priority, topics, service and site. Base every label on the ticket text and on the labels of the similar resolved tickets provided. Return ONLY valid JSON matching the requested schema. No markdown, no pre-amble. Confidence values must be numbers in [0,1]; use low values when the text is vague or the similar tickets disagree.$prompt$,
+  $prompt$TASK: Propose labels for this new ticket.
+
+NEW TICKET:
+Title: {{title}}
+Description: {{description}}
+
+ALLOWED TOPICS:
+{{topic_catalog}}
+
+SIMILAR RESOLVED TICKETS:
+{{evidence}}
+
+OUTPUT JSON SCHEMA:
+{{schema}}
+
+RULES:
+- topics must be chosen from ALLOWED TOPICS only; propose at most 3.
+- service and site must be copied exactly from a similar ticket that clearly matches; otherwise null.
+- P1 means production down or safety impact; P4 means cosmetic or a routine request.$prompt$,
+  'Initial version',
+  true
+)
+ON CONFLICT (key, version) DO NOTHING;
+
+COMMIT;
@@ -0,0 +1,71 @@
+BEGIN;
+
+-- A ticket reported again is linked to the original instead of being worked twice.
+ALTER TABLE public.tickets
+  ADD COLUMN IF NOT EXISTS duplicate_of uuid REFERENCES public.tickets(id) ON DELETE SET NULL;
+
+ALTER TABLE public.tickets DROP CONSTRAINT IF EXISTS tickets_duplicate_of_self_check;
+ALTER TABLE public.tickets
+  ADD CONSTRAINT tickets_duplicate_of_self_check CHECK (duplicate_of IS NULL OR duplicate_of <> id);
+
+CREATE INDEX IF NOT EXISTS tickets_duplicate_of_idx
+  ON public.tickets(duplicate_of)
+  WHERE duplicate_of IS NOT NULL;
+
+ALTER TABLE public.ticket_events DROP CONSTRAINT IF EXISTS ticket_events_type_check;
+ALTER TABLE public.ticket_events
+  ADD CONSTRAINT ticket_events_type_check
+  CHECK (event_type IN ('created','updated','status_changed','commented','assigned','triage_suggested','linked'));
+
+-- Open tickets are not in RAG memory, so the duplicate gate finds them with
+-- full-text search here and re-scores the candidates by embedding in
+-- lib/ticket-duplicates.ts. Same OR-of-terms query as rag_search; the set of
+-- open tickets is small enough to scan without a stored tsvector.
+CREATE OR REPLACE FUNCTION public.search_open_tickets(
+  query_text text,
+  match_count integer DEFAULT 20
+)
+RETURNS TABLE (
+  id uuid,
+  external_id text,
+  title text,
+  description text,
+  status text,
+  priority text,
+  lexical_score double precision
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH lex_query AS (
+    SELECT to_tsquery(
+      'simple',
+      string_agg('''' || replace(replace(t.lexeme, '\', '\\'), '''', '''''') || '''', ' | ')
+    ) AS tsq
+    FROM unnest(tsvector_to_array(to_tsvector('simple', coalesce(query_text, '')))) AS t(lexeme)
+  ),
+  docs AS (
+    SELECT
+      t.*,
+      setweight(to_tsvector('simple', coalesce(t.title, '')), 'A') ||
+      setweight(to_tsvector('simple', coalesce(t.description, '')), 'B') AS tsv
+    FROM public.tickets t
+    WHERE t.status IN ('Open', 'In Progress')
+  )
+  SELECT
+    d.id,
+    d.external_id,
+    d.title,
+    d.description,
+    d.status,
+    d.priority,
+    ts_rank_cd(d.tsv, q.tsq, 32)::double precision AS lexical_score
+  FROM docs d
+  CROSS JOIN lex_query q
+  WHERE q.tsq IS NOT NULL
+    AND d.tsv @@ q.tsq
+  ORDER BY lexical_score DESC
+  LIMIT match_count;
+$$;
+
+COMMIT;
@@ -0,0 +1,105 @@
+BEGIN;
+
+-- Typed relations between tickets. Each link is stored once, read from
+-- `from_ticket_id`: "A duplicate_of B", "A caused_by B", "A child_of B".
+-- 'related' is symmetric: stored once, in whichever direction it was made.
+CREATE TABLE IF NOT EXISTS public.ticket_links (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  from_ticket_id uuid NOT NULL REFERENCES public.tickets(id) ON DELETE CASCADE,
+  to_ticket_id uuid NOT NULL REFERENCES public.tickets(id) ON DELETE CASCADE,
+  link_type text NOT NULL,
+  created_by uuid,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT ticket_links_type_check CHECK (link_type IN ('duplicate_of', 'caused_by', 'child_of', 'related')),
+  CONSTRAINT ticket_links_not_self_check CHECK (from_ticket_id <> to_ticket_id),
+  CONSTRAINT ticket_links_unique_key UNIQUE (from_ticket_id, to_ticket_id, link_type)
+);
+
+CREATE INDEX IF NOT EXISTS ticket_links_from_idx ON public.ticket_links(from_ticket_id);
+CREATE INDEX IF NOT EXISTS ticket_links_to_idx ON public.ticket_links(to_ticket_id);
+
+-- tickets.duplicate_of stays the quick pointer; every value has a link row.
+INSERT INTO public.ticket_links (from_ticket_id, to_ticket_id, link_type)
+SELECT id, duplicate_of, 'duplicate_of'
+FROM public.tickets
+WHERE duplicate_of IS NOT NULL
+ON CONFLICT (from_ticket_id, to_ticket_id, link_type) DO NOTHING;
+
+-- Folds p_sources into p_target in one transaction: their events and links
+-- move to the target, and each source is closed as a duplicate of it.
+CREATE OR REPLACE FUNCTION public.merge_tickets(
+  p_target uuid,
+  p_sources uuid[],
+  p_actor uuid DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  target_title text;
+  src record;
+BEGIN
+  SELECT title INTO target_title FROM public.tickets WHERE id = p_target FOR UPDATE;
+  IF target_title IS NULL THEN
+    RAISE EXCEPTION 'Ticket % not found', p_target;
+  END IF;
+  IF p_target = ANY(p_sources) THEN
+    RAISE EXCEPTION 'A ticket cannot be merged into itself';
+  END IF;
+  IF (SELECT count(*) FROM public.tickets WHERE id = ANY(p_sources)) <> cardinality(p_sources) THEN
+    RAISE EXCEPTION 'Some tickets to merge were not found';
+  END IF;
+
+  -- History moves with a marker of where it came from.
+  UPDATE public.ticket_events
+  SET ticket_id = p_target,
+      payload = payload || jsonb_build_object('merged_from', ticket_id)
+  WHERE ticket_id = ANY(p_sources);
+
+  -- Re-point the sources' other links at the target, dropping any that
+  -- would now be self-links or repeats. A source's own duplicate_of is
+  -- replaced below, not inherited by the target.
+  INSERT INTO public.ticket_links (from_ticket_id, to_ticket_id, link_type, created_by, created_at)
+  SELECT
+    CASE WHEN l.from_ticket_id = ANY(p_sources) THEN p_target ELSE l.from_ticket_id END,
+    CASE WHEN l.to_ticket_id = ANY(p_sources) THEN p_target ELSE l.to_ticket_id END,
+    l.link_type,
+    l.created_by,
+    l.created_at
+  FROM public.ticket_links l
+  WHERE (l.from_ticket_id = ANY(p_sources) OR l.to_ticket_id = ANY(p_sources))
+    AND NOT (l.link_type = 'duplicate_of' AND l.from_ticket_id = ANY(p_sources))
+    AND (CASE WHEN l.from_ticket_id = ANY(p_sources) THEN p_target ELSE l.from_ticket_id END)
+      <> (CASE WHEN l.to_ticket_id = ANY(p_sources) THEN p_target ELSE l.to_ticket_id END)
+  ON CONFLICT (from_ticket_id, to_ticket_id, link_type) DO NOTHING;
+
+  DELETE FROM public.ticket_links
+  WHERE from_ticket_id = ANY(p_sources) OR to_ticket_id = ANY(p_sources);
+
+  UPDATE public.tickets
+  SET duplicate_of = p_target
+  WHERE duplicate_of = ANY(p_sources);
+
+  FOR src IN SELECT id, title, status FROM public.tickets WHERE id = ANY(p_sources) LOOP
+    UPDATE public.tickets
+    SET status = 'Closed',
+        closed_at = coalesce(closed_at, now()),
+        duplicate_of = p_target
+    WHERE id = src.id;
+
+    INSERT INTO public.ticket_links (from_ticket_id, to_ticket_id, link_type, created_by)
+    VALUES (src.id, p_target, 'duplicate_of', p_actor)
+    ON CONFLICT (from_ticket_id, to_ticket_id, link_type) DO NOTHING;
+
+    INSERT INTO public.ticket_events (ticket_id, actor_id, event_type, from_status, to_status, payload)
+    VALUES
+      (src.id, p_actor, 'status_changed', src.status, 'Closed', jsonb_build_object('reason', 'merged')),
+      (src.id, p_actor, 'linked', NULL, NULL,
+        jsonb_build_object('relation', 'merged_into', 'ticket_id', p_target, 'title', target_title)),
+      (p_target, p_actor, 'linked', NULL, NULL,
+        jsonb_build_object('relation', 'merged', 'ticket_id', src.id, 'title', src.title));
+  END LOOP;
+END;
+$$;
+
+COMMIT;
@@ -0,0 +1,29 @@
+BEGIN;
+
+-- Teams double as queues: a ticket is routed to a team and, optionally,
+-- owned by one engineer (tickets.assigned_to, a local_users id).
+CREATE TABLE IF NOT EXISTS public.teams (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  description text NOT NULL DEFAULT '',
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT teams_name_key UNIQUE (name)
+);
+
+CREATE TABLE IF NOT EXISTS public.team_members (
+  team_id uuid NOT NULL REFERENCES public.teams(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES public.local_users(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (team_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS team_members_user_idx ON public.team_members(user_id);
+
+ALTER TABLE public.tickets
+  ADD COLUMN IF NOT EXISTS team_id uuid REFERENCES public.teams(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS tickets_assigned_to_idx ON public.tickets(assigned_to);
+CREATE INDEX IF NOT EXISTS tickets_team_id_idx ON public.tickets(team_id);
+
+COMMIT;
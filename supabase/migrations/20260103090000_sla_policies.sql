@@ -0,0 +1,90 @@
+BEGIN;
+
+-- Opening hours per site. `hours` maps weekday (sun..sat) to local
+-- [["HH:MM","HH:MM"], ...] intervals; holidays are local dates. A ticket uses
+-- the calendar listing its site, else the default one.
+CREATE TABLE IF NOT EXISTS public.business_calendars (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  timezone text NOT NULL DEFAULT 'UTC',
+  hours jsonb NOT NULL,
+  holidays date[] NOT NULL DEFAULT '{}',
+  sites text[] NOT NULL DEFAULT '{}',
+  is_default boolean NOT NULL DEFAULT false,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT business_calendars_name_key UNIQUE (name)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS business_calendars_one_default_idx
+  ON public.business_calendars(is_default)
+  WHERE is_default;
+
+-- Targets per ticket type and priority; null matches any. The most specific
+-- active policy wins. Clocks stop while a ticket is in one of
+-- `pause_statuses` (and once it is Resolved or Closed).
+CREATE TABLE IF NOT EXISTS public.sla_policies (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  ticket_type text,
+  priority text,
+  response_minutes integer NOT NULL,
+  resolution_minutes integer NOT NULL,
+  business_hours boolean NOT NULL DEFAULT true,
+  pause_statuses text[] NOT NULL DEFAULT '{}',
+  active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT sla_policies_targets_check CHECK (response_minutes > 0 AND resolution_minutes >= response_minutes)
+);
+
+-- Per-ticket timers. Targets and calendar are copied from the policy when
+-- the ticket is created (or its type, priority or site changes), so later
+-- policy edits do not move existing deadlines.
+CREATE TABLE IF NOT EXISTS public.ticket_slas (
+  ticket_id uuid PRIMARY KEY REFERENCES public.tickets(id) ON DELETE CASCADE,
+  policy_id uuid REFERENCES public.sla_policies(id) ON DELETE SET NULL,
+  calendar_id uuid REFERENCES public.business_calendars(id) ON DELETE SET NULL,
+  response_minutes integer NOT NULL,
+  resolution_minutes integer NOT NULL,
+  business_hours boolean NOT NULL,
+  pause_statuses text[] NOT NULL DEFAULT '{}',
+  started_at timestamptz NOT NULL,
+  first_response_at timestamptz,
+  response_due_at timestamptz NOT NULL,
+  resolution_due_at timestamptz NOT NULL,
+  paused_at timestamptz,
+  paused_minutes double precision NOT NULL DEFAULT 0,
+  response_breached_at timestamptz,
+  resolution_breached_at timestamptz,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS ticket_slas_resolution_due_idx ON public.ticket_slas(resolution_due_at);
+
+ALTER TABLE public.ticket_events DROP CONSTRAINT IF EXISTS ticket_events_type_check;
+ALTER TABLE public.ticket_events
+  ADD CONSTRAINT ticket_events_type_check
+  CHECK (event_type IN ('created','updated','status_changed','commented','assigned','triage_suggested','linked','sla_breached'));
+
+INSERT INTO public.business_calendars (name, timezone, hours, is_default)
+VALUES (
+  'Standard business hours',
+  'UTC',
+  '{"mon":[["09:00","17:00"]],"tue":[["09:00","17:00"]],"wed":[["09:00","17:00"]],"thu":[["09:00","17:00"]],"fri":[["09:00","17:00"]]}'::jsonb,
+  true
+)
+ON CONFLICT (name) DO NOTHING;
+
+-- P1 runs around the clock; the rest count business hours.
+INSERT INTO public.sla_policies (name, priority, response_minutes, resolution_minutes, business_hours)
+SELECT v.name, v.priority, v.response_minutes, v.resolution_minutes, v.business_hours
+FROM (VALUES
+  ('P1 default', 'P1', 15, 240, false),
+  ('P2 default', 'P2', 30, 480, true),
+  ('P3 default', 'P3', 240, 1440, true),
+  ('P4 default', 'P4', 480, 2880, true)
+) AS v(name, priority, response_minutes, resolution_minutes, business_hours)
+WHERE NOT EXISTS (SELECT 1 FROM public.sla_policies);
+
+COMMIT;
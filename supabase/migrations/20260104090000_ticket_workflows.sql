@@ -0,0 +1,14 @@
+BEGIN;
+
+-- Per-type workflow overrides. A ticket type without a row follows the
+-- built-in workflow in lib/ticket-workflow.ts; deleting a row resets it.
+CREATE TABLE IF NOT EXISTS public.ticket_workflows (
+  ticket_type text PRIMARY KEY,
+  transitions jsonb NOT NULL,
+  updated_by uuid REFERENCES public.local_users(id) ON DELETE SET NULL,
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT ticket_workflows_type_check CHECK (ticket_type IN ('Incident','Service Request','Problem','Change')),
+  CONSTRAINT ticket_workflows_transitions_check CHECK (jsonb_typeof(transitions) = 'array')
+);
+
+COMMIT;
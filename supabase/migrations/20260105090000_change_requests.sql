@@ -0,0 +1,44 @@
+BEGIN;
+
+-- CAB details for Change tickets, one row per ticket. A change is drafted,
+-- submitted for approval, then approved once `quorum` named approvers agree
+-- (or rejected once too many decline for the quorum to be reached).
+CREATE TABLE IF NOT EXISTS public.change_requests (
+  ticket_id uuid PRIMARY KEY REFERENCES public.tickets(id) ON DELETE CASCADE,
+  risk text NOT NULL DEFAULT 'Medium',
+  window_start timestamptz,
+  window_end timestamptz,
+  affected_assets text[] NOT NULL DEFAULT '{}',
+  backout_plan text NOT NULL DEFAULT '',
+  quorum integer NOT NULL DEFAULT 1,
+  approval_status text NOT NULL DEFAULT 'draft',
+  submitted_at timestamptz,
+  decided_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT change_requests_risk_check CHECK (risk IN ('Low','Medium','High')),
+  CONSTRAINT change_requests_status_check CHECK (approval_status IN ('draft','pending','approved','rejected')),
+  CONSTRAINT change_requests_window_check CHECK (window_end IS NULL OR window_start IS NULL OR window_end > window_start),
+  CONSTRAINT change_requests_quorum_check CHECK (quorum >= 1)
+);
+
+CREATE TABLE IF NOT EXISTS public.change_approvers (
+  ticket_id uuid NOT NULL REFERENCES public.change_requests(ticket_id) ON DELETE CASCADE,
+  approver_id uuid NOT NULL REFERENCES public.local_users(id) ON DELETE CASCADE,
+  decision text,
+  comment text NOT NULL DEFAULT '',
+  decided_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (ticket_id, approver_id),
+  CONSTRAINT change_approvers_decision_check CHECK (decision IS NULL OR decision IN ('approved','rejected'))
+);
+
+CREATE INDEX IF NOT EXISTS change_approvers_approver_idx ON public.change_approvers(approver_id);
+CREATE INDEX IF NOT EXISTS change_requests_status_idx ON public.change_requests(approval_status);
+
+ALTER TABLE public.ticket_events DROP CONSTRAINT IF EXISTS ticket_events_type_check;
+ALTER TABLE public.ticket_events
+  ADD CONSTRAINT ticket_events_type_check
+  CHECK (event_type IN ('created','updated','status_changed','commented','assigned','triage_suggested','linked','sla_breached','approved','rejected'));
+
+COMMIT;
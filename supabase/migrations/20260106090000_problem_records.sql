@@ -0,0 +1,21 @@
+BEGIN;
+
+-- Known-error record of a Problem ticket, one row per ticket. Once
+-- published it is indexed into RAG memory (source_type 'known_error') so
+-- suggestions for matching incidents surface the workaround.
+CREATE TABLE IF NOT EXISTS public.problem_records (
+  ticket_id uuid PRIMARY KEY REFERENCES public.tickets(id) ON DELETE CASCADE,
+  root_cause text NOT NULL DEFAULT '',
+  workaround text NOT NULL DEFAULT '',
+  permanent_fix text NOT NULL DEFAULT '',
+  known_error_status text NOT NULL DEFAULT 'draft',
+  published_at timestamptz,
+  published_by uuid REFERENCES public.local_users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT problem_records_status_check CHECK (known_error_status IN ('draft','published'))
+);
+
+CREATE INDEX IF NOT EXISTS problem_records_status_idx ON public.problem_records(known_error_status);
+
+COMMIT;
@@ -0,0 +1,69 @@
+BEGIN;
+
+-- Postmortem of a P1/P2 incident, one row per ticket. Drafted by the local
+-- model from the ticket timeline, edited by engineers and approved by an
+-- Admin like an SOP; approved postmortems are indexed into RAG memory
+-- (source_type 'postmortem').
+CREATE TABLE IF NOT EXISTS public.postmortems (
+  ticket_id uuid PRIMARY KEY REFERENCES public.tickets(id) ON DELETE CASCADE,
+  title text NOT NULL,
+  summary text NOT NULL DEFAULT '',
+  timeline jsonb NOT NULL DEFAULT '[]'::jsonb, -- [{ at, event }]
+  impact text NOT NULL DEFAULT '',
+  root_cause text NOT NULL DEFAULT '',
+  contributing_factors text[] NOT NULL DEFAULT '{}'::text[],
+  action_items jsonb NOT NULL DEFAULT '[]'::jsonb, -- [{ action, owner, due_date }]
+  references text[] NOT NULL DEFAULT '{}'::text[], -- evidence refs used by the draft
+  status text NOT NULL DEFAULT 'Draft',
+  created_by uuid REFERENCES public.local_users(id) ON DELETE SET NULL,
+  approved_by uuid REFERENCES public.local_users(id) ON DELETE SET NULL,
+  approved_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT postmortems_status_check CHECK (status IN ('Draft','Approved')),
+  CONSTRAINT postmortems_timeline_check CHECK (jsonb_typeof(timeline) = 'array'),
+  CONSTRAINT postmortems_action_items_check CHECK (jsonb_typeof(action_items) = 'array')
+);
+
+CREATE INDEX IF NOT EXISTS postmortems_status_idx ON public.postmortems(status);
+
+-- Version 1 of the postmortem prompt mirrors the built-in one in lib/prompt-templates.ts.
+INSERT INTO public.ai_prompt_templates (key, version, system_template, user_template, notes, is_active)
+VALUES
+(
+  'postmortem',
+  1,
+  $prompt$You are a senior operations engineer writing a blameless postmortem for a major incident in industrial (MES, ERP, PLC) or enterprise IT systems. Base every statement on the incident record, its timeline, comments and linked tickets; use the background EVIDENCE only for context from past incidents and SOPs. Do not invent times, people, systems or commands; when something is unknown, say so. Return ONLY valid JSON matching the requested schema. No markdown, no pre-amble.$prompt$,
+  $prompt$TASK: Draft a postmortem for this incident.
+
+INCIDENT:
+Title: {{title}}
+Description: {{description}}
+{{incident}}
+
+TIMELINE (authoritative):
+{{timeline}}
+
+COMMENTS AND WORK NOTES:
+{{comments}}
+
+LINKED TICKETS:
+{{links}}
+
+BACKGROUND EVIDENCE:
+{{evidence}}
+
+OUTPUT JSON SCHEMA:
+{{schema}}
+
+RULES:
+- timeline entries must use timestamps taken from the TIMELINE or COMMENTS above, in ISO 8601.
+- Keep it blameless: describe systems, signals and decisions, not individual fault.
+- action_items must be concrete and checkable; owner is a username from the record or null, due_date is YYYY-MM-DD or null.
+- references must be evidence refs used (E1..En); leave it empty when the background evidence was not used.$prompt$,
+  'Initial version',
+  true
+)
+ON CONFLICT (key, version) DO NOTHING;
+
+COMMIT;
@@ -0,0 +1,8 @@
+BEGIN;
+
+-- Touched after every batch, so a job orphaned by a restart can be told apart
+-- from one that is still making progress.
+ALTER TABLE public.rag_reindex_jobs
+  ADD COLUMN IF NOT EXISTS updated_at timestamptz NOT NULL DEFAULT now();
+
+COMMIT;
@@ -0,0 +1,8 @@
+BEGIN;
+
+-- Touched after every case, so a run orphaned by a restart can be told apart
+-- from one that is still making progress.
+ALTER TABLE public.ai_eval_runs
+  ADD COLUMN IF NOT EXISTS updated_at timestamptz NOT NULL DEFAULT now();
+
+COMMIT;
@@ -0,0 +1,23 @@
+BEGIN;
+
+-- At most one running reindex job: enforces the lock the API checks, so two
+-- concurrent starts cannot both insert one. Older duplicates are failed
+-- first so the index can be built.
+UPDATE public.rag_reindex_jobs
+SET status = 'failed',
+    error_message = 'Superseded by a concurrent reindex job',
+    finished_at = now(),
+    updated_at = now()
+WHERE status = 'running'
+  AND id <> (
+    SELECT id FROM public.rag_reindex_jobs
+    WHERE status = 'running'
+    ORDER BY started_at DESC
+    LIMIT 1
+  );
+
+CREATE UNIQUE INDEX IF NOT EXISTS rag_reindex_jobs_one_running_idx
+  ON public.rag_reindex_jobs ((true))
+  WHERE status = 'running';
+
+COMMIT;
@@ -0,0 +1,23 @@
+BEGIN;
+
+-- At most one running evaluation: enforces the check the API makes, so two
+-- concurrent starts cannot both insert a run. Older duplicates are failed
+-- first so the index can be built.
+UPDATE public.ai_eval_runs
+SET status = 'failed',
+    error_message = 'Superseded by a concurrent evaluation run',
+    finished_at = now(),
+    updated_at = now()
+WHERE status = 'running'
+  AND id <> (
+    SELECT id FROM public.ai_eval_runs
+    WHERE status = 'running'
+    ORDER BY started_at DESC
+    LIMIT 1
+  );
+
+CREATE UNIQUE INDEX IF NOT EXISTS ai_eval_runs_one_running_idx
+  ON public.ai_eval_runs ((true))
+  WHERE status = 'running';
+
+COMMIT;